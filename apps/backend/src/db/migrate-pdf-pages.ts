@@ -0,0 +1,102 @@
+import pool from './client';
+import { ObjectStorageError, storePdfPage } from '../services/object-storage';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Moves PDF pages stored inline as base64 in `pages.content` into object storage and
+ * rewrites each row to reference the content-addressed key. Safe to re-run.
+ *
+ * Usage:
+ *   npm run storage:migrate-pdf-pages [-- --dry-run]
+ */
+async function migratePdfPages() {
+    const dryRun = process.argv.includes('--dry-run');
+    let lastId = 0;
+    let moved = 0;
+    let skipped = 0;
+    let bytesMoved = 0;
+
+    try {
+        console.log(dryRun ? 'Scanning inline PDF pages (dry run)...' : 'Moving inline PDF pages to object storage...');
+
+        for (;;) {
+            const batch = await pool.query(
+                `SELECT id, book_id, page_number, content
+                 FROM pages
+                 WHERE id > $1
+                   AND content LIKE '{"format":"pdf-page"%'
+                   AND strpos(content, '"pdfPageBase64"') > 0
+                 ORDER BY id
+                 LIMIT $2`,
+                [lastId, BATCH_SIZE]
+            );
+            if (batch.rows.length === 0) {
+                break;
+            }
+
+            for (const row of batch.rows) {
+                lastId = Number(row.id);
+                const label = `book ${row.book_id} page ${row.page_number}`;
+
+                let envelope: { text?: unknown; pdfPageBase64?: unknown };
+                try {
+                    envelope = JSON.parse(String(row.content));
+                } catch {
+                    console.warn(`⚠️  Skipping ${label}: content is not valid JSON`);
+                    skipped += 1;
+                    continue;
+                }
+
+                if (typeof envelope.pdfPageBase64 !== 'string' || !envelope.pdfPageBase64) {
+                    skipped += 1;
+                    continue;
+                }
+
+                const data = Buffer.from(envelope.pdfPageBase64, 'base64');
+                if (dryRun) {
+                    console.log(`  would move ${label} (${data.length} bytes)`);
+                    moved += 1;
+                    bytesMoved += data.length;
+                    continue;
+                }
+
+                try {
+                    const stored = await storePdfPage(data);
+                    await pool.query(
+                        'UPDATE pages SET content = $2 WHERE id = $1',
+                        [
+                            row.id,
+                            JSON.stringify({
+                                format: 'pdf-page',
+                                text: typeof envelope.text === 'string' ? envelope.text : '',
+                                pdfObjectKey: stored.key,
+                            }),
+                        ]
+                    );
+                    moved += 1;
+                    bytesMoved += stored.byteSize;
+                } catch (error) {
+                    if (!(error instanceof ObjectStorageError)) {
+                        throw error;
+                    }
+                    console.warn(`⚠️  Skipping ${label}: ${error.message}`);
+                    skipped += 1;
+                }
+            }
+        }
+
+        console.log(`✅ ${dryRun ? 'Would move' : 'Moved'} ${moved} PDF page(s), ${bytesMoved} bytes; skipped ${skipped}`);
+        if (!dryRun && moved > 0) {
+            console.log('Run VACUUM (FULL) pages to return the freed space to the operating system.');
+        }
+
+        await pool.end();
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ PDF page migration failed:', error);
+        process.exit(1);
+    }
+}
+
+migratePdfPages();
@@ -1,17 +1,51 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import pool from './client';
+import {
+    formatVersion,
+    getMigrationStatus,
+    migrateDown,
+    migrateUp,
+} from './migrator';
 
+/**
+ * Usage:
+ *   npm run migrate [-- up] [--to <version>] [--dry-run]
+ *   npm run migrate -- down [--steps <n> | --to <version>] [--dry-run]
+ *   npm run migrate -- status
+ */
 async function migrate() {
-    try {
-        console.log('Running database migrations...');
+    const args = process.argv.slice(2);
+    const command = args[0] && !args[0].startsWith('--') ? args[0] : 'up';
+    const dryRun = args.includes('--dry-run');
+    const log = (message: string) => console.log(message);
 
-        const schemaPath = path.join(__dirname, 'schema.sql');
-        const schema = fs.readFileSync(schemaPath, 'utf-8');
+    try {
+        const targetVersion = readIntFlag(args, '--to');
+        const steps = readIntFlag(args, '--steps');
 
-        await pool.query(schema);
+        if (command === 'status') {
+            const status = await getMigrationStatus(pool);
+            if (status.length === 0) {
+                console.log('No migrations found');
+            }
+            for (const entry of status) {
+                const appliedAt = entry.appliedAt ? `  ${entry.appliedAt}` : '';
+                console.log(`${formatVersion(entry.version)}_${entry.name}  ${entry.state}${appliedAt}`);
+            }
+        } else if (command === 'up') {
+            console.log(dryRun ? 'Planning database migrations (dry run)...' : 'Running database migrations...');
+            const applied = await migrateUp(pool, { dryRun, targetVersion, log });
+            console.log(applied.length === 0
+                ? '✅ Database schema is up to date'
+                : `✅ ${dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s)`);
+        } else if (command === 'down') {
+            console.log(dryRun ? 'Planning migration rollback (dry run)...' : 'Rolling back database migrations...');
+            const rolledBack = await migrateDown(pool, { dryRun, targetVersion, steps, log });
+            console.log(`✅ ${dryRun ? 'Would roll back' : 'Rolled back'} ${rolledBack.length} migration(s)`);
+        } else {
+            throw new Error(`Unknown migrate command '${command}'. Use up, down or status.`);
+        }
 
-        console.log('✅ Database migrations completed successfully');
+        await pool.end();
         process.exit(0);
     } catch (error) {
         console.error('❌ Migration failed:', error);
@@ -19,4 +53,18 @@ async function migrate() {
     }
 }
 
+function readIntFlag(args: string[], flag: string): number | undefined {
+    const index = args.indexOf(flag);
+    if (index === -1) {
+        return undefined;
+    }
+
+    const parsed = Number.parseInt(args[index + 1] || '', 10);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`${flag} expects a non-negative integer`);
+    }
+
+    return parsed;
+}
+
 migrate();
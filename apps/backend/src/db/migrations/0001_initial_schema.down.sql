@@ -0,0 +1,12 @@
+DROP TABLE IF EXISTS author_revenue_events;
+DROP TABLE IF EXISTS platform_revenue_events;
+DROP TABLE IF EXISTS author_settlement_batches;
+DROP TABLE IF EXISTS reader_book_progress;
+DROP TABLE IF EXISTS reader_chapter_unlocks;
+DROP TABLE IF EXISTS reader_page_unlocks;
+DROP TABLE IF EXISTS credit_transactions;
+DROP TABLE IF EXISTS credit_deposit_intents;
+DROP TABLE IF EXISTS reader_accounts;
+DROP TABLE IF EXISTS payment_logs;
+DROP TABLE IF EXISTS pages;
+DROP TABLE IF EXISTS books;
@@ -1,3 +1,6 @@
+-- Baseline schema. Uses IF NOT EXISTS so databases created by the old
+-- single-file schema.sql can adopt the migration history without changes.
+
 -- Books table
 CREATE TABLE IF NOT EXISTS books (
   id SERIAL PRIMARY KEY,
@@ -0,0 +1,24 @@
+-- Wallet sign-in challenges issued before message signing
+CREATE TABLE IF NOT EXISTS auth_challenges (
+  nonce VARCHAR(80) PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  message TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  consumed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Short-lived wallet sessions issued after a verified signature
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  last_seen_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_auth_challenges_wallet ON auth_challenges(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet_address, expires_at DESC);
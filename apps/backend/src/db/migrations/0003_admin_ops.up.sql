@@ -0,0 +1,30 @@
+-- API keys for platform ops (admin/operator/auditor)
+CREATE TABLE IF NOT EXISTS admin_api_keys (
+  id SERIAL PRIMARY KEY,
+  label VARCHAR(100) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'operator', 'auditor')),
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash VARCHAR(64) UNIQUE NOT NULL,
+  created_by VARCHAR(100),
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Audit trail for every privileged ops call
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id SERIAL PRIMARY KEY,
+  actor_type VARCHAR(20) NOT NULL,
+  actor_id VARCHAR(100) NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  action VARCHAR(100) NOT NULL,
+  http_method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  status_code INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_type, actor_id, created_at DESC);
@@ -0,0 +1,8 @@
+DROP INDEX IF EXISTS idx_reader_progress_book;
+DROP INDEX IF EXISTS idx_books_page_price;
+DROP INDEX IF EXISTS idx_books_created;
+DROP INDEX IF EXISTS idx_pages_search;
+DROP INDEX IF EXISTS idx_books_search;
+
+ALTER TABLE pages DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE books DROP COLUMN IF EXISTS search_vector;
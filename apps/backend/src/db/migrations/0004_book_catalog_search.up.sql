@@ -0,0 +1,26 @@
+-- Full-text search over book metadata (title weighted above author address)
+ALTER TABLE books
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(author_address, '')), 'B')
+  ) STORED;
+
+-- Full-text search over page text. PDF pages are stored as a JSON envelope,
+-- so only their extracted text is indexed (never the base64 page image).
+ALTER TABLE pages
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector(
+      'english',
+      CASE
+        WHEN left(content, 20) = '{"format":"pdf-page"' THEN coalesce(content::jsonb ->> 'text', '')
+        ELSE content
+      END
+    )
+  ) STORED;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_books_search ON books USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_pages_search ON pages USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_books_created ON books(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_books_page_price ON books(page_price, id);
+CREATE INDEX IF NOT EXISTS idx_reader_progress_book ON reader_book_progress(book_id);
@@ -0,0 +1,19 @@
+DROP INDEX IF EXISTS idx_chapters_book;
+DROP INDEX IF EXISTS idx_books_genres;
+DROP TABLE IF EXISTS chapters;
+
+DROP INDEX IF EXISTS idx_books_search;
+ALTER TABLE books DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE books
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(author_address, '')), 'B')
+  ) STORED;
+CREATE INDEX IF NOT EXISTS idx_books_search ON books USING GIN(search_vector);
+DROP FUNCTION IF EXISTS book_genres_text(TEXT[]);
+
+ALTER TABLE books DROP COLUMN IF EXISTS content_rating;
+ALTER TABLE books DROP COLUMN IF EXISTS isbn;
+ALTER TABLE books DROP COLUMN IF EXISTS language;
+ALTER TABLE books DROP COLUMN IF EXISTS genres;
+ALTER TABLE books DROP COLUMN IF EXISTS description;
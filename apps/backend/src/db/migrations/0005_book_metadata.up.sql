@@ -0,0 +1,53 @@
+-- Descriptive metadata shown on catalog and reader pages
+ALTER TABLE books ADD COLUMN description TEXT;
+ALTER TABLE books ADD COLUMN genres TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE books ADD COLUMN language VARCHAR(20);
+ALTER TABLE books ADD COLUMN isbn VARCHAR(13);
+ALTER TABLE books ADD COLUMN content_rating VARCHAR(20) NOT NULL DEFAULT 'general'
+  CHECK (content_rating IN ('general', 'teen', 'mature'));
+
+-- array_to_string is only STABLE (generic element output), but text[] -> text is
+-- deterministic, so wrap it for use in the generated search column.
+CREATE OR REPLACE FUNCTION book_genres_text(genres TEXT[]) RETURNS TEXT
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  AS $$ SELECT array_to_string(genres, ' ') $$;
+
+-- Rebuild the catalog search vector so blurbs and genres are searchable too
+DROP INDEX IF EXISTS idx_books_search;
+ALTER TABLE books DROP COLUMN search_vector;
+ALTER TABLE books
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(author_address, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(description, '')), 'C')
+    || setweight(to_tsvector('english', book_genres_text(genres)), 'B')
+  ) STORED;
+
+-- Table of contents: one row per chapter with its page range
+CREATE TABLE IF NOT EXISTS chapters (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chapter_number INTEGER NOT NULL CHECK (chapter_number >= 1),
+  title VARCHAR(200) NOT NULL,
+  start_page INTEGER NOT NULL CHECK (start_page >= 1),
+  end_page INTEGER NOT NULL,
+  CHECK (end_page >= start_page),
+  UNIQUE(book_id, chapter_number)
+);
+
+-- Backfill chapter ranges for books uploaded before chapter titles existed
+INSERT INTO chapters (book_id, chapter_number, title, start_page, end_page)
+SELECT
+  book_id,
+  COALESCE(chapter_number, 1),
+  'Chapter ' || COALESCE(chapter_number, 1),
+  MIN(page_number),
+  MAX(page_number)
+FROM pages
+GROUP BY book_id, COALESCE(chapter_number, 1)
+ON CONFLICT (book_id, chapter_number) DO NOTHING;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_books_search ON books USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_books_genres ON books USING GIN(genres);
+CREATE INDEX IF NOT EXISTS idx_chapters_book ON chapters(book_id, chapter_number);
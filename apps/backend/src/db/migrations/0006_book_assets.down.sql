@@ -0,0 +1,17 @@
+DROP INDEX IF EXISTS idx_book_assets_book;
+DROP INDEX IF EXISTS idx_pages_search;
+
+ALTER TABLE pages DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE pages
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector(
+      'english',
+      CASE
+        WHEN left(content, 20) = '{"format":"pdf-page"' THEN coalesce(content::jsonb ->> 'text', '')
+        ELSE content
+      END
+    )
+  ) STORED;
+CREATE INDEX IF NOT EXISTS idx_pages_search ON pages USING GIN(search_vector);
+
+DROP TABLE IF EXISTS book_assets;
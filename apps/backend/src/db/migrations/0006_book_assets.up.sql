@@ -0,0 +1,30 @@
+-- Binary assets extracted from imported books (EPUB images, covers)
+CREATE TABLE IF NOT EXISTS book_assets (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  asset_key VARCHAR(500) NOT NULL,   -- Path inside the source archive
+  media_type VARCHAR(100) NOT NULL,
+  byte_size INTEGER NOT NULL CHECK (byte_size >= 0),
+  page_number INTEGER,               -- First page showing the asset; NULL for covers
+  data BYTEA NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(book_id, asset_key)
+);
+
+-- Index the text of every JSON page envelope (pdf-page, epub-page), not just PDFs
+DROP INDEX IF EXISTS idx_pages_search;
+ALTER TABLE pages DROP COLUMN search_vector;
+ALTER TABLE pages
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector(
+      'english',
+      CASE
+        WHEN left(content, 11) = '{"format":"' THEN coalesce(content::jsonb ->> 'text', '')
+        ELSE content
+      END
+    )
+  ) STORED;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_pages_search ON pages USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_book_assets_book ON book_assets(book_id);
@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_upload_sessions_open_expiry;
+DROP INDEX IF EXISTS idx_upload_sessions_author;
+
+DROP TABLE IF EXISTS upload_session_parts;
+DROP TABLE IF EXISTS upload_session_pages;
+DROP TABLE IF EXISTS upload_sessions;
@@ -0,0 +1,44 @@
+-- Resumable book uploads: a draft is staged page by page (or as source file parts)
+-- and only becomes a book when the author finalizes the session.
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id VARCHAR(80) PRIMARY KEY,
+  author_address VARCHAR(50) NOT NULL,
+  source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('pages', 'epub')),
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'finalizing', 'completed', 'aborted', 'expired')),
+  book_draft JSONB NOT NULL,         -- Validated book fields, applied on finalize
+  expected_pages INTEGER CHECK (expected_pages > 0),
+  book_id INTEGER REFERENCES books(id) ON DELETE SET NULL,
+  last_error TEXT,                   -- Why the most recent finalize attempt failed
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Staged pages; re-sending a page number replaces it, so retries are idempotent
+CREATE TABLE IF NOT EXISTS upload_session_pages (
+  session_id VARCHAR(80) NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL CHECK (page_number > 0),
+  chapter_number INTEGER NOT NULL CHECK (chapter_number > 0),
+  format VARCHAR(20) NOT NULL,
+  content TEXT NOT NULL,             -- Already sanitized
+  pdf_object_key VARCHAR(200),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY(session_id, page_number)
+);
+
+-- Chunks of a source file (EPUB), kept in object storage until finalize
+CREATE TABLE IF NOT EXISTS upload_session_parts (
+  session_id VARCHAR(80) NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+  part_number INTEGER NOT NULL CHECK (part_number > 0),
+  object_key VARCHAR(200) NOT NULL,
+  byte_size INTEGER NOT NULL CHECK (byte_size > 0),
+  sha256 CHAR(64) NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY(session_id, part_number)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_author ON upload_sessions(author_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_open_expiry ON upload_sessions(expires_at) WHERE status = 'open';
@@ -0,0 +1,10 @@
+DROP INDEX IF EXISTS idx_books_scheduled;
+DROP INDEX IF EXISTS idx_books_status;
+
+ALTER TABLE books DROP CONSTRAINT IF EXISTS books_scheduled_publish_at;
+ALTER TABLE books
+  DROP COLUMN IF EXISTS status_updated_at,
+  DROP COLUMN IF EXISTS archived_at,
+  DROP COLUMN IF EXISTS published_at,
+  DROP COLUMN IF EXISTS publish_at,
+  DROP COLUMN IF EXISTS status;
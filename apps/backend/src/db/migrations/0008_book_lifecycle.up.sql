@@ -0,0 +1,19 @@
+-- Book lifecycle: draft -> (scheduled) -> published <-> unlisted -> archived
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'scheduled', 'published', 'unlisted', 'archived')),
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP,     -- When a scheduled book goes live
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMP,   -- First time the book went live
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP DEFAULT NOW();
+
+-- Existing books were live from the moment they were uploaded; new books start as drafts
+UPDATE books SET published_at = created_at WHERE published_at IS NULL;
+ALTER TABLE books ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE books
+  ADD CONSTRAINT books_scheduled_publish_at CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_books_status ON books(status);
+CREATE INDEX IF NOT EXISTS idx_books_scheduled ON books(publish_at) WHERE status = 'scheduled';
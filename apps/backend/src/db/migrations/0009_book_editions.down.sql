@@ -0,0 +1,9 @@
+DROP INDEX IF EXISTS idx_page_revisions_lookup;
+
+ALTER TABLE reader_book_progress DROP COLUMN IF EXISTS last_seen_edition;
+
+DROP TABLE IF EXISTS page_revisions;
+DROP TABLE IF EXISTS book_editions;
+
+ALTER TABLE pages DROP COLUMN IF EXISTS edition_number;
+ALTER TABLE books DROP COLUMN IF EXISTS current_edition;
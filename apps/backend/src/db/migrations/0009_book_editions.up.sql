@@ -0,0 +1,46 @@
+-- Edition history. `pages` always holds the current edition; content that a revision
+-- replaces or removes is moved to page_revisions so earlier editions stay retained.
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS current_edition INTEGER NOT NULL DEFAULT 1 CHECK (current_edition >= 1);
+
+ALTER TABLE pages
+  ADD COLUMN IF NOT EXISTS edition_number INTEGER NOT NULL DEFAULT 1;   -- Edition that introduced this content
+
+CREATE TABLE IF NOT EXISTS book_editions (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  edition_number INTEGER NOT NULL CHECK (edition_number >= 1),
+  changelog TEXT,                                  -- NULL for the first edition
+  total_pages INTEGER NOT NULL,
+  total_chapters INTEGER NOT NULL,
+  changed_pages INTEGER[] NOT NULL DEFAULT '{}',   -- Pages rewritten or added by this edition
+  removed_pages INTEGER[] NOT NULL DEFAULT '{}',   -- Pages dropped from the end of the book
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(book_id, edition_number)
+);
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  chapter_number INTEGER,
+  content TEXT NOT NULL,
+  edition_number INTEGER NOT NULL,          -- Edition that introduced this content
+  superseded_in_edition INTEGER NOT NULL,   -- First edition where it no longer applies
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (superseded_in_edition > edition_number),
+  UNIQUE(book_id, page_number, edition_number)
+);
+
+-- Every existing book starts at edition 1
+INSERT INTO book_editions (book_id, edition_number, total_pages, total_chapters, created_at)
+SELECT id, 1, total_pages, total_chapters, created_at
+FROM books
+ON CONFLICT (book_id, edition_number) DO NOTHING;
+
+-- Which edition a reader last opened, so the reader can show what changed since
+ALTER TABLE reader_book_progress
+  ADD COLUMN IF NOT EXISTS last_seen_edition INTEGER;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_page_revisions_lookup ON page_revisions(book_id, page_number);
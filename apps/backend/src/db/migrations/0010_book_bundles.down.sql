@@ -0,0 +1,9 @@
+DROP INDEX IF EXISTS idx_book_entitlements_lookup;
+DROP INDEX IF EXISTS idx_book_entitlements_bundle;
+DROP INDEX IF EXISTS idx_book_entitlements_whole;
+DROP INDEX IF EXISTS idx_book_bundles_book;
+
+DROP TABLE IF EXISTS reader_book_entitlements;
+DROP TABLE IF EXISTS book_bundles;
+
+ALTER TABLE books DROP COLUMN IF EXISTS book_price;
@@ -0,0 +1,42 @@
+-- Whole-book price; NULL when the book is only sold by page and chapter
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS book_price BIGINT CHECK (book_price >= 0);   -- µSTX
+
+-- Author-defined multi-chapter bundles, e.g. "Part II"
+CREATE TABLE IF NOT EXISTS book_bundles (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  chapter_numbers INTEGER[] NOT NULL CHECK (cardinality(chapter_numbers) > 0),
+  price BIGINT NOT NULL CHECK (price >= 0),   -- µSTX
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,    -- Retired bundles stay for existing buyers
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Book-level entitlements from whole-book and bundle purchases. Bundle entitlements keep the
+-- chapters they were bought with, so later bundle edits never change what a reader owns.
+CREATE TABLE IF NOT EXISTS reader_book_entitlements (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('book', 'bundle')),
+  bundle_id INTEGER REFERENCES book_bundles(id) ON DELETE CASCADE,
+  chapter_numbers INTEGER[],                 -- NULL for the whole book
+  list_price BIGINT NOT NULL CHECK (list_price >= 0),
+  amount BIGINT NOT NULL CHECK (amount >= 0), -- Charged after subtracting prior spend
+  credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  unlocked_at TIMESTAMP DEFAULT NOW(),
+  CHECK (
+    (scope = 'book' AND bundle_id IS NULL AND chapter_numbers IS NULL)
+    OR (scope = 'bundle' AND bundle_id IS NOT NULL AND chapter_numbers IS NOT NULL)
+  )
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_book_bundles_book ON book_bundles(book_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_entitlements_whole
+  ON reader_book_entitlements(wallet_address, book_id) WHERE scope = 'book';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_entitlements_bundle
+  ON reader_book_entitlements(wallet_address, bundle_id) WHERE scope = 'bundle';
+CREATE INDEX IF NOT EXISTS idx_book_entitlements_lookup ON reader_book_entitlements(wallet_address, book_id);
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS book_price_overrides;
+
+ALTER TABLE books DROP COLUMN IF EXISTS free_chapters;
+ALTER TABLE books DROP COLUMN IF EXISTS free_pages;
@@ -0,0 +1,16 @@
+-- Leading pages/chapters readable without a charge (previously fixed at page 1 and chapter 1)
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS free_pages INTEGER NOT NULL DEFAULT 1 CHECK (free_pages >= 0);
+ALTER TABLE books
+  ADD COLUMN IF NOT EXISTS free_chapters INTEGER NOT NULL DEFAULT 1 CHECK (free_chapters >= 0);
+
+-- Author-set prices for individual pages or chapters, replacing the book's flat price
+CREATE TABLE IF NOT EXISTS book_price_overrides (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  target VARCHAR(10) NOT NULL CHECK (target IN ('page', 'chapter')),
+  target_number INTEGER NOT NULL CHECK (target_number >= 1),
+  price BIGINT NOT NULL CHECK (price >= 0),   -- µSTX
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(book_id, target, target_number)
+);
@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_promotion_redemptions_wallet;
+DROP INDEX IF EXISTS idx_promotions_book;
+DROP INDEX IF EXISTS idx_promotions_author;
+
+DROP TABLE IF EXISTS promotion_redemptions;
+DROP TABLE IF EXISTS reader_discount_claims;
+DROP TABLE IF EXISTS promotions;
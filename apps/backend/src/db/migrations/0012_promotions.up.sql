@@ -0,0 +1,45 @@
+-- Author-scoped sales. Without a code the discount applies automatically; with one, readers
+-- claim the code for a book first. NULL book_id covers every book by the author.
+CREATE TABLE IF NOT EXISTS promotions (
+  id SERIAL PRIMARY KEY,
+  author_address VARCHAR(50) NOT NULL,
+  book_id INTEGER REFERENCES books(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  code VARCHAR(40) UNIQUE,                    -- Stored upper-case
+  percent_off INTEGER NOT NULL CHECK (percent_off BETWEEN 1 AND 100),
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),   -- Discounted unlocks across all readers
+  per_wallet_limit INTEGER CHECK (per_wallet_limit > 0), -- Discounted unlocks per reader
+  redemption_count INTEGER NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+-- Discount code a reader applied to a book; one active code per reader and book
+CREATE TABLE IF NOT EXISTS reader_discount_claims (
+  wallet_address VARCHAR(50) NOT NULL,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  promotion_id INTEGER NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  claimed_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY(wallet_address, book_id)
+);
+
+-- One row per discounted page or chapter unlock
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id SERIAL PRIMARY KEY,
+  promotion_id INTEGER NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  wallet_address VARCHAR(50) NOT NULL,
+  book_id INTEGER REFERENCES books(id) ON DELETE CASCADE,
+  list_price BIGINT NOT NULL CHECK (list_price >= 0),
+  discount_amount BIGINT NOT NULL CHECK (discount_amount >= 0),
+  credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_promotions_author ON promotions(author_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_promotions_book ON promotions(book_id);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_wallet ON promotion_redemptions(promotion_id, wallet_address);
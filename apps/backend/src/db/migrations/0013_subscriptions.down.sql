@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_reader_subscriptions_unallocated;
+DROP INDEX IF EXISTS idx_reader_subscriptions_renewal;
+DROP INDEX IF EXISTS idx_reader_subscriptions_wallet;
+
+DROP TABLE IF EXISTS subscription_reads;
+DROP TABLE IF EXISTS reader_subscriptions;
+DROP TABLE IF EXISTS subscription_plans;
@@ -0,0 +1,42 @@
+-- All-you-can-read plans sold from prepaid credits, one calendar month per period
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(120) NOT NULL,
+  description TEXT,
+  price BIGINT NOT NULL CHECK (price > 0),     -- µSTX per month
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per paid month. Renewals add a new row; allocated_at marks the month's revenue as split
+CREATE TABLE IF NOT EXISTS reader_subscriptions (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  plan_id INTEGER NOT NULL REFERENCES subscription_plans(id),
+  amount BIGINT NOT NULL CHECK (amount >= 0),
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  auto_renew BOOLEAN NOT NULL DEFAULT TRUE,
+  renewal_status VARCHAR(20) CHECK (renewal_status IN ('renewed', 'lapsed')),
+  credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  allocated_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Pages a subscriber opened during a paid month; the weights for revenue allocation
+CREATE TABLE IF NOT EXISTS subscription_reads (
+  subscription_id INTEGER NOT NULL REFERENCES reader_subscriptions(id) ON DELETE CASCADE,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  read_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY(subscription_id, book_id, page_number)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_reader_subscriptions_wallet ON reader_subscriptions(wallet_address, ends_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reader_subscriptions_renewal ON reader_subscriptions(ends_at)
+  WHERE renewal_status IS NULL;
+CREATE INDEX IF NOT EXISTS idx_reader_subscriptions_unallocated ON reader_subscriptions(ends_at)
+  WHERE allocated_at IS NULL;
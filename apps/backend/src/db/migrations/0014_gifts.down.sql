@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_gifts_recipient;
+DROP INDEX IF EXISTS idx_gifts_sender;
+
+DROP TABLE IF EXISTS gifts;
@@ -0,0 +1,28 @@
+-- Credits or unlocks bought by one reader for another. The sender is debited when the gift is
+-- sent; the recipient receives it right away, or when they redeem the gift code.
+CREATE TABLE IF NOT EXISTS gifts (
+  id SERIAL PRIMARY KEY,
+  sender_address VARCHAR(50) NOT NULL,
+  recipient_address VARCHAR(50),             -- NULL until a gift code is redeemed
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('credits', 'book', 'chapter')),
+  book_id INTEGER REFERENCES books(id) ON DELETE SET NULL,
+  chapter_number INTEGER,
+  amount BIGINT NOT NULL CHECK (amount > 0), -- µSTX debited from the sender
+  message TEXT,
+  code_hash VARCHAR(64) UNIQUE,              -- SHA-256 of the gift code; NULL for direct gifts
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered')),
+  delivered_as VARCHAR(10) CHECK (delivered_as IN ('credits', 'book', 'chapter')),
+  sent_credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  received_credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP,
+  CHECK (
+    (kind = 'credits' AND book_id IS NULL AND chapter_number IS NULL)
+    OR (kind = 'book' AND chapter_number IS NULL)
+    OR (kind = 'chapter' AND chapter_number IS NOT NULL)
+  )
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_gifts_sender ON gifts(sender_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gifts_recipient ON gifts(recipient_address, delivered_at DESC);
@@ -0,0 +1,10 @@
+DROP INDEX IF EXISTS idx_author_revenue_clawbacks_author;
+DROP INDEX IF EXISTS idx_credit_disputes_status;
+DROP INDEX IF EXISTS idx_credit_disputes_wallet;
+
+ALTER TABLE author_settlement_batches DROP COLUMN IF EXISTS clawback_amount;
+ALTER TABLE platform_revenue_events DROP COLUMN IF EXISTS refunded_at;
+ALTER TABLE author_revenue_events DROP COLUMN IF EXISTS refunded_at;
+
+DROP TABLE IF EXISTS author_revenue_clawbacks;
+DROP TABLE IF EXISTS credit_disputes;
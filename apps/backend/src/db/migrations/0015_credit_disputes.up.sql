@@ -0,0 +1,45 @@
+-- Reader disputes over a page or chapter charge. Approving one refunds the charge, removes the
+-- unlock and reverses the revenue it produced.
+CREATE TABLE IF NOT EXISTS credit_disputes (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  credit_transaction_id INTEGER NOT NULL UNIQUE REFERENCES credit_transactions(id) ON DELETE CASCADE,
+  book_id INTEGER REFERENCES books(id) ON DELETE SET NULL,
+  page_number INTEGER,
+  chapter_number INTEGER,
+  amount BIGINT NOT NULL CHECK (amount > 0), -- µSTX charged, refunded in full on approval
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'denied')),
+  resolution_note TEXT,
+  resolved_by VARCHAR(100),                  -- Ops actor, e.g. `api_key:3`
+  refund_credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  resolved_at TIMESTAMP
+);
+
+-- Refunded author revenue that was already claimed for payout; deducted from the author's next
+-- settlement batch instead.
+CREATE TABLE IF NOT EXISTS author_revenue_clawbacks (
+  id SERIAL PRIMARY KEY,
+  author_address VARCHAR(50) NOT NULL,
+  revenue_event_id INTEGER REFERENCES author_revenue_events(id) ON DELETE SET NULL,
+  dispute_id INTEGER REFERENCES credit_disputes(id) ON DELETE SET NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reserved', 'applied')),
+  settlement_batch_id INTEGER REFERENCES author_settlement_batches(id) ON DELETE SET NULL,
+  reserved_at TIMESTAMP,
+  applied_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE author_revenue_events
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+ALTER TABLE platform_revenue_events
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+ALTER TABLE author_settlement_batches
+  ADD COLUMN IF NOT EXISTS clawback_amount BIGINT NOT NULL DEFAULT 0; -- Withheld from this payout
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_credit_disputes_wallet ON credit_disputes(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_disputes_status ON credit_disputes(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_author_revenue_clawbacks_author ON author_revenue_clawbacks(author_address, status, created_at);
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_credit_withdrawals_status;
+DROP INDEX IF EXISTS idx_credit_withdrawals_wallet;
+
+DROP TABLE IF EXISTS credit_withdrawals;
@@ -0,0 +1,23 @@
+-- Readers cashing unused credit back out to their wallet. The amount is held (debited) from
+-- reader_accounts when the request is made and released back if the transfer fails.
+CREATE TABLE IF NOT EXISTS credit_withdrawals (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(50) NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'broadcasted', 'confirmed', 'failed')),
+  hold_credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  release_credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  payout_tx_hash VARCHAR(100) UNIQUE,
+  nonce BIGINT,
+  broadcast_attempts INTEGER NOT NULL DEFAULT 0 CHECK (broadcast_attempts >= 0),
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  broadcast_at TIMESTAMP,
+  confirmed_at TIMESTAMP,
+  failed_at TIMESTAMP
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_credit_withdrawals_wallet ON credit_withdrawals(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_withdrawals_status ON credit_withdrawals(status, created_at);
@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_book_revenue_splits_payee;
+DROP INDEX IF EXISTS idx_book_split_versions_book;
+
+ALTER TABLE author_revenue_events DROP COLUMN IF EXISTS split_version_id;
+
+DROP TABLE IF EXISTS book_revenue_splits;
+DROP TABLE IF EXISTS book_split_versions;
@@ -0,0 +1,27 @@
+-- Author revenue splits between a book's contributors, in basis points. Every change is a new
+-- version so contributors can see the full history; the latest version applies to new charges.
+-- Books without a version pay the whole author share to books.author_address.
+CREATE TABLE IF NOT EXISTS book_split_versions (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  created_by VARCHAR(50) NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS book_revenue_splits (
+  id SERIAL PRIMARY KEY,
+  version_id INTEGER NOT NULL REFERENCES book_split_versions(id) ON DELETE CASCADE,
+  payee_address VARCHAR(50) NOT NULL,
+  role VARCHAR(20) NOT NULL
+    CHECK (role IN ('author', 'co_author', 'illustrator', 'translator', 'editor', 'other')),
+  share_bps INTEGER NOT NULL CHECK (share_bps > 0 AND share_bps <= 10000), -- Shares in a version sum to 10000
+  UNIQUE(version_id, payee_address)
+);
+
+ALTER TABLE author_revenue_events
+  ADD COLUMN IF NOT EXISTS split_version_id INTEGER REFERENCES book_split_versions(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_book_split_versions_book ON book_split_versions(book_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_book_revenue_splits_payee ON book_revenue_splits(payee_address);
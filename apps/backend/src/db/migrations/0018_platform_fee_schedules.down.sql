@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_platform_revenue_fee_schedule;
+DROP INDEX IF EXISTS idx_platform_fee_schedules_book;
+DROP INDEX IF EXISTS idx_platform_fee_schedules_author;
+
+ALTER TABLE platform_revenue_events DROP COLUMN IF EXISTS fee_schedule_id;
+
+DROP TABLE IF EXISTS platform_fee_schedules;
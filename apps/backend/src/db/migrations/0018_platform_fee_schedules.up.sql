@@ -0,0 +1,31 @@
+-- Platform fee rates in basis points. The most specific live schedule wins (book, then author,
+-- then global); within a scope a time-bounded rate beats an open-ended one. With no live global
+-- schedule the PLATFORM_FEE_BPS env var applies. Rates are never edited, only ended, so
+-- platform_revenue_events.fee_schedule_id always points at the rate that was charged.
+CREATE TABLE IF NOT EXISTS platform_fee_schedules (
+  id SERIAL PRIMARY KEY,
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('global', 'author', 'book')),
+  author_address VARCHAR(50),
+  book_id INTEGER REFERENCES books(id) ON DELETE CASCADE,
+  fee_bps INTEGER NOT NULL CHECK (fee_bps >= 0 AND fee_bps <= 10000),
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP,
+  first_days INTEGER CHECK (first_days IS NULL OR first_days > 0), -- Only while the book is this many days past publishing
+  note TEXT,
+  created_by VARCHAR(100) NOT NULL,                  -- Ops actor, e.g. `wallet:SP...`
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT platform_fee_schedules_target CHECK (
+    (scope = 'global' AND author_address IS NULL AND book_id IS NULL)
+    OR (scope = 'author' AND author_address IS NOT NULL AND book_id IS NULL)
+    OR (scope = 'book' AND book_id IS NOT NULL AND author_address IS NULL)
+  ),
+  CONSTRAINT platform_fee_schedules_window CHECK (ends_at IS NULL OR ends_at >= starts_at)
+);
+
+ALTER TABLE platform_revenue_events
+  ADD COLUMN IF NOT EXISTS fee_schedule_id INTEGER REFERENCES platform_fee_schedules(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_platform_fee_schedules_author ON platform_fee_schedules(author_address) WHERE scope = 'author';
+CREATE INDEX IF NOT EXISTS idx_platform_fee_schedules_book ON platform_fee_schedules(book_id) WHERE scope = 'book';
+CREATE INDEX IF NOT EXISTS idx_platform_revenue_fee_schedule ON platform_revenue_events(fee_schedule_id);
@@ -0,0 +1,9 @@
+DROP INDEX IF EXISTS idx_platform_revenue_refund_offset;
+DROP INDEX IF EXISTS idx_platform_revenue_sweep;
+DROP INDEX IF EXISTS idx_platform_fee_sweeps_status;
+
+ALTER TABLE platform_revenue_events
+  DROP COLUMN IF EXISTS refund_offset_sweep_id,
+  DROP COLUMN IF EXISTS sweep_id;
+
+DROP TABLE IF EXISTS platform_fee_sweeps;
@@ -0,0 +1,34 @@
+-- Platform fee settlement. Each sweep claims unsettled platform_revenue_events and either moves
+-- them to the cold wallet with a treasury STX transfer, or, without a cold wallet, settles them
+-- in place. The row doubles as the sweep's reconciliation record.
+CREATE TABLE IF NOT EXISTS platform_fee_sweeps (
+  id SERIAL PRIMARY KEY,
+  destination_address VARCHAR(50),                  -- NULL when fees are settled without a transfer
+  total_amount BIGINT NOT NULL CHECK (total_amount >= 0),
+  refund_offset_amount BIGINT NOT NULL DEFAULT 0 CHECK (refund_offset_amount >= 0), -- Fees refunded after an earlier sweep
+  transfer_amount BIGINT NOT NULL CHECK (transfer_amount >= 0),
+  event_count INTEGER NOT NULL CHECK (event_count >= 0),
+  period_start TIMESTAMP,                           -- Oldest and newest fee event in the sweep
+  period_end TIMESTAMP,
+  network VARCHAR(40),
+  status VARCHAR(20) NOT NULL DEFAULT 'created'
+    CHECK (status IN ('created', 'broadcasted', 'confirmed', 'failed')),
+  payout_tx_hash VARCHAR(100) UNIQUE,
+  nonce BIGINT,
+  last_error TEXT,
+  created_by VARCHAR(100) NOT NULL,                 -- Ops actor or `worker`
+  created_at TIMESTAMP DEFAULT NOW(),
+  broadcast_at TIMESTAMP,
+  confirmed_at TIMESTAMP,
+  CONSTRAINT platform_fee_sweeps_amounts CHECK (transfer_amount = total_amount - refund_offset_amount)
+);
+
+ALTER TABLE platform_revenue_events
+  ADD COLUMN IF NOT EXISTS sweep_id INTEGER REFERENCES platform_fee_sweeps(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS refund_offset_sweep_id INTEGER REFERENCES platform_fee_sweeps(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_platform_fee_sweeps_status ON platform_fee_sweeps(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_platform_revenue_sweep ON platform_revenue_events(sweep_id);
+CREATE INDEX IF NOT EXISTS idx_platform_revenue_refund_offset ON platform_revenue_events(refund_offset_sweep_id)
+  WHERE refunded_at IS NOT NULL;
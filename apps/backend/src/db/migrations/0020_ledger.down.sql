@@ -0,0 +1,8 @@
+DROP INDEX IF EXISTS idx_ledger_check_runs_finished;
+DROP INDEX IF EXISTS idx_ledger_transactions_kind;
+DROP INDEX IF EXISTS idx_ledger_entries_account;
+DROP INDEX IF EXISTS idx_ledger_entries_transaction;
+
+DROP TABLE IF EXISTS ledger_check_runs;
+DROP TABLE IF EXISTS ledger_entries;
+DROP TABLE IF EXISTS ledger_transactions;
@@ -0,0 +1,89 @@
+-- Double-entry ledger written in the same transactions as the money movements it mirrors.
+-- Amounts are signed microSTX: debits positive, credits negative, and every transaction sums to
+-- zero. `subject` is the wallet for reader_liability and author_payable lines.
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(40) NOT NULL,
+  reference VARCHAR(100),                           -- e.g. `batch:12`, `withdrawal:3`
+  credit_transaction_id INTEGER REFERENCES credit_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id SERIAL PRIMARY KEY,
+  ledger_transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'treasury_cash', 'reader_liability', 'author_payable', 'platform_revenue',
+    'subscription_deferred', 'gift_liability', 'withdrawal_payable'
+  )),
+  subject VARCHAR(50),
+  amount BIGINT NOT NULL CHECK (amount <> 0)
+);
+
+-- Invariant checker results; `violations` lists every drift found by the run.
+CREATE TABLE IF NOT EXISTS ledger_check_runs (
+  id SERIAL PRIMARY KEY,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('ok', 'drift')),
+  violation_count INTEGER NOT NULL DEFAULT 0,
+  violations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Opening balances from the state the ledger starts on. Treasury cash balances the other accounts.
+WITH opening AS (
+  INSERT INTO ledger_transactions (kind, reference)
+  VALUES ('opening_balance', 'migration:0020')
+  RETURNING id
+),
+balances AS (
+  SELECT 'reader_liability' AS account, wallet_address AS subject, -credit_balance AS amount
+  FROM reader_accounts
+  WHERE credit_balance <> 0
+  UNION ALL
+  SELECT 'author_payable', author_address, -SUM(amount)
+  FROM (
+    SELECT author_address, amount FROM author_revenue_events WHERE refunded_at IS NULL
+    UNION ALL
+    SELECT author_address, -total_amount FROM author_settlement_batches WHERE status = 'confirmed'
+  ) payable
+  GROUP BY author_address
+  HAVING SUM(amount) <> 0
+  UNION ALL
+  SELECT 'platform_revenue', NULL, -SUM(amount)
+  FROM (
+    SELECT amount FROM platform_revenue_events WHERE refunded_at IS NULL
+    UNION ALL
+    SELECT -transfer_amount FROM platform_fee_sweeps WHERE status = 'confirmed' AND destination_address IS NOT NULL
+  ) revenue
+  HAVING SUM(amount) <> 0
+  UNION ALL
+  SELECT 'subscription_deferred', NULL, -SUM(amount)
+  FROM reader_subscriptions
+  WHERE allocated_at IS NULL
+  HAVING SUM(amount) <> 0
+  UNION ALL
+  SELECT 'gift_liability', NULL, -SUM(amount)
+  FROM gifts
+  WHERE status = 'pending'
+  HAVING SUM(amount) <> 0
+  UNION ALL
+  SELECT 'withdrawal_payable', NULL, -SUM(amount)
+  FROM credit_withdrawals
+  WHERE status IN ('pending', 'broadcasted')
+  HAVING SUM(amount) <> 0
+)
+INSERT INTO ledger_entries (ledger_transaction_id, account, subject, amount)
+SELECT opening.id, lines.account, lines.subject, lines.amount
+FROM opening,
+     (
+       SELECT account, subject, amount FROM balances
+       UNION ALL
+       SELECT 'treasury_cash', NULL, -SUM(amount) FROM balances HAVING SUM(amount) <> 0
+     ) lines;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(ledger_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account, subject);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_kind ON ledger_transactions(kind, created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_check_runs_finished ON ledger_check_runs(finished_at DESC);
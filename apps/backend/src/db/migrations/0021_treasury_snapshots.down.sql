@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_treasury_snapshots_created;
+
+DROP TABLE IF EXISTS treasury_snapshots;
@@ -0,0 +1,24 @@
+-- On-chain treasury balance against what the platform owes, recorded by the treasury reconciler.
+-- Liabilities are reader credit, unsettled author revenue net of pending clawbacks, open
+-- withdrawals, pending gifts and unallocated subscriptions. `surplus` is negative on a deficit.
+CREATE TABLE IF NOT EXISTS treasury_snapshots (
+  id SERIAL PRIMARY KEY,
+  treasury_address VARCHAR(50) NOT NULL,
+  network VARCHAR(40),
+  onchain_balance BIGINT NOT NULL,
+  locked_balance BIGINT NOT NULL DEFAULT 0,         -- Stacked STX, not spendable for payouts
+  reader_liability BIGINT NOT NULL,
+  author_payable BIGINT NOT NULL,
+  withdrawal_payable BIGINT NOT NULL,
+  gift_liability BIGINT NOT NULL,
+  subscription_deferred BIGINT NOT NULL,
+  total_liabilities BIGINT NOT NULL,
+  unswept_platform_fees BIGINT NOT NULL,            -- Not a liability; explains most of the surplus
+  surplus BIGINT NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('solvent', 'deficit')),
+  created_by VARCHAR(100) NOT NULL,                 -- Ops actor or `worker`
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_treasury_snapshots_created ON treasury_snapshots(created_at DESC);
@@ -0,0 +1,6 @@
+DELETE FROM admin_audit_log WHERE actor_type IS NULL OR actor_id IS NULL OR role IS NULL;
+
+ALTER TABLE admin_audit_log
+  ALTER COLUMN role SET NOT NULL,
+  ALTER COLUMN actor_id SET NOT NULL,
+  ALTER COLUMN actor_type SET NOT NULL;
@@ -0,0 +1,6 @@
+-- Rejected ops calls (no or unknown credentials) are audited too, so the actor may be unknown.
+-- Rows are written before the handler runs; `status_code` stays NULL until the response completes.
+ALTER TABLE admin_audit_log
+  ALTER COLUMN actor_type DROP NOT NULL,
+  ALTER COLUMN actor_id DROP NOT NULL,
+  ALTER COLUMN role DROP NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE treasury_snapshots
+  DROP COLUMN IF EXISTS settling_transfers;
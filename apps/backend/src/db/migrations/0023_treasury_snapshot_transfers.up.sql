@@ -0,0 +1,4 @@
+-- Author payouts and withdrawals already confirmed on-chain but not yet finalized by their worker.
+-- The treasury balance no longer holds them, so they are reported here instead of as liabilities.
+ALTER TABLE treasury_snapshots
+  ADD COLUMN IF NOT EXISTS settling_transfers BIGINT NOT NULL DEFAULT 0;
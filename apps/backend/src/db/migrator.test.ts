@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { getMigrationStatus, loadMigrationFiles, migrateDown, migrateUp, MigrationError } from './migrator';
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+
+const LATEST_VERSION = loadMigrationFiles().at(-1)!.version;
+
+async function appliedVersions(): Promise<number[]> {
+    const lookup = await testPool.query('SELECT version FROM schema_migrations ORDER BY version');
+    return lookup.rows.map((row) => Number(row.version));
+}
+
+async function treasuryColumns(): Promise<string[]> {
+    const lookup = await testPool.query(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_name = 'treasury_snapshots' AND column_name = 'settling_transfers'`
+    );
+    return lookup.rows.map((row) => String(row.column_name));
+}
+
+describe('migrateUp', () => {
+    it('applies nothing once the schema is current', async () => {
+        expect(await migrateUp(testPool)).toEqual([]);
+        const status = await getMigrationStatus(testPool);
+        expect(status.every((entry) => entry.state === 'applied')).toBe(true);
+        expect(status).toHaveLength(LATEST_VERSION);
+    });
+
+    describe('with an edited migration', () => {
+        let checksum: string;
+
+        beforeAll(async () => {
+            const lookup = await testPool.query('SELECT checksum FROM schema_migrations WHERE version = 2');
+            checksum = String(lookup.rows[0].checksum);
+        });
+
+        afterEach(async () => {
+            await testPool.query('UPDATE schema_migrations SET checksum = $1 WHERE version = 2', [checksum]);
+        });
+
+        it('refuses to migrate when an applied file no longer matches its checksum', async () => {
+            await testPool.query(`UPDATE schema_migrations SET checksum = 'edited' WHERE version = 2`);
+
+            await expect(migrateUp(testPool)).rejects.toThrow(MigrationError);
+            await expect(migrateDown(testPool)).rejects.toThrow(/0002_\w+ \(checksum_mismatch\)/);
+            expect((await getMigrationStatus(testPool))[1].state).toBe('checksum_mismatch');
+            expect(await appliedVersions()).toHaveLength(LATEST_VERSION);
+        });
+    });
+});
+
+describe('migrateDown', () => {
+    afterEach(async () => {
+        await migrateUp(testPool);
+    });
+
+    it('rolls back the newest migration with its down script', async () => {
+        const rolledBack = await migrateDown(testPool);
+
+        expect(rolledBack.map((migration) => migration.version)).toEqual([LATEST_VERSION]);
+        expect(await treasuryColumns()).toEqual([]);
+        expect((await getMigrationStatus(testPool)).at(-1)?.state).toBe('pending');
+
+        expect(await migrateUp(testPool)).toHaveLength(1);
+        expect(await treasuryColumns()).toEqual(['settling_transfers']);
+    });
+
+    it('rolls every migration back and up again', async () => {
+        expect(await migrateDown(testPool, { targetVersion: 0 })).toHaveLength(LATEST_VERSION);
+        expect(await appliedVersions()).toEqual([]);
+
+        expect(await migrateUp(testPool)).toHaveLength(LATEST_VERSION);
+        expect(await appliedVersions()).toHaveLength(LATEST_VERSION);
+    });
+
+    it('changes nothing on a dry run', async () => {
+        const messages: string[] = [];
+        const log = (message: string) => messages.push(message);
+
+        expect(await migrateDown(testPool, { steps: 2, dryRun: true, log })).toHaveLength(2);
+
+        expect(messages).toHaveLength(2);
+        expect(await appliedVersions()).toHaveLength(LATEST_VERSION);
+        expect(await treasuryColumns()).toEqual(['settling_transfers']);
+    });
+
+    it('refuses to roll back when an applied migration has no file', async () => {
+        await testPool.query(
+            `INSERT INTO schema_migrations (version, name, checksum) VALUES (9999, 'removed', 'gone')`
+        );
+
+        await expect(migrateDown(testPool)).rejects.toThrow(/9999_removed \(missing_file\)/);
+        await testPool.query('DELETE FROM schema_migrations WHERE version = 9999');
+        expect(await appliedVersions()).toHaveLength(LATEST_VERSION);
+    });
+});
+
+describe('loadMigrationFiles', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'stackpad-migrations-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        for (const fileName of fs.readdirSync(directory)) {
+            fs.rmSync(path.join(directory, fileName));
+        }
+    });
+
+    it('pairs up and down scripts by version and ignores other files', () => {
+        fs.writeFileSync(path.join(directory, '0001_first.up.sql'), 'SELECT 1;\r\n');
+        fs.writeFileSync(path.join(directory, '0001_first.down.sql'), 'SELECT 2;');
+        fs.writeFileSync(path.join(directory, '0002_second.up.sql'), 'SELECT 1;\n');
+        fs.writeFileSync(path.join(directory, 'README.md'), 'notes');
+
+        const files = loadMigrationFiles(directory);
+
+        expect(files.map(({ version, name, downSql }) => ({ version, name, downSql }))).toEqual([
+            { version: 1, name: 'first', downSql: 'SELECT 2;' },
+            { version: 2, name: 'second', downSql: null },
+        ]);
+        // Line endings do not change the checksum.
+        expect(files[0].checksum).toBe(files[1].checksum);
+    });
+
+    it('rejects a version used by two names and a down script without an up script', () => {
+        fs.writeFileSync(path.join(directory, '0001_first.up.sql'), 'SELECT 1;');
+        fs.writeFileSync(path.join(directory, '0001_other.up.sql'), 'SELECT 1;');
+        expect(() => loadMigrationFiles(directory)).toThrow(/used by both 'first' and 'other'/);
+
+        fs.rmSync(path.join(directory, '0001_other.up.sql'));
+        fs.writeFileSync(path.join(directory, '0002_second.down.sql'), 'SELECT 1;');
+        expect(() => loadMigrationFiles(directory)).toThrow('Migration 0002_second has no .up.sql file');
+    });
+});
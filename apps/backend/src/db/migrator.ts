@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Pool, PoolClient } from 'pg';
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+const MIGRATION_LOCK_KEY = 781_204_003;
+
+export interface MigrationFile {
+    version: number;
+    name: string;
+    upSql: string;
+    downSql: string | null;
+    checksum: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+    appliedAt: string;
+    executionMs: number;
+}
+
+export interface MigrationStatusEntry {
+    version: number;
+    name: string;
+    state: 'applied' | 'pending' | 'checksum_mismatch' | 'missing_file';
+    appliedAt: string | null;
+}
+
+export interface MigrationRunOptions {
+    dryRun?: boolean;
+    /** Stop after this version when migrating up, or roll back down to (but not including) it. */
+    targetVersion?: number;
+    /** Number of migrations to roll back when migrating down. Defaults to 1. */
+    steps?: number;
+    log?: (message: string) => void;
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Reads `NNNN_name.up.sql` / `NNNN_name.down.sql` pairs from the migrations directory.
+ * The checksum covers the up script only, since that is what shaped the live schema.
+ */
+export function loadMigrationFiles(directory = MIGRATIONS_DIR): MigrationFile[] {
+    const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+    for (const fileName of fs.readdirSync(directory).sort()) {
+        const match = fileName.match(MIGRATION_FILE_PATTERN);
+        if (!match) {
+            continue;
+        }
+
+        const version = Number.parseInt(match[1], 10);
+        const name = match[2];
+        const direction = match[3] as 'up' | 'down';
+        const existing = byVersion.get(version);
+        if (existing && existing.name !== name) {
+            throw new MigrationError(`Migration version ${match[1]} is used by both '${existing.name}' and '${name}'`);
+        }
+
+        const entry = existing || { name };
+        entry[direction] = fs.readFileSync(path.join(directory, fileName), 'utf-8');
+        byVersion.set(version, entry);
+    }
+
+    return Array.from(byVersion.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([version, entry]) => {
+            if (entry.up === undefined) {
+                throw new MigrationError(`Migration ${formatVersion(version)}_${entry.name} has no .up.sql file`);
+            }
+
+            return {
+                version,
+                name: entry.name,
+                upSql: entry.up,
+                downSql: entry.down ?? null,
+                checksum: checksumSql(entry.up),
+            };
+        });
+}
+
+export async function getMigrationStatus(pool: Pool): Promise<MigrationStatusEntry[]> {
+    const files = loadMigrationFiles();
+    const client = await pool.connect();
+    try {
+        await ensureMigrationsTable(client);
+        const applied = await fetchAppliedMigrations(client);
+        return buildStatus(files, applied);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Applies pending migrations in version order, one transaction per migration.
+ * Refuses to run if an already-applied migration file was edited or removed.
+ */
+export async function migrateUp(pool: Pool, options: MigrationRunOptions = {}): Promise<MigrationFile[]> {
+    const log = options.log || (() => undefined);
+    const files = loadMigrationFiles();
+
+    return withMigrationLock(pool, async (client) => {
+        await ensureMigrationsTable(client);
+        const applied = await fetchAppliedMigrations(client);
+        assertHistoryIntact(buildStatus(files, applied));
+
+        const appliedVersions = new Set(applied.map((migration) => migration.version));
+        const pending = files.filter((file) => (
+            !appliedVersions.has(file.version)
+            && (options.targetVersion === undefined || file.version <= options.targetVersion)
+        ));
+
+        for (const migration of pending) {
+            const label = `${formatVersion(migration.version)}_${migration.name}`;
+            if (options.dryRun) {
+                log(`[dry-run] would apply ${label}`);
+                continue;
+            }
+
+            log(`Applying ${label}...`);
+            const startedAt = Date.now();
+            await runInTransaction(client, async () => {
+                await client.query(migration.upSql);
+                await client.query(
+                    `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+                     VALUES ($1, $2, $3, $4)`,
+                    [migration.version, migration.name, migration.checksum, Date.now() - startedAt]
+                );
+            });
+        }
+
+        return pending;
+    });
+}
+
+/**
+ * Rolls back the most recently applied migrations using their .down.sql scripts.
+ */
+export async function migrateDown(pool: Pool, options: MigrationRunOptions = {}): Promise<MigrationFile[]> {
+    const log = options.log || (() => undefined);
+    const files = loadMigrationFiles();
+    const filesByVersion = new Map(files.map((file) => [file.version, file]));
+
+    return withMigrationLock(pool, async (client) => {
+        await ensureMigrationsTable(client);
+        const applied = await fetchAppliedMigrations(client);
+        assertHistoryIntact(buildStatus(files, applied));
+
+        const newestFirst = [...applied].sort((a, b) => b.version - a.version);
+        const toRollBack = options.targetVersion !== undefined
+            ? newestFirst.filter((migration) => migration.version > options.targetVersion!)
+            : newestFirst.slice(0, Math.max(1, options.steps ?? 1));
+
+        const rolledBack: MigrationFile[] = [];
+        for (const appliedMigration of toRollBack) {
+            const migration = filesByVersion.get(appliedMigration.version)!;
+            const label = `${formatVersion(migration.version)}_${migration.name}`;
+            if (migration.downSql === null) {
+                throw new MigrationError(`Migration ${label} has no .down.sql file and cannot be rolled back`);
+            }
+
+            if (options.dryRun) {
+                log(`[dry-run] would roll back ${label}`);
+                rolledBack.push(migration);
+                continue;
+            }
+
+            log(`Rolling back ${label}...`);
+            await runInTransaction(client, async () => {
+                await client.query(migration.downSql!);
+                await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+            });
+            rolledBack.push(migration);
+        }
+
+        return rolledBack;
+    });
+}
+
+export function formatVersion(version: number): string {
+    return String(version).padStart(4, '0');
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(
+        `CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name VARCHAR(200) NOT NULL,
+            checksum VARCHAR(64) NOT NULL,
+            execution_ms INTEGER NOT NULL DEFAULT 0,
+            applied_at TIMESTAMP DEFAULT NOW()
+        )`
+    );
+}
+
+async function fetchAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+    const lookup = await client.query(
+        `SELECT version, name, checksum, execution_ms, applied_at
+         FROM schema_migrations
+         ORDER BY version ASC`
+    );
+
+    return lookup.rows.map((row) => ({
+        version: Number(row.version),
+        name: String(row.name),
+        checksum: String(row.checksum),
+        executionMs: Number(row.execution_ms),
+        appliedAt: new Date(row.applied_at).toISOString(),
+    }));
+}
+
+function buildStatus(files: MigrationFile[], applied: AppliedMigration[]): MigrationStatusEntry[] {
+    const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+    const entries: MigrationStatusEntry[] = files.map((file) => {
+        const record = appliedByVersion.get(file.version);
+        if (!record) {
+            return { version: file.version, name: file.name, state: 'pending', appliedAt: null };
+        }
+
+        return {
+            version: file.version,
+            name: file.name,
+            state: record.checksum === file.checksum ? 'applied' : 'checksum_mismatch',
+            appliedAt: record.appliedAt,
+        };
+    });
+
+    const fileVersions = new Set(files.map((file) => file.version));
+    for (const record of applied) {
+        if (!fileVersions.has(record.version)) {
+            entries.push({ version: record.version, name: record.name, state: 'missing_file', appliedAt: record.appliedAt });
+        }
+    }
+
+    return entries.sort((a, b) => a.version - b.version);
+}
+
+function assertHistoryIntact(status: MigrationStatusEntry[]): void {
+    const problems = status.filter((entry) => entry.state === 'checksum_mismatch' || entry.state === 'missing_file');
+    if (problems.length === 0) {
+        return;
+    }
+
+    const details = problems
+        .map((entry) => `${formatVersion(entry.version)}_${entry.name} (${entry.state})`)
+        .join(', ');
+    throw new MigrationError(
+        `Applied migrations no longer match the files on disk: ${details}. Add a new migration instead of editing an applied one.`
+    );
+}
+
+async function withMigrationLock<T>(pool: Pool, task: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+        try {
+            return await task(client);
+        } finally {
+            await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+        }
+    } finally {
+        client.release();
+    }
+}
+
+async function runInTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+        await work();
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    }
+}
+
+function checksumSql(sql: string): string {
+    return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
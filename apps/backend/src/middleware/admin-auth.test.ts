@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import type { NextFunction, Response } from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { READER } from '../test/fixtures';
+import { createAdminApiKey, type OpsRole } from '../services/admin-auth';
+import { requireOpsRole, type OpsRequest } from './admin-auth';
+
+vi.hoisted(() => {
+    process.env.AUDITOR_WALLET_ADDRESSES = 'ST5900TADFMD18STH8FGSMKF3QMHR4X6GCW6FW6S';
+});
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+interface FakeResponse extends EventEmitter {
+    statusCode: number;
+    body: unknown;
+    writableFinished: boolean;
+    status(code: number): FakeResponse;
+    json(body: unknown): FakeResponse;
+}
+
+function fakeResponse(): FakeResponse {
+    const res = Object.assign(new EventEmitter(), {
+        statusCode: 200,
+        body: undefined as unknown,
+        writableFinished: false,
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        json(body: unknown) {
+            res.body = body;
+            res.writableFinished = true;
+            return res;
+        },
+    });
+    return res;
+}
+
+// Each test uses its own client IP, so the per-source cap on rejected audit rows never carries over.
+async function callOpsRoute(
+    allowedRoles: readonly OpsRole[],
+    headers: Record<string, string>,
+    ip: string,
+    body?: Record<string, unknown>
+): Promise<{ res: FakeResponse; next: NextFunction; req: OpsRequest }> {
+    const req = {
+        method: 'POST',
+        originalUrl: '/api/admin/fee-schedules',
+        path: '/fee-schedules',
+        ip,
+        body,
+        header: (name: string) => headers[name.toLowerCase()],
+    } as unknown as OpsRequest;
+    const res = fakeResponse();
+    const next = vi.fn();
+
+    await requireOpsRole('admin.fee-schedules.create', allowedRoles)(req, res as unknown as Response, next);
+    return { res, next, req };
+}
+
+async function issueApiKey(role: OpsRole): Promise<string> {
+    return (await createAdminApiKey(`${role} key`, role, 'test')).apiKey;
+}
+
+async function auditRows() {
+    const lookup = await testPool.query(
+        'SELECT actor_type, role, action, status_code, metadata FROM admin_audit_log ORDER BY id'
+    );
+    return lookup.rows;
+}
+
+describe('requireOpsRole', () => {
+    it('lets an allowed role through and records the call with its final status', async () => {
+        const apiKey = await issueApiKey('operator');
+
+        const { res, next, req } = await callOpsRoute(['operator'], { 'x-api-key': apiKey }, '10.0.0.1', {
+            feeBps: 250,
+            secret: 'left out',
+        });
+
+        expect(next).toHaveBeenCalledOnce();
+        expect(req.opsActor).toMatchObject({ type: 'api_key', role: 'operator' });
+        expect(await auditRows()).toEqual([{
+            actor_type: 'api_key',
+            role: 'operator',
+            action: 'admin.fee-schedules.create',
+            status_code: null,
+            metadata: { body: { feeBps: 250 } },
+        }]);
+
+        res.status(201).json({ ok: true });
+        res.emit('close');
+        await vi.waitFor(async () => expect((await auditRows())[0].status_code).toBe(201));
+    });
+
+    it('lets admins act in any role', async () => {
+        const apiKey = await issueApiKey('admin');
+
+        const { next } = await callOpsRoute(['auditor'], { 'x-api-key': apiKey }, '10.0.0.2');
+
+        expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('refuses a role that is not allowed and audits the rejection', async () => {
+        const apiKey = await issueApiKey('auditor');
+
+        const { res, next } = await callOpsRoute(['operator'], { 'x-api-key': apiKey }, '10.0.0.3');
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(403);
+        expect(await auditRows()).toEqual([{
+            actor_type: 'api_key',
+            role: 'auditor',
+            action: 'admin.fee-schedules.create',
+            status_code: 403,
+            metadata: { rejected: true },
+        }]);
+    });
+
+    it('resolves allowlisted wallets from their session', async () => {
+        const token = 'wallet-session-token';
+        await testPool.query(
+            `INSERT INTO auth_sessions (wallet_address, token_hash, expires_at)
+             VALUES ($1, $2, NOW() + INTERVAL '1 hour')`,
+            [READER, createHash('sha256').update(token).digest('hex')]
+        );
+
+        const allowed = await callOpsRoute(['auditor'], { authorization: `Bearer ${token}` }, '10.0.0.4');
+        const refused = await callOpsRoute(['operator'], { authorization: `Bearer ${token}` }, '10.0.0.4');
+
+        expect(allowed.req.opsActor).toEqual({ type: 'wallet', id: READER, role: 'auditor' });
+        expect(refused.res.statusCode).toBe(403);
+    });
+
+    it('refuses unknown credentials and stops auditing a source after its cap', async () => {
+        for (let attempt = 0; attempt < 7; attempt += 1) {
+            const { res, next } = await callOpsRoute(['operator'], { 'x-api-key': 'spk_unknown' }, '10.0.0.5');
+            expect(next).not.toHaveBeenCalled();
+            expect(res.statusCode).toBe(401);
+        }
+
+        const rows = await auditRows();
+        expect(rows).toHaveLength(5);
+        expect(rows[0]).toEqual({
+            actor_type: null,
+            role: null,
+            action: 'admin.fee-schedules.create',
+            status_code: 401,
+            metadata: { rejected: true, credential: 'api_key', keyPrefix: 'spk_unknown' },
+        });
+
+        await callOpsRoute(['operator'], {}, '10.0.0.6');
+        expect((await auditRows())[5].metadata).toEqual({ rejected: true, credential: 'none', suppressedRejections: 2 });
+    });
+});
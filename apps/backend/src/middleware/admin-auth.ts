@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { extractBearerToken } from './auth';
+import {
+    completeAuditLog,
+    hasOpsRole,
+    recordAuditLog,
+    resolveOpsActor,
+    type OpsActor,
+    type OpsRole,
+} from '../services/admin-auth';
+
+export interface OpsRequest extends Request {
+    opsActor?: OpsActor;
+}
+
+/** Request body fields ops routes accept; anything else is left out of the audit log. */
+const AUDITED_BODY_FIELDS = [
+    'label',
+    'role',
+    'note',
+    'scope',
+    'authorAddress',
+    'bookId',
+    'feeBps',
+    'startsAt',
+    'endsAt',
+    'firstDays',
+    'limit',
+    'name',
+    'description',
+    'price',
+    'isActive',
+] as const;
+const MAX_AUDITED_STRING_LENGTH = 200;
+
+/**
+ * Rejected calls are audited at most this often per source (actor, else client IP) and overall,
+ * so unauthenticated traffic cannot grow `admin_audit_log` without bound. Calls over the limit are
+ * counted and the count is attached to the next rejected row that is written.
+ */
+const REJECTED_AUDIT_WINDOW_MS = 60_000;
+const MAX_REJECTED_AUDITS_PER_SOURCE = 5;
+const MAX_REJECTED_AUDITS_PER_WINDOW = 100;
+
+const rejectedAudits = {
+    windowStart: 0,
+    written: 0,
+    suppressed: 0,
+    bySource: new Map<string, number>(),
+};
+
+/**
+ * Gates an ops route to the given roles (admins are always allowed). Every call, including
+ * rejected ones, gets an `admin_audit_log` row before the handler runs; its status code is filled
+ * in when the response closes. A call whose audit row cannot be written is refused.
+ */
+export function requireOpsRole(action: string, allowedRoles: readonly OpsRole[]) {
+    return async (req: OpsRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const apiKey = req.header('X-Api-Key');
+            const sessionToken = extractBearerToken(req);
+            const actor = await resolveOpsActor({ apiKey, sessionToken });
+
+            if (!actor) {
+                await auditRejectedCall(req, action, null, 401, {
+                    credential: apiKey ? 'api_key' : sessionToken ? 'session' : 'none',
+                    ...(apiKey ? { keyPrefix: apiKey.trim().slice(0, 12) } : {}),
+                });
+                res.status(401).json({
+                    error: 'Ops credentials required',
+                    details: 'Send X-Api-Key or sign in with an allowlisted admin wallet',
+                });
+                return;
+            }
+
+            if (!hasOpsRole(actor, allowedRoles)) {
+                await auditRejectedCall(req, action, actor, 403);
+                res.status(403).json({ error: `Role '${actor.role}' is not allowed to ${action}` });
+                return;
+            }
+
+            const auditLogId = await recordAuditLog({
+                actor,
+                action,
+                httpMethod: req.method,
+                path: req.originalUrl || req.path,
+                statusCode: null,
+                metadata: summarizeRequestBody(req.body),
+            });
+            res.on('close', () => {
+                // `close` also fires after `finish`; without `finish` the client disconnected first.
+                const finished = res.writableFinished;
+                void completeAuditLog(auditLogId, finished ? res.statusCode : null, !finished).catch((error) => {
+                    console.error('Failed to complete admin audit log:', error);
+                });
+            });
+
+            req.opsActor = actor;
+            next();
+        } catch (error) {
+            console.error('Ops authorization error:', error);
+            res.status(500).json({ error: 'Failed to verify ops credentials' });
+        }
+    };
+}
+
+async function auditRejectedCall(
+    req: Request,
+    action: string,
+    actor: OpsActor | null,
+    statusCode: number,
+    details?: Record<string, unknown>
+): Promise<void> {
+    const source = actor ? `${actor.type}:${actor.id}` : `ip:${req.ip ?? 'unknown'}`;
+    const suppressed = admitRejectedAudit(source, Date.now());
+    if (suppressed === null) {
+        return;
+    }
+
+    await recordAuditLog({
+        actor,
+        action,
+        httpMethod: req.method,
+        path: req.originalUrl || req.path,
+        statusCode,
+        metadata: {
+            rejected: true,
+            ...details,
+            ...(suppressed > 0 ? { suppressedRejections: suppressed } : {}),
+        },
+    });
+}
+
+/**
+ * Returns null when this rejected call should not be written; otherwise the number of rejected
+ * calls skipped since the last one that was.
+ */
+function admitRejectedAudit(source: string, now: number): number | null {
+    if (now - rejectedAudits.windowStart >= REJECTED_AUDIT_WINDOW_MS) {
+        rejectedAudits.windowStart = now;
+        rejectedAudits.written = 0;
+        rejectedAudits.bySource.clear();
+    }
+
+    const fromSource = rejectedAudits.bySource.get(source) ?? 0;
+    if (fromSource >= MAX_REJECTED_AUDITS_PER_SOURCE || rejectedAudits.written >= MAX_REJECTED_AUDITS_PER_WINDOW) {
+        rejectedAudits.suppressed += 1;
+        return null;
+    }
+
+    rejectedAudits.bySource.set(source, fromSource + 1);
+    rejectedAudits.written += 1;
+    const suppressed = rejectedAudits.suppressed;
+    rejectedAudits.suppressed = 0;
+    return suppressed;
+}
+
+function summarizeRequestBody(body: unknown): Record<string, unknown> | undefined {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return undefined;
+    }
+
+    const source = body as Record<string, unknown>;
+    const fields: Record<string, unknown> = {};
+    for (const field of AUDITED_BODY_FIELDS) {
+        const value = source[field];
+        if (typeof value === 'string') {
+            fields[field] = value.slice(0, MAX_AUDITED_STRING_LENGTH);
+        } else if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+            fields[field] = value;
+        }
+    }
+
+    return Object.keys(fields).length > 0 ? { body: fields } : undefined;
+}
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { resolveSessionWallet } from '../services/auth';
+
+export interface AuthenticatedRequest extends Request {
+    walletAddress?: string;
+    sessionToken?: string;
+}
+
+/**
+ * Rejects the request unless it carries a valid `Authorization: Bearer <token>`
+ * wallet session, and exposes the signed-in address as `req.walletAddress`.
+ */
+export async function requireWalletSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    await resolveWalletSession(req, res, next, true);
+}
+
+/**
+ * Same as requireWalletSession, but lets anonymous requests through (for free content).
+ * A token that is present but invalid is still rejected so clients know to sign in again.
+ */
+export async function optionalWalletSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    await resolveWalletSession(req, res, next, false);
+}
+
+async function resolveWalletSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    required: boolean
+): Promise<void> {
+    try {
+        const token = extractBearerToken(req);
+        if (!token) {
+            if (required) {
+                res.status(401).json({
+                    error: 'Wallet session required',
+                    details: 'Sign in with your wallet and send Authorization: Bearer <token>',
+                });
+                return;
+            }
+            next();
+            return;
+        }
+
+        const session = await resolveSessionWallet(token);
+        if (!session) {
+            res.status(401).json({
+                error: 'Wallet session expired or invalid',
+                details: 'Sign in with your wallet again to continue',
+            });
+            return;
+        }
+
+        req.walletAddress = session.walletAddress;
+        req.sessionToken = token;
+        next();
+    } catch (error) {
+        console.error('Wallet session middleware error:', error);
+        res.status(500).json({ error: 'Failed to verify wallet session' });
+    }
+}
+
+export function extractBearerToken(req: Request): string | null {
+    const header = req.header('Authorization');
+    if (!header) {
+        return null;
+    }
+
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
@@ -0,0 +1,405 @@
+import { Router, Response } from 'express';
+import { requireOpsRole, type OpsRequest } from '../middleware/admin-auth';
+import {
+    createAdminApiKey,
+    isOpsRole,
+    listAdminApiKeys,
+    listAuditLog,
+    revokeAdminApiKey,
+} from '../services/admin-auth';
+import { refundDisputedCharge } from '../services/credits';
+import {
+    denyCreditDispute,
+    getCreditDispute,
+    isDisputeStatus,
+    listCreditDisputes,
+} from '../services/disputes';
+import {
+    createFeeSchedule,
+    endFeeSchedule,
+    getEffectivePlatformFee,
+    listFeeSchedules,
+    parseFeeScheduleInput,
+} from '../services/fee-schedules';
+import { getLedgerBalances, listLedgerCheckRuns, runLedgerInvariantCheck } from '../services/ledger';
+import { listTreasurySnapshots, runTreasuryReconciliation } from '../services/treasury-reconciliation';
+
+const router = Router();
+
+/**
+ * GET /api/admin/api-keys
+ * Lists ops API keys (hashes are never returned).
+ */
+router.get('/api-keys', requireOpsRole('admin.api-keys.list', ['admin']), async (_req: OpsRequest, res: Response) => {
+    try {
+        const keys = await listAdminApiKeys();
+        res.json({
+            success: true,
+            keys,
+        });
+    } catch (error) {
+        console.error('Failed to list admin API keys:', error);
+        res.status(500).json({ error: 'Failed to list API keys' });
+    }
+});
+
+/**
+ * POST /api/admin/api-keys
+ * Creates an ops API key. The plaintext key is only returned once.
+ */
+router.post('/api-keys', requireOpsRole('admin.api-keys.create', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const label = typeof req.body.label === 'string' ? req.body.label.trim() : '';
+        const role = req.body.role;
+
+        if (!label) {
+            res.status(400).json({ error: 'label is required' });
+            return;
+        }
+
+        if (!isOpsRole(role)) {
+            res.status(400).json({ error: 'role must be one of admin, operator, auditor' });
+            return;
+        }
+
+        const actor = req.opsActor!;
+        const key = await createAdminApiKey(label, role, `${actor.type}:${actor.id}`);
+        res.status(201).json({
+            success: true,
+            key,
+        });
+    } catch (error) {
+        console.error('Failed to create admin API key:', error);
+        res.status(500).json({ error: 'Failed to create API key' });
+    }
+});
+
+/**
+ * DELETE /api/admin/api-keys/:id
+ * Revokes an ops API key.
+ */
+router.delete('/api-keys/:id', requireOpsRole('admin.api-keys.revoke', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const keyId = Number.parseInt(req.params.id, 10);
+        if (!Number.isInteger(keyId) || keyId < 1) {
+            res.status(400).json({ error: 'Invalid API key ID' });
+            return;
+        }
+
+        const revoked = await revokeAdminApiKey(keyId);
+        if (!revoked) {
+            res.status(404).json({ error: 'Active API key not found' });
+            return;
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to revoke admin API key:', error);
+        res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+});
+
+/**
+ * GET /api/admin/audit-log?limit=100&before=123
+ * Returns privileged ops calls, newest first.
+ */
+router.get('/audit-log', requireOpsRole('admin.audit-log.read', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        const limit = typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : 100;
+        const before = typeof req.query.before === 'string' ? Number.parseInt(req.query.before, 10) : undefined;
+
+        const entries = await listAuditLog(
+            Number.isFinite(limit) ? limit : 100,
+            Number.isInteger(before) ? before : undefined
+        );
+        res.json({
+            success: true,
+            entries,
+        });
+    } catch (error) {
+        console.error('Failed to fetch admin audit log:', error);
+        res.status(500).json({ error: 'Failed to fetch audit log' });
+    }
+});
+
+/**
+ * GET /api/admin/disputes?status=open
+ * Reader disputes, oldest first. `status` is open, approved or denied (all when omitted).
+ */
+router.get('/disputes', requireOpsRole('admin.disputes.list', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        const status = req.query.status;
+        if (status !== undefined && !isDisputeStatus(status)) {
+            res.status(400).json({ error: 'status must be one of open, approved, denied' });
+            return;
+        }
+        const limit = typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : 100;
+
+        res.json({
+            success: true,
+            disputes: await listCreditDisputes(status ?? null, Number.isFinite(limit) ? limit : 100),
+        });
+    } catch (error) {
+        console.error('Failed to list disputes:', error);
+        res.status(500).json({ error: 'Failed to list disputes' });
+    }
+});
+
+/**
+ * POST /api/admin/disputes/:disputeId/approve
+ * Refunds the disputed charge, removes the unlock and reverses its revenue. Optional { note }.
+ */
+router.post('/disputes/:disputeId/approve', requireOpsRole('admin.disputes.approve', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const disputeId = Number.parseInt(req.params.disputeId, 10);
+        if (!Number.isInteger(disputeId) || disputeId < 1) {
+            res.status(400).json({ error: 'Invalid dispute ID' });
+            return;
+        }
+
+        const actor = req.opsActor!;
+        const result = await refundDisputedCharge(disputeId, `${actor.type}:${actor.id}`, parseResolutionNote(req.body));
+        if (result.status === 'rejected') {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            dispute: await getCreditDispute(disputeId),
+            refundedAmount: result.refundedAmount,
+            clawbackAmount: result.clawbackAmount,
+        });
+    } catch (error) {
+        console.error('Failed to approve dispute:', error);
+        res.status(500).json({ error: 'Failed to approve dispute' });
+    }
+});
+
+/**
+ * POST /api/admin/disputes/:disputeId/deny
+ * Closes the dispute without a refund. Optional { note } is shown to the reader.
+ */
+router.post('/disputes/:disputeId/deny', requireOpsRole('admin.disputes.deny', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const disputeId = Number.parseInt(req.params.disputeId, 10);
+        if (!Number.isInteger(disputeId) || disputeId < 1) {
+            res.status(400).json({ error: 'Invalid dispute ID' });
+            return;
+        }
+
+        const actor = req.opsActor!;
+        const result = await denyCreditDispute(disputeId, `${actor.type}:${actor.id}`, parseResolutionNote(req.body));
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            dispute: result.dispute,
+        });
+    } catch (error) {
+        console.error('Failed to deny dispute:', error);
+        res.status(500).json({ error: 'Failed to deny dispute' });
+    }
+});
+
+/**
+ * GET /api/admin/fee-schedules?includeEnded=true
+ * Platform fee schedules, newest first. Ended schedules are only listed with `includeEnded`.
+ */
+router.get('/fee-schedules', requireOpsRole('admin.fee-schedules.list', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            schedules: await listFeeSchedules(req.query.includeEnded === 'true'),
+        });
+    } catch (error) {
+        console.error('Failed to list fee schedules:', error);
+        res.status(500).json({ error: 'Failed to list fee schedules' });
+    }
+});
+
+/**
+ * GET /api/admin/fee-schedules/effective?bookId=123
+ * The fee schedule a charge on the book would use right now (the global rate without a bookId).
+ */
+router.get('/fee-schedules/effective', requireOpsRole('admin.fee-schedules.list', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        let bookId: number | null = null;
+        if (req.query.bookId !== undefined) {
+            bookId = typeof req.query.bookId === 'string' ? Number.parseInt(req.query.bookId, 10) : NaN;
+            if (!Number.isInteger(bookId) || bookId < 1) {
+                res.status(400).json({ error: 'Invalid book ID' });
+                return;
+            }
+        }
+
+        const fee = await getEffectivePlatformFee(bookId);
+        res.json({
+            success: true,
+            bookId,
+            feeScheduleId: fee.scheduleId,
+            feeBps: fee.feeBps,
+        });
+    } catch (error) {
+        console.error('Failed to resolve platform fee:', error);
+        res.status(500).json({ error: 'Failed to resolve platform fee' });
+    }
+});
+
+/**
+ * POST /api/admin/fee-schedules
+ * Creates a global, author or book fee rate. Rates cannot be edited; end one and create another.
+ */
+router.post('/fee-schedules', requireOpsRole('admin.fee-schedules.create', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const parsed = parseFeeScheduleInput(req.body);
+        if (!parsed.valid) {
+            res.status(400).json({ error: parsed.error });
+            return;
+        }
+
+        const actor = req.opsActor!;
+        const result = await createFeeSchedule(parsed.input, `${actor.type}:${actor.id}`);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            schedule: result.schedule,
+        });
+    } catch (error) {
+        console.error('Failed to create fee schedule:', error);
+        res.status(500).json({ error: 'Failed to create fee schedule' });
+    }
+});
+
+/**
+ * DELETE /api/admin/fee-schedules/:id
+ * Ends a fee schedule now. Schedules that have not started yet are removed.
+ */
+router.delete('/fee-schedules/:id', requireOpsRole('admin.fee-schedules.end', ['admin']), async (req: OpsRequest, res: Response) => {
+    try {
+        const scheduleId = Number.parseInt(req.params.id, 10);
+        if (!Number.isInteger(scheduleId) || scheduleId < 1) {
+            res.status(400).json({ error: 'Invalid fee schedule ID' });
+            return;
+        }
+
+        const schedule = await endFeeSchedule(scheduleId);
+        if (!schedule) {
+            res.status(404).json({ error: 'Active fee schedule not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            schedule,
+        });
+    } catch (error) {
+        console.error('Failed to end fee schedule:', error);
+        res.status(500).json({ error: 'Failed to end fee schedule' });
+    }
+});
+
+/**
+ * GET /api/admin/ledger/balances
+ * Trial balance of the double-entry ledger, one row per account (debits positive).
+ */
+router.get('/ledger/balances', requireOpsRole('admin.ledger.read', ['auditor']), async (_req: OpsRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            accounts: await getLedgerBalances(),
+        });
+    } catch (error) {
+        console.error('Failed to fetch ledger balances:', error);
+        res.status(500).json({ error: 'Failed to fetch ledger balances' });
+    }
+});
+
+/**
+ * GET /api/admin/ledger/checks?limit=20
+ * Recent invariant checker runs, newest first, with the violations each one found.
+ */
+router.get('/ledger/checks', requireOpsRole('admin.ledger.read', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        const limit = typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : 20;
+        res.json({
+            success: true,
+            runs: await listLedgerCheckRuns(Number.isFinite(limit) ? limit : 20),
+        });
+    } catch (error) {
+        console.error('Failed to fetch ledger checks:', error);
+        res.status(500).json({ error: 'Failed to fetch ledger checks' });
+    }
+});
+
+/**
+ * POST /api/admin/ledger/checks
+ * Runs the invariant checker now instead of waiting for the worker.
+ */
+router.post('/ledger/checks', requireOpsRole('admin.ledger.check', ['operator']), async (_req: OpsRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            run: await runLedgerInvariantCheck(),
+        });
+    } catch (error) {
+        console.error('Failed to run ledger check:', error);
+        res.status(500).json({ error: 'Failed to run ledger check' });
+    }
+});
+
+/**
+ * GET /api/admin/treasury/reconciliation?limit=20
+ * Recorded treasury snapshots, newest first: on-chain balance, liabilities and the surplus or deficit.
+ */
+router.get('/treasury/reconciliation', requireOpsRole('admin.treasury.read', ['auditor']), async (req: OpsRequest, res: Response) => {
+    try {
+        const limit = typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : 20;
+        const snapshots = await listTreasurySnapshots(Number.isFinite(limit) ? limit : 20);
+        res.json({
+            success: true,
+            latest: snapshots[0] ?? null,
+            snapshots,
+        });
+    } catch (error) {
+        console.error('Failed to fetch treasury snapshots:', error);
+        res.status(500).json({ error: 'Failed to fetch treasury snapshots' });
+    }
+});
+
+/**
+ * POST /api/admin/treasury/reconciliation
+ * Reads the treasury balance on-chain now and records a new snapshot.
+ */
+router.post('/treasury/reconciliation', requireOpsRole('admin.treasury.reconcile', ['operator']), async (req: OpsRequest, res: Response) => {
+    try {
+        const actor = req.opsActor!;
+        const snapshot = await runTreasuryReconciliation(`${actor.type}:${actor.id}`);
+        if (!snapshot) {
+            res.status(400).json({ error: 'STACKPAD_TREASURY_ADDRESS is not configured' });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            snapshot,
+        });
+    } catch (error) {
+        console.error('Failed to reconcile treasury:', error);
+        res.status(500).json({ error: 'Failed to reconcile treasury' });
+    }
+});
+
+function parseResolutionNote(body: unknown): string | null {
+    const note = body && typeof body === 'object' ? (body as Record<string, unknown>).note : undefined;
+    return typeof note === 'string' && note.trim() ? note.trim().slice(0, 2000) : null;
+}
+
+export default router;
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import { createAuthChallenge, revokeSession, verifyAuthChallenge } from '../services/auth';
+
+const router = Router();
+
+/**
+ * POST /api/auth/challenge
+ * Issues a one-time nonce message for the wallet to sign.
+ */
+router.post('/challenge', async (req: Request, res: Response) => {
+    try {
+        const walletAddress = typeof req.body.walletAddress === 'string' ? req.body.walletAddress.trim() : '';
+        if (!walletAddress) {
+            res.status(400).json({ error: 'walletAddress is required' });
+            return;
+        }
+
+        const challenge = await createAuthChallenge(walletAddress);
+        res.status(201).json({
+            success: true,
+            challenge,
+        });
+    } catch (error) {
+        console.error('Failed to create auth challenge:', error);
+        res.status(400).json({
+            error: error instanceof Error ? error.message : 'Failed to create sign-in challenge',
+        });
+    }
+});
+
+/**
+ * POST /api/auth/session
+ * Verifies the signed challenge and returns a short-lived session token.
+ */
+router.post('/session', async (req: Request, res: Response) => {
+    try {
+        const result = await verifyAuthChallenge({
+            walletAddress: typeof req.body.walletAddress === 'string' ? req.body.walletAddress : '',
+            nonce: typeof req.body.nonce === 'string' ? req.body.nonce.trim() : '',
+            signature: typeof req.body.signature === 'string' ? req.body.signature : '',
+            publicKey: typeof req.body.publicKey === 'string' ? req.body.publicKey : '',
+        });
+
+        if (result.status === 'invalid') {
+            res.status(401).json({ error: result.error });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            session: result.session,
+        });
+    } catch (error) {
+        console.error('Failed to verify auth challenge:', error);
+        res.status(500).json({ error: 'Failed to verify wallet signature' });
+    }
+});
+
+/**
+ * GET /api/auth/session
+ * Returns the wallet bound to the current session token.
+ */
+router.get('/session', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+        success: true,
+        walletAddress: req.walletAddress,
+    });
+});
+
+/**
+ * DELETE /api/auth/session
+ * Revokes the current session token.
+ */
+router.delete('/session', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (req.sessionToken) {
+            await revokeSession(req.sessionToken);
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Failed to revoke session:', error);
+        res.status(500).json({ error: 'Failed to sign out' });
+    }
+});
+
+export default router;
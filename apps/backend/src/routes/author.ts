@@ -1,86 +1,96 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response, raw } from 'express';
+import * as dotenv from 'dotenv';
 import pool from '../db/client';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import { parseBookMetadata, parseChapterTitles, updateChapterTitles } from '../services/book-metadata';
+import {
+    buildDefaultCoverImageUrl,
+    insertBookWithPages,
+    insertEpubBook,
+    normalizeCoverUrl,
+    normalizePages,
+    parseBookDraft,
+    storePdfPageBlobs,
+} from '../services/book-import';
+import { BOOK_STATUSES, isBookStatus, transitionBookStatus } from '../services/book-lifecycle';
+import {
+    loadEditionBaseline,
+    loadRevisablePage,
+    parseEditionRevision,
+    publishBookEdition,
+} from '../services/book-editions';
+import { listBookBundles, parseBundleInput, saveBookBundle } from '../services/book-bundles';
+import { listPriceOverrides, parsePriceOverrides, replacePriceOverrides } from '../services/pricing';
+import { listAuthorPromotions, parsePromotionInput, savePromotion } from '../services/promotions';
+import {
+    listBookSplitHistory,
+    listContributorSplits,
+    parseRevenueSplitInput,
+    saveBookRevenueSplit,
+} from '../services/revenue-splits';
+import {
+    getAuthorEarningsSeries,
+    getAuthorPayoutBreakdown,
+    getBookUnlockFunnel,
+    parseEarningsSeriesQuery,
+} from '../services/author-analytics';
+import { EpubParseError, parseEpub } from '../services/epub';
+import { toMicroStx } from '../services/money';
+import { ObjectStorageError, storePdfPage } from '../services/object-storage';
+
+dotenv.config();
+
+const PUBLIC_API_URL = (process.env.PUBLIC_API_URL || '').replace(/\/+$/, '');
+const EPUB_UPLOAD_LIMIT = '50mb';
+const PDF_PAGE_UPLOAD_LIMIT = '10mb';
 
 const router = Router();
 
 /**
  * POST /api/author/upload
- * Upload book content with pages
+ * Upload book content with pages, optional metadata and chapter titles.
+ * Pages are plain text unless `book.contentFormat` or a page's `format` is `markdown` or `html`.
+ * New books are drafts unless `book.status` is `published`, `unlisted` or `scheduled` (with `book.publishAt`).
  */
-router.post('/upload', async (req: Request, res: Response) => {
+router.post('/upload', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     const client = await pool.connect();
 
     try {
         const { book, pages } = req.body;
+        const authorAddress = req.walletAddress as string;
 
         if (!book || !pages || !Array.isArray(pages) || pages.length === 0) {
             res.status(400).json({ error: 'Invalid request: book and pages required' });
             return;
         }
 
-        if (typeof book.authorAddress !== 'string' || !book.authorAddress.trim()) {
-            res.status(400).json({ error: 'Invalid request: author address is required' });
+        const parsedDraft = parseBookDraft(book, req.body.chapters, { requireTitle: true });
+        if (!parsedDraft.valid) {
+            res.status(400).json({ error: parsedDraft.error });
             return;
         }
+        const draft = { ...parsedDraft.draft, title: parsedDraft.draft.title as string };
 
-        if (typeof book.title !== 'string' || !book.title.trim()) {
-            res.status(400).json({ error: 'Invalid request: title is required' });
-            return;
-        }
-
-        const normalizedPages = normalizePages(pages);
+        const normalizedPages = normalizePages(pages, draft.contentFormat);
         if (!normalizedPages.valid) {
             res.status(400).json({ error: normalizedPages.error });
             return;
         }
 
-        const pagePrice = toMicroStx(book.pagePrice);
-        const chapterPrice = toMicroStx(book.chapterPrice);
-        if (pagePrice === null || chapterPrice === null) {
-            res.status(400).json({ error: 'Invalid request: page/chapter price must be non-negative integers in microSTX' });
+        const storedPdfPages = await storePdfPageBlobs(normalizedPages.pages);
+        if (!storedPdfPages.valid) {
+            res.status(400).json({ error: storedPdfPages.error });
             return;
         }
 
-        const totalPages = normalizedPages.pages.length;
-        const totalChapters = getChapterCount(normalizedPages.pages);
-        const coverImageUrl = normalizeCoverUrl(book.coverImageUrl)
-            || buildDefaultCoverImageUrl(book.authorAddress, book.title);
-
-        // Start transaction
         await client.query('BEGIN');
-
-        // Insert book
-        const bookResult = await client.query(
-            `INSERT INTO books (author_address, title, cover_image_url, total_pages, total_chapters, page_price, chapter_price)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING id`,
-            [
-                book.authorAddress.trim(),
-                book.title.trim(),
-                coverImageUrl,
-                totalPages,
-                totalChapters,
-                pagePrice.toString(),
-                chapterPrice.toString(),
-            ]
-        );
-
-        const bookId = bookResult.rows[0].id;
-
-        // Insert pages
-        for (const page of normalizedPages.pages) {
-            await client.query(
-                'INSERT INTO pages (book_id, page_number, chapter_number, content) VALUES ($1, $2, $3, $4)',
-                [bookId, page.pageNumber, page.chapterNumber || null, serializePageContent(page)]
-            );
-        }
-
-        // Commit transaction
+        const bookId = await insertBookWithPages(client, authorAddress, draft, normalizedPages.pages);
         await client.query('COMMIT');
 
         res.status(201).json({
             success: true,
             bookId,
+            status: draft.status,
             message: 'Book uploaded successfully',
         });
     } catch (error) {
@@ -93,17 +103,130 @@ router.post('/upload', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/author/books
- * List books for a specific author
+ * POST /api/author/uploads/pdf-page
+ * Store one single-page PDF (raw `application/pdf` body) in object storage. Returns the
+ * content-addressed `key` to send as a page's `pdfObjectKey` in POST /api/author/upload.
  */
-router.get('/books', async (req: Request, res: Response) => {
-    try {
-        const authorAddress = req.query.address as string;
-        if (!authorAddress) {
-            res.status(400).json({ error: 'Author address required' });
+router.post(
+    '/uploads/pdf-page',
+    requireWalletSession,
+    raw({ type: 'application/pdf', limit: PDF_PAGE_UPLOAD_LIMIT }),
+    async (req: AuthenticatedRequest, res: Response) => {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+            res.status(400).json({ error: 'Invalid request: send the PDF page as the request body (Content-Type: application/pdf)' });
+            return;
+        }
+
+        try {
+            const stored = await storePdfPage(req.body);
+            res.status(201).json({
+                success: true,
+                key: stored.key,
+                byteSize: stored.byteSize,
+            });
+        } catch (error) {
+            if (error instanceof ObjectStorageError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Error storing PDF page:', error);
+            res.status(500).json({ error: 'Failed to store PDF page' });
+        }
+    }
+);
+
+/**
+ * POST /api/author/import/epub?pagePrice=&chapterPrice=&title=&coverImageUrl=&description=&genres=&language=&isbn=&contentRating=&status=&publishAt=
+ * Import an EPUB (raw request body). Chapters come from the spine, titles from the TOC,
+ * and embedded images are stored as book assets. Query fields override the EPUB metadata.
+ */
+router.post(
+    '/import/epub',
+    requireWalletSession,
+    raw({ type: ['application/epub+zip', 'application/octet-stream'], limit: EPUB_UPLOAD_LIMIT }),
+    async (req: AuthenticatedRequest, res: Response) => {
+        const authorAddress = req.walletAddress as string;
+        const archive = req.body;
+
+        if (!Buffer.isBuffer(archive) || archive.length === 0) {
+            res.status(400).json({ error: 'Invalid request: send the EPUB file as the request body (Content-Type: application/epub+zip)' });
+            return;
+        }
+
+        const bookFields: Record<string, unknown> = {};
+        for (const field of [
+            'title', 'coverImageUrl', 'pagePrice', 'chapterPrice',
+            'description', 'genres', 'language', 'isbn', 'contentRating', 'status', 'publishAt',
+        ]) {
+            const value = readQueryString(req.query[field]);
+            if (value !== undefined) {
+                bookFields[field] = value;
+            }
+        }
+        const parsedDraft = parseBookDraft(bookFields, undefined, { requireTitle: false });
+        if (!parsedDraft.valid) {
+            res.status(400).json({ error: parsedDraft.error });
+            return;
+        }
+
+        let epub: ReturnType<typeof parseEpub>;
+        try {
+            epub = parseEpub(archive);
+        } catch (error) {
+            if (error instanceof EpubParseError) {
+                res.status(400).json({ error: `Invalid EPUB: ${error.message}` });
+                return;
+            }
+            console.error('Error parsing EPUB:', error);
+            res.status(500).json({ error: 'Failed to import EPUB' });
             return;
         }
 
+        const title = (parsedDraft.draft.title || epub.metadata.title || '').trim().slice(0, 255);
+        if (!title) {
+            res.status(400).json({ error: 'Invalid request: the EPUB has no title, pass one with ?title=' });
+            return;
+        }
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const bookId = await insertEpubBook(
+                client,
+                authorAddress,
+                { ...parsedDraft.draft, title },
+                epub,
+                PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`
+            );
+            await client.query('COMMIT');
+
+            res.status(201).json({
+                success: true,
+                bookId,
+                totalPages: epub.pages.length,
+                totalChapters: epub.chapters.length,
+                assetCount: epub.assets.length,
+                status: parsedDraft.draft.status,
+                message: 'EPUB imported successfully',
+            });
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error('Error importing EPUB:', error);
+            res.status(500).json({ error: 'Failed to import EPUB' });
+        } finally {
+            client.release();
+        }
+    }
+);
+
+/**
+ * GET /api/author/books
+ * List books for the signed-in author
+ */
+router.get('/books', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const authorAddress = req.walletAddress as string;
+
         const result = await pool.query(
             `SELECT
                 id,
@@ -114,6 +237,19 @@ router.get('/books', async (req: Request, res: Response) => {
                 total_chapters as "totalChapters",
                 page_price as "pagePrice",
                 chapter_price as "chapterPrice",
+                book_price as "bookPrice",
+                free_pages as "freePages",
+                free_chapters as "freeChapters",
+                description,
+                genres,
+                language,
+                isbn,
+                content_rating as "contentRating",
+                status,
+                publish_at as "publishAt",
+                published_at as "publishedAt",
+                archived_at as "archivedAt",
+                current_edition as "currentEdition",
                 created_at as "createdAt"
              FROM books
              WHERE author_address = $1
@@ -133,81 +269,137 @@ router.get('/books', async (req: Request, res: Response) => {
 
 /**
  * PATCH /api/author/books/:bookId
- * Update author-owned book metadata/pricing
+ * Update author-owned book metadata/pricing (including `bookPrice`, null to stop whole-book sales,
+ * and the `freePages`/`freeChapters` preview counts) and chapter titles
  */
-router.patch('/books/:bookId', async (req: Request, res: Response) => {
-    try {
-        const bookId = Number.parseInt(req.params.bookId, 10);
-        if (!Number.isInteger(bookId) || bookId < 1) {
-            res.status(400).json({ error: 'Invalid book ID' });
+router.patch('/books/:bookId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    const bookId = Number.parseInt(req.params.bookId, 10);
+    if (!Number.isInteger(bookId) || bookId < 1) {
+        res.status(400).json({ error: 'Invalid book ID' });
+        return;
+    }
+
+    const authorAddress = req.walletAddress as string;
+
+    const updates: string[] = [];
+    const params: Array<string | string[] | number | null> = [];
+
+    if (req.body.title !== undefined) {
+        if (typeof req.body.title !== 'string' || !req.body.title.trim()) {
+            res.status(400).json({ error: 'Title must be a non-empty string' });
             return;
         }
+        params.push(req.body.title.trim());
+        updates.push(`title = $${params.length}`);
+    }
 
-        const authorAddress = typeof req.body.authorAddress === 'string' ? req.body.authorAddress.trim() : '';
-        if (!authorAddress) {
-            res.status(400).json({ error: 'Author address required' });
+    if (req.body.coverImageUrl !== undefined) {
+        const normalizedCover = normalizeCoverUpdate(req.body.coverImageUrl);
+        if (normalizedCover === undefined) {
+            res.status(400).json({ error: 'Invalid coverImageUrl value' });
             return;
         }
 
-        const updates: string[] = [];
-        const params: Array<string | number | null> = [];
+        const fallbackTitle = typeof req.body.title === 'string' && req.body.title.trim()
+            ? req.body.title
+            : `book-${bookId}`;
+        const coverValue = normalizedCover === null
+            ? buildDefaultCoverImageUrl(authorAddress, fallbackTitle)
+            : normalizedCover;
 
-        if (req.body.title !== undefined) {
-            if (typeof req.body.title !== 'string' || !req.body.title.trim()) {
-                res.status(400).json({ error: 'Title must be a non-empty string' });
-                return;
-            }
-            params.push(req.body.title.trim());
-            updates.push(`title = $${params.length}`);
-        }
-
-        if (req.body.coverImageUrl !== undefined) {
-            const normalizedCover = normalizeCoverUpdate(req.body.coverImageUrl);
-            if (normalizedCover === undefined) {
-                res.status(400).json({ error: 'Invalid coverImageUrl value' });
-                return;
-            }
+        params.push(coverValue);
+        updates.push(`cover_image_url = $${params.length}`);
+    }
 
-            const fallbackTitle = typeof req.body.title === 'string' && req.body.title.trim()
-                ? req.body.title
-                : `book-${bookId}`;
-            const coverValue = normalizedCover === null
-                ? buildDefaultCoverImageUrl(authorAddress, fallbackTitle)
-                : normalizedCover;
+    if (req.body.pagePrice !== undefined) {
+        const parsedPagePrice = toMicroStx(req.body.pagePrice);
+        if (parsedPagePrice === null) {
+            res.status(400).json({ error: 'pagePrice must be a non-negative integer (microSTX)' });
+            return;
+        }
+        params.push(parsedPagePrice.toString());
+        updates.push(`page_price = $${params.length}`);
+    }
 
-            params.push(coverValue);
-            updates.push(`cover_image_url = $${params.length}`);
+    if (req.body.chapterPrice !== undefined) {
+        const parsedChapterPrice = toMicroStx(req.body.chapterPrice);
+        if (parsedChapterPrice === null) {
+            res.status(400).json({ error: 'chapterPrice must be a non-negative integer (microSTX)' });
+            return;
         }
+        params.push(parsedChapterPrice.toString());
+        updates.push(`chapter_price = $${params.length}`);
+    }
 
-        if (req.body.pagePrice !== undefined) {
-            const parsedPagePrice = toMicroStx(req.body.pagePrice);
-            if (parsedPagePrice === null) {
-                res.status(400).json({ error: 'pagePrice must be a non-negative integer (microSTX)' });
-                return;
-            }
-            params.push(parsedPagePrice.toString());
-            updates.push(`page_price = $${params.length}`);
+    if (req.body.bookPrice !== undefined) {
+        // null or '' stops selling the book as a whole
+        const clearsBookPrice = req.body.bookPrice === null || req.body.bookPrice === '';
+        const parsedBookPrice = clearsBookPrice ? null : toMicroStx(req.body.bookPrice);
+        if (!clearsBookPrice && parsedBookPrice === null) {
+            res.status(400).json({ error: 'bookPrice must be a non-negative integer (microSTX) or null' });
+            return;
         }
+        params.push(parsedBookPrice === null ? null : parsedBookPrice.toString());
+        updates.push(`book_price = $${params.length}`);
+    }
 
-        if (req.body.chapterPrice !== undefined) {
-            const parsedChapterPrice = toMicroStx(req.body.chapterPrice);
-            if (parsedChapterPrice === null) {
-                res.status(400).json({ error: 'chapterPrice must be a non-negative integer (microSTX)' });
+    const freeCounts: Array<['freePages' | 'freeChapters', string]> = [
+        ['freePages', 'free_pages'],
+        ['freeChapters', 'free_chapters'],
+    ];
+    for (const [field, column] of freeCounts) {
+        if (req.body[field] !== undefined) {
+            const count = Number(req.body[field]);
+            if (!Number.isInteger(count) || count < 0) {
+                res.status(400).json({ error: `${field} must be a non-negative integer` });
                 return;
             }
-            params.push(parsedChapterPrice.toString());
-            updates.push(`chapter_price = $${params.length}`);
+            params.push(count);
+            updates.push(`${column} = $${params.length}`);
         }
+    }
 
-        if (updates.length === 0) {
-            res.status(400).json({ error: 'No updates provided' });
-            return;
+    const parsedMetadata = parseBookMetadata(req.body);
+    if (!parsedMetadata.valid) {
+        res.status(400).json({ error: parsedMetadata.error });
+        return;
+    }
+
+    const metadataColumns: Array<[keyof typeof parsedMetadata.metadata, string]> = [
+        ['description', 'description'],
+        ['genres', 'genres'],
+        ['language', 'language'],
+        ['isbn', 'isbn'],
+        ['contentRating', 'content_rating'],
+    ];
+    for (const [field, column] of metadataColumns) {
+        const value = parsedMetadata.metadata[field];
+        if (value !== undefined) {
+            params.push(value);
+            updates.push(`${column} = $${params.length}`);
         }
+    }
 
+    const parsedChapterTitles = parseChapterTitles(req.body.chapters);
+    if (!parsedChapterTitles.valid) {
+        res.status(400).json({ error: parsedChapterTitles.error });
+        return;
+    }
+
+    if (updates.length === 0 && parsedChapterTitles.titles.size === 0) {
+        res.status(400).json({ error: 'No updates provided' });
+        return;
+    }
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        // With only chapter renames there is nothing to SET, but ownership still has to be checked.
         params.push(bookId, authorAddress);
-        const result = await pool.query(
+        const result = await client.query(
             `UPDATE books
-             SET ${updates.join(', ')}
+             SET ${updates.length > 0 ? updates.join(', ') : 'id = id'}
              WHERE id = $${params.length - 1} AND author_address = $${params.length}
              RETURNING
                 id,
@@ -218,153 +410,527 @@ router.patch('/books/:bookId', async (req: Request, res: Response) => {
                 total_chapters as "totalChapters",
                 page_price as "pagePrice",
                 chapter_price as "chapterPrice",
+                book_price as "bookPrice",
+                free_pages as "freePages",
+                free_chapters as "freeChapters",
+                description,
+                genres,
+                language,
+                isbn,
+                content_rating as "contentRating",
+                status,
+                publish_at as "publishAt",
+                published_at as "publishedAt",
+                archived_at as "archivedAt",
+                current_edition as "currentEdition",
                 created_at as "createdAt"`,
             params
         );
 
         if (result.rows.length === 0) {
+            await client.query('ROLLBACK');
             res.status(404).json({ error: 'Book not found for this author' });
             return;
         }
 
+        const missingChapters = await updateChapterTitles(client, bookId, parsedChapterTitles.titles);
+        if (missingChapters.length > 0) {
+            await client.query('ROLLBACK');
+            res.status(400).json({ error: `Book has no chapter ${missingChapters.join(', ')}` });
+            return;
+        }
+
+        await client.query('COMMIT');
+
         res.json({
             success: true,
             book: result.rows[0],
         });
     } catch (error) {
+        await client.query('ROLLBACK');
         console.error('Error updating author book:', error);
         res.status(500).json({ error: 'Failed to update book' });
+    } finally {
+        client.release();
     }
 });
 
-function normalizePages(pages: unknown[]): {
-    valid: true;
-    pages: Array<{ pageNumber: number; chapterNumber?: number; content: string; pdfPageBase64?: string }>;
-} | {
-    valid: false;
-    error: string;
-} {
-    const normalized: Array<{ pageNumber: number; chapterNumber: number; content: string; pdfPageBase64?: string }> = [];
-
-    for (const raw of pages) {
-        if (!raw || typeof raw !== 'object') {
-            return {
-                valid: false,
-                error: 'Invalid request: every page must include pageNumber and non-empty content',
-            };
-        }
-
-        const source = raw as Record<string, unknown>;
-        const pageNumber = normalizePositiveInteger(source.pageNumber);
-        const chapterNumber = normalizePositiveInteger(source.chapterNumber);
-        const content = typeof source.content === 'string' ? source.content.trim() : '';
-        const pdfPageBase64 = typeof source.pdfPageBase64 === 'string'
-            ? source.pdfPageBase64.trim()
-            : undefined;
-
-        if (!pageNumber || !content) {
-            return {
-                valid: false,
-                error: 'Invalid request: every page must include pageNumber and non-empty content',
-            };
-        }
-
-        if (pdfPageBase64 !== undefined && !isBase64String(pdfPageBase64)) {
-            return {
-                valid: false,
-                error: 'Invalid request: pdfPageBase64 must be a valid base64 string',
-            };
-        }
-
-        normalized.push({
-            pageNumber,
-            chapterNumber: chapterNumber || 1,
-            content,
-            pdfPageBase64: pdfPageBase64 || undefined,
+/**
+ * PATCH /api/author/books/:bookId/status
+ * Move a book through its lifecycle: { status, publishAt? } (publishAt only with `scheduled`)
+ */
+router.patch('/books/:bookId/status', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const { status, publishAt } = req.body;
+        if (!isBookStatus(status)) {
+            res.status(400).json({ error: `status must be one of ${BOOK_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const parsedPublishAt = publishAt === undefined || publishAt === null ? null : new Date(publishAt);
+        if (parsedPublishAt && (typeof publishAt !== 'string' || Number.isNaN(parsedPublishAt.getTime()))) {
+            res.status(400).json({ error: 'publishAt must be an ISO 8601 timestamp' });
+            return;
+        }
+
+        const result = await transitionBookStatus(bookId, req.walletAddress as string, status, parsedPublishAt);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            book: result.book,
         });
+    } catch (error) {
+        console.error('Error updating book status:', error);
+        res.status(500).json({ error: 'Failed to update book status' });
     }
+});
 
-    normalized.sort((a, b) => a.pageNumber - b.pageNumber);
+/**
+ * GET /api/author/books/:bookId/pages/:pageNumber
+ * Current content and format of a page, for editing it in a new edition
+ */
+router.get('/books/:bookId/pages/:pageNumber', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        const pageNumber = Number.parseInt(req.params.pageNumber, 10);
+        if (!Number.isInteger(bookId) || bookId < 1 || !Number.isInteger(pageNumber) || pageNumber < 1) {
+            res.status(400).json({ error: 'Invalid book or page number' });
+            return;
+        }
 
-    const pageNumbers = normalized.map((page) => page.pageNumber);
-    const expected = Array.from({ length: normalized.length }, (_, i) => i + 1);
-    const isSequential = pageNumbers.every((value, index) => value === expected[index]);
+        const page = await loadRevisablePage(bookId, req.walletAddress as string, pageNumber);
+        if (!page) {
+            res.status(404).json({ error: 'Page not found for this author' });
+            return;
+        }
 
-    if (!isSequential) {
-        return {
-            valid: false,
-            error: 'Invalid request: page numbers must be sequential starting at 1',
-        };
+        res.json({ success: true, page });
+    } catch (error) {
+        console.error('Error fetching page for revision:', error);
+        res.status(500).json({ error: 'Failed to fetch page' });
     }
+});
 
-    return {
-        valid: true,
-        pages: normalized,
-    };
-}
+/**
+ * POST /api/author/books/:bookId/editions
+ * Publish a revised edition: { changelog, pages, truncateAfter?, chapters? }. Pages replace
+ * the same page numbers or continue after the last one; earlier content is retained.
+ */
+router.post('/books/:bookId/editions', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    const bookId = Number.parseInt(req.params.bookId, 10);
+    if (!Number.isInteger(bookId) || bookId < 1) {
+        res.status(400).json({ error: 'Invalid book ID' });
+        return;
+    }
 
-function serializePageContent(page: { content: string; pdfPageBase64?: string }): string {
-    if (!page.pdfPageBase64) {
-        return page.content;
+    const client = await pool.connect();
+    try {
+        const baseline = await loadEditionBaseline(bookId, req.walletAddress as string);
+        if (!baseline) {
+            res.status(404).json({ error: 'Book not found for this author' });
+            return;
+        }
+
+        const parsedRevision = parseEditionRevision(req.body, baseline);
+        if (!parsedRevision.valid) {
+            res.status(400).json({ error: parsedRevision.error });
+            return;
+        }
+
+        const storedPdfPages = await storePdfPageBlobs(parsedRevision.revision.pages);
+        if (!storedPdfPages.valid) {
+            res.status(400).json({ error: storedPdfPages.error });
+            return;
+        }
+
+        await client.query('BEGIN');
+        const result = await publishBookEdition(client, bookId, req.walletAddress as string, parsedRevision.revision);
+        if (!result.valid) {
+            await client.query('ROLLBACK');
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+        await client.query('COMMIT');
+
+        res.status(201).json({
+            success: true,
+            bookId,
+            edition: result.edition,
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('Error publishing edition:', error);
+        res.status(500).json({ error: 'Failed to publish edition' });
+    } finally {
+        client.release();
     }
+});
 
-    return JSON.stringify({
-        format: 'pdf-page',
-        text: page.content,
-        pdfPageBase64: page.pdfPageBase64,
-    });
-}
+/**
+ * GET /api/author/books/:bookId/prices
+ * Per-page and per-chapter price overrides for an author's book
+ */
+router.get('/books/:bookId/prices', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const ownership = await pool.query(
+            'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+            [bookId, req.walletAddress as string]
+        );
+        if (ownership.rows.length === 0) {
+            res.status(404).json({ error: 'Book not found for this author' });
+            return;
+        }
 
-function isBase64String(value: string): boolean {
-    if (!value || value.length % 4 !== 0) {
-        return false;
+        res.json({
+            success: true,
+            bookId,
+            overrides: await listPriceOverrides(bookId),
+        });
+    } catch (error) {
+        console.error('Error fetching price overrides:', error);
+        res.status(500).json({ error: 'Failed to fetch price overrides' });
     }
-    return /^[A-Za-z0-9+/]+={0,2}$/.test(value);
-}
+});
 
-function normalizePositiveInteger(value: unknown): number | null {
-    if (value === undefined || value === null || value === '') {
-        return null;
+/**
+ * PUT /api/author/books/:bookId/prices
+ * Replace all price overrides: { pages: [{ pageNumber, price }], chapters: [{ chapterNumber, price }] }
+ */
+router.put('/books/:bookId/prices', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const parsedOverrides = parsePriceOverrides(req.body);
+        if (!parsedOverrides.valid) {
+            res.status(400).json({ error: parsedOverrides.error });
+            return;
+        }
+
+        const result = await replacePriceOverrides(bookId, req.walletAddress as string, parsedOverrides.overrides);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            overrides: result.overrides,
+        });
+    } catch (error) {
+        console.error('Error updating price overrides:', error);
+        res.status(500).json({ error: 'Failed to update price overrides' });
     }
+});
 
-    const parsed = Number(value);
-    if (!Number.isInteger(parsed) || parsed < 1) {
-        return null;
+/**
+ * GET /api/author/splits
+ * Books with a revenue split that the signed-in wallet owns or is paid from, with the current split
+ */
+router.get('/splits', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            books: await listContributorSplits(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Error fetching revenue splits:', error);
+        res.status(500).json({ error: 'Failed to fetch revenue splits' });
     }
+});
 
-    return parsed;
-}
+/**
+ * GET /api/author/books/:bookId/splits
+ * Split history for a book, newest first. Open to the owner and every past or present payee.
+ */
+router.get('/books/:bookId/splits', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
 
-function toMicroStx(value: unknown): bigint | null {
-    if (value === undefined || value === null || value === '') {
-        return null;
+        const versions = await listBookSplitHistory(req.walletAddress as string, bookId);
+        if (!versions) {
+            res.status(404).json({ error: 'Book not found for this contributor' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            versions,
+        });
+    } catch (error) {
+        console.error('Error fetching split history:', error);
+        res.status(500).json({ error: 'Failed to fetch split history' });
     }
+});
 
+/**
+ * PUT /api/author/books/:bookId/splits
+ * Replace the revenue split: { shares: [{ payeeAddress, role, shareBps }], note? }. Shares add up
+ * to 10000 basis points and apply to charges from now on.
+ */
+router.put('/books/:bookId/splits', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const parsed = BigInt(value as string | number | bigint);
-        if (parsed < 0n) {
-            return null;
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
         }
-        return parsed;
-    } catch {
-        return null;
+
+        const parsedSplit = parseRevenueSplitInput(req.body);
+        if (!parsedSplit.valid) {
+            res.status(400).json({ error: parsedSplit.error });
+            return;
+        }
+
+        const result = await saveBookRevenueSplit(
+            req.walletAddress as string,
+            bookId,
+            parsedSplit.shares,
+            parsedSplit.note
+        );
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            version: result.version,
+        });
+    } catch (error) {
+        console.error('Error updating revenue split:', error);
+        res.status(500).json({ error: 'Failed to update revenue split' });
     }
-}
+});
 
-function normalizeCoverUrl(value: unknown): string | null {
-    if (typeof value !== 'string' || !value.trim()) {
-        return null;
+/**
+ * GET /api/author/books/:bookId/bundles
+ * List chapter bundles for an author's book, including retired ones
+ */
+router.get('/books/:bookId/bundles', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const ownership = await pool.query(
+            'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+            [bookId, req.walletAddress as string]
+        );
+        if (ownership.rows.length === 0) {
+            res.status(404).json({ error: 'Book not found for this author' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bundles: await listBookBundles(bookId, true),
+        });
+    } catch (error) {
+        console.error('Error fetching bundles:', error);
+        res.status(500).json({ error: 'Failed to fetch bundles' });
+    }
+});
+
+/**
+ * POST /api/author/books/:bookId/bundles
+ * Create a multi-chapter bundle: { title, chapters, price }
+ */
+router.post('/books/:bookId/bundles', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    await saveBundleFromRequest(req, res, null);
+});
+
+/**
+ * PATCH /api/author/books/:bookId/bundles/:bundleId
+ * Update a bundle: { title?, chapters?, price?, isActive? }. Existing buyers keep the chapters they bought.
+ */
+router.patch('/books/:bookId/bundles/:bundleId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    const bundleId = Number.parseInt(req.params.bundleId, 10);
+    if (!Number.isInteger(bundleId) || bundleId < 1) {
+        res.status(400).json({ error: 'Invalid bundle ID' });
+        return;
     }
+    await saveBundleFromRequest(req, res, bundleId);
+});
 
+/**
+ * DELETE /api/author/books/:bookId/bundles/:bundleId
+ * Stop selling a bundle. It is retired rather than deleted so buyers keep their access.
+ */
+router.delete('/books/:bookId/bundles/:bundleId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const url = new URL(value.trim());
-        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
-            return null;
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        const bundleId = Number.parseInt(req.params.bundleId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1 || !Number.isInteger(bundleId) || bundleId < 1) {
+            res.status(400).json({ error: 'Invalid book or bundle ID' });
+            return;
         }
-        return url.toString();
-    } catch {
-        return null;
+
+        const result = await saveBookBundle(bookId, req.walletAddress as string, bundleId, { isActive: false });
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bundle: result.bundle,
+        });
+    } catch (error) {
+        console.error('Error retiring bundle:', error);
+        res.status(500).json({ error: 'Failed to retire bundle' });
+    }
+});
+
+/**
+ * GET /api/author/promotions
+ * List the signed-in author's sales and discount codes, newest first
+ */
+router.get('/promotions', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            promotions: await listAuthorPromotions(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Error fetching promotions:', error);
+        res.status(500).json({ error: 'Failed to fetch promotions' });
+    }
+});
+
+/**
+ * POST /api/author/promotions
+ * Create a sale or discount code: { title, percentOff, bookId?, code?, startsAt?, endsAt?, maxRedemptions?, perWalletLimit? }.
+ * Without bookId it covers all of the author's books; without code it applies automatically.
+ */
+router.post('/promotions', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    await savePromotionFromRequest(req, res, null);
+});
+
+/**
+ * PATCH /api/author/promotions/:promotionId
+ * Update a promotion. Unlocks already made at a discount are not repriced.
+ */
+router.patch('/promotions/:promotionId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    const promotionId = Number.parseInt(req.params.promotionId, 10);
+    if (!Number.isInteger(promotionId) || promotionId < 1) {
+        res.status(400).json({ error: 'Invalid promotion ID' });
+        return;
+    }
+    await savePromotionFromRequest(req, res, promotionId);
+});
+
+/**
+ * DELETE /api/author/promotions/:promotionId
+ * End a promotion early. It is deactivated rather than deleted so redemption history stays intact.
+ */
+router.delete('/promotions/:promotionId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const promotionId = Number.parseInt(req.params.promotionId, 10);
+        if (!Number.isInteger(promotionId) || promotionId < 1) {
+            res.status(400).json({ error: 'Invalid promotion ID' });
+            return;
+        }
+
+        const result = await savePromotion(req.walletAddress as string, promotionId, { isActive: false });
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            promotion: result.promotion,
+        });
+    } catch (error) {
+        console.error('Error ending promotion:', error);
+        res.status(500).json({ error: 'Failed to end promotion' });
     }
+});
+
+async function saveBundleFromRequest(req: AuthenticatedRequest, res: Response, bundleId: number | null): Promise<void> {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const parsedBundle = parseBundleInput(req.body, bundleId !== null);
+        if (!parsedBundle.valid) {
+            res.status(400).json({ error: parsedBundle.error });
+            return;
+        }
+
+        const result = await saveBookBundle(bookId, req.walletAddress as string, bundleId, parsedBundle.input);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.status(bundleId === null ? 201 : 200).json({
+            success: true,
+            bundle: result.bundle,
+        });
+    } catch (error) {
+        console.error('Error saving bundle:', error);
+        res.status(500).json({ error: 'Failed to save bundle' });
+    }
+}
+
+async function savePromotionFromRequest(req: AuthenticatedRequest, res: Response, promotionId: number | null): Promise<void> {
+    try {
+        const parsedPromotion = parsePromotionInput(req.body, promotionId !== null);
+        if (!parsedPromotion.valid) {
+            res.status(400).json({ error: parsedPromotion.error });
+            return;
+        }
+
+        const result = await savePromotion(req.walletAddress as string, promotionId, parsedPromotion.input);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.status(promotionId === null ? 201 : 200).json({
+            success: true,
+            promotion: result.promotion,
+        });
+    } catch (error) {
+        console.error('Error saving promotion:', error);
+        res.status(500).json({ error: 'Failed to save promotion' });
+    }
+}
+
+function readQueryString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
 }
 
 function normalizeCoverUpdate(value: unknown): string | null | undefined {
@@ -385,35 +951,13 @@ function normalizeCoverUpdate(value: unknown): string | null | undefined {
     return normalized ?? undefined;
 }
 
-function buildDefaultCoverImageUrl(authorAddress: string, title: string): string {
-    const seed = `${authorAddress.trim().slice(0, 10)}-${title.trim().toLowerCase()}`
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '')
-        .slice(0, 48) || 'stackpad';
-    return `https://picsum.photos/seed/${seed}/400/600`;
-}
-
-function getChapterCount(pages: Array<{ chapterNumber?: number }>): number {
-    const chapterNumbers = pages
-        .map((page) => page.chapterNumber || 1)
-        .filter((value): value is number => Number.isInteger(value) && value > 0);
-
-    const maxChapter = chapterNumbers.length ? Math.max(...chapterNumbers) : 1;
-    return maxChapter;
-}
-
 /**
  * GET /api/author/earnings
- * Get earnings for an author
+ * Get earnings for the signed-in author
  */
-router.get('/earnings', async (req: Request, res: Response) => {
+router.get('/earnings', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const authorAddress = req.query.address as string;
-
-        if (!authorAddress) {
-            res.status(400).json({ error: 'Author address required' });
-            return;
-        }
+        const authorAddress = req.walletAddress as string;
 
         // Get total earnings
         const totalResult = await pool.query(
@@ -426,36 +970,43 @@ router.get('/earnings', async (req: Request, res: Response) => {
                 UNION ALL
                 SELECT are.amount::bigint AS amount
                 FROM author_revenue_events are
-                WHERE are.author_address = $1
+                WHERE are.author_address = $1 AND are.refunded_at IS NULL
              ) source`,
             [authorAddress]
         );
 
-        // Get earnings per book
+        // Get earnings per book; co-authors see their own share of books split with them
         const bookEarningsResult = await pool.query(
             `SELECT 
         b.id as book_id,
         b.title,
         COALESCE(SUM(events.amount), 0) as earnings,
         COALESCE(SUM(events.pages_sold), 0) as pages_sold,
-        COALESCE(SUM(events.chapters_sold), 0) as chapters_sold
+        COALESCE(SUM(events.chapters_sold), 0) as chapters_sold,
+        COUNT(DISTINCT events.reader_address) as unique_readers
        FROM books b
        LEFT JOIN (
             SELECT
                 pl.book_id,
+                pl.reader_address,
                 pl.amount::bigint as amount,
                 CASE WHEN pl.page_number IS NOT NULL THEN 1 ELSE 0 END as pages_sold,
                 CASE WHEN pl.chapter_number IS NOT NULL THEN 1 ELSE 0 END as chapters_sold
             FROM payment_logs pl
+            JOIN books pb ON pb.id = pl.book_id
+            WHERE pb.author_address = $1
             UNION ALL
             SELECT
                 are.book_id,
+                are.reader_address,
                 are.amount::bigint as amount,
                 CASE WHEN are.page_number IS NOT NULL THEN 1 ELSE 0 END as pages_sold,
                 CASE WHEN are.chapter_number IS NOT NULL THEN 1 ELSE 0 END as chapters_sold
             FROM author_revenue_events are
+            WHERE are.author_address = $1 AND are.refunded_at IS NULL
         ) events ON b.id = events.book_id
        WHERE b.author_address = $1
+          OR b.id IN (SELECT book_id FROM author_revenue_events WHERE author_address = $1)
        GROUP BY b.id, b.title
        ORDER BY earnings DESC`,
             [authorAddress]
@@ -472,4 +1023,76 @@ router.get('/earnings', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/author/earnings/series
+ * Earnings bucketed by `interval` (day, week or month) between optional `from` and `to` dates
+ */
+router.get('/earnings/series', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const parsedQuery = parseEarningsSeriesQuery(req.query as Record<string, unknown>);
+        if (!parsedQuery.valid) {
+            res.status(400).json({ error: parsedQuery.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            interval: parsedQuery.interval,
+            series: await getAuthorEarningsSeries(
+                req.walletAddress as string,
+                parsedQuery.interval,
+                parsedQuery.from,
+                parsedQuery.to
+            ),
+        });
+    } catch (error) {
+        console.error('Error fetching earnings series:', error);
+        res.status(500).json({ error: 'Failed to fetch earnings series' });
+    }
+});
+
+/**
+ * GET /api/author/earnings/payouts
+ * Settled, pending and failed payout totals plus the latest settlement batches
+ */
+router.get('/earnings/payouts', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            payouts: await getAuthorPayoutBreakdown(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Error fetching payout breakdown:', error);
+        res.status(500).json({ error: 'Failed to fetch payout breakdown' });
+    }
+});
+
+/**
+ * GET /api/author/books/:bookId/funnel
+ * Paying readers per page, showing where readers stop unlocking
+ */
+router.get('/books/:bookId/funnel', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const funnel = await getBookUnlockFunnel(req.walletAddress as string, bookId);
+        if (!funnel) {
+            res.status(404).json({ error: 'Book not found for this author' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            funnel,
+        });
+    } catch (error) {
+        console.error('Error fetching unlock funnel:', error);
+        res.status(500).json({ error: 'Failed to fetch unlock funnel' });
+    }
+});
+
 export default router;
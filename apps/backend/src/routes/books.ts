@@ -1,33 +1,83 @@
 import { Router, Request, Response } from 'express';
 import pool from '../db/client';
+import {
+    optionalWalletSession,
+    requireWalletSession,
+    type AuthenticatedRequest,
+} from '../middleware/auth';
+import {
+    CATALOG_DEFAULT_LIMIT,
+    CATALOG_MAX_LIMIT,
+    CATALOG_SORTS,
+    decodeCatalogCursor,
+    isCatalogSort,
+    searchCatalog,
+} from '../services/catalog';
+import { getBookChapters } from '../services/book-metadata';
+import { canViewBook } from '../services/book-lifecycle';
+import { listBookEditions } from '../services/book-editions';
+import { getBookOffers } from '../services/book-bundles';
+import { getChapterPrices } from '../services/pricing';
+import { getActiveSale } from '../services/promotions';
 
 const router = Router();
 
 /**
- * GET /api/books
- * List all active books
+ * GET /api/books?q=&author=&minPrice=&maxPrice=&minPages=&maxPages=&sort=newest|cheapest|most_read|relevance&limit=&cursor=
+ * Search and browse the catalog with cursor pagination
  */
 router.get('/', async (req: Request, res: Response) => {
     try {
-        const result = await pool.query(
-            `SELECT 
-                id, 
-                author_address as "authorAddress", 
-                title, 
-                cover_image_url as "coverImageUrl", 
-                total_pages as "totalPages", 
-                total_chapters as "totalChapters", 
-                page_price as "pagePrice", 
-                chapter_price as "chapterPrice", 
-                created_at as "createdAt"
-             FROM books 
-             ORDER BY created_at DESC`
-        );
+        const q = readStringParam(req.query.q);
+        const sortParam = readStringParam(req.query.sort);
+        const sort = sortParam || (q ? 'relevance' : 'newest');
+        if (!isCatalogSort(sort)) {
+            res.status(400).json({ error: `sort must be one of ${CATALOG_SORTS.join(', ')}` });
+            return;
+        }
+        if (sort === 'relevance' && !q) {
+            res.status(400).json({ error: 'sort=relevance requires a search query (q)' });
+            return;
+        }
+
+        const limit = readIntegerParam(req.query.limit) ?? CATALOG_DEFAULT_LIMIT;
+        const minPages = readIntegerParam(req.query.minPages);
+        const maxPages = readIntegerParam(req.query.maxPages);
+        const minPagePrice = readBigIntParam(req.query.minPrice);
+        const maxPagePrice = readBigIntParam(req.query.maxPrice);
+        if ([limit, minPages, maxPages].some((value) => value === null) || minPagePrice === null || maxPagePrice === null) {
+            res.status(400).json({ error: 'limit, minPages, maxPages, minPrice and maxPrice must be non-negative integers' });
+            return;
+        }
+        if (limit! < 1 || limit! > CATALOG_MAX_LIMIT) {
+            res.status(400).json({ error: `limit must be between 1 and ${CATALOG_MAX_LIMIT}` });
+            return;
+        }
+
+        const rawCursor = readStringParam(req.query.cursor);
+        const cursor = rawCursor ? decodeCatalogCursor(rawCursor) : undefined;
+        if (cursor === null || (cursor && cursor.sort !== sort)) {
+            res.status(400).json({ error: 'Invalid cursor for this sort order' });
+            return;
+        }
+
+        const page = await searchCatalog({
+            q,
+            authorAddress: readStringParam(req.query.author),
+            minPagePrice,
+            maxPagePrice,
+            minPages: minPages ?? undefined,
+            maxPages: maxPages ?? undefined,
+            sort,
+            limit: limit!,
+            cursor,
+        });
 
         res.json({
             success: true,
-            books: result.rows,
-            total: result.rows.length,
+            books: page.books,
+            total: page.total,
+            nextCursor: page.nextCursor,
         });
     } catch (error) {
         console.error('Error fetching books:', error);
@@ -37,9 +87,9 @@ router.get('/', async (req: Request, res: Response) => {
 
 /**
  * GET /api/books/:id
- * Get book metadata
+ * Get book metadata and any running sale (drafts and archived books are hidden from readers who can't open them)
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const bookId = parseInt(req.params.id, 10);
 
@@ -53,20 +103,33 @@ router.get('/:id', async (req: Request, res: Response) => {
                 total_chapters as "totalChapters", 
                 page_price as "pagePrice", 
                 chapter_price as "chapterPrice", 
+                book_price as "bookPrice",
+                free_pages as "freePages",
+                free_chapters as "freeChapters",
+                description,
+                genres,
+                language,
+                isbn,
+                content_rating as "contentRating",
+                status,
+                publish_at as "publishAt",
+                published_at as "publishedAt",
+                current_edition as "currentEdition",
                 created_at as "createdAt"
        FROM books 
        WHERE id = $1`,
             [bookId]
         );
 
-        if (result.rows.length === 0) {
+        const book = result.rows[0];
+        if (!book || !await canViewBook({ ...book, bookId }, req.walletAddress)) {
             res.status(404).json({ error: 'Book not found' });
             return;
         }
 
         res.json({
             success: true,
-            book: result.rows[0],
+            book: { ...book, activeSale: await getActiveSale(bookId) },
         });
     } catch (error) {
         console.error('Error fetching book:', error);
@@ -74,14 +137,125 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/books/:id/chapters
+ * Table of contents with chapter titles, page ranges and effective chapter prices
+ */
+router.get('/:id/chapters', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.id, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const bookLookup = await pool.query(
+            'SELECT author_address as "authorAddress", status, publish_at as "publishAt" FROM books WHERE id = $1',
+            [bookId]
+        );
+        const book = bookLookup.rows[0];
+        if (!book || !await canViewBook({ ...book, bookId }, req.walletAddress)) {
+            res.status(404).json({ error: 'Book not found' });
+            return;
+        }
+
+        const chapters = await getBookChapters(bookId);
+        const prices = await getChapterPrices(bookId, chapters.map((chapter) => chapter.number));
+        res.json({
+            success: true,
+            bookId,
+            chapters: chapters.map((chapter) => ({ ...chapter, price: prices.get(chapter.number) ?? null })),
+        });
+    } catch (error) {
+        console.error('Error fetching chapters:', error);
+        res.status(500).json({ error: 'Failed to fetch chapters' });
+    }
+});
+
+/**
+ * GET /api/books/:id/editions?since=
+ * Edition history with changelogs, newest first (only editions after `since` when given)
+ */
+router.get('/:id/editions', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.id, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const since = readIntegerParam(req.query.since);
+        if (since === null) {
+            res.status(400).json({ error: 'since must be a non-negative integer' });
+            return;
+        }
+
+        const bookLookup = await pool.query(
+            `SELECT author_address as "authorAddress", status, publish_at as "publishAt", current_edition
+             FROM books
+             WHERE id = $1`,
+            [bookId]
+        );
+        const book = bookLookup.rows[0];
+        if (!book || !await canViewBook({ ...book, bookId }, req.walletAddress)) {
+            res.status(404).json({ error: 'Book not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            currentEdition: Number(book.current_edition),
+            editions: await listBookEditions(bookId, since ?? 0),
+        });
+    } catch (error) {
+        console.error('Error fetching editions:', error);
+        res.status(500).json({ error: 'Failed to fetch editions' });
+    }
+});
+
+/**
+ * GET /api/books/:id/offers
+ * Whole-book and chapter bundle prices; signed-in readers see prices net of what they already spent
+ */
+router.get('/:id/offers', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.id, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const bookLookup = await pool.query(
+            'SELECT author_address as "authorAddress", status, publish_at as "publishAt" FROM books WHERE id = $1',
+            [bookId]
+        );
+        const book = bookLookup.rows[0];
+        if (!book || !await canViewBook({ ...book, bookId }, req.walletAddress)) {
+            res.status(404).json({ error: 'Book not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            offers: await getBookOffers(bookId, req.walletAddress),
+        });
+    } catch (error) {
+        console.error('Error fetching offers:', error);
+        res.status(500).json({ error: 'Failed to fetch offers' });
+    }
+});
+
 /**
  * POST /api/books
- * Create a new book (author only)
+ * Create a new book (author only). Books start as drafts; publish them through
+ * PATCH /api/author/books/:bookId/status.
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
+        const authorAddress = req.walletAddress as string;
         const {
-            authorAddress,
             title,
             coverImageUrl,
             totalPages,
@@ -97,9 +271,15 @@ router.post('/', async (req: Request, res: Response) => {
         }
 
         const result = await pool.query(
-            `INSERT INTO books (author_address, title, cover_image_url, total_pages, total_chapters, page_price, chapter_price)
+            `WITH book AS (
+        INSERT INTO books (author_address, title, cover_image_url, total_pages, total_chapters, page_price, chapter_price)
        VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING 
+       RETURNING *
+       ), edition AS (
+        INSERT INTO book_editions (book_id, edition_number, total_pages, total_chapters)
+        SELECT id, 1, total_pages, total_chapters FROM book
+       )
+       SELECT 
         id, 
         author_address as "authorAddress", 
         title, 
@@ -108,7 +288,9 @@ router.post('/', async (req: Request, res: Response) => {
         total_chapters as "totalChapters", 
         page_price as "pagePrice", 
         chapter_price as "chapterPrice", 
-        created_at as "createdAt"`,
+        status,
+        created_at as "createdAt"
+       FROM book`,
             [authorAddress, title, coverImageUrl || null, totalPages, totalChapters || 0, pagePrice, chapterPrice]
         );
 
@@ -123,3 +305,31 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 export default router;
+
+function readStringParam(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+    return trimmed || undefined;
+}
+
+/** Returns undefined when absent and null when present but not a non-negative integer. */
+function readIntegerParam(value: unknown): number | null | undefined {
+    const raw = readStringParam(value);
+    if (raw === undefined) {
+        return undefined;
+    }
+
+    return /^\d+$/.test(raw) && Number.isSafeInteger(Number(raw)) ? Number(raw) : null;
+}
+
+function readBigIntParam(value: unknown): bigint | null | undefined {
+    const raw = readStringParam(value);
+    if (raw === undefined) {
+        return undefined;
+    }
+
+    return /^\d+$/.test(raw) ? BigInt(raw) : null;
+}
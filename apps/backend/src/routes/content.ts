@@ -1,31 +1,44 @@
 import { Router, Request, Response } from 'express';
 import pool from '../db/client';
 import {
+    optionalWalletSession,
+    requireWalletSession,
+    type AuthenticatedRequest,
+} from '../middleware/auth';
+import {
+    chargeCreditsForBookPurchase,
     chargeCreditsForChapter,
     chargeCreditsForPage,
     getReaderCreditBalance,
+    hasChapterAccess,
+    hasPageAccess,
+    hasBookPurchase,
     type CreditAccessInsufficient,
 } from '../services/credits';
+import { getBookAudience, type BookAudience, type BookStatus } from '../services/book-lifecycle';
+import { getPurchasableOffer } from '../services/book-bundles';
+import { effectiveChapterPriceSql, effectivePagePriceSql } from '../services/pricing';
+import { claimDiscountCode } from '../services/promotions';
+import { EPUB_IMAGE_MEDIA_TYPES } from '../services/epub';
+import { getObjectStorage, isPdfPageKey, shouldUseSignedUrls } from '../services/object-storage';
 
 const router = Router();
 
+const ARCHIVED_LOCKED_ERROR = 'This book is archived and only pages you already unlocked are available';
+
 /**
- * GET /api/content/progress?address=SP...
- * Returns reading progress for all books for the given reader.
+ * GET /api/content/progress
+ * Returns reading progress for all books for the signed-in reader.
  */
-router.get('/progress', async (req, res: Response) => {
+router.get('/progress', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const readerAddress = typeof req.query.address === 'string' ? req.query.address.trim() : '';
-
-        if (!readerAddress) {
-            res.status(400).json({ error: 'Reader wallet address is required' });
-            return;
-        }
+        const readerAddress = req.walletAddress as string;
 
         const progressLookup = await pool.query(
             `SELECT book_id, last_page
              FROM reader_book_progress
-             WHERE wallet_address = $1`,
+             WHERE wallet_address = $1
+             ORDER BY updated_at DESC`,
             [readerAddress]
         );
 
@@ -48,26 +61,21 @@ router.get('/progress', async (req, res: Response) => {
 });
 
 /**
- * GET /api/content/:bookId/progress?address=SP...
- * Returns last read page for the given reader and book.
+ * GET /api/content/:bookId/progress
+ * Returns last read page and last opened edition for the signed-in reader and book.
  */
-router.get('/:bookId/progress', async (req, res: Response) => {
+router.get('/:bookId/progress', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const bookId = parseInt(req.params.bookId, 10);
-        const readerAddress = typeof req.query.address === 'string' ? req.query.address.trim() : '';
+        const readerAddress = req.walletAddress as string;
 
         if (Number.isNaN(bookId) || bookId < 1) {
             res.status(400).json({ error: 'Invalid book ID' });
             return;
         }
 
-        if (!readerAddress) {
-            res.status(400).json({ error: 'Reader wallet address is required' });
-            return;
-        }
-
         const progressLookup = await pool.query(
-            `SELECT last_page
+            `SELECT last_page, last_seen_edition
              FROM reader_book_progress
              WHERE wallet_address = $1
                AND book_id = $2`,
@@ -77,12 +85,14 @@ router.get('/:bookId/progress', async (req, res: Response) => {
         const lastPage = progressLookup.rows.length > 0
             ? Number(progressLookup.rows[0].last_page)
             : null;
+        const lastSeenEdition = progressLookup.rows[0]?.last_seen_edition ?? null;
 
         res.json({
             success: true,
             bookId,
             walletAddress: readerAddress,
             lastPage,
+            lastSeenEdition,
         });
     } catch (error) {
         console.error('Error fetching reading progress:', error);
@@ -94,7 +104,7 @@ router.get('/:bookId/progress', async (req, res: Response) => {
  * GET /api/content/:bookId/page/:pageNum
  * Get page content (protected by prepaid reader credits)
  */
-router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
+router.get('/:bookId/page/:pageNum', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const bookId = parseInt(req.params.bookId, 10);
         const pageNum = parseInt(req.params.pageNum, 10);
@@ -109,8 +119,12 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
                 p.content,
                 p.page_number,
                 p.chapter_number,
-                b.page_price,
-                b.author_address
+                p.edition_number,
+                b.current_edition,
+                ${effectivePagePriceSql('b', 'p')} AS page_price,
+                b.author_address,
+                b.status,
+                b.publish_at
              FROM pages p
              JOIN books b ON b.id = p.book_id
              WHERE p.book_id = $1 AND p.page_number = $2`,
@@ -122,14 +136,24 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
             return;
         }
 
-        const page = pageLookup.rows[0] as {
+        const page = pageLookup.rows[0] as BookLifecycleRow & {
             content: string;
             page_number: number;
             chapter_number: number | null;
+            edition_number: number;
+            current_edition: number;
             page_price: string;
-            author_address: string;
         };
 
+        const audience = await authorizeBookAudience(req, res, page, bookId, 'Page not found');
+        if (!audience) {
+            return;
+        }
+        if (audience === 'buyers' && !await hasPageAccess(req.walletAddress!, bookId, pageNum, page.chapter_number)) {
+            res.status(403).json({ error: ARCHIVED_LOCKED_ERROR });
+            return;
+        }
+
         // Fetch navigation before any credit deduction so response assembly can't fail after charge.
         const nextPage = await pool.query(
             'SELECT page_number FROM pages WHERE book_id = $1 AND page_number > $2 ORDER BY page_number LIMIT 1',
@@ -141,17 +165,18 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
             [bookId, pageNum]
         );
 
-        const readerAddressHeader = req.header('X-Stacks-Address');
-        const readerAddress = typeof readerAddressHeader === 'string' ? readerAddressHeader.trim() : '';
+        const readerAddress = req.walletAddress || '';
+        const pagePrice = BigInt(page.page_price);
 
         let creditBalance: string | undefined;
         let deductedAmount = '0';
 
-        if (pageNum > 1) {
+        // Authors read their own books free, including drafts they preview before publishing.
+        if (pagePrice > BigInt(0) && audience !== 'author') {
             if (!readerAddress) {
                 res.status(401).json({
-                    error: 'Reader wallet address is required',
-                    details: 'Send X-Stacks-Address header to access locked pages',
+                    error: 'Wallet session required',
+                    details: 'Sign in with your wallet to access locked pages',
                 });
                 return;
             }
@@ -161,7 +186,7 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
                 bookId,
                 pageNumber: pageNum,
                 chapterNumber: page.chapter_number,
-                pagePrice: BigInt(page.page_price),
+                pagePrice,
                 authorAddress: page.author_address,
             });
 
@@ -177,7 +202,8 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
             creditBalance = freePageBalance.toString();
         }
 
-        const rendered = parseStoredPageContent(page.content);
+        const rendered = parseStoredPageContent(page.content, bookId);
+        const pdfPageUrl = await resolvePdfPageUrl(bookId, page.page_number, rendered.pdfObjectKey);
 
         if (readerAddress) {
             await upsertReaderProgress(readerAddress, bookId, page.page_number);
@@ -188,8 +214,12 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
             content: rendered.text,
             renderType: rendered.renderType,
             pdfPageBase64: rendered.pdfPageBase64,
+            pdfPageUrl,
+            images: rendered.images,
             pageNumber: page.page_number,
             chapterNumber: page.chapter_number,
+            edition: page.current_edition,
+            revisedInEdition: page.edition_number > 1 ? page.edition_number : null,
             nextPage: nextPage.rows.length > 0 ? nextPage.rows[0].page_number : null,
             prevPage: prevPage.rows.length > 0 ? prevPage.rows[0].page_number : null,
             creditBalance,
@@ -205,7 +235,7 @@ router.get('/:bookId/page/:pageNum', async (req, res: Response) => {
  * GET /api/content/:bookId/chapter/:chapterNum
  * Get all pages in a chapter (protected by prepaid reader credits)
  */
-router.get('/:bookId/chapter/:chapterNum', async (req, res: Response) => {
+router.get('/:bookId/chapter/:chapterNum', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const bookId = parseInt(req.params.bookId, 10);
         const chapterNum = parseInt(req.params.chapterNum, 10);
@@ -219,8 +249,10 @@ router.get('/:bookId/chapter/:chapterNum', async (req, res: Response) => {
             `SELECT
                 p.content,
                 p.page_number,
-                b.chapter_price,
-                b.author_address
+                ${effectiveChapterPriceSql('b', 'p.chapter_number')} AS chapter_price,
+                b.author_address,
+                b.status,
+                b.publish_at
              FROM pages p
              JOIN books b ON b.id = p.book_id
              WHERE p.book_id = $1 AND p.chapter_number = $2
@@ -233,31 +265,46 @@ router.get('/:bookId/chapter/:chapterNum', async (req, res: Response) => {
             return;
         }
 
-        const readerAddressHeader = req.header('X-Stacks-Address');
-        const readerAddress = typeof readerAddressHeader === 'string' ? readerAddressHeader.trim() : '';
+        const audience = await authorizeBookAudience(
+            req,
+            res,
+            chapterLookup.rows[0] as BookLifecycleRow,
+            bookId,
+            'Chapter not found'
+        );
+        if (!audience) {
+            return;
+        }
+        if (audience === 'buyers' && !await hasChapterAccess(req.walletAddress!, bookId, chapterNum)) {
+            res.status(403).json({ error: ARCHIVED_LOCKED_ERROR });
+            return;
+        }
+
+        const readerAddress = req.walletAddress || '';
+        const chapterPricing = chapterLookup.rows[0] as {
+            chapter_price: string;
+            author_address: string;
+        };
+        const chapterPrice = BigInt(chapterPricing.chapter_price);
 
         let creditBalance: string | undefined;
         let deductedAmount = '0';
 
-        if (chapterNum > 1) {
+        // As on the page route, the author is not charged for their own chapters.
+        if (chapterPrice > BigInt(0) && audience !== 'author') {
             if (!readerAddress) {
                 res.status(401).json({
-                    error: 'Reader wallet address is required',
-                    details: 'Send X-Stacks-Address header to access locked chapters',
+                    error: 'Wallet session required',
+                    details: 'Sign in with your wallet to access locked chapters',
                 });
                 return;
             }
 
-            const chapterPricing = chapterLookup.rows[0] as {
-                chapter_price: string;
-                author_address: string;
-            };
-
             const access = await chargeCreditsForChapter({
                 walletAddress: readerAddress,
                 bookId,
                 chapterNumber: chapterNum,
-                chapterPrice: BigInt(chapterPricing.chapter_price),
+                chapterPrice,
                 authorAddress: chapterPricing.author_address,
             });
 
@@ -284,15 +331,17 @@ router.get('/:bookId/chapter/:chapterNum', async (req, res: Response) => {
         res.json({
             success: true,
             chapterNumber: chapterNum,
-            pages: chapterLookup.rows.map((row) => {
-                const parsed = parseStoredPageContent(String(row.content ?? ''));
+            pages: await Promise.all(chapterLookup.rows.map(async (row) => {
+                const parsed = parseStoredPageContent(String(row.content ?? ''), bookId);
                 return {
                     pageNumber: row.page_number,
                     content: parsed.text,
                     renderType: parsed.renderType,
                     pdfPageBase64: parsed.pdfPageBase64,
+                    pdfPageUrl: await resolvePdfPageUrl(bookId, Number(row.page_number), parsed.pdfObjectKey),
+                    images: parsed.images,
                 };
-            }),
+            })),
             creditBalance,
             creditDeducted: deductedAmount,
         });
@@ -302,12 +351,356 @@ router.get('/:bookId/chapter/:chapterNum', async (req, res: Response) => {
     }
 });
 
+/**
+ * POST /api/content/:bookId/purchase
+ * Buy the whole book ({}) or a chapter bundle ({ bundleId }) from prepaid credits.
+ * The price is reduced by what the reader already spent on the covered pages and chapters.
+ */
+router.post('/:bookId/purchase', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const rawBundleId = req.body?.bundleId;
+        const bundleId = rawBundleId === undefined || rawBundleId === null ? null : Number(rawBundleId);
+        if (bundleId !== null && (!Number.isInteger(bundleId) || bundleId < 1)) {
+            res.status(400).json({ error: 'bundleId must be a positive integer' });
+            return;
+        }
+
+        const bookLookup = await pool.query(
+            'SELECT author_address, status, publish_at FROM books WHERE id = $1',
+            [bookId]
+        );
+        if (bookLookup.rows.length === 0) {
+            res.status(404).json({ error: 'Book not found' });
+            return;
+        }
+
+        const audience = await authorizeBookAudience(req, res, bookLookup.rows[0] as BookLifecycleRow, bookId, 'Book not found');
+        if (!audience) {
+            return;
+        }
+        if (audience === 'author') {
+            res.status(400).json({ error: 'Authors already have access to their own books' });
+            return;
+        }
+        if (audience === 'buyers') {
+            res.status(403).json({ error: 'This book is archived and no longer sold' });
+            return;
+        }
+
+        const offer = await getPurchasableOffer(bookId, bundleId);
+        if (!offer) {
+            res.status(404).json({
+                error: bundleId === null ? 'This book is not sold as a whole' : 'Bundle not found',
+            });
+            return;
+        }
+
+        const purchase = await chargeCreditsForBookPurchase({
+            walletAddress: req.walletAddress as string,
+            bookId,
+            ...offer,
+        });
+
+        if (purchase.status === 'insufficient') {
+            sendInsufficientCredit(req, res, purchase);
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            bundleId,
+            listPrice: purchase.listPrice,
+            priorSpend: purchase.priorSpend,
+            alreadyOwned: purchase.usedExistingUnlock,
+            creditBalance: purchase.balance,
+            creditDeducted: purchase.deductedAmount,
+        });
+    } catch (error) {
+        console.error('Error purchasing book offer:', error);
+        res.status(500).json({ error: 'Failed to complete purchase' });
+    }
+});
+
+/**
+ * POST /api/content/:bookId/discount-code
+ * Apply a discount code to the reader's future page and chapter unlocks in this book: { code }
+ */
+router.post('/:bookId/discount-code', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = Number.parseInt(req.params.bookId, 10);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            res.status(400).json({ error: 'Invalid book ID' });
+            return;
+        }
+
+        const bookLookup = await pool.query(
+            'SELECT author_address, status, publish_at FROM books WHERE id = $1',
+            [bookId]
+        );
+        if (bookLookup.rows.length === 0) {
+            res.status(404).json({ error: 'Book not found' });
+            return;
+        }
+
+        const audience = await authorizeBookAudience(req, res, bookLookup.rows[0] as BookLifecycleRow, bookId, 'Book not found');
+        if (!audience) {
+            return;
+        }
+        if (audience === 'author') {
+            res.status(400).json({ error: 'Authors already have access to their own books' });
+            return;
+        }
+
+        const result = await claimDiscountCode(req.walletAddress as string, bookId, req.body?.code);
+        if (!result.valid) {
+            res.status(400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            bookId,
+            promotion: result.promotion,
+        });
+    } catch (error) {
+        console.error('Error applying discount code:', error);
+        res.status(500).json({ error: 'Failed to apply discount code' });
+    }
+});
+
+/**
+ * GET /api/content/:bookId/page/:pageNum/pdf
+ * Stream the stored PDF for a page. Does not charge: locked pages must already be unlocked
+ * through GET /api/content/:bookId/page/:pageNum (or belong to the signed-in author).
+ */
+router.get('/:bookId/page/:pageNum/pdf', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = parseInt(req.params.bookId, 10);
+        const pageNum = parseInt(req.params.pageNum, 10);
+
+        if (Number.isNaN(bookId) || Number.isNaN(pageNum) || pageNum < 1) {
+            res.status(400).json({ error: 'Invalid book or page number' });
+            return;
+        }
+
+        const pageLookup = await pool.query(
+            `SELECT p.content, p.chapter_number, b.author_address, b.status, b.publish_at,
+                    ${effectivePagePriceSql('b', 'p')} AS page_price
+             FROM pages p
+             JOIN books b ON b.id = p.book_id
+             WHERE p.book_id = $1 AND p.page_number = $2`,
+            [bookId, pageNum]
+        );
+
+        const page = pageLookup.rows[0] as (BookLifecycleRow & {
+            content: string;
+            chapter_number: number | null;
+            page_price: string;
+        }) | undefined;
+        const rendered = page ? parseStoredPageContent(page.content, bookId) : null;
+        if (!page || !rendered || rendered.renderType !== 'pdf-page') {
+            res.status(404).json({ error: 'PDF page not found' });
+            return;
+        }
+
+        if (!await authorizeBookAudience(req, res, page, bookId, 'PDF page not found')) {
+            return;
+        }
+
+        const isFree = BigInt(page.page_price) === BigInt(0);
+        if (!isFree) {
+            const readerAddress = req.walletAddress || '';
+            if (!readerAddress) {
+                res.status(401).json({
+                    error: 'Wallet session required',
+                    details: 'Sign in with your wallet to access locked pages',
+                });
+                return;
+            }
+
+            const allowed = readerAddress === page.author_address
+                || await hasPageAccess(readerAddress, bookId, pageNum, page.chapter_number);
+            if (!allowed) {
+                res.status(403).json({ error: 'Unlock this page before downloading its PDF' });
+                return;
+            }
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Cache-Control', isFree ? 'public, max-age=86400' : 'private, max-age=3600');
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+
+        // Pages uploaded before object storage still carry their PDF inline.
+        if (!rendered.pdfObjectKey) {
+            res.send(Buffer.from(rendered.pdfPageBase64 || '', 'base64'));
+            return;
+        }
+
+        const stored = await getObjectStorage().get(rendered.pdfObjectKey);
+        if (!stored) {
+            res.removeHeader('Cache-Control');
+            res.status(404).json({ error: 'PDF page not found in storage' });
+            return;
+        }
+
+        if (stored.byteSize !== null) {
+            res.setHeader('Content-Length', String(stored.byteSize));
+        }
+        stored.body.on('error', (error) => {
+            console.error('Error streaming PDF page:', error);
+            res.destroy(error);
+        });
+        stored.body.pipe(res);
+    } catch (error) {
+        console.error('Error fetching PDF page:', error);
+        res.status(500).json({ error: 'Failed to fetch PDF page' });
+    }
+});
+
+/**
+ * GET /api/content/:bookId/assets/:assetId
+ * Serve an imported book asset (EPUB image or cover). Covers are always public and images on
+ * free pages follow the book's visibility; other images require the author's session or an
+ * unlock for the page they appear on.
+ */
+router.get('/:bookId/assets/:assetId', optionalWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const bookId = parseInt(req.params.bookId, 10);
+        const assetId = parseInt(req.params.assetId, 10);
+
+        if (Number.isNaN(bookId) || Number.isNaN(assetId) || bookId < 1 || assetId < 1) {
+            res.status(400).json({ error: 'Invalid book or asset ID' });
+            return;
+        }
+
+        const assetLookup = await pool.query(
+            `SELECT
+                a.media_type,
+                a.page_number,
+                a.data,
+                p.chapter_number,
+                CASE WHEN p.page_number IS NULL THEN NULL ELSE ${effectivePagePriceSql('b', 'p')} END AS page_price,
+                b.author_address,
+                b.status,
+                b.publish_at
+             FROM book_assets a
+             JOIN books b ON b.id = a.book_id
+             LEFT JOIN pages p ON p.book_id = a.book_id AND p.page_number = a.page_number
+             WHERE a.book_id = $1 AND a.id = $2`,
+            [bookId, assetId]
+        );
+
+        if (assetLookup.rows.length === 0) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        const asset = assetLookup.rows[0] as BookLifecycleRow & {
+            media_type: string;
+            page_number: number | null;
+            data: Buffer;
+            chapter_number: number | null;
+            page_price: string | null;
+        };
+
+        // Covers stay reachable so unlisted links and the author dashboard can render them.
+        if (asset.page_number !== null && !await authorizeBookAudience(req, res, asset, bookId, 'Asset not found')) {
+            return;
+        }
+
+        const isPublic = asset.page_number === null || (asset.page_price !== null && BigInt(asset.page_price) === BigInt(0));
+        if (!isPublic) {
+            const readerAddress = req.walletAddress || '';
+            if (!readerAddress) {
+                res.status(401).json({
+                    error: 'Wallet session required',
+                    details: 'Sign in with your wallet to access locked pages',
+                });
+                return;
+            }
+
+            const allowed = readerAddress === asset.author_address
+                || await hasPageAccess(readerAddress, bookId, asset.page_number!, asset.chapter_number);
+            if (!allowed) {
+                res.status(403).json({ error: 'Unlock the page this image appears on to view it' });
+                return;
+            }
+        }
+
+        // Assets are uploader-controlled: never serve anything a browser could run on this origin.
+        res.setHeader(
+            'Content-Type',
+            EPUB_IMAGE_MEDIA_TYPES.includes(asset.media_type) ? asset.media_type : 'application/octet-stream'
+        );
+        res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+        res.setHeader('Cache-Control', isPublic ? 'public, max-age=86400' : 'private, max-age=3600');
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.send(asset.data);
+    } catch (error) {
+        console.error('Error fetching book asset:', error);
+        res.status(500).json({ error: 'Failed to fetch asset' });
+    }
+});
+
 export default router;
 
-function parseStoredPageContent(rawContent: string): {
+interface BookLifecycleRow {
+    author_address: string;
+    status: BookStatus;
+    publish_at: Date | null;
+}
+
+/**
+ * Applies the book's lifecycle status before any charge. Drafts and books that are not due
+ * yet are hidden from everyone but the author; archived books only from readers who never
+ * paid for part of them. Returns null once an error response has been sent.
+ */
+async function authorizeBookAudience(
+    req: AuthenticatedRequest,
+    res: Response,
+    book: BookLifecycleRow,
+    bookId: number,
+    notFoundError: string
+): Promise<BookAudience | null> {
+    const readerAddress = req.walletAddress || '';
+    if (readerAddress && readerAddress === book.author_address) {
+        return 'author';
+    }
+
+    const audience = getBookAudience({ status: book.status, publishAt: book.publish_at });
+    if (audience === 'public' || audience === 'link') {
+        return audience;
+    }
+
+    if (audience === 'buyers' && !readerAddress) {
+        res.status(401).json({
+            error: 'Wallet session required',
+            details: 'This book is archived. Sign in with the wallet you used to read it',
+        });
+        return null;
+    }
+
+    if (audience === 'author' || !await hasBookPurchase(readerAddress, bookId)) {
+        res.status(404).json({ error: notFoundError });
+        return null;
+    }
+
+    return audience;
+}
+
+function parseStoredPageContent(rawContent: string, bookId: number): {
     text: string;
-    renderType: 'text' | 'pdf-page';
+    renderType: 'text' | 'pdf-page' | 'markdown' | 'html';
     pdfPageBase64?: string;
+    pdfObjectKey?: string;
+    images?: Array<{ url: string; alt: string; position: number }>;
 } {
     const trimmed = rawContent.trim();
     if (!trimmed.startsWith('{')) {
@@ -322,7 +715,17 @@ function parseStoredPageContent(rawContent: string): {
             format?: string;
             text?: string;
             pdfPageBase64?: string;
+            pdfObjectKey?: string;
+            source?: string;
+            images?: Array<{ assetId?: number; alt?: string; position?: number }>;
         };
+        if (parsed.format === 'pdf-page' && isPdfPageKey(parsed.pdfObjectKey)) {
+            return {
+                text: typeof parsed.text === 'string' ? parsed.text : '',
+                renderType: 'pdf-page',
+                pdfObjectKey: parsed.pdfObjectKey,
+            };
+        }
         if (parsed.format === 'pdf-page' && typeof parsed.pdfPageBase64 === 'string' && parsed.pdfPageBase64) {
             return {
                 text: typeof parsed.text === 'string' ? parsed.text : '',
@@ -330,6 +733,27 @@ function parseStoredPageContent(rawContent: string): {
                 pdfPageBase64: parsed.pdfPageBase64,
             };
         }
+        // `source` was sanitized against the allowlist at upload time.
+        if ((parsed.format === 'markdown' || parsed.format === 'html') && typeof parsed.source === 'string') {
+            return {
+                text: parsed.source,
+                renderType: parsed.format,
+            };
+        }
+        if (parsed.format === 'epub-page') {
+            const images = (Array.isArray(parsed.images) ? parsed.images : [])
+                .filter((image) => Number.isInteger(image.assetId) && Number.isInteger(image.position))
+                .map((image) => ({
+                    url: `/api/content/${bookId}/assets/${image.assetId}`,
+                    alt: typeof image.alt === 'string' ? image.alt : '',
+                    position: Number(image.position),
+                }));
+            return {
+                text: typeof parsed.text === 'string' ? parsed.text : '',
+                renderType: 'text',
+                images,
+            };
+        }
     } catch {
         // keep legacy raw text fallback
     }
@@ -340,7 +764,26 @@ function parseStoredPageContent(rawContent: string): {
     };
 }
 
-function sendInsufficientCredit(req: Request, res: Response, access: CreditAccessInsufficient): void {
+/**
+ * Stored PDFs are served either through GET /:bookId/page/:pageNum/pdf or, when
+ * STORAGE_DELIVERY=signed-url with the S3 driver, via a short-lived presigned URL.
+ */
+async function resolvePdfPageUrl(bookId: number, pageNumber: number, pdfObjectKey?: string): Promise<string | undefined> {
+    if (!pdfObjectKey) {
+        return undefined;
+    }
+
+    if (shouldUseSignedUrls()) {
+        const signedUrl = await getObjectStorage().getSignedUrl(pdfObjectKey);
+        if (signedUrl) {
+            return signedUrl;
+        }
+    }
+
+    return `/api/content/${bookId}/page/${pageNumber}/pdf`;
+}
+
+function sendInsufficientCredit(req: AuthenticatedRequest, res: Response, access: CreditAccessInsufficient): void {
     if (!access.recipient) {
         res.status(500).json({
             success: false,
@@ -357,7 +800,7 @@ function sendInsufficientCredit(req: Request, res: Response, access: CreditAcces
         amount: accepted.amount,
         asset: accepted.asset,
         payTo: accepted.payTo,
-        reader: req.header('X-Stacks-Address') || null,
+        reader: req.walletAddress || null,
     });
     res.setHeader('payment-required', encodeBase64Json(paymentRequiredPayload));
     res.setHeader('WWW-Authenticate', 'x402');
@@ -413,11 +856,12 @@ async function upsertReaderProgress(walletAddress: string, bookId: number, pageN
     }
 
     await pool.query(
-        `INSERT INTO reader_book_progress (wallet_address, book_id, last_page, updated_at)
-         VALUES ($1, $2, $3, NOW())
+        `INSERT INTO reader_book_progress (wallet_address, book_id, last_page, last_seen_edition, updated_at)
+         VALUES ($1, $2, $3, (SELECT current_edition FROM books WHERE id = $2), NOW())
          ON CONFLICT (wallet_address, book_id)
          DO UPDATE SET
             last_page = EXCLUDED.last_page,
+            last_seen_edition = EXCLUDED.last_seen_edition,
             updated_at = NOW()`,
         [walletAddress, bookId, pageNumber]
     );
@@ -1,4 +1,6 @@
 import { Router, Request, Response } from 'express';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import { requireOpsRole, type OpsRequest } from '../middleware/admin-auth';
 import {
     createDepositIntent,
     getCreditFundingOptions,
@@ -8,21 +10,31 @@ import {
     settleAuthorRevenueBatch,
     settleDepositIntent,
 } from '../services/credits';
+import { fileCreditDispute, listReaderDisputes, parseDisputeInput } from '../services/disputes';
+import { getPlatformFeeReconciliation, runPlatformFeeSweep } from '../services/platform-sweeps';
+import {
+    buildCreditStatement,
+    formatStatementCsv,
+    isStatementFormat,
+    listCreditTransactions,
+    parseStatementFilters,
+} from '../services/statements';
+import {
+    listReaderWithdrawals,
+    parseWithdrawalAmount,
+    processCreditWithdrawals,
+    requestCreditWithdrawal,
+} from '../services/withdrawals';
 
 const router = Router();
 
 /**
- * GET /api/credits/balance?address=SP...
- * Returns reader prepaid credit balance in microSTX.
+ * GET /api/credits/balance
+ * Returns the signed-in reader's prepaid credit balance in microSTX.
  */
-router.get('/balance', async (req: Request, res: Response) => {
+router.get('/balance', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const address = typeof req.query.address === 'string' ? req.query.address.trim() : '';
-        if (!address) {
-            res.status(400).json({ error: 'Wallet address is required' });
-            return;
-        }
-
+        const address = req.walletAddress as string;
         const balance = await getReaderCreditBalance(address);
         const topUp = getCreditFundingOptions();
         res.json({
@@ -38,19 +50,73 @@ router.get('/balance', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/credits/deposit-intent
- * Creates a top-up intent used by the wallet transfer flow.
+ * GET /api/credits/transactions
+ * The signed-in reader's credit ledger, newest first. Filters: type (comma-separated), bookId,
+ * from and to (ISO dates), limit and cursor.
  */
-router.post('/deposit-intent', async (req: Request, res: Response) => {
+router.get('/transactions', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const walletAddress = typeof req.body.walletAddress === 'string' ? req.body.walletAddress.trim() : '';
-        const rawAmount = req.body.amount;
+        const parsedFilters = parseStatementFilters(req.query as Record<string, unknown>);
+        if (!parsedFilters.valid) {
+            res.status(400).json({ error: parsedFilters.error });
+            return;
+        }
+
+        const page = await listCreditTransactions(req.walletAddress as string, parsedFilters.filters);
+        res.json({
+            success: true,
+            transactions: page.transactions,
+            nextCursor: page.nextCursor,
+        });
+    } catch (error) {
+        console.error('Failed to fetch credit transactions:', error);
+        res.status(500).json({ error: 'Failed to fetch credit transactions' });
+    }
+});
 
-        if (!walletAddress) {
-            res.status(400).json({ error: 'walletAddress is required' });
+/**
+ * GET /api/credits/transactions/export
+ * Downloadable statement (format=csv|json) with the same filters as /transactions.
+ */
+router.get('/transactions/export', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const format = typeof req.query.format === 'string' ? req.query.format : 'csv';
+        if (!isStatementFormat(format)) {
+            res.status(400).json({ error: 'format must be csv or json' });
+            return;
+        }
+
+        const parsedFilters = parseStatementFilters(req.query as Record<string, unknown>);
+        if (!parsedFilters.valid) {
+            res.status(400).json({ error: parsedFilters.error });
+            return;
+        }
+
+        const statement = await buildCreditStatement(req.walletAddress as string, parsedFilters.filters);
+        const filename = `stackpad-statement-${statement.generatedAt.toISOString().slice(0, 10)}.${format}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.setHeader('Cache-Control', 'no-store');
+        if (format === 'csv') {
+            res.type('text/csv').send(formatStatementCsv(statement));
             return;
         }
 
+        res.json({ success: true, statement });
+    } catch (error) {
+        console.error('Failed to export credit statement:', error);
+        res.status(500).json({ error: 'Failed to export credit statement' });
+    }
+});
+
+/**
+ * POST /api/credits/deposit-intent
+ * Creates a top-up intent used by the wallet transfer flow.
+ */
+router.post('/deposit-intent', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const walletAddress = req.walletAddress as string;
+        const rawAmount = req.body.amount;
+
         let amount: bigint;
         try {
             amount = BigInt(rawAmount);
@@ -81,14 +147,14 @@ router.post('/deposit-intent', async (req: Request, res: Response) => {
  * POST /api/credits/settle
  * Verifies a submitted wallet top-up transaction and credits reader balance.
  */
-router.post('/settle', async (req: Request, res: Response) => {
+router.post('/settle', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const walletAddress = typeof req.body.walletAddress === 'string' ? req.body.walletAddress.trim() : '';
+        const walletAddress = req.walletAddress as string;
         const intentId = typeof req.body.intentId === 'string' ? req.body.intentId.trim() : '';
         const txHash = typeof req.body.txHash === 'string' ? req.body.txHash.trim() : '';
 
-        if (!walletAddress || !intentId) {
-            res.status(400).json({ error: 'walletAddress and intentId are required' });
+        if (!intentId) {
+            res.status(400).json({ error: 'intentId is required' });
             return;
         }
 
@@ -182,11 +248,123 @@ router.post('/settle', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/credits/disputes
+ * The signed-in reader's disputes, newest first
+ */
+router.get('/disputes', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            disputes: await listReaderDisputes(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Failed to fetch disputes:', error);
+        res.status(500).json({ error: 'Failed to fetch disputes' });
+    }
+});
+
+/**
+ * POST /api/credits/disputes
+ * Dispute a page or chapter charge: { reason } plus { transactionId } or
+ * { bookId, pageNumber | chapterNumber }. An admin approves or denies it.
+ */
+router.post('/disputes', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const parsedDispute = parseDisputeInput(req.body);
+        if (!parsedDispute.valid) {
+            res.status(400).json({ error: parsedDispute.error });
+            return;
+        }
+
+        const result = await fileCreditDispute(req.walletAddress as string, parsedDispute.target, parsedDispute.reason);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            dispute: result.dispute,
+        });
+    } catch (error) {
+        console.error('Failed to file dispute:', error);
+        res.status(500).json({ error: 'Failed to file dispute' });
+    }
+});
+
+/**
+ * GET /api/credits/withdrawals
+ * The signed-in reader's withdrawals, newest first
+ */
+router.get('/withdrawals', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            withdrawals: await listReaderWithdrawals(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Failed to fetch withdrawals:', error);
+        res.status(500).json({ error: 'Failed to fetch withdrawals' });
+    }
+});
+
+/**
+ * POST /api/credits/withdrawals
+ * Withdraw unused credit ({ amount } in microSTX) back to the signed-in wallet. The amount is held
+ * from the balance now and sent from the treasury by the withdrawal worker.
+ */
+router.post('/withdrawals', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const parsedAmount = parseWithdrawalAmount(req.body);
+        if (!parsedAmount.valid) {
+            res.status(400).json({ error: parsedAmount.error });
+            return;
+        }
+
+        const result = await requestCreditWithdrawal(req.walletAddress as string, parsedAmount.amount);
+        if (!result.valid) {
+            res.status(400).json({ error: result.error });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            withdrawal: result.withdrawal,
+            creditBalance: result.balance,
+        });
+    } catch (error) {
+        console.error('Failed to request withdrawal:', error);
+        res.status(500).json({ error: 'Failed to request withdrawal' });
+    }
+});
+
+/**
+ * POST /api/credits/process-withdrawals
+ * Manual trigger for withdrawal broadcast and reconciliation (admin/operator).
+ */
+router.post('/process-withdrawals', requireOpsRole('credits.process-withdrawals', ['operator']), async (_req: Request, res: Response) => {
+    try {
+        const result = await processCreditWithdrawals();
+        res.json({
+            success: true,
+            broadcastCount: result.broadcastCount,
+            confirmedCount: result.confirmedCount,
+            failedCount: result.failedCount,
+        });
+    } catch (error) {
+        console.error('Failed to process withdrawals:', error);
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to process withdrawals',
+        });
+    }
+});
+
 /**
  * POST /api/credits/reconcile
- * Manual trigger for pending deposit reconciliation (ops/debug).
+ * Manual trigger for pending deposit reconciliation (admin/operator).
  */
-router.post('/reconcile', async (_req: Request, res: Response) => {
+router.post('/reconcile', requireOpsRole('credits.reconcile', ['operator']), async (_req: Request, res: Response) => {
     try {
         await reconcilePendingDepositIntents();
         res.json({
@@ -201,9 +379,9 @@ router.post('/reconcile', async (_req: Request, res: Response) => {
 
 /**
  * POST /api/credits/settle-authors
- * Manual trigger for author payout settlement (ops/debug).
+ * Manual trigger for author payout settlement (admin/operator).
  */
-router.post('/settle-authors', async (req: Request, res: Response) => {
+router.post('/settle-authors', requireOpsRole('credits.settle-authors', ['operator']), async (req: Request, res: Response) => {
     try {
         const rawLimit = req.body?.limit;
         const parsedLimit = typeof rawLimit === 'number'
@@ -231,9 +409,9 @@ router.post('/settle-authors', async (req: Request, res: Response) => {
 
 /**
  * GET /api/credits/platform-revenue
- * Returns pending/settled platform fee totals from unlock-time split accounting.
+ * Returns pending/settled platform fee totals from unlock-time split accounting (admin/operator/auditor).
  */
-router.get('/platform-revenue', async (_req: Request, res: Response) => {
+router.get('/platform-revenue', requireOpsRole('credits.platform-revenue.read', ['operator', 'auditor']), async (_req: Request, res: Response) => {
     try {
         const summary = await getPlatformRevenueSummary();
         res.json({
@@ -242,6 +420,7 @@ router.get('/platform-revenue', async (_req: Request, res: Response) => {
             pendingAmount: summary.pendingAmount,
             settledAmount: summary.settledAmount,
             totalAmount: summary.totalAmount,
+            refundedAmount: summary.refundedAmount,
             pendingEvents: summary.pendingEvents,
             totalEvents: summary.totalEvents,
         });
@@ -253,6 +432,57 @@ router.get('/platform-revenue', async (_req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/credits/sweep-platform-fees
+ * Manual trigger for a platform fee sweep to the cold wallet, or an in-place settlement without one (admin/operator).
+ */
+router.post('/sweep-platform-fees', requireOpsRole('credits.sweep-platform-fees', ['operator']), async (req: OpsRequest, res: Response) => {
+    try {
+        const rawLimit = req.body?.limit;
+        const parsedLimit = typeof rawLimit === 'number'
+            ? rawLimit
+            : typeof rawLimit === 'string'
+                ? Number.parseInt(rawLimit, 10)
+                : undefined;
+        const limit = Number.isFinite(parsedLimit) && Number(parsedLimit) > 0
+            ? Math.floor(Number(parsedLimit))
+            : 1000;
+
+        const actor = req.opsActor!;
+        const result = await runPlatformFeeSweep(limit, `${actor.type}:${actor.id}`);
+        res.json({
+            success: true,
+            sweepId: result.sweepId,
+            eventCount: result.eventCount,
+            transferAmount: result.transferAmount.toString(),
+            confirmedCount: result.confirmedCount,
+            failedCount: result.failedCount,
+            skippedReason: result.skippedReason ?? null,
+        });
+    } catch (error) {
+        console.error('Failed to sweep platform fees:', error);
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to sweep platform fees',
+        });
+    }
+});
+
+/**
+ * GET /api/credits/platform-revenue/reconciliation
+ * Platform fees by settlement state against sweep totals, with any mismatched sweeps (admin/operator/auditor).
+ */
+router.get('/platform-revenue/reconciliation', requireOpsRole('credits.platform-revenue.read', ['operator', 'auditor']), async (_req: Request, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            report: await getPlatformFeeReconciliation(),
+        });
+    } catch (error) {
+        console.error('Failed to build platform fee reconciliation:', error);
+        res.status(500).json({ error: 'Failed to build platform fee reconciliation' });
+    }
+});
+
 export default router;
 
 function toCaip2Network(network: string): string {
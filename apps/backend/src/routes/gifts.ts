@@ -0,0 +1,113 @@
+import { Router, Response } from 'express';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import { listWalletGifts, parseGiftInput, redeemGiftCode, sendGift } from '../services/gifts';
+
+const router = Router();
+
+/**
+ * GET /api/gifts
+ * Gifts the signed-in wallet sent or received, newest first
+ */
+router.get('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            gifts: await listWalletGifts(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Error fetching gifts:', error);
+        res.status(500).json({ error: 'Failed to fetch gifts' });
+    }
+});
+
+/**
+ * POST /api/gifts
+ * Send credits ({ kind: 'credits', amount }), a whole book ({ kind: 'book', bookId }) or a chapter
+ * ({ kind: 'chapter', bookId, chapterNumber }) paid from the sender's credits. With
+ * `recipientAddress` the gift is delivered at once; without it a one-time gift code is returned.
+ */
+router.post('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const parsedGift = parseGiftInput(req.body);
+        if (!parsedGift.valid) {
+            res.status(400).json({ error: parsedGift.error });
+            return;
+        }
+
+        const result = await sendGift(req.walletAddress as string, parsedGift.input);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        const charge = result.charge;
+        if (charge.status === 'insufficient') {
+            res.status(402).json({
+                success: false,
+                code: 'INSUFFICIENT_CREDIT',
+                error: 'Insufficient credit balance',
+                requiredAmount: charge.requiredAmount,
+                currentBalance: charge.balance,
+                shortfall: charge.shortfall,
+                topUp: {
+                    recipient: charge.recipient,
+                    network: charge.network,
+                    suggestedAmount: charge.suggestedTopUpAmount,
+                },
+            });
+            return;
+        }
+        if (charge.status === 'rejected') {
+            res.status(400).json({ error: charge.error });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            giftId: charge.giftId,
+            code: result.code,
+            deliveredAs: charge.deliveredAs,
+            creditBalance: charge.balance,
+            creditDeducted: charge.deductedAmount,
+        });
+    } catch (error) {
+        console.error('Error sending gift:', error);
+        res.status(500).json({ error: 'Failed to send gift' });
+    }
+});
+
+/**
+ * POST /api/gifts/redeem
+ * Redeem a gift code ({ code }) into the signed-in wallet
+ */
+router.post('/redeem', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const code = typeof req.body?.code === 'string' ? req.body.code.trim() : '';
+        if (!code) {
+            res.status(400).json({ error: 'code is required' });
+            return;
+        }
+
+        const result = await redeemGiftCode(req.walletAddress as string, code);
+        if (result.status === 'rejected') {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            giftId: result.giftId,
+            kind: result.kind,
+            deliveredAs: result.deliveredAs,
+            bookId: result.bookId,
+            chapterNumber: result.chapterNumber,
+            amount: result.amount,
+            creditBalance: result.balance,
+        });
+    } catch (error) {
+        console.error('Error redeeming gift code:', error);
+        res.status(500).json({ error: 'Failed to redeem gift code' });
+    }
+});
+
+export default router;
@@ -0,0 +1,186 @@
+import { Router, Request, Response } from 'express';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import { requireOpsRole } from '../middleware/admin-auth';
+import { allocateSubscriptionRevenue } from '../services/credits';
+import {
+    cancelSubscriptionRenewal,
+    getReaderSubscription,
+    listSubscriptionPlans,
+    parseSubscriptionPlanInput,
+    saveSubscriptionPlan,
+    subscribeReader,
+} from '../services/subscriptions';
+
+const router = Router();
+
+/**
+ * GET /api/subscriptions/plans
+ * Plans readers can subscribe to, cheapest first
+ */
+router.get('/plans', async (_req: Request, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            plans: await listSubscriptionPlans(),
+        });
+    } catch (error) {
+        console.error('Error fetching subscription plans:', error);
+        res.status(500).json({ error: 'Failed to fetch subscription plans' });
+    }
+});
+
+/**
+ * GET /api/subscriptions/me
+ * The signed-in reader's current or most recent subscription month (null if never subscribed)
+ */
+router.get('/me', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        res.json({
+            success: true,
+            subscription: await getReaderSubscription(req.walletAddress as string),
+        });
+    } catch (error) {
+        console.error('Error fetching subscription:', error);
+        res.status(500).json({ error: 'Failed to fetch subscription' });
+    }
+});
+
+/**
+ * POST /api/subscriptions
+ * Subscribe with { planId }. The first month is paid from prepaid credits right away and
+ * renews monthly from credits until cancelled. Short balances return 402 INSUFFICIENT_CREDIT.
+ */
+router.post('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const planId = Number(req.body?.planId);
+        if (!Number.isInteger(planId) || planId < 1) {
+            res.status(400).json({ error: 'planId must be a positive integer' });
+            return;
+        }
+
+        const walletAddress = req.walletAddress as string;
+        const result = await subscribeReader(walletAddress, planId);
+        if (!result.valid) {
+            res.status(result.notFound ? 404 : 400).json({ error: result.error });
+            return;
+        }
+
+        const charge = result.charge;
+        if (charge.status === 'insufficient') {
+            res.status(402).json({
+                success: false,
+                code: 'INSUFFICIENT_CREDIT',
+                error: 'Insufficient credit balance',
+                requiredAmount: charge.requiredAmount,
+                currentBalance: charge.balance,
+                shortfall: charge.shortfall,
+                topUp: {
+                    recipient: charge.recipient,
+                    network: charge.network,
+                    suggestedAmount: charge.suggestedTopUpAmount,
+                },
+            });
+            return;
+        }
+
+        res.status(charge.usedExistingUnlock ? 200 : 201).json({
+            success: true,
+            subscription: await getReaderSubscription(walletAddress),
+            alreadySubscribed: charge.usedExistingUnlock,
+            creditBalance: charge.balance,
+            creditDeducted: charge.deductedAmount,
+        });
+    } catch (error) {
+        console.error('Error subscribing reader:', error);
+        res.status(500).json({ error: 'Failed to subscribe' });
+    }
+});
+
+/**
+ * DELETE /api/subscriptions/me
+ * Cancel renewal. Access continues until the paid month ends.
+ */
+router.delete('/me', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const subscription = await cancelSubscriptionRenewal(req.walletAddress as string);
+        if (!subscription) {
+            res.status(404).json({ error: 'No subscription found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            subscription,
+        });
+    } catch (error) {
+        console.error('Error cancelling subscription:', error);
+        res.status(500).json({ error: 'Failed to cancel subscription' });
+    }
+});
+
+/**
+ * POST /api/subscriptions/plans
+ * Create a plan: { name, price, description? } (admin)
+ */
+router.post('/plans', requireOpsRole('subscriptions.plans.create', ['admin']), async (req: Request, res: Response) => {
+    await savePlanFromRequest(req, res, null);
+});
+
+/**
+ * PATCH /api/subscriptions/plans/:planId
+ * Update a plan: { name?, price?, description?, isActive? } (admin). Price changes apply at renewal.
+ */
+router.patch('/plans/:planId', requireOpsRole('subscriptions.plans.update', ['admin']), async (req: Request, res: Response) => {
+    const planId = Number.parseInt(req.params.planId, 10);
+    if (!Number.isInteger(planId) || planId < 1) {
+        res.status(400).json({ error: 'Invalid plan ID' });
+        return;
+    }
+    await savePlanFromRequest(req, res, planId);
+});
+
+/**
+ * POST /api/subscriptions/allocate
+ * Manual trigger for month-end subscription revenue allocation (admin/operator).
+ */
+router.post('/allocate', requireOpsRole('subscriptions.allocate', ['operator']), async (_req: Request, res: Response) => {
+    try {
+        const result = await allocateSubscriptionRevenue();
+        res.json({
+            success: true,
+            subscriptionCount: result.subscriptionCount,
+            authorAmount: result.authorAmount.toString(),
+        });
+    } catch (error) {
+        console.error('Failed to allocate subscription revenue:', error);
+        res.status(500).json({
+            error: error instanceof Error ? error.message : 'Failed to allocate subscription revenue',
+        });
+    }
+});
+
+async function savePlanFromRequest(req: Request, res: Response, planId: number | null): Promise<void> {
+    try {
+        const parsedPlan = parseSubscriptionPlanInput(req.body, planId !== null);
+        if (!parsedPlan.valid) {
+            res.status(400).json({ error: parsedPlan.error });
+            return;
+        }
+
+        const plan = await saveSubscriptionPlan(planId, parsedPlan.input);
+        if (!plan) {
+            res.status(404).json({ error: 'Subscription plan not found' });
+            return;
+        }
+
+        res.status(planId === null ? 201 : 200).json({
+            success: true,
+            plan,
+        });
+    } catch (error) {
+        console.error('Error saving subscription plan:', error);
+        res.status(500).json({ error: 'Failed to save subscription plan' });
+    }
+}
+
+export default router;
@@ -0,0 +1,470 @@
+import { Router, Response, raw } from 'express';
+import * as dotenv from 'dotenv';
+import { requireWalletSession, type AuthenticatedRequest } from '../middleware/auth';
+import {
+    normalizePage,
+    parseBookDraft,
+    storePdfPageBlobs,
+    type NormalizedPage,
+} from '../services/book-import';
+import { MultipartParseError, getMultipartBoundary, parseMultipart } from '../services/multipart';
+import { ObjectStorageError, storePdfPage } from '../services/object-storage';
+import {
+    MAX_SOURCE_PARTS,
+    UPLOAD_SOURCE_TYPES,
+    abortUploadSession,
+    createUploadSession,
+    deleteUploadPages,
+    finalizeUploadSession,
+    getUploadProgress,
+    getUploadSession,
+    listOpenUploadSessions,
+    stageSourcePart,
+    stageUploadPages,
+    type UploadSession,
+    type UploadSourceType,
+} from '../services/upload-sessions';
+
+dotenv.config();
+
+const PUBLIC_API_URL = (process.env.PUBLIC_API_URL || '').replace(/\/+$/, '');
+const PAGE_BATCH_UPLOAD_LIMIT = '16mb';
+const SOURCE_PART_UPLOAD_LIMIT = '16mb';
+const MAX_PAGES_PER_BATCH = 500;
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const router = Router();
+
+/**
+ * GET /api/author/upload-sessions
+ * List the signed-in author's sessions that can still be resumed
+ */
+router.get('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const sessions = await listOpenUploadSessions(req.walletAddress as string);
+        res.json({
+            success: true,
+            sessions: await Promise.all(sessions.map(toSessionResponse)),
+        });
+    } catch (error) {
+        console.error('Error listing upload sessions:', error);
+        res.status(500).json({ error: 'Failed to list upload sessions' });
+    }
+});
+
+/**
+ * POST /api/author/upload-sessions
+ * Start a draft upload. `sourceType` is `pages` (default; pages are sent in batches)
+ * or `epub` (the file is sent in numbered parts). Book fields match POST /api/author/upload.
+ */
+router.post('/', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const sourceType = (req.body.sourceType ?? 'pages') as UploadSourceType;
+        if (!UPLOAD_SOURCE_TYPES.includes(sourceType)) {
+            res.status(400).json({ error: `Invalid request: sourceType must be one of ${UPLOAD_SOURCE_TYPES.join(', ')}` });
+            return;
+        }
+
+        const parsedDraft = parseBookDraft(req.body.book, req.body.chapters, { requireTitle: sourceType === 'pages' });
+        if (!parsedDraft.valid) {
+            res.status(400).json({ error: parsedDraft.error });
+            return;
+        }
+
+        let expectedPages: number | null = null;
+        if (req.body.expectedPages !== undefined && req.body.expectedPages !== null) {
+            expectedPages = Number(req.body.expectedPages);
+            if (sourceType !== 'pages' || !Number.isInteger(expectedPages) || expectedPages < 1) {
+                res.status(400).json({ error: 'Invalid request: expectedPages must be a positive integer for page uploads' });
+                return;
+            }
+        }
+
+        const session = await createUploadSession(
+            req.walletAddress as string,
+            sourceType,
+            parsedDraft.draft,
+            expectedPages
+        );
+
+        res.status(201).json({
+            success: true,
+            session: await toSessionResponse(session),
+        });
+    } catch (error) {
+        console.error('Error creating upload session:', error);
+        res.status(500).json({ error: 'Failed to create upload session' });
+    }
+});
+
+/**
+ * GET /api/author/upload-sessions/:sessionId
+ * Session status and progress: received pages or parts, and the ranges still missing
+ */
+router.get('/:sessionId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const session = await loadSession(req, res);
+        if (!session) {
+            return;
+        }
+
+        res.json({
+            success: true,
+            session: await toSessionResponse(session),
+        });
+    } catch (error) {
+        console.error('Error fetching upload session:', error);
+        res.status(500).json({ error: 'Failed to fetch upload session' });
+    }
+});
+
+/**
+ * PUT /api/author/upload-sessions/:sessionId/pages
+ * Stage a batch of pages. Send JSON `{ pages: [...] }`, or multipart/form-data with a `pages`
+ * JSON field plus one `pdf:<pageNumber>` file per PDF page. Re-sending a page replaces it.
+ */
+router.put(
+    '/:sessionId/pages',
+    requireWalletSession,
+    raw({ type: 'multipart/form-data', limit: PAGE_BATCH_UPLOAD_LIMIT }),
+    async (req: AuthenticatedRequest, res: Response) => {
+        try {
+            const session = await loadSession(req, res, 'pages');
+            if (!session) {
+                return;
+            }
+
+            const batch = await readPageBatch(req);
+            if (!batch.valid) {
+                res.status(400).json({ error: batch.error });
+                return;
+            }
+
+            const pages: NormalizedPage[] = [];
+            for (const raw of batch.pages) {
+                const normalized = normalizePage(raw, session.draft.contentFormat);
+                if (!normalized.valid) {
+                    res.status(400).json({ error: normalized.error });
+                    return;
+                }
+
+                const pdfFile = batch.pdfFiles.get(normalized.page.pageNumber);
+                if (pdfFile) {
+                    if (normalized.page.format !== 'text' || normalized.page.pdfObjectKey || normalized.page.pdfPageBase64) {
+                        res.status(400).json({ error: `Invalid request: page ${normalized.page.pageNumber} has more than one PDF source` });
+                        return;
+                    }
+                    try {
+                        normalized.page.pdfObjectKey = (await storePdfPage(pdfFile)).key;
+                    } catch (error) {
+                        if (error instanceof ObjectStorageError) {
+                            res.status(400).json({ error: `Invalid request: page ${normalized.page.pageNumber}: ${error.message}` });
+                            return;
+                        }
+                        throw error;
+                    }
+                }
+                pages.push(normalized.page);
+            }
+
+            const storedPdfPages = await storePdfPageBlobs(pages);
+            if (!storedPdfPages.valid) {
+                res.status(400).json({ error: storedPdfPages.error });
+                return;
+            }
+
+            const staged = await stageUploadPages(session, pages);
+            if (!staged.valid) {
+                res.status(staged.conflict ? 409 : 400).json({ error: staged.error });
+                return;
+            }
+
+            res.json({
+                success: true,
+                acceptedPages: pages.map((page) => page.pageNumber),
+                session: await toSessionResponse(await refreshSession(session)),
+            });
+        } catch (error) {
+            console.error('Error staging upload pages:', error);
+            res.status(500).json({ error: 'Failed to stage pages' });
+        }
+    }
+);
+
+/**
+ * DELETE /api/author/upload-sessions/:sessionId/pages?from=
+ * Drop staged pages from `from` onwards, e.g. after the manuscript was shortened
+ */
+router.delete('/:sessionId/pages', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const session = await loadSession(req, res, 'pages');
+        if (!session) {
+            return;
+        }
+
+        const fromPage = Number(req.query.from);
+        if (!Number.isInteger(fromPage) || fromPage < 1) {
+            res.status(400).json({ error: 'Invalid request: from must be a positive page number' });
+            return;
+        }
+
+        const deleted = await deleteUploadPages(session, fromPage);
+        if (!deleted.valid) {
+            res.status(deleted.conflict ? 409 : 400).json({ error: deleted.error });
+            return;
+        }
+
+        res.json({
+            success: true,
+            session: await toSessionResponse(await refreshSession(session)),
+        });
+    } catch (error) {
+        console.error('Error deleting staged pages:', error);
+        res.status(500).json({ error: 'Failed to delete staged pages' });
+    }
+});
+
+/**
+ * PUT /api/author/upload-sessions/:sessionId/parts/:partNumber
+ * Upload one chunk of the source file, as a raw body or a multipart `chunk` file. Parts are
+ * joined in part-number order on finalize. An optional `X-Content-SHA256` header is verified.
+ */
+router.put(
+    '/:sessionId/parts/:partNumber',
+    requireWalletSession,
+    raw({ type: ['application/octet-stream', 'application/epub+zip', 'multipart/form-data'], limit: SOURCE_PART_UPLOAD_LIMIT }),
+    async (req: AuthenticatedRequest, res: Response) => {
+        try {
+            const session = await loadSession(req, res, 'epub');
+            if (!session) {
+                return;
+            }
+
+            const partNumber = Number(req.params.partNumber);
+            if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_SOURCE_PARTS) {
+                res.status(400).json({ error: `Invalid request: partNumber must be between 1 and ${MAX_SOURCE_PARTS}` });
+                return;
+            }
+
+            let chunk: Buffer | null = Buffer.isBuffer(req.body) ? req.body : null;
+            const boundary = getMultipartBoundary(req.headers['content-type']);
+            if (chunk && boundary) {
+                try {
+                    chunk = parseMultipart(chunk, boundary).find((part) => part.name === 'chunk')?.data ?? null;
+                } catch (error) {
+                    if (error instanceof MultipartParseError) {
+                        res.status(400).json({ error: `Invalid multipart body: ${error.message}` });
+                        return;
+                    }
+                    throw error;
+                }
+            }
+
+            if (!chunk || chunk.length === 0) {
+                res.status(400).json({ error: 'Invalid request: send the part as an application/octet-stream body or a multipart "chunk" file' });
+                return;
+            }
+
+            const expectedSha256 = req.get('x-content-sha256');
+            if (expectedSha256 !== undefined && !/^[0-9a-fA-F]{64}$/.test(expectedSha256)) {
+                res.status(400).json({ error: 'Invalid request: X-Content-SHA256 must be a hex SHA-256 digest' });
+                return;
+            }
+
+            const staged = await stageSourcePart(session, partNumber, chunk, expectedSha256);
+            if (!staged.valid) {
+                res.status(staged.conflict ? 409 : 400).json({ error: staged.error });
+                return;
+            }
+
+            res.json({
+                success: true,
+                partNumber,
+                byteSize: chunk.length,
+                sha256: staged.sha256,
+                session: await toSessionResponse(await refreshSession(session)),
+            });
+        } catch (error) {
+            console.error('Error staging upload part:', error);
+            res.status(500).json({ error: 'Failed to stage upload part' });
+        }
+    }
+);
+
+/**
+ * POST /api/author/upload-sessions/:sessionId/finalize
+ * Create the book from everything staged. Safe to retry: a completed session returns its book.
+ */
+router.post('/:sessionId/finalize', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const session = await loadSession(req, res);
+        if (!session) {
+            return;
+        }
+
+        const result = await finalizeUploadSession(
+            session,
+            PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`
+        );
+        const current = await refreshSession(session);
+
+        if (!result.valid) {
+            res.status(result.conflict ? 409 : 400).json({
+                error: result.error,
+                session: await toSessionResponse(current),
+            });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            bookId: result.bookId,
+            session: await toSessionResponse(current),
+            message: 'Book uploaded successfully',
+        });
+    } catch (error) {
+        console.error('Error finalizing upload session:', error);
+        res.status(500).json({ error: 'Failed to finalize upload' });
+    }
+});
+
+/**
+ * DELETE /api/author/upload-sessions/:sessionId
+ * Abort the upload and delete everything staged for it
+ */
+router.delete('/:sessionId', requireWalletSession, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const session = await loadSession(req, res);
+        if (!session) {
+            return;
+        }
+
+        if (!await abortUploadSession(session)) {
+            res.status(409).json({ error: `Upload session is ${session.status}` });
+            return;
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error aborting upload session:', error);
+        res.status(500).json({ error: 'Failed to abort upload session' });
+    }
+});
+
+export default router;
+
+async function loadSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    sourceType?: UploadSourceType
+): Promise<UploadSession | null> {
+    const sessionId = req.params.sessionId;
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+        res.status(400).json({ error: 'Invalid upload session ID' });
+        return null;
+    }
+
+    const session = await getUploadSession(sessionId, req.walletAddress as string);
+    if (!session) {
+        res.status(404).json({ error: 'Upload session not found' });
+        return null;
+    }
+
+    if (sourceType && session.sourceType !== sourceType) {
+        res.status(400).json({ error: `This is a ${session.sourceType} upload session` });
+        return null;
+    }
+
+    return session;
+}
+
+async function refreshSession(session: UploadSession): Promise<UploadSession> {
+    return await getUploadSession(session.id, session.authorAddress) ?? session;
+}
+
+async function readPageBatch(req: AuthenticatedRequest): Promise<{
+    valid: true;
+    pages: unknown[];
+    pdfFiles: Map<number, Buffer>;
+} | {
+    valid: false;
+    error: string;
+}> {
+    const pdfFiles = new Map<number, Buffer>();
+    let pages: unknown = req.body?.pages;
+
+    const boundary = getMultipartBoundary(req.headers['content-type']);
+    if (boundary) {
+        if (!Buffer.isBuffer(req.body)) {
+            return { valid: false, error: 'Invalid request: empty multipart body' };
+        }
+
+        try {
+            pages = undefined;
+            for (const part of parseMultipart(req.body, boundary)) {
+                if (part.name === 'pages') {
+                    pages = JSON.parse(part.data.toString('utf-8'));
+                    continue;
+                }
+
+                const pdfMatch = part.name.match(/^pdf:(\d+)$/);
+                if (pdfMatch) {
+                    pdfFiles.set(Number(pdfMatch[1]), part.data);
+                }
+            }
+        } catch (error) {
+            if (error instanceof MultipartParseError || error instanceof SyntaxError) {
+                return { valid: false, error: `Invalid multipart body: ${error.message}` };
+            }
+            throw error;
+        }
+    }
+
+    if (!Array.isArray(pages) || pages.length === 0) {
+        return { valid: false, error: 'Invalid request: pages must be a non-empty array' };
+    }
+
+    if (pages.length > MAX_PAGES_PER_BATCH) {
+        return { valid: false, error: `Invalid request: send at most ${MAX_PAGES_PER_BATCH} pages per batch` };
+    }
+
+    const pageNumbers = new Set(pages.map((page) => Number((page as { pageNumber?: unknown } | null)?.pageNumber)));
+    if (pageNumbers.size !== pages.length) {
+        return { valid: false, error: 'Invalid request: a batch cannot contain the same page twice' };
+    }
+
+    for (const pageNumber of pdfFiles.keys()) {
+        if (!pageNumbers.has(pageNumber)) {
+            return { valid: false, error: `Invalid request: pdf:${pageNumber} has no matching page in this batch` };
+        }
+    }
+
+    return { valid: true, pages, pdfFiles };
+}
+
+async function toSessionResponse(session: UploadSession) {
+    const progress = await getUploadProgress(session);
+    return {
+        id: session.id,
+        status: session.status,
+        sourceType: session.sourceType,
+        bookId: session.bookId,
+        book: {
+            title: session.draft.title,
+            coverImageUrl: session.draft.coverImageUrl,
+            pagePrice: session.draft.pagePrice.toString(),
+            chapterPrice: session.draft.chapterPrice.toString(),
+            contentFormat: session.draft.contentFormat,
+            status: session.draft.status,
+            publishAt: session.draft.publishAt,
+            ...session.draft.metadata,
+        },
+        expectedPages: session.expectedPages,
+        progress,
+        lastError: session.lastError,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        completedAt: session.completedAt,
+    };
+}
@@ -5,12 +5,21 @@ import booksRouter from './routes/books';
 import contentRouter from './routes/content';
 import authorRouter from './routes/author';
 import creditsRouter from './routes/credits';
+import authRouter from './routes/auth';
+import adminRouter from './routes/admin';
+import uploadSessionsRouter from './routes/upload-sessions';
+import subscriptionsRouter from './routes/subscriptions';
+import giftsRouter from './routes/gifts';
+import { startBookLifecycleWorker } from './services/book-lifecycle';
 import { startCreditWorkers } from './services/credit-workers';
+import { startUploadSessionCleanup } from './services/upload-sessions';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const JSON_BODY_LIMIT = process.env.JSON_BODY_LIMIT || '1mb';
+const BOOK_UPLOAD_JSON_LIMIT = process.env.BOOK_UPLOAD_JSON_LIMIT || '10mb';
 
 // Middleware
 app.use(cors({
@@ -23,8 +32,12 @@ app.use(cors({
         'WWW-Authenticate',
     ],
 }));
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// PDF bytes go to object storage via raw uploads, so JSON bodies only carry text.
+// Book uploads and revisions get a larger allowance for long manuscripts; they must be mounted first.
+app.use('/api/author/upload', express.json({ limit: BOOK_UPLOAD_JSON_LIMIT }));
+app.use('/api/author/books/:bookId/editions', express.json({ limit: BOOK_UPLOAD_JSON_LIMIT }));
+app.use(express.json({ limit: JSON_BODY_LIMIT }));
+app.use(express.urlencoded({ extended: true, limit: JSON_BODY_LIMIT }));
 
 // Logging middleware
 app.use((req, res, next) => {
@@ -38,10 +51,15 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth', authRouter);
 app.use('/api/books', booksRouter);
 app.use('/api/content', contentRouter);
+app.use('/api/author/upload-sessions', uploadSessionsRouter);
 app.use('/api/author', authorRouter);
 app.use('/api/credits', creditsRouter);
+app.use('/api/subscriptions', subscriptionsRouter);
+app.use('/api/gifts', giftsRouter);
+app.use('/api/admin', adminRouter);
 
 // 404 handler
 app.use((req, res) => {
@@ -60,6 +78,8 @@ app.listen(PORT, () => {
     console.log('📚 Stackpad API ready');
     console.log(`🌐 Network: ${process.env.STACKS_NETWORK || 'testnet'}`);
     startCreditWorkers();
+    startUploadSessionCleanup();
+    startBookLifecycleWorker();
 });
 
 export default app;
@@ -0,0 +1,247 @@
+import { createHash, randomBytes } from 'crypto';
+import * as dotenv from 'dotenv';
+import pool from '../db/client';
+import { resolveSessionWallet } from './auth';
+
+dotenv.config();
+
+export type OpsRole = 'admin' | 'operator' | 'auditor';
+
+export const OPS_ROLES: readonly OpsRole[] = ['admin', 'operator', 'auditor'];
+
+const ADMIN_WALLETS = parseAddressList(process.env.ADMIN_WALLET_ADDRESSES);
+const OPERATOR_WALLETS = parseAddressList(process.env.OPERATOR_WALLET_ADDRESSES);
+const AUDITOR_WALLETS = parseAddressList(process.env.AUDITOR_WALLET_ADDRESSES);
+const API_KEY_PREFIX = 'spk_';
+
+export interface OpsActor {
+    type: 'api_key' | 'wallet';
+    id: string;
+    role: OpsRole;
+}
+
+export interface AdminApiKeySummary {
+    id: number;
+    label: string;
+    role: OpsRole;
+    keyPrefix: string;
+    createdBy: string | null;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+}
+
+export interface CreatedAdminApiKey extends AdminApiKeySummary {
+    apiKey: string;
+}
+
+export interface AuditLogEntry {
+    /** null for calls rejected before an actor could be resolved. */
+    actor: OpsActor | null;
+    action: string;
+    httpMethod: string;
+    path: string;
+    statusCode: number | null;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Resolves an ops actor from an `X-Api-Key` header value first, then from a
+ * wallet session whose address is on one of the role allowlists.
+ */
+export async function resolveOpsActor(credentials: {
+    apiKey?: string | null;
+    sessionToken?: string | null;
+}): Promise<OpsActor | null> {
+    const apiKey = credentials.apiKey?.trim();
+    if (apiKey) {
+        return resolveApiKeyActor(apiKey);
+    }
+
+    const sessionToken = credentials.sessionToken?.trim();
+    if (sessionToken) {
+        const session = await resolveSessionWallet(sessionToken);
+        if (!session) {
+            return null;
+        }
+
+        const role = resolveWalletRole(session.walletAddress);
+        return role
+            ? { type: 'wallet', id: session.walletAddress, role }
+            : null;
+    }
+
+    return null;
+}
+
+export function hasOpsRole(actor: OpsActor, allowedRoles: readonly OpsRole[]): boolean {
+    // Platform admins can always act in operator and auditor capacity.
+    return actor.role === 'admin' || allowedRoles.includes(actor.role);
+}
+
+export async function createAdminApiKey(label: string, role: OpsRole, createdBy: string): Promise<CreatedAdminApiKey> {
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+    const keyPrefix = apiKey.slice(0, API_KEY_PREFIX.length + 8);
+
+    const insert = await pool.query(
+        `INSERT INTO admin_api_keys (label, role, key_prefix, key_hash, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, label, role, key_prefix, created_by, last_used_at, revoked_at, created_at`,
+        [label, role, keyPrefix, hashApiKey(apiKey), createdBy]
+    );
+
+    return {
+        ...toApiKeySummary(insert.rows[0]),
+        apiKey,
+    };
+}
+
+export async function listAdminApiKeys(): Promise<AdminApiKeySummary[]> {
+    const lookup = await pool.query(
+        `SELECT id, label, role, key_prefix, created_by, last_used_at, revoked_at, created_at
+         FROM admin_api_keys
+         ORDER BY created_at DESC`
+    );
+    return lookup.rows.map(toApiKeySummary);
+}
+
+export async function revokeAdminApiKey(id: number): Promise<boolean> {
+    const update = await pool.query(
+        `UPDATE admin_api_keys
+         SET revoked_at = NOW()
+         WHERE id = $1
+           AND revoked_at IS NULL
+         RETURNING id`,
+        [id]
+    );
+    return update.rows.length > 0;
+}
+
+/** Inserts an audit row and returns its id so the final status can be filled in later. */
+export async function recordAuditLog(entry: AuditLogEntry): Promise<number> {
+    const insert = await pool.query(
+        `INSERT INTO admin_audit_log
+            (actor_type, actor_id, role, action, http_method, path, status_code, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+         RETURNING id`,
+        [
+            entry.actor?.type ?? null,
+            entry.actor?.id ?? null,
+            entry.actor?.role ?? null,
+            entry.action,
+            entry.httpMethod,
+            entry.path,
+            entry.statusCode,
+            entry.metadata ? JSON.stringify(entry.metadata) : null,
+        ]
+    );
+    return Number(insert.rows[0].id);
+}
+
+/** Stores the response status of an audited call; null when the client went away first. */
+export async function completeAuditLog(id: number, statusCode: number | null, aborted: boolean): Promise<void> {
+    await pool.query(
+        `UPDATE admin_audit_log
+         SET status_code = $2,
+             metadata = CASE WHEN $3 THEN COALESCE(metadata, '{}'::jsonb) || '{"aborted": true}'::jsonb ELSE metadata END
+         WHERE id = $1`,
+        [id, statusCode, aborted]
+    );
+}
+
+export async function listAuditLog(limit = 100, beforeId?: number): Promise<Array<Record<string, unknown>>> {
+    const cappedLimit = Math.min(Math.max(1, limit), 500);
+    const lookup = await pool.query(
+        `SELECT
+            id,
+            actor_type as "actorType",
+            actor_id as "actorId",
+            role,
+            action,
+            http_method as "httpMethod",
+            path,
+            status_code as "statusCode",
+            metadata,
+            created_at as "createdAt"
+         FROM admin_audit_log
+         WHERE ($2::integer IS NULL OR id < $2)
+         ORDER BY id DESC
+         LIMIT $1`,
+        [cappedLimit, beforeId ?? null]
+    );
+    return lookup.rows;
+}
+
+export function isOpsRole(value: unknown): value is OpsRole {
+    return typeof value === 'string' && (OPS_ROLES as readonly string[]).includes(value);
+}
+
+async function resolveApiKeyActor(apiKey: string): Promise<OpsActor | null> {
+    const lookup = await pool.query(
+        `UPDATE admin_api_keys
+         SET last_used_at = NOW()
+         WHERE key_hash = $1
+           AND revoked_at IS NULL
+         RETURNING id, role, key_prefix`,
+        [hashApiKey(apiKey)]
+    );
+
+    if (lookup.rows.length === 0) {
+        return null;
+    }
+
+    const row = lookup.rows[0] as { id: number; role: string; key_prefix: string };
+    if (!isOpsRole(row.role)) {
+        return null;
+    }
+
+    return {
+        type: 'api_key',
+        id: `${row.id}:${row.key_prefix}`,
+        role: row.role,
+    };
+}
+
+function resolveWalletRole(walletAddress: string): OpsRole | null {
+    const normalized = walletAddress.trim().toUpperCase();
+    if (ADMIN_WALLETS.has(normalized)) {
+        return 'admin';
+    }
+    if (OPERATOR_WALLETS.has(normalized)) {
+        return 'operator';
+    }
+    if (AUDITOR_WALLETS.has(normalized)) {
+        return 'auditor';
+    }
+    return null;
+}
+
+function toApiKeySummary(row: Record<string, unknown>): AdminApiKeySummary {
+    return {
+        id: Number(row.id),
+        label: String(row.label ?? ''),
+        role: String(row.role) as OpsRole,
+        keyPrefix: String(row.key_prefix ?? ''),
+        createdBy: row.created_by ? String(row.created_by) : null,
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at as string).toISOString() : null,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at as string).toISOString() : null,
+        createdAt: new Date(row.created_at as string).toISOString(),
+    };
+}
+
+function hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+}
+
+function parseAddressList(value: string | undefined): Set<string> {
+    if (!value) {
+        return new Set();
+    }
+
+    return new Set(
+        value
+            .split(',')
+            .map((entry) => entry.trim().toUpperCase())
+            .filter(Boolean)
+    );
+}
@@ -0,0 +1,128 @@
+import { hashMessage } from '@stacks/encryption';
+import { createStacksPrivateKey, getPublicKey, publicKeyToString, signMessageHashRsv } from '@stacks/transactions';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { READER } from '../test/fixtures';
+import { createAuthChallenge, resolveSessionWallet, revokeSession, verifyAuthChallenge } from './auth';
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+// Key pair of the testnet address STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T.
+const WALLET = 'STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T';
+const PRIVATE_KEY = createStacksPrivateKey('f699b57e4035a4e42835807953361a7572328c5e868f0babc5f41f384a32db79');
+const PUBLIC_KEY = publicKeyToString(getPublicKey(PRIVATE_KEY));
+
+function signChallenge(message: string): string {
+    const messageHash = Buffer.from(hashMessage(message)).toString('hex');
+    return signMessageHashRsv({ messageHash, privateKey: PRIVATE_KEY }).data;
+}
+
+async function signIn(): Promise<string> {
+    const challenge = await createAuthChallenge(WALLET);
+    const result = await verifyAuthChallenge({
+        walletAddress: WALLET,
+        nonce: challenge.nonce,
+        signature: signChallenge(challenge.message),
+        publicKey: PUBLIC_KEY,
+    });
+    if (result.status !== 'verified') {
+        throw new Error(result.error);
+    }
+    return result.session.token;
+}
+
+describe('verifyAuthChallenge', () => {
+    it('opens a session for a signature made by the wallet key', async () => {
+        const challenge = await createAuthChallenge(WALLET);
+
+        const result = await verifyAuthChallenge({
+            walletAddress: WALLET,
+            nonce: challenge.nonce,
+            signature: `0x${signChallenge(challenge.message)}`,
+            publicKey: PUBLIC_KEY,
+        });
+
+        expect(result).toMatchObject({ status: 'verified', session: { walletAddress: WALLET } });
+        const consumed = await testPool.query('SELECT consumed_at IS NOT NULL AS consumed FROM auth_challenges');
+        expect(consumed.rows).toEqual([{ consumed: true }]);
+    });
+
+    it('rejects a signature over a different message', async () => {
+        const challenge = await createAuthChallenge(WALLET);
+
+        expect(await verifyAuthChallenge({
+            walletAddress: WALLET,
+            nonce: challenge.nonce,
+            signature: signChallenge(`${challenge.message}\n`),
+            publicKey: PUBLIC_KEY,
+        })).toEqual({ status: 'invalid', error: 'Signature does not match the sign-in challenge' });
+        const sessions = await testPool.query('SELECT COUNT(*)::integer AS count FROM auth_sessions');
+        expect(sessions.rows).toEqual([{ count: 0 }]);
+    });
+
+    it('rejects a valid signature from a key that does not own the claimed wallet', async () => {
+        const challenge = await createAuthChallenge(READER);
+
+        expect(await verifyAuthChallenge({
+            walletAddress: READER,
+            nonce: challenge.nonce,
+            signature: signChallenge(challenge.message),
+            publicKey: PUBLIC_KEY,
+        })).toEqual({ status: 'invalid', error: 'Signing key does not belong to this wallet' });
+    });
+
+    it('refuses to reuse a challenge', async () => {
+        const challenge = await createAuthChallenge(WALLET);
+        const input = {
+            walletAddress: WALLET,
+            nonce: challenge.nonce,
+            signature: signChallenge(challenge.message),
+            publicKey: PUBLIC_KEY,
+        };
+        await verifyAuthChallenge(input);
+
+        expect(await verifyAuthChallenge(input)).toEqual({
+            status: 'invalid',
+            error: 'Sign-in challenge was already used',
+        });
+    });
+
+    it('refuses an expired challenge', async () => {
+        const challenge = await createAuthChallenge(WALLET);
+        await testPool.query(`UPDATE auth_challenges SET expires_at = NOW() - INTERVAL '1 minute'`);
+
+        expect(await verifyAuthChallenge({
+            walletAddress: WALLET,
+            nonce: challenge.nonce,
+            signature: signChallenge(challenge.message),
+            publicKey: PUBLIC_KEY,
+        })).toEqual({ status: 'invalid', error: 'Sign-in challenge expired. Request a new one.' });
+    });
+});
+
+describe('resolveSessionWallet', () => {
+    it('resolves a live session token to its wallet', async () => {
+        const token = await signIn();
+
+        expect(await resolveSessionWallet(token)).toMatchObject({ walletAddress: WALLET });
+        expect(await resolveSessionWallet('not-a-token')).toBeNull();
+    });
+
+    it('no longer resolves a session once it expired', async () => {
+        const token = await signIn();
+        await testPool.query(`UPDATE auth_sessions SET expires_at = NOW() - INTERVAL '1 minute'`);
+
+        expect(await resolveSessionWallet(token)).toBeNull();
+    });
+
+    it('no longer resolves a revoked session', async () => {
+        const token = await signIn();
+        await revokeSession(token);
+
+        expect(await resolveSessionWallet(token)).toBeNull();
+    });
+});
@@ -0,0 +1,270 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as dotenv from 'dotenv';
+import { verifyMessageSignatureRsv } from '@stacks/encryption';
+import {
+    getAddressFromPublicKey,
+    TransactionVersion,
+    validateStacksAddress,
+} from '@stacks/transactions';
+import pool from '../db/client';
+
+dotenv.config();
+
+const AUTH_CHALLENGE_TTL_MINUTES = toNumberSafe(process.env.AUTH_CHALLENGE_TTL_MINUTES, 5);
+const AUTH_SESSION_TTL_MINUTES = toNumberSafe(process.env.AUTH_SESSION_TTL_MINUTES, 12 * 60);
+const AUTH_APP_NAME = (process.env.AUTH_APP_NAME || 'Stackpad').trim();
+
+export interface AuthChallenge {
+    nonce: string;
+    walletAddress: string;
+    message: string;
+    expiresAt: string;
+}
+
+export interface AuthSession {
+    token: string;
+    walletAddress: string;
+    expiresAt: string;
+}
+
+export interface VerifyChallengeInput {
+    walletAddress: string;
+    nonce: string;
+    signature: string;
+    publicKey: string;
+}
+
+export type AuthVerificationResult =
+    | { status: 'verified'; session: AuthSession }
+    | { status: 'invalid'; error: string };
+
+export async function createAuthChallenge(walletAddress: string): Promise<AuthChallenge> {
+    const normalizedWallet = walletAddress.trim();
+    if (!normalizedWallet || !validateStacksAddress(normalizedWallet)) {
+        throw new Error('A valid Stacks wallet address is required');
+    }
+
+    const nonce = randomUUID();
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + (AUTH_CHALLENGE_TTL_MINUTES * 60_000));
+    const message = buildChallengeMessage(normalizedWallet, nonce, issuedAt, expiresAt);
+
+    await pool.query(
+        `INSERT INTO auth_challenges (nonce, wallet_address, message, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [nonce, normalizedWallet, message, expiresAt.toISOString()]
+    );
+
+    return {
+        nonce,
+        walletAddress: normalizedWallet,
+        message,
+        expiresAt: expiresAt.toISOString(),
+    };
+}
+
+export async function verifyAuthChallenge(input: VerifyChallengeInput): Promise<AuthVerificationResult> {
+    const normalizedWallet = input.walletAddress.trim();
+    const publicKey = normalizeHex(input.publicKey);
+    const signature = normalizeHex(input.signature);
+
+    if (!normalizedWallet || !input.nonce || !publicKey || !signature) {
+        return { status: 'invalid', error: 'walletAddress, nonce, signature and publicKey are required' };
+    }
+
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+
+        const challengeLookup = await client.query(
+            `SELECT nonce, wallet_address, message, expires_at, consumed_at
+             FROM auth_challenges
+             WHERE nonce = $1
+             FOR UPDATE`,
+            [input.nonce]
+        );
+
+        if (challengeLookup.rows.length === 0) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Sign-in challenge not found' };
+        }
+
+        const challenge = challengeLookup.rows[0] as {
+            nonce: string;
+            wallet_address: string;
+            message: string;
+            expires_at: Date | string;
+            consumed_at: Date | string | null;
+        };
+
+        if (challenge.consumed_at) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Sign-in challenge was already used' };
+        }
+
+        const expiresAt = new Date(challenge.expires_at);
+        if (Number.isNaN(expiresAt.getTime()) || Date.now() > expiresAt.getTime()) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Sign-in challenge expired. Request a new one.' };
+        }
+
+        if (!isSameAddress(challenge.wallet_address, normalizedWallet)) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Wallet does not match sign-in challenge' };
+        }
+
+        if (!isSignatureValid(challenge.message, signature, publicKey)) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Signature does not match the sign-in challenge' };
+        }
+
+        if (!isSameAddress(deriveAddressFromPublicKey(publicKey, normalizedWallet), normalizedWallet)) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'invalid', error: 'Signing key does not belong to this wallet' };
+        }
+
+        await client.query(
+            'UPDATE auth_challenges SET consumed_at = NOW() WHERE nonce = $1',
+            [challenge.nonce]
+        );
+
+        const token = randomBytes(32).toString('hex');
+        const sessionExpiresAt = new Date(Date.now() + (AUTH_SESSION_TTL_MINUTES * 60_000));
+        await client.query(
+            `INSERT INTO auth_sessions (wallet_address, token_hash, expires_at)
+             VALUES ($1, $2, $3)`,
+            [challenge.wallet_address, hashSessionToken(token), sessionExpiresAt.toISOString()]
+        );
+
+        await client.query('COMMIT');
+
+        return {
+            status: 'verified',
+            session: {
+                token,
+                walletAddress: challenge.wallet_address,
+                expiresAt: sessionExpiresAt.toISOString(),
+            },
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Resolves a bearer token to its wallet address, or null when the session is
+ * unknown, expired or revoked.
+ */
+export async function resolveSessionWallet(token: string): Promise<{ walletAddress: string; expiresAt: string } | null> {
+    const trimmed = token.trim();
+    if (!trimmed) {
+        return null;
+    }
+
+    const lookup = await pool.query(
+        `UPDATE auth_sessions
+         SET last_seen_at = NOW()
+         WHERE token_hash = $1
+           AND revoked_at IS NULL
+           AND expires_at > NOW()
+         RETURNING wallet_address, expires_at`,
+        [hashSessionToken(trimmed)]
+    );
+
+    if (lookup.rows.length === 0) {
+        return null;
+    }
+
+    const row = lookup.rows[0] as { wallet_address: string; expires_at: Date | string };
+    return {
+        walletAddress: row.wallet_address,
+        expiresAt: new Date(row.expires_at).toISOString(),
+    };
+}
+
+export async function revokeSession(token: string): Promise<void> {
+    await pool.query(
+        `UPDATE auth_sessions
+         SET revoked_at = NOW()
+         WHERE token_hash = $1
+           AND revoked_at IS NULL`,
+        [hashSessionToken(token.trim())]
+    );
+}
+
+function buildChallengeMessage(walletAddress: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+    return [
+        `${AUTH_APP_NAME} wants you to sign in with your Stacks account:`,
+        walletAddress,
+        '',
+        'Sign this message to prove you own this wallet. It does not cost any STX.',
+        '',
+        `Nonce: ${nonce}`,
+        `Issued At: ${issuedAt.toISOString()}`,
+        `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n');
+}
+
+function isSignatureValid(message: string, signature: string, publicKey: string): boolean {
+    try {
+        return verifyMessageSignatureRsv({ message, signature, publicKey });
+    } catch {
+        return false;
+    }
+}
+
+function deriveAddressFromPublicKey(publicKey: string, claimedAddress: string): string {
+    // Derive with the claimed address' version so testnet and mainnet wallets both verify.
+    const prefix = claimedAddress.trim().toUpperCase().slice(0, 2);
+    const txVersion = prefix === 'SP' || prefix === 'SM'
+        ? TransactionVersion.Mainnet
+        : TransactionVersion.Testnet;
+    try {
+        return getAddressFromPublicKey(publicKey, txVersion);
+    } catch {
+        return '';
+    }
+}
+
+function hashSessionToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeHex(value: unknown): string {
+    if (typeof value !== 'string') {
+        return '';
+    }
+    const trimmed = value.trim();
+    return trimmed.startsWith('0x') || trimmed.startsWith('0X')
+        ? trimmed.slice(2)
+        : trimmed;
+}
+
+function isSameAddress(a: string, b: string): boolean {
+    return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+function toNumberSafe(value: string | undefined, fallback: number): number {
+    if (!value) {
+        return fallback;
+    }
+
+    const parsed = Number.parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) {
+        return fallback;
+    }
+
+    return parsed;
+}
@@ -0,0 +1,329 @@
+import pool from '../db/client';
+import { getBookChapters } from './book-metadata';
+
+export type EarningsInterval = 'day' | 'week' | 'month';
+
+export const EARNINGS_INTERVALS: readonly EarningsInterval[] = ['day', 'week', 'month'];
+
+const MAX_SERIES_BUCKETS = 366;
+const DEFAULT_SERIES_BUCKETS: Record<EarningsInterval, number> = {
+    day: 30,
+    week: 12,
+    month: 12,
+};
+
+export interface EarningsSeriesPoint {
+    periodStart: Date;
+    amount: string;
+    unlocks: number;
+    readers: number;
+}
+
+export interface PayoutStatusTotals {
+    amount: string;
+    batchCount: number;
+}
+
+export interface AuthorSettlementBatchSummary {
+    id: number;
+    status: string;
+    totalAmount: string;
+    clawbackAmount: string;
+    eventCount: number;
+    payoutTxHash: string | null;
+    lastError: string | null;
+    createdAt: Date;
+    confirmedAt: Date | null;
+}
+
+export interface AuthorPayoutBreakdown {
+    settled: PayoutStatusTotals;
+    pending: PayoutStatusTotals;
+    failed: PayoutStatusTotals;
+    /** Credit revenue not yet claimed by a batch; failed batches return their events here. */
+    unbatchedAmount: string;
+    /** Refunded revenue waiting to be withheld from a future batch. */
+    outstandingClawbacks: string;
+    recentBatches: AuthorSettlementBatchSummary[];
+}
+
+export interface PageFunnelStep {
+    pageNumber: number;
+    chapterNumber: number | null;
+    free: boolean;
+    readers: number;
+}
+
+export interface BookUnlockFunnel {
+    bookId: number;
+    totalPages: number;
+    /** Readers who bought the whole book or a bundle; they pay once and are not in `pages`. */
+    upfrontBuyers: number;
+    pages: PageFunnelStep[];
+}
+
+export function isEarningsInterval(value: unknown): value is EarningsInterval {
+    return typeof value === 'string' && (EARNINGS_INTERVALS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates `interval`, `from` and `to` (ISO dates) for the earnings series. Without `from` the
+ * series covers the last 30 days, 12 weeks or 12 months.
+ */
+export function parseEarningsSeriesQuery(query: Record<string, unknown>): {
+    valid: true;
+    interval: EarningsInterval;
+    from: Date;
+    to: Date;
+} | {
+    valid: false;
+    error: string;
+} {
+    const interval = typeof query.interval === 'string' && query.interval.trim() ? query.interval.trim() : 'day';
+    if (!isEarningsInterval(interval)) {
+        return { valid: false, error: `interval must be one of ${EARNINGS_INTERVALS.join(', ')}` };
+    }
+
+    const to = parseQueryDate(query.to) ?? new Date();
+    const from = parseQueryDate(query.from) ?? shiftByInterval(to, interval, -(DEFAULT_SERIES_BUCKETS[interval] - 1));
+    if (Number.isNaN(to.getTime()) || Number.isNaN(from.getTime())) {
+        return { valid: false, error: 'from and to must be ISO dates' };
+    }
+    if (from > to) {
+        return { valid: false, error: 'from must not be after to' };
+    }
+    if (shiftByInterval(from, interval, MAX_SERIES_BUCKETS) <= to) {
+        return { valid: false, error: `The range may span at most ${MAX_SERIES_BUCKETS} ${interval}s` };
+    }
+
+    return { valid: true, interval, from, to };
+}
+
+/**
+ * Earnings per day, week or month from direct x402 payments and credit revenue, refunds excluded.
+ * Every bucket in the range is returned, including empty ones. Weeks start on Monday.
+ */
+export async function getAuthorEarningsSeries(
+    authorAddress: string,
+    interval: EarningsInterval,
+    from: Date,
+    to: Date
+): Promise<EarningsSeriesPoint[]> {
+    const result = await pool.query(
+        `WITH buckets AS (
+            SELECT generate_series(
+                date_trunc($2::text, $3::timestamp),
+                date_trunc($2::text, $4::timestamp),
+                ('1 ' || $2::text)::interval
+            ) AS period_start
+         ),
+         earnings AS (
+            SELECT pl.verified_at AS earned_at, pl.amount::bigint AS amount, pl.reader_address
+            FROM payment_logs pl
+            JOIN books b ON b.id = pl.book_id
+            WHERE b.author_address = $1
+              AND pl.verified_at >= date_trunc($2::text, $3::timestamp)
+              AND pl.verified_at < date_trunc($2::text, $4::timestamp) + ('1 ' || $2::text)::interval
+            UNION ALL
+            SELECT are.created_at, are.amount::bigint, are.reader_address
+            FROM author_revenue_events are
+            WHERE are.author_address = $1
+              AND are.refunded_at IS NULL
+              AND are.created_at >= date_trunc($2::text, $3::timestamp)
+              AND are.created_at < date_trunc($2::text, $4::timestamp) + ('1 ' || $2::text)::interval
+         )
+         SELECT bk.period_start,
+                COALESCE(SUM(e.amount), 0) AS amount,
+                COUNT(e.amount) AS unlocks,
+                COUNT(DISTINCT e.reader_address) AS readers
+         FROM buckets bk
+         LEFT JOIN earnings e ON date_trunc($2::text, e.earned_at) = bk.period_start
+         GROUP BY bk.period_start
+         ORDER BY bk.period_start ASC`,
+        [authorAddress, interval, from, to]
+    );
+
+    return result.rows.map((row) => ({
+        periodStart: row.period_start as Date,
+        amount: String(row.amount),
+        unlocks: Number(row.unlocks),
+        readers: Number(row.readers),
+    }));
+}
+
+/**
+ * Settlement batches grouped into settled (confirmed), pending (created or broadcasted) and
+ * failed, plus revenue still waiting for a batch. A failed batch's events go back to pending
+ * and are paid by a later batch, so failed amounts are not lost earnings.
+ */
+export async function getAuthorPayoutBreakdown(authorAddress: string): Promise<AuthorPayoutBreakdown> {
+    const [totals, unbatched, clawbacks, recent] = await Promise.all([
+        pool.query(
+            `SELECT CASE status
+                        WHEN 'confirmed' THEN 'settled'
+                        WHEN 'failed' THEN 'failed'
+                        ELSE 'pending'
+                    END AS bucket,
+                    COUNT(*) AS batch_count,
+                    COALESCE(SUM(total_amount), 0) AS amount
+             FROM author_settlement_batches
+             WHERE author_address = $1
+             GROUP BY 1`,
+            [authorAddress]
+        ),
+        pool.query(
+            `SELECT COALESCE(SUM(amount), 0) AS amount
+             FROM author_revenue_events
+             WHERE author_address = $1
+               AND settlement_status = 'pending'
+               AND refunded_at IS NULL`,
+            [authorAddress]
+        ),
+        pool.query(
+            `SELECT COALESCE(SUM(amount), 0) AS amount
+             FROM author_revenue_clawbacks
+             WHERE author_address = $1 AND status IN ('pending', 'reserved')`,
+            [authorAddress]
+        ),
+        pool.query(
+            `SELECT id, status, total_amount, clawback_amount, event_count, payout_tx_hash, last_error,
+                    created_at, confirmed_at
+             FROM author_settlement_batches
+             WHERE author_address = $1
+             ORDER BY created_at DESC, id DESC
+             LIMIT 20`,
+            [authorAddress]
+        ),
+    ]);
+
+    const byBucket = new Map<string, PayoutStatusTotals>(totals.rows.map((row) => [
+        String(row.bucket),
+        { amount: String(row.amount), batchCount: Number(row.batch_count) },
+    ]));
+    const empty: PayoutStatusTotals = { amount: '0', batchCount: 0 };
+
+    return {
+        settled: byBucket.get('settled') ?? empty,
+        pending: byBucket.get('pending') ?? empty,
+        failed: byBucket.get('failed') ?? empty,
+        unbatchedAmount: String(unbatched.rows[0].amount),
+        outstandingClawbacks: String(clawbacks.rows[0].amount),
+        recentBatches: recent.rows.map(mapBatchRow),
+    };
+}
+
+/**
+ * Distinct paying readers per page of an author's book. Page unlocks and x402 page payments count
+ * for their page; chapter unlocks and x402 chapter payments count for every page of the chapter.
+ * Returns null when the book is not the author's.
+ */
+export async function getBookUnlockFunnel(authorAddress: string, bookId: number): Promise<BookUnlockFunnel | null> {
+    const bookLookup = await pool.query(
+        'SELECT total_pages, free_pages FROM books WHERE id = $1 AND author_address = $2',
+        [bookId, authorAddress]
+    );
+    const book = bookLookup.rows[0];
+    if (!book) {
+        return null;
+    }
+
+    const chapters = await getBookChapters(bookId);
+    const [pageReaders, upfront] = await Promise.all([
+        pool.query(
+            `WITH chapter_ranges AS (
+                SELECT * FROM unnest($2::int[], $3::int[], $4::int[]) AS r(chapter_number, start_page, end_page)
+             ),
+             page_access AS (
+                SELECT wallet_address AS reader, page_number
+                FROM reader_page_unlocks
+                WHERE book_id = $1
+                UNION
+                SELECT reader_address, page_number
+                FROM payment_logs
+                WHERE book_id = $1 AND page_number IS NOT NULL
+                UNION
+                SELECT cu.wallet_address, gs.page_number
+                FROM reader_chapter_unlocks cu
+                JOIN chapter_ranges r ON r.chapter_number = cu.chapter_number
+                CROSS JOIN LATERAL generate_series(r.start_page, r.end_page) AS gs(page_number)
+                WHERE cu.book_id = $1
+                UNION
+                SELECT pl.reader_address, gs.page_number
+                FROM payment_logs pl
+                JOIN chapter_ranges r ON r.chapter_number = pl.chapter_number
+                CROSS JOIN LATERAL generate_series(r.start_page, r.end_page) AS gs(page_number)
+                WHERE pl.book_id = $1 AND pl.page_number IS NULL
+             )
+             SELECT page_number, COUNT(*) AS readers
+             FROM page_access
+             GROUP BY page_number`,
+            [
+                bookId,
+                chapters.map((chapter) => chapter.number),
+                chapters.map((chapter) => chapter.startPage),
+                chapters.map((chapter) => chapter.endPage),
+            ]
+        ),
+        pool.query(
+            `SELECT COUNT(DISTINCT wallet_address) AS buyers
+             FROM reader_book_entitlements
+             WHERE book_id = $1`,
+            [bookId]
+        ),
+    ]);
+
+    const readersByPage = new Map<number, number>(pageReaders.rows.map((row) => [
+        Number(row.page_number),
+        Number(row.readers),
+    ]));
+    const totalPages = Number(book.total_pages);
+    const freePages = Number(book.free_pages);
+    const pages: PageFunnelStep[] = [];
+    for (let pageNumber = 1; pageNumber <= totalPages; pageNumber += 1) {
+        const chapter = chapters.find((entry) => pageNumber >= entry.startPage && pageNumber <= entry.endPage);
+        pages.push({
+            pageNumber,
+            chapterNumber: chapter ? chapter.number : null,
+            free: pageNumber <= freePages,
+            readers: readersByPage.get(pageNumber) ?? 0,
+        });
+    }
+
+    return {
+        bookId,
+        totalPages,
+        upfrontBuyers: Number(upfront.rows[0].buyers),
+        pages,
+    };
+}
+
+function parseQueryDate(value: unknown): Date | null {
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+    return /^\d{4}-\d{2}-\d{2}/.test(value.trim()) ? new Date(value.trim()) : new Date(NaN);
+}
+
+function shiftByInterval(date: Date, interval: EarningsInterval, count: number): Date {
+    const shifted = new Date(date.getTime());
+    if (interval === 'month') {
+        shifted.setUTCMonth(shifted.getUTCMonth() + count);
+    } else {
+        shifted.setUTCDate(shifted.getUTCDate() + count * (interval === 'week' ? 7 : 1));
+    }
+    return shifted;
+}
+
+function mapBatchRow(row: Record<string, unknown>): AuthorSettlementBatchSummary {
+    return {
+        id: Number(row.id),
+        status: String(row.status),
+        totalAmount: String(row.total_amount),
+        clawbackAmount: String(row.clawback_amount),
+        eventCount: Number(row.event_count),
+        payoutTxHash: row.payout_tx_hash === null ? null : String(row.payout_tx_hash),
+        lastError: row.last_error === null ? null : String(row.last_error),
+        createdAt: row.created_at as Date,
+        confirmedAt: (row.confirmed_at as Date | null) ?? null,
+    };
+}
@@ -7,6 +7,7 @@ import {
     validateStacksAddress,
 } from '@stacks/transactions';
 import pool from '../db/client';
+import { credit, debit, postLedgerTransaction } from './ledger';
 import { accountsApi, transactionsApi } from './stacks';
 
 dotenv.config();
@@ -38,7 +39,7 @@ interface AuthorGroup {
     totalAmount: bigint;
 }
 
-interface BroadcastAttemptResult {
+export interface BroadcastAttemptResult {
     ok: boolean;
     txHash?: string;
     usedNonce: bigint;
@@ -46,12 +47,12 @@ interface BroadcastAttemptResult {
     shouldRefreshNonce?: boolean;
 }
 
-interface SettlementTxState {
+export interface SettlementTxState {
     status: 'pending' | 'confirmed' | 'failed';
     error?: string;
 }
 
-interface PayoutConfig {
+export interface PayoutConfig {
     treasuryAddress: string;
     treasuryPrivateKey: string;
 }
@@ -83,7 +84,12 @@ export async function settleAuthorPayoutBatch(limit = 500): Promise<{ eventCount
                     continue;
                 }
 
-                if (group.totalAmount < AUTHOR_PAYOUT_MIN_MICROSTX) {
+                // Refunds on revenue that was already paid out are withheld from this payout.
+                const clawbacks = await reserveClawbacks(group.authorAddress, group.totalAmount);
+                const payoutAmount = group.totalAmount - clawbacks.amount;
+
+                if (payoutAmount > BigInt(0) && payoutAmount < AUTHOR_PAYOUT_MIN_MICROSTX) {
+                    await releaseClawbacks(clawbacks.ids);
                     await markGroupFailed(
                         group.eventIds,
                         null,
@@ -92,38 +98,31 @@ export async function settleAuthorPayoutBatch(limit = 500): Promise<{ eventCount
                     continue;
                 }
 
-                const batchId = await createSettlementBatch(group.authorAddress, group.totalAmount, group.eventIds.length);
-                await linkEventsToBatch(group.eventIds, batchId);
+                const batchId = await createSettlementBatch(
+                    group.authorAddress,
+                    payoutAmount,
+                    group.eventIds.length,
+                    clawbacks.amount
+                );
+                await linkEventsToBatch(group.eventIds, clawbacks.ids, batchId);
+
+                if (payoutAmount === BigInt(0)) {
+                    // Fully offset: nothing to transfer, so the batch settles right away.
+                    await finalizeBroadcastedBatch(batchId, null);
+                    eventCount += group.eventIds.length;
+                    continue;
+                }
 
-                const memo = buildPayoutMemo(batchId);
-                let attempt = await broadcastAuthorPayout(
+                const attempt = await broadcastTreasuryTransfer(
                     config,
                     group.authorAddress,
-                    group.totalAmount,
+                    payoutAmount,
                     nextNonce,
-                    memo
+                    buildPayoutMemo(batchId)
                 );
 
-                if (!attempt.ok && attempt.shouldRefreshNonce) {
-                    try {
-                        nextNonce = await fetchNextTreasuryNonce(config.treasuryAddress);
-                        attempt = await broadcastAuthorPayout(
-                            config,
-                            group.authorAddress,
-                            group.totalAmount,
-                            nextNonce,
-                            memo
-                        );
-                    } catch (error) {
-                        attempt = {
-                            ok: false,
-                            usedNonce: nextNonce,
-                            error: error instanceof Error ? error.message : 'Failed to refresh nonce',
-                        };
-                    }
-                }
-
                 if (!attempt.ok || !attempt.txHash) {
+                    nextNonce = attempt.usedNonce;
                     await markGroupFailed(group.eventIds, batchId, attempt.error || 'Author payout broadcast failed');
                     continue;
                 }
@@ -131,7 +130,7 @@ export async function settleAuthorPayoutBatch(limit = 500): Promise<{ eventCount
                 await markGroupBroadcasted(group.eventIds, batchId, attempt.txHash, attempt.usedNonce);
                 nextNonce = attempt.usedNonce + BigInt(1);
                 eventCount += group.eventIds.length;
-                totalAmount += group.totalAmount;
+                totalAmount += payoutAmount;
             }
 
             return { eventCount, totalAmount };
@@ -176,7 +175,11 @@ export async function reconcileAuthorSettlementBatches(limit = 50): Promise<void
     }
 }
 
-async function withSettlementAdvisoryLock<T>(run: () => Promise<T>): Promise<T> {
+/**
+ * Runs `run` while holding the treasury broadcast lock. Everything that spends from the treasury
+ * takes it, so transfers never race for the same nonce.
+ */
+export async function withSettlementAdvisoryLock<T>(run: () => Promise<T>): Promise<T> {
     const client = await pool.connect();
     let acquired = false;
     try {
@@ -202,7 +205,7 @@ async function withSettlementAdvisoryLock<T>(run: () => Promise<T>): Promise<T>
     }
 }
 
-class SettlementLockUnavailableError extends Error {
+export class SettlementLockUnavailableError extends Error {
     constructor() {
         super('Author settlement lock is currently held by another worker');
     }
@@ -232,6 +235,23 @@ async function reclaimStaleProcessingEvents(): Promise<void> {
            AND processing_started_at < NOW() - ($1::double precision * INTERVAL '1 second')`,
         [timeoutSeconds]
     );
+    await pool.query(
+        `UPDATE author_revenue_clawbacks
+         SET status = 'pending',
+             settlement_batch_id = NULL,
+             reserved_at = NULL
+         WHERE status = 'reserved'
+           AND (
+                settlement_batch_id IS NULL
+                OR settlement_batch_id IN (
+                    SELECT id
+                    FROM author_settlement_batches
+                    WHERE status IN ('created', 'failed')
+                )
+           )
+           AND reserved_at < NOW() - ($1::double precision * INTERVAL '1 second')`,
+        [timeoutSeconds]
+    );
 }
 
 async function claimRevenueEvents(limit: number): Promise<ClaimedRevenueEvent[]> {
@@ -275,6 +295,10 @@ async function claimRevenueEvents(limit: number): Promise<ClaimedRevenueEvent[]>
     }
 }
 
+/**
+ * Groups claimed events by payee. Books with a revenue split record one event per contributor,
+ * so every co-author, illustrator or translator gets their own batch and transfer.
+ */
 function groupEventsByAuthor(events: ClaimedRevenueEvent[]): AuthorGroup[] {
     const grouped = new Map<string, AuthorGroup>();
 
@@ -298,29 +322,137 @@ function groupEventsByAuthor(events: ClaimedRevenueEvent[]): AuthorGroup[] {
     return Array.from(grouped.values());
 }
 
-async function createSettlementBatch(authorAddress: string, totalAmount: bigint, eventCount: number): Promise<number> {
+/**
+ * Reserves the author's oldest pending clawbacks, whole rows only, up to `maxAmount`. Anything
+ * that does not fit waits for a later batch.
+ */
+async function reserveClawbacks(authorAddress: string, maxAmount: bigint): Promise<{ ids: number[]; amount: bigint }> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const pending = await client.query(
+            `SELECT id, amount
+             FROM author_revenue_clawbacks
+             WHERE author_address = $1 AND status = 'pending'
+             ORDER BY created_at ASC, id ASC
+             FOR UPDATE SKIP LOCKED`,
+            [authorAddress]
+        );
+
+        const ids: number[] = [];
+        let amount = BigInt(0);
+        for (const row of pending.rows) {
+            const clawbackAmount = BigInt(String(row.amount));
+            if (amount + clawbackAmount > maxAmount) {
+                break;
+            }
+            ids.push(Number(row.id));
+            amount += clawbackAmount;
+        }
+
+        if (ids.length > 0) {
+            await client.query(
+                `UPDATE author_revenue_clawbacks
+                 SET status = 'reserved',
+                     reserved_at = NOW()
+                 WHERE id = ANY($1::int[])`,
+                [ids]
+            );
+        }
+
+        await client.query('COMMIT');
+        return { ids, amount };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+async function releaseClawbacks(clawbackIds: number[]): Promise<void> {
+    if (clawbackIds.length === 0) {
+        return;
+    }
+
+    await pool.query(
+        `UPDATE author_revenue_clawbacks
+         SET status = 'pending',
+             settlement_batch_id = NULL,
+             reserved_at = NULL
+         WHERE id = ANY($1::int[]) AND status = 'reserved'`,
+        [clawbackIds]
+    );
+}
+
+async function createSettlementBatch(
+    authorAddress: string,
+    totalAmount: bigint,
+    eventCount: number,
+    clawbackAmount: bigint
+): Promise<number> {
     const insert = await pool.query(
-        `INSERT INTO author_settlement_batches (author_address, total_amount, event_count, network, status)
-         VALUES ($1, $2, $3, $4, 'created')
+        `INSERT INTO author_settlement_batches (author_address, total_amount, event_count, network, status, clawback_amount)
+         VALUES ($1, $2, $3, $4, 'created', $5)
          RETURNING id`,
-        [authorAddress, totalAmount.toString(), eventCount, toCaip2Network(STACKS_NETWORK)]
+        [authorAddress, totalAmount.toString(), eventCount, toCaip2Network(STACKS_NETWORK), clawbackAmount.toString()]
     );
 
     return Number(insert.rows[0].id);
 }
 
-async function linkEventsToBatch(eventIds: number[], batchId: number): Promise<void> {
+async function linkEventsToBatch(eventIds: number[], clawbackIds: number[], batchId: number): Promise<void> {
     await pool.query(
         `UPDATE author_revenue_events
          SET settlement_batch_id = $2
          WHERE id = ANY($1::int[])`,
         [eventIds, batchId]
     );
+    if (clawbackIds.length > 0) {
+        await pool.query(
+            `UPDATE author_revenue_clawbacks
+             SET settlement_batch_id = $2
+             WHERE id = ANY($1::int[])`,
+            [clawbackIds, batchId]
+        );
+    }
 }
 
-async function broadcastAuthorPayout(
+/**
+ * Broadcasts a treasury STX transfer at `nonce`. On a nonce conflict the nonce is refetched and
+ * the transfer retried once; `usedNonce` is the nonce of the last attempt.
+ */
+export async function broadcastTreasuryTransfer(
     config: PayoutConfig,
-    authorAddress: string,
+    recipient: string,
+    amount: bigint,
+    nonce: bigint,
+    memo: string
+): Promise<BroadcastAttemptResult> {
+    const attempt = await broadcastStxTransfer(config, recipient, amount, nonce, memo);
+    if (attempt.ok || !attempt.shouldRefreshNonce) {
+        return attempt;
+    }
+
+    try {
+        const refreshedNonce = await fetchNextTreasuryNonce(config.treasuryAddress);
+        return await broadcastStxTransfer(config, recipient, amount, refreshedNonce, memo);
+    } catch (error) {
+        return {
+            ok: false,
+            usedNonce: nonce,
+            error: error instanceof Error ? error.message : 'Failed to refresh nonce',
+        };
+    }
+}
+
+async function broadcastStxTransfer(
+    config: PayoutConfig,
+    recipient: string,
     amount: bigint,
     nonce: bigint,
     memo: string
@@ -336,7 +468,7 @@ async function broadcastAuthorPayout(
             memo: string;
             fee?: bigint;
         } = {
-            recipient: authorAddress,
+            recipient,
             amount,
             senderKey: config.treasuryPrivateKey,
             network: STACKS_NETWORK,
@@ -378,7 +510,7 @@ async function broadcastAuthorPayout(
     }
 }
 
-async function fetchNextTreasuryNonce(treasuryAddress: string): Promise<bigint> {
+export async function fetchNextTreasuryNonce(treasuryAddress: string): Promise<bigint> {
     const nonces = await accountsApi.getAccountNonces({ principal: treasuryAddress });
     return BigInt(nonces.possible_next_nonce);
 }
@@ -436,6 +568,15 @@ async function markGroupFailed(eventIds: number[], batchId: number | null, reaso
                  WHERE id = $1`,
                 [batchId, reason]
             );
+            await client.query(
+                `UPDATE author_revenue_clawbacks
+                 SET status = 'pending',
+                     settlement_batch_id = NULL,
+                     reserved_at = NULL
+                 WHERE settlement_batch_id = $1
+                   AND status = 'reserved'`,
+                [batchId]
+            );
         }
 
         await client.query(
@@ -463,19 +604,28 @@ async function markGroupFailed(eventIds: number[], batchId: number | null, reaso
     }
 }
 
-async function finalizeBroadcastedBatch(batchId: number, txHash: string): Promise<void> {
+async function finalizeBroadcastedBatch(batchId: number, txHash: string | null): Promise<void> {
     const client = await pool.connect();
     let rolledBack = false;
     try {
         await client.query('BEGIN');
-        await client.query(
+        const confirmed = await client.query(
             `UPDATE author_settlement_batches
              SET status = 'confirmed',
                  confirmed_at = NOW(),
                  last_error = NULL
-             WHERE id = $1`,
+             WHERE id = $1 AND status IN ('created', 'broadcasted')
+             RETURNING author_address, total_amount`,
             [batchId]
         );
+        const batch = confirmed.rows[0];
+        if (batch) {
+            const totalAmount = BigInt(batch.total_amount);
+            await postLedgerTransaction(client, 'author_payout', { reference: `batch:${batchId}` }, [
+                debit('author_payable', String(batch.author_address), totalAmount),
+                credit('treasury_cash', null, totalAmount),
+            ]);
+        }
         await client.query(
             `UPDATE author_revenue_events
              SET settlement_status = 'settled',
@@ -488,6 +638,14 @@ async function finalizeBroadcastedBatch(batchId: number, txHash: string): Promis
                AND settlement_status = 'processing'`,
             [batchId, txHash]
         );
+        await client.query(
+            `UPDATE author_revenue_clawbacks
+             SET status = 'applied',
+                 applied_at = NOW()
+             WHERE settlement_batch_id = $1
+               AND status = 'reserved'`,
+            [batchId]
+        );
         await client.query('COMMIT');
     } catch (error) {
         if (!rolledBack) {
@@ -525,6 +683,15 @@ async function failBroadcastedBatch(batchId: number, reason: string): Promise<vo
                AND settlement_status = 'processing'`,
             [batchId, reason]
         );
+        await client.query(
+            `UPDATE author_revenue_clawbacks
+             SET status = 'pending',
+                 settlement_batch_id = NULL,
+                 reserved_at = NULL
+             WHERE settlement_batch_id = $1
+               AND status = 'reserved'`,
+            [batchId]
+        );
         await client.query('COMMIT');
     } catch (error) {
         if (!rolledBack) {
@@ -537,7 +704,7 @@ async function failBroadcastedBatch(batchId: number, reason: string): Promise<vo
     }
 }
 
-async function resolveSettlementTxState(txHash: string): Promise<SettlementTxState> {
+export async function resolveSettlementTxState(txHash: string): Promise<SettlementTxState> {
     try {
         const tx = await transactionsApi.getTransactionById({ txId: normalizeTxHash(txHash) }) as Record<string, unknown>;
         const status = String(tx.tx_status ?? '');
@@ -559,7 +726,7 @@ async function resolveSettlementTxState(txHash: string): Promise<SettlementTxSta
     }
 }
 
-function resolvePayoutConfig(): PayoutConfig | null {
+export function resolvePayoutConfig(): PayoutConfig | null {
     if (!TREASURY_ADDRESS || !TREASURY_PRIVATE_KEY) {
         if (!missingConfigWarningShown) {
             console.warn(
@@ -0,0 +1,290 @@
+import pool from '../db/client';
+import { getBookChapters } from './book-metadata';
+import { getReaderBookSpend } from './credits';
+import { toMicroStx } from './money';
+
+const MAX_BUNDLE_TITLE_LENGTH = 200;
+
+export interface BookBundle {
+    id: number;
+    bookId: number;
+    title: string;
+    chapterNumbers: number[];
+    price: string;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface BundleInput {
+    title?: string;
+    chapterNumbers?: number[];
+    price?: bigint;
+    isActive?: boolean;
+}
+
+/** What a reader would pay right now for the whole book or a bundle. */
+export interface BookOffer {
+    scope: 'book' | 'bundle';
+    bundleId: number | null;
+    title: string;
+    /** Null for the whole book. */
+    chapterNumbers: number[] | null;
+    listPrice: string;
+    /** List price minus the reader's prior spend on the covered content, never below zero. */
+    price: string;
+    owned: boolean;
+}
+
+/** The priced target of a purchase, ready for `chargeCreditsForBookPurchase`. */
+export interface PurchasableOffer {
+    bundleId: number | null;
+    chapterNumbers: number[] | null;
+    listPrice: bigint;
+    authorAddress: string;
+}
+
+/**
+ * Validates `{ title, chapters, price, isActive? }`. With `partial`, every field is optional
+ * but at least one must be present (used by PATCH).
+ */
+export function parseBundleInput(body: unknown, partial: boolean): {
+    valid: true;
+    input: BundleInput;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const input: BundleInput = {};
+
+    if (source.title !== undefined || !partial) {
+        const title = typeof source.title === 'string' ? source.title.trim() : '';
+        if (!title) {
+            return { valid: false, error: 'title must be a non-empty string' };
+        }
+        if (title.length > MAX_BUNDLE_TITLE_LENGTH) {
+            return { valid: false, error: `title must be at most ${MAX_BUNDLE_TITLE_LENGTH} characters` };
+        }
+        input.title = title;
+    }
+
+    if (source.chapters !== undefined || !partial) {
+        if (!Array.isArray(source.chapters) || source.chapters.length === 0) {
+            return { valid: false, error: 'chapters must be a non-empty array of chapter numbers' };
+        }
+        const chapterNumbers = source.chapters.map((value) => Number(value));
+        if (!chapterNumbers.every((value) => Number.isInteger(value) && value >= 1)) {
+            return { valid: false, error: 'chapters must contain positive integers' };
+        }
+        input.chapterNumbers = Array.from(new Set(chapterNumbers)).sort((a, b) => a - b);
+    }
+
+    if (source.price !== undefined || !partial) {
+        const price = toMicroStx(source.price);
+        if (price === null) {
+            return { valid: false, error: 'price must be a non-negative integer (microSTX)' };
+        }
+        input.price = price;
+    }
+
+    if (source.isActive !== undefined) {
+        if (typeof source.isActive !== 'boolean') {
+            return { valid: false, error: 'isActive must be a boolean' };
+        }
+        input.isActive = source.isActive;
+    }
+
+    if (Object.keys(input).length === 0) {
+        return { valid: false, error: 'No updates provided' };
+    }
+
+    return { valid: true, input };
+}
+
+export async function listBookBundles(bookId: number, includeInactive = false): Promise<BookBundle[]> {
+    const result = await pool.query(
+        `SELECT id, book_id, title, chapter_numbers, price, is_active, created_at, updated_at
+         FROM book_bundles
+         WHERE book_id = $1 AND ($2 OR is_active)
+         ORDER BY chapter_numbers[1] ASC, id ASC`,
+        [bookId, includeInactive]
+    );
+    return result.rows.map(mapBundleRow);
+}
+
+/**
+ * Creates a bundle on an author's book, or updates one when `bundleId` is given.
+ * Chapters must exist in the book's current edition.
+ */
+export async function saveBookBundle(
+    bookId: number,
+    authorAddress: string,
+    bundleId: number | null,
+    input: BundleInput
+): Promise<{
+    valid: true;
+    bundle: BookBundle;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const bookLookup = await pool.query(
+        'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+        [bookId, authorAddress]
+    );
+    if (bookLookup.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Book not found for this author' };
+    }
+
+    if (input.chapterNumbers) {
+        const chapters = new Set((await getBookChapters(bookId)).map((chapter) => chapter.number));
+        const missingChapters = input.chapterNumbers.filter((chapterNumber) => !chapters.has(chapterNumber));
+        if (missingChapters.length > 0) {
+            return { valid: false, error: `Book has no chapter ${missingChapters.join(', ')}` };
+        }
+    }
+
+    if (bundleId === null) {
+        const result = await pool.query(
+            `INSERT INTO book_bundles (book_id, title, chapter_numbers, price, is_active)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING id, book_id, title, chapter_numbers, price, is_active, created_at, updated_at`,
+            [bookId, input.title, input.chapterNumbers, input.price?.toString(), input.isActive ?? true]
+        );
+        return { valid: true, bundle: mapBundleRow(result.rows[0]) };
+    }
+
+    const result = await pool.query(
+        `UPDATE book_bundles
+         SET title = COALESCE($3, title),
+             chapter_numbers = COALESCE($4, chapter_numbers),
+             price = COALESCE($5, price),
+             is_active = COALESCE($6, is_active),
+             updated_at = NOW()
+         WHERE id = $1 AND book_id = $2
+         RETURNING id, book_id, title, chapter_numbers, price, is_active, created_at, updated_at`,
+        [
+            bundleId,
+            bookId,
+            input.title ?? null,
+            input.chapterNumbers ?? null,
+            input.price?.toString() ?? null,
+            input.isActive ?? null,
+        ]
+    );
+    if (result.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Bundle not found' };
+    }
+
+    return { valid: true, bundle: mapBundleRow(result.rows[0]) };
+}
+
+/**
+ * Whole-book price and active bundles with the reader's pro-rated price. Without a wallet,
+ * `price` equals `listPrice`.
+ */
+export async function getBookOffers(bookId: number, walletAddress?: string): Promise<BookOffer[]> {
+    const bookLookup = await pool.query('SELECT book_price FROM books WHERE id = $1', [bookId]);
+    if (bookLookup.rows.length === 0) {
+        return [];
+    }
+
+    const candidates: Array<Omit<BookOffer, 'price' | 'owned'>> = [];
+    if (bookLookup.rows[0].book_price !== null) {
+        candidates.push({
+            scope: 'book',
+            bundleId: null,
+            title: 'Whole book',
+            chapterNumbers: null,
+            listPrice: String(bookLookup.rows[0].book_price),
+        });
+    }
+    for (const bundle of await listBookBundles(bookId)) {
+        candidates.push({
+            scope: 'bundle',
+            bundleId: bundle.id,
+            title: bundle.title,
+            chapterNumbers: bundle.chapterNumbers,
+            listPrice: bundle.price,
+        });
+    }
+
+    if (!walletAddress) {
+        return candidates.map((offer) => ({ ...offer, price: offer.listPrice, owned: false }));
+    }
+
+    const entitlements = await pool.query(
+        `SELECT scope, bundle_id
+         FROM reader_book_entitlements
+         WHERE wallet_address = $1 AND book_id = $2`,
+        [walletAddress.trim(), bookId]
+    );
+    const ownsWholeBook = entitlements.rows.some((row) => row.scope === 'book');
+    const ownedBundles = new Set(entitlements.rows
+        .filter((row) => row.bundle_id !== null)
+        .map((row) => Number(row.bundle_id)));
+
+    const offers: BookOffer[] = [];
+    for (const offer of candidates) {
+        const owned = ownsWholeBook || (offer.bundleId !== null && ownedBundles.has(offer.bundleId));
+        const listPrice = BigInt(offer.listPrice);
+        const spent = owned ? listPrice : await getReaderBookSpend(walletAddress, bookId, offer.chapterNumbers);
+        offers.push({
+            ...offer,
+            price: (listPrice > spent ? listPrice - spent : BigInt(0)).toString(),
+            owned,
+        });
+    }
+    return offers;
+}
+
+/** Resolves a purchase target; `bundleId` null means the whole book. Retired bundles are not sold. */
+export async function getPurchasableOffer(bookId: number, bundleId: number | null): Promise<PurchasableOffer | null> {
+    if (bundleId === null) {
+        const result = await pool.query(
+            'SELECT book_price, author_address FROM books WHERE id = $1 AND book_price IS NOT NULL',
+            [bookId]
+        );
+        if (result.rows.length === 0) {
+            return null;
+        }
+        return {
+            bundleId: null,
+            chapterNumbers: null,
+            listPrice: BigInt(result.rows[0].book_price),
+            authorAddress: String(result.rows[0].author_address),
+        };
+    }
+
+    const result = await pool.query(
+        `SELECT bb.chapter_numbers, bb.price, b.author_address
+         FROM book_bundles bb
+         JOIN books b ON b.id = bb.book_id
+         WHERE bb.id = $1 AND bb.book_id = $2 AND bb.is_active`,
+        [bundleId, bookId]
+    );
+    if (result.rows.length === 0) {
+        return null;
+    }
+    return {
+        bundleId,
+        chapterNumbers: (result.rows[0].chapter_numbers as number[]).map(Number),
+        listPrice: BigInt(result.rows[0].price),
+        authorAddress: String(result.rows[0].author_address),
+    };
+}
+
+function mapBundleRow(row: Record<string, unknown>): BookBundle {
+    return {
+        id: Number(row.id),
+        bookId: Number(row.book_id),
+        title: String(row.title),
+        chapterNumbers: (row.chapter_numbers as number[]).map(Number),
+        price: String(row.price),
+        isActive: Boolean(row.is_active),
+        createdAt: row.created_at as Date,
+        updatedAt: row.updated_at as Date,
+    };
+}
@@ -0,0 +1,433 @@
+import type { PoolClient } from 'pg';
+import pool from '../db/client';
+import { buildChapterIndex, parseChapterTitles, replaceBookChapters } from './book-metadata';
+import { normalizePage, serializePageContent, type NormalizedPage } from './book-import';
+import type { PageContentFormat } from './rich-text';
+
+const MAX_CHANGELOG_LENGTH = 5000;
+
+/** A validated revision: replacement or appended pages, plus an optional cut at the end. */
+export interface EditionRevision {
+    changelog: string;
+    /** `chapterNumber` is left unset when the request omitted it, so the page keeps its chapter. */
+    pages: NormalizedPage[];
+    /** Pages after this number are dropped unless the revision sends them again. */
+    truncateAfter: number | null;
+    chapterTitles: Map<number, string>;
+}
+
+/** Format of a stored page. PDF pages are text pages with a stored PDF. */
+export interface StoredPageFormat {
+    format: PageContentFormat;
+    pdfObjectKey?: string;
+    /** Inline PDF of a page uploaded before PDFs moved to object storage. */
+    pdfPageBase64?: string;
+}
+
+/** Formats of a book's current pages, which revised pages default to and may not change. */
+export interface EditionBaseline {
+    pages: Map<number, StoredPageFormat>;
+    /** Format of the book's last page, used for appended pages that do not name one. */
+    defaultFormat: PageContentFormat;
+}
+
+/** A current page as the author edits it: rich pages return their sanitized source. */
+export interface RevisablePage {
+    pageNumber: number;
+    chapterNumber: number | null;
+    format: PageContentFormat;
+    content: string;
+    /** The page has a stored PDF, which a revision keeps unless it sends a new one. */
+    hasPdf: boolean;
+}
+
+export interface BookEdition {
+    edition: number;
+    changelog: string | null;
+    totalPages: number;
+    totalChapters: number;
+    changedPages: number[];
+    removedPages: number[];
+    createdAt: Date;
+}
+
+/**
+ * Validates `{ changelog, pages, truncateAfter?, chapters? }`. Pages use the same shape as
+ * `POST /api/author/upload`; error messages are ready to return to the client as-is.
+ * A page without `format` keeps the format of the page it replaces, and a PDF page sent
+ * without a new PDF keeps its stored one.
+ */
+export function parseEditionRevision(body: unknown, baseline: EditionBaseline): {
+    valid: true;
+    revision: EditionRevision;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+
+    const changelog = typeof source.changelog === 'string' ? source.changelog.trim() : '';
+    if (!changelog) {
+        return { valid: false, error: 'Invalid request: changelog is required' };
+    }
+    if (changelog.length > MAX_CHANGELOG_LENGTH) {
+        return { valid: false, error: `Invalid request: changelog must be at most ${MAX_CHANGELOG_LENGTH} characters` };
+    }
+
+    const rawPages = source.pages === undefined ? [] : source.pages;
+    if (!Array.isArray(rawPages)) {
+        return { valid: false, error: 'Invalid request: pages must be an array' };
+    }
+
+    const truncateAfter = source.truncateAfter === undefined || source.truncateAfter === null
+        ? null
+        : Number(source.truncateAfter);
+    if (truncateAfter !== null && (!Number.isInteger(truncateAfter) || truncateAfter < 1)) {
+        return { valid: false, error: 'Invalid request: truncateAfter must be a positive integer' };
+    }
+
+    if (rawPages.length === 0 && truncateAfter === null) {
+        return { valid: false, error: 'Invalid request: send revised pages or truncateAfter' };
+    }
+
+    const pages: NormalizedPage[] = [];
+    const seen = new Set<number>();
+    for (const raw of rawPages) {
+        const current = raw && typeof raw === 'object'
+            ? baseline.pages.get(Number((raw as Record<string, unknown>).pageNumber))
+            : undefined;
+        const result = normalizePage(raw, current ? current.format : baseline.defaultFormat);
+        if (!result.valid) {
+            return result;
+        }
+        const page = result.page;
+        if (seen.has(page.pageNumber)) {
+            return { valid: false, error: `Invalid request: page ${page.pageNumber} is listed more than once` };
+        }
+        seen.add(page.pageNumber);
+
+        if (current && page.format !== current.format) {
+            return {
+                valid: false,
+                error: `Invalid request: page ${page.pageNumber} is ${current.format} and cannot be revised as ${page.format}`,
+            };
+        }
+        if (current && !page.pdfObjectKey && !page.pdfPageBase64) {
+            page.pdfObjectKey = current.pdfObjectKey;
+            page.pdfPageBase64 = current.pdfPageBase64;
+        }
+
+        const hasChapter = (raw as Record<string, unknown>).chapterNumber !== undefined;
+        pages.push({ ...page, chapterNumber: hasChapter ? page.chapterNumber : undefined });
+    }
+    pages.sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const parsedChapterTitles = parseChapterTitles(source.chapters);
+    if (!parsedChapterTitles.valid) {
+        return { valid: false, error: `Invalid request: ${parsedChapterTitles.error}` };
+    }
+
+    return {
+        valid: true,
+        revision: {
+            changelog,
+            pages,
+            truncateAfter,
+            chapterTitles: parsedChapterTitles.titles,
+        },
+    };
+}
+
+/**
+ * Loads the formats of an author's book pages for `parseEditionRevision`.
+ * Returns null when the book does not exist or belongs to another author.
+ */
+export async function loadEditionBaseline(bookId: number, authorAddress: string): Promise<EditionBaseline | null> {
+    const bookLookup = await pool.query(
+        'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+        [bookId, authorAddress]
+    );
+    if (bookLookup.rows.length === 0) {
+        return null;
+    }
+
+    // Only PDF pages need their stored JSON; rich pages are told apart by their prefix.
+    const pageLookup = await pool.query(
+        `SELECT
+            page_number,
+            CASE
+                WHEN content LIKE '{"format":"markdown"%' THEN 'markdown'
+                WHEN content LIKE '{"format":"html"%' THEN 'html'
+                ELSE 'text'
+            END AS format,
+            CASE WHEN content LIKE '{"format":"pdf-page"%' THEN content END AS pdf_content
+         FROM pages
+         WHERE book_id = $1
+         ORDER BY page_number`,
+        [bookId]
+    );
+
+    const pages = new Map<number, StoredPageFormat>();
+    for (const row of pageLookup.rows) {
+        pages.set(Number(row.page_number), {
+            format: row.format as PageContentFormat,
+            ...parseStoredPdf(row.pdf_content),
+        });
+    }
+
+    const lastPage = pageLookup.rows[pageLookup.rows.length - 1];
+    return {
+        pages,
+        defaultFormat: lastPage ? lastPage.format as PageContentFormat : 'text',
+    };
+}
+
+/** Current content of one page of an author's book, or null when either does not exist. */
+export async function loadRevisablePage(
+    bookId: number,
+    authorAddress: string,
+    pageNumber: number
+): Promise<RevisablePage | null> {
+    const result = await pool.query(
+        `SELECT p.chapter_number, p.content
+         FROM pages p
+         JOIN books b ON b.id = p.book_id
+         WHERE p.book_id = $1 AND b.author_address = $2 AND p.page_number = $3`,
+        [bookId, authorAddress, pageNumber]
+    );
+    if (result.rows.length === 0) {
+        return null;
+    }
+
+    const row = result.rows[0];
+    const stored = String(row.content);
+    const page: RevisablePage = {
+        pageNumber,
+        chapterNumber: row.chapter_number === null ? null : Number(row.chapter_number),
+        format: 'text',
+        content: stored,
+        hasPdf: false,
+    };
+    if (!stored.startsWith('{"format":')) {
+        return page;
+    }
+
+    try {
+        const parsed = JSON.parse(stored) as { format?: unknown; text?: unknown; source?: unknown };
+        if ((parsed.format === 'markdown' || parsed.format === 'html') && typeof parsed.source === 'string') {
+            return { ...page, format: parsed.format, content: parsed.source };
+        }
+        if (typeof parsed.text === 'string') {
+            const pdf = parsed.format === 'pdf-page' ? parseStoredPdf(stored) : {};
+            return { ...page, content: parsed.text, hasPdf: Object.keys(pdf).length > 0 };
+        }
+    } catch {
+        // legacy raw text that happens to look like JSON
+    }
+    return page;
+}
+
+/**
+ * Publishes the next edition of an author's book inside the caller's transaction.
+ * Replaced and removed page content is copied to `page_revisions` first. Page unlocks are
+ * keyed by page number, so readers keep access to the revised version of pages they paid for.
+ * PDFs referenced by the revision must already be in object storage.
+ */
+export async function publishBookEdition(
+    client: PoolClient,
+    bookId: number,
+    authorAddress: string,
+    revision: EditionRevision
+): Promise<{
+    valid: true;
+    edition: BookEdition;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const bookLookup = await client.query(
+        `SELECT current_edition, total_pages
+         FROM books
+         WHERE id = $1 AND author_address = $2
+         FOR UPDATE`,
+        [bookId, authorAddress]
+    );
+    if (bookLookup.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Book not found for this author' };
+    }
+
+    const currentEdition = Number(bookLookup.rows[0].current_edition);
+    const currentTotal = Number(bookLookup.rows[0].total_pages);
+    const base = revision.truncateAfter ?? currentTotal;
+    if (base > currentTotal) {
+        return { valid: false, error: `truncateAfter must be at most the current page count (${currentTotal})` };
+    }
+
+    const appended = revision.pages.filter((page) => page.pageNumber > base);
+    if (!appended.every((page, index) => page.pageNumber === base + index + 1)) {
+        return { valid: false, error: `New pages must continue from page ${base + 1} without gaps` };
+    }
+    const newTotal = base + appended.length;
+    const nextEdition = currentEdition + 1;
+
+    const existingLookup = await client.query(
+        `SELECT page_number, chapter_number, content
+         FROM pages
+         WHERE book_id = $1 AND page_number = ANY($2::integer[])`,
+        [bookId, revision.pages.map((page) => page.pageNumber)]
+    );
+    const existing = new Map(existingLookup.rows.map((row) => [
+        Number(row.page_number),
+        { chapterNumber: row.chapter_number === null ? null : Number(row.chapter_number), content: String(row.content) },
+    ]));
+
+    const lastKeptChapter = await client.query(
+        `SELECT chapter_number
+         FROM pages
+         WHERE book_id = $1 AND page_number <= $2
+         ORDER BY page_number DESC
+         LIMIT 1`,
+        [bookId, base]
+    );
+    let previousChapter: number | null = lastKeptChapter.rows.length > 0
+        ? lastKeptChapter.rows[0].chapter_number ?? null
+        : null;
+
+    const changed: Array<{ pageNumber: number; chapterNumber: number | null; content: string }> = [];
+    for (const page of revision.pages) {
+        const current = existing.get(page.pageNumber);
+        // Pages sent without a chapter keep theirs; new pages join the chapter before them.
+        const chapterNumber = page.chapterNumber ?? (current ? current.chapterNumber : previousChapter);
+        const content = serializePageContent(page);
+        if (page.pageNumber >= base) {
+            previousChapter = chapterNumber;
+        }
+
+        if (!current || current.content !== content || current.chapterNumber !== chapterNumber) {
+            changed.push({ pageNumber: page.pageNumber, chapterNumber, content });
+        }
+    }
+
+    const removedPages: number[] = [];
+    for (let pageNumber = newTotal + 1; pageNumber <= currentTotal; pageNumber += 1) {
+        removedPages.push(pageNumber);
+    }
+
+    if (changed.length === 0 && removedPages.length === 0) {
+        return { valid: false, error: 'This revision does not change any pages' };
+    }
+
+    const changedNumbers = changed.map((page) => page.pageNumber);
+    await client.query(
+        `INSERT INTO page_revisions (book_id, page_number, chapter_number, content, edition_number, superseded_in_edition)
+         SELECT book_id, page_number, chapter_number, content, edition_number, $3
+         FROM pages
+         WHERE book_id = $1
+           AND (page_number = ANY($2::integer[]) OR page_number > $4)`,
+        [bookId, changedNumbers, nextEdition, newTotal]
+    );
+
+    await client.query('DELETE FROM pages WHERE book_id = $1 AND page_number > $2', [bookId, newTotal]);
+
+    for (const page of changed) {
+        await client.query(
+            `INSERT INTO pages (book_id, page_number, chapter_number, content, edition_number)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (book_id, page_number)
+             DO UPDATE SET
+                chapter_number = EXCLUDED.chapter_number,
+                content = EXCLUDED.content,
+                edition_number = EXCLUDED.edition_number`,
+            [bookId, page.pageNumber, page.chapterNumber, page.content, nextEdition]
+        );
+    }
+
+    const chapterTitles = await client.query(
+        'SELECT chapter_number, title FROM chapters WHERE book_id = $1',
+        [bookId]
+    );
+    const titles = new Map<number, string>(
+        chapterTitles.rows.map((row) => [Number(row.chapter_number), String(row.title)])
+    );
+    for (const [chapterNumber, title] of revision.chapterTitles) {
+        titles.set(chapterNumber, title);
+    }
+
+    const pageLookup = await client.query(
+        'SELECT page_number, chapter_number FROM pages WHERE book_id = $1',
+        [bookId]
+    );
+    const chapters = buildChapterIndex(pageLookup.rows.map((row) => ({
+        pageNumber: Number(row.page_number),
+        chapterNumber: row.chapter_number === null ? undefined : Number(row.chapter_number),
+    })), titles);
+
+    const missingChapters = Array.from(revision.chapterTitles.keys())
+        .filter((chapterNumber) => !chapters.some((chapter) => chapter.number === chapterNumber));
+    if (missingChapters.length > 0) {
+        return { valid: false, error: `Book has no chapter ${missingChapters.join(', ')}` };
+    }
+
+    await replaceBookChapters(client, bookId, chapters);
+    await client.query(
+        `UPDATE books
+         SET total_pages = $2,
+             total_chapters = $3,
+             current_edition = $4
+         WHERE id = $1`,
+        [bookId, newTotal, chapters.length, nextEdition]
+    );
+
+    const editionInsert = await client.query(
+        `INSERT INTO book_editions (book_id, edition_number, changelog, total_pages, total_chapters, changed_pages, removed_pages)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING edition_number, changelog, total_pages, total_chapters, changed_pages, removed_pages, created_at`,
+        [bookId, nextEdition, revision.changelog, newTotal, chapters.length, changedNumbers, removedPages]
+    );
+
+    return { valid: true, edition: mapEditionRow(editionInsert.rows[0]) };
+}
+
+/** Edition history, newest first. `sinceEdition` limits it to editions after that one. */
+export async function listBookEditions(bookId: number, sinceEdition = 0): Promise<BookEdition[]> {
+    const result = await pool.query(
+        `SELECT edition_number, changelog, total_pages, total_chapters, changed_pages, removed_pages, created_at
+         FROM book_editions
+         WHERE book_id = $1 AND edition_number > $2
+         ORDER BY edition_number DESC`,
+        [bookId, sinceEdition]
+    );
+    return result.rows.map(mapEditionRow);
+}
+
+function parseStoredPdf(content: string | null): Pick<StoredPageFormat, 'pdfObjectKey' | 'pdfPageBase64'> {
+    if (!content) {
+        return {};
+    }
+
+    try {
+        const parsed = JSON.parse(content) as { pdfObjectKey?: unknown; pdfPageBase64?: unknown };
+        if (typeof parsed.pdfObjectKey === 'string' && parsed.pdfObjectKey) {
+            return { pdfObjectKey: parsed.pdfObjectKey };
+        }
+        if (typeof parsed.pdfPageBase64 === 'string' && parsed.pdfPageBase64) {
+            return { pdfPageBase64: parsed.pdfPageBase64 };
+        }
+    } catch {
+        // not a stored PDF page after all
+    }
+    return {};
+}
+
+function mapEditionRow(row: Record<string, unknown>): BookEdition {
+    return {
+        edition: Number(row.edition_number),
+        changelog: row.changelog === null ? null : String(row.changelog),
+        totalPages: Number(row.total_pages),
+        totalChapters: Number(row.total_chapters),
+        changedPages: (row.changed_pages as number[]).map(Number),
+        removedPages: (row.removed_pages as number[]).map(Number),
+        createdAt: row.created_at as Date,
+    };
+}
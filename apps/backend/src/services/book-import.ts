@@ -0,0 +1,536 @@
+import type { PoolClient } from 'pg';
+import {
+    buildChapterIndex,
+    parseBookMetadata,
+    parseChapterTitles,
+    replaceBookChapters,
+    type BookMetadataInput,
+} from './book-metadata';
+import { INITIAL_BOOK_STATUSES, type BookStatus } from './book-lifecycle';
+import type { EpubMetadata, EpubPage, ParsedEpub } from './epub';
+import {
+    ObjectStorageError,
+    getObjectStorage,
+    isPdfPageKey,
+    storePdfPage,
+} from './object-storage';
+import { toMicroStx } from './money';
+import {
+    PAGE_CONTENT_FORMATS,
+    isPageContentFormat,
+    richTextToPlainText,
+    sanitizeHtml,
+    sanitizeMarkdown,
+    type PageContentFormat,
+} from './rich-text';
+
+/** Validated book fields shared by direct uploads, EPUB imports and upload sessions. */
+export interface BookDraft {
+    /** Null only for EPUB sources, where the title can come from the package metadata. */
+    title: string | null;
+    /** Explicit cover URL; null falls back to the EPUB cover or a generated placeholder. */
+    coverImageUrl: string | null;
+    pagePrice: bigint;
+    chapterPrice: bigint;
+    contentFormat: PageContentFormat;
+    metadata: BookMetadataInput;
+    chapterTitles: Map<number, string>;
+    /** Lifecycle status the book is created in; `draft` unless the upload asks otherwise. */
+    status: BookStatus;
+    publishAt: Date | null;
+}
+
+export interface NormalizedPage {
+    pageNumber: number;
+    chapterNumber?: number;
+    content: string;
+    format: PageContentFormat;
+    pdfPageBase64?: string;
+    pdfObjectKey?: string;
+}
+
+/**
+ * Validates the `book` object (and optional `chapters` list) of an upload request.
+ * Error messages are ready to return to the client as-is.
+ */
+export function parseBookDraft(book: unknown, chapters: unknown, options: { requireTitle: boolean }): {
+    valid: true;
+    draft: BookDraft;
+} | {
+    valid: false;
+    error: string;
+} {
+    if (!book || typeof book !== 'object') {
+        return { valid: false, error: 'Invalid request: book is required' };
+    }
+
+    const source = book as Record<string, unknown>;
+    const title = typeof source.title === 'string' && source.title.trim()
+        ? source.title.trim().slice(0, 255)
+        : null;
+    if (options.requireTitle && !title) {
+        return { valid: false, error: 'Invalid request: title is required' };
+    }
+
+    if (source.contentFormat !== undefined && !isPageContentFormat(source.contentFormat)) {
+        return { valid: false, error: `Invalid request: contentFormat must be one of ${PAGE_CONTENT_FORMATS.join(', ')}` };
+    }
+
+    const pagePrice = toMicroStx(source.pagePrice);
+    const chapterPrice = toMicroStx(source.chapterPrice);
+    if (pagePrice === null || chapterPrice === null) {
+        return { valid: false, error: 'Invalid request: page/chapter price must be non-negative integers in microSTX' };
+    }
+
+    const parsedMetadata = parseBookMetadata(source);
+    if (!parsedMetadata.valid) {
+        return { valid: false, error: `Invalid request: ${parsedMetadata.error}` };
+    }
+
+    const parsedChapterTitles = parseChapterTitles(chapters);
+    if (!parsedChapterTitles.valid) {
+        return { valid: false, error: `Invalid request: ${parsedChapterTitles.error}` };
+    }
+
+    const status = source.status ?? 'draft';
+    if (!(INITIAL_BOOK_STATUSES as readonly unknown[]).includes(status)) {
+        return { valid: false, error: `Invalid request: status must be one of ${INITIAL_BOOK_STATUSES.join(', ')}` };
+    }
+
+    const publishAt = parseTimestamp(source.publishAt);
+    if (publishAt === undefined) {
+        return { valid: false, error: 'Invalid request: publishAt must be an ISO 8601 timestamp' };
+    }
+    if (status === 'scheduled' ? !publishAt || publishAt <= new Date() : publishAt) {
+        return { valid: false, error: 'Invalid request: publishAt is required with status "scheduled" and must be in the future' };
+    }
+
+    return {
+        valid: true,
+        draft: {
+            title,
+            coverImageUrl: normalizeCoverUrl(source.coverImageUrl),
+            pagePrice,
+            chapterPrice,
+            contentFormat: (source.contentFormat as PageContentFormat | undefined) ?? 'text',
+            metadata: parsedMetadata.metadata,
+            chapterTitles: parsedChapterTitles.titles,
+            status: status as BookStatus,
+            publishAt,
+        },
+    };
+}
+
+/**
+ * Validates and sanitizes a single page. Rich pages are sanitized once here,
+ * so stored content is always safe to render.
+ */
+export function normalizePage(raw: unknown, defaultFormat: PageContentFormat): {
+    valid: true;
+    page: NormalizedPage & { chapterNumber: number };
+} | {
+    valid: false;
+    error: string;
+} {
+    if (!raw || typeof raw !== 'object') {
+        return {
+            valid: false,
+            error: 'Invalid request: every page must include pageNumber and non-empty content',
+        };
+    }
+
+    const source = raw as Record<string, unknown>;
+    const pageNumber = normalizePositiveInteger(source.pageNumber);
+    const chapterNumber = normalizePositiveInteger(source.chapterNumber);
+    const format = source.format === undefined ? defaultFormat : source.format;
+    if (!isPageContentFormat(format)) {
+        return {
+            valid: false,
+            error: `Invalid request: page format must be one of ${PAGE_CONTENT_FORMATS.join(', ')}`,
+        };
+    }
+
+    const rawContent = typeof source.content === 'string' ? source.content.trim() : '';
+    const content = format === 'html'
+        ? sanitizeHtml(rawContent)
+        : format === 'markdown' ? sanitizeMarkdown(rawContent) : rawContent;
+    const pdfPageBase64 = typeof source.pdfPageBase64 === 'string'
+        ? source.pdfPageBase64.trim()
+        : undefined;
+    const pdfObjectKey = source.pdfObjectKey === undefined || source.pdfObjectKey === null
+        ? undefined
+        : source.pdfObjectKey;
+
+    if (!pageNumber || !content || !richTextToPlainText(content, format)) {
+        return {
+            valid: false,
+            error: 'Invalid request: every page must include pageNumber and non-empty content',
+        };
+    }
+
+    if ((pdfPageBase64 || pdfObjectKey !== undefined) && format !== 'text') {
+        return {
+            valid: false,
+            error: 'Invalid request: PDF pages are only supported for text pages',
+        };
+    }
+
+    if (pdfObjectKey !== undefined && (!isPdfPageKey(pdfObjectKey) || pdfPageBase64)) {
+        return {
+            valid: false,
+            error: 'Invalid request: pdfObjectKey must be a key returned by /api/author/uploads/pdf-page',
+        };
+    }
+
+    if (pdfPageBase64 !== undefined && !isBase64String(pdfPageBase64)) {
+        return {
+            valid: false,
+            error: 'Invalid request: pdfPageBase64 must be a valid base64 string',
+        };
+    }
+
+    return {
+        valid: true,
+        page: {
+            pageNumber,
+            chapterNumber: chapterNumber || 1,
+            content,
+            format,
+            pdfPageBase64: pdfPageBase64 || undefined,
+            pdfObjectKey,
+        },
+    };
+}
+
+export function normalizePages(pages: unknown[], defaultFormat: PageContentFormat): {
+    valid: true;
+    pages: NormalizedPage[];
+} | {
+    valid: false;
+    error: string;
+} {
+    const normalized: NormalizedPage[] = [];
+
+    for (const raw of pages) {
+        const result = normalizePage(raw, defaultFormat);
+        if (!result.valid) {
+            return result;
+        }
+        normalized.push(result.page);
+    }
+
+    normalized.sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const isSequential = normalized.every((page, index) => page.pageNumber === index + 1);
+    if (!isSequential) {
+        return {
+            valid: false,
+            error: 'Invalid request: page numbers must be sequential starting at 1',
+        };
+    }
+
+    return {
+        valid: true,
+        pages: normalized,
+    };
+}
+
+export function serializePageContent(page: NormalizedPage): string {
+    if (page.format !== 'text') {
+        return JSON.stringify({
+            format: page.format,
+            text: richTextToPlainText(page.content, page.format),
+            source: page.content,
+        });
+    }
+
+    if (!page.pdfObjectKey) {
+        return page.content;
+    }
+
+    return JSON.stringify({
+        format: 'pdf-page',
+        text: page.content,
+        pdfObjectKey: page.pdfObjectKey,
+    });
+}
+
+/**
+ * Moves inline `pdfPageBase64` pages (older clients) into object storage and checks that
+ * referenced `pdfObjectKey`s exist, so only storage keys are written to `pages.content`.
+ */
+export async function storePdfPageBlobs(pages: NormalizedPage[]): Promise<{ valid: true } | { valid: false; error: string }> {
+    const objectStorage = getObjectStorage();
+
+    for (const page of pages) {
+        if (page.pdfPageBase64) {
+            try {
+                const stored = await storePdfPage(Buffer.from(page.pdfPageBase64, 'base64'));
+                page.pdfObjectKey = stored.key;
+                page.pdfPageBase64 = undefined;
+            } catch (error) {
+                if (error instanceof ObjectStorageError) {
+                    return { valid: false, error: `Invalid request: page ${page.pageNumber}: ${error.message}` };
+                }
+                throw error;
+            }
+        } else if (page.pdfObjectKey && !await objectStorage.exists(page.pdfObjectKey)) {
+            return { valid: false, error: `Invalid request: page ${page.pageNumber} references a PDF that was not uploaded` };
+        }
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Inserts a book with its pages and chapters. Runs inside the caller's transaction.
+ * Pages must already be normalized, sequential and have their PDFs in object storage.
+ */
+export async function insertBookWithPages(
+    client: PoolClient,
+    authorAddress: string,
+    draft: BookDraft & { title: string },
+    pages: NormalizedPage[]
+): Promise<number> {
+    const bookId = await insertBookRow(client, authorAddress, draft, {
+        coverImageUrl: draft.coverImageUrl || buildDefaultCoverImageUrl(authorAddress, draft.title),
+        totalPages: pages.length,
+        totalChapters: getChapterCount(pages),
+    });
+
+    for (const page of pages) {
+        await client.query(
+            'INSERT INTO pages (book_id, page_number, chapter_number, content) VALUES ($1, $2, $3, $4)',
+            [bookId, page.pageNumber, page.chapterNumber || null, serializePageContent(page)]
+        );
+    }
+
+    await replaceBookChapters(client, bookId, buildChapterIndex(pages, draft.chapterTitles));
+    return bookId;
+}
+
+/**
+ * Inserts a parsed EPUB as a book: pages, chapters titled from the TOC, and embedded
+ * images as book assets. Draft fields override the EPUB metadata. Runs inside the
+ * caller's transaction; `apiBaseUrl` is used to point the cover at its asset route.
+ */
+export async function insertEpubBook(
+    client: PoolClient,
+    authorAddress: string,
+    draft: BookDraft & { title: string },
+    epub: ParsedEpub,
+    apiBaseUrl: string
+): Promise<number> {
+    const chapterTitles = new Map(epub.chapters.map((chapter) => [chapter.chapterNumber, chapter.title.slice(0, 200)]));
+    for (const [chapterNumber, title] of draft.chapterTitles) {
+        chapterTitles.set(chapterNumber, title);
+    }
+
+    const bookId = await insertBookRow(
+        client,
+        authorAddress,
+        { ...draft, metadata: { ...epubMetadataDefaults(epub.metadata), ...draft.metadata } },
+        {
+            coverImageUrl: draft.coverImageUrl || buildDefaultCoverImageUrl(authorAddress, draft.title),
+            totalPages: epub.pages.length,
+            totalChapters: epub.chapters.length,
+        }
+    );
+
+    const assetIds = new Map<string, number>();
+    const firstPageByAsset = getFirstPageByAsset(epub.pages);
+    for (const asset of epub.assets) {
+        // The cover is shown in the catalog, so it is never gated behind a page.
+        const pageNumber = asset.key === epub.coverAssetKey ? null : firstPageByAsset.get(asset.key) ?? null;
+        const assetResult = await client.query(
+            `INSERT INTO book_assets (book_id, asset_key, media_type, byte_size, page_number, data)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING id`,
+            [bookId, asset.key.slice(0, 500), asset.mediaType, asset.data.length, pageNumber, asset.data]
+        );
+        assetIds.set(asset.key, Number(assetResult.rows[0].id));
+    }
+
+    for (const page of epub.pages) {
+        await client.query(
+            'INSERT INTO pages (book_id, page_number, chapter_number, content) VALUES ($1, $2, $3, $4)',
+            [bookId, page.pageNumber, page.chapterNumber, serializeEpubPageContent(page, assetIds)]
+        );
+    }
+
+    await replaceBookChapters(client, bookId, buildChapterIndex(epub.pages, chapterTitles));
+
+    const coverAssetId = epub.coverAssetKey ? assetIds.get(epub.coverAssetKey) : undefined;
+    if (!draft.coverImageUrl && coverAssetId) {
+        await client.query(
+            'UPDATE books SET cover_image_url = $2 WHERE id = $1',
+            [bookId, `${apiBaseUrl}/api/content/${bookId}/assets/${coverAssetId}`]
+        );
+    }
+
+    return bookId;
+}
+
+export function normalizeCoverUrl(value: unknown): string | null {
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+
+    try {
+        const url = new URL(value.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            return null;
+        }
+        return url.toString();
+    } catch {
+        return null;
+    }
+}
+
+export function buildDefaultCoverImageUrl(authorAddress: string, title: string): string {
+    const seed = `${authorAddress.trim().slice(0, 10)}-${title.trim().toLowerCase()}`
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 48) || 'stackpad';
+    return `https://picsum.photos/seed/${seed}/400/600`;
+}
+
+async function insertBookRow(
+    client: PoolClient,
+    authorAddress: string,
+    draft: BookDraft & { title: string },
+    totals: { coverImageUrl: string; totalPages: number; totalChapters: number }
+): Promise<number> {
+    const { metadata } = draft;
+    const result = await client.query(
+        `INSERT INTO books (
+            author_address, title, cover_image_url, total_pages, total_chapters, page_price, chapter_price,
+            description, genres, language, isbn, content_rating, status, publish_at, published_at
+        )
+        VALUES (
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+            CASE WHEN $13 IN ('published', 'unlisted') THEN NOW() END
+        )
+        RETURNING id`,
+        [
+            authorAddress,
+            draft.title,
+            totals.coverImageUrl,
+            totals.totalPages,
+            totals.totalChapters,
+            draft.pagePrice.toString(),
+            draft.chapterPrice.toString(),
+            metadata.description ?? null,
+            metadata.genres ?? [],
+            metadata.language ?? null,
+            metadata.isbn ?? null,
+            metadata.contentRating ?? 'general',
+            draft.status,
+            draft.publishAt,
+        ]
+    );
+    const bookId = Number(result.rows[0].id);
+
+    await client.query(
+        `INSERT INTO book_editions (book_id, edition_number, total_pages, total_chapters)
+         VALUES ($1, 1, $2, $3)`,
+        [bookId, totals.totalPages, totals.totalChapters]
+    );
+    return bookId;
+}
+
+function serializeEpubPageContent(page: EpubPage, assetIds: Map<string, number>): string {
+    const images = page.images
+        .filter((image) => assetIds.has(image.assetKey))
+        .map((image) => ({
+            assetId: assetIds.get(image.assetKey),
+            alt: image.alt,
+            position: image.position,
+        }));
+
+    if (images.length === 0) {
+        return page.text;
+    }
+
+    return JSON.stringify({
+        format: 'epub-page',
+        text: page.text,
+        images,
+    });
+}
+
+function getFirstPageByAsset(pages: EpubPage[]): Map<string, number> {
+    const firstPages = new Map<string, number>();
+    for (const page of pages) {
+        for (const image of page.images) {
+            if (!firstPages.has(image.assetKey)) {
+                firstPages.set(image.assetKey, page.pageNumber);
+            }
+        }
+    }
+    return firstPages;
+}
+
+/**
+ * EPUB metadata is taken field by field; values this platform rejects (an unknown
+ * language tag, a malformed ISBN, oversized subjects) are dropped rather than failing the import.
+ */
+function epubMetadataDefaults(source: EpubMetadata): BookMetadataInput {
+    const candidates: Record<string, unknown> = {
+        description: source.description?.slice(0, 5000) ?? undefined,
+        genres: source.subjects.filter((subject) => subject.length <= 40).slice(0, 10),
+        language: source.language ?? undefined,
+        isbn: source.isbn ?? undefined,
+    };
+
+    const metadata: BookMetadataInput = {};
+    for (const [field, value] of Object.entries(candidates)) {
+        if (value === undefined) {
+            continue;
+        }
+        const parsed = parseBookMetadata({ [field]: value });
+        if (parsed.valid) {
+            Object.assign(metadata, parsed.metadata);
+        }
+    }
+    return metadata;
+}
+
+/** Returns null when absent and undefined when present but not a valid timestamp. */
+function parseTimestamp(value: unknown): Date | null | undefined {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+
+    const parsed = typeof value === 'string' ? new Date(value) : null;
+    return parsed && !Number.isNaN(parsed.getTime()) ? parsed : undefined;
+}
+
+function isBase64String(value: string): boolean {
+    if (!value || value.length % 4 !== 0) {
+        return false;
+    }
+    return /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+}
+
+function normalizePositiveInteger(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        return null;
+    }
+
+    return parsed;
+}
+
+function getChapterCount(pages: Array<{ chapterNumber?: number }>): number {
+    const chapterNumbers = pages
+        .map((page) => page.chapterNumber || 1)
+        .filter((value): value is number => Number.isInteger(value) && value > 0);
+
+    const maxChapter = chapterNumbers.length ? Math.max(...chapterNumbers) : 1;
+    return maxChapter;
+}
@@ -0,0 +1,197 @@
+import pool from '../db/client';
+import { hasBookPurchase } from './credits';
+
+export type BookStatus = 'draft' | 'scheduled' | 'published' | 'unlisted' | 'archived';
+
+export const BOOK_STATUSES: readonly BookStatus[] = ['draft', 'scheduled', 'published', 'unlisted', 'archived'];
+
+/**
+ * Allowed author transitions. Once readers may have paid for pages a book can no longer
+ * go back to draft; archiving keeps it readable for those readers instead.
+ */
+export const BOOK_STATUS_TRANSITIONS: Record<BookStatus, readonly BookStatus[]> = {
+    draft: ['scheduled', 'published', 'unlisted', 'archived'],
+    scheduled: ['draft', 'published', 'unlisted', 'archived'],
+    published: ['unlisted', 'archived'],
+    unlisted: ['published', 'archived'],
+    archived: ['published', 'unlisted'],
+};
+
+/** Statuses an upload may start in; archived only makes sense for existing books. */
+export const INITIAL_BOOK_STATUSES: readonly BookStatus[] = ['draft', 'scheduled', 'published', 'unlisted'];
+
+/**
+ * Who may open a book:
+ * - `public`: listed in the catalog and readable by anyone
+ * - `link`: readable by anyone with the link, but not listed
+ * - `buyers`: readable only by wallets that already paid for part of it
+ * - `author`: only the author (drafts and books not yet due)
+ */
+export type BookAudience = 'public' | 'link' | 'buyers' | 'author';
+
+export interface BookLifecycleState {
+    status: BookStatus;
+    publishAt: Date | string | null;
+}
+
+const LIFECYCLE_WORKER_INTERVAL_MS = 60_000;
+
+let workerStarted = false;
+
+export function isBookStatus(value: unknown): value is BookStatus {
+    return typeof value === 'string' && (BOOK_STATUSES as readonly string[]).includes(value);
+}
+
+/** SQL predicate for books listed in the public catalog (`alias` is the books table alias). */
+export function catalogVisibilitySql(alias: string): string {
+    return `(${alias}.status = 'published' OR (${alias}.status = 'scheduled' AND ${alias}.publish_at <= NOW()))`;
+}
+
+/** A scheduled book counts as published as soon as its time passes, before the worker flips it. */
+export function getEffectiveBookStatus(book: BookLifecycleState, now = new Date()): BookStatus {
+    if (book.status === 'scheduled' && book.publishAt && new Date(book.publishAt) <= now) {
+        return 'published';
+    }
+    return book.status;
+}
+
+export function getBookAudience(book: BookLifecycleState): BookAudience {
+    switch (getEffectiveBookStatus(book)) {
+        case 'published':
+            return 'public';
+        case 'unlisted':
+            return 'link';
+        case 'archived':
+            return 'buyers';
+        default:
+            return 'author';
+    }
+}
+
+/**
+ * Whether `walletAddress` may see the book at all. Buyers-only books need a prior page
+ * unlock, chapter unlock or direct payment on any part of the book.
+ */
+export async function canViewBook(
+    book: BookLifecycleState & { authorAddress: string; bookId: number },
+    walletAddress: string | undefined
+): Promise<boolean> {
+    if (walletAddress && walletAddress === book.authorAddress) {
+        return true;
+    }
+
+    const audience = getBookAudience(book);
+    if (audience === 'public' || audience === 'link') {
+        return true;
+    }
+    if (audience === 'buyers' && walletAddress) {
+        return hasBookPurchase(walletAddress, book.bookId);
+    }
+    return false;
+}
+
+/**
+ * Validates a status change for an author's book. `publishAt` is required for (and only
+ * used by) `scheduled`. Returns the updated lifecycle columns.
+ */
+export async function transitionBookStatus(
+    bookId: number,
+    authorAddress: string,
+    nextStatus: BookStatus,
+    publishAt: Date | null
+): Promise<{
+    valid: true;
+    book: Record<string, unknown>;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const lookup = await pool.query(
+        `SELECT status, publish_at,
+                EXISTS (SELECT 1 FROM pages WHERE book_id = books.id) AS has_pages
+         FROM books
+         WHERE id = $1 AND author_address = $2`,
+        [bookId, authorAddress]
+    );
+    if (lookup.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Book not found for this author' };
+    }
+
+    const row = lookup.rows[0] as { status: BookStatus; publish_at: Date | null; has_pages: boolean };
+    const currentStatus = getEffectiveBookStatus({ status: row.status, publishAt: row.publish_at });
+
+    if (nextStatus === 'scheduled') {
+        if (!publishAt || publishAt <= new Date()) {
+            return { valid: false, error: 'publishAt must be a future timestamp when scheduling' };
+        }
+    } else if (publishAt) {
+        return { valid: false, error: 'publishAt is only accepted with status "scheduled"' };
+    }
+
+    const reschedule = currentStatus === 'scheduled' && nextStatus === 'scheduled';
+    if (!reschedule && !BOOK_STATUS_TRANSITIONS[currentStatus].includes(nextStatus)) {
+        return { valid: false, error: `Cannot move a ${currentStatus} book to ${nextStatus}` };
+    }
+
+    if ((nextStatus === 'published' || nextStatus === 'scheduled' || nextStatus === 'unlisted') && !row.has_pages) {
+        return { valid: false, error: 'Upload pages before publishing this book' };
+    }
+
+    const result = await pool.query(
+        `UPDATE books
+         SET status = $3,
+             publish_at = $4,
+             published_at = CASE
+                WHEN $3 IN ('published', 'unlisted') THEN COALESCE(published_at, NOW())
+                ELSE published_at
+             END,
+             archived_at = CASE WHEN $3 = 'archived' THEN NOW() ELSE NULL END,
+             status_updated_at = NOW()
+         WHERE id = $1 AND author_address = $2
+         RETURNING
+            id,
+            status,
+            publish_at as "publishAt",
+            published_at as "publishedAt",
+            archived_at as "archivedAt"`,
+        [bookId, authorAddress, nextStatus, nextStatus === 'scheduled' ? publishAt : null]
+    );
+
+    return { valid: true, book: result.rows[0] };
+}
+
+/** Flips scheduled books whose publish time has passed to published. */
+export async function publishDueScheduledBooks(): Promise<number> {
+    const result = await pool.query(
+        `UPDATE books
+         SET status = 'published',
+             published_at = COALESCE(published_at, publish_at),
+             status_updated_at = NOW()
+         WHERE status = 'scheduled' AND publish_at <= NOW()
+         RETURNING id`
+    );
+    return result.rows.length;
+}
+
+export function startBookLifecycleWorker(): void {
+    if (workerStarted) {
+        return;
+    }
+    workerStarted = true;
+
+    const runPublish = () => {
+        void publishDueScheduledBooks()
+            .then((count) => {
+                if (count > 0) {
+                    console.log(`[books] published ${count} scheduled book(s)`);
+                }
+            })
+            .catch((error) => {
+                console.error('Scheduled publish loop failed:', error);
+            });
+    };
+
+    runPublish();
+    setInterval(runPublish, LIFECYCLE_WORKER_INTERVAL_MS);
+}
@@ -0,0 +1,293 @@
+import type { PoolClient } from 'pg';
+import pool from '../db/client';
+
+export type ContentRating = 'general' | 'teen' | 'mature';
+
+export const CONTENT_RATINGS: readonly ContentRating[] = ['general', 'teen', 'mature'];
+
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_GENRES = 10;
+const MAX_GENRE_LENGTH = 40;
+const MAX_CHAPTER_TITLE_LENGTH = 200;
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/** Metadata fields an author may set; a field left undefined is not being changed. */
+export interface BookMetadataInput {
+    description?: string | null;
+    genres?: string[];
+    language?: string | null;
+    isbn?: string | null;
+    contentRating?: ContentRating;
+}
+
+export interface ChapterEntry {
+    number: number;
+    title: string;
+    startPage: number;
+    endPage: number;
+}
+
+export type BookMetadataParseResult =
+    | { valid: true; metadata: BookMetadataInput }
+    | { valid: false; error: string };
+
+export type ChapterTitlesParseResult =
+    | { valid: true; titles: Map<number, string> }
+    | { valid: false; error: string };
+
+/**
+ * Validates and normalizes the optional metadata fields of an upload or PATCH body.
+ * `null` or an empty string clears a nullable field.
+ */
+export function parseBookMetadata(source: Record<string, unknown>): BookMetadataParseResult {
+    const metadata: BookMetadataInput = {};
+
+    if (source.description !== undefined) {
+        if (source.description !== null && typeof source.description !== 'string') {
+            return { valid: false, error: 'description must be a string' };
+        }
+        const description = (source.description ?? '').trim();
+        if (description.length > MAX_DESCRIPTION_LENGTH) {
+            return { valid: false, error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+        }
+        metadata.description = description || null;
+    }
+
+    if (source.genres !== undefined) {
+        const genres = normalizeGenres(source.genres);
+        if (!genres) {
+            return {
+                valid: false,
+                error: `genres must be a list of at most ${MAX_GENRES} tags, each up to ${MAX_GENRE_LENGTH} characters`,
+            };
+        }
+        metadata.genres = genres;
+    }
+
+    if (source.language !== undefined) {
+        if (source.language !== null && typeof source.language !== 'string') {
+            return { valid: false, error: 'language must be a BCP 47 tag such as "en" or "pt-BR"' };
+        }
+        const language = (source.language ?? '').trim();
+        if (language && (!LANGUAGE_TAG_PATTERN.test(language) || language.length > 20)) {
+            return { valid: false, error: 'language must be a BCP 47 tag such as "en" or "pt-BR"' };
+        }
+        metadata.language = language ? canonicalizeLanguageTag(language) : null;
+    }
+
+    if (source.isbn !== undefined) {
+        if (source.isbn !== null && typeof source.isbn !== 'string') {
+            return { valid: false, error: 'isbn must be a valid ISBN-10 or ISBN-13' };
+        }
+        const raw = (source.isbn ?? '').trim();
+        const isbn = raw ? normalizeIsbn(raw) : null;
+        if (raw && !isbn) {
+            return { valid: false, error: 'isbn must be a valid ISBN-10 or ISBN-13' };
+        }
+        metadata.isbn = isbn;
+    }
+
+    if (source.contentRating !== undefined) {
+        if (!isContentRating(source.contentRating)) {
+            return { valid: false, error: `contentRating must be one of ${CONTENT_RATINGS.join(', ')}` };
+        }
+        metadata.contentRating = source.contentRating;
+    }
+
+    return { valid: true, metadata };
+}
+
+/**
+ * Accepts `[{ chapterNumber, title }]` and returns titles keyed by chapter number.
+ */
+export function parseChapterTitles(value: unknown): ChapterTitlesParseResult {
+    if (value === undefined || value === null) {
+        return { valid: true, titles: new Map() };
+    }
+
+    if (!Array.isArray(value)) {
+        return { valid: false, error: 'chapters must be an array of { chapterNumber, title }' };
+    }
+
+    const titles = new Map<number, string>();
+    for (const raw of value) {
+        const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+        const chapterNumber = Number(source.chapterNumber);
+        const title = typeof source.title === 'string' ? source.title.trim() : '';
+
+        if (!Number.isInteger(chapterNumber) || chapterNumber < 1 || !title) {
+            return { valid: false, error: 'every chapter must include a positive chapterNumber and a non-empty title' };
+        }
+        if (title.length > MAX_CHAPTER_TITLE_LENGTH) {
+            return { valid: false, error: `chapter titles must be at most ${MAX_CHAPTER_TITLE_LENGTH} characters` };
+        }
+        if (titles.has(chapterNumber)) {
+            return { valid: false, error: `chapter ${chapterNumber} is listed more than once` };
+        }
+
+        titles.set(chapterNumber, title);
+    }
+
+    return { valid: true, titles };
+}
+
+/**
+ * Derives chapter page ranges from page assignments. Chapters without a supplied
+ * title fall back to "Chapter N".
+ */
+export function buildChapterIndex(
+    pages: Array<{ pageNumber: number; chapterNumber?: number }>,
+    titles: Map<number, string> = new Map()
+): ChapterEntry[] {
+    const ranges = new Map<number, { startPage: number; endPage: number }>();
+
+    for (const page of pages) {
+        const chapterNumber = page.chapterNumber || 1;
+        const range = ranges.get(chapterNumber);
+        if (!range) {
+            ranges.set(chapterNumber, { startPage: page.pageNumber, endPage: page.pageNumber });
+            continue;
+        }
+        range.startPage = Math.min(range.startPage, page.pageNumber);
+        range.endPage = Math.max(range.endPage, page.pageNumber);
+    }
+
+    return Array.from(ranges.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([number, range]) => ({
+            number,
+            title: titles.get(number) || `Chapter ${number}`,
+            startPage: range.startPage,
+            endPage: range.endPage,
+        }));
+}
+
+export async function replaceBookChapters(client: PoolClient, bookId: number, chapters: ChapterEntry[]): Promise<void> {
+    await client.query('DELETE FROM chapters WHERE book_id = $1', [bookId]);
+
+    for (const chapter of chapters) {
+        await client.query(
+            `INSERT INTO chapters (book_id, chapter_number, title, start_page, end_page)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [bookId, chapter.number, chapter.title, chapter.startPage, chapter.endPage]
+        );
+    }
+}
+
+/**
+ * Renames existing chapters. Returns the chapter numbers that do not exist for the book.
+ */
+export async function updateChapterTitles(client: PoolClient, bookId: number, titles: Map<number, string>): Promise<number[]> {
+    const missing: number[] = [];
+
+    for (const [chapterNumber, title] of titles) {
+        const update = await client.query(
+            `UPDATE chapters
+             SET title = $3
+             WHERE book_id = $1
+               AND chapter_number = $2
+             RETURNING id`,
+            [bookId, chapterNumber, title]
+        );
+        if (update.rows.length === 0) {
+            missing.push(chapterNumber);
+        }
+    }
+
+    return missing;
+}
+
+export async function getBookChapters(bookId: number): Promise<ChapterEntry[]> {
+    const lookup = await pool.query(
+        `SELECT chapter_number, title, start_page, end_page
+         FROM chapters
+         WHERE book_id = $1
+         ORDER BY chapter_number ASC`,
+        [bookId]
+    );
+
+    if (lookup.rows.length > 0) {
+        return lookup.rows.map((row) => ({
+            number: Number(row.chapter_number),
+            title: String(row.title),
+            startPage: Number(row.start_page),
+            endPage: Number(row.end_page),
+        }));
+    }
+
+    // Books created through POST /api/books have no chapter rows; derive ranges from pages.
+    const pageLookup = await pool.query(
+        `SELECT page_number, chapter_number
+         FROM pages
+         WHERE book_id = $1`,
+        [bookId]
+    );
+
+    return buildChapterIndex(pageLookup.rows.map((row) => ({
+        pageNumber: Number(row.page_number),
+        chapterNumber: row.chapter_number === null ? undefined : Number(row.chapter_number),
+    })));
+}
+
+export function isContentRating(value: unknown): value is ContentRating {
+    return typeof value === 'string' && (CONTENT_RATINGS as readonly string[]).includes(value);
+}
+
+function normalizeGenres(value: unknown): string[] | null {
+    if (value === null) {
+        return [];
+    }
+
+    const entries = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(entries)) {
+        return null;
+    }
+
+    const genres: string[] = [];
+    for (const entry of entries) {
+        if (typeof entry !== 'string') {
+            return null;
+        }
+
+        const genre = entry.trim().toLowerCase().replace(/\s+/g, ' ');
+        if (!genre) {
+            continue;
+        }
+        if (genre.length > MAX_GENRE_LENGTH) {
+            return null;
+        }
+        if (!genres.includes(genre)) {
+            genres.push(genre);
+        }
+    }
+
+    return genres.length <= MAX_GENRES ? genres : null;
+}
+
+function canonicalizeLanguageTag(tag: string): string {
+    const [primary, ...subtags] = tag.split('-');
+    return [
+        primary.toLowerCase(),
+        ...subtags.map((subtag) => (subtag.length === 2 ? subtag.toUpperCase() : subtag.toLowerCase())),
+    ].join('-');
+}
+
+function normalizeIsbn(value: string): string | null {
+    const compact = value.replace(/[\s-]/g, '').toUpperCase();
+
+    if (/^\d{9}[\dX]$/.test(compact)) {
+        const sum = compact
+            .split('')
+            .reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+        return sum % 11 === 0 ? compact : null;
+    }
+
+    if (/^\d{13}$/.test(compact)) {
+        const sum = compact
+            .split('')
+            .reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+        return sum % 10 === 0 ? compact : null;
+    }
+
+    return null;
+}
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { insertBook } from '../test/fixtures';
+import { decodeCatalogCursor, encodeCatalogCursor, searchCatalog, type CatalogSort } from './catalog';
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+function rawCursor(value: unknown): string {
+    return Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+}
+
+describe('catalog cursors', () => {
+    it.each([
+        { sort: 'newest' as const, value: '2026-10-19 05:49:21.123456', id: 7 },
+        { sort: 'newest' as const, value: '2026-10-19 05:49:21', id: 7 },
+        { sort: 'cheapest' as const, value: '1000', id: 1 },
+        { sort: 'most_read' as const, value: '0', id: 42 },
+        { sort: 'relevance' as const, value: '0.0607927', id: 3 },
+        { sort: 'relevance' as const, value: '1e-05', id: 3 },
+    ])('round-trips a $sort cursor', (cursor) => {
+        const encoded = encodeCatalogCursor(cursor);
+
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeCatalogCursor(encoded)).toEqual(cursor);
+    });
+
+    it.each([
+        ['not base64 JSON', '%%%'],
+        ['an empty string', ''],
+        ['an object', rawCursor({ sort: 'cheapest', value: '1000', id: 1 })],
+        ['too few fields', rawCursor(['cheapest', '1000'])],
+        ['an unknown sort', rawCursor(['priciest', '1000', 1])],
+        ['a numeric value', rawCursor(['cheapest', 1000, 1])],
+        ['a value that does not fit the sort key', rawCursor(['cheapest', 'abc', 1])],
+        ['a SQL fragment as the value', rawCursor(['cheapest', "1'; DROP TABLE books; --", 1])],
+        ['a date-only value for newest', rawCursor(['newest', '2026-10-19', 1])],
+        ['a fractional id', rawCursor(['cheapest', '1000', 1.5])],
+        ['a zero id', rawCursor(['cheapest', '1000', 0])],
+        ['an id past the integer range', rawCursor(['cheapest', '1000', 2_147_483_648])],
+    ])('rejects %s', (_label, raw) => {
+        expect(decodeCatalogCursor(raw)).toBeNull();
+    });
+});
+
+describe('searchCatalog keyset pagination', () => {
+    beforeAll(startTestDatabase, 60_000);
+    afterAll(stopTestDatabase);
+    beforeEach(resetTestDatabase);
+
+    /** Follows `nextCursor` from the first page to the last, returning the ids of each page. */
+    async function walk(sort: CatalogSort, limit: number, q?: string): Promise<number[][]> {
+        const pages: number[][] = [];
+        let cursor: string | null = null;
+        do {
+            const page = await searchCatalog({
+                q,
+                sort,
+                limit,
+                cursor: cursor ? decodeCatalogCursor(cursor) ?? undefined : undefined,
+            });
+            pages.push(page.books.map((book) => Number(book.id)));
+            cursor = page.nextCursor;
+        } while (cursor && pages.length < 10);
+        return pages;
+    }
+
+    async function insertBooks(count: number, title = 'Test Book'): Promise<number[]> {
+        const ids: number[] = [];
+        for (let index = 0; index < count; index += 1) {
+            ids.push(await insertBook({ title }));
+        }
+        return ids;
+    }
+
+    it('breaks page price ties by ascending id across pages', async () => {
+        const ids = await insertBooks(5);
+
+        expect(await walk('cheapest', 2)).toEqual([[ids[0], ids[1]], [ids[2], ids[3]], [ids[4]]]);
+    });
+
+    it('breaks identical publish times by descending id across pages', async () => {
+        const ids = await insertBooks(5);
+        await testPool.query(`UPDATE books SET published_at = '2026-10-01 12:00:00.123456'`);
+
+        expect(await walk('newest', 2)).toEqual([[ids[4], ids[3]], [ids[2], ids[1]], [ids[0]]]);
+    });
+
+    it('breaks reader count ties by descending id across pages', async () => {
+        const ids = await insertBooks(4);
+
+        expect(await walk('most_read', 3)).toEqual([[ids[3], ids[2], ids[1]], [ids[0]]]);
+    });
+
+    it('breaks relevance ties by descending id across pages', async () => {
+        const ids = await insertBooks(3, 'Dragon Tales');
+        await insertBook({ title: 'Unrelated' });
+
+        expect(await walk('relevance', 2, 'dragon')).toEqual([[ids[2], ids[1]], [ids[0]]]);
+    });
+
+    it('keeps the sort key order before the id tie-break', async () => {
+        const [cheap, pricey, alsoCheap] = [
+            await insertBook({ pagePrice: BigInt(500) }),
+            await insertBook({ pagePrice: BigInt(900) }),
+            await insertBook({ pagePrice: BigInt(500) }),
+        ];
+
+        expect(await walk('cheapest', 1)).toEqual([[cheap], [alsoCheap], [pricey]]);
+    });
+
+    it('reports the whole result set as the total on every page', async () => {
+        await insertBooks(3);
+
+        const first = await searchCatalog({ sort: 'cheapest', limit: 2 });
+        const second = await searchCatalog({
+            sort: 'cheapest',
+            limit: 2,
+            cursor: decodeCatalogCursor(first.nextCursor!)!,
+        });
+
+        expect(first.total).toBe(3);
+        expect(second.total).toBe(3);
+        expect(second.nextCursor).toBeNull();
+        expect(second.books[0]).not.toHaveProperty('sort_key');
+    });
+});
@@ -0,0 +1,203 @@
+import pool from '../db/client';
+import { catalogVisibilitySql } from './book-lifecycle';
+
+export type CatalogSort = 'newest' | 'cheapest' | 'most_read' | 'relevance';
+
+export const CATALOG_SORTS: readonly CatalogSort[] = ['newest', 'cheapest', 'most_read', 'relevance'];
+
+export const CATALOG_DEFAULT_LIMIT = 24;
+export const CATALOG_MAX_LIMIT = 100;
+
+export interface CatalogFilters {
+    q?: string;
+    authorAddress?: string;
+    minPagePrice?: bigint;
+    maxPagePrice?: bigint;
+    minPages?: number;
+    maxPages?: number;
+    sort: CatalogSort;
+    limit: number;
+    cursor?: CatalogCursor;
+}
+
+export interface CatalogCursor {
+    sort: CatalogSort;
+    value: string;
+    id: number;
+}
+
+export interface CatalogPage {
+    books: Array<Record<string, unknown>>;
+    total: number;
+    nextCursor: string | null;
+}
+
+interface SortSpec {
+    keySql: string;
+    keyType: string;
+    /** Shape of the key's `::text` form, so a tampered cursor is rejected before it reaches SQL. */
+    keyPattern: RegExp;
+    direction: 'ASC' | 'DESC';
+}
+
+// Every sort is keyset-paginated on (sort key, id) so pages stay stable while new books are published.
+const SORT_SPECS: Record<CatalogSort, SortSpec> = {
+    newest: {
+        keySql: 'published_at',
+        keyType: 'timestamp',
+        keyPattern: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d{1,6})?$/,
+        direction: 'DESC',
+    },
+    cheapest: { keySql: 'page_price', keyType: 'bigint', keyPattern: /^\d{1,18}$/, direction: 'ASC' },
+    most_read: { keySql: 'reader_count', keyType: 'integer', keyPattern: /^\d{1,9}$/, direction: 'DESC' },
+    relevance: { keySql: 'rank', keyType: 'real', keyPattern: /^-?\d+(?:\.\d+)?(?:e[-+]\d+)?$/, direction: 'DESC' },
+};
+
+/**
+ * Searches the catalog with full-text matching over title, author, blurb, genres and page text.
+ * Page-text hits count for half the weight of a metadata hit when ranking by relevance.
+ */
+export async function searchCatalog(filters: CatalogFilters): Promise<CatalogPage> {
+    const params: unknown[] = [];
+    const where: string[] = [catalogVisibilitySql('b')];
+    const addParam = (value: unknown): string => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+
+    let rankSql = '0::real';
+    const q = filters.q?.trim();
+    if (q) {
+        const query = `websearch_to_tsquery('english', ${addParam(q)})`;
+        const contentRankSql = `(
+            SELECT MAX(ts_rank(p.search_vector, ${query}))
+            FROM pages p
+            WHERE p.book_id = b.id
+              AND p.search_vector @@ ${query}
+        )`;
+        rankSql = `(ts_rank(b.search_vector, ${query}) + COALESCE(${contentRankSql}, 0) * 0.5)::real`;
+        where.push(`(
+            b.search_vector @@ ${query}
+            OR EXISTS (SELECT 1 FROM pages p WHERE p.book_id = b.id AND p.search_vector @@ ${query})
+        )`);
+    }
+
+    if (filters.authorAddress) {
+        where.push(`b.author_address = ${addParam(filters.authorAddress)}`);
+    }
+    if (filters.minPagePrice !== undefined) {
+        where.push(`b.page_price >= ${addParam(filters.minPagePrice.toString())}`);
+    }
+    if (filters.maxPagePrice !== undefined) {
+        where.push(`b.page_price <= ${addParam(filters.maxPagePrice.toString())}`);
+    }
+    if (filters.minPages !== undefined) {
+        where.push(`b.total_pages >= ${addParam(filters.minPages)}`);
+    }
+    if (filters.maxPages !== undefined) {
+        where.push(`b.total_pages <= ${addParam(filters.maxPages)}`);
+    }
+
+    const spec = SORT_SPECS[filters.sort];
+    const comparator = spec.direction === 'DESC' ? '<' : '>';
+    const cursorSql = filters.cursor
+        ? `WHERE (${spec.keySql}, id) ${comparator} (${addParam(filters.cursor.value)}::${spec.keyType}, ${addParam(filters.cursor.id)})`
+        : '';
+    const limitParam = addParam(filters.limit + 1);
+
+    const result = await pool.query(
+        `WITH matches AS (
+            SELECT
+                b.id,
+                b.author_address,
+                b.title,
+                b.cover_image_url,
+                b.total_pages,
+                b.total_chapters,
+                b.page_price,
+                b.chapter_price,
+                b.description,
+                b.genres,
+                b.language,
+                b.content_rating,
+                b.created_at,
+                COALESCE(b.published_at, b.publish_at, b.created_at) AS published_at,
+                COALESCE(readers.reader_count, 0) AS reader_count,
+                ${rankSql} AS rank,
+                COUNT(*) OVER () AS total_count
+            FROM books b
+            LEFT JOIN (
+                SELECT book_id, COUNT(*)::integer AS reader_count
+                FROM reader_book_progress
+                GROUP BY book_id
+            ) readers ON readers.book_id = b.id
+            WHERE ${where.join('\n              AND ')}
+        )
+        SELECT
+            id,
+            author_address as "authorAddress",
+            title,
+            cover_image_url as "coverImageUrl",
+            total_pages as "totalPages",
+            total_chapters as "totalChapters",
+            page_price as "pagePrice",
+            chapter_price as "chapterPrice",
+            description,
+            genres,
+            language,
+            content_rating as "contentRating",
+            created_at as "createdAt",
+            published_at as "publishedAt",
+            reader_count as "readerCount",
+            ${spec.keySql}::text as sort_key,
+            total_count
+        FROM matches
+        ${cursorSql}
+        ORDER BY ${spec.keySql} ${spec.direction}, id ${spec.direction}
+        LIMIT ${limitParam}`,
+        params
+    );
+
+    const rows = result.rows as Array<Record<string, unknown>>;
+    const hasMore = rows.length > filters.limit;
+    const pageRows = rows.slice(0, filters.limit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+        books: pageRows.map(({ sort_key: _sortKey, total_count: _totalCount, ...book }) => book),
+        // The window count is taken before the cursor filter, so it reflects the whole result set.
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+        nextCursor: hasMore && last
+            ? encodeCatalogCursor({ sort: filters.sort, value: String(last.sort_key), id: Number(last.id) })
+            : null,
+    };
+}
+
+export function encodeCatalogCursor(cursor: CatalogCursor): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id]), 'utf-8').toString('base64url');
+}
+
+export function decodeCatalogCursor(raw: string): CatalogCursor | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+        if (!Array.isArray(parsed) || parsed.length !== 3) {
+            return null;
+        }
+
+        const [sort, value, id] = parsed;
+        if (!isCatalogSort(sort) || typeof value !== 'string' || !SORT_SPECS[sort].keyPattern.test(value)) {
+            return null;
+        }
+        if (!Number.isInteger(id) || id < 1 || id > 2_147_483_647) {
+            return null;
+        }
+
+        return { sort, value, id };
+    } catch {
+        return null;
+    }
+}
+
+export function isCatalogSort(value: unknown): value is CatalogSort {
+    return typeof value === 'string' && (CATALOG_SORTS as readonly string[]).includes(value);
+}
@@ -1,8 +1,18 @@
-import { reconcilePendingDepositIntents, settleAuthorRevenueBatch } from './credits';
+import { allocateSubscriptionRevenue, reconcilePendingDepositIntents, settleAuthorRevenueBatch } from './credits';
+import { runLedgerInvariantCheck } from './ledger';
+import { runPlatformFeeSweep } from './platform-sweeps';
+import { renewDueSubscriptions } from './subscriptions';
+import { runTreasuryReconciliation } from './treasury-reconciliation';
+import { processCreditWithdrawals } from './withdrawals';
 
 const ENABLE_CREDIT_WORKERS = process.env.ENABLE_CREDIT_WORKERS !== 'false';
 const RECONCILE_INTERVAL_MS = parseInterval(process.env.CREDIT_RECONCILE_INTERVAL_MS, 30_000);
 const SETTLEMENT_INTERVAL_MS = parseInterval(process.env.AUTHOR_SETTLEMENT_INTERVAL_MS, 60_000);
+const SUBSCRIPTION_INTERVAL_MS = parseInterval(process.env.SUBSCRIPTION_INTERVAL_MS, 60_000);
+const WITHDRAWAL_INTERVAL_MS = parseInterval(process.env.WITHDRAWAL_INTERVAL_MS, 60_000);
+const PLATFORM_SWEEP_INTERVAL_MS = parseInterval(process.env.PLATFORM_SWEEP_INTERVAL_MS, 3_600_000);
+const LEDGER_CHECK_INTERVAL_MS = parseInterval(process.env.LEDGER_CHECK_INTERVAL_MS, 900_000);
+const TREASURY_RECONCILE_INTERVAL_MS = parseInterval(process.env.TREASURY_RECONCILE_INTERVAL_MS, 3_600_000);
 
 let started = false;
 
@@ -33,9 +43,86 @@ export function startCreditWorkers(): void {
             });
     };
 
+    const runSubscriptions = () => {
+        void renewDueSubscriptions()
+            .then(() => allocateSubscriptionRevenue())
+            .then((result) => {
+                if (result.subscriptionCount > 0) {
+                    console.log(
+                        `[credits] allocated ${result.subscriptionCount} subscription months (${result.authorAmount.toString()} microSTX to authors)`
+                    );
+                }
+            })
+            .catch((error) => {
+                console.error('Subscription loop failed:', error);
+            });
+    };
+
+    const runWithdrawals = () => {
+        void processCreditWithdrawals()
+            .then((result) => {
+                if (result.broadcastCount > 0 || result.failedCount > 0) {
+                    console.log(
+                        `[credits] withdrawals broadcast=${result.broadcastCount} confirmed=${result.confirmedCount} failed=${result.failedCount}`
+                    );
+                }
+            })
+            .catch((error) => {
+                console.error('Withdrawal loop failed:', error);
+            });
+    };
+
+    const runPlatformSweep = () => {
+        void runPlatformFeeSweep()
+            .then((result) => {
+                if (result.sweepId !== null || result.failedCount > 0) {
+                    console.log(
+                        `[credits] platform fee sweep=${result.sweepId ?? '-'} events=${result.eventCount} transfer=${result.transferAmount.toString()} microSTX confirmed=${result.confirmedCount} failed=${result.failedCount}`
+                    );
+                }
+            })
+            .catch((error) => {
+                console.error('Platform fee sweep loop failed:', error);
+            });
+    };
+
+    const runLedgerCheck = () => {
+        void runLedgerInvariantCheck()
+            .then((run) => {
+                if (run.status === 'drift') {
+                    console.error(
+                        `[credits] ledger drift detected in check run ${run.id} (${run.violationCount} violations)`,
+                        run.violations.slice(0, 10)
+                    );
+                }
+            })
+            .catch((error) => {
+                console.error('Ledger check loop failed:', error);
+            });
+    };
+
+    const runTreasuryReconcile = () => {
+        void runTreasuryReconciliation()
+            .then((snapshot) => {
+                if (snapshot?.status === 'deficit') {
+                    console.error(
+                        `[credits] treasury deficit in snapshot ${snapshot.id}: ${snapshot.surplus} microSTX (liabilities ${snapshot.liabilities.total}, spendable ${(BigInt(snapshot.onchainBalance) - BigInt(snapshot.lockedBalance)).toString()})`
+                    );
+                }
+            })
+            .catch((error) => {
+                console.error('Treasury reconciliation loop failed:', error);
+            });
+    };
+
     // Run immediately on startup so ops does not wait for the first interval tick.
     runReconcile();
     runSettlement();
+    runSubscriptions();
+    runWithdrawals();
+    runPlatformSweep();
+    runLedgerCheck();
+    runTreasuryReconcile();
 
     setInterval(() => {
         runReconcile();
@@ -45,8 +132,28 @@ export function startCreditWorkers(): void {
         runSettlement();
     }, SETTLEMENT_INTERVAL_MS);
 
+    setInterval(() => {
+        runSubscriptions();
+    }, SUBSCRIPTION_INTERVAL_MS);
+
+    setInterval(() => {
+        runWithdrawals();
+    }, WITHDRAWAL_INTERVAL_MS);
+
+    setInterval(() => {
+        runPlatformSweep();
+    }, PLATFORM_SWEEP_INTERVAL_MS);
+
+    setInterval(() => {
+        runLedgerCheck();
+    }, LEDGER_CHECK_INTERVAL_MS);
+
+    setInterval(() => {
+        runTreasuryReconcile();
+    }, TREASURY_RECONCILE_INTERVAL_MS);
+
     console.log(
-        `[credits] workers enabled (reconcile=${RECONCILE_INTERVAL_MS}ms, authorSettlement=${SETTLEMENT_INTERVAL_MS}ms)`
+        `[credits] workers enabled (reconcile=${RECONCILE_INTERVAL_MS}ms, authorSettlement=${SETTLEMENT_INTERVAL_MS}ms, subscriptions=${SUBSCRIPTION_INTERVAL_MS}ms, withdrawals=${WITHDRAWAL_INTERVAL_MS}ms, platformSweep=${PLATFORM_SWEEP_INTERVAL_MS}ms, ledgerCheck=${LEDGER_CHECK_INTERVAL_MS}ms, treasuryReconcile=${TREASURY_RECONCILE_INTERVAL_MS}ms)`
     );
 }
 
@@ -1,9 +1,19 @@
 import { randomUUID } from 'crypto';
-import type { PoolClient } from 'pg';
+import type { Pool, PoolClient } from 'pg';
 import * as dotenv from 'dotenv';
 import pool from '../db/client';
 import { transactionsApi } from './stacks';
 import { settleAuthorPayoutBatch } from './author-payouts';
+import { effectiveChapterPriceSql, effectivePagePriceSql } from './pricing';
+import {
+    findApplicableDiscount,
+    recordPromotionRedemption,
+    releasePromotionRedemption,
+    type AppliedDiscount,
+} from './promotions';
+import { allocateRevenueSplit, loadActiveRevenueSplit } from './revenue-splits';
+import { getEffectivePlatformFee, resolvePlatformFee, type AppliedPlatformFee } from './fee-schedules';
+import { credit, debit, postLedgerTransaction, type LedgerLine } from './ledger';
 
 dotenv.config();
 
@@ -12,7 +22,6 @@ const TREASURY_ADDRESS = process.env.STACKPAD_TREASURY_ADDRESS || process.env.SE
 const DEFAULT_TOP_UP_AMOUNT = toBigIntSafe(process.env.DEFAULT_TOP_UP_MICROSTX, BigInt(200_000)); // 0.2 STX
 const DEPOSIT_INTENT_TTL_MINUTES = toNumberSafe(process.env.DEPOSIT_INTENT_TTL_MINUTES, 30);
 const DEPOSIT_PENDING_STATUSES = new Set(['pending', 'queued', 'processing']);
-const PLATFORM_FEE_BPS = toBpsSafe(process.env.PLATFORM_FEE_BPS, 100); // 1%
 const BPS_DENOMINATOR = BigInt(10_000);
 
 export interface DepositIntent {
@@ -38,6 +47,8 @@ export interface CreditAccessGranted {
     balance: string;
     deductedAmount: string;
     usedExistingUnlock: boolean;
+    /** Read under an active subscription instead of being charged. */
+    coveredBySubscription?: boolean;
 }
 
 export interface CreditAccessInsufficient {
@@ -52,6 +63,54 @@ export interface CreditAccessInsufficient {
 
 export type CreditAccessResult = CreditAccessGranted | CreditAccessInsufficient;
 
+export interface BookPurchaseGranted extends CreditAccessGranted {
+    listPrice: string;
+    /** What the reader had already spent on the covered pages and chapters. */
+    priorSpend: string;
+}
+
+export type BookPurchaseResult = BookPurchaseGranted | CreditAccessInsufficient;
+
+export interface SubscriptionChargeGranted extends CreditAccessGranted {
+    subscriptionId: number;
+    startsAt: Date;
+    endsAt: Date;
+}
+
+export type SubscriptionChargeResult = SubscriptionChargeGranted | CreditAccessInsufficient;
+
+export type GiftKind = 'credits' | 'book' | 'chapter';
+
+export interface GiftSent {
+    status: 'sent';
+    giftId: number;
+    balance: string;
+    deductedAmount: string;
+    /** Null while a gift code is waiting to be redeemed. */
+    deliveredAs: GiftKind | null;
+}
+
+export interface GiftRedeemed {
+    status: 'redeemed';
+    giftId: number;
+    kind: GiftKind;
+    /** `credits` when the recipient already owned the gifted content. */
+    deliveredAs: GiftKind;
+    bookId: number | null;
+    chapterNumber: number | null;
+    amount: string;
+    balance: string;
+}
+
+export interface GiftRejected {
+    status: 'rejected';
+    notFound?: boolean;
+    error: string;
+}
+
+export type GiftSendResult = GiftSent | GiftRejected | CreditAccessInsufficient;
+export type GiftRedeemResult = GiftRedeemed | GiftRejected;
+
 export interface CreditFundingOptions {
     recipient: string;
     network: string;
@@ -59,19 +118,54 @@ export interface CreditFundingOptions {
 }
 
 export interface PlatformRevenueSummary {
+    /** Global rate for new charges; book and author fee schedules may override it. */
     feeBps: number;
     pendingAmount: string;
     settledAmount: string;
     totalAmount: string;
+    /** Fees on refunded charges; excluded from the pending and settled amounts. */
+    refundedAmount: string;
     pendingEvents: number;
     totalEvents: number;
 }
 
+export interface DisputeRefunded {
+    status: 'refunded';
+    refundedAmount: string;
+    balance: string;
+    /** Author revenue already claimed for payout, withheld from the author's next settlement. */
+    clawbackAmount: string;
+}
+
+export interface DisputeRejected {
+    status: 'rejected';
+    notFound?: boolean;
+    error: string;
+}
+
+export type DisputeRefundResult = DisputeRefunded | DisputeRejected;
+
+export interface WithdrawalHeld {
+    status: 'held';
+    withdrawalId: number;
+    amount: string;
+    balance: string;
+}
+
+export interface WithdrawalRejected {
+    status: 'rejected';
+    error: string;
+    balance: string;
+}
+
+export type WithdrawalHoldResult = WithdrawalHeld | WithdrawalRejected;
+
 interface PageChargeInput {
     walletAddress: string;
     bookId: number;
     pageNumber: number;
     chapterNumber: number | null;
+    /** Effective price after free pages and overrides; 0 means the page is free. */
     pagePrice: bigint;
     authorAddress: string;
 }
@@ -80,10 +174,63 @@ interface ChapterChargeInput {
     walletAddress: string;
     bookId: number;
     chapterNumber: number;
+    /** Effective price after free chapters and overrides; 0 means the chapter is free. */
     chapterPrice: bigint;
     authorAddress: string;
 }
 
+interface BookPurchaseInput {
+    walletAddress: string;
+    bookId: number;
+    /** Null for the whole-book price. */
+    bundleId: number | null;
+    /** Chapters covered by the bundle; null for the whole book. */
+    chapterNumbers: number[] | null;
+    listPrice: bigint;
+    authorAddress: string;
+}
+
+interface SubscriptionChargeInput {
+    walletAddress: string;
+    planId: number;
+    price: bigint;
+    /** The ended month being renewed; the new month starts where it ended. Null starts now. */
+    renewsSubscriptionId: number | null;
+}
+
+interface AuthorRevenueInput {
+    bookId: number;
+    /** `books.author_address`; receives the whole share when the book has no split. */
+    ownerAddress: string;
+    readerAddress: string;
+    pageNumber: number | null;
+    chapterNumber: number | null;
+    amount: bigint;
+    creditTransactionId: number | null;
+}
+
+interface GiftChargeInput {
+    senderAddress: string;
+    /** Null issues a gift code instead of delivering right away. */
+    recipientAddress: string | null;
+    kind: GiftKind;
+    bookId: number | null;
+    chapterNumber: number | null;
+    amount: bigint;
+    message: string | null;
+    codeHash: string | null;
+}
+
+interface GiftRow {
+    id: number;
+    sender_address: string;
+    kind: GiftKind;
+    book_id: number | null;
+    chapter_number: number | null;
+    amount: string;
+    sent_credit_transaction_id: number | null;
+}
+
 interface DepositVerificationResult {
     status: 'confirmed' | 'pending' | 'invalid';
     txHash?: string;
@@ -338,11 +485,12 @@ export async function settleDepositIntent(
             [normalizedWallet, newBalance.toString(), creditedAmount.toString()]
         );
 
-        await client.query(
+        const transactionInsert = await client.query(
             `INSERT INTO credit_transactions
                 (wallet_address, tx_type, amount, balance_after, reference_id, chain_tx_hash, metadata)
              VALUES
-                ($1, 'deposit', $2, $3, $4, $5, $6::jsonb)`,
+                ($1, 'deposit', $2, $3, $4, $5, $6::jsonb)
+             RETURNING id`,
             [
                 normalizedWallet,
                 creditedAmount.toString(),
@@ -354,6 +502,13 @@ export async function settleDepositIntent(
                 }),
             ]
         );
+        await postLedgerTransaction(client, 'deposit', {
+            reference: verification.txHash,
+            creditTransactionId: Number(transactionInsert.rows[0].id),
+        }, [
+            debit('treasury_cash', null, creditedAmount),
+            credit('reader_liability', normalizedWallet, creditedAmount),
+        ]);
 
         await client.query(
             `UPDATE credit_deposit_intents
@@ -392,7 +547,7 @@ export async function settleDepositIntent(
 export async function chargeCreditsForPage(input: PageChargeInput): Promise<CreditAccessResult> {
     const normalizedWallet = normalizeWalletAddress(input.walletAddress);
 
-    if (input.pageNumber === 1) {
+    if (input.pagePrice === BigInt(0)) {
         const balance = await getReaderCreditBalance(normalizedWallet);
         return {
             status: 'granted',
@@ -441,6 +596,7 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
         if (
             existingUnlock.rows.length > 0
             || chapterUnlockExists
+            || await hasBookEntitlement(client, normalizedWallet, input.bookId, input.chapterNumber)
             || await hasLegacyPageEntitlement(client, normalizedWallet, input.bookId, input.pageNumber, input.chapterNumber)
         ) {
             await client.query('COMMIT');
@@ -452,15 +608,36 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
             };
         }
 
-        if (currentBalance < input.pagePrice) {
-            const shortfall = input.pagePrice - currentBalance;
+        const subscriptionId = await findActiveSubscriptionId(client, normalizedWallet);
+        if (subscriptionId !== null) {
+            await client.query(
+                `INSERT INTO subscription_reads (subscription_id, book_id, page_number)
+                 VALUES ($1, $2, $3)
+                 ON CONFLICT DO NOTHING`,
+                [subscriptionId, input.bookId, input.pageNumber]
+            );
+            await client.query('COMMIT');
+            return {
+                status: 'granted',
+                balance: currentBalance.toString(),
+                deductedAmount: '0',
+                usedExistingUnlock: false,
+                coveredBySubscription: true,
+            };
+        }
+
+        const discount = await findApplicableDiscount(client, normalizedWallet, input.bookId, input.pagePrice);
+        const price = input.pagePrice - (discount?.discountAmount ?? BigInt(0));
+
+        if (currentBalance < price) {
+            const shortfall = price - currentBalance;
             await client.query('ROLLBACK');
             rolledBack = true;
-            return insufficientCreditResult(input.pagePrice, currentBalance, shortfall);
+            return insufficientCreditResult(price, currentBalance, shortfall);
         }
 
-        const newBalance = currentBalance - input.pagePrice;
-        const split = splitRevenueAmount(input.pagePrice);
+        const newBalance = currentBalance - price;
+        const split = splitRevenueAmount(price, await resolvePlatformFee(client, input.bookId));
 
         await client.query(
             `UPDATE reader_accounts
@@ -468,7 +645,7 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
                  total_spent = total_spent + $3,
                  updated_at = NOW()
              WHERE wallet_address = $1`,
-            [normalizedWallet, newBalance.toString(), input.pagePrice.toString()]
+            [normalizedWallet, newBalance.toString(), price.toString()]
         );
 
         const transactionInsert = await client.query(
@@ -479,18 +656,23 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
              RETURNING id`,
             [
                 normalizedWallet,
-                (-input.pagePrice).toString(),
+                (-price).toString(),
                 newBalance.toString(),
                 input.bookId,
                 input.pageNumber,
                 input.chapterNumber,
                 JSON.stringify({
                     source: 'page_unlock',
+                    ...discountMetadata(discount),
                 }),
             ]
         );
 
         const creditTransactionId = Number(transactionInsert.rows[0].id);
+        if (discount) {
+            await recordPromotionRedemption(client, discount, normalizedWallet, input.bookId, creditTransactionId);
+        }
+
         const unlockInsert = await client.query(
             `INSERT INTO reader_page_unlocks
                 (wallet_address, book_id, page_number, amount, credit_transaction_id)
@@ -501,7 +683,7 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
                 normalizedWallet,
                 input.bookId,
                 input.pageNumber,
-                input.pagePrice.toString(),
+                price.toString(),
                 creditTransactionId,
             ]
         );
@@ -510,45 +692,48 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
             throw new Error('Concurrent page unlock conflict');
         }
 
-        if (split.authorShare > BigInt(0)) {
-            await client.query(
-                `INSERT INTO author_revenue_events
-                    (author_address, reader_address, book_id, page_number, amount, credit_transaction_id)
-                 VALUES ($1, $2, $3, $4, $5, $6)`,
-                [
-                    input.authorAddress,
-                    normalizedWallet,
-                    input.bookId,
-                    input.pageNumber,
-                    split.authorShare.toString(),
-                    creditTransactionId,
-                ]
-            );
-        }
-
-        if (split.platformFee > BigInt(0)) {
+        const authorLines = await insertAuthorRevenueEvents(client, {
+            bookId: input.bookId,
+            ownerAddress: input.authorAddress,
+            readerAddress: normalizedWallet,
+            pageNumber: input.pageNumber,
+            chapterNumber: null,
+            amount: split.authorShare,
+            creditTransactionId,
+        });
+
+        // A 0% schedule still gets a zero-amount event so the applied rate is on record.
+        if (split.platformFee > BigInt(0) || split.feeScheduleId !== null) {
             await client.query(
                 `INSERT INTO platform_revenue_events
-                    (reader_address, book_id, page_number, chapter_number, amount, gross_amount, author_amount, credit_transaction_id)
-                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                    (reader_address, book_id, page_number, chapter_number, amount, gross_amount, author_amount,
+                     credit_transaction_id, fee_schedule_id)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
                 [
                     normalizedWallet,
                     input.bookId,
                     input.pageNumber,
                     input.chapterNumber,
                     split.platformFee.toString(),
-                    input.pagePrice.toString(),
+                    price.toString(),
                     split.authorShare.toString(),
                     creditTransactionId,
+                    split.feeScheduleId,
                 ]
             );
         }
 
+        await postLedgerTransaction(client, 'page_unlock', { creditTransactionId }, [
+            debit('reader_liability', normalizedWallet, price),
+            ...authorLines,
+            credit('platform_revenue', null, split.platformFee),
+        ]);
+
         await client.query('COMMIT');
         return {
             status: 'granted',
             balance: newBalance.toString(),
-            deductedAmount: input.pagePrice.toString(),
+            deductedAmount: price.toString(),
             usedExistingUnlock: false,
         };
     } catch (error) {
@@ -564,7 +749,7 @@ export async function chargeCreditsForPage(input: PageChargeInput): Promise<Cred
 export async function chargeCreditsForChapter(input: ChapterChargeInput): Promise<CreditAccessResult> {
     const normalizedWallet = normalizeWalletAddress(input.walletAddress);
 
-    if (input.chapterNumber === 1) {
+    if (input.chapterPrice === BigInt(0)) {
         const balance = await getReaderCreditBalance(normalizedWallet);
         return {
             status: 'granted',
@@ -597,7 +782,11 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
             [normalizedWallet, input.bookId, input.chapterNumber]
         );
 
-        if (existingUnlock.rows.length > 0 || await hasLegacyChapterEntitlement(client, normalizedWallet, input.bookId, input.chapterNumber)) {
+        if (
+            existingUnlock.rows.length > 0
+            || await hasBookEntitlement(client, normalizedWallet, input.bookId, input.chapterNumber)
+            || await hasLegacyChapterEntitlement(client, normalizedWallet, input.bookId, input.chapterNumber)
+        ) {
             await client.query('COMMIT');
             return {
                 status: 'granted',
@@ -607,15 +796,38 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
             };
         }
 
-        if (currentBalance < input.chapterPrice) {
-            const shortfall = input.chapterPrice - currentBalance;
+        const subscriptionId = await findActiveSubscriptionId(client, normalizedWallet);
+        if (subscriptionId !== null) {
+            await client.query(
+                `INSERT INTO subscription_reads (subscription_id, book_id, page_number)
+                 SELECT $1, book_id, page_number
+                 FROM pages
+                 WHERE book_id = $2 AND chapter_number = $3
+                 ON CONFLICT DO NOTHING`,
+                [subscriptionId, input.bookId, input.chapterNumber]
+            );
+            await client.query('COMMIT');
+            return {
+                status: 'granted',
+                balance: currentBalance.toString(),
+                deductedAmount: '0',
+                usedExistingUnlock: false,
+                coveredBySubscription: true,
+            };
+        }
+
+        const discount = await findApplicableDiscount(client, normalizedWallet, input.bookId, input.chapterPrice);
+        const price = input.chapterPrice - (discount?.discountAmount ?? BigInt(0));
+
+        if (currentBalance < price) {
+            const shortfall = price - currentBalance;
             await client.query('ROLLBACK');
             rolledBack = true;
-            return insufficientCreditResult(input.chapterPrice, currentBalance, shortfall);
+            return insufficientCreditResult(price, currentBalance, shortfall);
         }
 
-        const newBalance = currentBalance - input.chapterPrice;
-        const split = splitRevenueAmount(input.chapterPrice);
+        const newBalance = currentBalance - price;
+        const split = splitRevenueAmount(price, await resolvePlatformFee(client, input.bookId));
 
         await client.query(
             `UPDATE reader_accounts
@@ -623,7 +835,7 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
                  total_spent = total_spent + $3,
                  updated_at = NOW()
              WHERE wallet_address = $1`,
-            [normalizedWallet, newBalance.toString(), input.chapterPrice.toString()]
+            [normalizedWallet, newBalance.toString(), price.toString()]
         );
 
         const transactionInsert = await client.query(
@@ -634,17 +846,22 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
              RETURNING id`,
             [
                 normalizedWallet,
-                (-input.chapterPrice).toString(),
+                (-price).toString(),
                 newBalance.toString(),
                 input.bookId,
                 input.chapterNumber,
                 JSON.stringify({
                     source: 'chapter_unlock',
+                    ...discountMetadata(discount),
                 }),
             ]
         );
 
         const creditTransactionId = Number(transactionInsert.rows[0].id);
+        if (discount) {
+            await recordPromotionRedemption(client, discount, normalizedWallet, input.bookId, creditTransactionId);
+        }
+
         const unlockInsert = await client.query(
             `INSERT INTO reader_chapter_unlocks
                 (wallet_address, book_id, chapter_number, amount, credit_transaction_id)
@@ -655,7 +872,7 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
                 normalizedWallet,
                 input.bookId,
                 input.chapterNumber,
-                input.chapterPrice.toString(),
+                price.toString(),
                 creditTransactionId,
             ]
         );
@@ -664,46 +881,209 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
             throw new Error('Concurrent chapter unlock conflict');
         }
 
-        if (split.authorShare > BigInt(0)) {
+        const authorLines = await insertAuthorRevenueEvents(client, {
+            bookId: input.bookId,
+            ownerAddress: input.authorAddress,
+            readerAddress: normalizedWallet,
+            pageNumber: null,
+            chapterNumber: input.chapterNumber,
+            amount: split.authorShare,
+            creditTransactionId,
+        });
+
+        // A 0% schedule still gets a zero-amount event so the applied rate is on record.
+        if (split.platformFee > BigInt(0) || split.feeScheduleId !== null) {
             await client.query(
-                `INSERT INTO author_revenue_events
-                    (author_address, reader_address, book_id, chapter_number, amount, credit_transaction_id)
-                 VALUES ($1, $2, $3, $4, $5, $6)`,
+                `INSERT INTO platform_revenue_events
+                    (reader_address, book_id, chapter_number, amount, gross_amount, author_amount, credit_transaction_id,
+                     fee_schedule_id)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
                 [
-                    input.authorAddress,
                     normalizedWallet,
                     input.bookId,
                     input.chapterNumber,
+                    split.platformFee.toString(),
+                    price.toString(),
                     split.authorShare.toString(),
                     creditTransactionId,
+                    split.feeScheduleId,
+                ]
+            );
+        }
+
+        await postLedgerTransaction(client, 'chapter_unlock', { creditTransactionId }, [
+            debit('reader_liability', normalizedWallet, price),
+            ...authorLines,
+            credit('platform_revenue', null, split.platformFee),
+        ]);
+
+        await client.query('COMMIT');
+
+        return {
+            status: 'granted',
+            balance: newBalance.toString(),
+            deductedAmount: price.toString(),
+            usedExistingUnlock: false,
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Buys the whole book or a chapter bundle. The list price is reduced by what the reader already
+ * spent on the pages and chapters it covers, so upgrading never charges twice for the same content.
+ */
+export async function chargeCreditsForBookPurchase(input: BookPurchaseInput): Promise<BookPurchaseResult> {
+    const normalizedWallet = normalizeWalletAddress(input.walletAddress);
+    const scope = input.bundleId === null ? 'book' : 'bundle';
+
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        await ensureReaderAccount(client, normalizedWallet);
+
+        const accountQuery = await client.query(
+            `SELECT credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = $1
+             FOR UPDATE`,
+            [normalizedWallet]
+        );
+        const currentBalance = BigInt(String(accountQuery.rows[0].credit_balance ?? '0'));
+
+        const existingEntitlement = await client.query(
+            `SELECT id
+             FROM reader_book_entitlements
+             WHERE wallet_address = $1
+               AND book_id = $2
+               AND (scope = 'book' OR ($3::integer IS NOT NULL AND bundle_id = $3))
+             LIMIT 1`,
+            [normalizedWallet, input.bookId, input.bundleId]
+        );
+
+        if (existingEntitlement.rows.length > 0) {
+            await client.query('COMMIT');
+            return {
+                status: 'granted',
+                balance: currentBalance.toString(),
+                deductedAmount: '0',
+                usedExistingUnlock: true,
+                listPrice: input.listPrice.toString(),
+                priorSpend: '0',
+            };
+        }
+
+        const priorSpend = await sumReaderBookSpend(client, normalizedWallet, input.bookId, input.chapterNumbers);
+        const price = input.listPrice > priorSpend ? input.listPrice - priorSpend : BigInt(0);
+
+        if (currentBalance < price) {
+            const shortfall = price - currentBalance;
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return insufficientCreditResult(price, currentBalance, shortfall);
+        }
+
+        const newBalance = currentBalance - price;
+        let creditTransactionId: number | null = null;
+
+        if (price > BigInt(0)) {
+            await client.query(
+                `UPDATE reader_accounts
+                 SET credit_balance = $2,
+                     total_spent = total_spent + $3,
+                     updated_at = NOW()
+                 WHERE wallet_address = $1`,
+                [normalizedWallet, newBalance.toString(), price.toString()]
+            );
+
+            const transactionInsert = await client.query(
+                `INSERT INTO credit_transactions
+                    (wallet_address, tx_type, amount, balance_after, book_id, metadata)
+                 VALUES
+                    ($1, 'deduction', $2, $3, $4, $5::jsonb)
+                 RETURNING id`,
+                [
+                    normalizedWallet,
+                    (-price).toString(),
+                    newBalance.toString(),
+                    input.bookId,
+                    JSON.stringify({
+                        source: scope === 'book' ? 'book_unlock' : 'bundle_unlock',
+                        bundleId: input.bundleId,
+                        listPrice: input.listPrice.toString(),
+                        priorSpend: priorSpend.toString(),
+                    }),
                 ]
             );
+            creditTransactionId = Number(transactionInsert.rows[0].id);
         }
 
-        if (split.platformFee > BigInt(0)) {
+        await client.query(
+            `INSERT INTO reader_book_entitlements
+                (wallet_address, book_id, scope, bundle_id, chapter_numbers, list_price, amount, credit_transaction_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [
+                normalizedWallet,
+                input.bookId,
+                scope,
+                input.bundleId,
+                input.chapterNumbers,
+                input.listPrice.toString(),
+                price.toString(),
+                creditTransactionId,
+            ]
+        );
+
+        const split = splitRevenueAmount(price, await resolvePlatformFee(client, input.bookId));
+        const authorLines = await insertAuthorRevenueEvents(client, {
+            bookId: input.bookId,
+            ownerAddress: input.authorAddress,
+            readerAddress: normalizedWallet,
+            pageNumber: null,
+            chapterNumber: null,
+            amount: split.authorShare,
+            creditTransactionId,
+        });
+
+        // A 0% schedule still gets a zero-amount event so the applied rate is on record.
+        if (split.platformFee > BigInt(0) || split.feeScheduleId !== null) {
             await client.query(
                 `INSERT INTO platform_revenue_events
-                    (reader_address, book_id, chapter_number, amount, gross_amount, author_amount, credit_transaction_id)
+                    (reader_address, book_id, amount, gross_amount, author_amount, credit_transaction_id, fee_schedule_id)
                  VALUES ($1, $2, $3, $4, $5, $6, $7)`,
                 [
                     normalizedWallet,
                     input.bookId,
-                    input.chapterNumber,
                     split.platformFee.toString(),
-                    input.chapterPrice.toString(),
+                    price.toString(),
                     split.authorShare.toString(),
                     creditTransactionId,
+                    split.feeScheduleId,
                 ]
             );
         }
 
-        await client.query('COMMIT');
+        await postLedgerTransaction(client, 'book_purchase', { creditTransactionId }, [
+            debit('reader_liability', normalizedWallet, price),
+            ...authorLines,
+            credit('platform_revenue', null, split.platformFee),
+        ]);
 
+        await client.query('COMMIT');
         return {
             status: 'granted',
             balance: newBalance.toString(),
-            deductedAmount: input.chapterPrice.toString(),
+            deductedAmount: price.toString(),
             usedExistingUnlock: false,
+            listPrice: input.listPrice.toString(),
+            priorSpend: priorSpend.toString(),
         };
     } catch (error) {
         if (!rolledBack) {
@@ -715,82 +1095,1005 @@ export async function chargeCreditsForChapter(input: ChapterChargeInput): Promis
     }
 }
 
-export async function reconcilePendingDepositIntents(limit = 25): Promise<void> {
-    const pendingIntents = await pool.query(
-        `SELECT id, wallet_address, tx_hash
-         FROM credit_deposit_intents
-         WHERE status IN ('pending', 'expired')
-           AND tx_hash IS NOT NULL
-         ORDER BY created_at ASC
-         LIMIT $1`,
-        [limit]
-    );
-
-    for (const row of pendingIntents.rows) {
-        const intent = row as {
-            id: string;
-            wallet_address: string;
-            tx_hash: string;
-        };
-        try {
-            await settleDepositIntent(intent.wallet_address, intent.id, intent.tx_hash);
-        } catch (error) {
-            console.error('Failed to reconcile pending deposit intent:', error);
-        }
-    }
+/** Prior spend that a whole-book (null chapters) or bundle purchase would be pro-rated against. */
+export async function getReaderBookSpend(
+    walletAddress: string,
+    bookId: number,
+    chapterNumbers: number[] | null
+): Promise<bigint> {
+    return sumReaderBookSpend(pool, normalizeWalletAddress(walletAddress), bookId, chapterNumbers);
 }
 
-export async function settleAuthorRevenueBatch(limit = 500): Promise<{ eventCount: number; totalAmount: bigint }> {
-    return settleAuthorPayoutBatch(limit);
+/**
+ * Read-only entitlement check for a page (no charge). Used to gate assets that
+ * belong to a page, such as images embedded in imported EPUB chapters. Free pages always pass.
+ */
+export async function hasPageAccess(
+    walletAddress: string,
+    bookId: number,
+    pageNumber: number,
+    chapterNumber: number | null
+): Promise<boolean> {
+    const normalizedWallet = normalizeWalletAddress(walletAddress);
+    const result = await pool.query(
+        `SELECT
+            COALESCE((
+                SELECT ${effectivePagePriceSql('b', 'p')} = 0
+                FROM pages p
+                JOIN books b ON b.id = p.book_id
+                WHERE p.book_id = $2 AND p.page_number = $3
+            ), FALSE)
+            OR EXISTS (
+                SELECT 1 FROM reader_page_unlocks
+                WHERE wallet_address = $1 AND book_id = $2 AND page_number = $3
+            )
+            OR EXISTS (
+                SELECT 1 FROM reader_chapter_unlocks
+                WHERE wallet_address = $1 AND book_id = $2 AND $4::integer IS NOT NULL AND chapter_number = $4
+            )
+            OR EXISTS (
+                SELECT 1 FROM reader_book_entitlements
+                WHERE wallet_address = $1
+                  AND book_id = $2
+                  AND (scope = 'book' OR ($4::integer IS NOT NULL AND $4 = ANY(chapter_numbers)))
+            )
+            OR EXISTS (
+                SELECT 1 FROM payment_logs
+                WHERE reader_address = $1
+                  AND book_id = $2
+                  AND (page_number = $3 OR ($4::integer IS NOT NULL AND chapter_number = $4))
+            )
+            OR EXISTS (
+                SELECT 1 FROM reader_subscriptions
+                WHERE wallet_address = $1 AND starts_at <= NOW() AND ends_at > NOW()
+            ) AS has_access`,
+        [normalizedWallet, bookId, pageNumber, chapterNumber]
+    );
+
+    return Boolean(result.rows[0]?.has_access);
 }
 
-export async function getPlatformRevenueSummary(): Promise<PlatformRevenueSummary> {
-    const summary = await pool.query(
+/** Chapter access for free chapters, subscribers, and readers who unlocked the chapter, bought it in a bundle, or paid for it directly. */
+export async function hasChapterAccess(walletAddress: string, bookId: number, chapterNumber: number): Promise<boolean> {
+    const normalizedWallet = normalizeWalletAddress(walletAddress);
+    const result = await pool.query(
         `SELECT
-            COALESCE(SUM(CASE WHEN settled = FALSE THEN amount ELSE 0 END), 0) AS pending_amount,
-            COALESCE(SUM(CASE WHEN settled = TRUE THEN amount ELSE 0 END), 0) AS settled_amount,
-            COUNT(*) FILTER (WHERE settled = FALSE) AS pending_events,
-            COUNT(*) AS total_events
-         FROM platform_revenue_events`
+            COALESCE((
+                SELECT ${effectiveChapterPriceSql('b', '$3::integer')} = 0
+                FROM books b
+                WHERE b.id = $2
+            ), FALSE)
+            OR EXISTS (
+                SELECT 1 FROM reader_chapter_unlocks
+                WHERE wallet_address = $1 AND book_id = $2 AND chapter_number = $3
+            )
+            OR EXISTS (
+                SELECT 1 FROM reader_book_entitlements
+                WHERE wallet_address = $1 AND book_id = $2 AND (scope = 'book' OR $3 = ANY(chapter_numbers))
+            )
+            OR EXISTS (
+                SELECT 1 FROM payment_logs
+                WHERE reader_address = $1 AND book_id = $2 AND chapter_number = $3
+            )
+            OR EXISTS (
+                SELECT 1 FROM reader_subscriptions
+                WHERE wallet_address = $1 AND starts_at <= NOW() AND ends_at > NOW()
+            ) AS has_access`,
+        [normalizedWallet, bookId, chapterNumber]
     );
 
-    const row = summary.rows[0] as {
-        pending_amount: string | number;
-        settled_amount: string | number;
-        pending_events: string | number;
-        total_events: string | number;
-    };
+    return Boolean(result.rows[0]?.has_access);
+}
 
-    const pendingAmount = BigInt(String(row?.pending_amount ?? '0'));
-    const settledAmount = BigInt(String(row?.settled_amount ?? '0'));
+/** Whether the reader has paid for any page, chapter or bundle of the book. */
+export async function hasBookPurchase(walletAddress: string, bookId: number): Promise<boolean> {
+    const normalizedWallet = normalizeWalletAddress(walletAddress);
+    const result = await pool.query(
+        `SELECT
+            EXISTS (SELECT 1 FROM reader_page_unlocks WHERE wallet_address = $1 AND book_id = $2)
+            OR EXISTS (SELECT 1 FROM reader_chapter_unlocks WHERE wallet_address = $1 AND book_id = $2)
+            OR EXISTS (SELECT 1 FROM reader_book_entitlements WHERE wallet_address = $1 AND book_id = $2)
+            OR EXISTS (SELECT 1 FROM payment_logs WHERE reader_address = $1 AND book_id = $2) AS has_purchase`,
+        [normalizedWallet, bookId]
+    );
 
-    return {
-        feeBps: PLATFORM_FEE_BPS,
-        pendingAmount: pendingAmount.toString(),
-        settledAmount: settledAmount.toString(),
-        totalAmount: (pendingAmount + settledAmount).toString(),
-        pendingEvents: Number(row?.pending_events ?? 0),
-        totalEvents: Number(row?.total_events ?? 0),
-    };
+    return Boolean(result.rows[0]?.has_purchase);
 }
 
-export function getDefaultTopUpAmount(requiredAmount: bigint): bigint {
-    return requiredAmount > DEFAULT_TOP_UP_AMOUNT ? requiredAmount : DEFAULT_TOP_UP_AMOUNT;
-}
+/**
+ * Pays for one month of a subscription plan from prepaid credits. A reader with a month still
+ * running is not charged again; renewals start exactly where the previous month ended.
+ * No revenue is booked here: `allocateSubscriptionRevenue` splits the month once it ends.
+ */
+export async function chargeCreditsForSubscription(input: SubscriptionChargeInput): Promise<SubscriptionChargeResult> {
+    const normalizedWallet = normalizeWalletAddress(input.walletAddress);
 
-export function getCreditFundingOptions(requiredAmount: bigint = BigInt(0)): CreditFundingOptions {
-    return {
-        recipient: TREASURY_ADDRESS,
-        network: toCaip2Network(STACKS_NETWORK),
-        suggestedAmount: getDefaultTopUpAmount(requiredAmount).toString(),
-    };
-}
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        await ensureReaderAccount(client, normalizedWallet);
 
-function insufficientCreditResult(requiredAmount: bigint, balance: bigint, shortfall: bigint): CreditAccessInsufficient {
-    const suggestedTopUpAmount = getDefaultTopUpAmount(shortfall);
-    return {
-        status: 'insufficient',
-        balance: balance.toString(),
+        const accountQuery = await client.query(
+            `SELECT credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = $1
+             FOR UPDATE`,
+            [normalizedWallet]
+        );
+        const currentBalance = BigInt(String(accountQuery.rows[0].credit_balance ?? '0'));
+
+        const running = await client.query(
+            `SELECT id, starts_at, ends_at
+             FROM reader_subscriptions
+             WHERE wallet_address = $1 AND ends_at > NOW()
+             ORDER BY ends_at DESC
+             LIMIT 1`,
+            [normalizedWallet]
+        );
+        if (running.rows.length > 0) {
+            await client.query('COMMIT');
+            return {
+                status: 'granted',
+                balance: currentBalance.toString(),
+                deductedAmount: '0',
+                usedExistingUnlock: true,
+                subscriptionId: Number(running.rows[0].id),
+                startsAt: running.rows[0].starts_at as Date,
+                endsAt: running.rows[0].ends_at as Date,
+            };
+        }
+
+        if (currentBalance < input.price) {
+            const shortfall = input.price - currentBalance;
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return insufficientCreditResult(input.price, currentBalance, shortfall);
+        }
+
+        const newBalance = currentBalance - input.price;
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 total_spent = total_spent + $3,
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [normalizedWallet, newBalance.toString(), input.price.toString()]
+        );
+
+        const transactionInsert = await client.query(
+            `INSERT INTO credit_transactions
+                (wallet_address, tx_type, amount, balance_after, metadata)
+             VALUES
+                ($1, 'deduction', $2, $3, $4::jsonb)
+             RETURNING id`,
+            [
+                normalizedWallet,
+                (-input.price).toString(),
+                newBalance.toString(),
+                JSON.stringify({
+                    source: 'subscription',
+                    planId: input.planId,
+                    renewsSubscriptionId: input.renewsSubscriptionId,
+                }),
+            ]
+        );
+        const creditTransactionId = Number(transactionInsert.rows[0].id);
+
+        const subscriptionInsert = await client.query(
+            `INSERT INTO reader_subscriptions
+                (wallet_address, plan_id, amount, starts_at, ends_at, credit_transaction_id)
+             SELECT $1, $2, $3, period.starts_at, period.starts_at + INTERVAL '1 month', $4
+             FROM (
+                SELECT COALESCE(
+                    (SELECT ends_at FROM reader_subscriptions WHERE id = $5),
+                    NOW()
+                ) AS starts_at
+             ) period
+             RETURNING id, starts_at, ends_at`,
+            [normalizedWallet, input.planId, input.price.toString(), creditTransactionId, input.renewsSubscriptionId]
+        );
+
+        if (input.renewsSubscriptionId !== null) {
+            await client.query(
+                `UPDATE reader_subscriptions
+                 SET renewal_status = 'renewed'
+                 WHERE id = $1`,
+                [input.renewsSubscriptionId]
+            );
+        }
+
+        await postLedgerTransaction(client, 'subscription_purchase', {
+            reference: `subscription:${subscriptionInsert.rows[0].id}`,
+            creditTransactionId,
+        }, [
+            debit('reader_liability', normalizedWallet, input.price),
+            credit('subscription_deferred', null, input.price),
+        ]);
+
+        await client.query('COMMIT');
+        return {
+            status: 'granted',
+            balance: newBalance.toString(),
+            deductedAmount: input.price.toString(),
+            usedExistingUnlock: false,
+            subscriptionId: Number(subscriptionInsert.rows[0].id),
+            startsAt: subscriptionInsert.rows[0].starts_at as Date,
+            endsAt: subscriptionInsert.rows[0].ends_at as Date,
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Month-end allocation: divides each ended subscription month across books pro rata to the pages
+ * the subscriber read that month, then splits each book's part into the author share and the
+ * platform fee that applies to that book. Rounding dust and months with no reading go to the
+ * platform. The resulting `author_revenue_events` are paid out by the regular settlement batches.
+ */
+export async function allocateSubscriptionRevenue(limit = 50): Promise<{ subscriptionCount: number; authorAmount: bigint }> {
+    let subscriptionCount = 0;
+    let authorAmount = BigInt(0);
+
+    for (let index = 0; index < limit; index += 1) {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const due = await client.query(
+                `SELECT id, wallet_address, amount, credit_transaction_id
+                 FROM reader_subscriptions
+                 WHERE allocated_at IS NULL AND ends_at <= NOW()
+                 ORDER BY ends_at ASC
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED`
+            );
+            if (due.rows.length === 0) {
+                await client.query('COMMIT');
+                break;
+            }
+
+            const subscription = due.rows[0] as {
+                id: number;
+                wallet_address: string;
+                amount: string;
+                credit_transaction_id: number | null;
+            };
+            const grossAmount = BigInt(subscription.amount);
+
+            const reads = await client.query(
+                `SELECT b.author_address, r.book_id, COUNT(*) AS page_count
+                 FROM subscription_reads r
+                 JOIN books b ON b.id = r.book_id
+                 WHERE r.subscription_id = $1
+                 GROUP BY b.author_address, r.book_id
+                 ORDER BY r.book_id ASC`,
+                [subscription.id]
+            );
+            const totalPages = reads.rows.reduce((sum, row) => sum + BigInt(row.page_count), BigInt(0));
+
+            let distributed = BigInt(0);
+            let allocated = BigInt(0);
+            const authorLines: LedgerLine[] = [];
+            for (const row of reads.rows) {
+                const bookGross = (grossAmount * BigInt(row.page_count)) / totalPages;
+                if (bookGross <= BigInt(0)) {
+                    continue;
+                }
+                const bookId = Number(row.book_id);
+                const split = splitRevenueAmount(bookGross, await resolvePlatformFee(client, bookId));
+
+                authorLines.push(...await insertAuthorRevenueEvents(client, {
+                    bookId,
+                    ownerAddress: String(row.author_address),
+                    readerAddress: subscription.wallet_address,
+                    pageNumber: null,
+                    chapterNumber: null,
+                    amount: split.authorShare,
+                    creditTransactionId: subscription.credit_transaction_id,
+                }));
+                if (split.platformFee > BigInt(0) || split.feeScheduleId !== null) {
+                    await insertSubscriptionPlatformEvent(client, subscription, bookId, bookGross, split);
+                }
+                distributed += bookGross;
+                allocated += split.authorShare;
+            }
+
+            const unallocated = grossAmount - distributed;
+            if (unallocated > BigInt(0)) {
+                await insertSubscriptionPlatformEvent(client, subscription, null, unallocated, {
+                    authorShare: BigInt(0),
+                    platformFee: unallocated,
+                    feeScheduleId: null,
+                });
+            }
+
+            const platformAmount = grossAmount - allocated;
+
+            await postLedgerTransaction(client, 'subscription_allocation', {
+                reference: `subscription:${subscription.id}`,
+                creditTransactionId: subscription.credit_transaction_id,
+            }, [
+                debit('subscription_deferred', null, grossAmount),
+                ...authorLines,
+                credit('platform_revenue', null, platformAmount),
+            ]);
+
+            await client.query(
+                'UPDATE reader_subscriptions SET allocated_at = NOW() WHERE id = $1',
+                [subscription.id]
+            );
+            await client.query('COMMIT');
+
+            subscriptionCount += 1;
+            authorAmount += allocated;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    return { subscriptionCount, authorAmount };
+}
+
+async function insertSubscriptionPlatformEvent(
+    client: PoolClient,
+    subscription: { wallet_address: string; credit_transaction_id: number | null },
+    bookId: number | null,
+    grossAmount: bigint,
+    split: ReturnType<typeof splitRevenueAmount>
+): Promise<void> {
+    await client.query(
+        `INSERT INTO platform_revenue_events
+            (reader_address, book_id, amount, gross_amount, author_amount, credit_transaction_id, fee_schedule_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+            subscription.wallet_address,
+            bookId,
+            split.platformFee.toString(),
+            grossAmount.toString(),
+            split.authorShare.toString(),
+            subscription.credit_transaction_id,
+            split.feeScheduleId,
+        ]
+    );
+}
+
+/**
+ * Debits the sender for a gift of credits or of a whole-book or chapter unlock. With a recipient
+ * the gift is delivered in the same transaction; otherwise it waits for `redeemGiftCode`.
+ * Author revenue for gifted unlocks is booked on delivery.
+ */
+export async function chargeCreditsForGift(input: GiftChargeInput): Promise<GiftSendResult> {
+    const normalizedSender = normalizeWalletAddress(input.senderAddress);
+    const normalizedRecipient = input.recipientAddress ? normalizeWalletAddress(input.recipientAddress) : null;
+
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        await ensureReaderAccount(client, normalizedSender);
+        if (normalizedRecipient) {
+            await ensureReaderAccount(client, normalizedRecipient);
+        }
+
+        // Lock both accounts in a fixed order so crossing gifts cannot deadlock.
+        const accounts = await client.query(
+            `SELECT wallet_address, credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = ANY($1::varchar[])
+             ORDER BY wallet_address
+             FOR UPDATE`,
+            [[normalizedSender, normalizedRecipient].filter((address): address is string => address !== null)]
+        );
+        const senderRow = accounts.rows.find((row) => row.wallet_address === normalizedSender);
+        const currentBalance = BigInt(String(senderRow?.credit_balance ?? '0'));
+
+        if (currentBalance < input.amount) {
+            const shortfall = input.amount - currentBalance;
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return insufficientCreditResult(input.amount, currentBalance, shortfall);
+        }
+
+        const newBalance = currentBalance - input.amount;
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [normalizedSender, newBalance.toString()]
+        );
+
+        const giftInsert = await client.query(
+            `INSERT INTO gifts
+                (sender_address, kind, book_id, chapter_number, amount, message, code_hash)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             RETURNING id`,
+            [
+                normalizedSender,
+                input.kind,
+                input.bookId,
+                input.chapterNumber,
+                input.amount.toString(),
+                input.message,
+                input.codeHash,
+            ]
+        );
+        const giftId = Number(giftInsert.rows[0].id);
+
+        const transactionInsert = await client.query(
+            `INSERT INTO credit_transactions
+                (wallet_address, tx_type, amount, balance_after, book_id, chapter_number, reference_id, metadata)
+             VALUES
+                ($1, 'gift_sent', $2, $3, $4, $5, $6, $7::jsonb)
+             RETURNING id`,
+            [
+                normalizedSender,
+                (-input.amount).toString(),
+                newBalance.toString(),
+                input.bookId,
+                input.chapterNumber,
+                `gift:${giftId}`,
+                JSON.stringify({
+                    source: 'gift',
+                    giftId,
+                    kind: input.kind,
+                    recipient: normalizedRecipient,
+                }),
+            ]
+        );
+        const sentTransactionId = Number(transactionInsert.rows[0].id);
+        await client.query(
+            'UPDATE gifts SET sent_credit_transaction_id = $2 WHERE id = $1',
+            [giftId, sentTransactionId]
+        );
+        await postLedgerTransaction(client, 'gift_sent', {
+            reference: `gift:${giftId}`,
+            creditTransactionId: sentTransactionId,
+        }, [
+            debit('reader_liability', normalizedSender, input.amount),
+            credit('gift_liability', null, input.amount),
+        ]);
+
+        let deliveredAs: GiftKind | null = null;
+        if (normalizedRecipient) {
+            const delivery = await deliverGift(client, {
+                id: giftId,
+                sender_address: normalizedSender,
+                kind: input.kind,
+                book_id: input.bookId,
+                chapter_number: input.chapterNumber,
+                amount: input.amount.toString(),
+                sent_credit_transaction_id: sentTransactionId,
+            }, normalizedRecipient, false);
+
+            if ('error' in delivery) {
+                await client.query('ROLLBACK');
+                rolledBack = true;
+                return { status: 'rejected', error: delivery.error };
+            }
+            deliveredAs = delivery.deliveredAs;
+        }
+
+        await client.query('COMMIT');
+        return {
+            status: 'sent',
+            giftId,
+            balance: newBalance.toString(),
+            deductedAmount: input.amount.toString(),
+            deliveredAs,
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Delivers a pending gift code to the redeeming wallet. Recipients who already own the gifted
+ * book or chapter get its value as credits instead.
+ */
+export async function redeemGiftCode(walletAddress: string, codeHash: string): Promise<GiftRedeemResult> {
+    const normalizedWallet = normalizeWalletAddress(walletAddress);
+
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const lookup = await client.query(
+            `SELECT id, sender_address, kind, book_id, chapter_number, amount, status, sent_credit_transaction_id
+             FROM gifts
+             WHERE code_hash = $1
+             FOR UPDATE`,
+            [codeHash]
+        );
+
+        const gift = lookup.rows[0] as (GiftRow & { status: string }) | undefined;
+        const rejection = !gift
+            ? { notFound: true, error: 'Gift code not found' }
+            : gift.status !== 'pending'
+                ? { error: 'This gift code has already been redeemed' }
+                : isSameAddress(gift.sender_address, normalizedWallet)
+                    ? { error: 'You cannot redeem your own gift' }
+                    : null;
+        if (!gift || rejection) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'rejected', ...(rejection ?? { error: 'Gift code not found' }) };
+        }
+
+        await ensureReaderAccount(client, normalizedWallet);
+        const delivery = await deliverGift(client, gift, normalizedWallet, true);
+        if ('error' in delivery) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'rejected', error: delivery.error };
+        }
+
+        await client.query('COMMIT');
+        return {
+            status: 'redeemed',
+            giftId: Number(gift.id),
+            kind: gift.kind,
+            deliveredAs: delivery.deliveredAs,
+            bookId: gift.book_id === null ? null : Number(gift.book_id),
+            chapterNumber: gift.chapter_number === null ? null : Number(gift.chapter_number),
+            amount: String(gift.amount),
+            balance: delivery.balance.toString(),
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Approves an open dispute: refunds the disputed page or chapter charge to the reader, removes the
+ * unlock it bought, releases any promotion redemption and reverses its revenue. Author revenue still
+ * waiting for payout is cancelled; revenue already claimed by a settlement batch becomes a clawback
+ * against the next one.
+ */
+export async function refundDisputedCharge(
+    disputeId: number,
+    resolvedBy: string,
+    resolutionNote: string | null
+): Promise<DisputeRefundResult> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const disputeLookup = await client.query(
+            `SELECT d.status, d.amount, ct.id AS transaction_id, ct.wallet_address, ct.book_id,
+                    ct.page_number, ct.chapter_number, ct.metadata->>'source' AS source
+             FROM credit_disputes d
+             JOIN credit_transactions ct ON ct.id = d.credit_transaction_id
+             WHERE d.id = $1
+             FOR UPDATE OF d`,
+            [disputeId]
+        );
+        const dispute = disputeLookup.rows[0];
+        if (!dispute || dispute.status !== 'open') {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return dispute
+                ? { status: 'rejected', error: 'This dispute has already been resolved' }
+                : { status: 'rejected', notFound: true, error: 'Dispute not found' };
+        }
+
+        const walletAddress = String(dispute.wallet_address);
+        const transactionId = Number(dispute.transaction_id);
+        const amount = BigInt(dispute.amount);
+
+        const accountQuery = await client.query(
+            `SELECT credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = $1
+             FOR UPDATE`,
+            [walletAddress]
+        );
+        const newBalance = BigInt(String(accountQuery.rows[0]?.credit_balance ?? '0')) + amount;
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 total_spent = GREATEST(total_spent - $3, 0),
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [walletAddress, newBalance.toString(), amount.toString()]
+        );
+
+        const refundInsert = await client.query(
+            `INSERT INTO credit_transactions
+                (wallet_address, tx_type, amount, balance_after, book_id, page_number, chapter_number, reference_id, metadata)
+             VALUES
+                ($1, 'refund', $2, $3, $4, $5, $6, $7, $8::jsonb)
+             RETURNING id`,
+            [
+                walletAddress,
+                amount.toString(),
+                newBalance.toString(),
+                dispute.book_id,
+                dispute.page_number,
+                dispute.chapter_number,
+                `dispute:${disputeId}`,
+                JSON.stringify({
+                    source: 'dispute',
+                    disputeId,
+                    refundedTransactionId: transactionId,
+                }),
+            ]
+        );
+        const refundTransactionId = Number(refundInsert.rows[0].id);
+
+        await client.query(
+            dispute.source === 'chapter_unlock'
+                ? 'DELETE FROM reader_chapter_unlocks WHERE credit_transaction_id = $1'
+                : 'DELETE FROM reader_page_unlocks WHERE credit_transaction_id = $1',
+            [transactionId]
+        );
+        await releasePromotionRedemption(client, transactionId);
+
+        const revenueEvents = await client.query(
+            `SELECT id, author_address, amount, settlement_status
+             FROM author_revenue_events
+             WHERE credit_transaction_id = $1 AND refunded_at IS NULL
+             FOR UPDATE`,
+            [transactionId]
+        );
+        let clawbackAmount = BigInt(0);
+        const refundLines: LedgerLine[] = [credit('reader_liability', walletAddress, amount)];
+        for (const event of revenueEvents.rows) {
+            const unclaimed = event.settlement_status === 'pending';
+            refundLines.push(debit('author_payable', String(event.author_address), BigInt(event.amount)));
+            await client.query(
+                `UPDATE author_revenue_events
+                 SET refunded_at = NOW(),
+                     settlement_status = CASE WHEN $2 THEN 'refunded' ELSE settlement_status END
+                 WHERE id = $1`,
+                [event.id, unclaimed]
+            );
+            if (!unclaimed && BigInt(event.amount) > BigInt(0)) {
+                await client.query(
+                    `INSERT INTO author_revenue_clawbacks (author_address, revenue_event_id, dispute_id, amount)
+                     VALUES ($1, $2, $3, $4)`,
+                    [event.author_address, event.id, disputeId, String(event.amount)]
+                );
+                clawbackAmount += BigInt(event.amount);
+            }
+        }
+
+        const platformRefund = await client.query(
+            `UPDATE platform_revenue_events
+             SET refunded_at = NOW()
+             WHERE credit_transaction_id = $1 AND refunded_at IS NULL
+             RETURNING amount`,
+            [transactionId]
+        );
+        for (const event of platformRefund.rows) {
+            refundLines.push(debit('platform_revenue', null, BigInt(event.amount)));
+        }
+        await postLedgerTransaction(client, 'dispute_refund', {
+            reference: `dispute:${disputeId}`,
+            creditTransactionId: refundTransactionId,
+        }, refundLines);
+
+        await client.query(
+            `UPDATE credit_disputes
+             SET status = 'approved',
+                 resolution_note = $2,
+                 resolved_by = $3,
+                 refund_credit_transaction_id = $4,
+                 resolved_at = NOW()
+             WHERE id = $1`,
+            [disputeId, resolutionNote, resolvedBy, refundTransactionId]
+        );
+
+        await client.query('COMMIT');
+        return {
+            status: 'refunded',
+            refundedAmount: amount.toString(),
+            balance: newBalance.toString(),
+            clawbackAmount: clawbackAmount.toString(),
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Opens a withdrawal of unused credit back to the reader's wallet. The amount leaves the balance
+ * right away as a `withdrawal_hold`; the treasury transfer is broadcast by the withdrawal worker.
+ */
+export async function holdCreditsForWithdrawal(walletAddress: string, amount: bigint): Promise<WithdrawalHoldResult> {
+    const normalizedWallet = normalizeWalletAddress(walletAddress);
+
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        await ensureReaderAccount(client, normalizedWallet);
+
+        const accountQuery = await client.query(
+            `SELECT credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = $1
+             FOR UPDATE`,
+            [normalizedWallet]
+        );
+        const currentBalance = BigInt(String(accountQuery.rows[0].credit_balance ?? '0'));
+        if (currentBalance < amount) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return {
+                status: 'rejected',
+                error: 'Insufficient credit balance',
+                balance: currentBalance.toString(),
+            };
+        }
+
+        const newBalance = currentBalance - amount;
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [normalizedWallet, newBalance.toString()]
+        );
+
+        const withdrawalInsert = await client.query(
+            `INSERT INTO credit_withdrawals (wallet_address, amount)
+             VALUES ($1, $2)
+             RETURNING id`,
+            [normalizedWallet, amount.toString()]
+        );
+        const withdrawalId = Number(withdrawalInsert.rows[0].id);
+
+        const transactionInsert = await client.query(
+            `INSERT INTO credit_transactions
+                (wallet_address, tx_type, amount, balance_after, reference_id, metadata)
+             VALUES
+                ($1, 'withdrawal_hold', $2, $3, $4, $5::jsonb)
+             RETURNING id`,
+            [
+                normalizedWallet,
+                (-amount).toString(),
+                newBalance.toString(),
+                `withdrawal:${withdrawalId}`,
+                JSON.stringify({ source: 'withdrawal', withdrawalId }),
+            ]
+        );
+        const holdTransactionId = Number(transactionInsert.rows[0].id);
+        await client.query(
+            'UPDATE credit_withdrawals SET hold_credit_transaction_id = $2 WHERE id = $1',
+            [withdrawalId, holdTransactionId]
+        );
+        await postLedgerTransaction(client, 'withdrawal_hold', {
+            reference: `withdrawal:${withdrawalId}`,
+            creditTransactionId: holdTransactionId,
+        }, [
+            debit('reader_liability', normalizedWallet, amount),
+            credit('withdrawal_payable', null, amount),
+        ]);
+
+        await client.query('COMMIT');
+        return {
+            status: 'held',
+            withdrawalId,
+            amount: amount.toString(),
+            balance: newBalance.toString(),
+        };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Marks a pending or broadcasted withdrawal as failed and returns its hold to the reader as a
+ * `withdrawal_release`. Returns false when the withdrawal had already been settled either way.
+ */
+export async function releaseWithdrawalHold(withdrawalId: number, reason: string): Promise<boolean> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const lookup = await client.query(
+            `SELECT wallet_address, amount
+             FROM credit_withdrawals
+             WHERE id = $1 AND status IN ('pending', 'broadcasted')
+             FOR UPDATE`,
+            [withdrawalId]
+        );
+        const withdrawal = lookup.rows[0];
+        if (!withdrawal) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return false;
+        }
+
+        const walletAddress = String(withdrawal.wallet_address);
+        const amount = BigInt(withdrawal.amount);
+        const accountQuery = await client.query(
+            `SELECT credit_balance
+             FROM reader_accounts
+             WHERE wallet_address = $1
+             FOR UPDATE`,
+            [walletAddress]
+        );
+        const newBalance = BigInt(String(accountQuery.rows[0]?.credit_balance ?? '0')) + amount;
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [walletAddress, newBalance.toString()]
+        );
+
+        const transactionInsert = await client.query(
+            `INSERT INTO credit_transactions
+                (wallet_address, tx_type, amount, balance_after, reference_id, metadata)
+             VALUES
+                ($1, 'withdrawal_release', $2, $3, $4, $5::jsonb)
+             RETURNING id`,
+            [
+                walletAddress,
+                amount.toString(),
+                newBalance.toString(),
+                `withdrawal:${withdrawalId}`,
+                JSON.stringify({ source: 'withdrawal', withdrawalId, reason }),
+            ]
+        );
+
+        const releaseTransactionId = Number(transactionInsert.rows[0].id);
+        await postLedgerTransaction(client, 'withdrawal_release', {
+            reference: `withdrawal:${withdrawalId}`,
+            creditTransactionId: releaseTransactionId,
+        }, [
+            debit('withdrawal_payable', null, amount),
+            credit('reader_liability', walletAddress, amount),
+        ]);
+
+        await client.query(
+            `UPDATE credit_withdrawals
+             SET status = 'failed',
+                 release_credit_transaction_id = $2,
+                 last_error = $3,
+                 failed_at = NOW()
+             WHERE id = $1`,
+            [withdrawalId, releaseTransactionId, reason]
+        );
+
+        await client.query('COMMIT');
+        return true;
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+export async function reconcilePendingDepositIntents(limit = 25): Promise<void> {
+    const pendingIntents = await pool.query(
+        `SELECT id, wallet_address, tx_hash
+         FROM credit_deposit_intents
+         WHERE status IN ('pending', 'expired')
+           AND tx_hash IS NOT NULL
+         ORDER BY created_at ASC
+         LIMIT $1`,
+        [limit]
+    );
+
+    for (const row of pendingIntents.rows) {
+        const intent = row as {
+            id: string;
+            wallet_address: string;
+            tx_hash: string;
+        };
+        try {
+            await settleDepositIntent(intent.wallet_address, intent.id, intent.tx_hash);
+        } catch (error) {
+            console.error('Failed to reconcile pending deposit intent:', error);
+        }
+    }
+}
+
+export async function settleAuthorRevenueBatch(limit = 500): Promise<{ eventCount: number; totalAmount: bigint }> {
+    return settleAuthorPayoutBatch(limit);
+}
+
+export async function getPlatformRevenueSummary(): Promise<PlatformRevenueSummary> {
+    const summary = await pool.query(
+        `SELECT
+            COALESCE(SUM(CASE WHEN settled = FALSE AND refunded_at IS NULL THEN amount ELSE 0 END), 0) AS pending_amount,
+            COALESCE(SUM(CASE WHEN settled = TRUE AND refunded_at IS NULL THEN amount ELSE 0 END), 0) AS settled_amount,
+            COALESCE(SUM(CASE WHEN refunded_at IS NOT NULL THEN amount ELSE 0 END), 0) AS refunded_amount,
+            COUNT(*) FILTER (WHERE settled = FALSE AND refunded_at IS NULL) AS pending_events,
+            COUNT(*) AS total_events
+         FROM platform_revenue_events`
+    );
+
+    const row = summary.rows[0] as {
+        pending_amount: string | number;
+        settled_amount: string | number;
+        refunded_amount: string | number;
+        pending_events: string | number;
+        total_events: string | number;
+    };
+
+    const pendingAmount = BigInt(String(row?.pending_amount ?? '0'));
+    const settledAmount = BigInt(String(row?.settled_amount ?? '0'));
+
+    return {
+        feeBps: (await getEffectivePlatformFee(null)).feeBps,
+        pendingAmount: pendingAmount.toString(),
+        settledAmount: settledAmount.toString(),
+        totalAmount: (pendingAmount + settledAmount).toString(),
+        refundedAmount: String(row?.refunded_amount ?? '0'),
+        pendingEvents: Number(row?.pending_events ?? 0),
+        totalEvents: Number(row?.total_events ?? 0),
+    };
+}
+
+export function getDefaultTopUpAmount(requiredAmount: bigint): bigint {
+    return requiredAmount > DEFAULT_TOP_UP_AMOUNT ? requiredAmount : DEFAULT_TOP_UP_AMOUNT;
+}
+
+export function getCreditFundingOptions(requiredAmount: bigint = BigInt(0)): CreditFundingOptions {
+    return {
+        recipient: TREASURY_ADDRESS,
+        network: toCaip2Network(STACKS_NETWORK),
+        suggestedAmount: getDefaultTopUpAmount(requiredAmount).toString(),
+    };
+}
+
+/** Discount details stored on the deduction; the transaction amount is already the discounted price. */
+function discountMetadata(discount: AppliedDiscount | null): Record<string, unknown> {
+    if (!discount) {
+        return {};
+    }
+    return {
+        listPrice: discount.listPrice.toString(),
+        discount: {
+            promotionId: discount.promotionId,
+            code: discount.code,
+            percentOff: discount.percentOff,
+            amount: discount.discountAmount.toString(),
+        },
+    };
+}
+
+function insufficientCreditResult(requiredAmount: bigint, balance: bigint, shortfall: bigint): CreditAccessInsufficient {
+    const suggestedTopUpAmount = getDefaultTopUpAmount(shortfall);
+    return {
+        status: 'insufficient',
+        balance: balance.toString(),
         requiredAmount: requiredAmount.toString(),
         shortfall: shortfall.toString(),
         recipient: TREASURY_ADDRESS,
@@ -799,6 +2102,286 @@ function insufficientCreditResult(requiredAmount: bigint, balance: bigint, short
     };
 }
 
+async function hasBookEntitlement(
+    client: PoolClient,
+    walletAddress: string,
+    bookId: number,
+    chapterNumber: number | null
+): Promise<boolean> {
+    const result = await client.query(
+        `SELECT id
+         FROM reader_book_entitlements
+         WHERE wallet_address = $1
+           AND book_id = $2
+           AND (scope = 'book' OR ($3::integer IS NOT NULL AND $3 = ANY(chapter_numbers)))
+         LIMIT 1`,
+        [walletAddress, bookId, chapterNumber]
+    );
+
+    return result.rows.length > 0;
+}
+
+/**
+ * Page unlocks count when their page sits in one of `chapterNumbers` today. Earlier bundles only
+ * count toward the whole book, and legacy page payments only when they name a covered chapter.
+ */
+async function sumReaderBookSpend(
+    client: Pool | PoolClient,
+    walletAddress: string,
+    bookId: number,
+    chapterNumbers: number[] | null
+): Promise<bigint> {
+    const result = await client.query(
+        `SELECT
+            COALESCE((
+                SELECT SUM(u.amount)
+                FROM reader_page_unlocks u
+                LEFT JOIN pages p ON p.book_id = u.book_id AND p.page_number = u.page_number
+                WHERE u.wallet_address = $1
+                  AND u.book_id = $2
+                  AND ($3::integer[] IS NULL OR p.chapter_number = ANY($3))
+            ), 0)
+            + COALESCE((
+                SELECT SUM(amount)
+                FROM reader_chapter_unlocks
+                WHERE wallet_address = $1
+                  AND book_id = $2
+                  AND ($3::integer[] IS NULL OR chapter_number = ANY($3))
+            ), 0)
+            + COALESCE((
+                SELECT SUM(amount)
+                FROM reader_book_entitlements
+                WHERE wallet_address = $1 AND book_id = $2 AND $3::integer[] IS NULL
+            ), 0)
+            + COALESCE((
+                SELECT SUM(amount)
+                FROM payment_logs
+                WHERE reader_address = $1
+                  AND book_id = $2
+                  AND ($3::integer[] IS NULL OR chapter_number = ANY($3))
+            ), 0) AS spent`,
+        [walletAddress, bookId, chapterNumbers]
+    );
+
+    return BigInt(String(result.rows[0]?.spent ?? '0'));
+}
+
+/**
+ * Hands a gift to `recipient` inside the caller's transaction and writes the `gift_received`
+ * side. Gifts the recipient cannot use (already owned, their own book, or the book is gone) are
+ * refused, or turned into credits when `convertIfOwned` is set.
+ */
+async function deliverGift(
+    client: PoolClient,
+    gift: GiftRow,
+    recipient: string,
+    convertIfOwned: boolean
+): Promise<{ deliveredAs: GiftKind; balance: bigint } | { error: string }> {
+    const amount = BigInt(gift.amount);
+    const bookId = gift.book_id === null ? null : Number(gift.book_id);
+    const chapterNumber = gift.chapter_number === null ? null : Number(gift.chapter_number);
+    let deliveredAs: GiftKind = gift.kind;
+    let authorAddress = '';
+
+    if (gift.kind !== 'credits') {
+        const bookLookup = bookId === null
+            ? null
+            : await client.query('SELECT author_address FROM books WHERE id = $1', [bookId]);
+        authorAddress = String(bookLookup?.rows[0]?.author_address ?? '');
+
+        let owned = !authorAddress || isSameAddress(authorAddress, recipient);
+        if (!owned && gift.kind === 'book') {
+            const entitlement = await client.query(
+                `SELECT 1 FROM reader_book_entitlements
+                 WHERE wallet_address = $1 AND book_id = $2 AND scope = 'book'`,
+                [recipient, bookId]
+            );
+            owned = entitlement.rows.length > 0;
+        } else if (!owned && chapterNumber !== null) {
+            const unlock = await client.query(
+                `SELECT 1 FROM reader_chapter_unlocks
+                 WHERE wallet_address = $1 AND book_id = $2 AND chapter_number = $3`,
+                [recipient, bookId, chapterNumber]
+            );
+            owned = unlock.rows.length > 0
+                || await hasBookEntitlement(client, recipient, bookId as number, chapterNumber);
+        }
+
+        if (owned) {
+            if (!convertIfOwned) {
+                return { error: 'The recipient already has access to this' };
+            }
+            deliveredAs = 'credits';
+        }
+    }
+
+    const accountQuery = await client.query(
+        `SELECT credit_balance
+         FROM reader_accounts
+         WHERE wallet_address = $1
+         FOR UPDATE`,
+        [recipient]
+    );
+    const currentBalance = BigInt(String(accountQuery.rows[0].credit_balance ?? '0'));
+    const credited = deliveredAs === 'credits' ? amount : BigInt(0);
+    const newBalance = currentBalance + credited;
+
+    if (credited > BigInt(0)) {
+        await client.query(
+            `UPDATE reader_accounts
+             SET credit_balance = $2,
+                 updated_at = NOW()
+             WHERE wallet_address = $1`,
+            [recipient, newBalance.toString()]
+        );
+    }
+
+    const transactionInsert = await client.query(
+        `INSERT INTO credit_transactions
+            (wallet_address, tx_type, amount, balance_after, book_id, chapter_number, reference_id, metadata)
+         VALUES
+            ($1, 'gift_received', $2, $3, $4, $5, $6, $7::jsonb)
+         RETURNING id`,
+        [
+            recipient,
+            credited.toString(),
+            newBalance.toString(),
+            bookId,
+            chapterNumber,
+            `gift:${gift.id}`,
+            JSON.stringify({
+                source: 'gift',
+                giftId: Number(gift.id),
+                kind: gift.kind,
+                deliveredAs,
+                sender: gift.sender_address,
+                value: amount.toString(),
+            }),
+        ]
+    );
+    const receivedTransactionId = Number(transactionInsert.rows[0].id);
+
+    if (deliveredAs === 'book') {
+        await client.query(
+            `INSERT INTO reader_book_entitlements
+                (wallet_address, book_id, scope, list_price, amount, credit_transaction_id)
+             VALUES ($1, $2, 'book', $3, $3, $4)`,
+            [recipient, bookId, amount.toString(), receivedTransactionId]
+        );
+    } else if (deliveredAs === 'chapter') {
+        await client.query(
+            `INSERT INTO reader_chapter_unlocks
+                (wallet_address, book_id, chapter_number, amount, credit_transaction_id)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [recipient, bookId, chapterNumber, amount.toString(), receivedTransactionId]
+        );
+    }
+
+    const deliveryLines: LedgerLine[] = [
+        debit('gift_liability', null, amount),
+        credit('reader_liability', recipient, credited),
+    ];
+    if (deliveredAs !== 'credits') {
+        const split = splitRevenueAmount(amount, await resolvePlatformFee(client, bookId));
+        deliveryLines.push(...await insertAuthorRevenueEvents(client, {
+            bookId: bookId as number,
+            ownerAddress: authorAddress,
+            readerAddress: recipient,
+            pageNumber: null,
+            chapterNumber,
+            amount: split.authorShare,
+            creditTransactionId: gift.sent_credit_transaction_id,
+        }));
+        deliveryLines.push(credit('platform_revenue', null, split.platformFee));
+
+        // A 0% schedule still gets a zero-amount event so the applied rate is on record.
+        if (split.platformFee > BigInt(0) || split.feeScheduleId !== null) {
+            await client.query(
+                `INSERT INTO platform_revenue_events
+                    (reader_address, book_id, chapter_number, amount, gross_amount, author_amount, credit_transaction_id,
+                     fee_schedule_id)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                [
+                    recipient,
+                    bookId,
+                    chapterNumber,
+                    split.platformFee.toString(),
+                    amount.toString(),
+                    split.authorShare.toString(),
+                    gift.sent_credit_transaction_id,
+                    split.feeScheduleId,
+                ]
+            );
+        }
+    }
+
+    await postLedgerTransaction(client, 'gift_delivered', {
+        reference: `gift:${gift.id}`,
+        creditTransactionId: receivedTransactionId,
+    }, deliveryLines);
+
+    await client.query(
+        `UPDATE gifts
+         SET recipient_address = $2,
+             status = 'delivered',
+             delivered_as = $3,
+             received_credit_transaction_id = $4,
+             delivered_at = NOW()
+         WHERE id = $1`,
+        [gift.id, recipient, deliveredAs, receivedTransactionId]
+    );
+
+    return { deliveredAs, balance: newBalance };
+}
+
+/**
+ * Records the author share of a charge, one event per payee of the book's current revenue split,
+ * so settlement pays every contributor directly. Returns the matching `author_payable` ledger credits.
+ */
+async function insertAuthorRevenueEvents(client: PoolClient, input: AuthorRevenueInput): Promise<LedgerLine[]> {
+    if (input.amount <= BigInt(0)) {
+        return [];
+    }
+
+    const lines: LedgerLine[] = [];
+    const split = await loadActiveRevenueSplit(client, input.bookId, input.ownerAddress);
+    for (const part of allocateRevenueSplit(input.amount, split.shares, input.ownerAddress)) {
+        if (part.amount <= BigInt(0)) {
+            continue;
+        }
+        await client.query(
+            `INSERT INTO author_revenue_events
+                (author_address, reader_address, book_id, page_number, chapter_number, amount,
+                 credit_transaction_id, split_version_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [
+                part.payeeAddress,
+                input.readerAddress,
+                input.bookId,
+                input.pageNumber,
+                input.chapterNumber,
+                part.amount.toString(),
+                input.creditTransactionId,
+                split.versionId,
+            ]
+        );
+        lines.push(credit('author_payable', part.payeeAddress, part.amount));
+    }
+    return lines;
+}
+
+async function findActiveSubscriptionId(client: PoolClient, walletAddress: string): Promise<number | null> {
+    const result = await client.query(
+        `SELECT id
+         FROM reader_subscriptions
+         WHERE wallet_address = $1 AND starts_at <= NOW() AND ends_at > NOW()
+         ORDER BY ends_at DESC
+         LIMIT 1`,
+        [walletAddress]
+    );
+    return result.rows.length > 0 ? Number(result.rows[0].id) : null;
+}
+
 async function hasLegacyPageEntitlement(
     client: PoolClient,
     walletAddress: string,
@@ -1033,32 +2616,24 @@ function toNumberSafe(value: string | undefined, fallback: number): number {
     return parsed;
 }
 
-function toBpsSafe(value: string | undefined, fallback: number): number {
-    if (!value) {
-        return fallback;
-    }
-
-    const parsed = Number.parseInt(value, 10);
-    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 10_000) {
-        return fallback;
-    }
-
-    return parsed;
-}
-
-function splitRevenueAmount(grossAmount: bigint): { authorShare: bigint; platformFee: bigint } {
+function splitRevenueAmount(
+    grossAmount: bigint,
+    fee: AppliedPlatformFee
+): { authorShare: bigint; platformFee: bigint; feeScheduleId: number | null } {
     if (grossAmount <= BigInt(0)) {
         return {
             authorShare: BigInt(0),
             platformFee: BigInt(0),
+            feeScheduleId: fee.scheduleId,
         };
     }
 
-    const platformFee = (grossAmount * BigInt(PLATFORM_FEE_BPS)) / BPS_DENOMINATOR;
+    const platformFee = (grossAmount * BigInt(fee.feeBps)) / BPS_DENOMINATOR;
     const authorShare = grossAmount - platformFee;
 
     return {
         authorShare,
         platformFee,
+        feeScheduleId: fee.scheduleId,
     };
 }
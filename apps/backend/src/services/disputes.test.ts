@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, insertBook } from '../test/fixtures';
+import { reconcileAuthorSettlementBatches, settleAuthorPayoutBatch } from './author-payouts';
+import { chargeCreditsForPage, getReaderCreditBalance, refundDisputedCharge } from './credits';
+import { fileCreditDispute } from './disputes';
+import { runLedgerInvariantCheck } from './ledger';
+
+// Treasury payouts need a signing key whose address matches; nothing is broadcast for real.
+vi.hoisted(() => {
+    process.env.STACKPAD_TREASURY_ADDRESS = 'STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T';
+    process.env.STACKPAD_TREASURY_PRIVATE_KEY = 'f699b57e4035a4e42835807953361a7572328c5e868f0babc5f41f384a32db79';
+    process.env.AUTHOR_PAYOUT_FEE_MICROSTX = '180';
+});
+
+const chain = vi.hoisted(() => ({
+    broadcasts: [] as string[],
+}));
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+vi.mock('@stacks/transactions', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@stacks/transactions')>(),
+    broadcastTransaction: vi.fn(async () => {
+        const txid = `0x${String(chain.broadcasts.length + 1).padStart(64, '0')}`;
+        chain.broadcasts.push(txid);
+        return { txid };
+    }),
+}));
+vi.mock('./stacks', () => ({
+    accountsApi: { getAccountNonces: vi.fn(async () => ({ possible_next_nonce: 0 })) },
+    transactionsApi: { getTransactionById: vi.fn(async () => ({ tx_status: 'success' })) },
+}));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(async () => {
+    await resetTestDatabase();
+    chain.broadcasts.length = 0;
+});
+
+const PAGE_PRICE = BigInt(1000);
+// The default 1% platform fee leaves the author 990 of every 1000 page charge.
+const AUTHOR_SHARE = '990';
+
+async function unlockPage(bookId: number, pageNumber: number): Promise<void> {
+    const result = await chargeCreditsForPage({
+        walletAddress: READER,
+        bookId,
+        pageNumber,
+        chapterNumber: 1,
+        pagePrice: PAGE_PRICE,
+        authorAddress: AUTHOR,
+    });
+    expect(result.status).toBe('granted');
+}
+
+async function disputeAndRefund(bookId: number, pageNumber: number) {
+    const filed = await fileCreditDispute(READER, { bookId, pageNumber, chapterNumber: null }, 'Page was blank');
+    if (!filed.valid) {
+        throw new Error(filed.error);
+    }
+    return refundDisputedCharge(filed.dispute.id, 'admin', null);
+}
+
+/** Runs a settlement pass and confirms its transfers on the mocked chain. */
+async function settleAndConfirm(): Promise<void> {
+    await settleAuthorPayoutBatch();
+    await reconcileAuthorSettlementBatches();
+}
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('refundDisputedCharge', () => {
+    let bookId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook();
+        await depositCredits(READER, BigInt(10_000));
+    });
+
+    it('cancels unsettled author revenue when the charge is refunded before settlement', async () => {
+        await unlockPage(bookId, 2);
+
+        const result = await disputeAndRefund(bookId, 2);
+
+        expect(result).toMatchObject({ status: 'refunded', refundedAmount: '1000', clawbackAmount: '0' });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(10_000));
+
+        const events = await testPool.query(
+            'SELECT settlement_status, refunded_at IS NOT NULL AS refunded FROM author_revenue_events'
+        );
+        expect(events.rows).toEqual([{ settlement_status: 'refunded', refunded: true }]);
+        const unlocks = await testPool.query('SELECT id FROM reader_page_unlocks');
+        expect(unlocks.rows).toEqual([]);
+        const clawbacks = await testPool.query('SELECT id FROM author_revenue_clawbacks');
+        expect(clawbacks.rows).toEqual([]);
+
+        await settleAndConfirm();
+        expect(chain.broadcasts).toEqual([]);
+        await expectLedgerConsistent();
+    });
+
+    it('gives a refunded discounted unlock back to the promotion\'s caps', async () => {
+        const promotion = await testPool.query(
+            `INSERT INTO promotions (author_address, book_id, title, percent_off, max_redemptions, per_wallet_limit)
+             VALUES ($1, $2, 'Launch', 50, 1, 1)
+             RETURNING id`,
+            [AUTHOR, bookId]
+        );
+        await unlockPage(bookId, 2);
+
+        const result = await disputeAndRefund(bookId, 2);
+
+        expect(result).toMatchObject({ status: 'refunded', refundedAmount: '500' });
+        const promotions = await testPool.query(
+            'SELECT redemption_count FROM promotions WHERE id = $1',
+            [promotion.rows[0].id]
+        );
+        expect(promotions.rows).toEqual([{ redemption_count: 0 }]);
+        const redemptions = await testPool.query('SELECT id FROM promotion_redemptions');
+        expect(redemptions.rows).toEqual([]);
+
+        const next = await chargeCreditsForPage({
+            walletAddress: READER,
+            bookId,
+            pageNumber: 3,
+            chapterNumber: 1,
+            pagePrice: PAGE_PRICE,
+            authorAddress: AUTHOR,
+        });
+        expect(next).toMatchObject({ status: 'granted', deductedAmount: '500' });
+        await expectLedgerConsistent();
+    });
+
+    it('creates a clawback when the refunded revenue was already paid out', async () => {
+        await unlockPage(bookId, 2);
+        await settleAndConfirm();
+        expect(chain.broadcasts).toHaveLength(1);
+
+        const result = await disputeAndRefund(bookId, 2);
+
+        expect(result).toMatchObject({ status: 'refunded', refundedAmount: '1000', clawbackAmount: AUTHOR_SHARE });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(10_000));
+
+        const events = await testPool.query(
+            'SELECT settlement_status, refunded_at IS NOT NULL AS refunded FROM author_revenue_events'
+        );
+        expect(events.rows).toEqual([{ settlement_status: 'settled', refunded: true }]);
+        const clawbacks = await testPool.query(
+            'SELECT author_address, amount, status, settlement_batch_id FROM author_revenue_clawbacks'
+        );
+        expect(clawbacks.rows).toEqual([
+            { author_address: AUTHOR, amount: AUTHOR_SHARE, status: 'pending', settlement_batch_id: null },
+        ]);
+        await expectLedgerConsistent();
+    });
+
+    it('offsets a pending clawback against the author\'s next batch', async () => {
+        await unlockPage(bookId, 2);
+        await settleAndConfirm();
+        await disputeAndRefund(bookId, 2);
+
+        await unlockPage(bookId, 3);
+        await unlockPage(bookId, 4);
+        await settleAndConfirm();
+
+        const batches = await testPool.query(
+            `SELECT id, total_amount, clawback_amount, event_count, status
+             FROM author_settlement_batches
+             ORDER BY id`
+        );
+        expect(batches.rows).toHaveLength(2);
+        expect(batches.rows[1]).toMatchObject({
+            total_amount: AUTHOR_SHARE,
+            clawback_amount: AUTHOR_SHARE,
+            event_count: 2,
+            status: 'confirmed',
+        });
+        expect(chain.broadcasts).toHaveLength(2);
+
+        const clawbacks = await testPool.query('SELECT status, settlement_batch_id FROM author_revenue_clawbacks');
+        expect(clawbacks.rows).toEqual([{ status: 'applied', settlement_batch_id: batches.rows[1].id }]);
+        await expectLedgerConsistent();
+    });
+
+    it('settles a batch fully offset by clawbacks without a transfer', async () => {
+        await unlockPage(bookId, 2);
+        await settleAndConfirm();
+        await disputeAndRefund(bookId, 2);
+
+        await unlockPage(bookId, 3);
+        await settleAndConfirm();
+
+        const batches = await testPool.query(
+            'SELECT total_amount, clawback_amount, status FROM author_settlement_batches ORDER BY id'
+        );
+        expect(batches.rows[1]).toEqual({ total_amount: '0', clawback_amount: AUTHOR_SHARE, status: 'confirmed' });
+        expect(chain.broadcasts).toHaveLength(1);
+        await expectLedgerConsistent();
+    });
+});
@@ -0,0 +1,233 @@
+import pool from '../db/client';
+
+const MAX_DISPUTE_REASON_LENGTH = 2000;
+const DISPUTABLE_SOURCES = ['page_unlock', 'chapter_unlock'];
+const DISPUTE_SELECT = `SELECT d.id, d.wallet_address, d.credit_transaction_id, d.book_id, b.title AS book_title,
+        d.page_number, d.chapter_number, d.amount, d.reason, d.status, d.resolution_note,
+        d.created_at, d.resolved_at
+    FROM credit_disputes d
+    LEFT JOIN books b ON b.id = d.book_id`;
+
+export type DisputeStatus = 'open' | 'approved' | 'denied';
+
+export interface CreditDispute {
+    id: number;
+    walletAddress: string;
+    creditTransactionId: number;
+    bookId: number | null;
+    bookTitle: string | null;
+    pageNumber: number | null;
+    chapterNumber: number | null;
+    amount: string;
+    reason: string;
+    status: DisputeStatus;
+    resolutionNote: string | null;
+    createdAt: Date;
+    resolvedAt: Date | null;
+}
+
+export function isDisputeStatus(value: unknown): value is DisputeStatus {
+    return value === 'open' || value === 'approved' || value === 'denied';
+}
+
+/** The charge being disputed: its transaction id, or the page or chapter it unlocked. */
+export type DisputeTarget =
+    | { transactionId: number }
+    | { bookId: number; pageNumber: number | null; chapterNumber: number | null };
+
+/**
+ * Validates `{ reason }` plus either `transactionId` or `bookId` with `pageNumber` or
+ * `chapterNumber`.
+ */
+export function parseDisputeInput(body: unknown): {
+    valid: true;
+    target: DisputeTarget;
+    reason: string;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const reason = typeof source.reason === 'string' ? source.reason.trim() : '';
+    if (!reason || reason.length > MAX_DISPUTE_REASON_LENGTH) {
+        return { valid: false, error: `reason must be 1-${MAX_DISPUTE_REASON_LENGTH} characters` };
+    }
+
+    if (source.transactionId !== undefined) {
+        const transactionId = Number(source.transactionId);
+        if (!Number.isInteger(transactionId) || transactionId < 1) {
+            return { valid: false, error: 'transactionId must be a positive integer' };
+        }
+        return { valid: true, target: { transactionId }, reason };
+    }
+
+    const bookId = Number(source.bookId);
+    const pageNumber = source.pageNumber === undefined ? null : Number(source.pageNumber);
+    const chapterNumber = source.chapterNumber === undefined ? null : Number(source.chapterNumber);
+    if (!Number.isInteger(bookId) || bookId < 1) {
+        return { valid: false, error: 'Provide transactionId, or bookId with pageNumber or chapterNumber' };
+    }
+    if ((pageNumber === null) === (chapterNumber === null)) {
+        return { valid: false, error: 'Provide exactly one of pageNumber or chapterNumber' };
+    }
+    const number = pageNumber ?? chapterNumber;
+    if (!Number.isInteger(number) || (number as number) < 1) {
+        return { valid: false, error: 'pageNumber and chapterNumber must be positive integers' };
+    }
+
+    return { valid: true, target: { bookId, pageNumber, chapterNumber }, reason };
+}
+
+/**
+ * Opens a dispute on one of the reader's own page or chapter charges. Each charge can be
+ * disputed once.
+ */
+export async function fileCreditDispute(walletAddress: string, target: DisputeTarget, reason: string): Promise<{
+    valid: true;
+    dispute: CreditDispute;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const normalizedWallet = walletAddress.trim();
+    const transactionId = await resolveDisputedTransaction(normalizedWallet, target);
+    if (transactionId === null) {
+        return { valid: false, notFound: true, error: 'Charge not found' };
+    }
+
+    const chargeLookup = await pool.query(
+        `SELECT ct.amount, ct.book_id, ct.page_number, ct.chapter_number, ct.metadata->>'source' AS source,
+                EXISTS (SELECT 1 FROM credit_disputes d WHERE d.credit_transaction_id = ct.id) AS disputed
+         FROM credit_transactions ct
+         WHERE ct.id = $1 AND ct.wallet_address = $2 AND ct.tx_type = 'deduction'`,
+        [transactionId, normalizedWallet]
+    );
+    const charge = chargeLookup.rows[0];
+    if (!charge) {
+        return { valid: false, notFound: true, error: 'Charge not found' };
+    }
+    if (!DISPUTABLE_SOURCES.includes(String(charge.source)) || BigInt(charge.amount) >= BigInt(0)) {
+        return { valid: false, error: 'Only page and chapter charges can be disputed' };
+    }
+    if (charge.disputed) {
+        return { valid: false, error: 'This charge has already been disputed' };
+    }
+
+    const insert = await pool.query(
+        `INSERT INTO credit_disputes
+            (wallet_address, credit_transaction_id, book_id, page_number, chapter_number, amount, reason)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (credit_transaction_id) DO NOTHING
+         RETURNING id`,
+        [
+            normalizedWallet,
+            transactionId,
+            charge.book_id,
+            charge.page_number,
+            charge.chapter_number,
+            (-BigInt(charge.amount)).toString(),
+            reason,
+        ]
+    );
+    if (insert.rows.length === 0) {
+        return { valid: false, error: 'This charge has already been disputed' };
+    }
+
+    return { valid: true, dispute: (await getCreditDispute(Number(insert.rows[0].id)))! };
+}
+
+export async function listReaderDisputes(walletAddress: string): Promise<CreditDispute[]> {
+    const result = await pool.query(
+        `${DISPUTE_SELECT}
+         WHERE d.wallet_address = $1
+         ORDER BY d.created_at DESC
+         LIMIT 100`,
+        [walletAddress.trim()]
+    );
+    return result.rows.map(mapDisputeRow);
+}
+
+/** Disputes for ops review, oldest first so the queue is worked in order. */
+export async function listCreditDisputes(status: DisputeStatus | null, limit = 100): Promise<CreditDispute[]> {
+    const result = await pool.query(
+        `${DISPUTE_SELECT}
+         WHERE $1::varchar IS NULL OR d.status = $1
+         ORDER BY d.created_at ASC
+         LIMIT $2`,
+        [status, Math.min(Math.max(limit, 1), 500)]
+    );
+    return result.rows.map(mapDisputeRow);
+}
+
+export async function getCreditDispute(disputeId: number): Promise<CreditDispute | null> {
+    const result = await pool.query(`${DISPUTE_SELECT} WHERE d.id = $1`, [disputeId]);
+    return result.rows.length > 0 ? mapDisputeRow(result.rows[0]) : null;
+}
+
+/** Closes an open dispute without a refund. */
+export async function denyCreditDispute(disputeId: number, resolvedBy: string, note: string | null): Promise<{
+    valid: true;
+    dispute: CreditDispute;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const update = await pool.query(
+        `UPDATE credit_disputes
+         SET status = 'denied',
+             resolution_note = $2,
+             resolved_by = $3,
+             resolved_at = NOW()
+         WHERE id = $1 AND status = 'open'
+         RETURNING id`,
+        [disputeId, note, resolvedBy]
+    );
+    if (update.rows.length === 0) {
+        const existing = await getCreditDispute(disputeId);
+        return existing
+            ? { valid: false, error: 'This dispute has already been resolved' }
+            : { valid: false, notFound: true, error: 'Dispute not found' };
+    }
+
+    return { valid: true, dispute: (await getCreditDispute(disputeId))! };
+}
+
+async function resolveDisputedTransaction(walletAddress: string, target: DisputeTarget): Promise<number | null> {
+    if ('transactionId' in target) {
+        return target.transactionId;
+    }
+
+    const lookup = target.pageNumber !== null
+        ? await pool.query(
+            `SELECT credit_transaction_id FROM reader_page_unlocks
+             WHERE wallet_address = $1 AND book_id = $2 AND page_number = $3`,
+            [walletAddress, target.bookId, target.pageNumber]
+        )
+        : await pool.query(
+            `SELECT credit_transaction_id FROM reader_chapter_unlocks
+             WHERE wallet_address = $1 AND book_id = $2 AND chapter_number = $3`,
+            [walletAddress, target.bookId, target.chapterNumber]
+        );
+    const transactionId = lookup.rows[0]?.credit_transaction_id;
+    return transactionId === null || transactionId === undefined ? null : Number(transactionId);
+}
+
+function mapDisputeRow(row: Record<string, unknown>): CreditDispute {
+    return {
+        id: Number(row.id),
+        walletAddress: String(row.wallet_address),
+        creditTransactionId: Number(row.credit_transaction_id),
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        bookTitle: row.book_title === null ? null : String(row.book_title),
+        pageNumber: row.page_number === null ? null : Number(row.page_number),
+        chapterNumber: row.chapter_number === null ? null : Number(row.chapter_number),
+        amount: String(row.amount),
+        reason: String(row.reason),
+        status: row.status as DisputeStatus,
+        resolutionNote: row.resolution_note === null ? null : String(row.resolution_note),
+        createdAt: row.created_at as Date,
+        resolvedAt: (row.resolved_at as Date | null) ?? null,
+    };
+}
@@ -0,0 +1,198 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { EpubParseError, parseEpub } from './epub';
+
+const MB = 1024 * 1024;
+
+interface ZipEntry {
+    name: string;
+    data: Buffer;
+    deflate?: boolean;
+    /** Uncompressed size written to the central directory, when it should lie. */
+    declaredSize?: number;
+}
+
+/** Builds a ZIP archive in memory. CRCs are left at zero since the reader does not check them. */
+function buildZip(entries: ZipEntry[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf-8');
+        const body = entry.deflate ? deflateRawSync(entry.data) : entry.data;
+        const uncompressedSize = entry.declaredSize ?? entry.data.length;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(uncompressedSize, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(body.length, 20);
+        central.writeUInt32LE(uncompressedSize, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, body);
+        centrals.push(central, name);
+        offset += local.length + name.length + body.length;
+    }
+
+    const centralDirectory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function text(value: string): Buffer {
+    return Buffer.from(value, 'utf-8');
+}
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+function epubEntries(chapter: string, manifestItems = ''): ZipEntry[] {
+    return [
+        { name: 'mimetype', data: text('application/epub+zip') },
+        {
+            name: 'META-INF/container.xml',
+            data: text('<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>'),
+        },
+        {
+            name: 'OEBPS/content.opf',
+            data: text(`<package>
+                <metadata><dc:title>Fixture</dc:title></metadata>
+                <manifest>
+                    <item id="ch1" href="ch1.xhtml" media-type="application/xhtml+xml"/>
+                    ${manifestItems}
+                </manifest>
+                <spine><itemref idref="ch1"/></spine>
+            </package>`),
+        },
+        { name: 'OEBPS/ch1.xhtml', data: text(chapter), deflate: true },
+    ];
+}
+
+function expectParseError(archive: Buffer, message: string | RegExp): void {
+    expect(() => parseEpub(archive)).toThrow(EpubParseError);
+    expect(() => parseEpub(archive)).toThrow(message);
+}
+
+describe('parseEpub', () => {
+    it('parses a minimal archive', () => {
+        const parsed = parseEpub(buildZip(epubEntries('<html><body><h1>One</h1><p>Hello there.</p></body></html>')));
+
+        expect(parsed.metadata.title).toBe('Fixture');
+        expect(parsed.chapters).toEqual([{ chapterNumber: 1, title: 'One' }]);
+        expect(parsed.pages).toEqual([{ pageNumber: 1, chapterNumber: 1, text: 'One\n\nHello there.', images: [] }]);
+    });
+
+    describe('archive limits', () => {
+        it('rejects an archive with too many entries', () => {
+            const entries = Array.from({ length: 5001 }, (_, index) => ({ name: `f${index}`, data: Buffer.alloc(0) }));
+
+            expectParseError(buildZip(entries), 'EPUB has too many files (max 5000)');
+        });
+
+        it('rejects an entry declared larger than the per-entry cap', () => {
+            const entries = epubEntries('<p>x</p>');
+            entries.push({ name: 'OEBPS/big.bin', data: Buffer.alloc(16), deflate: true, declaredSize: 20 * MB + 1 });
+
+            expectParseError(buildZip(entries), 'EPUB file OEBPS/big.bin is too large');
+        });
+
+        it('rejects a deflate bomb that inflates past its declared size', () => {
+            const entries = epubEntries('<p>x</p>');
+            // About 20 KiB compressed, 21 MiB once inflated, declared as 1 KiB.
+            entries.push({ name: 'OEBPS/bomb.bin', data: Buffer.alloc(21 * MB), deflate: true, declaredSize: 1024 });
+
+            expectParseError(buildZip(entries), 'EPUB archive entry OEBPS/bomb.bin does not match its declared size');
+        });
+
+        it('rejects an entry that inflates to less than its declared size', () => {
+            const entries = epubEntries('<p>x</p>');
+            entries.push({ name: 'OEBPS/short.bin', data: Buffer.alloc(100), deflate: true, declaredSize: 5000 });
+
+            expectParseError(buildZip(entries), 'EPUB archive entry OEBPS/short.bin does not match its declared size');
+        });
+
+        it('rejects an archive whose entries add up past the total cap', () => {
+            // Ten entries fill the 200 MiB budget exactly, so the eleventh byte is over it.
+            const full = Buffer.alloc(20 * MB);
+            const entries = epubEntries('<p>x</p>');
+            for (let index = 0; index < 10; index += 1) {
+                entries.push({ name: `OEBPS/fill${index}.bin`, data: full, deflate: true });
+            }
+            entries.push({ name: 'OEBPS/last.bin', data: Buffer.alloc(1) });
+
+            expectParseError(buildZip(entries), 'EPUB content is too large once uncompressed');
+        });
+
+        it('rejects an entry pointing past the end of the archive', () => {
+            const archive = buildZip(epubEntries('<p>x</p>'));
+            const centralOffset = archive.readUInt32LE(archive.length - 22 + 16);
+            archive.writeUInt32LE(archive.length, centralOffset + 42);
+
+            expectParseError(archive, 'EPUB archive entry mimetype is corrupt');
+        });
+
+        it('rejects a file that is not a ZIP archive', () => {
+            expectParseError(text('<html><body>not a zip</body></html>'), 'File is not a ZIP-based EPUB');
+        });
+    });
+
+    describe('unsafe assets', () => {
+        const manifestItems = `
+            <item id="png" href="images/figure.png" media-type="image/png"/>
+            <item id="svg" href="images/diagram.svg" media-type="image/svg+xml" properties="cover-image"/>
+            <item id="js" href="scripts/app.js" media-type="application/javascript"/>`;
+        const chapter = `<html><head><script src="scripts/app.js"></script></head><body>
+            <p>Before</p>
+            <img src="images/figure.png" alt="Figure"/>
+            <img src="images/diagram.svg" alt="Diagram"/>
+            <script>document.cookie = 'stolen';</script>
+            <p>After</p>
+        </body></html>`;
+
+        function parseWithAssets() {
+            const entries = epubEntries(chapter, manifestItems);
+            entries.push(
+                { name: 'OEBPS/images/figure.png', data: PNG },
+                { name: 'OEBPS/images/diagram.svg', data: text('<svg><script>alert(1)</script></svg>') },
+                { name: 'OEBPS/scripts/app.js', data: text('alert(1)') }
+            );
+            return parseEpub(buildZip(entries));
+        }
+
+        it('keeps raster images and drops SVG and script assets', () => {
+            const parsed = parseWithAssets();
+
+            expect(parsed.assets).toEqual([{ key: 'OEBPS/images/figure.png', mediaType: 'image/png', data: PNG }]);
+            expect(parsed.pages[0].images).toEqual([
+                { assetKey: 'OEBPS/images/figure.png', alt: 'Figure', position: 'Before\n\n'.length },
+            ]);
+        });
+
+        it('does not use an SVG as the cover', () => {
+            expect(parseWithAssets().coverAssetKey).toBeNull();
+        });
+
+        it('leaves inline script out of the page text', () => {
+            const parsed = parseWithAssets();
+
+            expect(parsed.pages.map((page) => page.text).join('\n')).not.toMatch(/cookie|alert/);
+        });
+    });
+});
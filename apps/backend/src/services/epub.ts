@@ -0,0 +1,551 @@
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+
+const CHARS_PER_PAGE = 1500;
+const MAX_ARCHIVE_ENTRIES = 5000;
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024;
+const IMAGE_MARKER_PATTERN = /\u0000IMG:(\d+)\u0000/g;
+
+/** Raster image types kept from an EPUB. SVG is dropped since it can carry script. */
+export const EPUB_IMAGE_MEDIA_TYPES: readonly string[] = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface EpubMetadata {
+    title: string | null;
+    creator: string | null;
+    description: string | null;
+    language: string | null;
+    isbn: string | null;
+    subjects: string[];
+}
+
+export interface EpubImageRef {
+    assetKey: string;
+    alt: string;
+    /** Character offset in the page text where the image appeared. */
+    position: number;
+}
+
+export interface EpubPage {
+    pageNumber: number;
+    chapterNumber: number;
+    text: string;
+    images: EpubImageRef[];
+}
+
+export interface EpubAsset {
+    key: string;
+    mediaType: string;
+    data: Buffer;
+}
+
+export interface ParsedEpub {
+    metadata: EpubMetadata;
+    chapters: Array<{ chapterNumber: number; title: string }>;
+    pages: EpubPage[];
+    assets: EpubAsset[];
+    coverAssetKey: string | null;
+}
+
+export class EpubParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EpubParseError';
+    }
+}
+
+interface ManifestItem {
+    id: string;
+    href: string;
+    mediaType: string;
+    properties: string[];
+}
+
+/**
+ * Parses an EPUB 2/3 archive: reads the OPF spine in order, takes chapter titles
+ * from the nav document (EPUB 3) or NCX (EPUB 2), turns each spine document into
+ * one chapter and paginates its text. Images referenced by the XHTML are returned
+ * as assets with their position inside the page text.
+ */
+export function parseEpub(archive: Buffer): ParsedEpub {
+    const entries = readZipEntries(archive);
+
+    const mimetype = entries.get('mimetype');
+    if (mimetype && mimetype.toString('utf-8').trim() !== 'application/epub+zip') {
+        throw new EpubParseError('File is not an EPUB (unexpected mimetype)');
+    }
+
+    const container = readText(entries, 'META-INF/container.xml');
+    const opfPath = matchAttribute(container.match(/<rootfile\b[^>]*>/i)?.[0] || '', 'full-path');
+    if (!opfPath) {
+        throw new EpubParseError('EPUB container does not reference an OPF package');
+    }
+
+    const opf = readText(entries, opfPath);
+    const opfDir = path.posix.dirname(opfPath);
+    const manifest = parseManifest(opf, opfDir);
+    const spine = parseSpine(opf, manifest);
+    if (spine.length === 0) {
+        throw new EpubParseError('EPUB spine has no readable documents');
+    }
+
+    const metadata = parseMetadata(opf);
+    const tocTitles = parseTocTitles(entries, opf, manifest);
+    const coverAssetKey = findCoverAssetKey(opf, manifest, entries);
+
+    const assetsByKey = new Map<string, EpubAsset>();
+    const imageMediaTypes = new Map(
+        Array.from(manifest.values())
+            .filter((item) => EPUB_IMAGE_MEDIA_TYPES.includes(item.mediaType))
+            .map((item) => [item.href, item.mediaType])
+    );
+
+    const chapters: ParsedEpub['chapters'] = [];
+    const pages: EpubPage[] = [];
+
+    for (const item of spine) {
+        const xhtml = entries.get(item.href)?.toString('utf-8');
+        if (!xhtml) {
+            continue;
+        }
+
+        const images: Array<{ assetKey: string; alt: string }> = [];
+        const text = xhtmlToText(xhtml, (src, alt) => {
+            const assetKey = resolveHref(path.posix.dirname(item.href), src);
+            const mediaType = imageMediaTypes.get(assetKey);
+            const data = entries.get(assetKey);
+            if (!mediaType || !data) {
+                return null;
+            }
+
+            if (!assetsByKey.has(assetKey)) {
+                assetsByKey.set(assetKey, { key: assetKey, mediaType, data });
+            }
+            images.push({ assetKey, alt });
+            return images.length - 1;
+        });
+
+        if (!text.replace(IMAGE_MARKER_PATTERN, '').trim() && images.length === 0) {
+            continue;
+        }
+
+        const chapterNumber = chapters.length + 1;
+        chapters.push({
+            chapterNumber,
+            title: tocTitles.get(item.href) || extractHeading(xhtml) || `Chapter ${chapterNumber}`,
+        });
+
+        for (const chunk of paginate(text)) {
+            pages.push({
+                pageNumber: pages.length + 1,
+                chapterNumber,
+                ...extractImageMarkers(chunk, images),
+            });
+        }
+    }
+
+    if (pages.length === 0) {
+        throw new EpubParseError('EPUB has no readable text');
+    }
+
+    if (coverAssetKey && !assetsByKey.has(coverAssetKey)) {
+        assetsByKey.set(coverAssetKey, {
+            key: coverAssetKey,
+            mediaType: manifestMediaType(manifest, coverAssetKey)!,
+            data: entries.get(coverAssetKey)!,
+        });
+    }
+
+    return {
+        metadata,
+        chapters,
+        pages,
+        assets: Array.from(assetsByKey.values()),
+        coverAssetKey,
+    };
+}
+
+/**
+ * Minimal ZIP reader (stored and deflate entries) built on the central directory,
+ * with entry and total size caps so a crafted archive cannot exhaust memory.
+ */
+function readZipEntries(archive: Buffer): Map<string, Buffer> {
+    const eocdOffset = findEndOfCentralDirectory(archive);
+    const entryCount = archive.readUInt16LE(eocdOffset + 10);
+    let offset = archive.readUInt32LE(eocdOffset + 16);
+
+    if (entryCount > MAX_ARCHIVE_ENTRIES) {
+        throw new EpubParseError(`EPUB has too many files (max ${MAX_ARCHIVE_ENTRIES})`);
+    }
+
+    const entries = new Map<string, Buffer>();
+    let totalBytes = 0;
+
+    for (let index = 0; index < entryCount; index += 1) {
+        if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+            throw new EpubParseError('EPUB archive central directory is corrupt');
+        }
+
+        const method = archive.readUInt16LE(offset + 10);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const uncompressedSize = archive.readUInt32LE(offset + 24);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const localHeaderOffset = archive.readUInt32LE(offset + 42);
+        const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) {
+            continue;
+        }
+
+        if (uncompressedSize > MAX_ENTRY_BYTES) {
+            throw new EpubParseError(`EPUB file ${name} is too large`);
+        }
+
+        // The declared sizes come from the uploader, so the budget is charged with what is
+        // actually inflated and the declared size is only trusted once it matches.
+        const remainingBytes = MAX_TOTAL_BYTES - totalBytes;
+        if (uncompressedSize > remainingBytes) {
+            throw new EpubParseError('EPUB content is too large once uncompressed');
+        }
+
+        if (localHeaderOffset + 30 > archive.length || archive.readUInt32LE(localHeaderOffset) !== 0x04034b50) {
+            throw new EpubParseError(`EPUB archive entry ${name} is corrupt`);
+        }
+
+        const dataStart = localHeaderOffset + 30
+            + archive.readUInt16LE(localHeaderOffset + 26)
+            + archive.readUInt16LE(localHeaderOffset + 28);
+        if (dataStart + compressedSize > archive.length) {
+            throw new EpubParseError(`EPUB archive entry ${name} is corrupt`);
+        }
+        const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+        let data: Buffer;
+        if (method === 0) {
+            data = raw;
+        } else if (method === 8) {
+            try {
+                // One byte over the declared size is enough to detect a lying header.
+                data = inflateRawSync(raw, {
+                    maxOutputLength: Math.max(1, Math.min(MAX_ENTRY_BYTES, remainingBytes, uncompressedSize + 1)),
+                });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+                    throw new EpubParseError(`EPUB archive entry ${name} does not match its declared size`);
+                }
+                throw new EpubParseError(`EPUB archive entry ${name} could not be decompressed`);
+            }
+        } else {
+            throw new EpubParseError(`EPUB archive entry ${name} uses unsupported compression`);
+        }
+
+        if (data.length !== uncompressedSize) {
+            throw new EpubParseError(`EPUB archive entry ${name} does not match its declared size`);
+        }
+        totalBytes += data.length;
+        entries.set(name, data);
+    }
+
+    return entries;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+    // The EOCD record is 22 bytes plus an optional comment of up to 64 KiB.
+    if (archive.length < 22) {
+        throw new EpubParseError('File is not a ZIP-based EPUB');
+    }
+    const minOffset = Math.max(0, archive.length - 22 - 0xffff);
+    for (let offset = archive.length - 22; offset >= minOffset; offset -= 1) {
+        if (archive.readUInt32LE(offset) === 0x06054b50) {
+            return offset;
+        }
+    }
+
+    throw new EpubParseError('File is not a ZIP-based EPUB');
+}
+
+function readText(entries: Map<string, Buffer>, entryPath: string): string {
+    const entry = entries.get(entryPath);
+    if (!entry) {
+        throw new EpubParseError(`EPUB is missing ${entryPath}`);
+    }
+    return entry.toString('utf-8');
+}
+
+function parseManifest(opf: string, opfDir: string): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+    const manifestBlock = opf.match(/<(?:\w+:)?manifest\b[^>]*>([\s\S]*?)<\/(?:\w+:)?manifest>/i)?.[1] || '';
+
+    for (const tag of manifestBlock.match(/<(?:\w+:)?item\b[^>]*>/gi) || []) {
+        const id = matchAttribute(tag, 'id');
+        const href = matchAttribute(tag, 'href');
+        if (!id || !href) {
+            continue;
+        }
+
+        manifest.set(id, {
+            id,
+            href: resolveHref(opfDir, href),
+            mediaType: (matchAttribute(tag, 'media-type') || '').toLowerCase(),
+            properties: (matchAttribute(tag, 'properties') || '').split(/\s+/).filter(Boolean),
+        });
+    }
+
+    return manifest;
+}
+
+function parseSpine(opf: string, manifest: Map<string, ManifestItem>): ManifestItem[] {
+    const spineBlock = opf.match(/<(?:\w+:)?spine\b[^>]*>([\s\S]*?)<\/(?:\w+:)?spine>/i)?.[1] || '';
+    const items: ManifestItem[] = [];
+
+    for (const tag of spineBlock.match(/<(?:\w+:)?itemref\b[^>]*>/gi) || []) {
+        if (matchAttribute(tag, 'linear') === 'no') {
+            continue;
+        }
+
+        const item = manifest.get(matchAttribute(tag, 'idref') || '');
+        if (item && (item.mediaType === 'application/xhtml+xml' || item.mediaType === 'text/html')) {
+            items.push(item);
+        }
+    }
+
+    return items;
+}
+
+function parseMetadata(opf: string): EpubMetadata {
+    const metadataBlock = opf.match(/<(?:\w+:)?metadata\b[^>]*>([\s\S]*?)<\/(?:\w+:)?metadata>/i)?.[1] || '';
+    const values = (element: string): string[] => {
+        const pattern = new RegExp(`<dc:${element}\\b[^>]*>([\\s\\S]*?)<\\/dc:${element}>`, 'gi');
+        return Array.from(metadataBlock.matchAll(pattern))
+            .map((match) => collapseWhitespace(decodeEntities(stripTags(match[1]))))
+            .filter(Boolean);
+    };
+
+    const isbn = values('identifier')
+        .map((value) => value.replace(/^urn:isbn:/i, '').replace(/[\s-]/g, ''))
+        .find((value) => /^(\d{9}[\dX]|\d{13})$/i.test(value)) || null;
+
+    return {
+        title: values('title')[0] || null,
+        creator: values('creator')[0] || null,
+        description: values('description')[0] || null,
+        language: values('language')[0] || null,
+        isbn,
+        subjects: values('subject'),
+    };
+}
+
+/**
+ * Maps spine document paths to TOC titles. Only the first TOC entry pointing
+ * into a document is used, so sub-section anchors do not rename the chapter.
+ */
+function parseTocTitles(
+    entries: Map<string, Buffer>,
+    opf: string,
+    manifest: Map<string, ManifestItem>
+): Map<string, string> {
+    const titles = new Map<string, string>();
+    const addTitle = (baseDir: string, href: string, title: string) => {
+        const target = resolveHref(baseDir, href.split('#')[0]);
+        const normalizedTitle = collapseWhitespace(decodeEntities(stripTags(title)));
+        if (target && normalizedTitle && !titles.has(target)) {
+            titles.set(target, normalizedTitle);
+        }
+    };
+
+    const navItem = Array.from(manifest.values()).find((item) => item.properties.includes('nav'));
+    const navDocument = navItem ? entries.get(navItem.href)?.toString('utf-8') : undefined;
+    if (navItem && navDocument) {
+        const tocNav = Array.from(navDocument.matchAll(/<nav\b([^>]*)>([\s\S]*?)<\/nav>/gi))
+            .find((match) => /epub:type\s*=\s*["'][^"']*\btoc\b/i.test(match[1]))?.[2];
+        for (const link of (tocNav || '').matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+            const href = matchAttribute(`<a ${link[1]}>`, 'href');
+            if (href) {
+                addTitle(path.posix.dirname(navItem.href), href, link[2]);
+            }
+        }
+    }
+
+    const tocId = matchAttribute(opf.match(/<(?:\w+:)?spine\b[^>]*>/i)?.[0] || '', 'toc');
+    const ncxItem = (tocId && manifest.get(tocId))
+        || Array.from(manifest.values()).find((item) => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxDocument = ncxItem ? entries.get(ncxItem.href)?.toString('utf-8') : undefined;
+    if (ncxItem && ncxDocument) {
+        for (const navPoint of ncxDocument.matchAll(/<navPoint\b[\s\S]*?<text>([\s\S]*?)<\/text>[\s\S]*?<content\b([^>]*)\/?>/gi)) {
+            const src = matchAttribute(`<content ${navPoint[2]}>`, 'src');
+            if (src) {
+                addTitle(path.posix.dirname(ncxItem.href), src, navPoint[1]);
+            }
+        }
+    }
+
+    return titles;
+}
+
+function findCoverAssetKey(opf: string, manifest: Map<string, ManifestItem>, entries: Map<string, Buffer>): string | null {
+    const byProperty = Array.from(manifest.values()).find((item) => item.properties.includes('cover-image'));
+    const metaTag = (opf.match(/<meta\b[^>]*>/gi) || []).find((tag) => matchAttribute(tag, 'name') === 'cover');
+    const byMeta = metaTag ? manifest.get(matchAttribute(metaTag, 'content') || '') : undefined;
+    const cover = byProperty || byMeta;
+
+    if (!cover || !EPUB_IMAGE_MEDIA_TYPES.includes(cover.mediaType) || !entries.has(cover.href)) {
+        return null;
+    }
+    return cover.href;
+}
+
+function manifestMediaType(manifest: Map<string, ManifestItem>, href: string): string | null {
+    return Array.from(manifest.values()).find((item) => item.href === href)?.mediaType || null;
+}
+
+/**
+ * Flattens XHTML to plain text with paragraph breaks. Images are replaced by
+ * markers whose index is assigned by `onImage`; unresolved images are dropped.
+ */
+function xhtmlToText(xhtml: string, onImage: (src: string, alt: string) => number | null): string {
+    const body = xhtml.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? xhtml;
+
+    const withMarkers = body
+        .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(?:img|image)\b[^>]*>/gi, (tag) => {
+            const src = matchAttribute(tag, 'src') || matchAttribute(tag, 'xlink:href') || matchAttribute(tag, 'href');
+            if (!src || /^(?:https?:|data:)/i.test(src)) {
+                return '';
+            }
+
+            const index = onImage(src, decodeEntities(matchAttribute(tag, 'alt') || ''));
+            return index === null ? '' : `\n\u0000IMG:${index}\u0000\n`;
+        })
+        .replace(/<br\b[^>]*>/gi, '\n')
+        .replace(/<\/?(?:p|div|h[1-6]|li|ul|ol|section|article|blockquote|tr|table|figure|figcaption|pre|hr)\b[^>]*>/gi, '\n\n');
+
+    return decodeEntities(stripTags(withMarkers))
+        .split(/\n{2,}/)
+        .map((paragraph) => paragraph
+            .split('\n')
+            .map((line) => collapseWhitespace(line))
+            .filter(Boolean)
+            .join('\n'))
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+function extractHeading(xhtml: string): string | null {
+    const heading = xhtml.match(/<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1]
+        || xhtml.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const text = heading ? collapseWhitespace(decodeEntities(stripTags(heading))) : '';
+    return text ? text.slice(0, 200) : null;
+}
+
+/**
+ * Splits chapter text into ~CHARS_PER_PAGE pages on paragraph boundaries, falling
+ * back to sentence/word boundaries for paragraphs longer than a page.
+ */
+function paginate(text: string): string[] {
+    const pages: string[] = [];
+    let current = '';
+
+    const flush = () => {
+        if (current.trim()) {
+            pages.push(current.trim());
+        }
+        current = '';
+    };
+
+    for (const paragraph of text.split('\n\n')) {
+        if (current && current.length + paragraph.length + 2 > CHARS_PER_PAGE) {
+            flush();
+        }
+
+        if (paragraph.length <= CHARS_PER_PAGE) {
+            current = current ? `${current}\n\n${paragraph}` : paragraph;
+            continue;
+        }
+
+        let remaining = paragraph;
+        while (remaining.length > CHARS_PER_PAGE) {
+            const window = remaining.slice(0, CHARS_PER_PAGE);
+            const breakAt = Math.max(window.lastIndexOf('. '), window.lastIndexOf(' '));
+            const cut = breakAt > CHARS_PER_PAGE / 2 ? breakAt + 1 : CHARS_PER_PAGE;
+            current = remaining.slice(0, cut);
+            flush();
+            remaining = remaining.slice(cut).trimStart();
+        }
+        current = remaining;
+    }
+
+    flush();
+    return pages;
+}
+
+function extractImageMarkers(
+    chunk: string,
+    images: Array<{ assetKey: string; alt: string }>
+): { text: string; images: EpubImageRef[] } {
+    const refs: EpubImageRef[] = [];
+    let text = '';
+    let lastIndex = 0;
+
+    for (const match of chunk.matchAll(IMAGE_MARKER_PATTERN)) {
+        text += chunk.slice(lastIndex, match.index);
+        lastIndex = (match.index ?? 0) + match[0].length;
+
+        const image = images[Number(match[1])];
+        if (image) {
+            refs.push({ assetKey: image.assetKey, alt: image.alt, position: text.length });
+        }
+    }
+    text += chunk.slice(lastIndex);
+
+    return { text, images: refs };
+}
+
+function resolveHref(baseDir: string, href: string): string {
+    let decoded = href;
+    try {
+        decoded = decodeURIComponent(href);
+    } catch {
+        // keep the raw href
+    }
+
+    const resolved = path.posix.normalize(path.posix.join(baseDir === '.' ? '' : baseDir, decoded));
+    return resolved.replace(/^\.\//, '').replace(/^\/+/, '');
+}
+
+function matchAttribute(tag: string, name: string): string | null {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\:]/g, '\\$&');
+    const match = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    return match ? (match[1] ?? match[2]) : null;
+}
+
+function stripTags(value: string): string {
+    return value.replace(/<[^>]*>/g, '');
+}
+
+function collapseWhitespace(value: string): string {
+    return value.replace(/[ \t\r\f\v ]+/g, ' ').trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’',
+    ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™',
+};
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const codePoint = code[1].toLowerCase() === 'x'
+                ? Number.parseInt(code.slice(2), 16)
+                : Number.parseInt(code.slice(1), 10);
+            return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+                ? String.fromCodePoint(codePoint)
+                : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, endSubscriptionMonths, insertBook } from '../test/fixtures';
+import { allocateSubscriptionRevenue, chargeCreditsForPage } from './credits';
+import { createFeeSchedule, getEffectivePlatformFee, type PlatformFeeScheduleInput } from './fee-schedules';
+import { runLedgerInvariantCheck } from './ledger';
+import { saveSubscriptionPlan, subscribeReader } from './subscriptions';
+
+vi.hoisted(() => {
+    process.env.PLATFORM_FEE_BPS = '250';
+});
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+const OTHER_AUTHOR = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): Date {
+    return new Date(Date.now() + days * DAY_MS);
+}
+
+async function schedule(input: Partial<PlatformFeeScheduleInput> & { feeBps: number }): Promise<number> {
+    const created = await createFeeSchedule({
+        scope: 'global',
+        authorAddress: null,
+        bookId: null,
+        startsAt: daysFromNow(-1),
+        endsAt: null,
+        firstDays: null,
+        note: null,
+        ...input,
+    }, 'admin');
+    if (!created.valid) {
+        throw new Error(created.error);
+    }
+    return created.schedule.id;
+}
+
+describe('resolvePlatformFee', () => {
+    let bookId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook();
+    });
+
+    it('falls back to the PLATFORM_FEE_BPS default without schedules', async () => {
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: null, feeBps: 250 });
+    });
+
+    it('prefers the book schedule, then the author schedule, then the global one', async () => {
+        const globalId = await schedule({ feeBps: 500 });
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: globalId, feeBps: 500 });
+
+        const authorId = await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 300 });
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: authorId, feeBps: 300 });
+
+        const bookScheduleId = await schedule({ scope: 'book', bookId, feeBps: 700 });
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: bookScheduleId, feeBps: 700 });
+    });
+
+    it('ignores schedules for other authors and books', async () => {
+        const otherBookId = await insertBook({ authorAddress: OTHER_AUTHOR });
+        const globalId = await schedule({ feeBps: 500 });
+        await schedule({ scope: 'author', authorAddress: OTHER_AUTHOR, feeBps: 300 });
+        await schedule({ scope: 'book', bookId: otherBookId, feeBps: 700 });
+
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: globalId, feeBps: 500 });
+    });
+
+    it('only applies global schedules to charges without a book', async () => {
+        const globalId = await schedule({ feeBps: 500 });
+        await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 300 });
+        await schedule({ scope: 'book', bookId, feeBps: 700 });
+
+        expect(await getEffectivePlatformFee(null)).toEqual({ scheduleId: globalId, feeBps: 500 });
+    });
+
+    it('skips schedules that have not started or have already ended', async () => {
+        const openId = await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 300 });
+        await schedule({ scope: 'book', bookId, feeBps: 700, startsAt: daysFromNow(1) });
+        await schedule({ scope: 'book', bookId, feeBps: 800, startsAt: daysFromNow(-10), endsAt: daysFromNow(-1) });
+
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: openId, feeBps: 300 });
+    });
+
+    it('prefers a time-bounded rate over an open-ended one in the same scope', async () => {
+        const promoId = await schedule({ feeBps: 0, endsAt: daysFromNow(7) });
+        await schedule({ feeBps: 500 });
+
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: promoId, feeBps: 0 });
+    });
+
+    it('applies a firstDays rate only while the book is within that many days of publishing', async () => {
+        const launchId = await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 50, firstDays: 30 });
+        const openId = await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 300 });
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: launchId, feeBps: 50 });
+
+        await testPool.query(`UPDATE books SET published_at = NOW() - INTERVAL '31 days' WHERE id = $1`, [bookId]);
+        expect(await getEffectivePlatformFee(bookId)).toEqual({ scheduleId: openId, feeBps: 300 });
+    });
+});
+
+describe('splitRevenueAmount', () => {
+    let bookId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook();
+        await depositCredits(READER, BigInt(10_000));
+    });
+
+    async function unlockPage(pagePrice: bigint) {
+        const result = await chargeCreditsForPage({
+            walletAddress: READER,
+            bookId,
+            pageNumber: 2,
+            chapterNumber: 1,
+            pagePrice,
+            authorAddress: AUTHOR,
+        });
+        expect(result.status).toBe('granted');
+
+        const author = await testPool.query('SELECT amount FROM author_revenue_events');
+        const platform = await testPool.query(
+            'SELECT amount, gross_amount, author_amount, fee_schedule_id FROM platform_revenue_events'
+        );
+        return { authorEvents: author.rows, platformEvents: platform.rows };
+    }
+
+    it('rounds the platform fee down so the author keeps the remainder', async () => {
+        const scheduleId = await schedule({ scope: 'book', bookId, feeBps: 333 });
+
+        const { authorEvents, platformEvents } = await unlockPage(BigInt(1001));
+
+        // floor(1001 * 333 / 10000) = 33.
+        expect(platformEvents).toEqual([
+            { amount: '33', gross_amount: '1001', author_amount: '968', fee_schedule_id: scheduleId },
+        ]);
+        expect(authorEvents).toEqual([{ amount: '968' }]);
+    });
+
+    it('records the default rate without a schedule reference', async () => {
+        const { authorEvents, platformEvents } = await unlockPage(BigInt(1000));
+
+        expect(platformEvents).toEqual([
+            { amount: '25', gross_amount: '1000', author_amount: '975', fee_schedule_id: null },
+        ]);
+        expect(authorEvents).toEqual([{ amount: '975' }]);
+    });
+
+    it('gives the whole charge to the author under a zero fee and still records the rate', async () => {
+        const scheduleId = await schedule({ scope: 'author', authorAddress: AUTHOR, feeBps: 0 });
+
+        const { authorEvents, platformEvents } = await unlockPage(BigInt(1000));
+
+        expect(platformEvents).toEqual([
+            { amount: '0', gross_amount: '1000', author_amount: '1000', fee_schedule_id: scheduleId },
+        ]);
+        expect(authorEvents).toEqual([{ amount: '1000' }]);
+    });
+});
+
+describe('allocateSubscriptionRevenue', () => {
+    it('applies each book\'s own fee to its part of the month', async () => {
+        const waivedBookId = await insertBook({ title: 'Waived' });
+        const defaultBookId = await insertBook({ authorAddress: OTHER_AUTHOR, title: 'Default' });
+        const scheduleId = await schedule({ scope: 'book', bookId: waivedBookId, feeBps: 0 });
+        await depositCredits(READER, BigInt(10_000));
+        const plan = await saveSubscriptionPlan(null, { name: 'Monthly', price: BigInt(10_000) });
+        await subscribeReader(READER, plan!.id);
+        for (const bookId of [waivedBookId, defaultBookId]) {
+            await chargeCreditsForPage({
+                walletAddress: READER,
+                bookId,
+                pageNumber: 2,
+                chapterNumber: 1,
+                pagePrice: BigInt(1000),
+                authorAddress: bookId === waivedBookId ? AUTHOR : OTHER_AUTHOR,
+            });
+        }
+        await endSubscriptionMonths();
+
+        await allocateSubscriptionRevenue();
+
+        const platform = await testPool.query(
+            `SELECT book_id, amount, gross_amount, author_amount, fee_schedule_id
+             FROM platform_revenue_events
+             ORDER BY book_id`
+        );
+        expect(platform.rows).toEqual([
+            { book_id: waivedBookId, amount: '0', gross_amount: '5000', author_amount: '5000', fee_schedule_id: scheduleId },
+            { book_id: defaultBookId, amount: '125', gross_amount: '5000', author_amount: '4875', fee_schedule_id: null },
+        ]);
+        const authors = await testPool.query('SELECT author_address, amount FROM author_revenue_events ORDER BY book_id');
+        expect(authors.rows).toEqual([
+            { author_address: AUTHOR, amount: '5000' },
+            { author_address: OTHER_AUTHOR, amount: '4875' },
+        ]);
+        expect((await runLedgerInvariantCheck()).violations).toEqual([]);
+    });
+});
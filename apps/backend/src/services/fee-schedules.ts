@@ -0,0 +1,288 @@
+import type { PoolClient } from 'pg';
+import * as dotenv from 'dotenv';
+import { validateStacksAddress } from '@stacks/transactions';
+import pool from '../db/client';
+
+dotenv.config();
+
+const DEFAULT_PLATFORM_FEE_BPS = toBpsSafe(process.env.PLATFORM_FEE_BPS, 100); // 1%
+const MAX_FEE_NOTE_LENGTH = 500;
+const MAX_FIRST_DAYS = 3650;
+
+export type FeeScheduleScope = 'global' | 'author' | 'book';
+
+export const FEE_SCHEDULE_SCOPES: readonly FeeScheduleScope[] = ['global', 'author', 'book'];
+
+export interface PlatformFeeSchedule {
+    id: number;
+    scope: FeeScheduleScope;
+    authorAddress: string | null;
+    bookId: number | null;
+    feeBps: number;
+    startsAt: Date;
+    endsAt: Date | null;
+    /** The rate only applies while the book is within this many days of publishing. */
+    firstDays: number | null;
+    note: string | null;
+    createdBy: string;
+    createdAt: Date;
+}
+
+export interface PlatformFeeScheduleInput {
+    scope: FeeScheduleScope;
+    authorAddress: string | null;
+    bookId: number | null;
+    feeBps: number;
+    startsAt: Date | null;
+    endsAt: Date | null;
+    firstDays: number | null;
+    note: string | null;
+}
+
+/** The rate applied to a charge; `scheduleId` is null when the env default applies. */
+export interface AppliedPlatformFee {
+    scheduleId: number | null;
+    feeBps: number;
+}
+
+export function isFeeScheduleScope(value: unknown): value is FeeScheduleScope {
+    return typeof value === 'string' && (FEE_SCHEDULE_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates `{ scope, authorAddress?, bookId?, feeBps, startsAt?, endsAt?, firstDays?, note? }`.
+ * `authorAddress` is required for the author scope and `bookId` for the book scope.
+ */
+export function parseFeeScheduleInput(body: unknown): {
+    valid: true;
+    input: PlatformFeeScheduleInput;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    if (!isFeeScheduleScope(source.scope)) {
+        return { valid: false, error: `scope must be one of ${FEE_SCHEDULE_SCOPES.join(', ')}` };
+    }
+    const scope = source.scope;
+
+    let authorAddress: string | null = null;
+    if (scope === 'author') {
+        authorAddress = typeof source.authorAddress === 'string' ? source.authorAddress.trim() : '';
+        if (!authorAddress || !validateStacksAddress(authorAddress)) {
+            return { valid: false, error: 'authorAddress must be a valid Stacks address' };
+        }
+    } else if (source.authorAddress !== undefined && source.authorAddress !== null) {
+        return { valid: false, error: 'authorAddress is only allowed for the author scope' };
+    }
+
+    let bookId: number | null = null;
+    if (scope === 'book') {
+        bookId = Number(source.bookId);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            return { valid: false, error: 'bookId must be a positive integer' };
+        }
+    } else if (source.bookId !== undefined && source.bookId !== null) {
+        return { valid: false, error: 'bookId is only allowed for the book scope' };
+    }
+
+    const feeBps = Number(source.feeBps);
+    if (source.feeBps === undefined || source.feeBps === null || !Number.isInteger(feeBps) || feeBps < 0 || feeBps > 10_000) {
+        return { valid: false, error: 'feeBps must be an integer between 0 and 10000' };
+    }
+
+    const dates: { startsAt: Date | null; endsAt: Date | null } = { startsAt: null, endsAt: null };
+    for (const field of ['startsAt', 'endsAt'] as const) {
+        if (source[field] === undefined || source[field] === null) {
+            continue;
+        }
+        const parsed = new Date(String(source[field]));
+        if (typeof source[field] !== 'string' || Number.isNaN(parsed.getTime())) {
+            return { valid: false, error: `${field} must be an ISO 8601 timestamp` };
+        }
+        dates[field] = parsed;
+    }
+    if (dates.endsAt && dates.endsAt <= (dates.startsAt ?? new Date())) {
+        return { valid: false, error: 'endsAt must be after startsAt and in the future' };
+    }
+
+    let firstDays: number | null = null;
+    if (source.firstDays !== undefined && source.firstDays !== null) {
+        firstDays = Number(source.firstDays);
+        if (!Number.isInteger(firstDays) || firstDays < 1 || firstDays > MAX_FIRST_DAYS) {
+            return { valid: false, error: `firstDays must be an integer between 1 and ${MAX_FIRST_DAYS}` };
+        }
+    }
+
+    if (source.note !== undefined && source.note !== null && typeof source.note !== 'string') {
+        return { valid: false, error: 'note must be a string' };
+    }
+    const note = typeof source.note === 'string' ? source.note.trim() : '';
+    if (note.length > MAX_FEE_NOTE_LENGTH) {
+        return { valid: false, error: `note must be at most ${MAX_FEE_NOTE_LENGTH} characters` };
+    }
+
+    return {
+        valid: true,
+        input: {
+            scope,
+            authorAddress,
+            bookId,
+            feeBps,
+            startsAt: dates.startsAt,
+            endsAt: dates.endsAt,
+            firstDays,
+            note: note || null,
+        },
+    };
+}
+
+/** Schedules newest first. Ended schedules are kept for auditing and included with `includeEnded`. */
+export async function listFeeSchedules(includeEnded: boolean): Promise<PlatformFeeSchedule[]> {
+    const result = await pool.query(
+        `SELECT ${FEE_SCHEDULE_COLUMNS}
+         FROM platform_fee_schedules
+         WHERE $1::boolean OR ends_at IS NULL OR ends_at > NOW()
+         ORDER BY created_at DESC, id DESC`,
+        [includeEnded]
+    );
+    return result.rows.map(mapFeeScheduleRow);
+}
+
+export async function createFeeSchedule(input: PlatformFeeScheduleInput, createdBy: string): Promise<{
+    valid: true;
+    schedule: PlatformFeeSchedule;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    if (input.bookId !== null) {
+        const book = await pool.query('SELECT 1 FROM books WHERE id = $1', [input.bookId]);
+        if (book.rows.length === 0) {
+            return { valid: false, notFound: true, error: 'Book not found' };
+        }
+    }
+
+    const result = await pool.query(
+        `INSERT INTO platform_fee_schedules
+            (scope, author_address, book_id, fee_bps, starts_at, ends_at, first_days, note, created_by)
+         VALUES ($1, $2, $3, $4, COALESCE($5::timestamp, NOW()), $6, $7, $8, $9)
+         RETURNING ${FEE_SCHEDULE_COLUMNS}`,
+        [
+            input.scope,
+            input.authorAddress,
+            input.bookId,
+            input.feeBps,
+            input.startsAt,
+            input.endsAt,
+            input.firstDays,
+            input.note,
+            createdBy,
+        ]
+    );
+    return { valid: true, schedule: mapFeeScheduleRow(result.rows[0]) };
+}
+
+/**
+ * Stops a schedule from applying to new charges. A schedule that has not started yet is deleted;
+ * one that has is ended now so the events charged under it keep their reference. Returns null when
+ * the schedule does not exist or has already ended.
+ */
+export async function endFeeSchedule(scheduleId: number): Promise<PlatformFeeSchedule | null> {
+    const deleted = await pool.query(
+        `DELETE FROM platform_fee_schedules
+         WHERE id = $1 AND starts_at > NOW()
+         RETURNING ${FEE_SCHEDULE_COLUMNS}`,
+        [scheduleId]
+    );
+    if (deleted.rows.length > 0) {
+        return mapFeeScheduleRow(deleted.rows[0]);
+    }
+
+    const ended = await pool.query(
+        `UPDATE platform_fee_schedules
+         SET ends_at = NOW()
+         WHERE id = $1 AND (ends_at IS NULL OR ends_at > NOW())
+         RETURNING ${FEE_SCHEDULE_COLUMNS}`,
+        [scheduleId]
+    );
+    return ended.rows.length > 0 ? mapFeeScheduleRow(ended.rows[0]) : null;
+}
+
+/**
+ * The fee for a charge on `bookId` right now: the live book schedule, else the author's, else the
+ * global one. Within a scope a time-bounded rate (with `endsAt` or `firstDays`) beats an
+ * open-ended one, then the newest wins. Without a book only global schedules apply.
+ */
+export async function resolvePlatformFee(client: PoolClient, bookId: number | null): Promise<AppliedPlatformFee> {
+    const result = await client.query(
+        `SELECT f.id, f.fee_bps
+         FROM platform_fee_schedules f
+         LEFT JOIN books b ON b.id = $1
+         WHERE f.starts_at <= NOW()
+           AND (f.ends_at IS NULL OR f.ends_at > NOW())
+           AND (
+               f.scope = 'global'
+               OR (f.scope = 'author' AND f.author_address = b.author_address)
+               OR (f.scope = 'book' AND f.book_id = b.id)
+           )
+           AND (
+               f.first_days IS NULL
+               OR COALESCE(b.published_at, b.created_at) + make_interval(days => f.first_days) > NOW()
+           )
+         ORDER BY CASE f.scope WHEN 'book' THEN 0 WHEN 'author' THEN 1 ELSE 2 END,
+                  (f.ends_at IS NULL AND f.first_days IS NULL) ASC,
+                  f.id DESC
+         LIMIT 1`,
+        [bookId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+        return { scheduleId: null, feeBps: DEFAULT_PLATFORM_FEE_BPS };
+    }
+
+    return { scheduleId: Number(row.id), feeBps: Number(row.fee_bps) };
+}
+
+/** `resolvePlatformFee` outside a charge, for reports and previews. */
+export async function getEffectivePlatformFee(bookId: number | null): Promise<AppliedPlatformFee> {
+    const client = await pool.connect();
+    try {
+        return await resolvePlatformFee(client, bookId);
+    } finally {
+        client.release();
+    }
+}
+
+const FEE_SCHEDULE_COLUMNS = `id, scope, author_address, book_id, fee_bps, starts_at, ends_at, first_days,
+    note, created_by, created_at`;
+
+function toBpsSafe(value: string | undefined, fallback: number): number {
+    if (!value) {
+        return fallback;
+    }
+
+    const parsed = Number.parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 10_000) {
+        return fallback;
+    }
+
+    return parsed;
+}
+
+function mapFeeScheduleRow(row: Record<string, unknown>): PlatformFeeSchedule {
+    return {
+        id: Number(row.id),
+        scope: row.scope as FeeScheduleScope,
+        authorAddress: row.author_address === null ? null : String(row.author_address),
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        feeBps: Number(row.fee_bps),
+        startsAt: row.starts_at as Date,
+        endsAt: row.ends_at as Date | null,
+        firstDays: row.first_days === null ? null : Number(row.first_days),
+        note: row.note === null ? null : String(row.note),
+        createdBy: String(row.created_by),
+        createdAt: row.created_at as Date,
+    };
+}
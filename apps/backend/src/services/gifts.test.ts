@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, insertBook } from '../test/fixtures';
+import { chargeCreditsForChapter, getReaderCreditBalance } from './credits';
+import { redeemGiftCode, sendGift, type GiftInput } from './gifts';
+import { runLedgerInvariantCheck } from './ledger';
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+const RECIPIENT = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const BOOK_PRICE = '6000';
+const CHAPTER_PRICE = '4000';
+
+function giftInput(overrides: Partial<GiftInput>): GiftInput {
+    return {
+        kind: 'credits',
+        amount: null,
+        bookId: null,
+        chapterNumber: null,
+        recipientAddress: null,
+        message: null,
+        ...overrides,
+    };
+}
+
+async function sendCode(input: Partial<GiftInput>): Promise<string> {
+    const sent = await sendGift(READER, giftInput(input));
+    if (!sent.valid || sent.charge.status !== 'sent' || !sent.code) {
+        throw new Error(`Gift was not sent: ${JSON.stringify(sent)}`);
+    }
+    return sent.code;
+}
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('gifts', () => {
+    let bookId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook();
+        await testPool.query('UPDATE books SET book_price = $2 WHERE id = $1', [bookId, BOOK_PRICE]);
+        await testPool.query(
+            `INSERT INTO chapters (book_id, chapter_number, title, start_page, end_page)
+             VALUES ($1, 1, 'One', 1, 5), ($1, 2, 'Two', 6, 10)`,
+            [bookId]
+        );
+        await depositCredits(READER, BigInt(20_000));
+    });
+
+    it('moves credits straight to a named recipient', async () => {
+        const sent = await sendGift(READER, giftInput({ amount: BigInt(2500), recipientAddress: RECIPIENT }));
+
+        expect(sent).toMatchObject({ valid: true, code: null, charge: { status: 'sent', deliveredAs: 'credits' } });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(17_500));
+        expect(await getReaderCreditBalance(RECIPIENT)).toBe(BigInt(2500));
+        const gifts = await testPool.query('SELECT status, recipient_address FROM gifts');
+        expect(gifts.rows).toEqual([{ status: 'delivered', recipient_address: RECIPIENT }]);
+        await expectLedgerConsistent();
+    });
+
+    it('holds a code gift until it is redeemed, then grants the book once', async () => {
+        const code = await sendCode({ kind: 'book', bookId });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(14_000));
+        await expectLedgerConsistent();
+
+        const redeemed = await redeemGiftCode(RECIPIENT, code);
+
+        expect(redeemed).toMatchObject({ status: 'redeemed', kind: 'book', deliveredAs: 'book', amount: BOOK_PRICE });
+        expect(await getReaderCreditBalance(RECIPIENT)).toBe(BigInt(0));
+        const entitlements = await testPool.query('SELECT wallet_address, scope FROM reader_book_entitlements');
+        expect(entitlements.rows).toEqual([{ wallet_address: RECIPIENT, scope: 'book' }]);
+        const revenue = await testPool.query('SELECT author_address, amount FROM author_revenue_events');
+        expect(revenue.rows).toEqual([{ author_address: AUTHOR, amount: '5940' }]);
+        await expectLedgerConsistent();
+
+        expect(await redeemGiftCode(RECIPIENT, code)).toEqual({
+            status: 'rejected',
+            error: 'This gift code has already been redeemed',
+        });
+    });
+
+    it('turns a gifted chapter the recipient already owns into credits', async () => {
+        await depositCredits(RECIPIENT, BigInt(CHAPTER_PRICE));
+        await chargeCreditsForChapter({
+            walletAddress: RECIPIENT,
+            bookId,
+            chapterNumber: 2,
+            chapterPrice: BigInt(CHAPTER_PRICE),
+            authorAddress: AUTHOR,
+        });
+        const code = await sendCode({ kind: 'chapter', bookId, chapterNumber: 2 });
+
+        const redeemed = await redeemGiftCode(RECIPIENT, code);
+
+        expect(redeemed).toMatchObject({
+            status: 'redeemed',
+            kind: 'chapter',
+            deliveredAs: 'credits',
+            balance: CHAPTER_PRICE,
+        });
+        expect(await getReaderCreditBalance(RECIPIENT)).toBe(BigInt(CHAPTER_PRICE));
+        const unlocks = await testPool.query('SELECT wallet_address FROM reader_chapter_unlocks');
+        expect(unlocks.rows).toEqual([{ wallet_address: RECIPIENT }]);
+        // Only the recipient's own chapter purchase paid the author.
+        const revenue = await testPool.query('SELECT COUNT(*)::integer AS count FROM author_revenue_events');
+        expect(revenue.rows).toEqual([{ count: 1 }]);
+        await expectLedgerConsistent();
+    });
+
+    it('refuses a direct gift the recipient already owns without charging the sender', async () => {
+        const input = giftInput({ kind: 'chapter', bookId, chapterNumber: 2, recipientAddress: RECIPIENT });
+        await sendGift(READER, input);
+
+        const again = await sendGift(READER, input);
+
+        expect(again).toMatchObject({
+            valid: true,
+            charge: { status: 'rejected', error: 'The recipient already has access to this' },
+        });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(16_000));
+        await expectLedgerConsistent();
+    });
+
+    it('does not let the sender redeem their own code', async () => {
+        const code = await sendCode({ amount: BigInt(1000) });
+
+        expect(await redeemGiftCode(READER, code)).toEqual({
+            status: 'rejected',
+            error: 'You cannot redeem your own gift',
+        });
+        expect(await redeemGiftCode(RECIPIENT, 'gift_unknown')).toMatchObject({ status: 'rejected', notFound: true });
+    });
+});
@@ -0,0 +1,241 @@
+import { createHash, randomBytes } from 'crypto';
+import { validateStacksAddress } from '@stacks/transactions';
+import pool from '../db/client';
+import { getBookAudience } from './book-lifecycle';
+import { getBookChapters } from './book-metadata';
+import { effectiveChapterPriceSql } from './pricing';
+import {
+    chargeCreditsForGift,
+    redeemGiftCode as redeemGiftCodeHash,
+    type GiftKind,
+    type GiftRedeemResult,
+    type GiftSendResult,
+} from './credits';
+import { toMicroStx } from './money';
+
+const MAX_GIFT_MESSAGE_LENGTH = 500;
+
+export interface GiftInput {
+    kind: GiftKind;
+    /** Only for credit gifts; book and chapter gifts cost their current price. */
+    amount: bigint | null;
+    bookId: number | null;
+    chapterNumber: number | null;
+    recipientAddress: string | null;
+    message: string | null;
+}
+
+export interface Gift {
+    id: number;
+    direction: 'sent' | 'received';
+    senderAddress: string;
+    recipientAddress: string | null;
+    kind: GiftKind;
+    deliveredAs: GiftKind | null;
+    bookId: number | null;
+    bookTitle: string | null;
+    chapterNumber: number | null;
+    amount: string;
+    message: string | null;
+    status: 'pending' | 'delivered';
+    createdAt: Date;
+    deliveredAt: Date | null;
+}
+
+/**
+ * Validates `{ kind, amount?, bookId?, chapterNumber?, recipientAddress?, message? }`.
+ * Leaving out `recipientAddress` asks for a redeemable gift code.
+ */
+export function parseGiftInput(body: unknown): {
+    valid: true;
+    input: GiftInput;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const kind = source.kind;
+    if (kind !== 'credits' && kind !== 'book' && kind !== 'chapter') {
+        return { valid: false, error: 'kind must be one of: credits, book, chapter' };
+    }
+
+    let amount: bigint | null = null;
+    let bookId: number | null = null;
+    let chapterNumber: number | null = null;
+    if (kind === 'credits') {
+        amount = toMicroStx(source.amount);
+        if (amount === null || amount <= BigInt(0)) {
+            return { valid: false, error: 'amount must be a positive integer (microSTX)' };
+        }
+    } else {
+        bookId = Number(source.bookId);
+        if (!Number.isInteger(bookId) || bookId < 1) {
+            return { valid: false, error: 'bookId must be a positive integer' };
+        }
+        if (kind === 'chapter') {
+            chapterNumber = Number(source.chapterNumber);
+            if (!Number.isInteger(chapterNumber) || chapterNumber < 1) {
+                return { valid: false, error: 'chapterNumber must be a positive integer' };
+            }
+        }
+    }
+
+    let recipientAddress: string | null = null;
+    if (source.recipientAddress !== undefined && source.recipientAddress !== null) {
+        recipientAddress = typeof source.recipientAddress === 'string' ? source.recipientAddress.trim() : '';
+        if (!recipientAddress || !validateStacksAddress(recipientAddress)) {
+            return { valid: false, error: 'recipientAddress must be a valid Stacks address' };
+        }
+    }
+
+    if (source.message !== undefined && source.message !== null && typeof source.message !== 'string') {
+        return { valid: false, error: 'message must be a string' };
+    }
+    const message = typeof source.message === 'string' ? source.message.trim() : '';
+    if (message.length > MAX_GIFT_MESSAGE_LENGTH) {
+        return { valid: false, error: `message must be at most ${MAX_GIFT_MESSAGE_LENGTH} characters` };
+    }
+
+    return {
+        valid: true,
+        input: {
+            kind,
+            amount,
+            bookId,
+            chapterNumber,
+            recipientAddress,
+            message: message || null,
+        },
+    };
+}
+
+/**
+ * Sends a gift from `senderAddress`. Books must be on sale as a whole and chapters must have a
+ * price. Gift codes are returned once and only their hash is stored.
+ */
+export async function sendGift(senderAddress: string, input: GiftInput): Promise<{
+    valid: true;
+    charge: GiftSendResult;
+    code: string | null;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    if (input.recipientAddress && input.recipientAddress === senderAddress.trim()) {
+        return { valid: false, error: 'You cannot send a gift to yourself' };
+    }
+
+    let amount = input.amount;
+    if (input.kind !== 'credits') {
+        const price = await resolveGiftPrice(input.bookId as number, input.chapterNumber);
+        if (!price.valid) {
+            return price;
+        }
+        amount = price.amount;
+    }
+
+    const code = input.recipientAddress ? null : `gift_${randomBytes(16).toString('hex')}`;
+    const charge = await chargeCreditsForGift({
+        senderAddress,
+        recipientAddress: input.recipientAddress,
+        kind: input.kind,
+        bookId: input.bookId,
+        chapterNumber: input.chapterNumber,
+        amount: amount as bigint,
+        message: input.message,
+        codeHash: code ? hashGiftCode(code) : null,
+    });
+
+    return { valid: true, charge, code: charge.status === 'sent' ? code : null };
+}
+
+export async function redeemGiftCode(walletAddress: string, code: string): Promise<GiftRedeemResult> {
+    return redeemGiftCodeHash(walletAddress, hashGiftCode(code.trim()));
+}
+
+/** Gifts the wallet sent or received, newest first. */
+export async function listWalletGifts(walletAddress: string): Promise<Gift[]> {
+    const result = await pool.query(
+        `SELECT g.id, g.sender_address, g.recipient_address, g.kind, g.delivered_as, g.book_id,
+                b.title AS book_title, g.chapter_number, g.amount, g.message, g.status,
+                g.created_at, g.delivered_at,
+                CASE WHEN g.sender_address = $1 THEN 'sent' ELSE 'received' END AS direction
+         FROM gifts g
+         LEFT JOIN books b ON b.id = g.book_id
+         WHERE g.sender_address = $1 OR g.recipient_address = $1
+         ORDER BY g.created_at DESC
+         LIMIT 100`,
+        [walletAddress.trim()]
+    );
+    return result.rows.map(mapGiftRow);
+}
+
+async function resolveGiftPrice(bookId: number, chapterNumber: number | null): Promise<{
+    valid: true;
+    amount: bigint;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const lookup = await pool.query(
+        `SELECT b.status, b.publish_at, b.book_price,
+                ${chapterNumber === null ? 'NULL' : effectiveChapterPriceSql('b', '$2::integer')} AS chapter_price
+         FROM books b
+         WHERE b.id = $1`,
+        chapterNumber === null ? [bookId] : [bookId, chapterNumber]
+    );
+    const book = lookup.rows[0];
+    if (!book) {
+        return { valid: false, notFound: true, error: 'Book not found' };
+    }
+
+    const audience = getBookAudience({ status: book.status, publishAt: book.publish_at });
+    if (audience === 'author') {
+        return { valid: false, notFound: true, error: 'Book not found' };
+    }
+    if (audience === 'buyers') {
+        return { valid: false, error: 'This book is archived and no longer sold' };
+    }
+
+    if (chapterNumber === null) {
+        if (book.book_price === null || BigInt(book.book_price) <= BigInt(0)) {
+            return { valid: false, error: 'This book is not sold as a whole' };
+        }
+        return { valid: true, amount: BigInt(book.book_price) };
+    }
+
+    const chapters = await getBookChapters(bookId);
+    if (!chapters.some((chapter) => chapter.number === chapterNumber)) {
+        return { valid: false, notFound: true, error: 'Chapter not found' };
+    }
+    const price = book.chapter_price === null ? BigInt(0) : BigInt(book.chapter_price);
+    if (price <= BigInt(0)) {
+        return { valid: false, error: 'This chapter is free' };
+    }
+    return { valid: true, amount: price };
+}
+
+function hashGiftCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+}
+
+function mapGiftRow(row: Record<string, unknown>): Gift {
+    return {
+        id: Number(row.id),
+        direction: row.direction === 'sent' ? 'sent' : 'received',
+        senderAddress: String(row.sender_address),
+        recipientAddress: row.recipient_address === null ? null : String(row.recipient_address),
+        kind: row.kind as GiftKind,
+        deliveredAs: row.delivered_as === null ? null : row.delivered_as as GiftKind,
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        bookTitle: row.book_title === null ? null : String(row.book_title),
+        chapterNumber: row.chapter_number === null ? null : Number(row.chapter_number),
+        amount: String(row.amount),
+        message: row.message === null ? null : String(row.message),
+        status: row.status === 'delivered' ? 'delivered' : 'pending',
+        createdAt: row.created_at as Date,
+        deliveredAt: (row.delivered_at as Date | null) ?? null,
+    };
+}
@@ -0,0 +1,221 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, insertBook } from '../test/fixtures';
+import { chargeCreditsForPage } from './credits';
+import {
+    LedgerImbalanceError,
+    credit,
+    debit,
+    getLedgerBalances,
+    postLedgerTransaction,
+    runLedgerInvariantCheck,
+} from './ledger';
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+async function post(lines: Parameters<typeof postLedgerTransaction>[3]): Promise<number | null> {
+    const client = await testPool.connect();
+    try {
+        return await postLedgerTransaction(client, 'deposit', { reference: 'test' }, lines);
+    } finally {
+        client.release();
+    }
+}
+
+async function countRows(table: string): Promise<number> {
+    const result = await testPool.query(`SELECT COUNT(*) AS count FROM ${table}`);
+    return Number(result.rows[0].count);
+}
+
+describe('postLedgerTransaction', () => {
+    it('writes balanced lines and leaves out zero lines', async () => {
+        const id = await post([
+            debit('treasury_cash', null, BigInt(500)),
+            credit('reader_liability', READER, BigInt(500)),
+            credit('platform_revenue', null, BigInt(0)),
+        ]);
+
+        expect(id).not.toBeNull();
+        const entries = await testPool.query(
+            'SELECT account, subject, amount FROM ledger_entries WHERE ledger_transaction_id = $1 ORDER BY id',
+            [id]
+        );
+        expect(entries.rows).toEqual([
+            { account: 'treasury_cash', subject: null, amount: '500' },
+            { account: 'reader_liability', subject: READER, amount: '-500' },
+        ]);
+    });
+
+    it('writes nothing when every line is zero', async () => {
+        const id = await post([
+            debit('treasury_cash', null, BigInt(0)),
+            credit('reader_liability', READER, BigInt(0)),
+        ]);
+
+        expect(id).toBeNull();
+        expect(await countRows('ledger_transactions')).toBe(0);
+    });
+
+    it('rejects lines that do not sum to zero', async () => {
+        await expect(post([
+            debit('treasury_cash', null, BigInt(500)),
+            credit('reader_liability', READER, BigInt(499)),
+        ])).rejects.toThrow(LedgerImbalanceError);
+
+        expect(await countRows('ledger_transactions')).toBe(0);
+        expect(await countRows('ledger_entries')).toBe(0);
+    });
+
+    it('keeps the trial balance at zero across accounts', async () => {
+        await post([
+            debit('treasury_cash', null, BigInt(700)),
+            credit('reader_liability', READER, BigInt(600)),
+            credit('platform_revenue', null, BigInt(100)),
+        ]);
+
+        const balances = await getLedgerBalances();
+        expect(balances.reduce((sum, row) => sum + BigInt(row.balance), BigInt(0))).toBe(BigInt(0));
+        expect(balances.find((row) => row.account === 'reader_liability')?.balance).toBe('-600');
+    });
+});
+
+describe('runLedgerInvariantCheck', () => {
+    let bookId: number;
+    let creditTransactionId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook();
+        await depositCredits(READER, BigInt(5000));
+        await chargeCreditsForPage({
+            walletAddress: READER,
+            bookId,
+            pageNumber: 2,
+            chapterNumber: 1,
+            pagePrice: BigInt(1000),
+            authorAddress: AUTHOR,
+        });
+        const charge = await testPool.query(`SELECT id FROM credit_transactions WHERE tx_type = 'deduction'`);
+        creditTransactionId = Number(charge.rows[0].id);
+    });
+
+    async function insertBatch(totalAmount: number, eventCount: number, clawbackAmount: number): Promise<number> {
+        const batch = await testPool.query(
+            `INSERT INTO author_settlement_batches (author_address, total_amount, event_count, status, clawback_amount)
+             VALUES ($1, $2, $3, 'broadcasted', $4)
+             RETURNING id`,
+            [AUTHOR, totalAmount, eventCount, clawbackAmount]
+        );
+        const batchId = Number(batch.rows[0].id);
+        await testPool.query(
+            `UPDATE author_revenue_events
+             SET settlement_batch_id = $1, settlement_status = 'processing'
+             WHERE credit_transaction_id = $2`,
+            [batchId, creditTransactionId]
+        );
+        return batchId;
+    }
+
+    it('records an ok run when the ledger matches every source table', async () => {
+        const run = await runLedgerInvariantCheck();
+
+        expect(run.status).toBe('ok');
+        expect(run.violations).toEqual([]);
+        const stored = await testPool.query('SELECT status, violation_count FROM ledger_check_runs');
+        expect(stored.rows).toEqual([{ status: 'ok', violation_count: 0 }]);
+    });
+
+    const cases: Array<{ check: string; subject?: string; drift: () => Promise<unknown> }> = [
+        {
+            check: 'unbalanced_transaction',
+            drift: async () => {
+                const transaction = await testPool.query(
+                    `INSERT INTO ledger_transactions (kind) VALUES ('deposit') RETURNING id`
+                );
+                await testPool.query(
+                    `INSERT INTO ledger_entries (ledger_transaction_id, account, amount) VALUES ($1, 'treasury_cash', 5)`,
+                    [transaction.rows[0].id]
+                );
+            },
+        },
+        {
+            check: 'reader_balance_vs_ledger',
+            subject: READER,
+            drift: () => post([debit('reader_liability', READER, BigInt(1)), credit('treasury_cash', null, BigInt(1))]),
+        },
+        {
+            check: 'reader_balance_vs_transactions',
+            subject: READER,
+            drift: () => testPool.query(
+                `INSERT INTO credit_transactions (wallet_address, tx_type, amount, balance_after)
+                 VALUES ($1, 'deposit', 1, 4001)`,
+                [READER]
+            ),
+        },
+        {
+            check: 'author_payable_vs_ledger',
+            subject: AUTHOR,
+            drift: () => post([credit('author_payable', AUTHOR, BigInt(1)), debit('treasury_cash', null, BigInt(1))]),
+        },
+        { check: 'batch_total_vs_events', drift: () => insertBatch(5, 1, 0) },
+        { check: 'batch_clawbacks_vs_rows', drift: () => insertBatch(990, 1, 7) },
+        { check: 'batch_event_count', drift: () => insertBatch(990, 2, 0) },
+        {
+            check: 'platform_revenue_vs_ledger',
+            drift: () => post([credit('platform_revenue', null, BigInt(1)), debit('treasury_cash', null, BigInt(1))]),
+        },
+        {
+            check: 'sweep_total_vs_events',
+            drift: async () => {
+                const sweep = await testPool.query(
+                    `INSERT INTO platform_fee_sweeps (total_amount, transfer_amount, event_count, status, created_by)
+                     VALUES (3, 3, 1, 'broadcasted', 'test')
+                     RETURNING id`
+                );
+                await testPool.query('UPDATE platform_revenue_events SET sweep_id = $1', [sweep.rows[0].id]);
+            },
+        },
+        {
+            check: 'subscription_deferred_vs_ledger',
+            drift: async () => {
+                const plan = await testPool.query(
+                    `INSERT INTO subscription_plans (name, price) VALUES ('Monthly', 50) RETURNING id`
+                );
+                await testPool.query(
+                    `INSERT INTO reader_subscriptions (wallet_address, plan_id, amount, starts_at, ends_at)
+                     VALUES ($1, $2, 50, NOW(), NOW() + INTERVAL '30 days')`,
+                    [READER, plan.rows[0].id]
+                );
+            },
+        },
+        {
+            check: 'gift_liability_vs_ledger',
+            drift: () => testPool.query(
+                `INSERT INTO gifts (sender_address, kind, amount) VALUES ($1, 'credits', 50)`,
+                [READER]
+            ),
+        },
+        {
+            check: 'withdrawal_payable_vs_ledger',
+            drift: () => testPool.query(
+                `INSERT INTO credit_withdrawals (wallet_address, amount) VALUES ($1, 50)`,
+                [READER]
+            ),
+        },
+    ];
+
+    it.each(cases)('reports $check drift', async ({ check, subject, drift }) => {
+        await drift();
+
+        const run = await runLedgerInvariantCheck();
+
+        expect(run.status).toBe('drift');
+        expect(run.violations.map((violation) => violation.check)).toEqual([check]);
+        if (subject) {
+            expect(run.violations[0].subject).toBe(subject);
+        }
+    });
+});
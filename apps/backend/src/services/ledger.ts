@@ -0,0 +1,359 @@
+import type { PoolClient } from 'pg';
+import pool from '../db/client';
+
+export type LedgerAccount =
+    | 'treasury_cash'
+    | 'reader_liability'
+    | 'author_payable'
+    | 'platform_revenue'
+    | 'subscription_deferred'
+    | 'gift_liability'
+    | 'withdrawal_payable';
+
+export const LEDGER_ACCOUNTS: readonly LedgerAccount[] = [
+    'treasury_cash',
+    'reader_liability',
+    'author_payable',
+    'platform_revenue',
+    'subscription_deferred',
+    'gift_liability',
+    'withdrawal_payable',
+];
+
+export type LedgerTransactionKind =
+    | 'opening_balance'
+    | 'deposit'
+    | 'page_unlock'
+    | 'chapter_unlock'
+    | 'book_purchase'
+    | 'subscription_purchase'
+    | 'subscription_allocation'
+    | 'gift_sent'
+    | 'gift_delivered'
+    | 'dispute_refund'
+    | 'withdrawal_hold'
+    | 'withdrawal_release'
+    | 'withdrawal_paid'
+    | 'author_payout'
+    | 'platform_sweep';
+
+/** One side of a ledger transaction. `amount` is positive for debits and negative for credits. */
+export interface LedgerLine {
+    account: LedgerAccount;
+    subject: string | null;
+    amount: bigint;
+}
+
+export interface LedgerAccountBalance {
+    account: LedgerAccount;
+    /** Debit-positive; liability and revenue accounts are normally negative. */
+    balance: string;
+    subjects: number;
+}
+
+export interface LedgerViolation {
+    check: string;
+    subject: string | null;
+    expected: string;
+    actual: string;
+}
+
+export interface LedgerCheckRun {
+    id: number;
+    status: 'ok' | 'drift';
+    violationCount: number;
+    violations: LedgerViolation[];
+    startedAt: Date;
+    finishedAt: Date;
+}
+
+export class LedgerImbalanceError extends Error {
+    constructor(kind: LedgerTransactionKind, imbalance: bigint) {
+        super(`Ledger transaction ${kind} is off by ${imbalance.toString()} microSTX`);
+    }
+}
+
+export function debit(account: LedgerAccount, subject: string | null, amount: bigint): LedgerLine {
+    return { account, subject, amount };
+}
+
+export function credit(account: LedgerAccount, subject: string | null, amount: bigint): LedgerLine {
+    return { account, subject, amount: -amount };
+}
+
+/**
+ * Writes a balanced ledger transaction on the caller's database transaction. Zero lines are
+ * dropped and nothing is written when none are left. Throws `LedgerImbalanceError` when the
+ * lines do not sum to zero, which rolls the money movement back with it.
+ */
+export async function postLedgerTransaction(
+    client: PoolClient,
+    kind: LedgerTransactionKind,
+    reference: { reference?: string | null; creditTransactionId?: number | null },
+    lines: LedgerLine[]
+): Promise<number | null> {
+    const nonZero = lines.filter((line) => line.amount !== BigInt(0));
+    if (nonZero.length === 0) {
+        return null;
+    }
+
+    const imbalance = nonZero.reduce((sum, line) => sum + line.amount, BigInt(0));
+    if (imbalance !== BigInt(0)) {
+        throw new LedgerImbalanceError(kind, imbalance);
+    }
+
+    const transactionInsert = await client.query(
+        `INSERT INTO ledger_transactions (kind, reference, credit_transaction_id)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [kind, reference.reference ?? null, reference.creditTransactionId ?? null]
+    );
+    const ledgerTransactionId = Number(transactionInsert.rows[0].id);
+
+    await client.query(
+        `INSERT INTO ledger_entries (ledger_transaction_id, account, subject, amount)
+         SELECT $1, account, subject, amount
+         FROM unnest($2::varchar[], $3::varchar[], $4::bigint[]) AS l(account, subject, amount)`,
+        [
+            ledgerTransactionId,
+            nonZero.map((line) => line.account),
+            nonZero.map((line) => line.subject),
+            nonZero.map((line) => line.amount.toString()),
+        ]
+    );
+
+    return ledgerTransactionId;
+}
+
+/** Trial balance per account. All accounts together always sum to zero. */
+export async function getLedgerBalances(): Promise<LedgerAccountBalance[]> {
+    const result = await pool.query(
+        `SELECT account, COALESCE(SUM(amount), 0) AS balance, COUNT(DISTINCT subject) AS subjects
+         FROM ledger_entries
+         GROUP BY account`
+    );
+    const byAccount = new Map(result.rows.map((row) => [String(row.account), row]));
+
+    return LEDGER_ACCOUNTS.map((account) => ({
+        account,
+        balance: String(byAccount.get(account)?.balance ?? '0'),
+        subjects: Number(byAccount.get(account)?.subjects ?? 0),
+    }));
+}
+
+export async function listLedgerCheckRuns(limit = 20): Promise<LedgerCheckRun[]> {
+    const result = await pool.query(
+        `SELECT id, status, violation_count, violations, started_at, finished_at
+         FROM ledger_check_runs
+         ORDER BY finished_at DESC, id DESC
+         LIMIT $1`,
+        [Math.min(Math.max(1, limit), 100)]
+    );
+    return result.rows.map(mapCheckRunRow);
+}
+
+/**
+ * Compares the ledger with the tables it mirrors, and the tables with each other, inside one
+ * read-only snapshot, then records the run. Every mismatch is a violation:
+ * - ledger transactions that do not balance;
+ * - reader balances against their ledger account and against the sum of their credit transactions;
+ * - author payables against revenue earned minus confirmed payouts;
+ * - settlement batches whose total, clawbacks or event count differ from their linked rows;
+ * - platform revenue against fees earned minus confirmed sweeps, and sweeps against their events;
+ * - unallocated subscriptions, pending gifts and open withdrawals against their holding accounts.
+ */
+export async function runLedgerInvariantCheck(): Promise<LedgerCheckRun> {
+    const startedAt = new Date();
+    const violations: LedgerViolation[] = [];
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+        for (const check of INVARIANT_CHECKS) {
+            const result = await client.query(check.sql);
+            for (const row of result.rows) {
+                violations.push({
+                    check: check.name,
+                    subject: row.subject === null || row.subject === undefined ? null : String(row.subject),
+                    expected: String(row.expected),
+                    actual: String(row.actual),
+                });
+            }
+        }
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+
+    const insert = await pool.query(
+        `INSERT INTO ledger_check_runs (status, violation_count, violations, started_at)
+         VALUES ($1, $2, $3::jsonb, $4)
+         RETURNING id, status, violation_count, violations, started_at, finished_at`,
+        [violations.length > 0 ? 'drift' : 'ok', violations.length, JSON.stringify(violations), startedAt]
+    );
+    return mapCheckRunRow(insert.rows[0]);
+}
+
+/**
+ * Each query returns one row per violation with `subject`, `expected` (derived from the source
+ * tables) and `actual` (what the ledger or the aggregate row says).
+ */
+const INVARIANT_CHECKS: Array<{ name: string; sql: string }> = [
+    {
+        name: 'unbalanced_transaction',
+        sql: `SELECT ledger_transaction_id::text AS subject, 0 AS expected, SUM(amount) AS actual
+              FROM ledger_entries
+              GROUP BY ledger_transaction_id
+              HAVING SUM(amount) <> 0`,
+    },
+    {
+        name: 'reader_balance_vs_ledger',
+        sql: `SELECT COALESCE(ra.wallet_address, l.subject) AS subject,
+                     COALESCE(ra.credit_balance, 0) AS expected,
+                     COALESCE(-l.balance, 0) AS actual
+              FROM reader_accounts ra
+              FULL OUTER JOIN (
+                  SELECT subject, SUM(amount) AS balance
+                  FROM ledger_entries
+                  WHERE account = 'reader_liability'
+                  GROUP BY subject
+              ) l ON l.subject = ra.wallet_address
+              WHERE COALESCE(ra.credit_balance, 0) <> COALESCE(-l.balance, 0)`,
+    },
+    {
+        name: 'reader_balance_vs_transactions',
+        sql: `SELECT ra.wallet_address AS subject,
+                     COALESCE(SUM(ct.amount), 0) AS expected,
+                     ra.credit_balance AS actual
+              FROM reader_accounts ra
+              LEFT JOIN credit_transactions ct ON ct.wallet_address = ra.wallet_address
+              GROUP BY ra.wallet_address, ra.credit_balance
+              HAVING COALESCE(SUM(ct.amount), 0) <> ra.credit_balance`,
+    },
+    {
+        name: 'author_payable_vs_ledger',
+        sql: `SELECT COALESCE(src.author_address, l.subject) AS subject,
+                     COALESCE(src.payable, 0) AS expected,
+                     COALESCE(-l.balance, 0) AS actual
+              FROM (
+                  SELECT author_address, SUM(amount) AS payable
+                  FROM (
+                      SELECT author_address, amount FROM author_revenue_events WHERE refunded_at IS NULL
+                      UNION ALL
+                      SELECT author_address, -total_amount FROM author_settlement_batches WHERE status = 'confirmed'
+                  ) movements
+                  GROUP BY author_address
+              ) src
+              FULL OUTER JOIN (
+                  SELECT subject, SUM(amount) AS balance
+                  FROM ledger_entries
+                  WHERE account = 'author_payable'
+                  GROUP BY subject
+              ) l ON l.subject = src.author_address
+              WHERE COALESCE(src.payable, 0) <> COALESCE(-l.balance, 0)`,
+    },
+    {
+        name: 'batch_total_vs_events',
+        sql: `SELECT b.id::text AS subject,
+                     COALESCE(ev.amount, 0) - COALESCE(cb.amount, 0) AS expected,
+                     b.total_amount AS actual
+              FROM author_settlement_batches b
+              LEFT JOIN (
+                  SELECT settlement_batch_id, SUM(amount) AS amount
+                  FROM author_revenue_events
+                  GROUP BY settlement_batch_id
+              ) ev ON ev.settlement_batch_id = b.id
+              LEFT JOIN (
+                  SELECT settlement_batch_id, SUM(amount) AS amount
+                  FROM author_revenue_clawbacks
+                  GROUP BY settlement_batch_id
+              ) cb ON cb.settlement_batch_id = b.id
+              WHERE b.status IN ('broadcasted', 'confirmed')
+                AND COALESCE(ev.amount, 0) - COALESCE(cb.amount, 0) <> b.total_amount`,
+    },
+    {
+        name: 'batch_clawbacks_vs_rows',
+        sql: `SELECT b.id::text AS subject, COALESCE(SUM(c.amount), 0) AS expected, b.clawback_amount AS actual
+              FROM author_settlement_batches b
+              LEFT JOIN author_revenue_clawbacks c ON c.settlement_batch_id = b.id
+              WHERE b.status IN ('broadcasted', 'confirmed')
+              GROUP BY b.id, b.clawback_amount
+              HAVING COALESCE(SUM(c.amount), 0) <> b.clawback_amount`,
+    },
+    {
+        name: 'batch_event_count',
+        sql: `SELECT b.id::text AS subject, COUNT(e.id) AS expected, b.event_count AS actual
+              FROM author_settlement_batches b
+              LEFT JOIN author_revenue_events e ON e.settlement_batch_id = b.id
+              WHERE b.status IN ('broadcasted', 'confirmed')
+              GROUP BY b.id, b.event_count
+              HAVING COUNT(e.id) <> b.event_count`,
+    },
+    {
+        name: 'platform_revenue_vs_ledger',
+        sql: `SELECT NULL AS subject, src.revenue AS expected, COALESCE(-l.balance, 0) AS actual
+              FROM (
+                  SELECT COALESCE(SUM(amount), 0) AS revenue
+                  FROM (
+                      SELECT amount FROM platform_revenue_events WHERE refunded_at IS NULL
+                      UNION ALL
+                      SELECT -transfer_amount FROM platform_fee_sweeps
+                      WHERE status = 'confirmed' AND destination_address IS NOT NULL
+                  ) movements
+              ) src,
+              (SELECT SUM(amount) AS balance FROM ledger_entries WHERE account = 'platform_revenue') l
+              WHERE src.revenue <> COALESCE(-l.balance, 0)`,
+    },
+    {
+        name: 'sweep_total_vs_events',
+        sql: `SELECT s.id::text AS subject,
+                     COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.sweep_id = s.id), 0)
+                       - COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.refund_offset_sweep_id = s.id), 0)
+                       AS expected,
+                     s.transfer_amount AS actual
+              FROM platform_fee_sweeps s
+              WHERE s.status IN ('broadcasted', 'confirmed')
+                AND COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.sweep_id = s.id), 0)
+                    - COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.refund_offset_sweep_id = s.id), 0)
+                    <> s.transfer_amount`,
+    },
+    {
+        name: 'subscription_deferred_vs_ledger',
+        sql: holdingAccountCheckSql(
+            'subscription_deferred',
+            'SELECT amount FROM reader_subscriptions WHERE allocated_at IS NULL'
+        ),
+    },
+    {
+        name: 'gift_liability_vs_ledger',
+        sql: holdingAccountCheckSql('gift_liability', "SELECT amount FROM gifts WHERE status = 'pending'"),
+    },
+    {
+        name: 'withdrawal_payable_vs_ledger',
+        sql: holdingAccountCheckSql(
+            'withdrawal_payable',
+            "SELECT amount FROM credit_withdrawals WHERE status IN ('pending', 'broadcasted')"
+        ),
+    },
+];
+
+function holdingAccountCheckSql(account: LedgerAccount, sourceSql: string): string {
+    return `SELECT NULL AS subject, src.amount AS expected, COALESCE(-l.balance, 0) AS actual
+            FROM (SELECT COALESCE(SUM(amount), 0) AS amount FROM (${sourceSql}) source) src,
+                 (SELECT SUM(amount) AS balance FROM ledger_entries WHERE account = '${account}') l
+            WHERE src.amount <> COALESCE(-l.balance, 0)`;
+}
+
+function mapCheckRunRow(row: Record<string, unknown>): LedgerCheckRun {
+    return {
+        id: Number(row.id),
+        status: row.status as 'ok' | 'drift',
+        violationCount: Number(row.violation_count),
+        violations: row.violations as LedgerViolation[],
+        startedAt: row.started_at as Date,
+        finishedAt: row.finished_at as Date,
+    };
+}
@@ -0,0 +1,16 @@
+/** Parses a non-negative microSTX amount from a request value; null when missing or invalid. */
+export function toMicroStx(value: unknown): bigint | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+
+    try {
+        const parsed = BigInt(value as string | number | bigint);
+        if (parsed < 0n) {
+            return null;
+        }
+        return parsed;
+    } catch {
+        return null;
+    }
+}
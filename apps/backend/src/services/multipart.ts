@@ -0,0 +1,99 @@
+export interface MultipartPart {
+    name: string;
+    filename: string | null;
+    contentType: string;
+    data: Buffer;
+}
+
+export class MultipartParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MultipartParseError';
+    }
+}
+
+const MAX_PART_HEADER_BYTES = 8 * 1024;
+const HEADER_SEPARATOR = Buffer.from('\r\n\r\n');
+
+/** Reads the boundary from a `multipart/form-data; boundary=...` content type. */
+export function getMultipartBoundary(contentType: string | undefined): string | null {
+    if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) {
+        return null;
+    }
+
+    const match = contentType.match(/;\s*boundary=(?:"([^"]{1,70})"|([^\s;]{1,70}))/i);
+    return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Splits an already-buffered multipart/form-data body into its parts. Request size is
+ * bounded by the body parser in front of this, so parts are sliced without copying.
+ */
+export function parseMultipart(body: Buffer, boundary: string, maxParts = 1000): MultipartPart[] {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const nextDelimiter = Buffer.from(`\r\n--${boundary}`);
+    const parts: MultipartPart[] = [];
+
+    let position = body.indexOf(delimiter);
+    if (position === -1) {
+        throw new MultipartParseError('Body does not contain the multipart boundary');
+    }
+
+    for (;;) {
+        position += delimiter.length;
+        if (body.subarray(position, position + 2).toString('latin1') === '--') {
+            return parts;
+        }
+        if (body.subarray(position, position + 2).toString('latin1') !== '\r\n') {
+            throw new MultipartParseError('Malformed multipart boundary line');
+        }
+        position += 2;
+
+        const headerEnd = body.indexOf(HEADER_SEPARATOR, position);
+        if (headerEnd === -1 || headerEnd - position > MAX_PART_HEADER_BYTES) {
+            throw new MultipartParseError('Malformed multipart part headers');
+        }
+
+        const headers = parsePartHeaders(body.subarray(position, headerEnd).toString('utf-8'));
+        const dataStart = headerEnd + HEADER_SEPARATOR.length;
+        const dataEnd = body.indexOf(nextDelimiter, dataStart);
+        if (dataEnd === -1) {
+            throw new MultipartParseError('Multipart body ended before its closing boundary');
+        }
+
+        const disposition = headers.get('content-disposition') || '';
+        const name = readDispositionParam(disposition, 'name');
+        if (!/^form-data\b/i.test(disposition) || name === null) {
+            throw new MultipartParseError('Every multipart part needs a form-data name');
+        }
+
+        parts.push({
+            name,
+            filename: readDispositionParam(disposition, 'filename'),
+            contentType: headers.get('content-type') || 'text/plain',
+            data: body.subarray(dataStart, dataEnd),
+        });
+        if (parts.length > maxParts) {
+            throw new MultipartParseError(`Too many multipart parts (max ${maxParts})`);
+        }
+
+        position = dataEnd + 2;
+    }
+}
+
+function parsePartHeaders(block: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of block.split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+        }
+    }
+    return headers;
+}
+
+function readDispositionParam(disposition: string, param: string): string | null {
+    const match = disposition.match(new RegExp(`;\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, 'i'))
+        ?? disposition.match(new RegExp(`;\\s*${param}=([^;\\s]+)`, 'i'));
+    return match ? match[1].replace(/\\(.)/g, '$1') : null;
+}
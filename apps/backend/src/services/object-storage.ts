@@ -0,0 +1,310 @@
+import { createHash, createHmac } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+const STORAGE_LOCAL_DIR = path.resolve(process.env.STORAGE_LOCAL_DIR || './storage');
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_BUCKET = process.env.S3_BUCKET || '';
+const S3_ENDPOINT = (process.env.S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`).replace(/\/+$/, '');
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+// MinIO and most self-hosted S3 servers only support path-style addressing.
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE
+    ? process.env.S3_FORCE_PATH_STYLE === 'true'
+    : Boolean(process.env.S3_ENDPOINT);
+const SIGNED_URL_TTL_SECONDS = toPositiveInteger(process.env.STORAGE_SIGNED_URL_TTL_SECONDS, 300);
+const STORAGE_DELIVERY = process.env.STORAGE_DELIVERY === 'signed-url' ? 'signed-url' : 'stream';
+
+const PDF_PAGE_KEY_PATTERN = /^pdf-pages\/[0-9a-f]{2}\/[0-9a-f]{64}\.pdf$/;
+
+export interface StoredObject {
+    body: Readable;
+    contentType: string;
+    byteSize: number | null;
+}
+
+export interface ObjectStorage {
+    readonly driver: 'local' | 's3';
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    exists(key: string): Promise<boolean>;
+    get(key: string): Promise<StoredObject | null>;
+    delete(key: string): Promise<void>;
+    /** Short-lived direct download URL, or null when the driver cannot issue one. */
+    getSignedUrl(key: string, ttlSeconds?: number): Promise<string | null>;
+}
+
+export class ObjectStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ObjectStorageError';
+    }
+}
+
+let storage: ObjectStorage | null = null;
+
+export function getObjectStorage(): ObjectStorage {
+    if (!storage) {
+        storage = STORAGE_DRIVER === 's3' ? createS3Storage() : createLocalStorage(STORAGE_LOCAL_DIR);
+    }
+    return storage;
+}
+
+/** Whether readers should be handed a signed URL instead of streaming through the API. */
+export function shouldUseSignedUrls(): boolean {
+    return STORAGE_DELIVERY === 'signed-url' && getObjectStorage().driver === 's3';
+}
+
+/**
+ * Stores a single-page PDF under a content-addressed key, so identical pages
+ * (re-uploads, duplicated books) share one object.
+ */
+export async function storePdfPage(data: Buffer): Promise<{ key: string; byteSize: number }> {
+    if (data.length < 5 || data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+        throw new ObjectStorageError('Uploaded page is not a PDF document');
+    }
+
+    const digest = createHash('sha256').update(data).digest('hex');
+    const key = `pdf-pages/${digest.slice(0, 2)}/${digest}.pdf`;
+    const objectStorage = getObjectStorage();
+
+    if (!await objectStorage.exists(key)) {
+        await objectStorage.put(key, data, 'application/pdf');
+    }
+
+    return { key, byteSize: data.length };
+}
+
+export function isPdfPageKey(value: unknown): value is string {
+    return typeof value === 'string' && PDF_PAGE_KEY_PATTERN.test(value);
+}
+
+function createLocalStorage(rootDir: string): ObjectStorage {
+    const resolveKey = (key: string): string => {
+        const resolved = path.resolve(rootDir, key);
+        if (!resolved.startsWith(`${rootDir}${path.sep}`)) {
+            throw new ObjectStorageError(`Invalid object key: ${key}`);
+        }
+        return resolved;
+    };
+
+    return {
+        driver: 'local',
+
+        async put(key, data) {
+            const filePath = resolveKey(key);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            // Write then rename so a crashed upload never leaves a truncated object behind.
+            const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+            await fs.writeFile(tempPath, data);
+            await fs.rename(tempPath, filePath);
+        },
+
+        async exists(key) {
+            try {
+                await fs.access(resolveKey(key));
+                return true;
+            } catch {
+                return false;
+            }
+        },
+
+        async get(key) {
+            const filePath = resolveKey(key);
+            try {
+                const stat = await fs.stat(filePath);
+                return {
+                    body: createReadStream(filePath),
+                    contentType: contentTypeForKey(key),
+                    byteSize: stat.size,
+                };
+            } catch {
+                return null;
+            }
+        },
+
+        async delete(key) {
+            await fs.rm(resolveKey(key), { force: true });
+        },
+
+        async getSignedUrl() {
+            return null;
+        },
+    };
+}
+
+function createS3Storage(): ObjectStorage {
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new ObjectStorageError('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    const send = async (method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> => {
+        const url = new URL(objectUrl(key));
+        const payloadHash = sha256Hex(body ?? Buffer.alloc(0));
+        const headers: Record<string, string> = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzTimestamp(new Date()),
+        };
+        if (contentType) {
+            headers['content-type'] = contentType;
+        }
+
+        headers.authorization = buildAuthorizationHeader(method, url, headers, payloadHash);
+        const { host: _host, ...requestHeaders } = headers;
+
+        return fetch(url, { method, headers: requestHeaders, body });
+    };
+
+    return {
+        driver: 's3',
+
+        async put(key, data, contentType) {
+            const response = await send('PUT', key, data, contentType);
+            if (!response.ok) {
+                throw new ObjectStorageError(`S3 PUT ${key} failed with ${response.status}`);
+            }
+        },
+
+        async exists(key) {
+            const response = await send('HEAD', key);
+            if (response.status === 404) {
+                return false;
+            }
+            if (!response.ok) {
+                throw new ObjectStorageError(`S3 HEAD ${key} failed with ${response.status}`);
+            }
+            return true;
+        },
+
+        async get(key) {
+            const response = await send('GET', key);
+            if (response.status === 404) {
+                return null;
+            }
+            if (!response.ok || !response.body) {
+                throw new ObjectStorageError(`S3 GET ${key} failed with ${response.status}`);
+            }
+
+            const contentLength = response.headers.get('content-length');
+            return {
+                body: Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+                contentType: response.headers.get('content-type') || contentTypeForKey(key),
+                byteSize: contentLength ? Number(contentLength) : null,
+            };
+        },
+
+        async delete(key) {
+            const response = await send('DELETE', key);
+            if (!response.ok && response.status !== 404) {
+                throw new ObjectStorageError(`S3 DELETE ${key} failed with ${response.status}`);
+            }
+        },
+
+        async getSignedUrl(key, ttlSeconds = SIGNED_URL_TTL_SECONDS) {
+            const url = new URL(objectUrl(key));
+            const timestamp = amzTimestamp(new Date());
+            url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+            url.searchParams.set('X-Amz-Credential', `${S3_ACCESS_KEY_ID}/${credentialScope(timestamp)}`);
+            url.searchParams.set('X-Amz-Date', timestamp);
+            url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(ttlSeconds, 1), 604_800)));
+            url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+            const signature = signRequest('GET', url, { host: url.host }, 'UNSIGNED-PAYLOAD', timestamp);
+            url.searchParams.set('X-Amz-Signature', signature);
+            return url.toString();
+        },
+    };
+}
+
+function objectUrl(key: string): string {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    if (S3_FORCE_PATH_STYLE) {
+        return `${S3_ENDPOINT}/${S3_BUCKET}/${encodedKey}`;
+    }
+
+    const endpoint = new URL(S3_ENDPOINT);
+    return `${endpoint.protocol}//${S3_BUCKET}.${endpoint.host}/${encodedKey}`;
+}
+
+function buildAuthorizationHeader(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string
+): string {
+    const timestamp = headers['x-amz-date'];
+    const signature = signRequest(method, url, headers, payloadHash, timestamp);
+    return [
+        `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${credentialScope(timestamp)}`,
+        `SignedHeaders=${Object.keys(headers).sort().join(';')}`,
+        `Signature=${signature}`,
+    ].join(', ');
+}
+
+/** AWS Signature Version 4 over the canonical request. */
+function signRequest(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    timestamp: string
+): string {
+    const headerNames = Object.keys(headers).sort();
+    const canonicalQuery = Array.from(url.searchParams.entries())
+        .sort(([a, aValue], [b, bValue]) => (a === b ? aValue.localeCompare(bValue) : a < b ? -1 : 1))
+        .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+        .join('&');
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        canonicalQuery,
+        headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+        headerNames.join(';'),
+        payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        timestamp,
+        credentialScope(timestamp),
+        sha256Hex(Buffer.from(canonicalRequest, 'utf-8')),
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, timestamp.slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, S3_REGION), 's3'), 'aws4_request');
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+function credentialScope(timestamp: string): string {
+    return `${timestamp.slice(0, 8)}/${S3_REGION}/s3/aws4_request`;
+}
+
+function amzTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+    return createHmac('sha256', key).update(value).digest();
+}
+
+function sha256Hex(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function contentTypeForKey(key: string): string {
+    return key.endsWith('.pdf') ? 'application/pdf' : 'application/octet-stream';
+}
+
+function toPositiveInteger(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value || '', 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
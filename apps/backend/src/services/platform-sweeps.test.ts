@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, insertBook } from '../test/fixtures';
+import { chargeCreditsForPage, refundDisputedCharge } from './credits';
+import { fileCreditDispute } from './disputes';
+import { runLedgerInvariantCheck } from './ledger';
+import { getPlatformFeeReconciliation, reconcilePlatformFeeSweeps, runPlatformFeeSweep } from './platform-sweeps';
+
+// Treasury payouts need a signing key whose address matches; nothing is broadcast for real.
+vi.hoisted(() => {
+    process.env.STACKPAD_TREASURY_ADDRESS = 'STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T';
+    process.env.STACKPAD_TREASURY_PRIVATE_KEY = 'f699b57e4035a4e42835807953361a7572328c5e868f0babc5f41f384a32db79';
+    process.env.AUTHOR_PAYOUT_FEE_MICROSTX = '180';
+    process.env.PLATFORM_FEE_COLD_WALLET_ADDRESS = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+});
+
+const chain = vi.hoisted(() => ({
+    broadcasts: [] as string[],
+    txStatus: 'success',
+}));
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+vi.mock('@stacks/transactions', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@stacks/transactions')>(),
+    broadcastTransaction: vi.fn(async () => {
+        const txid = `0x${String(chain.broadcasts.length + 1).padStart(64, '0')}`;
+        chain.broadcasts.push(txid);
+        return { txid };
+    }),
+}));
+vi.mock('./stacks', () => ({
+    accountsApi: { getAccountNonces: vi.fn(async () => ({ possible_next_nonce: 0 })) },
+    transactionsApi: { getTransactionById: vi.fn(async () => ({ tx_status: chain.txStatus })) },
+}));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(async () => {
+    await resetTestDatabase();
+    chain.broadcasts.length = 0;
+    chain.txStatus = 'success';
+});
+
+// The default 1% platform fee takes 100 of every 10000 page charge.
+const PAGE_PRICE = BigInt(10_000);
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('runPlatformFeeSweep', () => {
+    let bookId: number;
+
+    beforeEach(async () => {
+        bookId = await insertBook({ pagePrice: PAGE_PRICE });
+        await depositCredits(READER, BigInt(100_000));
+    });
+
+    async function unlockPage(pageNumber: number): Promise<void> {
+        const result = await chargeCreditsForPage({
+            walletAddress: READER,
+            bookId,
+            pageNumber,
+            chapterNumber: 1,
+            pagePrice: PAGE_PRICE,
+            authorAddress: AUTHOR,
+        });
+        expect(result.status).toBe('granted');
+    }
+
+    async function refundPage(pageNumber: number): Promise<void> {
+        const filed = await fileCreditDispute(READER, { bookId, pageNumber, chapterNumber: null }, 'Page was blank');
+        if (!filed.valid) {
+            throw new Error(filed.error);
+        }
+        expect(await refundDisputedCharge(filed.dispute.id, 'admin', null)).toMatchObject({ status: 'refunded' });
+    }
+
+    async function sweepAndConfirm() {
+        const sweep = await runPlatformFeeSweep();
+        await reconcilePlatformFeeSweeps();
+        return sweep;
+    }
+
+    it('transfers unsettled fees to the cold wallet and settles them once confirmed', async () => {
+        await unlockPage(2);
+        await unlockPage(3);
+
+        const sweep = await runPlatformFeeSweep();
+
+        expect(sweep).toMatchObject({ eventCount: 2, transferAmount: BigInt(200), failedCount: 0 });
+        expect(chain.broadcasts).toHaveLength(1);
+        const pending = await testPool.query('SELECT settled FROM platform_revenue_events');
+        expect(pending.rows).toEqual([{ settled: false }, { settled: false }]);
+        await expectLedgerConsistent();
+
+        expect(await reconcilePlatformFeeSweeps()).toMatchObject({ confirmedCount: 1 });
+        const settled = await testPool.query('SELECT settled FROM platform_revenue_events');
+        expect(settled.rows).toEqual([{ settled: true }, { settled: true }]);
+        await expectLedgerConsistent();
+    });
+
+    it('withholds fees refunded after an earlier sweep from the next transfer', async () => {
+        await unlockPage(2);
+        await sweepAndConfirm();
+        await refundPage(2);
+
+        let reconciliation = await getPlatformFeeReconciliation();
+        expect(reconciliation.fees.outstandingRefundOffsetAmount).toBe('100');
+        await expectLedgerConsistent();
+
+        await unlockPage(3);
+        await unlockPage(4);
+        const sweep = await sweepAndConfirm();
+
+        expect(sweep).toMatchObject({ eventCount: 2, transferAmount: BigInt(100) });
+        const sweeps = await testPool.query(
+            'SELECT total_amount, refund_offset_amount, transfer_amount, status FROM platform_fee_sweeps ORDER BY id'
+        );
+        expect(sweeps.rows[1]).toEqual({
+            total_amount: '200',
+            refund_offset_amount: '100',
+            transfer_amount: '100',
+            status: 'confirmed',
+        });
+        reconciliation = await getPlatformFeeReconciliation();
+        expect(reconciliation.fees.outstandingRefundOffsetAmount).toBe('0');
+        expect(reconciliation.mismatches).toEqual([]);
+        await expectLedgerConsistent();
+    });
+
+    it('settles a sweep fully covered by refund offsets without a transfer', async () => {
+        await unlockPage(2);
+        await sweepAndConfirm();
+        await refundPage(2);
+        await unlockPage(3);
+
+        const sweep = await runPlatformFeeSweep();
+
+        expect(sweep).toMatchObject({ eventCount: 1, transferAmount: BigInt(0), confirmedCount: 1 });
+        expect(chain.broadcasts).toHaveLength(1);
+        await expectLedgerConsistent();
+    });
+
+    it('returns the fees of a failed transfer to the next sweep', async () => {
+        await unlockPage(2);
+        await runPlatformFeeSweep();
+        chain.txStatus = 'abort_by_response';
+
+        expect(await reconcilePlatformFeeSweeps()).toMatchObject({ failedCount: 1 });
+        const released = await testPool.query('SELECT sweep_id, settled FROM platform_revenue_events');
+        expect(released.rows).toEqual([{ sweep_id: null, settled: false }]);
+        await expectLedgerConsistent();
+
+        chain.txStatus = 'success';
+        expect(await sweepAndConfirm()).toMatchObject({ eventCount: 1, transferAmount: BigInt(100) });
+        const statuses = await testPool.query('SELECT status FROM platform_fee_sweeps ORDER BY id');
+        expect(statuses.rows).toEqual([{ status: 'failed' }, { status: 'confirmed' }]);
+        await expectLedgerConsistent();
+    });
+});
@@ -0,0 +1,576 @@
+import * as dotenv from 'dotenv';
+import type { PoolClient } from 'pg';
+import { validateStacksAddress } from '@stacks/transactions';
+import pool from '../db/client';
+import {
+    broadcastTreasuryTransfer,
+    fetchNextTreasuryNonce,
+    resolvePayoutConfig,
+    resolveSettlementTxState,
+    SettlementLockUnavailableError,
+    withSettlementAdvisoryLock,
+} from './author-payouts';
+import { credit, debit, postLedgerTransaction } from './ledger';
+
+dotenv.config();
+
+const STACKS_NETWORK = (process.env.STACKS_NETWORK || 'testnet') as 'mainnet' | 'testnet';
+const PLATFORM_FEE_COLD_WALLET = (process.env.PLATFORM_FEE_COLD_WALLET_ADDRESS || '').trim();
+const PLATFORM_SWEEP_MIN_MICROSTX = toBigIntSafe(process.env.PLATFORM_SWEEP_MIN_MICROSTX, BigInt(1));
+const PLATFORM_SWEEP_TIMEOUT_MS = toNumberSafe(process.env.PLATFORM_SWEEP_TIMEOUT_MS, 15 * 60_000);
+const PLATFORM_SWEEP_MEMO_PREFIX = 'spd:fee';
+
+let invalidColdWalletWarningShown = false;
+
+export type PlatformSweepStatus = 'created' | 'broadcasted' | 'confirmed' | 'failed';
+
+export interface PlatformFeeSweep {
+    id: number;
+    /** null when the fees were settled in the treasury without a transfer. */
+    destinationAddress: string | null;
+    totalAmount: string;
+    refundOffsetAmount: string;
+    transferAmount: string;
+    eventCount: number;
+    periodStart: Date | null;
+    periodEnd: Date | null;
+    status: PlatformSweepStatus;
+    payoutTxHash: string | null;
+    lastError: string | null;
+    createdBy: string;
+    createdAt: Date;
+    broadcastAt: Date | null;
+    confirmedAt: Date | null;
+}
+
+export interface PlatformSweepRunResult {
+    sweepId: number | null;
+    eventCount: number;
+    transferAmount: bigint;
+    confirmedCount: number;
+    failedCount: number;
+    /** Why no sweep was created, e.g. nothing to settle or below the transfer minimum. */
+    skippedReason?: string;
+}
+
+export interface PlatformFeeReconciliation {
+    generatedAt: Date;
+    coldWalletAddress: string | null;
+    fees: {
+        /** Not yet claimed by a sweep. */
+        pendingAmount: string;
+        pendingEvents: number;
+        /** Claimed by a sweep whose transfer is not confirmed yet. */
+        inFlightAmount: string;
+        settledAmount: string;
+        settledEvents: number;
+        refundedBeforeSweepAmount: string;
+        /** Refunded after being swept; withheld from the next sweep. */
+        refundedAfterSweepAmount: string;
+        outstandingRefundOffsetAmount: string;
+    };
+    sweeps: {
+        confirmedCount: number;
+        totalAmount: string;
+        refundOffsetAmount: string;
+        transferredAmount: string;
+        pendingCount: number;
+        failedCount: number;
+    };
+    /** Confirmed sweeps whose recorded totals no longer match their events. Should be empty. */
+    mismatches: Array<{
+        sweepId: number;
+        recordedAmount: string;
+        eventAmount: string;
+        recordedOffset: string;
+        offsetAmount: string;
+    }>;
+    recentSweeps: PlatformFeeSweep[];
+}
+
+/**
+ * Settles unsettled platform fees in one sweep. With `PLATFORM_FEE_COLD_WALLET_ADDRESS` set the
+ * fees, less any fees refunded after an earlier sweep, are sent from the treasury and the events
+ * settle once the transfer confirms. Without it the events settle immediately and the STX stay in
+ * the treasury. Runs under the treasury broadcast lock and reconciles earlier sweeps first.
+ */
+export async function runPlatformFeeSweep(limit = 1000, createdBy = 'worker'): Promise<PlatformSweepRunResult> {
+    try {
+        return await withSettlementAdvisoryLock(async () => {
+            await reclaimStaleSweeps();
+            const result = await reconcilePlatformFeeSweeps();
+
+            const destination = resolveColdWallet();
+            const config = destination ? resolvePayoutConfig() : null;
+            if (destination && !config) {
+                return { ...result, skippedReason: 'Treasury broadcaster is not configured' };
+            }
+
+            const claim = await claimFeeEvents(Math.max(1, limit), destination, createdBy);
+            if (claim.status === 'skipped') {
+                return { ...result, skippedReason: claim.reason };
+            }
+
+            result.sweepId = claim.sweepId;
+            result.eventCount = claim.eventCount;
+            if (!destination || !config || claim.transferAmount === BigInt(0)) {
+                result.confirmedCount += 1;
+                return result;
+            }
+
+            const nonce = await fetchNextTreasuryNonce(config.treasuryAddress);
+            const attempt = await broadcastTreasuryTransfer(
+                config,
+                destination,
+                claim.transferAmount,
+                nonce,
+                `${PLATFORM_SWEEP_MEMO_PREFIX}:${claim.sweepId}`
+            );
+            if (!attempt.ok || !attempt.txHash) {
+                await failSweep(claim.sweepId, attempt.error || 'Platform fee sweep broadcast failed');
+                result.failedCount += 1;
+                return result;
+            }
+
+            await pool.query(
+                `UPDATE platform_fee_sweeps
+                 SET status = 'broadcasted',
+                     payout_tx_hash = $2,
+                     nonce = $3,
+                     last_error = NULL,
+                     broadcast_at = NOW()
+                 WHERE id = $1`,
+                [claim.sweepId, attempt.txHash, attempt.usedNonce.toString()]
+            );
+            result.transferAmount = claim.transferAmount;
+            return result;
+        });
+    } catch (error) {
+        if (error instanceof SettlementLockUnavailableError) {
+            return {
+                sweepId: null,
+                eventCount: 0,
+                transferAmount: BigInt(0),
+                confirmedCount: 0,
+                failedCount: 0,
+                skippedReason: 'Treasury lock is held by another worker',
+            };
+        }
+        throw error;
+    }
+}
+
+/** Settles the events of confirmed sweep transfers and releases the events of failed ones. */
+export async function reconcilePlatformFeeSweeps(limit = 50): Promise<PlatformSweepRunResult> {
+    const result: PlatformSweepRunResult = {
+        sweepId: null,
+        eventCount: 0,
+        transferAmount: BigInt(0),
+        confirmedCount: 0,
+        failedCount: 0,
+    };
+    const lookup = await pool.query(
+        `SELECT id, payout_tx_hash
+         FROM platform_fee_sweeps
+         WHERE status = 'broadcasted'
+           AND payout_tx_hash IS NOT NULL
+         ORDER BY broadcast_at ASC NULLS LAST, created_at ASC
+         LIMIT $1`,
+        [Math.max(1, limit)]
+    );
+
+    for (const row of lookup.rows) {
+        const sweepId = Number(row.id);
+        const txHash = String(row.payout_tx_hash);
+        const txState = await resolveSettlementTxState(txHash);
+        if (txState.status === 'pending') {
+            continue;
+        }
+
+        if (txState.status === 'confirmed') {
+            await confirmSweep(sweepId, txHash);
+            result.confirmedCount += 1;
+            continue;
+        }
+
+        await failSweep(sweepId, txState.error || 'Platform fee sweep transaction failed');
+        result.failedCount += 1;
+    }
+
+    return result;
+}
+
+export async function listPlatformFeeSweeps(limit = 20): Promise<PlatformFeeSweep[]> {
+    const result = await pool.query(
+        `SELECT ${SWEEP_COLUMNS}
+         FROM platform_fee_sweeps
+         ORDER BY created_at DESC, id DESC
+         LIMIT $1`,
+        [Math.min(Math.max(1, limit), 100)]
+    );
+    return result.rows.map(mapSweepRow);
+}
+
+/**
+ * Platform fees by settlement state next to the sweep totals, plus confirmed sweeps whose linked
+ * events no longer add up to what the sweep recorded.
+ */
+export async function getPlatformFeeReconciliation(): Promise<PlatformFeeReconciliation> {
+    const [fees, sweeps, mismatches, recentSweeps] = await Promise.all([
+        pool.query(
+            `SELECT
+                COALESCE(SUM(e.amount) FILTER (WHERE NOT e.settled AND e.refunded_at IS NULL AND e.sweep_id IS NULL), 0) AS pending_amount,
+                COUNT(*) FILTER (WHERE NOT e.settled AND e.refunded_at IS NULL AND e.sweep_id IS NULL) AS pending_events,
+                COALESCE(SUM(e.amount) FILTER (WHERE NOT e.settled AND e.sweep_id IS NOT NULL), 0) AS in_flight_amount,
+                COALESCE(SUM(e.amount) FILTER (WHERE e.settled), 0) AS settled_amount,
+                COUNT(*) FILTER (WHERE e.settled) AS settled_events,
+                COALESCE(SUM(e.amount) FILTER (WHERE NOT e.settled AND e.refunded_at IS NOT NULL AND e.sweep_id IS NULL), 0) AS refunded_before_amount,
+                COALESCE(SUM(e.amount) FILTER (WHERE e.settled AND e.refunded_at IS NOT NULL), 0) AS refunded_after_amount,
+                COALESCE(SUM(e.amount) FILTER (
+                    WHERE e.settled AND e.refunded_at IS NOT NULL
+                      AND (e.refund_offset_sweep_id IS NULL OR s.status <> 'confirmed')
+                ), 0) AS outstanding_offset_amount
+             FROM platform_revenue_events e
+             LEFT JOIN platform_fee_sweeps s ON s.id = e.refund_offset_sweep_id`
+        ),
+        pool.query(
+            `SELECT
+                COUNT(*) FILTER (WHERE status = 'confirmed') AS confirmed_count,
+                COALESCE(SUM(total_amount) FILTER (WHERE status = 'confirmed'), 0) AS total_amount,
+                COALESCE(SUM(refund_offset_amount) FILTER (WHERE status = 'confirmed'), 0) AS refund_offset_amount,
+                COALESCE(SUM(transfer_amount) FILTER (WHERE status = 'confirmed' AND destination_address IS NOT NULL), 0) AS transferred_amount,
+                COUNT(*) FILTER (WHERE status IN ('created', 'broadcasted')) AS pending_count,
+                COUNT(*) FILTER (WHERE status = 'failed') AS failed_count
+             FROM platform_fee_sweeps`
+        ),
+        pool.query(
+            `SELECT s.id, s.total_amount, s.refund_offset_amount,
+                    COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.sweep_id = s.id), 0) AS event_amount,
+                    COALESCE((SELECT SUM(e.amount) FROM platform_revenue_events e WHERE e.refund_offset_sweep_id = s.id), 0) AS offset_amount
+             FROM platform_fee_sweeps s
+             WHERE s.status = 'confirmed'
+             ORDER BY s.id ASC`
+        ),
+        listPlatformFeeSweeps(20),
+    ]);
+
+    const feeRow = fees.rows[0];
+    const sweepRow = sweeps.rows[0];
+    return {
+        generatedAt: new Date(),
+        coldWalletAddress: PLATFORM_FEE_COLD_WALLET || null,
+        fees: {
+            pendingAmount: String(feeRow.pending_amount),
+            pendingEvents: Number(feeRow.pending_events),
+            inFlightAmount: String(feeRow.in_flight_amount),
+            settledAmount: String(feeRow.settled_amount),
+            settledEvents: Number(feeRow.settled_events),
+            refundedBeforeSweepAmount: String(feeRow.refunded_before_amount),
+            refundedAfterSweepAmount: String(feeRow.refunded_after_amount),
+            outstandingRefundOffsetAmount: String(feeRow.outstanding_offset_amount),
+        },
+        sweeps: {
+            confirmedCount: Number(sweepRow.confirmed_count),
+            totalAmount: String(sweepRow.total_amount),
+            refundOffsetAmount: String(sweepRow.refund_offset_amount),
+            transferredAmount: String(sweepRow.transferred_amount),
+            pendingCount: Number(sweepRow.pending_count),
+            failedCount: Number(sweepRow.failed_count),
+        },
+        mismatches: mismatches.rows
+            .filter((row) => String(row.total_amount) !== String(row.event_amount)
+                || String(row.refund_offset_amount) !== String(row.offset_amount))
+            .map((row) => ({
+                sweepId: Number(row.id),
+                recordedAmount: String(row.total_amount),
+                eventAmount: String(row.event_amount),
+                recordedOffset: String(row.refund_offset_amount),
+                offsetAmount: String(row.offset_amount),
+            })),
+        recentSweeps,
+    };
+}
+
+/**
+ * Claims up to `limit` unsettled fee events and the fees refunded since an earlier sweep (whole
+ * rows, up to the claimed total) into a new sweep. Without a transfer to make, the sweep and its
+ * events are settled in the same transaction.
+ */
+async function claimFeeEvents(limit: number, destination: string | null, createdBy: string): Promise<{
+    status: 'claimed';
+    sweepId: number;
+    eventCount: number;
+    transferAmount: bigint;
+} | {
+    status: 'skipped';
+    reason: string;
+}> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+
+        const events = await client.query(
+            `SELECT id, amount, created_at
+             FROM platform_revenue_events
+             WHERE settled = FALSE
+               AND refunded_at IS NULL
+               AND sweep_id IS NULL
+             ORDER BY created_at ASC, id ASC
+             LIMIT $1
+             FOR UPDATE SKIP LOCKED`,
+            [limit]
+        );
+        if (events.rows.length === 0) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { status: 'skipped', reason: 'No unsettled platform fees' };
+        }
+
+        const eventIds = events.rows.map((row) => Number(row.id));
+        const totalAmount = events.rows.reduce((sum, row) => sum + BigInt(row.amount), BigInt(0));
+        const offsets = await reserveRefundOffsets(client, totalAmount);
+        const transferAmount = totalAmount - offsets.amount;
+
+        if (destination && transferAmount > BigInt(0) && transferAmount < PLATFORM_SWEEP_MIN_MICROSTX) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return {
+                status: 'skipped',
+                reason: `Sweep amount below threshold (${PLATFORM_SWEEP_MIN_MICROSTX.toString()} microSTX)`,
+            };
+        }
+
+        const settledNow = !destination || transferAmount === BigInt(0);
+        const sweepInsert = await client.query(
+            `INSERT INTO platform_fee_sweeps
+                (destination_address, total_amount, refund_offset_amount, transfer_amount, event_count,
+                 period_start, period_end, network, status, created_by, confirmed_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CASE WHEN $11 THEN NOW() END)
+             RETURNING id`,
+            [
+                destination,
+                totalAmount.toString(),
+                offsets.amount.toString(),
+                transferAmount.toString(),
+                eventIds.length,
+                events.rows[0].created_at,
+                events.rows[events.rows.length - 1].created_at,
+                toCaip2Network(STACKS_NETWORK),
+                settledNow ? 'confirmed' : 'created',
+                createdBy,
+                settledNow,
+            ]
+        );
+        const sweepId = Number(sweepInsert.rows[0].id);
+
+        await client.query(
+            'UPDATE platform_revenue_events SET sweep_id = $2 WHERE id = ANY($1::int[])',
+            [eventIds, sweepId]
+        );
+        if (offsets.ids.length > 0) {
+            await client.query(
+                'UPDATE platform_revenue_events SET refund_offset_sweep_id = $2 WHERE id = ANY($1::int[])',
+                [offsets.ids, sweepId]
+            );
+        }
+        if (settledNow) {
+            await settleSweepEvents(client, sweepId, `sweep:${sweepId}`);
+        }
+
+        await client.query('COMMIT');
+        return { status: 'claimed', sweepId, eventCount: eventIds.length, transferAmount };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/** Oldest swept-then-refunded fees that fit in `maxAmount`; the rest wait for a later sweep. */
+async function reserveRefundOffsets(client: PoolClient, maxAmount: bigint): Promise<{ ids: number[]; amount: bigint }> {
+    const pending = await client.query(
+        `SELECT id, amount
+         FROM platform_revenue_events
+         WHERE settled = TRUE
+           AND refunded_at IS NOT NULL
+           AND refund_offset_sweep_id IS NULL
+           AND amount > 0
+         ORDER BY refunded_at ASC, id ASC
+         FOR UPDATE SKIP LOCKED`
+    );
+
+    const ids: number[] = [];
+    let amount = BigInt(0);
+    for (const row of pending.rows) {
+        const offsetAmount = BigInt(row.amount);
+        if (amount + offsetAmount > maxAmount) {
+            break;
+        }
+        ids.push(Number(row.id));
+        amount += offsetAmount;
+    }
+    return { ids, amount };
+}
+
+async function settleSweepEvents(client: PoolClient, sweepId: number, reference: string): Promise<void> {
+    await client.query(
+        `UPDATE platform_revenue_events
+         SET settled = TRUE,
+             settled_at = NOW(),
+             settlement_reference = $2
+         WHERE sweep_id = $1 AND settled = FALSE`,
+        [sweepId, reference]
+    );
+}
+
+async function confirmSweep(sweepId: number, txHash: string): Promise<void> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const updated = await client.query(
+            `UPDATE platform_fee_sweeps
+             SET status = 'confirmed',
+                 confirmed_at = NOW(),
+                 last_error = NULL
+             WHERE id = $1 AND status = 'broadcasted'
+             RETURNING destination_address, transfer_amount`,
+            [sweepId]
+        );
+        const sweep = updated.rows[0];
+        if (sweep) {
+            await settleSweepEvents(client, sweepId, txHash);
+            if (sweep.destination_address !== null) {
+                const transferAmount = BigInt(sweep.transfer_amount);
+                await postLedgerTransaction(client, 'platform_sweep', { reference: `sweep:${sweepId}` }, [
+                    debit('platform_revenue', null, transferAmount),
+                    credit('treasury_cash', null, transferAmount),
+                ]);
+            }
+        }
+        await client.query('COMMIT');
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/** Marks the sweep failed and returns its events and refund offsets to the next sweep. */
+async function failSweep(sweepId: number, reason: string): Promise<void> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        await client.query(
+            `UPDATE platform_fee_sweeps
+             SET status = 'failed',
+                 last_error = $2
+             WHERE id = $1 AND status IN ('created', 'broadcasted')`,
+            [sweepId, reason]
+        );
+        await client.query(
+            'UPDATE platform_revenue_events SET sweep_id = NULL WHERE sweep_id = $1 AND settled = FALSE',
+            [sweepId]
+        );
+        await client.query(
+            'UPDATE platform_revenue_events SET refund_offset_sweep_id = NULL WHERE refund_offset_sweep_id = $1',
+            [sweepId]
+        );
+        await client.query('COMMIT');
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/** Sweeps left in `created` by a crash between claiming and broadcasting. */
+async function reclaimStaleSweeps(): Promise<void> {
+    const stale = await pool.query(
+        `SELECT id
+         FROM platform_fee_sweeps
+         WHERE status = 'created'
+           AND created_at < NOW() - ($1::double precision * INTERVAL '1 second')`,
+        [PLATFORM_SWEEP_TIMEOUT_MS / 1000]
+    );
+    for (const row of stale.rows) {
+        await failSweep(Number(row.id), 'Sweep timed out before broadcast and was requeued');
+    }
+}
+
+function resolveColdWallet(): string | null {
+    if (!PLATFORM_FEE_COLD_WALLET) {
+        return null;
+    }
+    if (!validateStacksAddress(PLATFORM_FEE_COLD_WALLET)) {
+        if (!invalidColdWalletWarningShown) {
+            console.warn(`Invalid PLATFORM_FEE_COLD_WALLET_ADDRESS: ${PLATFORM_FEE_COLD_WALLET}; settling fees without a transfer.`);
+            invalidColdWalletWarningShown = true;
+        }
+        return null;
+    }
+    return PLATFORM_FEE_COLD_WALLET;
+}
+
+const SWEEP_COLUMNS = `id, destination_address, total_amount, refund_offset_amount, transfer_amount, event_count,
+    period_start, period_end, status, payout_tx_hash, last_error, created_by, created_at, broadcast_at, confirmed_at`;
+
+function mapSweepRow(row: Record<string, unknown>): PlatformFeeSweep {
+    return {
+        id: Number(row.id),
+        destinationAddress: row.destination_address === null ? null : String(row.destination_address),
+        totalAmount: String(row.total_amount),
+        refundOffsetAmount: String(row.refund_offset_amount),
+        transferAmount: String(row.transfer_amount),
+        eventCount: Number(row.event_count),
+        periodStart: (row.period_start as Date | null) ?? null,
+        periodEnd: (row.period_end as Date | null) ?? null,
+        status: row.status as PlatformSweepStatus,
+        payoutTxHash: row.payout_tx_hash === null ? null : String(row.payout_tx_hash),
+        lastError: row.last_error === null ? null : String(row.last_error),
+        createdBy: String(row.created_by),
+        createdAt: row.created_at as Date,
+        broadcastAt: (row.broadcast_at as Date | null) ?? null,
+        confirmedAt: (row.confirmed_at as Date | null) ?? null,
+    };
+}
+
+function toCaip2Network(network: 'mainnet' | 'testnet'): string {
+    return network === 'mainnet' ? 'stacks:1' : 'stacks:2147483648';
+}
+
+function toBigIntSafe(value: string | undefined, fallback: bigint): bigint {
+    if (!value) {
+        return fallback;
+    }
+    try {
+        const parsed = BigInt(value);
+        return parsed >= BigInt(0) ? parsed : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+function toNumberSafe(value: string | undefined, fallback: number): number {
+    if (!value) {
+        return fallback;
+    }
+    const parsed = Number.parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) {
+        return fallback;
+    }
+    return parsed;
+}
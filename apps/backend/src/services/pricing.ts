@@ -0,0 +1,215 @@
+import pool from '../db/client';
+import { getBookChapters } from './book-metadata';
+import { toMicroStx } from './money';
+
+const MAX_OVERRIDES_PER_TARGET = 2000;
+
+export interface PriceOverride {
+    number: number;
+    price: string;
+}
+
+export interface PriceOverrides {
+    pages: PriceOverride[];
+    chapters: PriceOverride[];
+}
+
+/**
+ * SQL for what a page costs when read page by page. Pages within `free_pages` are free, then a
+ * page override wins, then a chapter overridden to 0 makes all of its pages free, and otherwise
+ * the book's `page_price` applies. `book`/`page` are the books and pages table aliases.
+ */
+export function effectivePagePriceSql(book: string, page: string): string {
+    return `(CASE
+        WHEN ${page}.page_number <= ${book}.free_pages THEN 0
+        ELSE COALESCE(
+            (SELECT po.price FROM book_price_overrides po
+             WHERE po.book_id = ${book}.id AND po.target = 'page' AND po.target_number = ${page}.page_number),
+            (SELECT 0 FROM book_price_overrides co
+             WHERE co.book_id = ${book}.id AND co.target = 'chapter'
+               AND co.target_number = ${page}.chapter_number AND co.price = 0),
+            ${book}.page_price
+        )
+    END)`;
+}
+
+/**
+ * SQL for what a chapter costs when bought whole: free within `free_chapters`, otherwise its
+ * override or the book's `chapter_price`. `chapterNumber` is a column or parameter expression.
+ */
+export function effectiveChapterPriceSql(book: string, chapterNumber: string): string {
+    return `(CASE
+        WHEN ${chapterNumber} <= ${book}.free_chapters THEN 0
+        ELSE COALESCE(
+            (SELECT co.price FROM book_price_overrides co
+             WHERE co.book_id = ${book}.id AND co.target = 'chapter' AND co.target_number = ${chapterNumber}),
+            ${book}.chapter_price
+        )
+    END)`;
+}
+
+/**
+ * Validates `{ pages: [{ pageNumber, price }], chapters: [{ chapterNumber, price }] }`.
+ * Either list may be omitted; error messages are ready to return to the client as-is.
+ */
+export function parsePriceOverrides(body: unknown): {
+    valid: true;
+    overrides: { pages: Map<number, bigint>; chapters: Map<number, bigint> };
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const pages = parseOverrideList(source.pages, 'pages', 'pageNumber');
+    if (!pages.valid) {
+        return pages;
+    }
+    const chapters = parseOverrideList(source.chapters, 'chapters', 'chapterNumber');
+    if (!chapters.valid) {
+        return chapters;
+    }
+
+    return { valid: true, overrides: { pages: pages.entries, chapters: chapters.entries } };
+}
+
+export async function listPriceOverrides(bookId: number): Promise<PriceOverrides> {
+    const result = await pool.query(
+        `SELECT target, target_number, price
+         FROM book_price_overrides
+         WHERE book_id = $1
+         ORDER BY target, target_number`,
+        [bookId]
+    );
+
+    const overrides: PriceOverrides = { pages: [], chapters: [] };
+    for (const row of result.rows) {
+        const entry = { number: Number(row.target_number), price: String(row.price) };
+        if (row.target === 'page') {
+            overrides.pages.push(entry);
+        } else {
+            overrides.chapters.push(entry);
+        }
+    }
+    return overrides;
+}
+
+/**
+ * Replaces every override on an author's book. Pages must exist in the current edition and
+ * chapters in its table of contents.
+ */
+export async function replacePriceOverrides(
+    bookId: number,
+    authorAddress: string,
+    overrides: { pages: Map<number, bigint>; chapters: Map<number, bigint> }
+): Promise<{
+    valid: true;
+    overrides: PriceOverrides;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const bookLookup = await pool.query(
+        'SELECT total_pages FROM books WHERE id = $1 AND author_address = $2',
+        [bookId, authorAddress]
+    );
+    if (bookLookup.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Book not found for this author' };
+    }
+
+    const totalPages = Number(bookLookup.rows[0].total_pages);
+    const outOfRange = Array.from(overrides.pages.keys()).filter((pageNumber) => pageNumber > totalPages);
+    if (outOfRange.length > 0) {
+        return { valid: false, error: `Book has no page ${outOfRange.join(', ')}` };
+    }
+
+    const chapters = new Set((await getBookChapters(bookId)).map((chapter) => chapter.number));
+    const missingChapters = Array.from(overrides.chapters.keys()).filter((chapterNumber) => !chapters.has(chapterNumber));
+    if (missingChapters.length > 0) {
+        return { valid: false, error: `Book has no chapter ${missingChapters.join(', ')}` };
+    }
+
+    const targets: string[] = [];
+    const numbers: number[] = [];
+    const prices: string[] = [];
+    for (const [target, entries] of [['page', overrides.pages], ['chapter', overrides.chapters]] as const) {
+        for (const [number, price] of entries) {
+            targets.push(target);
+            numbers.push(number);
+            prices.push(price.toString());
+        }
+    }
+
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        await client.query('DELETE FROM book_price_overrides WHERE book_id = $1', [bookId]);
+        await client.query(
+            `INSERT INTO book_price_overrides (book_id, target, target_number, price)
+             SELECT $1, target, target_number, price
+             FROM UNNEST($2::varchar[], $3::integer[], $4::bigint[]) AS o(target, target_number, price)`,
+            [bookId, targets, numbers, prices]
+        );
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+
+    return { valid: true, overrides: await listPriceOverrides(bookId) };
+}
+
+/** Effective whole-chapter prices for `chapterNumbers`, keyed by chapter number. */
+export async function getChapterPrices(bookId: number, chapterNumbers: number[]): Promise<Map<number, string>> {
+    const result = await pool.query(
+        `SELECT c.chapter_number, ${effectiveChapterPriceSql('b', 'c.chapter_number')} AS price
+         FROM books b
+         CROSS JOIN UNNEST($2::integer[]) AS c(chapter_number)
+         WHERE b.id = $1`,
+        [bookId, chapterNumbers]
+    );
+    return new Map(result.rows.map((row) => [Number(row.chapter_number), String(row.price)]));
+}
+
+function parseOverrideList(
+    value: unknown,
+    field: 'pages' | 'chapters',
+    numberKey: 'pageNumber' | 'chapterNumber'
+): {
+    valid: true;
+    entries: Map<number, bigint>;
+} | {
+    valid: false;
+    error: string;
+} {
+    const entries = new Map<number, bigint>();
+    if (value === undefined || value === null) {
+        return { valid: true, entries };
+    }
+    if (!Array.isArray(value)) {
+        return { valid: false, error: `${field} must be an array` };
+    }
+    if (value.length > MAX_OVERRIDES_PER_TARGET) {
+        return { valid: false, error: `${field} can hold at most ${MAX_OVERRIDES_PER_TARGET} overrides` };
+    }
+
+    for (const raw of value) {
+        const entry = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+        const number = Number(entry[numberKey]);
+        if (!Number.isInteger(number) || number < 1) {
+            return { valid: false, error: `Each entry in ${field} needs a positive integer ${numberKey}` };
+        }
+        if (entries.has(number)) {
+            return { valid: false, error: `${numberKey} ${number} is listed more than once` };
+        }
+        const price = toMicroStx(entry.price);
+        if (price === null) {
+            return { valid: false, error: `price for ${numberKey} ${number} must be a non-negative integer (microSTX)` };
+        }
+        entries.set(number, price);
+    }
+
+    return { valid: true, entries };
+}
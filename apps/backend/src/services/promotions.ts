@@ -0,0 +1,463 @@
+import type { PoolClient } from 'pg';
+import pool from '../db/client';
+
+const MAX_PROMOTION_TITLE_LENGTH = 200;
+const DISCOUNT_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,39}$/;
+
+export interface Promotion {
+    id: number;
+    bookId: number | null;
+    title: string;
+    code: string | null;
+    percentOff: number;
+    startsAt: Date;
+    endsAt: Date | null;
+    maxRedemptions: number | null;
+    perWalletLimit: number | null;
+    redemptionCount: number;
+    isActive: boolean;
+    createdAt: Date;
+}
+
+export interface PromotionInput {
+    /** null covers every book by the author. */
+    bookId?: number | null;
+    title?: string;
+    code?: string | null;
+    percentOff?: number;
+    startsAt?: Date;
+    endsAt?: Date | null;
+    maxRedemptions?: number | null;
+    perWalletLimit?: number | null;
+    isActive?: boolean;
+}
+
+/** A sale running on a book right now, without a code. */
+export interface ActiveSale {
+    title: string;
+    percentOff: number;
+    endsAt: Date | null;
+}
+
+/** Discount chosen for a charge, locked until the caller's transaction ends. */
+export interface AppliedDiscount {
+    promotionId: number;
+    code: string | null;
+    percentOff: number;
+    listPrice: bigint;
+    discountAmount: bigint;
+}
+
+/**
+ * Validates `{ bookId?, title, code?, percentOff, startsAt?, endsAt?, maxRedemptions?,
+ * perWalletLimit?, isActive? }`. With `partial` every field is optional (used by PATCH).
+ */
+export function parsePromotionInput(body: unknown, partial: boolean): {
+    valid: true;
+    input: PromotionInput;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const input: PromotionInput = {};
+
+    if (source.bookId !== undefined) {
+        const bookId = source.bookId === null ? null : Number(source.bookId);
+        if (bookId !== null && (!Number.isInteger(bookId) || bookId < 1)) {
+            return { valid: false, error: 'bookId must be a positive integer or null' };
+        }
+        input.bookId = bookId;
+    }
+
+    if (source.title !== undefined || !partial) {
+        const title = typeof source.title === 'string' ? source.title.trim() : '';
+        if (!title || title.length > MAX_PROMOTION_TITLE_LENGTH) {
+            return { valid: false, error: `title must be 1-${MAX_PROMOTION_TITLE_LENGTH} characters` };
+        }
+        input.title = title;
+    }
+
+    if (source.code !== undefined) {
+        const code = normalizeDiscountCode(source.code);
+        if (code === undefined) {
+            return { valid: false, error: 'code must be 3-40 letters, digits, "-" or "_"' };
+        }
+        input.code = code;
+    }
+
+    if (source.percentOff !== undefined || !partial) {
+        const percentOff = Number(source.percentOff);
+        if (!Number.isInteger(percentOff) || percentOff < 1 || percentOff > 100) {
+            return { valid: false, error: 'percentOff must be an integer between 1 and 100' };
+        }
+        input.percentOff = percentOff;
+    }
+
+    for (const field of ['startsAt', 'endsAt'] as const) {
+        if (source[field] === undefined) {
+            continue;
+        }
+        const parsed = source[field] === null ? null : new Date(String(source[field]));
+        if (parsed && (typeof source[field] !== 'string' || Number.isNaN(parsed.getTime()))) {
+            return { valid: false, error: `${field} must be an ISO 8601 timestamp` };
+        }
+        if (field === 'startsAt') {
+            if (!parsed) {
+                return { valid: false, error: 'startsAt cannot be null' };
+            }
+            input.startsAt = parsed;
+        } else {
+            input.endsAt = parsed;
+        }
+    }
+    if (input.startsAt && input.endsAt && input.endsAt <= input.startsAt) {
+        return { valid: false, error: 'endsAt must be after startsAt' };
+    }
+
+    for (const field of ['maxRedemptions', 'perWalletLimit'] as const) {
+        if (source[field] === undefined) {
+            continue;
+        }
+        const limit = source[field] === null ? null : Number(source[field]);
+        if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+            return { valid: false, error: `${field} must be a positive integer or null` };
+        }
+        input[field] = limit;
+    }
+
+    if (source.isActive !== undefined) {
+        if (typeof source.isActive !== 'boolean') {
+            return { valid: false, error: 'isActive must be a boolean' };
+        }
+        input.isActive = source.isActive;
+    }
+
+    if (Object.keys(input).length === 0) {
+        return { valid: false, error: 'No updates provided' };
+    }
+
+    return { valid: true, input };
+}
+
+export async function listAuthorPromotions(authorAddress: string): Promise<Promotion[]> {
+    const result = await pool.query(
+        `SELECT ${PROMOTION_COLUMNS}
+         FROM promotions
+         WHERE author_address = $1
+         ORDER BY created_at DESC`,
+        [authorAddress]
+    );
+    return result.rows.map(mapPromotionRow);
+}
+
+/** Creates a promotion, or updates one of the author's promotions when `promotionId` is given. */
+export async function savePromotion(
+    authorAddress: string,
+    promotionId: number | null,
+    input: PromotionInput
+): Promise<{
+    valid: true;
+    promotion: Promotion;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    if (input.bookId) {
+        const bookLookup = await pool.query(
+            'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+            [input.bookId, authorAddress]
+        );
+        if (bookLookup.rows.length === 0) {
+            return { valid: false, notFound: true, error: 'Book not found for this author' };
+        }
+    }
+
+    if (input.code) {
+        const codeLookup = await pool.query(
+            'SELECT id FROM promotions WHERE code = $1 AND id IS DISTINCT FROM $2',
+            [input.code, promotionId]
+        );
+        if (codeLookup.rows.length > 0) {
+            return { valid: false, error: 'This discount code is already in use' };
+        }
+    }
+
+    if (promotionId === null) {
+        const result = await pool.query(
+            `INSERT INTO promotions
+                (author_address, book_id, title, code, percent_off, starts_at, ends_at, max_redemptions, per_wallet_limit, is_active)
+             VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()), $7, $8, $9, COALESCE($10, TRUE))
+             RETURNING ${PROMOTION_COLUMNS}`,
+            [
+                authorAddress,
+                input.bookId ?? null,
+                input.title,
+                input.code ?? null,
+                input.percentOff,
+                input.startsAt ?? null,
+                input.endsAt ?? null,
+                input.maxRedemptions ?? null,
+                input.perWalletLimit ?? null,
+                input.isActive ?? null,
+            ]
+        );
+        return { valid: true, promotion: mapPromotionRow(result.rows[0]) };
+    }
+
+    // Nullable columns are only touched when the request mentions them.
+    const updates: string[] = [];
+    const params: unknown[] = [promotionId, authorAddress];
+    const columns: Array<[keyof PromotionInput, string]> = [
+        ['bookId', 'book_id'],
+        ['title', 'title'],
+        ['code', 'code'],
+        ['percentOff', 'percent_off'],
+        ['startsAt', 'starts_at'],
+        ['endsAt', 'ends_at'],
+        ['maxRedemptions', 'max_redemptions'],
+        ['perWalletLimit', 'per_wallet_limit'],
+        ['isActive', 'is_active'],
+    ];
+    for (const [field, column] of columns) {
+        if (input[field] !== undefined) {
+            params.push(input[field]);
+            updates.push(`${column} = $${params.length}`);
+        }
+    }
+
+    const existing = await pool.query(
+        'SELECT starts_at, ends_at FROM promotions WHERE id = $1 AND author_address = $2',
+        [promotionId, authorAddress]
+    );
+    if (existing.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Promotion not found' };
+    }
+    const startsAt = input.startsAt ?? existing.rows[0].starts_at as Date;
+    const endsAt = input.endsAt !== undefined ? input.endsAt : existing.rows[0].ends_at as Date | null;
+    if (endsAt && endsAt <= startsAt) {
+        return { valid: false, error: 'endsAt must be after startsAt' };
+    }
+
+    const result = await pool.query(
+        `UPDATE promotions
+         SET ${updates.join(', ')}, updated_at = NOW()
+         WHERE id = $1 AND author_address = $2
+         RETURNING ${PROMOTION_COLUMNS}`,
+        params
+    );
+    return { valid: true, promotion: mapPromotionRow(result.rows[0]) };
+}
+
+/**
+ * Applies a discount code to a book for the reader. The code must belong to the book's author,
+ * cover the book, and be live and under its caps; it replaces any code claimed earlier.
+ */
+export async function claimDiscountCode(walletAddress: string, bookId: number, rawCode: unknown): Promise<{
+    valid: true;
+    promotion: Pick<Promotion, 'title' | 'code' | 'percentOff' | 'endsAt'>;
+} | {
+    valid: false;
+    error: string;
+}> {
+    const code = normalizeDiscountCode(rawCode);
+    if (!code) {
+        return { valid: false, error: 'Enter a valid discount code' };
+    }
+
+    const lookup = await pool.query(
+        `SELECT p.id, p.title, p.code, p.percent_off, p.ends_at,
+                (SELECT COUNT(*) FROM promotion_redemptions r
+                 WHERE r.promotion_id = p.id AND r.wallet_address = $3) AS wallet_redemptions,
+                p.per_wallet_limit
+         FROM promotions p
+         JOIN books b ON b.id = $2 AND b.author_address = p.author_address
+         WHERE p.code = $1
+           AND (p.book_id IS NULL OR p.book_id = $2)
+           AND ${livePromotionSql('p')}`,
+        [code, bookId, walletAddress]
+    );
+    const row = lookup.rows[0];
+    if (!row) {
+        return { valid: false, error: 'This code is not valid for this book' };
+    }
+    if (row.per_wallet_limit !== null && Number(row.wallet_redemptions) >= Number(row.per_wallet_limit)) {
+        return { valid: false, error: 'You have already used this code as many times as allowed' };
+    }
+
+    await pool.query(
+        `INSERT INTO reader_discount_claims (wallet_address, book_id, promotion_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (wallet_address, book_id)
+         DO UPDATE SET promotion_id = EXCLUDED.promotion_id, claimed_at = NOW()`,
+        [walletAddress, bookId, row.id]
+    );
+
+    return {
+        valid: true,
+        promotion: {
+            title: String(row.title),
+            code: String(row.code),
+            percentOff: Number(row.percent_off),
+            endsAt: row.ends_at as Date | null,
+        },
+    };
+}
+
+/** Best automatic (code-free) sale on the book right now, for display. */
+export async function getActiveSale(bookId: number): Promise<ActiveSale | null> {
+    const result = await pool.query(
+        `SELECT p.title, p.percent_off, p.ends_at
+         FROM promotions p
+         JOIN books b ON b.id = $1 AND b.author_address = p.author_address
+         WHERE p.code IS NULL
+           AND (p.book_id IS NULL OR p.book_id = $1)
+           AND ${livePromotionSql('p')}
+         ORDER BY p.percent_off DESC, p.id ASC
+         LIMIT 1`,
+        [bookId]
+    );
+    const row = result.rows[0];
+    return row
+        ? { title: String(row.title), percentOff: Number(row.percent_off), endsAt: row.ends_at as Date | null }
+        : null;
+}
+
+/**
+ * Picks the largest discount the reader can use on this book inside the caller's transaction:
+ * automatic sales plus the code they claimed for it. The promotion row stays locked so usage
+ * caps hold under concurrent unlocks.
+ */
+export async function findApplicableDiscount(
+    client: PoolClient,
+    walletAddress: string,
+    bookId: number,
+    listPrice: bigint
+): Promise<AppliedDiscount | null> {
+    if (listPrice <= BigInt(0)) {
+        return null;
+    }
+
+    const result = await client.query(
+        `SELECT p.id, p.code, p.percent_off
+         FROM promotions p
+         JOIN books b ON b.id = $2 AND b.author_address = p.author_address
+         WHERE (p.book_id IS NULL OR p.book_id = $2)
+           AND ${livePromotionSql('p')}
+           AND (
+             p.code IS NULL
+             OR EXISTS (
+                SELECT 1 FROM reader_discount_claims c
+                WHERE c.wallet_address = $1 AND c.book_id = $2 AND c.promotion_id = p.id
+             )
+           )
+           AND (
+             p.per_wallet_limit IS NULL
+             OR (SELECT COUNT(*) FROM promotion_redemptions r
+                 WHERE r.promotion_id = p.id AND r.wallet_address = $1) < p.per_wallet_limit
+           )
+         ORDER BY p.percent_off DESC, p.id ASC
+         LIMIT 1
+         FOR UPDATE OF p`,
+        [walletAddress, bookId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+        return null;
+    }
+
+    const percentOff = Number(row.percent_off);
+    return {
+        promotionId: Number(row.id),
+        code: row.code === null ? null : String(row.code),
+        percentOff,
+        listPrice,
+        discountAmount: (listPrice * BigInt(percentOff)) / BigInt(100),
+    };
+}
+
+/** Counts a discounted unlock against the promotion's caps. */
+export async function recordPromotionRedemption(
+    client: PoolClient,
+    discount: AppliedDiscount,
+    walletAddress: string,
+    bookId: number,
+    creditTransactionId: number
+): Promise<void> {
+    await client.query(
+        `INSERT INTO promotion_redemptions
+            (promotion_id, wallet_address, book_id, list_price, discount_amount, credit_transaction_id)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+            discount.promotionId,
+            walletAddress,
+            bookId,
+            discount.listPrice.toString(),
+            discount.discountAmount.toString(),
+            creditTransactionId,
+        ]
+    );
+    await client.query(
+        'UPDATE promotions SET redemption_count = redemption_count + 1 WHERE id = $1',
+        [discount.promotionId]
+    );
+}
+
+/**
+ * Gives a refunded unlock's redemption back, so it no longer counts against the promotion's caps.
+ * The deduction's metadata still records the discount that was applied.
+ */
+export async function releasePromotionRedemption(client: PoolClient, creditTransactionId: number): Promise<void> {
+    const released = await client.query(
+        `DELETE FROM promotion_redemptions
+         WHERE credit_transaction_id = $1
+         RETURNING promotion_id`,
+        [creditTransactionId]
+    );
+    for (const row of released.rows) {
+        await client.query(
+            'UPDATE promotions SET redemption_count = GREATEST(redemption_count - 1, 0) WHERE id = $1',
+            [row.promotion_id]
+        );
+    }
+}
+
+const PROMOTION_COLUMNS = `id, book_id, title, code, percent_off, starts_at, ends_at,
+    max_redemptions, per_wallet_limit, redemption_count, is_active, created_at`;
+
+/** Active, inside its date window and under the total usage cap. */
+function livePromotionSql(alias: string): string {
+    return `(${alias}.is_active
+        AND ${alias}.starts_at <= NOW()
+        AND (${alias}.ends_at IS NULL OR ${alias}.ends_at > NOW())
+        AND (${alias}.max_redemptions IS NULL OR ${alias}.redemption_count < ${alias}.max_redemptions))`;
+}
+
+function normalizeDiscountCode(value: unknown): string | null | undefined {
+    if (value === null || value === '') {
+        return null;
+    }
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const code = value.trim().toUpperCase();
+    return DISCOUNT_CODE_PATTERN.test(code) ? code : undefined;
+}
+
+function mapPromotionRow(row: Record<string, unknown>): Promotion {
+    return {
+        id: Number(row.id),
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        title: String(row.title),
+        code: row.code === null ? null : String(row.code),
+        percentOff: Number(row.percent_off),
+        startsAt: row.starts_at as Date,
+        endsAt: row.ends_at as Date | null,
+        maxRedemptions: row.max_redemptions === null ? null : Number(row.max_redemptions),
+        perWalletLimit: row.per_wallet_limit === null ? null : Number(row.per_wallet_limit),
+        redemptionCount: Number(row.redemption_count),
+        isActive: Boolean(row.is_active),
+        createdAt: row.created_at as Date,
+    };
+}
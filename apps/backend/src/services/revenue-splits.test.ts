@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AUTHOR, READER } from '../test/fixtures';
+import { allocateRevenueSplit, type RevenueSplitShare } from './revenue-splits';
+
+const ILLUSTRATOR = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+function total(parts: Array<{ amount: bigint }>): bigint {
+    return parts.reduce((sum, part) => sum + part.amount, BigInt(0));
+}
+
+describe('allocateRevenueSplit', () => {
+    it('gives the whole amount to a single payee', () => {
+        const parts = allocateRevenueSplit(BigInt(990), [{ payeeAddress: AUTHOR, role: 'author', shareBps: 10_000 }], AUTHOR);
+
+        expect(parts).toEqual([{ payeeAddress: AUTHOR, amount: BigInt(990) }]);
+    });
+
+    it('divides evenly when the shares leave no remainder', () => {
+        const parts = allocateRevenueSplit(BigInt(1000), [
+            { payeeAddress: AUTHOR, role: 'author', shareBps: 7000 },
+            { payeeAddress: ILLUSTRATOR, role: 'illustrator', shareBps: 3000 },
+        ], AUTHOR);
+
+        expect(parts).toEqual([
+            { payeeAddress: AUTHOR, amount: BigInt(700) },
+            { payeeAddress: ILLUSTRATOR, amount: BigInt(300) },
+        ]);
+    });
+
+    it('rounds each share down and gives the remainder to the owner', () => {
+        // The owner holds the smallest share, so the remainder must not follow share size.
+        const shares: RevenueSplitShare[] = [
+            { payeeAddress: ILLUSTRATOR, role: 'illustrator', shareBps: 3334 },
+            { payeeAddress: READER, role: 'translator', shareBps: 3333 },
+            { payeeAddress: AUTHOR, role: 'author', shareBps: 3333 },
+        ];
+
+        const parts = allocateRevenueSplit(BigInt(991), shares, AUTHOR);
+
+        // floor(991 * 3334 / 10000) = 330 and floor(991 * 3333 / 10000) = 330, leaving 1.
+        expect(parts).toEqual([
+            { payeeAddress: ILLUSTRATOR, amount: BigInt(330) },
+            { payeeAddress: READER, amount: BigInt(330) },
+            { payeeAddress: AUTHOR, amount: BigInt(331) },
+        ]);
+        expect(total(parts)).toBe(BigInt(991));
+    });
+
+    it('gives the remainder to the largest share when the owner is not a payee', () => {
+        const parts = allocateRevenueSplit(BigInt(7), [
+            { payeeAddress: ILLUSTRATOR, role: 'illustrator', shareBps: 5000 },
+            { payeeAddress: READER, role: 'translator', shareBps: 5000 },
+        ], AUTHOR);
+
+        expect(parts).toEqual([
+            { payeeAddress: ILLUSTRATOR, amount: BigInt(4) },
+            { payeeAddress: READER, amount: BigInt(3) },
+        ]);
+    });
+
+    it('leaves a share at zero when the amount is too small to reach it', () => {
+        const parts = allocateRevenueSplit(BigInt(3), [
+            { payeeAddress: AUTHOR, role: 'author', shareBps: 9999 },
+            { payeeAddress: ILLUSTRATOR, role: 'illustrator', shareBps: 1 },
+        ], AUTHOR);
+
+        expect(parts).toEqual([
+            { payeeAddress: AUTHOR, amount: BigInt(3) },
+            { payeeAddress: ILLUSTRATOR, amount: BigInt(0) },
+        ]);
+    });
+
+    it.each([1, 2, 99, 990, 1001, 123_457, 999_999_999])('sums to the charged amount of %i', (amount) => {
+        const parts = allocateRevenueSplit(BigInt(amount), [
+            { payeeAddress: ILLUSTRATOR, role: 'illustrator', shareBps: 4111 },
+            { payeeAddress: AUTHOR, role: 'author', shareBps: 2963 },
+            { payeeAddress: READER, role: 'editor', shareBps: 2926 },
+        ], AUTHOR);
+
+        expect(total(parts)).toBe(BigInt(amount));
+        for (const part of parts) {
+            expect(part.amount >= BigInt(0)).toBe(true);
+        }
+    });
+});
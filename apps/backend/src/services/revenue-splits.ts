@@ -0,0 +1,324 @@
+import type { PoolClient } from 'pg';
+import { validateStacksAddress } from '@stacks/transactions';
+import pool from '../db/client';
+
+const TOTAL_SHARE_BPS = 10_000;
+const MAX_SPLIT_PAYEES = 20;
+const MAX_SPLIT_NOTE_LENGTH = 500;
+
+export type SplitRole = 'author' | 'co_author' | 'illustrator' | 'translator' | 'editor' | 'other';
+
+export const SPLIT_ROLES: readonly SplitRole[] = ['author', 'co_author', 'illustrator', 'translator', 'editor', 'other'];
+
+export interface RevenueSplitShare {
+    payeeAddress: string;
+    role: SplitRole;
+    shareBps: number;
+}
+
+export interface BookSplitVersion {
+    id: number;
+    bookId: number;
+    createdBy: string;
+    note: string | null;
+    createdAt: Date;
+    shares: RevenueSplitShare[];
+}
+
+/** A book the wallet owns or is paid from, with the split that applies to new charges. */
+export interface ContributorBookSplit {
+    bookId: number;
+    bookTitle: string;
+    ownerAddress: string;
+    current: BookSplitVersion;
+}
+
+/** The split in force for a book; `versionId` is null when the owner takes the whole share. */
+export interface ActiveRevenueSplit {
+    versionId: number | null;
+    shares: RevenueSplitShare[];
+}
+
+export function isSplitRole(value: unknown): value is SplitRole {
+    return typeof value === 'string' && (SPLIT_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates `{ shares: [{ payeeAddress, role, shareBps }], note? }`. Shares are in basis points
+ * and must add up to exactly 10000.
+ */
+export function parseRevenueSplitInput(body: unknown): {
+    valid: true;
+    shares: RevenueSplitShare[];
+    note: string | null;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    if (!Array.isArray(source.shares) || source.shares.length === 0 || source.shares.length > MAX_SPLIT_PAYEES) {
+        return { valid: false, error: `shares must list 1-${MAX_SPLIT_PAYEES} payees` };
+    }
+
+    const shares: RevenueSplitShare[] = [];
+    let total = 0;
+    for (const entry of source.shares) {
+        const share = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+        const payeeAddress = typeof share.payeeAddress === 'string' ? share.payeeAddress.trim() : '';
+        if (!payeeAddress || !validateStacksAddress(payeeAddress)) {
+            return { valid: false, error: 'Each payeeAddress must be a valid Stacks address' };
+        }
+        if (shares.some((existing) => existing.payeeAddress === payeeAddress)) {
+            return { valid: false, error: `${payeeAddress} is listed more than once` };
+        }
+
+        const role = share.role ?? 'co_author';
+        if (!isSplitRole(role)) {
+            return { valid: false, error: `role must be one of ${SPLIT_ROLES.join(', ')}` };
+        }
+
+        const shareBps = Number(share.shareBps);
+        if (!Number.isInteger(shareBps) || shareBps < 1 || shareBps > TOTAL_SHARE_BPS) {
+            return { valid: false, error: `shareBps must be an integer between 1 and ${TOTAL_SHARE_BPS}` };
+        }
+
+        total += shareBps;
+        shares.push({ payeeAddress, role, shareBps });
+    }
+
+    if (total !== TOTAL_SHARE_BPS) {
+        return { valid: false, error: `shareBps must add up to ${TOTAL_SHARE_BPS} (got ${total})` };
+    }
+
+    if (source.note !== undefined && source.note !== null && typeof source.note !== 'string') {
+        return { valid: false, error: 'note must be a string' };
+    }
+    const note = typeof source.note === 'string' ? source.note.trim() : '';
+    if (note.length > MAX_SPLIT_NOTE_LENGTH) {
+        return { valid: false, error: `note must be at most ${MAX_SPLIT_NOTE_LENGTH} characters` };
+    }
+
+    return { valid: true, shares, note: note || null };
+}
+
+/** Records a new split version for an owned book. Charges already made keep their old split. */
+export async function saveBookRevenueSplit(
+    authorAddress: string,
+    bookId: number,
+    shares: RevenueSplitShare[],
+    note: string | null
+): Promise<{
+    valid: true;
+    version: BookSplitVersion;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const client = await pool.connect();
+    let rolledBack = false;
+
+    try {
+        await client.query('BEGIN');
+
+        const ownership = await client.query(
+            'SELECT id FROM books WHERE id = $1 AND author_address = $2',
+            [bookId, authorAddress]
+        );
+        if (ownership.rows.length === 0) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+            return { valid: false, notFound: true, error: 'Book not found for this author' };
+        }
+
+        const versionInsert = await client.query(
+            `INSERT INTO book_split_versions (book_id, created_by, note)
+             VALUES ($1, $2, $3)
+             RETURNING id`,
+            [bookId, authorAddress, note]
+        );
+        const versionId = Number(versionInsert.rows[0].id);
+
+        await client.query(
+            `INSERT INTO book_revenue_splits (version_id, payee_address, role, share_bps)
+             SELECT $1, payee_address, role, share_bps
+             FROM unnest($2::varchar[], $3::varchar[], $4::int[]) AS s(payee_address, role, share_bps)`,
+            [
+                versionId,
+                shares.map((share) => share.payeeAddress),
+                shares.map((share) => share.role),
+                shares.map((share) => share.shareBps),
+            ]
+        );
+
+        await client.query('COMMIT');
+        const versions = await loadSplitVersions('v.id = $1', [versionId]);
+        return { valid: true, version: versions[0] };
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Every split version of a book, newest first. Visible to the owner and to anyone who is or
+ * was a payee; everyone else gets null.
+ */
+export async function listBookSplitHistory(walletAddress: string, bookId: number): Promise<BookSplitVersion[] | null> {
+    const access = await pool.query(
+        `SELECT 1
+         FROM books b
+         WHERE b.id = $1
+           AND (
+               b.author_address = $2
+               OR EXISTS (
+                   SELECT 1
+                   FROM book_split_versions v
+                   JOIN book_revenue_splits s ON s.version_id = v.id
+                   WHERE v.book_id = b.id AND s.payee_address = $2
+               )
+           )`,
+        [bookId, walletAddress.trim()]
+    );
+    if (access.rows.length === 0) {
+        return null;
+    }
+
+    return loadSplitVersions('v.book_id = $1', [bookId]);
+}
+
+/** Books with a split that the wallet owns or has ever been paid from, and their current split. */
+export async function listContributorSplits(walletAddress: string): Promise<ContributorBookSplit[]> {
+    const normalizedWallet = walletAddress.trim();
+    const books = await pool.query(
+        `SELECT b.id, b.title, b.author_address,
+                (SELECT MAX(v.id) FROM book_split_versions v WHERE v.book_id = b.id) AS current_version_id
+         FROM books b
+         WHERE EXISTS (SELECT 1 FROM book_split_versions v WHERE v.book_id = b.id)
+           AND (
+               b.author_address = $1
+               OR EXISTS (
+                   SELECT 1
+                   FROM book_split_versions v
+                   JOIN book_revenue_splits s ON s.version_id = v.id
+                   WHERE v.book_id = b.id AND s.payee_address = $1
+               )
+           )
+         ORDER BY b.title ASC`,
+        [normalizedWallet]
+    );
+    if (books.rows.length === 0) {
+        return [];
+    }
+
+    const versions = await loadSplitVersions(
+        'v.id = ANY($1::int[])',
+        [books.rows.map((row) => Number(row.current_version_id))]
+    );
+    const versionsById = new Map(versions.map((version) => [version.id, version]));
+
+    return books.rows.map((row) => ({
+        bookId: Number(row.id),
+        bookTitle: String(row.title),
+        ownerAddress: String(row.author_address),
+        current: versionsById.get(Number(row.current_version_id))!,
+    }));
+}
+
+/**
+ * The split in force for `bookId`, read inside the charge transaction. Falls back to the whole
+ * share for `ownerAddress` when the book has no split.
+ */
+export async function loadActiveRevenueSplit(
+    client: PoolClient,
+    bookId: number,
+    ownerAddress: string
+): Promise<ActiveRevenueSplit> {
+    const lookup = await client.query(
+        `SELECT s.version_id, s.payee_address, s.role, s.share_bps
+         FROM book_revenue_splits s
+         WHERE s.version_id = (
+             SELECT v.id FROM book_split_versions v
+             WHERE v.book_id = $1
+             ORDER BY v.id DESC
+             LIMIT 1
+         )
+         ORDER BY s.share_bps DESC, s.id ASC`,
+        [bookId]
+    );
+    if (lookup.rows.length === 0) {
+        return {
+            versionId: null,
+            shares: [{ payeeAddress: ownerAddress, role: 'author', shareBps: TOTAL_SHARE_BPS }],
+        };
+    }
+
+    return {
+        versionId: Number(lookup.rows[0].version_id),
+        shares: lookup.rows.map(mapShareRow),
+    };
+}
+
+/**
+ * Divides `amount` by basis points, rounding each share down. The rounding remainder goes to the
+ * book owner's share, or to the first (largest) share when the owner is not a payee, so the parts
+ * always add up to `amount`.
+ */
+export function allocateRevenueSplit(
+    amount: bigint,
+    shares: RevenueSplitShare[],
+    ownerAddress: string
+): Array<{ payeeAddress: string; amount: bigint }> {
+    const parts = shares.map((share) => ({
+        payeeAddress: share.payeeAddress,
+        amount: (amount * BigInt(share.shareBps)) / BigInt(TOTAL_SHARE_BPS),
+    }));
+    const allocated = parts.reduce((sum, part) => sum + part.amount, BigInt(0));
+    const remainderPart = parts.find((part) => part.payeeAddress === ownerAddress) ?? parts[0];
+    if (remainderPart) {
+        remainderPart.amount += amount - allocated;
+    }
+    return parts;
+}
+
+async function loadSplitVersions(where: string, params: unknown[]): Promise<BookSplitVersion[]> {
+    const result = await pool.query(
+        `SELECT v.id, v.book_id, v.created_by, v.note, v.created_at,
+                s.payee_address, s.role, s.share_bps
+         FROM book_split_versions v
+         JOIN book_revenue_splits s ON s.version_id = v.id
+         WHERE ${where}
+         ORDER BY v.id DESC, s.share_bps DESC, s.id ASC`,
+        params
+    );
+
+    const versions = new Map<number, BookSplitVersion>();
+    for (const row of result.rows) {
+        const versionId = Number(row.id);
+        if (!versions.has(versionId)) {
+            versions.set(versionId, {
+                id: versionId,
+                bookId: Number(row.book_id),
+                createdBy: String(row.created_by),
+                note: row.note === null ? null : String(row.note),
+                createdAt: row.created_at as Date,
+                shares: [],
+            });
+        }
+        versions.get(versionId)!.shares.push(mapShareRow(row));
+    }
+
+    return Array.from(versions.values());
+}
+
+function mapShareRow(row: Record<string, unknown>): RevenueSplitShare {
+    return {
+        payeeAddress: String(row.payee_address),
+        role: row.role as SplitRole,
+        shareBps: Number(row.share_bps),
+    };
+}
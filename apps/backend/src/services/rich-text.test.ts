@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './rich-text';
+
+describe('sanitizeHtml', () => {
+    it('keeps allowed tags and text', () => {
+        expect(sanitizeHtml('<h2>Title</h2><p>Some <strong>bold</strong> text</p>'))
+            .toBe('<h2>Title</h2><p>Some <strong>bold</strong> text</p>');
+    });
+
+    describe('script-like elements', () => {
+        it('removes script tags with their content', () => {
+            expect(sanitizeHtml('<p>a<script>alert(1)</script>b</p>')).toBe('<p>ab</p>');
+        });
+
+        it('removes style tags with their content', () => {
+            expect(sanitizeHtml('<style>p { display: none }</style><p>x</p>')).toBe('<p>x</p>');
+        });
+
+        it('removes script nested inside svg', () => {
+            expect(sanitizeHtml('<svg><script>alert(1)</script></svg>ok')).toBe('ok');
+        });
+
+        it('drops everything after an unclosed script tag', () => {
+            expect(sanitizeHtml('<p>a<script>alert(1)')).toBe('<p>a</p>');
+        });
+
+        it('tracks nested script tags until the outer one closes', () => {
+            expect(sanitizeHtml('<script><script>x</script>y</script>z')).toBe('z');
+        });
+
+        it('removes comments, including ones hiding markup', () => {
+            expect(sanitizeHtml('<!-- <script>alert(1)</script> -->ok')).toBe('ok');
+        });
+    });
+
+    describe('attributes', () => {
+        it('strips event handler attributes', () => {
+            expect(sanitizeHtml('<p onclick="steal()" onmouseover=\'x\'>x</p>')).toBe('<p>x</p>');
+        });
+
+        it('keeps only the attributes allowed for the tag', () => {
+            expect(sanitizeHtml('<td colspan="2" style="color:red" onclick="x">x</td>'))
+                .toBe('<td colspan="2">x</td>');
+        });
+
+        it('ignores a > inside a quoted attribute value', () => {
+            expect(sanitizeHtml('<p title="a>b" onclick="x">x</p>')).toBe('<p>x</p>');
+        });
+
+        it('unwraps disallowed tags along with their handlers', () => {
+            expect(sanitizeHtml('<img src=x onerror=alert(1)>caption')).toBe('caption');
+        });
+    });
+
+    describe('link targets', () => {
+        it('keeps http links and adds rel', () => {
+            expect(sanitizeHtml('<a href="https://example.com/?a=1&b=2" title="t">x</a>'))
+                .toBe('<a href="https://example.com/?a=1&amp;b=2" title="t" rel="nofollow noopener noreferrer">x</a>');
+        });
+
+        it('keeps mailto and relative links', () => {
+            expect(sanitizeHtml('<a href="mailto:a@example.com">m</a><a href="/books/1">r</a>'))
+                .toBe('<a href="mailto:a@example.com" rel="nofollow noopener noreferrer">m</a>'
+                    + '<a href="/books/1" rel="nofollow noopener noreferrer">r</a>');
+        });
+
+        it.each([
+            'javascript:alert(1)',
+            'JavaScript:alert(1)',
+            'java\nscript:alert(1)',
+            ' javascript:alert(1)',
+            'JaVa&#x09;ScRiPt:alert(1)',
+            'javascript&#58;alert(1)',
+            'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+            'DATA:image/svg+xml,<svg onload=alert(1)>',
+            'vbscript:msgbox(1)',
+        ])('drops the href %j', (href) => {
+            expect(sanitizeHtml(`<a href="${href}">x</a>`)).toBe('<a>x</a>');
+        });
+    });
+
+    describe('nested and malformed markup', () => {
+        it('closes tags left open inside a closing parent', () => {
+            expect(sanitizeHtml('<div><p><em>x</div>y')).toBe('<div><p><em>x</em></p></div>y');
+        });
+
+        it('closes tags left open at the end', () => {
+            expect(sanitizeHtml('<blockquote><p><strong>x')).toBe('<blockquote><p><strong>x</strong></p></blockquote>');
+        });
+
+        it('drops stray closing tags', () => {
+            expect(sanitizeHtml('</p>x</strong>')).toBe('x');
+        });
+
+        it('escapes bare angle brackets and ampersands', () => {
+            expect(sanitizeHtml('a < b > c & d &amp; e')).toBe('a &lt; b &gt; c &amp; d &amp; e');
+        });
+
+        it('escapes an unterminated tag as text', () => {
+            expect(sanitizeHtml('x<b')).toBe('x&lt;b');
+        });
+
+        it('does not reassemble a script tag split around another tag', () => {
+            const output = sanitizeHtml('<scr<script>ipt>alert(1)</script>');
+
+            expect(output).not.toMatch(/<script/i);
+            expect(output).toBe('ipt&gt;alert(1)');
+        });
+    });
+});
@@ -0,0 +1,233 @@
+export type PageContentFormat = 'text' | 'markdown' | 'html';
+
+export const PAGE_CONTENT_FORMATS: readonly PageContentFormat[] = ['text', 'markdown', 'html'];
+
+const ALLOWED_TAGS = new Set([
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'em', 'strong', 'i', 'b', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup',
+    'blockquote', 'q', 'cite', 'code', 'pre', 'kbd', 'abbr',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+    'a', 'span', 'div', 'section', 'figure', 'figcaption',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Dropped together with everything inside them.
+const DROPPED_CONTENT_TAGS = new Set([
+    'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template',
+    'svg', 'math', 'head', 'title', 'textarea', 'select',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, readonly string[]> = {
+    a: ['href', 'title'],
+    abbr: ['title'],
+    ol: ['start'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>|[<>]/g;
+const ATTRIBUTE_PATTERN = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+export function isPageContentFormat(value: unknown): value is PageContentFormat {
+    return typeof value === 'string' && (PAGE_CONTENT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Allowlist HTML sanitizer for author-supplied pages. Unknown tags are unwrapped,
+ * script-like elements are removed with their content, attributes are limited per tag,
+ * links must be http(s), mailto or relative, and unclosed tags are closed.
+ */
+export function sanitizeHtml(input: string): string {
+    const output: string[] = [];
+    const openTags: string[] = [];
+    let droppedTag: string | null = null;
+    let droppedDepth = 0;
+    let lastIndex = 0;
+
+    for (const match of input.matchAll(TOKEN_PATTERN)) {
+        const index = match.index ?? 0;
+        if (!droppedTag) {
+            output.push(escapeText(input.slice(lastIndex, index)));
+        }
+        lastIndex = index + match[0].length;
+
+        const tagName = match[2]?.toLowerCase();
+        if (!tagName) {
+            // Comment, or a bare angle bracket that is not part of a tag.
+            if (!droppedTag && !match[0].startsWith('<!--')) {
+                output.push(match[0] === '<' ? '&lt;' : '&gt;');
+            }
+            continue;
+        }
+
+        const isClosing = match[1] === '/';
+
+        if (droppedTag) {
+            if (tagName === droppedTag) {
+                droppedDepth += isClosing ? -1 : 1;
+                if (droppedDepth === 0) {
+                    droppedTag = null;
+                }
+            }
+            continue;
+        }
+
+        if (DROPPED_CONTENT_TAGS.has(tagName)) {
+            if (!isClosing && !match[3].trim().endsWith('/')) {
+                droppedTag = tagName;
+                droppedDepth = 1;
+            }
+            continue;
+        }
+
+        if (!ALLOWED_TAGS.has(tagName)) {
+            continue;
+        }
+
+        if (isClosing) {
+            const openIndex = openTags.lastIndexOf(tagName);
+            if (openIndex === -1) {
+                continue;
+            }
+            while (openTags.length > openIndex) {
+                output.push(`</${openTags.pop()}>`);
+            }
+            continue;
+        }
+
+        output.push(`<${tagName}${sanitizeAttributes(tagName, match[3])}>`);
+        if (!VOID_TAGS.has(tagName)) {
+            openTags.push(tagName);
+        }
+    }
+
+    if (!droppedTag) {
+        output.push(escapeText(input.slice(lastIndex)));
+    }
+    while (openTags.length > 0) {
+        output.push(`</${openTags.pop()}>`);
+    }
+
+    return output.join('').trim();
+}
+
+/**
+ * Markdown is stored as source and rendered by the reader, which does not interpret
+ * embedded HTML. Raw tags are still removed here and unsafe link targets neutralized
+ * so the stored source is safe for any other consumer.
+ */
+export function sanitizeMarkdown(input: string): string {
+    const withoutDroppedBlocks = input.replace(
+        /<(script|style|iframe|object|embed|noscript|template|svg|math)\b[\s\S]*?<\/\1\s*>/gi,
+        ''
+    );
+
+    return withoutDroppedBlocks
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<\/?[a-zA-Z][a-zA-Z0-9]*\b(?:[^>"']|"[^"]*"|'[^']*')*>/g, '')
+        .replace(/\]\(\s*<?\s*([^\s()>]*(?:\([^)]*\)[^\s()>]*)*)/g, (link, destination: string) => (
+            isSafeUrl(destination) ? link : '](#'
+        ))
+        .trim();
+}
+
+/** Plain-text projection stored alongside rich pages for search indexing. */
+export function richTextToPlainText(source: string, format: PageContentFormat): string {
+    if (format === 'html') {
+        return decodeBasicEntities(
+            source
+                .replace(/<br\s*\/?>/gi, '\n')
+                .replace(/<\/(?:p|div|h[1-6]|li|blockquote|pre|tr|section|figure)>/gi, '\n\n')
+                .replace(/<[^>]*>/g, '')
+        )
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    if (format === 'markdown') {
+        return source
+            .replace(/```[^\n]*\n?/g, '')
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/^\s{0,3}(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, '')
+            .replace(/(\*\*|__|\*|_|~~|`)/g, '')
+            .trim();
+    }
+
+    return source.trim();
+}
+
+function sanitizeAttributes(tagName: string, rawAttributes: string): string {
+    const allowed = ALLOWED_ATTRIBUTES[tagName];
+    if (!allowed) {
+        return '';
+    }
+
+    const attributes: string[] = [];
+    for (const match of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+        const name = match[1].toLowerCase();
+        const value = decodeBasicEntities(match[2] ?? match[3] ?? match[4] ?? '');
+        if (!allowed.includes(name) || attributes.some((entry) => entry.startsWith(`${name}=`))) {
+            continue;
+        }
+
+        if (name === 'href' && !isSafeUrl(value)) {
+            continue;
+        }
+        if ((name === 'start' || name === 'colspan' || name === 'rowspan') && !/^\d{1,4}$/.test(value.trim())) {
+            continue;
+        }
+
+        attributes.push(`${name}="${escapeAttribute(value.trim())}"`);
+    }
+
+    if (tagName === 'a' && attributes.some((entry) => entry.startsWith('href='))) {
+        attributes.push('rel="nofollow noopener noreferrer"');
+    }
+
+    return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+function isSafeUrl(value: string): boolean {
+    // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:").
+    const normalized = value.replace(/[\u0000- \u007f]+/g, '').toLowerCase();
+    if (!normalized) {
+        return true;
+    }
+
+    const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+    return !scheme || scheme === 'http' || scheme === 'https' || scheme === 'mailto';
+}
+
+function escapeText(value: string): string {
+    // Keep existing entities (&amp;, &#8212;) but escape bare ampersands.
+    return value.replace(/&(?!(?:[a-z][a-z0-9]*|#\d+|#x[0-9a-f]+);)/gi, '&amp;');
+}
+
+function escapeAttribute(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+function decodeBasicEntities(value: string): string {
+    return value
+        .replace(/&#x([0-9a-f]+);/gi, (entity, hex: string) => safeFromCodePoint(Number.parseInt(hex, 16), entity))
+        .replace(/&#(\d+);/g, (entity, decimal: string) => safeFromCodePoint(Number.parseInt(decimal, 10), entity))
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&lt;/gi, '<')
+        .replace(/&gt;/gi, '>')
+        .replace(/&quot;/gi, '"')
+        .replace(/&#39;|&apos;/gi, "'")
+        .replace(/&amp;/gi, '&');
+}
+
+function safeFromCodePoint(codePoint: number, fallback: string): string {
+    return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : fallback;
+}
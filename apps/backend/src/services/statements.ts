@@ -0,0 +1,390 @@
+import pool from '../db/client';
+
+export const STATEMENT_DEFAULT_LIMIT = 50;
+export const STATEMENT_MAX_LIMIT = 100;
+export const STATEMENT_EXPORT_MAX_ROWS = 5000;
+
+export type CreditTransactionType =
+    | 'deposit'
+    | 'deduction'
+    | 'refund'
+    | 'gift_sent'
+    | 'gift_received'
+    | 'withdrawal_hold'
+    | 'withdrawal_release';
+
+export const CREDIT_TRANSACTION_TYPES: readonly CreditTransactionType[] = [
+    'deposit',
+    'deduction',
+    'refund',
+    'gift_sent',
+    'gift_received',
+    'withdrawal_hold',
+    'withdrawal_release',
+];
+
+export type StatementFormat = 'csv' | 'json';
+
+export interface StatementFilters {
+    types: CreditTransactionType[];
+    bookId: number | null;
+    from: Date | null;
+    /** Exclusive upper bound; a date-only `to` covers that whole day. */
+    to: Date | null;
+    limit: number;
+    /** Id of the last row on the previous page. */
+    beforeId: number | null;
+}
+
+/** What a deduction unlocked; null once the unlock was refunded or for other transaction types. */
+export interface StatementUnlock {
+    kind: 'page' | 'chapter' | 'book' | 'bundle' | 'subscription';
+    bundleId: number | null;
+    subscriptionId: number | null;
+    unlockedAt: Date | null;
+}
+
+export interface CreditStatementEntry {
+    id: number;
+    type: CreditTransactionType;
+    source: string | null;
+    amount: string;
+    balanceAfter: string;
+    bookId: number | null;
+    bookTitle: string | null;
+    pageNumber: number | null;
+    chapterNumber: number | null;
+    referenceId: string | null;
+    depositTxHash: string | null;
+    withdrawalTxHash: string | null;
+    unlock: StatementUnlock | null;
+    createdAt: Date;
+}
+
+export interface CreditStatementPage {
+    transactions: CreditStatementEntry[];
+    nextCursor: string | null;
+}
+
+export interface CreditStatement {
+    walletAddress: string;
+    generatedAt: Date;
+    totalIn: string;
+    totalOut: string;
+    truncated: boolean;
+    transactions: CreditStatementEntry[];
+}
+
+const CSV_COLUMNS = [
+    'id',
+    'created_at',
+    'type',
+    'source',
+    'amount_microstx',
+    'balance_after_microstx',
+    'book_id',
+    'book_title',
+    'page_number',
+    'chapter_number',
+    'unlock',
+    'reference_id',
+    'deposit_tx_hash',
+    'withdrawal_tx_hash',
+];
+
+/**
+ * Validates statement query parameters: `type` (comma-separated), `bookId`, `from`, `to`
+ * (ISO dates), `limit` and `cursor`.
+ */
+export function parseStatementFilters(query: Record<string, unknown>): {
+    valid: true;
+    filters: StatementFilters;
+} | {
+    valid: false;
+    error: string;
+} {
+    const types: CreditTransactionType[] = [];
+    const rawTypes = readStringParam(query.type);
+    if (rawTypes) {
+        for (const rawType of rawTypes.split(',')) {
+            const type = rawType.trim();
+            if (!isCreditTransactionType(type)) {
+                return { valid: false, error: `type must be one of ${CREDIT_TRANSACTION_TYPES.join(', ')}` };
+            }
+            if (!types.includes(type)) {
+                types.push(type);
+            }
+        }
+    }
+
+    let bookId: number | null = null;
+    const rawBookId = readStringParam(query.bookId);
+    if (rawBookId !== undefined) {
+        bookId = /^\d+$/.test(rawBookId) ? Number(rawBookId) : NaN;
+        if (!Number.isSafeInteger(bookId) || bookId < 1) {
+            return { valid: false, error: 'bookId must be a positive integer' };
+        }
+    }
+
+    const from = parseStatementDate(readStringParam(query.from), false);
+    const to = parseStatementDate(readStringParam(query.to), true);
+    if (from === undefined || to === undefined) {
+        return { valid: false, error: 'from and to must be ISO dates (YYYY-MM-DD or a full timestamp)' };
+    }
+    if (from && to && from >= to) {
+        return { valid: false, error: 'from must be before to' };
+    }
+
+    let limit = STATEMENT_DEFAULT_LIMIT;
+    const rawLimit = readStringParam(query.limit);
+    if (rawLimit !== undefined) {
+        limit = /^\d+$/.test(rawLimit) ? Number(rawLimit) : NaN;
+        if (!Number.isInteger(limit) || limit < 1 || limit > STATEMENT_MAX_LIMIT) {
+            return { valid: false, error: `limit must be between 1 and ${STATEMENT_MAX_LIMIT}` };
+        }
+    }
+
+    let beforeId: number | null = null;
+    const rawCursor = readStringParam(query.cursor);
+    if (rawCursor !== undefined) {
+        beforeId = decodeStatementCursor(rawCursor);
+        if (beforeId === null) {
+            return { valid: false, error: 'Invalid cursor' };
+        }
+    }
+
+    return { valid: true, filters: { types, bookId, from, to, limit, beforeId } };
+}
+
+export function isStatementFormat(value: unknown): value is StatementFormat {
+    return value === 'csv' || value === 'json';
+}
+
+/**
+ * One page of the reader's credit ledger, newest first. Pages are keyset-paginated on the
+ * transaction id so new deposits or unlocks never shift later pages.
+ */
+export async function listCreditTransactions(
+    walletAddress: string,
+    filters: StatementFilters
+): Promise<CreditStatementPage> {
+    const rows = await queryStatementRows(walletAddress, filters, filters.limit + 1);
+    const hasMore = rows.length > filters.limit;
+    const transactions = rows.slice(0, filters.limit).map(mapStatementRow);
+    const last = transactions[transactions.length - 1];
+
+    return {
+        transactions,
+        nextCursor: hasMore && last ? encodeStatementCursor(last.id) : null,
+    };
+}
+
+/**
+ * The full statement for the filters, capped at STATEMENT_EXPORT_MAX_ROWS. Totals cover only the
+ * rows returned, so a truncated statement should be narrowed by date range.
+ */
+export async function buildCreditStatement(
+    walletAddress: string,
+    filters: StatementFilters
+): Promise<CreditStatement> {
+    const rows = await queryStatementRows(
+        walletAddress,
+        { ...filters, beforeId: null },
+        STATEMENT_EXPORT_MAX_ROWS + 1
+    );
+    const transactions = rows.slice(0, STATEMENT_EXPORT_MAX_ROWS).map(mapStatementRow);
+
+    let totalIn = BigInt(0);
+    let totalOut = BigInt(0);
+    for (const transaction of transactions) {
+        const amount = BigInt(transaction.amount);
+        if (amount >= BigInt(0)) {
+            totalIn += amount;
+        } else {
+            totalOut -= amount;
+        }
+    }
+
+    return {
+        walletAddress: walletAddress.trim(),
+        generatedAt: new Date(),
+        totalIn: totalIn.toString(),
+        totalOut: totalOut.toString(),
+        truncated: rows.length > STATEMENT_EXPORT_MAX_ROWS,
+        transactions,
+    };
+}
+
+/** Renders a statement as RFC 4180 CSV with a header row. */
+export function formatStatementCsv(statement: CreditStatement): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of statement.transactions) {
+        lines.push([
+            String(entry.id),
+            entry.createdAt.toISOString(),
+            entry.type,
+            csvText(entry.source),
+            entry.amount,
+            entry.balanceAfter,
+            entry.bookId === null ? '' : String(entry.bookId),
+            csvText(entry.bookTitle),
+            entry.pageNumber === null ? '' : String(entry.pageNumber),
+            entry.chapterNumber === null ? '' : String(entry.chapterNumber),
+            entry.unlock ? entry.unlock.kind : '',
+            csvText(entry.referenceId),
+            entry.depositTxHash ?? '',
+            entry.withdrawalTxHash ?? '',
+        ].join(','));
+    }
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+export function encodeStatementCursor(id: number): string {
+    return Buffer.from(JSON.stringify([id]), 'utf-8').toString('base64url');
+}
+
+export function decodeStatementCursor(raw: string): number | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+        if (!Array.isArray(parsed) || parsed.length !== 1) {
+            return null;
+        }
+
+        const [id] = parsed;
+        return Number.isInteger(id) && id >= 1 ? id : null;
+    } catch {
+        return null;
+    }
+}
+
+export function isCreditTransactionType(value: unknown): value is CreditTransactionType {
+    return typeof value === 'string' && (CREDIT_TRANSACTION_TYPES as readonly string[]).includes(value);
+}
+
+async function queryStatementRows(
+    walletAddress: string,
+    filters: StatementFilters,
+    rowLimit: number
+): Promise<Array<Record<string, unknown>>> {
+    const params: unknown[] = [walletAddress.trim()];
+    const where: string[] = ['ct.wallet_address = $1'];
+    const addParam = (value: unknown): string => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+
+    if (filters.types.length > 0) {
+        where.push(`ct.tx_type = ANY(${addParam(filters.types)}::varchar[])`);
+    }
+    if (filters.bookId !== null) {
+        where.push(`ct.book_id = ${addParam(filters.bookId)}`);
+    }
+    if (filters.from) {
+        where.push(`ct.created_at >= ${addParam(filters.from)}`);
+    }
+    if (filters.to) {
+        where.push(`ct.created_at < ${addParam(filters.to)}`);
+    }
+    if (filters.beforeId !== null) {
+        where.push(`ct.id < ${addParam(filters.beforeId)}`);
+    }
+
+    // Each unlock and withdrawal table links back to at most one row per credit transaction.
+    const result = await pool.query(
+        `SELECT ct.id, ct.tx_type, ct.metadata->>'source' AS source, ct.amount, ct.balance_after,
+                ct.book_id, b.title AS book_title, ct.page_number, ct.chapter_number, ct.reference_id,
+                ct.chain_tx_hash, w.payout_tx_hash AS withdrawal_tx_hash, ct.created_at,
+                CASE
+                    WHEN pu.id IS NOT NULL THEN 'page'
+                    WHEN cu.id IS NOT NULL THEN 'chapter'
+                    WHEN e.id IS NOT NULL THEN e.scope
+                    WHEN s.id IS NOT NULL THEN 'subscription'
+                END AS unlock_kind,
+                e.bundle_id AS unlock_bundle_id,
+                s.id AS unlock_subscription_id,
+                COALESCE(pu.unlocked_at, cu.unlocked_at, e.unlocked_at, s.created_at) AS unlocked_at
+         FROM credit_transactions ct
+         LEFT JOIN books b ON b.id = ct.book_id
+         LEFT JOIN reader_page_unlocks pu ON pu.credit_transaction_id = ct.id
+         LEFT JOIN reader_chapter_unlocks cu ON cu.credit_transaction_id = ct.id
+         LEFT JOIN reader_book_entitlements e ON e.credit_transaction_id = ct.id
+         LEFT JOIN reader_subscriptions s ON s.credit_transaction_id = ct.id
+         LEFT JOIN credit_withdrawals w
+           ON ct.id IN (w.hold_credit_transaction_id, w.release_credit_transaction_id)
+         WHERE ${where.join(' AND ')}
+         ORDER BY ct.id DESC
+         LIMIT ${addParam(rowLimit)}`,
+        params
+    );
+    return result.rows;
+}
+
+/**
+ * Returns null when absent and undefined when unparseable. A date-only upper bound is moved to the
+ * start of the next day so `to` includes the day it names.
+ */
+function parseStatementDate(raw: string | undefined, upperBound: boolean): Date | null | undefined {
+    if (raw === undefined) {
+        return null;
+    }
+
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(raw);
+    if (!dateOnly && !/^\d{4}-\d{2}-\d{2}T/.test(raw)) {
+        return undefined;
+    }
+
+    const parsed = new Date(dateOnly ? `${raw}T00:00:00.000Z` : raw);
+    if (Number.isNaN(parsed.getTime())) {
+        return undefined;
+    }
+    if (dateOnly && upperBound) {
+        parsed.setUTCDate(parsed.getUTCDate() + 1);
+    }
+    return parsed;
+}
+
+/** Quotes a free-text cell and defuses leading formula characters for spreadsheet imports. */
+function csvText(value: string | null): string {
+    if (value === null || value === '') {
+        return '';
+    }
+
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function readStringParam(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+    return trimmed || undefined;
+}
+
+function mapStatementRow(row: Record<string, unknown>): CreditStatementEntry {
+    const unlockKind = row.unlock_kind === null ? null : String(row.unlock_kind) as StatementUnlock['kind'];
+    return {
+        id: Number(row.id),
+        type: row.tx_type as CreditTransactionType,
+        source: row.source === null ? null : String(row.source),
+        amount: String(row.amount),
+        balanceAfter: String(row.balance_after),
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        bookTitle: row.book_title === null ? null : String(row.book_title),
+        pageNumber: row.page_number === null ? null : Number(row.page_number),
+        chapterNumber: row.chapter_number === null ? null : Number(row.chapter_number),
+        referenceId: row.reference_id === null ? null : String(row.reference_id),
+        depositTxHash: row.tx_type === 'deposit' && row.chain_tx_hash !== null ? String(row.chain_tx_hash) : null,
+        withdrawalTxHash: row.withdrawal_tx_hash === null ? null : String(row.withdrawal_tx_hash),
+        unlock: unlockKind
+            ? {
+                kind: unlockKind,
+                bundleId: row.unlock_bundle_id === null ? null : Number(row.unlock_bundle_id),
+                subscriptionId: row.unlock_subscription_id === null ? null : Number(row.unlock_subscription_id),
+                unlockedAt: (row.unlocked_at as Date | null) ?? null,
+            }
+            : null,
+        createdAt: row.created_at as Date,
+    };
+}
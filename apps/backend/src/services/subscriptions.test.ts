@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { AUTHOR, READER, depositCredits, endSubscriptionMonths, insertBook } from '../test/fixtures';
+import { allocateSubscriptionRevenue, chargeCreditsForPage, getReaderCreditBalance } from './credits';
+import { runLedgerInvariantCheck } from './ledger';
+import { renewDueSubscriptions, saveSubscriptionPlan, subscribeReader } from './subscriptions';
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(resetTestDatabase);
+
+const OTHER_AUTHOR = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const PLAN_PRICE = BigInt(1000);
+
+async function subscribe(price = PLAN_PRICE): Promise<number> {
+    const plan = await saveSubscriptionPlan(null, { name: 'Monthly', price });
+    const subscribed = await subscribeReader(READER, plan!.id);
+    if (!subscribed.valid || subscribed.charge.status !== 'granted') {
+        throw new Error('Subscription was not charged');
+    }
+    return plan!.id;
+}
+
+async function readPage(bookId: number, authorAddress: string, pageNumber: number) {
+    return chargeCreditsForPage({
+        walletAddress: READER,
+        bookId,
+        pageNumber,
+        chapterNumber: 1,
+        pagePrice: BigInt(1000),
+        authorAddress,
+    });
+}
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('subscriptions', () => {
+    beforeEach(async () => {
+        await depositCredits(READER, BigInt(5000));
+    });
+
+    it('charges the first month and covers page reads without a deduction', async () => {
+        await subscribe();
+        const bookId = await insertBook();
+
+        const read = await readPage(bookId, AUTHOR, 2);
+
+        expect(read).toMatchObject({ status: 'granted', deductedAmount: '0', coveredBySubscription: true });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(4000));
+        const reads = await testPool.query('SELECT book_id, page_number FROM subscription_reads');
+        expect(reads.rows).toEqual([{ book_id: bookId, page_number: 2 }]);
+        await expectLedgerConsistent();
+    });
+
+    it('allocates the month pro rata to pages read and gives the rounding dust to the platform', async () => {
+        await subscribe();
+        const firstBookId = await insertBook();
+        const secondBookId = await insertBook({ authorAddress: OTHER_AUTHOR });
+        await readPage(firstBookId, AUTHOR, 2);
+        await readPage(secondBookId, OTHER_AUTHOR, 2);
+        await readPage(secondBookId, OTHER_AUTHOR, 3);
+        await endSubscriptionMonths();
+
+        const result = await allocateSubscriptionRevenue();
+
+        // 1000 over three pages is 333 and 666 with 1 left over; each part then pays the 1% fee.
+        expect(result).toEqual({ subscriptionCount: 1, authorAmount: BigInt(990) });
+        const authors = await testPool.query(
+            'SELECT author_address, book_id, amount FROM author_revenue_events ORDER BY book_id'
+        );
+        expect(authors.rows).toEqual([
+            { author_address: AUTHOR, book_id: firstBookId, amount: '330' },
+            { author_address: OTHER_AUTHOR, book_id: secondBookId, amount: '660' },
+        ]);
+        const platform = await testPool.query(
+            'SELECT book_id, amount, gross_amount FROM platform_revenue_events ORDER BY book_id NULLS LAST'
+        );
+        expect(platform.rows).toEqual([
+            { book_id: firstBookId, amount: '3', gross_amount: '333' },
+            { book_id: secondBookId, amount: '6', gross_amount: '666' },
+            { book_id: null, amount: '1', gross_amount: '1' },
+        ]);
+        const subscription = await testPool.query(
+            'SELECT allocated_at IS NOT NULL AS allocated FROM reader_subscriptions'
+        );
+        expect(subscription.rows).toEqual([{ allocated: true }]);
+        await expectLedgerConsistent();
+
+        expect(await allocateSubscriptionRevenue()).toEqual({ subscriptionCount: 0, authorAmount: BigInt(0) });
+    });
+
+    it('gives a month without reading to the platform', async () => {
+        await subscribe();
+        await endSubscriptionMonths();
+
+        await allocateSubscriptionRevenue();
+
+        const authors = await testPool.query('SELECT id FROM author_revenue_events');
+        expect(authors.rows).toEqual([]);
+        const platform = await testPool.query('SELECT book_id, amount FROM platform_revenue_events');
+        expect(platform.rows).toEqual([{ book_id: null, amount: '1000' }]);
+        await expectLedgerConsistent();
+    });
+
+    it('renews an ended month from credits and lapses once the balance runs short', async () => {
+        await subscribe(BigInt(2000));
+        await endSubscriptionMonths();
+
+        expect(await renewDueSubscriptions()).toEqual({ renewedCount: 1, lapsedCount: 0 });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(1000));
+
+        await endSubscriptionMonths();
+        expect(await renewDueSubscriptions()).toEqual({ renewedCount: 0, lapsedCount: 1 });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(1000));
+        const months = await testPool.query('SELECT renewal_status FROM reader_subscriptions ORDER BY id');
+        expect(months.rows).toEqual([{ renewal_status: 'renewed' }, { renewal_status: 'lapsed' }]);
+        await expectLedgerConsistent();
+    });
+});
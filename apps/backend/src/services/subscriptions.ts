@@ -0,0 +1,281 @@
+import pool from '../db/client';
+import { chargeCreditsForSubscription, type SubscriptionChargeResult } from './credits';
+import { toMicroStx } from './money';
+
+const MAX_PLAN_NAME_LENGTH = 120;
+const MAX_PLAN_DESCRIPTION_LENGTH = 2000;
+
+export interface SubscriptionPlan {
+    id: number;
+    name: string;
+    description: string | null;
+    price: string;
+    isActive: boolean;
+    createdAt: Date;
+}
+
+export interface SubscriptionPlanInput {
+    name?: string;
+    description?: string | null;
+    price?: bigint;
+    isActive?: boolean;
+}
+
+/** The reader's current (or most recent) paid month. */
+export interface ReaderSubscription {
+    id: number;
+    plan: Pick<SubscriptionPlan, 'id' | 'name' | 'price'>;
+    amount: string;
+    startsAt: Date;
+    endsAt: Date;
+    isActive: boolean;
+    autoRenew: boolean;
+}
+
+/**
+ * Validates `{ name, price, description?, isActive? }`. With `partial` every field is optional
+ * but at least one must be present (used by PATCH).
+ */
+export function parseSubscriptionPlanInput(body: unknown, partial: boolean): {
+    valid: true;
+    input: SubscriptionPlanInput;
+} | {
+    valid: false;
+    error: string;
+} {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const input: SubscriptionPlanInput = {};
+
+    if (source.name !== undefined || !partial) {
+        const name = typeof source.name === 'string' ? source.name.trim() : '';
+        if (!name || name.length > MAX_PLAN_NAME_LENGTH) {
+            return { valid: false, error: `name must be 1-${MAX_PLAN_NAME_LENGTH} characters` };
+        }
+        input.name = name;
+    }
+
+    if (source.description !== undefined) {
+        if (source.description !== null && typeof source.description !== 'string') {
+            return { valid: false, error: 'description must be a string or null' };
+        }
+        const description = typeof source.description === 'string' ? source.description.trim() : '';
+        if (description.length > MAX_PLAN_DESCRIPTION_LENGTH) {
+            return { valid: false, error: `description must be at most ${MAX_PLAN_DESCRIPTION_LENGTH} characters` };
+        }
+        input.description = description || null;
+    }
+
+    if (source.price !== undefined || !partial) {
+        const price = toMicroStx(source.price);
+        if (price === null || price <= BigInt(0)) {
+            return { valid: false, error: 'price must be a positive integer (microSTX per month)' };
+        }
+        input.price = price;
+    }
+
+    if (source.isActive !== undefined) {
+        if (typeof source.isActive !== 'boolean') {
+            return { valid: false, error: 'isActive must be a boolean' };
+        }
+        input.isActive = source.isActive;
+    }
+
+    if (Object.keys(input).length === 0) {
+        return { valid: false, error: 'No updates provided' };
+    }
+
+    return { valid: true, input };
+}
+
+export async function listSubscriptionPlans(includeInactive = false): Promise<SubscriptionPlan[]> {
+    const result = await pool.query(
+        `SELECT id, name, description, price, is_active, created_at
+         FROM subscription_plans
+         WHERE $1 OR is_active
+         ORDER BY price ASC, id ASC`,
+        [includeInactive]
+    );
+    return result.rows.map(mapPlanRow);
+}
+
+/**
+ * Creates a plan, or updates one when `planId` is given. A new price applies from each
+ * subscriber's next renewal; retired plans stop renewing.
+ */
+export async function saveSubscriptionPlan(planId: number | null, input: SubscriptionPlanInput): Promise<SubscriptionPlan | null> {
+    if (planId === null) {
+        const result = await pool.query(
+            `INSERT INTO subscription_plans (name, description, price, is_active)
+             VALUES ($1, $2, $3, $4)
+             RETURNING id, name, description, price, is_active, created_at`,
+            [input.name, input.description ?? null, input.price?.toString(), input.isActive ?? true]
+        );
+        return mapPlanRow(result.rows[0]);
+    }
+
+    const result = await pool.query(
+        `UPDATE subscription_plans
+         SET name = COALESCE($2, name),
+             description = CASE WHEN $3 THEN $4 ELSE description END,
+             price = COALESCE($5, price),
+             is_active = COALESCE($6, is_active),
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, name, description, price, is_active, created_at`,
+        [
+            planId,
+            input.name ?? null,
+            input.description !== undefined,
+            input.description ?? null,
+            input.price?.toString() ?? null,
+            input.isActive ?? null,
+        ]
+    );
+    return result.rows.length > 0 ? mapPlanRow(result.rows[0]) : null;
+}
+
+export async function getReaderSubscription(walletAddress: string): Promise<ReaderSubscription | null> {
+    const result = await pool.query(
+        `SELECT s.id, s.amount, s.starts_at, s.ends_at, s.auto_renew,
+                s.starts_at <= NOW() AND s.ends_at > NOW() AS is_active,
+                p.id AS plan_id, p.name AS plan_name, p.price AS plan_price
+         FROM reader_subscriptions s
+         JOIN subscription_plans p ON p.id = s.plan_id
+         WHERE s.wallet_address = $1
+         ORDER BY s.ends_at DESC
+         LIMIT 1`,
+        [walletAddress.trim()]
+    );
+    return result.rows.length > 0 ? mapSubscriptionRow(result.rows[0]) : null;
+}
+
+/**
+ * Starts a plan from the reader's credits. Readers with a month still running are not charged;
+ * their renewal is switched back on instead.
+ */
+export async function subscribeReader(walletAddress: string, planId: number): Promise<{
+    valid: true;
+    charge: SubscriptionChargeResult;
+} | {
+    valid: false;
+    notFound?: boolean;
+    error: string;
+}> {
+    const planLookup = await pool.query(
+        'SELECT price FROM subscription_plans WHERE id = $1 AND is_active',
+        [planId]
+    );
+    if (planLookup.rows.length === 0) {
+        return { valid: false, notFound: true, error: 'Subscription plan not found' };
+    }
+
+    const current = await getReaderSubscription(walletAddress);
+    if (current?.isActive && current.plan.id !== planId) {
+        return { valid: false, error: 'You are already subscribed to another plan. Cancel it and subscribe once it ends.' };
+    }
+
+    const charge = await chargeCreditsForSubscription({
+        walletAddress,
+        planId,
+        price: BigInt(planLookup.rows[0].price),
+        renewsSubscriptionId: null,
+    });
+    if (charge.status === 'granted' && charge.usedExistingUnlock) {
+        await setAutoRenew(walletAddress, true);
+    }
+
+    return { valid: true, charge };
+}
+
+/** Stops renewal; the reader keeps access until the current month ends. */
+export async function cancelSubscriptionRenewal(walletAddress: string): Promise<ReaderSubscription | null> {
+    await setAutoRenew(walletAddress, false);
+    return getReaderSubscription(walletAddress);
+}
+
+/**
+ * Charges the next month for subscriptions that just ended with renewal on. Readers whose
+ * balance is short, who cancelled, or whose plan was retired lapse.
+ */
+export async function renewDueSubscriptions(limit = 50): Promise<{ renewedCount: number; lapsedCount: number }> {
+    const due = await pool.query(
+        `SELECT s.id, s.wallet_address, s.plan_id, s.auto_renew, p.price, p.is_active AS plan_active
+         FROM reader_subscriptions s
+         JOIN subscription_plans p ON p.id = s.plan_id
+         WHERE s.renewal_status IS NULL AND s.ends_at <= NOW()
+         ORDER BY s.ends_at ASC
+         LIMIT $1`,
+        [limit]
+    );
+
+    let renewedCount = 0;
+    let lapsedCount = 0;
+    for (const row of due.rows) {
+        const subscriptionId = Number(row.id);
+        try {
+            let renewed = false;
+            if (row.auto_renew && row.plan_active) {
+                const charge = await chargeCreditsForSubscription({
+                    walletAddress: String(row.wallet_address),
+                    planId: Number(row.plan_id),
+                    price: BigInt(row.price),
+                    renewsSubscriptionId: subscriptionId,
+                });
+                // A reader who re-subscribed by hand already has a running month.
+                renewed = charge.status === 'granted' && !charge.usedExistingUnlock;
+            }
+
+            if (renewed) {
+                renewedCount += 1;
+            } else {
+                await pool.query(
+                    `UPDATE reader_subscriptions
+                     SET renewal_status = 'lapsed'
+                     WHERE id = $1 AND renewal_status IS NULL`,
+                    [subscriptionId]
+                );
+                lapsedCount += 1;
+            }
+        } catch (error) {
+            console.error(`Failed to renew subscription ${subscriptionId}:`, error);
+        }
+    }
+
+    return { renewedCount, lapsedCount };
+}
+
+async function setAutoRenew(walletAddress: string, autoRenew: boolean): Promise<void> {
+    await pool.query(
+        `UPDATE reader_subscriptions
+         SET auto_renew = $2
+         WHERE wallet_address = $1 AND ends_at > NOW()`,
+        [walletAddress.trim(), autoRenew]
+    );
+}
+
+function mapPlanRow(row: Record<string, unknown>): SubscriptionPlan {
+    return {
+        id: Number(row.id),
+        name: String(row.name),
+        description: row.description === null ? null : String(row.description),
+        price: String(row.price),
+        isActive: Boolean(row.is_active),
+        createdAt: row.created_at as Date,
+    };
+}
+
+function mapSubscriptionRow(row: Record<string, unknown>): ReaderSubscription {
+    return {
+        id: Number(row.id),
+        plan: {
+            id: Number(row.plan_id),
+            name: String(row.plan_name),
+            price: String(row.plan_price),
+        },
+        amount: String(row.amount),
+        startsAt: row.starts_at as Date,
+        endsAt: row.ends_at as Date,
+        isActive: Boolean(row.is_active),
+        autoRenew: Boolean(row.auto_renew),
+    };
+}
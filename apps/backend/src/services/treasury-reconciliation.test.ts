@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase } from '../test/db';
+import { READER, depositCredits } from '../test/fixtures';
+import { runLedgerInvariantCheck } from './ledger';
+import { listTreasurySnapshots, runTreasuryReconciliation } from './treasury-reconciliation';
+import { processCreditWithdrawals, requestCreditWithdrawal } from './withdrawals';
+
+// Treasury payouts need a signing key whose address matches; nothing is broadcast for real.
+vi.hoisted(() => {
+    process.env.STACKPAD_TREASURY_ADDRESS = 'STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T';
+    process.env.STACKPAD_TREASURY_PRIVATE_KEY = 'f699b57e4035a4e42835807953361a7572328c5e868f0babc5f41f384a32db79';
+    process.env.AUTHOR_PAYOUT_FEE_MICROSTX = '180';
+});
+
+const chain = vi.hoisted(() => ({
+    balance: '0',
+    locked: '0',
+    txStatus: 'pending',
+}));
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+vi.mock('@stacks/transactions', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@stacks/transactions')>(),
+    broadcastTransaction: vi.fn(async () => ({ txid: `0x${'1'.padStart(64, '0')}` })),
+}));
+vi.mock('./stacks', () => ({
+    accountsApi: {
+        getAccountNonces: vi.fn(async () => ({ possible_next_nonce: 0 })),
+        getAccountBalance: vi.fn(async () => ({ stx: { balance: chain.balance, locked: chain.locked } })),
+    },
+    transactionsApi: { getTransactionById: vi.fn(async () => ({ tx_status: chain.txStatus })) },
+}));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(async () => {
+    await resetTestDatabase();
+    chain.balance = '50000';
+    chain.locked = '0';
+    chain.txStatus = 'pending';
+    await depositCredits(READER, BigInt(50_000));
+});
+
+async function broadcastWithdrawal(amount: number): Promise<void> {
+    const request = await requestCreditWithdrawal(READER, BigInt(amount));
+    if (!request.valid) {
+        throw new Error(request.error);
+    }
+    expect(await processCreditWithdrawals()).toMatchObject({ broadcastCount: 1 });
+}
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('runTreasuryReconciliation', () => {
+    it('counts a broadcasted withdrawal as owed until its transfer confirms', async () => {
+        await broadcastWithdrawal(20_000);
+
+        const snapshot = await runTreasuryReconciliation('ops');
+
+        expect(snapshot).toMatchObject({
+            onchainBalance: '50000',
+            liabilities: { readerCredit: '30000', openWithdrawals: '20000', total: '50000' },
+            settlingTransfers: '0',
+            surplus: '0',
+            status: 'solvent',
+            createdBy: 'ops',
+        });
+        await expectLedgerConsistent();
+    });
+
+    it('excludes a confirmed withdrawal the worker has not finalized yet', async () => {
+        await broadcastWithdrawal(20_000);
+        chain.txStatus = 'success';
+        chain.balance = '30000';
+
+        const snapshot = await runTreasuryReconciliation();
+
+        expect(snapshot).toMatchObject({
+            onchainBalance: '30000',
+            liabilities: { readerCredit: '30000', openWithdrawals: '0', total: '30000' },
+            settlingTransfers: '20000',
+            surplus: '0',
+            status: 'solvent',
+        });
+        expect((await listTreasurySnapshots()).map((row) => row.id)).toEqual([snapshot?.id]);
+        await expectLedgerConsistent();
+    });
+
+    it('reports a deficit when the spendable balance cannot cover the liabilities', async () => {
+        chain.locked = '10000';
+
+        expect(await runTreasuryReconciliation()).toMatchObject({
+            onchainBalance: '50000',
+            lockedBalance: '10000',
+            liabilities: { readerCredit: '50000', total: '50000' },
+            surplus: '-10000',
+            status: 'deficit',
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import * as dotenv from 'dotenv';
+import pool from '../db/client';
+import { resolveSettlementTxState } from './author-payouts';
+import { accountsApi } from './stacks';
+
+dotenv.config();
+
+const STACKS_NETWORK = (process.env.STACKS_NETWORK || 'testnet') as 'mainnet' | 'testnet';
+const TREASURY_ADDRESS = (process.env.STACKPAD_TREASURY_ADDRESS || process.env.SERVER_ADDRESS || '').trim();
+
+let missingAddressWarningShown = false;
+
+export type TreasurySnapshotStatus = 'solvent' | 'deficit';
+
+export interface TreasurySnapshot {
+    id: number;
+    treasuryAddress: string;
+    network: string | null;
+    onchainBalance: string;
+    /** Stacked STX; counted in `onchainBalance` but not available for payouts. */
+    lockedBalance: string;
+    liabilities: {
+        readerCredit: string;
+        /** Unsettled author revenue (including batches in flight) net of pending clawbacks. */
+        authorPayable: string;
+        openWithdrawals: string;
+        pendingGifts: string;
+        unallocatedSubscriptions: string;
+        total: string;
+    };
+    /**
+     * Author payouts and withdrawals confirmed on-chain that their worker has not finalized yet.
+     * They have already left `onchainBalance`, so they are not counted as liabilities.
+     */
+    settlingTransfers: string;
+    /** Fees the platform has not swept yet. They are not owed to anyone, so they show up as surplus. */
+    unsweptPlatformFees: string;
+    /** Spendable balance minus total liabilities; negative when the treasury cannot cover them. */
+    surplus: string;
+    status: TreasurySnapshotStatus;
+    createdBy: string;
+    createdAt: Date;
+}
+
+/**
+ * Reads the treasury's STX balance from the Stacks API, compares the spendable part with everything
+ * the platform owes in one database snapshot, and records the result. Payout batches and
+ * withdrawals whose transfer already confirmed are left out of the liabilities, since the balance
+ * has dropped before their worker settles them. Returns null when no treasury address is configured.
+ */
+export async function runTreasuryReconciliation(createdBy = 'worker'): Promise<TreasurySnapshot | null> {
+    if (!TREASURY_ADDRESS) {
+        if (!missingAddressWarningShown) {
+            console.warn('Treasury reconciliation disabled: set STACKPAD_TREASURY_ADDRESS to enable it.');
+            missingAddressWarningShown = true;
+        }
+        return null;
+    }
+
+    const account = await accountsApi.getAccountBalance({ principal: TREASURY_ADDRESS });
+    const onchainBalance = BigInt(account.stx.balance);
+    const lockedBalance = BigInt(account.stx.locked || '0');
+    // Checked after the balance read: a transfer confirming in between is excluded while the balance
+    // still holds it, which can only overstate the surplus, never report a false deficit.
+    const settled = await findConfirmedTransfers();
+
+    const result = await pool.query(
+        `WITH liabilities AS (
+             SELECT
+                (SELECT COALESCE(SUM(credit_balance), 0) FROM reader_accounts) AS reader_liability,
+                (SELECT COALESCE(SUM(GREATEST(payable, 0)), 0)
+                 FROM (
+                     SELECT author_address, SUM(amount) AS payable
+                     FROM (
+                         SELECT author_address, amount
+                         FROM author_revenue_events
+                         WHERE ((settlement_status = 'pending' AND refunded_at IS NULL)
+                                OR settlement_status = 'processing')
+                           AND (settlement_batch_id IS NULL OR NOT settlement_batch_id = ANY($6::int[]))
+                         UNION ALL
+                         SELECT author_address, -amount
+                         FROM author_revenue_clawbacks
+                         WHERE status IN ('pending', 'reserved')
+                           AND (settlement_batch_id IS NULL OR NOT settlement_batch_id = ANY($6::int[]))
+                     ) movements
+                     GROUP BY author_address
+                 ) authors) AS author_payable,
+                (SELECT COALESCE(SUM(amount), 0) FROM credit_withdrawals
+                 WHERE status IN ('pending', 'broadcasted')
+                   AND NOT id = ANY($7::int[])) AS withdrawal_payable,
+                (SELECT COALESCE(SUM(amount), 0) FROM gifts WHERE status = 'pending') AS gift_liability,
+                (SELECT COALESCE(SUM(amount), 0) FROM reader_subscriptions
+                 WHERE allocated_at IS NULL) AS subscription_deferred,
+                (SELECT COALESCE(SUM(amount), 0) FROM platform_revenue_events
+                 WHERE settled = FALSE AND refunded_at IS NULL) AS unswept_platform_fees,
+                (SELECT COALESCE(SUM(total_amount), 0) FROM author_settlement_batches
+                 WHERE id = ANY($6::int[]))
+                  + (SELECT COALESCE(SUM(amount), 0) FROM credit_withdrawals
+                     WHERE id = ANY($7::int[])) AS settling_transfers
+         ),
+         totals AS (
+             SELECT *,
+                    reader_liability + author_payable + withdrawal_payable + gift_liability
+                      + subscription_deferred AS total_liabilities
+             FROM liabilities
+         )
+         INSERT INTO treasury_snapshots
+            (treasury_address, network, onchain_balance, locked_balance, reader_liability, author_payable,
+             withdrawal_payable, gift_liability, subscription_deferred, total_liabilities,
+             unswept_platform_fees, settling_transfers, surplus, status, created_by)
+         SELECT $1, $2, $3::bigint, $4::bigint, reader_liability, author_payable, withdrawal_payable,
+                gift_liability, subscription_deferred, total_liabilities, unswept_platform_fees, settling_transfers,
+                $3::bigint - $4::bigint - total_liabilities,
+                CASE WHEN $3::bigint - $4::bigint - total_liabilities < 0 THEN 'deficit' ELSE 'solvent' END,
+                $5
+         FROM totals
+         RETURNING ${SNAPSHOT_COLUMNS}`,
+        [
+            TREASURY_ADDRESS,
+            toCaip2Network(STACKS_NETWORK),
+            onchainBalance.toString(),
+            lockedBalance.toString(),
+            createdBy,
+            settled.batchIds,
+            settled.withdrawalIds,
+        ]
+    );
+    return mapSnapshotRow(result.rows[0]);
+}
+
+/** Recorded snapshots, newest first. */
+export async function listTreasurySnapshots(limit = 20): Promise<TreasurySnapshot[]> {
+    const result = await pool.query(
+        `SELECT ${SNAPSHOT_COLUMNS}
+         FROM treasury_snapshots
+         ORDER BY created_at DESC, id DESC
+         LIMIT $1`,
+        [Math.min(Math.max(1, limit), 100)]
+    );
+    return result.rows.map(mapSnapshotRow);
+}
+
+/** Broadcasted author batches and withdrawals whose transfer is already confirmed on-chain. */
+async function findConfirmedTransfers(): Promise<{ batchIds: number[]; withdrawalIds: number[] }> {
+    const [batches, withdrawals] = await Promise.all([
+        pool.query(
+            `SELECT id, payout_tx_hash
+             FROM author_settlement_batches
+             WHERE status = 'broadcasted' AND payout_tx_hash IS NOT NULL`
+        ),
+        pool.query(
+            `SELECT id, payout_tx_hash
+             FROM credit_withdrawals
+             WHERE status = 'broadcasted' AND payout_tx_hash IS NOT NULL`
+        ),
+    ]);
+
+    const batchIds: number[] = [];
+    for (const row of batches.rows) {
+        if ((await resolveSettlementTxState(String(row.payout_tx_hash))).status === 'confirmed') {
+            batchIds.push(Number(row.id));
+        }
+    }
+    const withdrawalIds: number[] = [];
+    for (const row of withdrawals.rows) {
+        if ((await resolveSettlementTxState(String(row.payout_tx_hash))).status === 'confirmed') {
+            withdrawalIds.push(Number(row.id));
+        }
+    }
+    return { batchIds, withdrawalIds };
+}
+
+const SNAPSHOT_COLUMNS = `id, treasury_address, network, onchain_balance, locked_balance, reader_liability,
+    author_payable, withdrawal_payable, gift_liability, subscription_deferred, total_liabilities,
+    unswept_platform_fees, settling_transfers, surplus, status, created_by, created_at`;
+
+function toCaip2Network(network: 'mainnet' | 'testnet'): string {
+    return network === 'mainnet' ? 'stacks:1' : 'stacks:2147483648';
+}
+
+function mapSnapshotRow(row: Record<string, unknown>): TreasurySnapshot {
+    return {
+        id: Number(row.id),
+        treasuryAddress: String(row.treasury_address),
+        network: row.network === null ? null : String(row.network),
+        onchainBalance: String(row.onchain_balance),
+        lockedBalance: String(row.locked_balance),
+        liabilities: {
+            readerCredit: String(row.reader_liability),
+            authorPayable: String(row.author_payable),
+            openWithdrawals: String(row.withdrawal_payable),
+            pendingGifts: String(row.gift_liability),
+            unallocatedSubscriptions: String(row.subscription_deferred),
+            total: String(row.total_liabilities),
+        },
+        settlingTransfers: String(row.settling_transfers),
+        unsweptPlatformFees: String(row.unswept_platform_fees),
+        surplus: String(row.surplus),
+        status: row.status as TreasurySnapshotStatus,
+        createdBy: String(row.created_by),
+        createdAt: row.created_at as Date,
+    };
+}
@@ -0,0 +1,636 @@
+import { createHash, randomUUID } from 'crypto';
+import * as dotenv from 'dotenv';
+import type { PoolClient } from 'pg';
+import pool from '../db/client';
+import type { BookStatus } from './book-lifecycle';
+import type { BookMetadataInput } from './book-metadata';
+import {
+    insertBookWithPages,
+    insertEpubBook,
+    type BookDraft,
+    type NormalizedPage,
+} from './book-import';
+import { EpubParseError, parseEpub } from './epub';
+import { getObjectStorage } from './object-storage';
+import type { PageContentFormat } from './rich-text';
+
+dotenv.config();
+
+const UPLOAD_SESSION_TTL_HOURS = toPositiveInteger(process.env.UPLOAD_SESSION_TTL_HOURS, 24);
+const UPLOAD_SESSION_CLEANUP_INTERVAL_MS = Math.max(
+    toPositiveInteger(process.env.UPLOAD_SESSION_CLEANUP_INTERVAL_MS, 15 * 60_000),
+    60_000
+);
+/** Same ceiling as a direct EPUB import. */
+export const MAX_SOURCE_BYTES = 50 * 1024 * 1024;
+export const MAX_SOURCE_PARTS = 10_000;
+/** A finalize that has not finished after this long is assumed to have died with its process. */
+const FINALIZE_STALE_MINUTES = 30;
+
+export type UploadSessionStatus = 'open' | 'finalizing' | 'completed' | 'aborted' | 'expired';
+export type UploadSourceType = 'pages' | 'epub';
+
+export const UPLOAD_SOURCE_TYPES: readonly UploadSourceType[] = ['pages', 'epub'];
+
+export interface UploadSession {
+    id: string;
+    authorAddress: string;
+    sourceType: UploadSourceType;
+    status: UploadSessionStatus;
+    draft: BookDraft;
+    expectedPages: number | null;
+    bookId: number | null;
+    lastError: string | null;
+    expiresAt: string;
+    createdAt: string;
+    updatedAt: string;
+    completedAt: string | null;
+}
+
+export interface UploadSessionProgress {
+    receivedPages: number;
+    lastPageNumber: number | null;
+    /** Page (or part) number ranges that still have to be sent, inclusive. */
+    missing: Array<{ from: number; to: number }>;
+    parts: Array<{ partNumber: number; byteSize: number; sha256: string }>;
+    receivedBytes: number;
+    readyToFinalize: boolean;
+}
+
+/** `conflict` means the session is no longer open, as opposed to a bad request. */
+export type StageResult =
+    | { valid: true }
+    | { valid: false; conflict: boolean; error: string };
+
+export type FinalizeUploadResult =
+    | { valid: true; bookId: number }
+    | { valid: false; conflict: boolean; error: string };
+
+let cleanupStarted = false;
+
+export async function createUploadSession(
+    authorAddress: string,
+    sourceType: UploadSourceType,
+    draft: BookDraft,
+    expectedPages: number | null
+): Promise<UploadSession> {
+    const result = await pool.query(
+        `INSERT INTO upload_sessions (id, author_address, source_type, book_draft, expected_pages, expires_at)
+         VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(hours => $6))
+         RETURNING *`,
+        [randomUUID(), authorAddress, sourceType, serializeDraft(draft), expectedPages, UPLOAD_SESSION_TTL_HOURS]
+    );
+    return mapSessionRow(result.rows[0]);
+}
+
+/** Loads an author's session, marking it expired first if its deadline has passed. */
+export async function getUploadSession(sessionId: string, authorAddress: string): Promise<UploadSession | null> {
+    await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'expired', updated_at = NOW()
+         WHERE id = $1 AND status = 'open' AND expires_at <= NOW()`,
+        [sessionId]
+    );
+
+    const result = await pool.query(
+        'SELECT * FROM upload_sessions WHERE id = $1 AND author_address = $2',
+        [sessionId, authorAddress]
+    );
+    return result.rows.length > 0 ? mapSessionRow(result.rows[0]) : null;
+}
+
+/** Sessions the author can still resume, newest first. */
+export async function listOpenUploadSessions(authorAddress: string): Promise<UploadSession[]> {
+    const result = await pool.query(
+        `SELECT *
+         FROM upload_sessions
+         WHERE author_address = $1
+           AND status IN ('open', 'finalizing')
+           AND expires_at > NOW()
+         ORDER BY created_at DESC
+         LIMIT 50`,
+        [authorAddress]
+    );
+    return result.rows.map(mapSessionRow);
+}
+
+/**
+ * Upserts a batch of normalized pages. Re-sending a page replaces it, so a client that
+ * lost a response can retry the whole batch. Each accepted batch extends the session deadline.
+ */
+export async function stageUploadPages(
+    session: UploadSession,
+    pages: NormalizedPage[]
+): Promise<StageResult> {
+    if (session.expectedPages !== null) {
+        const outOfRange = pages.find((page) => page.pageNumber > (session.expectedPages as number));
+        if (outOfRange) {
+            return { valid: false, conflict: false, error: `Page ${outOfRange.pageNumber} is beyond expectedPages (${session.expectedPages})` };
+        }
+    }
+
+    return withOpenSession(session.id, async (client) => {
+        await client.query(
+            `INSERT INTO upload_session_pages (session_id, page_number, chapter_number, format, content, pdf_object_key)
+             SELECT $1, staged.page_number, staged.chapter_number, staged.format, staged.content, staged.pdf_object_key
+             FROM unnest($2::int[], $3::int[], $4::text[], $5::text[], $6::text[])
+                AS staged(page_number, chapter_number, format, content, pdf_object_key)
+             ON CONFLICT (session_id, page_number) DO UPDATE
+             SET chapter_number = EXCLUDED.chapter_number,
+                 format = EXCLUDED.format,
+                 content = EXCLUDED.content,
+                 pdf_object_key = EXCLUDED.pdf_object_key,
+                 updated_at = NOW()`,
+            [
+                session.id,
+                pages.map((page) => page.pageNumber),
+                pages.map((page) => page.chapterNumber || 1),
+                pages.map((page) => page.format),
+                pages.map((page) => page.content),
+                pages.map((page) => page.pdfObjectKey ?? null),
+            ]
+        );
+    });
+}
+
+/** Removes staged pages, e.g. when the author shortens the manuscript before finalizing. */
+export async function deleteUploadPages(
+    session: UploadSession,
+    fromPage: number
+): Promise<StageResult> {
+    return withOpenSession(session.id, async (client) => {
+        await client.query(
+            'DELETE FROM upload_session_pages WHERE session_id = $1 AND page_number >= $2',
+            [session.id, fromPage]
+        );
+    });
+}
+
+/**
+ * Stores one chunk of the source file. Chunks can arrive in any order and be re-sent;
+ * the optional `expectedSha256` lets clients detect corruption in transit.
+ */
+export async function stageSourcePart(
+    session: UploadSession,
+    partNumber: number,
+    data: Buffer,
+    expectedSha256?: string
+): Promise<{ valid: true; sha256: string } | (StageResult & { valid: false })> {
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    if (expectedSha256 && expectedSha256.toLowerCase() !== sha256) {
+        return { valid: false, conflict: false, error: `Part ${partNumber} checksum mismatch (received ${sha256})` };
+    }
+
+    // Each upload gets its own object so a rejected or concurrent re-send never overwrites the
+    // part that is currently staged; the replaced object is deleted once the new row commits.
+    const objectKey = sourcePartKey(session.id, partNumber);
+    await getObjectStorage().put(objectKey, data, 'application/octet-stream');
+
+    let replacedKey: string | null = null;
+    let staged: StageResult;
+    try {
+        staged = await withOpenSession(session.id, async (client) => {
+            // The size check runs under the session lock so concurrent parts cannot overshoot together.
+            const otherParts = await client.query(
+                `SELECT COALESCE(SUM(byte_size), 0)::bigint AS bytes
+                 FROM upload_session_parts
+                 WHERE session_id = $1 AND part_number <> $2`,
+                [session.id, partNumber]
+            );
+            if (Number(otherParts.rows[0].bytes) + data.length > MAX_SOURCE_BYTES) {
+                return { valid: false, conflict: false, error: `Source file exceeds ${MAX_SOURCE_BYTES} bytes` };
+            }
+
+            const previous = await client.query(
+                'SELECT object_key FROM upload_session_parts WHERE session_id = $1 AND part_number = $2',
+                [session.id, partNumber]
+            );
+            replacedKey = previous.rows[0] ? String(previous.rows[0].object_key) : null;
+
+            await client.query(
+                `INSERT INTO upload_session_parts (session_id, part_number, object_key, byte_size, sha256)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (session_id, part_number) DO UPDATE
+                 SET object_key = EXCLUDED.object_key,
+                     byte_size = EXCLUDED.byte_size,
+                     sha256 = EXCLUDED.sha256,
+                     updated_at = NOW()`,
+                [session.id, partNumber, objectKey, data.length, sha256]
+            );
+        });
+    } catch (error) {
+        await deleteStoredObject(objectKey);
+        throw error;
+    }
+
+    if (!staged.valid) {
+        await deleteStoredObject(objectKey);
+        return staged;
+    }
+    if (replacedKey && replacedKey !== objectKey) {
+        await deleteStoredObject(replacedKey);
+    }
+    return { valid: true, sha256 };
+}
+
+export async function getUploadProgress(session: UploadSession): Promise<UploadSessionProgress> {
+    if (session.sourceType === 'epub') {
+        const result = await pool.query(
+            `SELECT part_number, byte_size, sha256
+             FROM upload_session_parts
+             WHERE session_id = $1
+             ORDER BY part_number`,
+            [session.id]
+        );
+        const parts = result.rows.map((row) => ({
+            partNumber: Number(row.part_number),
+            byteSize: Number(row.byte_size),
+            sha256: String(row.sha256),
+        }));
+        const missing = findMissingRanges(parts.map((part) => part.partNumber), null);
+
+        return {
+            receivedPages: 0,
+            lastPageNumber: null,
+            missing,
+            parts,
+            receivedBytes: parts.reduce((total, part) => total + part.byteSize, 0),
+            readyToFinalize: parts.length > 0 && missing.length === 0,
+        };
+    }
+
+    const result = await pool.query(
+        `SELECT page_number, octet_length(content) AS byte_size
+         FROM upload_session_pages
+         WHERE session_id = $1
+         ORDER BY page_number`,
+        [session.id]
+    );
+    const pageNumbers = result.rows.map((row) => Number(row.page_number));
+    const missing = findMissingRanges(pageNumbers, session.expectedPages);
+
+    return {
+        receivedPages: pageNumbers.length,
+        lastPageNumber: pageNumbers.length > 0 ? pageNumbers[pageNumbers.length - 1] : null,
+        missing,
+        parts: [],
+        receivedBytes: result.rows.reduce((total, row) => total + Number(row.byte_size), 0),
+        readyToFinalize: pageNumbers.length > 0 && missing.length === 0,
+    };
+}
+
+/**
+ * Turns the staged upload into a book in one transaction. Validation failures put the
+ * session back to `open` with `lastError`, so the author can fix the gaps and retry;
+ * finalizing a completed session again returns the same book.
+ */
+export async function finalizeUploadSession(session: UploadSession, apiBaseUrl: string): Promise<FinalizeUploadResult> {
+    const claim = await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'finalizing', updated_at = NOW()
+         WHERE id = $1 AND status = 'open' AND expires_at > NOW()
+         RETURNING id`,
+        [session.id]
+    );
+    if (claim.rows.length === 0) {
+        const current = await getUploadSession(session.id, session.authorAddress);
+        if (current?.status === 'completed' && current.bookId !== null) {
+            return { valid: true, bookId: current.bookId };
+        }
+        return { valid: false, conflict: true, error: `Upload session is ${current?.status ?? 'missing'}` };
+    }
+
+    const client = await pool.connect();
+    try {
+        const progress = await getUploadProgress(session);
+        if (!progress.readyToFinalize) {
+            const gaps = progress.missing.map(({ from, to }) => (from === to ? `${from}` : `${from}-${to}`)).join(', ');
+            return await reopenSession(session.id, gaps
+                ? `Missing ${session.sourceType === 'epub' ? 'parts' : 'pages'} ${gaps}`
+                : 'Nothing has been uploaded yet');
+        }
+
+        let bookId: number;
+        if (session.sourceType === 'epub') {
+            const archive = await readSourceFile(session.id);
+            let epub: ReturnType<typeof parseEpub>;
+            try {
+                epub = parseEpub(archive);
+            } catch (error) {
+                if (error instanceof EpubParseError) {
+                    return await reopenSession(session.id, `Invalid EPUB: ${error.message}`);
+                }
+                throw error;
+            }
+
+            const title = (session.draft.title || epub.metadata.title || '').trim().slice(0, 255);
+            if (!title) {
+                return await reopenSession(session.id, 'The EPUB has no title; abort and start a session with book.title');
+            }
+
+            await client.query('BEGIN');
+            bookId = await insertEpubBook(client, session.authorAddress, { ...session.draft, title }, epub, apiBaseUrl);
+        } else {
+            await client.query('BEGIN');
+            const pages = await loadStagedPages(client, session.id);
+            bookId = await insertBookWithPages(
+                client,
+                session.authorAddress,
+                { ...session.draft, title: session.draft.title as string },
+                pages
+            );
+        }
+
+        // The session may have been aborted, or reclaimed as stale, while this finalize ran.
+        const completed = await client.query(
+            `UPDATE upload_sessions
+             SET status = 'completed', book_id = $2, last_error = NULL, completed_at = NOW(), updated_at = NOW()
+             WHERE id = $1 AND status = 'finalizing'`,
+            [session.id, bookId]
+        );
+        if (completed.rowCount === 0) {
+            await client.query('ROLLBACK');
+            return { valid: false, conflict: true, error: 'Upload session changed while finalizing; check its status and retry' };
+        }
+        await client.query('DELETE FROM upload_session_pages WHERE session_id = $1', [session.id]);
+        await client.query('COMMIT');
+
+        await discardSourceParts(session.id);
+        return { valid: true, bookId };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        await reopenSession(session.id, 'Finalize failed unexpectedly; retry the request');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Abandons a session and deletes everything staged for it. A session stuck in `finalizing` can be
+ * aborted too; a finalize still running for it then rolls back instead of completing.
+ */
+export async function abortUploadSession(session: UploadSession): Promise<boolean> {
+    const result = await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'aborted', updated_at = NOW()
+         WHERE id = $1 AND status IN ('open', 'expired', 'finalizing')
+         RETURNING id`,
+        [session.id]
+    );
+    if (result.rows.length === 0) {
+        return false;
+    }
+
+    await pool.query('DELETE FROM upload_session_pages WHERE session_id = $1', [session.id]);
+    await discardSourceParts(session.id);
+    return true;
+}
+
+/**
+ * Reopens sessions whose finalize was interrupted, expires sessions past their deadline and drops
+ * their staged pages and source parts. PDF pages stay in storage: they are content-addressed and
+ * may be shared with published books.
+ */
+export async function purgeExpiredUploadSessions(): Promise<number> {
+    await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'open',
+             last_error = 'Finalize was interrupted; retry the request',
+             updated_at = NOW()
+         WHERE status = 'finalizing' AND updated_at <= NOW() - make_interval(mins => $1)`,
+        [FINALIZE_STALE_MINUTES]
+    );
+
+    const expired = await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'expired', updated_at = NOW()
+         WHERE status = 'open' AND expires_at <= NOW()
+         RETURNING id`
+    );
+
+    const stale = await pool.query(
+        `SELECT DISTINCT s.id
+         FROM upload_sessions s
+         WHERE s.status IN ('expired', 'aborted')
+           AND (
+                EXISTS (SELECT 1 FROM upload_session_pages p WHERE p.session_id = s.id)
+                OR EXISTS (SELECT 1 FROM upload_session_parts p WHERE p.session_id = s.id)
+           )
+         LIMIT 100`
+    );
+    for (const row of stale.rows) {
+        await pool.query('DELETE FROM upload_session_pages WHERE session_id = $1', [row.id]);
+        await discardSourceParts(String(row.id));
+    }
+
+    return expired.rows.length;
+}
+
+export function startUploadSessionCleanup(): void {
+    if (cleanupStarted) {
+        return;
+    }
+    cleanupStarted = true;
+
+    const runCleanup = () => {
+        void purgeExpiredUploadSessions()
+            .then((count) => {
+                if (count > 0) {
+                    console.log(`[uploads] expired ${count} upload session(s)`);
+                }
+            })
+            .catch((error) => {
+                console.error('Upload session cleanup failed:', error);
+            });
+    };
+
+    runCleanup();
+    setInterval(runCleanup, UPLOAD_SESSION_CLEANUP_INTERVAL_MS);
+}
+
+/**
+ * Runs `work` while holding the session row lock, only if the session is still open. `work` can
+ * return a rejection, which rolls its writes back.
+ */
+async function withOpenSession(
+    sessionId: string,
+    work: (client: PoolClient) => Promise<StageResult | void>
+): Promise<StageResult> {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const locked = await client.query(
+            `SELECT status, expires_at <= NOW() AS is_expired
+             FROM upload_sessions
+             WHERE id = $1
+             FOR UPDATE`,
+            [sessionId]
+        );
+        const row = locked.rows[0] as { status: UploadSessionStatus; is_expired: boolean } | undefined;
+        if (!row || row.status !== 'open' || row.is_expired) {
+            await client.query('ROLLBACK');
+            return { valid: false, conflict: true, error: `Upload session is ${row?.is_expired && row.status === 'open' ? 'expired' : row?.status ?? 'missing'}` };
+        }
+
+        const rejected = await work(client);
+        if (rejected && !rejected.valid) {
+            await client.query('ROLLBACK');
+            return rejected;
+        }
+        await client.query(
+            `UPDATE upload_sessions
+             SET updated_at = NOW(), expires_at = NOW() + make_interval(hours => $2)
+             WHERE id = $1`,
+            [sessionId, UPLOAD_SESSION_TTL_HOURS]
+        );
+        await client.query('COMMIT');
+        return { valid: true };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+async function reopenSession(sessionId: string, error: string): Promise<FinalizeUploadResult> {
+    await pool.query(
+        `UPDATE upload_sessions
+         SET status = 'open', last_error = $2, updated_at = NOW()
+         WHERE id = $1 AND status = 'finalizing'`,
+        [sessionId, error]
+    );
+    return { valid: false, conflict: false, error };
+}
+
+async function loadStagedPages(client: PoolClient, sessionId: string): Promise<NormalizedPage[]> {
+    const result = await client.query(
+        `SELECT page_number, chapter_number, format, content, pdf_object_key
+         FROM upload_session_pages
+         WHERE session_id = $1
+         ORDER BY page_number`,
+        [sessionId]
+    );
+    return result.rows.map((row) => ({
+        pageNumber: Number(row.page_number),
+        chapterNumber: Number(row.chapter_number),
+        format: row.format as PageContentFormat,
+        content: String(row.content),
+        pdfObjectKey: row.pdf_object_key ?? undefined,
+    }));
+}
+
+async function readSourceFile(sessionId: string): Promise<Buffer> {
+    const result = await pool.query(
+        'SELECT object_key FROM upload_session_parts WHERE session_id = $1 ORDER BY part_number',
+        [sessionId]
+    );
+
+    const chunks: Buffer[] = [];
+    for (const row of result.rows) {
+        const stored = await getObjectStorage().get(String(row.object_key));
+        if (!stored) {
+            throw new Error(`Upload part ${row.object_key} is missing from object storage`);
+        }
+        for await (const chunk of stored.body) {
+            chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        }
+    }
+    return Buffer.concat(chunks);
+}
+
+async function discardSourceParts(sessionId: string): Promise<void> {
+    const result = await pool.query(
+        'DELETE FROM upload_session_parts WHERE session_id = $1 RETURNING object_key',
+        [sessionId]
+    );
+    for (const row of result.rows) {
+        await deleteStoredObject(String(row.object_key));
+    }
+}
+
+async function deleteStoredObject(objectKey: string): Promise<void> {
+    try {
+        await getObjectStorage().delete(objectKey);
+    } catch (error) {
+        console.error(`Failed to delete upload part ${objectKey}:`, error);
+    }
+}
+
+function sourcePartKey(sessionId: string, partNumber: number): string {
+    return `upload-sessions/${sessionId}/part-${String(partNumber).padStart(5, '0')}-${randomUUID()}`;
+}
+
+function findMissingRanges(received: number[], expectedTotal: number | null): Array<{ from: number; to: number }> {
+    const missing: Array<{ from: number; to: number }> = [];
+    let next = 1;
+    for (const value of received) {
+        if (value > next) {
+            missing.push({ from: next, to: value - 1 });
+        }
+        next = value + 1;
+    }
+    if (expectedTotal !== null && next <= expectedTotal) {
+        missing.push({ from: next, to: expectedTotal });
+    }
+    return missing;
+}
+
+function serializeDraft(draft: BookDraft): string {
+    return JSON.stringify({
+        title: draft.title,
+        coverImageUrl: draft.coverImageUrl,
+        pagePrice: draft.pagePrice.toString(),
+        chapterPrice: draft.chapterPrice.toString(),
+        contentFormat: draft.contentFormat,
+        metadata: draft.metadata,
+        chapterTitles: Array.from(draft.chapterTitles.entries()),
+        status: draft.status,
+        publishAt: draft.publishAt?.toISOString() ?? null,
+    });
+}
+
+function mapSessionRow(row: Record<string, unknown>): UploadSession {
+    const draft = row.book_draft as {
+        title: string | null;
+        coverImageUrl: string | null;
+        pagePrice: string;
+        chapterPrice: string;
+        contentFormat: PageContentFormat;
+        metadata: BookMetadataInput;
+        chapterTitles: Array<[number, string]>;
+        status?: BookStatus;
+        publishAt?: string | null;
+    };
+
+    return {
+        id: String(row.id),
+        authorAddress: String(row.author_address),
+        sourceType: row.source_type as UploadSourceType,
+        status: row.status as UploadSessionStatus,
+        draft: {
+            title: draft.title,
+            coverImageUrl: draft.coverImageUrl,
+            pagePrice: BigInt(draft.pagePrice),
+            chapterPrice: BigInt(draft.chapterPrice),
+            contentFormat: draft.contentFormat,
+            metadata: draft.metadata,
+            chapterTitles: new Map(draft.chapterTitles),
+            status: draft.status ?? 'draft',
+            publishAt: draft.publishAt ? new Date(draft.publishAt) : null,
+        },
+        expectedPages: row.expected_pages === null ? null : Number(row.expected_pages),
+        bookId: row.book_id === null ? null : Number(row.book_id),
+        lastError: (row.last_error as string | null) ?? null,
+        expiresAt: new Date(row.expires_at as string).toISOString(),
+        createdAt: new Date(row.created_at as string).toISOString(),
+        updatedAt: new Date(row.updated_at as string).toISOString(),
+        completedAt: row.completed_at ? new Date(row.completed_at as string).toISOString() : null,
+    };
+}
+
+function toPositiveInteger(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value || '', 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetTestDatabase, startTestDatabase, stopTestDatabase, testPool } from '../test/db';
+import { READER, depositCredits } from '../test/fixtures';
+import { getReaderCreditBalance } from './credits';
+import { runLedgerInvariantCheck } from './ledger';
+import { getCreditWithdrawal, processCreditWithdrawals, requestCreditWithdrawal } from './withdrawals';
+
+// Treasury payouts need a signing key whose address matches; nothing is broadcast for real.
+vi.hoisted(() => {
+    process.env.STACKPAD_TREASURY_ADDRESS = 'STXZQEVWM5KM4MMBR67XZH0ZSHK7MJXH5PMPWN0T';
+    process.env.STACKPAD_TREASURY_PRIVATE_KEY = 'f699b57e4035a4e42835807953361a7572328c5e868f0babc5f41f384a32db79';
+    process.env.AUTHOR_PAYOUT_FEE_MICROSTX = '180';
+});
+
+const chain = vi.hoisted(() => ({
+    broadcasts: [] as string[],
+    rejectBroadcasts: false,
+    txStatus: 'success',
+}));
+
+vi.mock('../db/client', async () => ({ default: (await import('../test/db')).testPool }));
+vi.mock('@stacks/transactions', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@stacks/transactions')>(),
+    broadcastTransaction: vi.fn(async () => {
+        if (chain.rejectBroadcasts) {
+            return { error: 'transaction rejected', reason: 'NotEnoughFunds' };
+        }
+        const txid = `0x${String(chain.broadcasts.length + 1).padStart(64, '0')}`;
+        chain.broadcasts.push(txid);
+        return { txid };
+    }),
+}));
+vi.mock('./stacks', () => ({
+    accountsApi: { getAccountNonces: vi.fn(async () => ({ possible_next_nonce: 0 })) },
+    transactionsApi: { getTransactionById: vi.fn(async () => ({ tx_status: chain.txStatus })) },
+}));
+
+beforeAll(startTestDatabase, 60_000);
+afterAll(stopTestDatabase);
+beforeEach(async () => {
+    await resetTestDatabase();
+    chain.broadcasts.length = 0;
+    chain.rejectBroadcasts = false;
+    chain.txStatus = 'success';
+    await depositCredits(READER, BigInt(50_000));
+});
+
+async function requestWithdrawal(amount: number): Promise<number> {
+    const request = await requestCreditWithdrawal(READER, BigInt(amount));
+    if (!request.valid) {
+        throw new Error(request.error);
+    }
+    return request.withdrawal.id;
+}
+
+async function expectLedgerConsistent(): Promise<void> {
+    const run = await runLedgerInvariantCheck();
+    expect(run.violations).toEqual([]);
+}
+
+describe('credit withdrawals', () => {
+    it('holds the amount from the balance while the withdrawal is pending', async () => {
+        const request = await requestCreditWithdrawal(READER, BigInt(20_000));
+
+        expect(request).toMatchObject({
+            valid: true,
+            balance: '30000',
+            withdrawal: { status: 'pending', amount: '20000' },
+        });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(30_000));
+        const holds = await testPool.query(`SELECT amount FROM credit_transactions WHERE tx_type = 'withdrawal_hold'`);
+        expect(holds.rows).toEqual([{ amount: '-20000' }]);
+        await expectLedgerConsistent();
+    });
+
+    it('refuses a withdrawal above the balance', async () => {
+        expect(await requestCreditWithdrawal(READER, BigInt(50_001))).toEqual({
+            valid: false,
+            error: 'Insufficient credit balance',
+        });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(50_000));
+        await expectLedgerConsistent();
+    });
+
+    it('broadcasts the transfer and confirms it once the chain does', async () => {
+        const withdrawalId = await requestWithdrawal(20_000);
+
+        expect(await processCreditWithdrawals()).toEqual({ broadcastCount: 1, confirmedCount: 0, failedCount: 0 });
+        expect(await getCreditWithdrawal(withdrawalId)).toMatchObject({
+            status: 'broadcasted',
+            payoutTxHash: chain.broadcasts[0].slice(2),
+        });
+        await expectLedgerConsistent();
+
+        expect(await processCreditWithdrawals()).toEqual({ broadcastCount: 0, confirmedCount: 1, failedCount: 0 });
+        expect(await getCreditWithdrawal(withdrawalId)).toMatchObject({ status: 'confirmed' });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(30_000));
+        const payable = await testPool.query(
+            `SELECT COALESCE(SUM(amount), 0) AS balance FROM ledger_entries WHERE account = 'withdrawal_payable'`
+        );
+        expect(payable.rows).toEqual([{ balance: '0' }]);
+        await expectLedgerConsistent();
+    });
+
+    it('releases the hold when the transfer fails on chain', async () => {
+        const withdrawalId = await requestWithdrawal(20_000);
+        await processCreditWithdrawals();
+        chain.txStatus = 'abort_by_response';
+
+        expect(await processCreditWithdrawals()).toEqual({ broadcastCount: 0, confirmedCount: 0, failedCount: 1 });
+
+        expect(await getCreditWithdrawal(withdrawalId)).toMatchObject({
+            status: 'failed',
+            lastError: 'payout_tx_failed:abort_by_response',
+        });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(50_000));
+        const releases = await testPool.query(
+            `SELECT amount FROM credit_transactions WHERE tx_type = 'withdrawal_release'`
+        );
+        expect(releases.rows).toEqual([{ amount: '20000' }]);
+        await expectLedgerConsistent();
+    });
+
+    it('releases the hold after the last rejected broadcast attempt', async () => {
+        const withdrawalId = await requestWithdrawal(20_000);
+        chain.rejectBroadcasts = true;
+
+        await processCreditWithdrawals();
+        await processCreditWithdrawals();
+        expect(await getCreditWithdrawal(withdrawalId)).toMatchObject({ status: 'pending' });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(30_000));
+
+        expect(await processCreditWithdrawals()).toEqual({ broadcastCount: 0, confirmedCount: 0, failedCount: 1 });
+        expect(await getCreditWithdrawal(withdrawalId)).toMatchObject({ status: 'failed' });
+        expect(await getReaderCreditBalance(READER)).toBe(BigInt(50_000));
+        expect(chain.broadcasts).toEqual([]);
+        await expectLedgerConsistent();
+    });
+});
@@ -0,0 +1,284 @@
+import * as dotenv from 'dotenv';
+import { validateStacksAddress } from '@stacks/transactions';
+import pool from '../db/client';
+import {
+    broadcastTreasuryTransfer,
+    fetchNextTreasuryNonce,
+    resolvePayoutConfig,
+    resolveSettlementTxState,
+    SettlementLockUnavailableError,
+    withSettlementAdvisoryLock,
+} from './author-payouts';
+import { holdCreditsForWithdrawal, releaseWithdrawalHold } from './credits';
+import { credit, debit, postLedgerTransaction } from './ledger';
+import { toMicroStx } from './money';
+
+dotenv.config();
+
+const WITHDRAWAL_MIN_MICROSTX = toBigIntSafe(process.env.WITHDRAWAL_MIN_MICROSTX, BigInt(10_000)); // 0.01 STX
+const WITHDRAWAL_MAX_BROADCAST_ATTEMPTS = 3;
+const WITHDRAWAL_MEMO_PREFIX = 'spd:wd';
+
+export type WithdrawalStatus = 'pending' | 'broadcasted' | 'confirmed' | 'failed';
+
+export interface CreditWithdrawal {
+    id: number;
+    walletAddress: string;
+    amount: string;
+    status: WithdrawalStatus;
+    payoutTxHash: string | null;
+    lastError: string | null;
+    createdAt: Date;
+    broadcastAt: Date | null;
+    confirmedAt: Date | null;
+    failedAt: Date | null;
+}
+
+export interface WithdrawalRunResult {
+    broadcastCount: number;
+    confirmedCount: number;
+    failedCount: number;
+}
+
+/** Validates `{ amount }` in microSTX against the configured minimum. */
+export function parseWithdrawalAmount(body: unknown): { valid: true; amount: bigint } | { valid: false; error: string } {
+    const source = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const amount = toMicroStx(source.amount);
+    if (amount === null || amount <= BigInt(0)) {
+        return { valid: false, error: 'amount must be a positive integer (microSTX)' };
+    }
+    if (amount < WITHDRAWAL_MIN_MICROSTX) {
+        return { valid: false, error: `amount must be at least ${WITHDRAWAL_MIN_MICROSTX.toString()} microSTX` };
+    }
+    return { valid: true, amount };
+}
+
+/** Holds `amount` from the reader's balance and queues the transfer back to their wallet. */
+export async function requestCreditWithdrawal(walletAddress: string, amount: bigint): Promise<{
+    valid: true;
+    withdrawal: CreditWithdrawal;
+    balance: string;
+} | {
+    valid: false;
+    error: string;
+}> {
+    if (!validateStacksAddress(walletAddress.trim())) {
+        return { valid: false, error: 'Withdrawals need a valid Stacks wallet address' };
+    }
+
+    const hold = await holdCreditsForWithdrawal(walletAddress, amount);
+    if (hold.status === 'rejected') {
+        return { valid: false, error: hold.error };
+    }
+
+    return {
+        valid: true,
+        withdrawal: (await getCreditWithdrawal(hold.withdrawalId))!,
+        balance: hold.balance,
+    };
+}
+
+export async function listReaderWithdrawals(walletAddress: string): Promise<CreditWithdrawal[]> {
+    const result = await pool.query(
+        `SELECT id, wallet_address, amount, status, payout_tx_hash, last_error,
+                created_at, broadcast_at, confirmed_at, failed_at
+         FROM credit_withdrawals
+         WHERE wallet_address = $1
+         ORDER BY created_at DESC
+         LIMIT 50`,
+        [walletAddress.trim()]
+    );
+    return result.rows.map(mapWithdrawalRow);
+}
+
+export async function getCreditWithdrawal(withdrawalId: number): Promise<CreditWithdrawal | null> {
+    const result = await pool.query(
+        `SELECT id, wallet_address, amount, status, payout_tx_hash, last_error,
+                created_at, broadcast_at, confirmed_at, failed_at
+         FROM credit_withdrawals
+         WHERE id = $1`,
+        [withdrawalId]
+    );
+    return result.rows.length > 0 ? mapWithdrawalRow(result.rows[0]) : null;
+}
+
+/**
+ * Reconciles broadcasted withdrawals, then broadcasts pending ones oldest first. Runs under the
+ * author settlement lock so both share the treasury nonce sequence. Failed transfers release
+ * the reader's hold.
+ */
+export async function processCreditWithdrawals(limit = 20): Promise<WithdrawalRunResult> {
+    try {
+        return await withSettlementAdvisoryLock(async () => {
+            const result = await reconcileBroadcastedWithdrawals(limit);
+
+            const config = resolvePayoutConfig();
+            if (!config) {
+                return result;
+            }
+
+            const pending = await pool.query(
+                `SELECT id, wallet_address, amount, broadcast_attempts
+                 FROM credit_withdrawals
+                 WHERE status = 'pending'
+                 ORDER BY created_at ASC
+                 LIMIT $1`,
+                [Math.max(1, limit)]
+            );
+            if (pending.rows.length === 0) {
+                return result;
+            }
+
+            let nextNonce = await fetchNextTreasuryNonce(config.treasuryAddress);
+            for (const row of pending.rows) {
+                const withdrawalId = Number(row.id);
+                const walletAddress = String(row.wallet_address);
+                if (!validateStacksAddress(walletAddress)) {
+                    await releaseWithdrawalHold(withdrawalId, `Invalid withdrawal address: ${walletAddress}`);
+                    result.failedCount += 1;
+                    continue;
+                }
+
+                const attempt = await broadcastTreasuryTransfer(
+                    config,
+                    walletAddress,
+                    BigInt(row.amount),
+                    nextNonce,
+                    `${WITHDRAWAL_MEMO_PREFIX}:${withdrawalId}`
+                );
+
+                if (!attempt.ok || !attempt.txHash) {
+                    nextNonce = attempt.usedNonce;
+                    const reason = attempt.error || 'Withdrawal broadcast failed';
+                    if (Number(row.broadcast_attempts) + 1 >= WITHDRAWAL_MAX_BROADCAST_ATTEMPTS) {
+                        await releaseWithdrawalHold(withdrawalId, reason);
+                        result.failedCount += 1;
+                    } else {
+                        await pool.query(
+                            `UPDATE credit_withdrawals
+                             SET broadcast_attempts = broadcast_attempts + 1,
+                                 last_error = $2
+                             WHERE id = $1`,
+                            [withdrawalId, reason]
+                        );
+                    }
+                    continue;
+                }
+
+                await pool.query(
+                    `UPDATE credit_withdrawals
+                     SET status = 'broadcasted',
+                         payout_tx_hash = $2,
+                         nonce = $3,
+                         broadcast_attempts = broadcast_attempts + 1,
+                         last_error = NULL,
+                         broadcast_at = NOW()
+                     WHERE id = $1`,
+                    [withdrawalId, attempt.txHash, attempt.usedNonce.toString()]
+                );
+                nextNonce = attempt.usedNonce + BigInt(1);
+                result.broadcastCount += 1;
+            }
+
+            return result;
+        });
+    } catch (error) {
+        if (error instanceof SettlementLockUnavailableError) {
+            return { broadcastCount: 0, confirmedCount: 0, failedCount: 0 };
+        }
+        throw error;
+    }
+}
+
+async function reconcileBroadcastedWithdrawals(limit: number): Promise<WithdrawalRunResult> {
+    const result: WithdrawalRunResult = { broadcastCount: 0, confirmedCount: 0, failedCount: 0 };
+    const lookup = await pool.query(
+        `SELECT id, payout_tx_hash
+         FROM credit_withdrawals
+         WHERE status = 'broadcasted'
+           AND payout_tx_hash IS NOT NULL
+         ORDER BY broadcast_at ASC NULLS LAST, created_at ASC
+         LIMIT $1`,
+        [Math.max(1, limit)]
+    );
+
+    for (const row of lookup.rows) {
+        const withdrawalId = Number(row.id);
+        const txState = await resolveSettlementTxState(String(row.payout_tx_hash));
+        if (txState.status === 'pending') {
+            continue;
+        }
+
+        if (txState.status === 'confirmed') {
+            await confirmWithdrawal(withdrawalId);
+            result.confirmedCount += 1;
+            continue;
+        }
+
+        if (await releaseWithdrawalHold(withdrawalId, txState.error || 'Withdrawal transaction failed')) {
+            result.failedCount += 1;
+        }
+    }
+
+    return result;
+}
+
+async function confirmWithdrawal(withdrawalId: number): Promise<void> {
+    const client = await pool.connect();
+    let rolledBack = false;
+    try {
+        await client.query('BEGIN');
+        const confirmed = await client.query(
+            `UPDATE credit_withdrawals
+             SET status = 'confirmed',
+                 confirmed_at = NOW(),
+                 last_error = NULL
+             WHERE id = $1 AND status = 'broadcasted'
+             RETURNING amount`,
+            [withdrawalId]
+        );
+        if (confirmed.rows[0]) {
+            const amount = BigInt(confirmed.rows[0].amount);
+            await postLedgerTransaction(client, 'withdrawal_paid', { reference: `withdrawal:${withdrawalId}` }, [
+                debit('withdrawal_payable', null, amount),
+                credit('treasury_cash', null, amount),
+            ]);
+        }
+        await client.query('COMMIT');
+    } catch (error) {
+        if (!rolledBack) {
+            await client.query('ROLLBACK');
+            rolledBack = true;
+        }
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+function mapWithdrawalRow(row: Record<string, unknown>): CreditWithdrawal {
+    return {
+        id: Number(row.id),
+        walletAddress: String(row.wallet_address),
+        amount: String(row.amount),
+        status: row.status as WithdrawalStatus,
+        payoutTxHash: row.payout_tx_hash === null ? null : String(row.payout_tx_hash),
+        lastError: row.last_error === null ? null : String(row.last_error),
+        createdAt: row.created_at as Date,
+        broadcastAt: (row.broadcast_at as Date | null) ?? null,
+        confirmedAt: (row.confirmed_at as Date | null) ?? null,
+        failedAt: (row.failed_at as Date | null) ?? null,
+    };
+}
+
+function toBigIntSafe(value: string | undefined, fallback: bigint): bigint {
+    if (!value) {
+        return fallback;
+    }
+    try {
+        const parsed = BigInt(value);
+        return parsed >= BigInt(0) ? parsed : fallback;
+    } catch {
+        return fallback;
+    }
+}
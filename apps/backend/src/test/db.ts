@@ -0,0 +1,66 @@
+import { PGlite, types } from '@electric-sql/pglite';
+import type { Pool, PoolClient, QueryResultRow } from 'pg';
+import { migrateUp } from '../db/migrator';
+
+interface TestQueryResult {
+    rows: QueryResultRow[];
+    rowCount: number;
+}
+
+let database: PGlite | null = null;
+let tables: string[] = [];
+
+async function query(sql: string, params?: unknown[]): Promise<TestQueryResult> {
+    if (!database) {
+        throw new Error('Call startTestDatabase() before querying the test database');
+    }
+
+    // Parameterless calls may hold several statements (migrations), which only `exec` runs.
+    if (params && params.length > 0) {
+        const result = await database.query<QueryResultRow>(sql, params);
+        return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+    }
+
+    const results = await database.exec(sql);
+    const last = results[results.length - 1];
+    return {
+        rows: (last?.rows ?? []) as QueryResultRow[],
+        rowCount: last ? last.affectedRows ?? last.rows.length : 0,
+    };
+}
+
+/**
+ * Stand-in for the `pg` pool backed by an in-process Postgres. A single session serves every
+ * caller, so `connect()` hands out the same connection and transactions must not interleave.
+ * Bigint and numeric columns come back as strings, as they do from `pg`.
+ */
+export const testPool = {
+    query,
+    connect: async () => ({ query, release: () => undefined }) as unknown as PoolClient,
+} as unknown as Pool;
+
+/** Starts the in-process database and applies every migration. */
+export async function startTestDatabase(): Promise<void> {
+    database = new PGlite({
+        parsers: {
+            [types.INT8]: (value: string) => value,
+            [types.NUMERIC]: (value: string) => value,
+        },
+    });
+    await migrateUp(testPool);
+
+    const result = await database.query<{ tablename: string }>(
+        `SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND tablename <> 'schema_migrations'`
+    );
+    tables = result.rows.map((row) => `"${row.tablename}"`);
+}
+
+/** Empties every table, keeping the migrated schema. */
+export async function resetTestDatabase(): Promise<void> {
+    await query(`TRUNCATE ${tables.join(', ')} RESTART IDENTITY CASCADE`);
+}
+
+export async function stopTestDatabase(): Promise<void> {
+    await database?.close();
+    database = null;
+}
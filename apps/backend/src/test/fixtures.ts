@@ -0,0 +1,58 @@
+import { testPool } from './db';
+import { credit, debit, postLedgerTransaction } from '../services/ledger';
+
+export const READER = 'ST5900TADFMD18STH8FGSMKF3QMHR4X6GCW6FW6S';
+export const AUTHOR = 'STWYN3EKQZ58YAZSGNESZB0PF67Z94NJM8EK68E';
+
+/** Inserts a published book and returns its id. */
+export async function insertBook(
+    overrides: { authorAddress?: string; pagePrice?: bigint; chapterPrice?: bigint; title?: string } = {}
+): Promise<number> {
+    const result = await testPool.query(
+        `INSERT INTO books (author_address, title, total_pages, total_chapters, page_price, chapter_price, status, published_at)
+         VALUES ($1, $2, 10, 2, $3, $4, 'published', NOW())
+         RETURNING id`,
+        [
+            overrides.authorAddress ?? AUTHOR,
+            overrides.title ?? 'Test Book',
+            (overrides.pagePrice ?? BigInt(1000)).toString(),
+            (overrides.chapterPrice ?? BigInt(4000)).toString(),
+        ]
+    );
+    return Number(result.rows[0].id);
+}
+
+/** Credits a reader as a confirmed deposit would: balance, `deposit` transaction and ledger entry. */
+export async function depositCredits(walletAddress: string, amount: bigint): Promise<void> {
+    const client = await testPool.connect();
+    await client.query('BEGIN');
+    const account = await client.query(
+        `INSERT INTO reader_accounts (wallet_address, credit_balance, total_deposited)
+         VALUES ($1, $2, $2)
+         ON CONFLICT (wallet_address) DO UPDATE
+         SET credit_balance = reader_accounts.credit_balance + EXCLUDED.credit_balance,
+             total_deposited = reader_accounts.total_deposited + EXCLUDED.total_deposited
+         RETURNING credit_balance`,
+        [walletAddress, amount.toString()]
+    );
+    const transaction = await client.query(
+        `INSERT INTO credit_transactions (wallet_address, tx_type, amount, balance_after)
+         VALUES ($1, 'deposit', $2, $3)
+         RETURNING id`,
+        [walletAddress, amount.toString(), account.rows[0].credit_balance]
+    );
+    await postLedgerTransaction(client, 'deposit', { creditTransactionId: Number(transaction.rows[0].id) }, [
+        debit('treasury_cash', null, amount),
+        credit('reader_liability', walletAddress, amount),
+    ]);
+    await client.query('COMMIT');
+    client.release();
+}
+
+/** Moves every subscription month into the past so month-end allocation picks it up. */
+export async function endSubscriptionMonths(): Promise<void> {
+    await testPool.query(
+        `UPDATE reader_subscriptions
+         SET starts_at = starts_at - INTERVAL '31 days', ends_at = ends_at - INTERVAL '31 days'`
+    );
+}
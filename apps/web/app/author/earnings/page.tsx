@@ -0,0 +1,420 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import type {
+    AuthorPayoutBreakdown,
+    BookUnlockFunnel,
+    ContributorBookSplit,
+    EarningsInterval,
+    EarningsSeriesPoint,
+} from '@stackpad/shared';
+import { formatStxAmount } from '@stackpad/x402-client';
+import { useAuth } from '@/hooks/useAuth';
+import { apiClient } from '@/lib/api';
+import { WalletConnect } from '@/components/WalletConnect';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { useToast } from '@/components/ToastProvider';
+import { BrandLogo } from '@/components/BrandLogo';
+
+const INTERVAL_OPTIONS: Array<{ value: EarningsInterval; label: string }> = [
+    { value: 'day', label: 'Daily' },
+    { value: 'week', label: 'Weekly' },
+    { value: 'month', label: 'Monthly' },
+];
+
+const BATCH_STATUS_LABELS: Record<string, string> = {
+    created: 'Queued',
+    broadcasted: 'Sent, confirming',
+    confirmed: 'Settled',
+    failed: 'Failed, re-queued',
+};
+
+interface BookEarningsRow {
+    bookId: number;
+    title: string;
+    earnings: bigint;
+    pagesSold: number;
+    chaptersSold: number;
+    uniqueReaders: number;
+    /** False for books the wallet is only a split payee of; the funnel is owner-only. */
+    owned: boolean;
+}
+
+export default function AuthorEarningsPage() {
+    const { isAuthenticated, userAddress, connectWallet } = useAuth();
+    const { pushToast } = useToast();
+
+    const [totalEarnings, setTotalEarnings] = useState<bigint>(BigInt(0));
+    const [bookEarnings, setBookEarnings] = useState<BookEarningsRow[]>([]);
+    const [seriesInterval, setSeriesInterval] = useState<EarningsInterval>('day');
+    const [series, setSeries] = useState<EarningsSeriesPoint[]>([]);
+    const [payouts, setPayouts] = useState<AuthorPayoutBreakdown | null>(null);
+    const [splits, setSplits] = useState<ContributorBookSplit[]>([]);
+    const [funnelBookId, setFunnelBookId] = useState<number | null>(null);
+    const [funnel, setFunnel] = useState<BookUnlockFunnel | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const loadOverview = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [earnings, payoutBreakdown, contributorSplits] = await Promise.all([
+                apiClient.getAuthorEarnings(),
+                apiClient.getAuthorPayouts(),
+                apiClient.getContributorSplits(),
+            ]);
+            const sharedBookIds = new Set(contributorSplits
+                .filter((split) => split.ownerAddress !== userAddress)
+                .map((split) => split.bookId));
+            const rows = earnings.bookEarnings.map((book) => ({
+                bookId: book.book_id,
+                title: book.title,
+                earnings: book.earnings,
+                pagesSold: Number(book.pages_sold),
+                chaptersSold: Number(book.chapters_sold),
+                uniqueReaders: Number(book.unique_readers),
+                owned: !sharedBookIds.has(book.book_id),
+            }));
+            setTotalEarnings(earnings.totalEarnings);
+            setBookEarnings(rows);
+            setPayouts(payoutBreakdown);
+            setSplits(contributorSplits);
+            setFunnelBookId((current) => current ?? rows.find((row) => row.owned)?.bookId ?? null);
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Could not load earnings',
+                message: error instanceof Error ? error.message : 'Failed to fetch earnings',
+            });
+        } finally {
+            setLoading(false);
+        }
+    }, [pushToast, userAddress]);
+
+    useEffect(() => {
+        if (!isAuthenticated || !userAddress) {
+            setBookEarnings([]);
+            setPayouts(null);
+            setSplits([]);
+            setFunnel(null);
+            return;
+        }
+
+        void loadOverview();
+    }, [isAuthenticated, loadOverview, userAddress]);
+
+    useEffect(() => {
+        if (!isAuthenticated || !userAddress) {
+            setSeries([]);
+            return;
+        }
+
+        apiClient.getAuthorEarningsSeries(seriesInterval)
+            .then(setSeries)
+            .catch((error) => {
+                console.error('Failed to load earnings series:', error);
+                setSeries([]);
+            });
+    }, [isAuthenticated, userAddress, seriesInterval]);
+
+    useEffect(() => {
+        if (funnelBookId === null) {
+            setFunnel(null);
+            return;
+        }
+
+        apiClient.getBookUnlockFunnel(funnelBookId)
+            .then(setFunnel)
+            .catch((error) => {
+                pushToast({
+                    tone: 'error',
+                    title: 'Funnel unavailable',
+                    message: error instanceof Error ? error.message : 'Failed to fetch unlock funnel',
+                });
+                setFunnel(null);
+            });
+    }, [funnelBookId, pushToast]);
+
+    if (!isAuthenticated) {
+        return (
+            <div className="app-shell">
+                <header className="topbar">
+                    <div className="layout-wrap flex h-20 items-center justify-between">
+                        <BrandLogo />
+                        <ThemeToggle />
+                    </div>
+                </header>
+                <main className="layout-wrap flex min-h-[72vh] items-center justify-center py-16">
+                    <div className="surface w-full max-w-xl p-10 text-center md:p-12">
+                        <h1 className="font-display text-4xl text-slate-900">Connect to view earnings</h1>
+                        <p className="mt-5 text-lg leading-8 text-slate-600">
+                            Connect your author wallet to see earnings, payouts and reader funnels.
+                        </p>
+                        <div className="mt-10 flex justify-center">
+                            <button onClick={connectWallet} className="btn-primary">Connect wallet</button>
+                        </div>
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    const seriesMax = series.reduce((max, point) => (BigInt(point.amount) > max ? BigInt(point.amount) : max), BigInt(0));
+    const payoutSegments = payouts
+        ? [
+            { label: 'Settled', amount: BigInt(payouts.settled.amount), className: 'bg-[hsl(var(--accent))]' },
+            { label: 'In flight', amount: BigInt(payouts.pending.amount), className: 'bg-slate-400' },
+            { label: 'Awaiting batch', amount: BigInt(payouts.unbatchedAmount), className: 'bg-slate-200' },
+        ]
+        : [];
+    const payoutTotal = payoutSegments.reduce((sum, segment) => sum + segment.amount, BigInt(0));
+    const funnelMax = funnel ? Math.max(1, ...funnel.pages.map((page) => page.readers)) : 1;
+
+    return (
+        <div className="app-shell">
+            <header className="topbar">
+                <div className="layout-wrap flex h-20 items-center justify-between">
+                    <BrandLogo />
+                    <div className="flex items-center gap-3">
+                        <Link href="/author" className="btn-secondary">Author</Link>
+                        <Link href="/author/published" className="btn-secondary">Your books</Link>
+                        <ThemeToggle />
+                        <WalletConnect />
+                    </div>
+                </div>
+            </header>
+
+            <main className="layout-wrap py-14 md:py-20">
+                <motion.div
+                    initial={{ opacity: 0, y: 12 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.35 }}
+                    className="mx-auto max-w-4xl space-y-6"
+                >
+                    <section className="card">
+                        <div className="flex flex-wrap items-end justify-between gap-4">
+                            <div>
+                                <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Earnings</p>
+                                <h1 className="mt-3 font-display text-4xl text-slate-900 md:text-5xl">
+                                    {formatStxAmount(totalEarnings)}
+                                </h1>
+                            </div>
+                            <div className="flex gap-2">
+                                {INTERVAL_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => setSeriesInterval(option.value)}
+                                        className={seriesInterval === option.value ? 'btn-primary' : 'btn-secondary'}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {series.length === 0 ? (
+                            <p className="mt-6 text-sm text-slate-600">{loading ? 'Loading earnings...' : 'No earnings in this period.'}</p>
+                        ) : (
+                            <div className="mt-8 flex h-48 items-end gap-1" role="img" aria-label="Earnings per period">
+                                {series.map((point) => {
+                                    const amount = BigInt(point.amount);
+                                    const height = seriesMax > BigInt(0) ? Number((amount * BigInt(100)) / seriesMax) : 0;
+                                    return (
+                                        <div
+                                            key={String(point.periodStart)}
+                                            className="flex h-full flex-1 items-end"
+                                            title={`${formatPeriod(point.periodStart, seriesInterval)}: ${formatStxAmount(amount)} from ${point.unlocks} unlocks by ${point.readers} readers`}
+                                        >
+                                            <div
+                                                className="w-full rounded-t bg-[hsl(var(--accent))]"
+                                                style={{ height: `${Math.max(height, amount > BigInt(0) ? 2 : 0)}%` }}
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        {series.length > 0 && (
+                            <div className="mt-2 flex justify-between text-xs text-slate-500">
+                                <span>{formatPeriod(series[0].periodStart, seriesInterval)}</span>
+                                <span>{formatPeriod(series[series.length - 1].periodStart, seriesInterval)}</span>
+                            </div>
+                        )}
+                    </section>
+
+                    {payouts && (
+                        <section className="card">
+                            <h2 className="font-display text-3xl text-slate-900">Payouts</h2>
+                            {payoutTotal > BigInt(0) && (
+                                <div className="mt-6 flex h-4 overflow-hidden rounded-full bg-slate-100">
+                                    {payoutSegments.map((segment) => (
+                                        <div
+                                            key={segment.label}
+                                            className={segment.className}
+                                            style={{ width: `${Number((segment.amount * BigInt(100)) / payoutTotal)}%` }}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            <dl className="mt-5 grid gap-4 text-sm sm:grid-cols-4">
+                                <div>
+                                    <dt className="text-xs uppercase tracking-[0.12em] text-slate-500">Settled</dt>
+                                    <dd className="mt-1 text-slate-900">
+                                        {formatStxAmount(payouts.settled.amount)} · {payouts.settled.batchCount} batches
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-xs uppercase tracking-[0.12em] text-slate-500">In flight</dt>
+                                    <dd className="mt-1 text-slate-900">
+                                        {formatStxAmount(payouts.pending.amount)} · {payouts.pending.batchCount} batches
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-xs uppercase tracking-[0.12em] text-slate-500">Awaiting batch</dt>
+                                    <dd className="mt-1 text-slate-900">{formatStxAmount(payouts.unbatchedAmount)}</dd>
+                                </div>
+                                <div>
+                                    <dt className="text-xs uppercase tracking-[0.12em] text-slate-500">Failed</dt>
+                                    <dd className="mt-1 text-slate-900">
+                                        {formatStxAmount(payouts.failed.amount)} · {payouts.failed.batchCount} batches
+                                    </dd>
+                                </div>
+                            </dl>
+                            {BigInt(payouts.outstandingClawbacks) > BigInt(0) && (
+                                <p className="mt-4 text-sm text-slate-600">
+                                    {formatStxAmount(payouts.outstandingClawbacks)} of refunded revenue will be withheld from your next payout.
+                                </p>
+                            )}
+                            {payouts.recentBatches.length > 0 && (
+                                <ul className="mt-6 space-y-2 border-t border-slate-200 pt-4 text-sm text-slate-600">
+                                    {payouts.recentBatches.map((batch) => (
+                                        <li key={batch.id} className="flex flex-wrap justify-between gap-2">
+                                            <span>
+                                                {new Date(batch.createdAt).toLocaleDateString()} · {formatStxAmount(batch.totalAmount)}
+                                                {' '}for {batch.eventCount} unlocks
+                                            </span>
+                                            <span className="text-xs text-slate-500" title={batch.lastError ?? undefined}>
+                                                {BATCH_STATUS_LABELS[batch.status] ?? batch.status}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    )}
+
+                    <section className="card">
+                        <h2 className="font-display text-3xl text-slate-900">Books</h2>
+                        {bookEarnings.length === 0 ? (
+                            <p className="mt-4 text-sm text-slate-600">No books uploaded yet.</p>
+                        ) : (
+                            <table className="mt-6 w-full text-left text-sm">
+                                <thead className="text-xs uppercase tracking-[0.12em] text-slate-500">
+                                    <tr>
+                                        <th className="pb-2 font-medium">Book</th>
+                                        <th className="pb-2 font-medium">Earned</th>
+                                        <th className="pb-2 font-medium">Readers</th>
+                                        <th className="pb-2 font-medium">Pages / chapters sold</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-slate-700">
+                                    {bookEarnings.map((book) => (
+                                        <tr key={book.bookId} className="border-t border-slate-200">
+                                            <td className="py-2 pr-3">
+                                                {book.owned ? (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setFunnelBookId(book.bookId)}
+                                                        className={funnelBookId === book.bookId ? 'font-medium text-slate-900' : 'underline-offset-2 hover:underline'}
+                                                    >
+                                                        {book.title}
+                                                    </button>
+                                                ) : (
+                                                    <span>{book.title} <span className="text-xs text-slate-500">(shared)</span></span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-3">{formatStxAmount(book.earnings)}</td>
+                                            <td className="py-2 pr-3">{book.uniqueReaders}</td>
+                                            <td className="py-2">{book.pagesSold} / {book.chaptersSold}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </section>
+
+                    {splits.length > 0 && (
+                        <section className="card">
+                            <h2 className="font-display text-3xl text-slate-900">Shared books</h2>
+                            <p className="mt-2 text-sm text-slate-600">
+                                Books whose credit revenue is split between contributors. Your share is paid to you directly.
+                            </p>
+                            <ul className="mt-6 space-y-3 text-sm text-slate-700">
+                                {splits.map((split) => {
+                                    const mine = split.current.shares.find((share) => share.payeeAddress === userAddress);
+                                    return (
+                                        <li key={split.bookId} className="flex flex-wrap items-baseline justify-between gap-2 border-t border-slate-200 pt-3">
+                                            <span className="font-medium text-slate-900">{split.bookTitle}</span>
+                                            <span className="text-slate-600">
+                                                {mine
+                                                    ? `${formatSplitRole(mine.role)} · ${(mine.shareBps / 100).toFixed(2)}%`
+                                                    : 'No longer a payee'}
+                                                {' · '}
+                                                {split.current.shares.length} payees since{' '}
+                                                {new Date(split.current.createdAt).toLocaleDateString()}
+                                            </span>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    )}
+
+                    {funnel && (
+                        <section className="card">
+                            <h2 className="font-display text-3xl text-slate-900">Unlock funnel</h2>
+                            <p className="mt-2 text-sm text-slate-600">
+                                Readers who paid for each page of{' '}
+                                {bookEarnings.find((book) => book.bookId === funnel.bookId)?.title ?? `book #${funnel.bookId}`}.
+                                {funnel.upfrontBuyers > 0 && ` ${funnel.upfrontBuyers} more bought the whole book or a bundle.`}
+                            </p>
+                            <ul className="mt-6 max-h-[28rem] space-y-1 overflow-y-auto pr-2 text-xs text-slate-600">
+                                {funnel.pages.map((page) => (
+                                    <li key={page.pageNumber} className="flex items-center gap-3">
+                                        <span className="w-16 shrink-0">
+                                            p.{page.pageNumber}
+                                            {page.chapterNumber !== null && <span className="text-slate-400"> ch.{page.chapterNumber}</span>}
+                                        </span>
+                                        <div className="h-3 flex-1 rounded bg-slate-100">
+                                            {!page.free && (
+                                                <div
+                                                    className="h-3 rounded bg-[hsl(var(--accent))]"
+                                                    style={{ width: `${(page.readers / funnelMax) * 100}%` }}
+                                                />
+                                            )}
+                                        </div>
+                                        <span className="w-12 shrink-0 text-right">{page.free ? 'free' : page.readers}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+                </motion.div>
+            </main>
+        </div>
+    );
+}
+
+function formatPeriod(periodStart: Date | string, interval: EarningsInterval): string {
+    const date = new Date(periodStart);
+    return interval === 'month'
+        ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function formatSplitRole(role: string): string {
+    return role.replace('_', '-').replace(/^./, (letter) => letter.toUpperCase());
+}
@@ -3,8 +3,9 @@
 import { useMemo, useState } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
+import type { BookStatus, ContentRating, PageContentFormat } from '@stackpad/shared';
 import { useAuth } from '@/hooks/useAuth';
-import { apiClient } from '@/lib/api';
+import { UploadRequestError, apiClient, type AuthorUploadSession } from '@/lib/api';
 import { WalletConnect } from '@/components/WalletConnect';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { useToast } from '@/components/ToastProvider';
@@ -12,8 +13,28 @@ import { BrandLogo } from '@/components/BrandLogo';
 
 const CHARS_PER_PAGE = 1500;
 const DEFAULT_PAGE_PRICE = '100000';
+const PAGE_BATCH_SIZE = 50;
+const PAGE_BATCH_PDF_BYTES = 8 * 1024 * 1024;
+const EPUB_PART_BYTES = 5 * 1024 * 1024;
+const UPLOAD_RETRY_ATTEMPTS = 3;
 const PDFJS_CDN_URL = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.min.mjs';
 const PDFJS_WORKER_CDN_URL = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs';
+const CONTENT_RATING_OPTIONS: Array<{ value: ContentRating; label: string }> = [
+    { value: 'general', label: 'General audiences' },
+    { value: 'teen', label: 'Teen' },
+    { value: 'mature', label: 'Mature' },
+];
+const CONTENT_FORMAT_OPTIONS: Array<{ value: PageContentFormat; label: string }> = [
+    { value: 'text', label: 'Plain text' },
+    { value: 'markdown', label: 'Markdown' },
+    { value: 'html', label: 'HTML' },
+];
+const VISIBILITY_OPTIONS: Array<{ value: Exclude<BookStatus, 'archived'>; label: string }> = [
+    { value: 'published', label: 'Publish now' },
+    { value: 'unlisted', label: 'Unlisted (link only)' },
+    { value: 'scheduled', label: 'Schedule' },
+    { value: 'draft', label: 'Save as draft' },
+];
 const PDF_LIB_CDN_URLS = [
     'https://cdn.jsdelivr.net/npm/pdf-lib@1.17.1/+esm',
     'https://esm.sh/pdf-lib@1.17.1',
@@ -135,7 +156,7 @@ interface UploadPagePayload {
     pageNumber: number;
     chapterNumber: number;
     content: string;
-    pdfPageBase64?: string;
+    pdfPageBytes?: Uint8Array;
 }
 
 interface PdfJsModule {
@@ -188,28 +209,49 @@ export default function AuthorPage() {
     const [coverUrl, setCoverUrl] = useState('');
     const [bookContent, setBookContent] = useState('');
     const [pagePrice, setPagePrice] = useState(DEFAULT_PAGE_PRICE);
+    const [description, setDescription] = useState('');
+    const [genres, setGenres] = useState('');
+    const [language, setLanguage] = useState('');
+    const [isbn, setIsbn] = useState('');
+    const [contentRating, setContentRating] = useState<ContentRating>('general');
+    const [contentFormat, setContentFormat] = useState<PageContentFormat>('text');
+    const [visibility, setVisibility] = useState<Exclude<BookStatus, 'archived'>>('published');
+    const [publishAt, setPublishAt] = useState('');
 
     const [detectedPages, setDetectedPages] = useState<UploadPagePayload[] | null>(null);
     const [sourceFileName, setSourceFileName] = useState<string | null>(null);
+    const [epubFile, setEpubFile] = useState<File | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<string | null>(null);
+    // Kept after a failed publish so retrying resumes the same session instead of re-sending everything.
+    const [pendingUpload, setPendingUpload] = useState<{ sessionId: string; fingerprint: string } | null>(null);
 
     const effectivePages = useMemo(() => {
         if (detectedPages && detectedPages.length > 0) {
             return detectedPages;
         }
 
-        return paginateText(bookContent);
-    }, [detectedPages, bookContent]);
+        return paginateText(bookContent, contentFormat);
+    }, [detectedPages, bookContent, contentFormat]);
 
     const totalPages = effectivePages.length;
-    const totalChapters = useMemo(() => deriveChapterCount(effectivePages), [effectivePages]);
 
     function clearUploadForm() {
         setBookTitle('');
         setCoverUrl('');
         setBookContent('');
         setPagePrice(DEFAULT_PAGE_PRICE);
+        setDescription('');
+        setGenres('');
+        setLanguage('');
+        setIsbn('');
+        setContentRating('general');
+        setContentFormat('text');
+        setVisibility('published');
+        setPublishAt('');
         setDetectedPages(null);
         setSourceFileName(null);
+        setEpubFile(null);
+        setPendingUpload(null);
     }
 
     async function handleUpload(event: React.FormEvent) {
@@ -219,7 +261,7 @@ export default function AuthorPage() {
         }
 
         const title = bookTitle.trim();
-        if (!title) {
+        if (!title && !epubFile) {
             pushToast({
                 tone: 'error',
                 title: 'Missing title',
@@ -228,7 +270,7 @@ export default function AuthorPage() {
             return;
         }
 
-        if (effectivePages.length === 0) {
+        if (!epubFile && effectivePages.length === 0) {
             pushToast({
                 tone: 'error',
                 title: 'No content found',
@@ -247,26 +289,85 @@ export default function AuthorPage() {
             return;
         }
 
+        const scheduledAt = visibility === 'scheduled' && publishAt ? new Date(publishAt) : null;
+        if (visibility === 'scheduled' && (!scheduledAt || scheduledAt <= new Date())) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid schedule',
+                message: 'Pick a future date and time to publish this book.',
+            });
+            return;
+        }
+
+        const book = {
+            title: title || undefined,
+            coverImageUrl: coverUrl || undefined,
+            pagePrice: microStxPrice.toString(),
+            chapterPrice: (microStxPrice * BigInt(5)).toString(),
+            description: description.trim() || undefined,
+            genres: epubFile && !genres.trim() ? undefined : parseGenreList(genres),
+            language: language.trim() || undefined,
+            isbn: isbn.trim() || undefined,
+            contentRating,
+            // PDF pages keep their embedded page image and are always stored as text.
+            contentFormat: effectivePages.some((page) => page.pdfPageBytes) ? 'text' as const : contentFormat,
+            status: visibility,
+            publishAt: scheduledAt?.toISOString(),
+        };
+        const fingerprint = JSON.stringify({
+            book,
+            source: epubFile
+                ? [epubFile.name, epubFile.size, epubFile.lastModified]
+                : [sourceFileName, effectivePages.length, bookContent.length],
+        });
+
         setUploading(true);
 
         try {
-            await apiClient.uploadBook(
-                {
-                    authorAddress: userAddress,
-                    title,
-                    coverImageUrl: coverUrl || undefined,
-                    totalPages,
-                    totalChapters,
-                    pagePrice: microStxPrice.toString(),
-                    chapterPrice: (microStxPrice * BigInt(5)).toString(),
-                },
-                effectivePages
-            );
+            let session: AuthorUploadSession | null = null;
+            if (pendingUpload?.fingerprint === fingerprint) {
+                session = await apiClient.getUploadSession(pendingUpload.sessionId).catch(() => null);
+            } else if (pendingUpload) {
+                void apiClient.abortUploadSession(pendingUpload.sessionId).catch(() => undefined);
+            }
+
+            if (!session || session.status === 'aborted' || session.status === 'expired') {
+                setUploadProgress('Starting upload...');
+                session = await apiClient.createUploadSession({
+                    // EPUBs are parsed server-side so chapter titles and embedded images survive the import.
+                    sourceType: epubFile ? 'epub' : 'pages',
+                    book,
+                    expectedPages: epubFile ? undefined : totalPages,
+                });
+            }
+            setPendingUpload({ sessionId: session.id, fingerprint });
+
+            if (session.status === 'open') {
+                if (epubFile) {
+                    await uploadEpubParts(session, epubFile, setUploadProgress);
+                } else {
+                    await uploadPagesInBatches(session, effectivePages, setUploadProgress);
+                }
+            }
+
+            setUploadProgress('Publishing...');
+            await withUploadRetry(() => apiClient.finalizeUploadSession(session.id));
+            setPendingUpload(null);
+
+            if (epubFile) {
+                pushToast({
+                    tone: 'success',
+                    title: 'Import successful',
+                    message: `"${title || stripExtension(epubFile.name)}" ${describeVisibility(visibility, scheduledAt)}.`,
+                });
+                clearUploadForm();
+                return;
+            }
 
             pushToast({
                 tone: 'success',
                 title: 'Upload successful',
-                message: `"${title}" is now live in your library.`,
+                message: `"${title}" ${describeVisibility(visibility, scheduledAt)}.`,
             });
             clearUploadForm();
         } catch (error) {
@@ -274,10 +375,13 @@ export default function AuthorPage() {
             pushToast({
                 tone: 'error',
                 title: 'Upload failed',
-                message: 'The book could not be published. Please try again.',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : 'The book could not be published. Please try again.',
             });
         } finally {
             setUploading(false);
+            setUploadProgress(null);
         }
     }
 
@@ -301,15 +405,32 @@ export default function AuthorPage() {
             return;
         }
 
+        if (isEpubFile(file)) {
+            setEpubFile(file);
+            setDetectedPages(null);
+            setBookContent('');
+            setSourceFileName(file.name);
+            event.target.value = '';
+            pushToast({
+                tone: 'info',
+                title: 'EPUB selected',
+                message: 'Chapters, titles and images are read when you publish. Leave fields blank to use the EPUB metadata.',
+            });
+            return;
+        }
+
         setProcessingFile(true);
 
         try {
-            const pages = await extractPagesFromFile(file);
+            const format = detectContentFormat(file);
+            const pages = await extractPagesFromFile(file, format);
             if (pages.length === 0) {
                 throw new Error('No readable pages were found in this file.');
             }
 
             const mergedContent = pages.map((page) => page.content).join('\n\n');
+            setEpubFile(null);
+            setContentFormat(format);
             setDetectedPages(pages);
             setBookContent(mergedContent);
             setSourceFileName(file.name);
@@ -318,7 +439,7 @@ export default function AuthorPage() {
                 setBookTitle(stripExtension(file.name));
             }
 
-            const preservedPdfPages = pages.some((page) => typeof page.pdfPageBase64 === 'string' && page.pdfPageBase64.length > 0);
+            const preservedPdfPages = pages.some((page) => page.pdfPageBytes && page.pdfPageBytes.length > 0);
             pushToast({
                 tone: 'success',
                 title: 'File processed',
@@ -342,9 +463,10 @@ export default function AuthorPage() {
 
     function handleManualContentChange(value: string) {
         setBookContent(value);
-        if (detectedPages) {
+        if (detectedPages || epubFile) {
             setDetectedPages(null);
             setSourceFileName(null);
+            setEpubFile(null);
         }
     }
 
@@ -403,9 +525,14 @@ export default function AuthorPage() {
                                     Upload a text file or PDF for automatic page detection, or directly type/paste text for quick testing.
                                 </p>
                             </div>
-                            <Link href="/author/published" className="btn-primary">
-                                See published books
-                            </Link>
+                            <div className="flex gap-3">
+                                <Link href="/author/earnings" className="btn-secondary">
+                                    Earnings
+                                </Link>
+                                <Link href="/author/published" className="btn-primary">
+                                    See published books
+                                </Link>
+                            </div>
                         </div>
                     </div>
 
@@ -425,9 +552,9 @@ export default function AuthorPage() {
                                     type="text"
                                     value={bookTitle}
                                     onChange={(event) => setBookTitle(event.target.value)}
-                                    required
+                                    required={!epubFile}
                                     className="input-base"
-                                    placeholder="Enter title"
+                                    placeholder={epubFile ? 'Use the title from the EPUB' : 'Enter title'}
                                 />
                             </div>
 
@@ -445,6 +572,107 @@ export default function AuthorPage() {
                                 />
                             </div>
 
+                            <div>
+                                <label htmlFor="book-description" className="mb-2 block text-sm font-medium text-slate-700">
+                                    Description (optional)
+                                </label>
+                                <textarea
+                                    id="book-description"
+                                    value={description}
+                                    onChange={(event) => setDescription(event.target.value)}
+                                    rows={4}
+                                    maxLength={5000}
+                                    className="input-base text-sm leading-relaxed"
+                                    placeholder="A short blurb readers see before they start"
+                                />
+                            </div>
+
+                            <div className="grid gap-5 md:grid-cols-2">
+                                <div>
+                                    <label htmlFor="book-genres" className="mb-2 block text-sm font-medium text-slate-700">
+                                        Genres (comma separated)
+                                    </label>
+                                    <input
+                                        id="book-genres"
+                                        type="text"
+                                        value={genres}
+                                        onChange={(event) => setGenres(event.target.value)}
+                                        className="input-base"
+                                        placeholder="science fiction, mystery"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="book-language" className="mb-2 block text-sm font-medium text-slate-700">
+                                        Language
+                                    </label>
+                                    <input
+                                        id="book-language"
+                                        type="text"
+                                        value={language}
+                                        onChange={(event) => setLanguage(event.target.value)}
+                                        className="input-base"
+                                        placeholder="en"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="book-isbn" className="mb-2 block text-sm font-medium text-slate-700">
+                                        ISBN (optional)
+                                    </label>
+                                    <input
+                                        id="book-isbn"
+                                        type="text"
+                                        value={isbn}
+                                        onChange={(event) => setIsbn(event.target.value)}
+                                        className="input-base"
+                                        placeholder="978-3-16-148410-0"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="book-rating" className="mb-2 block text-sm font-medium text-slate-700">
+                                        Content rating
+                                    </label>
+                                    <select
+                                        id="book-rating"
+                                        value={contentRating}
+                                        onChange={(event) => setContentRating(event.target.value as ContentRating)}
+                                        className="input-base"
+                                    >
+                                        {CONTENT_RATING_OPTIONS.map((option) => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="book-visibility" className="mb-2 block text-sm font-medium text-slate-700">
+                                        Visibility
+                                    </label>
+                                    <select
+                                        id="book-visibility"
+                                        value={visibility}
+                                        onChange={(event) => setVisibility(event.target.value as Exclude<BookStatus, 'archived'>)}
+                                        className="input-base"
+                                    >
+                                        {VISIBILITY_OPTIONS.map((option) => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {visibility === 'scheduled' && (
+                                    <div>
+                                        <label htmlFor="book-publish-at" className="mb-2 block text-sm font-medium text-slate-700">
+                                            Publish at
+                                        </label>
+                                        <input
+                                            id="book-publish-at"
+                                            type="datetime-local"
+                                            value={publishAt}
+                                            onChange={(event) => setPublishAt(event.target.value)}
+                                            className="input-base"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
                             <div>
                                 <label htmlFor="book-file" className="mb-2 block text-sm font-medium text-slate-700">
                                     Upload content file (optional)
@@ -452,12 +680,13 @@ export default function AuthorPage() {
                                 <input
                                     id="book-file"
                                     type="file"
-                                    accept=".txt,.md,.pdf,text/plain,application/pdf"
+                                    accept=".txt,.md,.markdown,.html,.htm,.pdf,.epub,text/plain,text/markdown,text/html,application/pdf,application/epub+zip"
                                     onChange={(event) => void handleFileIngest(event)}
                                     className="input-base file:mr-4 file:rounded-lg file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:text-slate-700 hover:file:bg-slate-200"
                                 />
                                 <p className="mt-2 text-xs text-slate-500">
                                     PDF parsing is handled client-side and requires internet access to load the PDF parser module.
+                                    EPUB files are imported on the server with their chapters and images.
                                 </p>
                                 {sourceFileName && (
                                     <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-600">
@@ -483,6 +712,26 @@ export default function AuthorPage() {
                                 )}
                             </div>
 
+                            <div>
+                                <label htmlFor="content-format" className="mb-2 block text-sm font-medium text-slate-700">
+                                    Content format
+                                </label>
+                                <select
+                                    id="content-format"
+                                    value={contentFormat}
+                                    onChange={(event) => setContentFormat(event.target.value as PageContentFormat)}
+                                    disabled={Boolean(epubFile) || effectivePages.some((page) => page.pdfPageBytes)}
+                                    className="input-base"
+                                >
+                                    {CONTENT_FORMAT_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <p className="mt-2 text-xs text-slate-500">
+                                    Markdown and HTML keep headings, emphasis and block quotes. HTML is limited to a safe set of tags when you publish.
+                                </p>
+                            </div>
+
                             <div>
                                 <label htmlFor="book-content" className="mb-2 block text-sm font-medium text-slate-700">
                                     Book content (manual mode)
@@ -491,13 +740,17 @@ export default function AuthorPage() {
                                     id="book-content"
                                     value={bookContent}
                                     onChange={(event) => handleManualContentChange(event.target.value)}
-                                    required={effectivePages.length === 0}
+                                    required={!epubFile && effectivePages.length === 0}
                                     rows={14}
                                     className="input-base font-mono text-sm leading-relaxed"
                                     placeholder="Paste or write full text here for testing"
                                 />
                                 <p className="mt-2 text-right text-xs text-slate-500">
-                                    {processingFile ? 'Parsing file...' : `${bookContent.length} characters · ${totalPages} detected pages`}
+                                    {processingFile
+                                        ? 'Parsing file...'
+                                        : epubFile
+                                            ? 'EPUB pages are generated on import'
+                                            : `${bookContent.length} characters · ${totalPages} detected pages`}
                                 </p>
                             </div>
 
@@ -519,7 +772,7 @@ export default function AuthorPage() {
                             </div>
 
                             <button type="submit" disabled={uploading || processingFile} className="btn-primary w-full py-3 text-base">
-                                {uploading ? 'Uploading...' : 'Publish book'}
+                                {uploading ? uploadProgress || 'Uploading...' : pendingUpload ? 'Resume upload' : 'Publish book'}
                             </button>
                         </form>
                     </section>
@@ -530,7 +783,7 @@ export default function AuthorPage() {
     );
 }
 
-function paginateText(content: string): UploadPagePayload[] {
+function paginateText(content: string, format: PageContentFormat = 'text'): UploadPagePayload[] {
     const trimmed = content.trim();
     if (!trimmed) {
         return [];
@@ -549,6 +802,10 @@ function paginateText(content: string): UploadPagePayload[] {
         }));
     }
 
+    if (format !== 'text') {
+        return paginateRichText(trimmed);
+    }
+
     const pages: UploadPagePayload[] = [];
     for (let i = 0; i < trimmed.length; i += CHARS_PER_PAGE) {
         const chunk = trimmed.slice(i, i + CHARS_PER_PAGE).trim();
@@ -564,13 +821,54 @@ function paginateText(content: string): UploadPagePayload[] {
     return pages;
 }
 
-function deriveChapterCount(pages: UploadPagePayload[]): number {
-    if (pages.length === 0) {
-        return 1;
+/**
+ * Markdown and HTML are split on blank lines only, so a page never ends inside
+ * a tag or an emphasis run. Oversized blocks become a page of their own.
+ */
+function paginateRichText(content: string): UploadPagePayload[] {
+    const pages: UploadPagePayload[] = [];
+    let current = '';
+
+    const flush = () => {
+        if (current.trim()) {
+            pages.push({
+                pageNumber: pages.length + 1,
+                chapterNumber: 1,
+                content: current.trim(),
+            });
+        }
+        current = '';
+    };
+
+    for (const block of content.split(/\n\s*\n/)) {
+        if (current && current.length + block.length + 2 > CHARS_PER_PAGE) {
+            flush();
+        }
+        current = current ? `${current}\n\n${block}` : block;
     }
+    flush();
 
-    const maxChapter = pages.reduce((max, page) => Math.max(max, page.chapterNumber || 1), 1);
-    return maxChapter;
+    return pages;
+}
+
+function describeVisibility(status: Exclude<BookStatus, 'archived'>, publishAt: Date | null): string {
+    switch (status) {
+        case 'draft':
+            return 'was saved as a draft';
+        case 'unlisted':
+            return 'is live for anyone with the link';
+        case 'scheduled':
+            return `will go live on ${publishAt?.toLocaleString()}`;
+        default:
+            return 'is now live in your library';
+    }
+}
+
+function parseGenreList(value: string): string[] {
+    return value
+        .split(',')
+        .map((genre) => genre.trim())
+        .filter(Boolean);
 }
 
 function parseMicroStx(value: string): bigint | null {
@@ -589,7 +887,101 @@ function parseMicroStx(value: string): bigint | null {
     }
 }
 
-async function extractPagesFromFile(file: File): Promise<UploadPagePayload[]> {
+/**
+ * Sends pages the session does not have yet, in batches small enough to retry cheaply.
+ * Pages that already arrived in an earlier attempt are skipped.
+ */
+async function uploadPagesInBatches(
+    session: AuthorUploadSession,
+    pages: UploadPagePayload[],
+    onProgress: (message: string) => void
+) {
+    const pending = pages.filter((page) => !isPageReceived(session.progress, page.pageNumber));
+    let sent = pages.length - pending.length;
+
+    for (let index = 0; index < pending.length;) {
+        const batch: UploadPagePayload[] = [];
+        let batchBytes = 0;
+        while (index < pending.length && batch.length < PAGE_BATCH_SIZE) {
+            const pdfBytes = pending[index].pdfPageBytes?.length ?? 0;
+            if (batch.length > 0 && batchBytes + pdfBytes > PAGE_BATCH_PDF_BYTES) {
+                break;
+            }
+            batch.push(pending[index]);
+            batchBytes += pdfBytes;
+            index += 1;
+        }
+
+        onProgress(`Uploading pages ${sent + 1}-${sent + batch.length} of ${pages.length}...`);
+        await withUploadRetry(() => apiClient.uploadSessionPages(session.id, batch));
+        sent += batch.length;
+    }
+}
+
+/** Sends the EPUB in fixed-size parts, skipping parts the server already holds with the same checksum. */
+async function uploadEpubParts(
+    session: AuthorUploadSession,
+    file: File,
+    onProgress: (message: string) => void
+) {
+    const partCount = Math.max(1, Math.ceil(file.size / EPUB_PART_BYTES));
+    const storedParts = new Map(session.progress.parts.map((part) => [part.partNumber, part.sha256]));
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber += 1) {
+        const chunk = file.slice((partNumber - 1) * EPUB_PART_BYTES, partNumber * EPUB_PART_BYTES);
+        const sha256 = await sha256Hex(chunk);
+        if (storedParts.get(partNumber) === sha256) {
+            continue;
+        }
+
+        onProgress(`Uploading part ${partNumber} of ${partCount}...`);
+        await withUploadRetry(() => apiClient.uploadSessionPart(session.id, partNumber, chunk, sha256));
+    }
+}
+
+function isPageReceived(progress: AuthorUploadSession['progress'], pageNumber: number): boolean {
+    if (progress.lastPageNumber === null || pageNumber > progress.lastPageNumber) {
+        return false;
+    }
+    return !progress.missing.some((range) => pageNumber >= range.from && pageNumber <= range.to);
+}
+
+async function withUploadRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+        try {
+            return await request();
+        } catch (error) {
+            // fetch rejects with a TypeError when the network drops mid-request.
+            const retryable = error instanceof TypeError || (error instanceof UploadRequestError && error.retryable);
+            if (!retryable || attempt >= UPLOAD_RETRY_ATTEMPTS) {
+                throw error;
+            }
+            await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+        }
+    }
+}
+
+async function sha256Hex(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isEpubFile(file: File): boolean {
+    return file.type === 'application/epub+zip' || file.name.toLowerCase().endsWith('.epub');
+}
+
+function detectContentFormat(file: File): PageContentFormat {
+    const fileName = file.name.toLowerCase();
+    if (fileName.endsWith('.md') || fileName.endsWith('.markdown') || file.type === 'text/markdown') {
+        return 'markdown';
+    }
+    if (fileName.endsWith('.html') || fileName.endsWith('.htm') || file.type === 'text/html') {
+        return 'html';
+    }
+    return 'text';
+}
+
+async function extractPagesFromFile(file: File, format: PageContentFormat): Promise<UploadPagePayload[]> {
     const fileName = file.name.toLowerCase();
     const isPdf = file.type === 'application/pdf' || fileName.endsWith('.pdf');
 
@@ -598,7 +990,12 @@ async function extractPagesFromFile(file: File): Promise<UploadPagePayload[]> {
     }
 
     const text = await file.text();
-    return paginateText(text);
+    return paginateText(format === 'html' ? extractHtmlBody(text) : text, format);
+}
+
+function extractHtmlBody(html: string): string {
+    const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+    return body ? body[1] : html;
 }
 
 async function parsePdfPages(file: File): Promise<UploadPagePayload[]> {
@@ -636,7 +1033,7 @@ async function parsePdfPages(file: File): Promise<UploadPagePayload[]> {
             pageNumber,
             chapterNumber: 1,
             content: text || `[Page ${pageNumber} has no selectable text]`,
-            pdfPageBase64: singlePagePdf ? bytesToBase64(singlePagePdf) : undefined,
+            pdfPageBytes: singlePagePdf ?? undefined,
         });
     }
 
@@ -715,15 +1112,6 @@ async function exportSinglePdfPage(
     return singlePageDocument.save();
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
-    let binary = '';
-    for (let i = 0; i < bytes.length; i += 1) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-
-    return btoa(binary);
-}
-
 async function importExternalModule(url: string): Promise<unknown> {
     // webpackIgnore keeps the URL as-is so the browser can load the remote module.
     const dynamicImport = new Function('moduleUrl', 'return import(/* webpackIgnore: true */ moduleUrl);') as (moduleUrl: string) => Promise<unknown>;
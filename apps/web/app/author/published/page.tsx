@@ -3,19 +3,148 @@
 import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import type { Book } from '@stackpad/shared';
+import type {
+    Book,
+    BookBundle,
+    BookSplitVersion,
+    BookStatus,
+    ContentRating,
+    PageContentFormat,
+    PriceOverrides,
+    Promotion,
+    RevenueSplitShare,
+    SplitRole,
+} from '@stackpad/shared';
 import { useAuth } from '@/hooks/useAuth';
 import { apiClient } from '@/lib/api';
 import { WalletConnect } from '@/components/WalletConnect';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { useToast } from '@/components/ToastProvider';
 import { BrandLogo } from '@/components/BrandLogo';
+import { RichTextPage } from '@/components/RichTextPage';
+
+const STATUS_LABELS: Record<BookStatus, string> = {
+    draft: 'Draft',
+    scheduled: 'Scheduled',
+    published: 'Published',
+    unlisted: 'Unlisted',
+    archived: 'Archived',
+};
+
+// Mirrors the server's transition rules so only valid moves are offered.
+const STATUS_TRANSITIONS: Record<BookStatus, BookStatus[]> = {
+    draft: ['published', 'scheduled', 'unlisted', 'archived'],
+    scheduled: ['published', 'scheduled', 'unlisted', 'draft', 'archived'],
+    published: ['unlisted', 'archived'],
+    unlisted: ['published', 'archived'],
+    archived: ['published', 'unlisted'],
+};
+
+const STATUS_HINTS: Record<BookStatus, string> = {
+    draft: 'Only you can open this book.',
+    scheduled: 'Goes live automatically at the scheduled time.',
+    published: 'Listed in the catalog and readable by everyone.',
+    unlisted: 'Hidden from the catalog; anyone with the link can read it.',
+    archived: 'Hidden and no longer sold; existing readers keep the pages they unlocked.',
+};
+
+interface RevisionDraft {
+    pageNumber: string;
+    content: string;
+    changelog: string;
+    /** Existing pages keep their format; only appended pages can pick one. */
+    format: PageContentFormat;
+    hasPdf: boolean;
+    /** Page whose current content is loaded into the editor. */
+    loadedPage: number | null;
+}
+
+const EMPTY_REVISION: RevisionDraft = {
+    pageNumber: '',
+    content: '',
+    changelog: '',
+    format: 'text',
+    hasPdf: false,
+    loadedPage: null,
+};
+
+const PAGE_FORMAT_LABELS: Record<PageContentFormat, string> = {
+    text: 'Plain text',
+    markdown: 'Markdown',
+    html: 'HTML',
+};
+
+interface BundleDraft {
+    title: string;
+    /** Chapter list such as "4-7, 9". */
+    chapters: string;
+    price: string;
+}
+
+const EMPTY_BUNDLE: BundleDraft = { title: '', chapters: '', price: '' };
+
+interface PromotionDraft {
+    title: string;
+    /** Book ID, or empty for all of the author's books. */
+    bookId: string;
+    /** Empty for an automatic sale. */
+    code: string;
+    percentOff: string;
+    /** `datetime-local` values; an empty start means now and an empty end means open-ended. */
+    startsAt: string;
+    endsAt: string;
+    maxRedemptions: string;
+    perWalletLimit: string;
+}
+
+const EMPTY_PROMOTION: PromotionDraft = {
+    title: '',
+    bookId: '',
+    code: '',
+    percentOff: '',
+    startsAt: '',
+    endsAt: '',
+    maxRedemptions: '',
+    perWalletLimit: '',
+};
+
+/** One override per line, e.g. "12: 5000" or "1-3: 0". */
+interface PriceOverrideDraft {
+    pages: string;
+    chapters: string;
+}
+
+const SPLIT_ROLES: SplitRole[] = ['author', 'co_author', 'illustrator', 'translator', 'editor', 'other'];
+
+/** One payee per line, e.g. "SP2...: co_author: 2500" (basis points). */
+interface SplitDraft {
+    shares: string;
+    note: string;
+    history: BookSplitVersion[];
+}
 
 interface EditableBook {
     id: number;
+    currentEdition: number;
+    totalPages: number;
+    status: BookStatus;
+    publishAt: string | null;
+    /** Target status picked in the visibility controls. */
+    nextStatus: BookStatus | '';
+    /** `datetime-local` value used when scheduling. */
+    nextPublishAt: string;
     title: string;
     coverImageUrl: string;
     pagePrice: string;
+    /** Whole-book price; empty when the book is only sold by page and chapter. */
+    bookPrice: string;
+    freePages: string;
+    freeChapters: string;
+    description: string;
+    genres: string;
+    language: string;
+    isbn: string;
+    contentRating: ContentRating;
 }
 
 export default function PublishedBooksPage() {
@@ -25,11 +154,24 @@ export default function PublishedBooksPage() {
     const [authorBooks, setAuthorBooks] = useState<EditableBook[]>([]);
     const [booksLoading, setBooksLoading] = useState(false);
     const [booksSaving, setBooksSaving] = useState<Record<number, boolean>>({});
+    const [statusSaving, setStatusSaving] = useState<Record<number, boolean>>({});
+    const [revisionDrafts, setRevisionDrafts] = useState<Record<number, RevisionDraft>>({});
+    const [revisionSaving, setRevisionSaving] = useState<Record<number, boolean>>({});
+    const [bundles, setBundles] = useState<Record<number, BookBundle[]>>({});
+    const [bundleDrafts, setBundleDrafts] = useState<Record<number, BundleDraft>>({});
+    const [bundleSaving, setBundleSaving] = useState<Record<number, boolean>>({});
+    const [priceDrafts, setPriceDrafts] = useState<Record<number, PriceOverrideDraft>>({});
+    const [priceSaving, setPriceSaving] = useState<Record<number, boolean>>({});
+    const [splitDrafts, setSplitDrafts] = useState<Record<number, SplitDraft>>({});
+    const [splitSaving, setSplitSaving] = useState<Record<number, boolean>>({});
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [promotionDraft, setPromotionDraft] = useState<PromotionDraft>(EMPTY_PROMOTION);
+    const [promotionSaving, setPromotionSaving] = useState(false);
 
-    const loadAuthorBooks = useCallback(async (authorAddress: string) => {
+    const loadAuthorBooks = useCallback(async () => {
         try {
             setBooksLoading(true);
-            const books = await apiClient.getAuthorBooks(authorAddress);
+            const books = await apiClient.getAuthorBooks();
             setAuthorBooks(books.map(toEditableBook));
         } catch (error) {
             console.error(error);
@@ -43,18 +185,33 @@ export default function PublishedBooksPage() {
         }
     }, [pushToast]);
 
+    const loadPromotions = useCallback(async () => {
+        try {
+            setPromotions(await apiClient.getAuthorPromotions());
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Load failed',
+                message: 'Could not load your promotions.',
+            });
+        }
+    }, [pushToast]);
+
     useEffect(() => {
         if (!userAddress) {
             setAuthorBooks([]);
+            setPromotions([]);
             return;
         }
 
-        void loadAuthorBooks(userAddress);
-    }, [loadAuthorBooks, userAddress]);
+        void loadAuthorBooks();
+        void loadPromotions();
+    }, [loadAuthorBooks, loadPromotions, userAddress]);
 
     function updateAuthorBookField(
         bookId: number,
-        field: keyof Omit<EditableBook, 'id'>,
+        field: keyof Omit<EditableBook, 'id' | 'currentEdition' | 'totalPages' | 'status' | 'publishAt'>,
         value: string
     ) {
         setAuthorBooks((prev) => prev.map((book) => (
@@ -84,32 +241,541 @@ export default function PublishedBooksPage() {
             return;
         }
 
+        const parsedBookPrice = target.bookPrice.trim() ? parseMicroStx(target.bookPrice) : null;
+        if (target.bookPrice.trim() && parsedBookPrice === null) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid book price',
+                message: `Book #${bookId} has an invalid whole-book microSTX price.`,
+            });
+            return;
+        }
+
+        const freePages = Number(target.freePages);
+        const freeChapters = Number(target.freeChapters);
+        if (!Number.isInteger(freePages) || freePages < 0 || !Number.isInteger(freeChapters) || freeChapters < 0) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid free preview',
+                message: 'Free pages and free chapters must be whole numbers (0 or more).',
+            });
+            return;
+        }
+
         setBooksSaving((prev) => ({ ...prev, [bookId]: true }));
         try {
-            await apiClient.updateAuthorBook(bookId, userAddress, {
+            await apiClient.updateAuthorBook(bookId, {
                 title: target.title.trim(),
                 coverImageUrl: target.coverImageUrl.trim() || null,
                 pagePrice: parsedPrice.toString(),
                 chapterPrice: (parsedPrice * BigInt(5)).toString(),
+                bookPrice: parsedBookPrice === null ? null : parsedBookPrice.toString(),
+                freePages,
+                freeChapters,
+                description: target.description.trim() || null,
+                genres: target.genres.split(',').map((genre) => genre.trim()).filter(Boolean),
+                language: target.language.trim() || null,
+                isbn: target.isbn.trim() || null,
+                contentRating: target.contentRating,
             });
             pushToast({
                 tone: 'success',
                 title: 'Update successful',
                 message: `Book #${bookId} settings were saved.`,
             });
-            await loadAuthorBooks(userAddress);
+            await loadAuthorBooks();
         } catch (error) {
             console.error(error);
             pushToast({
                 tone: 'error',
                 title: 'Update failed',
-                message: `Could not save changes for book #${bookId}.`,
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not save changes for book #${bookId}.`,
             });
         } finally {
             setBooksSaving((prev) => ({ ...prev, [bookId]: false }));
         }
     }
 
+    function toggleRevision(bookId: number) {
+        setRevisionDrafts((prev) => {
+            const next = { ...prev };
+            if (next[bookId]) {
+                delete next[bookId];
+            } else {
+                next[bookId] = EMPTY_REVISION;
+            }
+            return next;
+        });
+    }
+
+    function updateRevisionField(bookId: number, field: 'pageNumber' | 'content' | 'changelog' | 'format', value: string) {
+        setRevisionDrafts((prev) => ({ ...prev, [bookId]: { ...(prev[bookId] ?? EMPTY_REVISION), [field]: value } }));
+    }
+
+    async function loadRevisionPage(bookId: number) {
+        const target = authorBooks.find((book) => book.id === bookId);
+        const draft = revisionDrafts[bookId];
+        const pageNumber = Number(draft?.pageNumber);
+        if (!target || !draft || !Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber === draft.loadedPage) {
+            return;
+        }
+
+        if (pageNumber > target.totalPages) {
+            setRevisionDrafts((prev) => ({
+                ...prev,
+                [bookId]: { ...(prev[bookId] ?? EMPTY_REVISION), content: '', hasPdf: false, loadedPage: pageNumber },
+            }));
+            return;
+        }
+
+        try {
+            const page = await apiClient.getRevisablePage(bookId, pageNumber);
+            setRevisionDrafts((prev) => prev[bookId] ? {
+                ...prev,
+                [bookId]: {
+                    ...prev[bookId],
+                    content: page.content,
+                    format: page.format,
+                    hasPdf: page.hasPdf,
+                    loadedPage: page.pageNumber,
+                },
+            } : prev);
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Page unavailable',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not load page ${pageNumber} of book #${bookId}.`,
+            });
+        }
+    }
+
+    async function publishRevision(bookId: number) {
+        const target = authorBooks.find((book) => book.id === bookId);
+        const draft = revisionDrafts[bookId];
+        if (!target || !draft) {
+            return;
+        }
+
+        const pageNumber = Number(draft.pageNumber);
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > target.totalPages + 1) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid page',
+                message: `Pick a page between 1 and ${target.totalPages}, or ${target.totalPages + 1} to add one at the end.`,
+            });
+            return;
+        }
+        if (draft.loadedPage !== pageNumber) {
+            pushToast({
+                tone: 'error',
+                title: 'Page not loaded',
+                message: `Load page ${pageNumber} before revising it.`,
+            });
+            return;
+        }
+        if (!draft.content.trim() || !draft.changelog.trim()) {
+            pushToast({
+                tone: 'error',
+                title: 'Missing details',
+                message: 'Add the new page text and a short note about what changed.',
+            });
+            return;
+        }
+
+        setRevisionSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const edition = await apiClient.publishBookEdition(bookId, {
+                changelog: draft.changelog.trim(),
+                pages: [{ pageNumber, content: draft.content.trim(), format: draft.format }],
+            });
+            setRevisionDrafts((prev) => {
+                const next = { ...prev };
+                delete next[bookId];
+                return next;
+            });
+            pushToast({
+                tone: 'success',
+                title: 'Edition published',
+                message: `Book #${bookId} is now on edition ${edition.edition}. Readers keep access to pages they unlocked.`,
+            });
+            await loadAuthorBooks();
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Revision failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not publish a new edition of book #${bookId}.`,
+            });
+        } finally {
+            setRevisionSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
+    async function togglePriceOverrides(bookId: number) {
+        if (priceDrafts[bookId]) {
+            setPriceDrafts((prev) => {
+                const next = { ...prev };
+                delete next[bookId];
+                return next;
+            });
+            return;
+        }
+
+        try {
+            const overrides = await apiClient.getAuthorPriceOverrides(bookId);
+            setPriceDrafts((prev) => ({ ...prev, [bookId]: toPriceOverrideDraft(overrides) }));
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Load failed',
+                message: `Could not load price overrides for book #${bookId}.`,
+            });
+        }
+    }
+
+    function updatePriceField(bookId: number, field: keyof PriceOverrideDraft, value: string) {
+        setPriceDrafts((prev) => ({ ...prev, [bookId]: { ...(prev[bookId] ?? { pages: '', chapters: '' }), [field]: value } }));
+    }
+
+    async function savePriceOverrides(bookId: number) {
+        const draft = priceDrafts[bookId];
+        if (!draft) {
+            return;
+        }
+
+        const pages = parseOverrideLines(draft.pages);
+        const chapters = parseOverrideLines(draft.chapters);
+        if (!pages || !chapters) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid overrides',
+                message: 'Write one override per line as "number: price", e.g. "12: 5000" or "1-3: 0".',
+            });
+            return;
+        }
+
+        setPriceSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const saved = await apiClient.updateAuthorPriceOverrides(bookId, {
+                pages: pages.map(([pageNumber, price]) => ({ pageNumber, price })),
+                chapters: chapters.map(([chapterNumber, price]) => ({ chapterNumber, price })),
+            });
+            setPriceDrafts((prev) => ({ ...prev, [bookId]: toPriceOverrideDraft(saved) }));
+            pushToast({
+                tone: 'success',
+                title: 'Prices saved',
+                message: `Book #${bookId} now has ${saved.pages.length} page and ${saved.chapters.length} chapter overrides.`,
+            });
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Update failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not save price overrides for book #${bookId}.`,
+            });
+        } finally {
+            setPriceSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
+    async function toggleSplit(bookId: number) {
+        if (splitDrafts[bookId]) {
+            setSplitDrafts((prev) => {
+                const next = { ...prev };
+                delete next[bookId];
+                return next;
+            });
+            return;
+        }
+
+        try {
+            const history = await apiClient.getBookSplitHistory(bookId);
+            setSplitDrafts((prev) => ({ ...prev, [bookId]: toSplitDraft(history, userAddress) }));
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Load failed',
+                message: `Could not load the revenue split for book #${bookId}.`,
+            });
+        }
+    }
+
+    function updateSplitField(bookId: number, field: 'shares' | 'note', value: string) {
+        setSplitDrafts((prev) => ({
+            ...prev,
+            [bookId]: { ...(prev[bookId] ?? { shares: '', note: '', history: [] }), [field]: value },
+        }));
+    }
+
+    async function saveSplit(bookId: number) {
+        const draft = splitDrafts[bookId];
+        if (!draft) {
+            return;
+        }
+
+        const shares = parseSplitLines(draft.shares);
+        if (!shares) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid split',
+                message: `Write one payee per line as "address: role: basis points", with roles ${SPLIT_ROLES.join(', ')}.`,
+            });
+            return;
+        }
+
+        setSplitSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const version = await apiClient.updateBookRevenueSplit(bookId, {
+                shares,
+                note: draft.note.trim() || undefined,
+            });
+            setSplitDrafts((prev) => ({ ...prev, [bookId]: toSplitDraft([version, ...draft.history], userAddress) }));
+            pushToast({
+                tone: 'success',
+                title: 'Split saved',
+                message: `New charges on book #${bookId} are split between ${version.shares.length} payees.`,
+            });
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Update failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not save the revenue split for book #${bookId}.`,
+            });
+        } finally {
+            setSplitSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
+    async function toggleBundles(bookId: number) {
+        if (bundleDrafts[bookId]) {
+            setBundleDrafts((prev) => {
+                const next = { ...prev };
+                delete next[bookId];
+                return next;
+            });
+            return;
+        }
+
+        setBundleDrafts((prev) => ({ ...prev, [bookId]: EMPTY_BUNDLE }));
+        try {
+            const list = await apiClient.getAuthorBookBundles(bookId);
+            setBundles((prev) => ({ ...prev, [bookId]: list }));
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Load failed',
+                message: `Could not load bundles for book #${bookId}.`,
+            });
+        }
+    }
+
+    function updateBundleField(bookId: number, field: keyof BundleDraft, value: string) {
+        setBundleDrafts((prev) => ({ ...prev, [bookId]: { ...(prev[bookId] ?? EMPTY_BUNDLE), [field]: value } }));
+    }
+
+    async function createBundle(bookId: number) {
+        const draft = bundleDrafts[bookId];
+        if (!draft) {
+            return;
+        }
+
+        const chapters = parseNumberList(draft.chapters);
+        const price = parseMicroStx(draft.price);
+        if (!draft.title.trim() || !chapters || price === null) {
+            pushToast({
+                tone: 'error',
+                title: 'Missing details',
+                message: 'Give the bundle a title, its chapters (e.g. "4-7, 9") and a microSTX price.',
+            });
+            return;
+        }
+
+        setBundleSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const bundle = await apiClient.saveAuthorBookBundle(bookId, null, {
+                title: draft.title.trim(),
+                chapters,
+                price: price.toString(),
+            });
+            setBundles((prev) => ({ ...prev, [bookId]: [...(prev[bookId] ?? []), bundle] }));
+            setBundleDrafts((prev) => ({ ...prev, [bookId]: EMPTY_BUNDLE }));
+            pushToast({
+                tone: 'success',
+                title: 'Bundle created',
+                message: `"${bundle.title}" is now offered to readers of book #${bookId}.`,
+            });
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Bundle failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not create a bundle for book #${bookId}.`,
+            });
+        } finally {
+            setBundleSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
+    async function retireBundle(bookId: number, bundleId: number) {
+        setBundleSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const retired = await apiClient.retireAuthorBookBundle(bookId, bundleId);
+            setBundles((prev) => ({
+                ...prev,
+                [bookId]: (prev[bookId] ?? []).map((bundle) => (bundle.id === bundleId ? retired : bundle)),
+            }));
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Update failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not retire bundle #${bundleId}.`,
+            });
+        } finally {
+            setBundleSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
+    function updatePromotionField(field: keyof PromotionDraft, value: string) {
+        setPromotionDraft((prev) => ({ ...prev, [field]: value }));
+    }
+
+    async function createPromotion() {
+        const percentOff = Number(promotionDraft.percentOff);
+        const bookId = promotionDraft.bookId ? Number(promotionDraft.bookId) : null;
+        const maxRedemptions = parseOptionalLimit(promotionDraft.maxRedemptions);
+        const perWalletLimit = parseOptionalLimit(promotionDraft.perWalletLimit);
+        if (
+            !promotionDraft.title.trim()
+            || !Number.isInteger(percentOff) || percentOff < 1 || percentOff > 100
+            || maxRedemptions === undefined || perWalletLimit === undefined
+        ) {
+            pushToast({
+                tone: 'error',
+                title: 'Missing details',
+                message: 'Give the promotion a title and a whole-number discount between 1 and 100 percent.',
+            });
+            return;
+        }
+
+        setPromotionSaving(true);
+        try {
+            const promotion = await apiClient.saveAuthorPromotion(null, {
+                title: promotionDraft.title.trim(),
+                bookId,
+                code: promotionDraft.code.trim() || null,
+                percentOff,
+                startsAt: promotionDraft.startsAt ? new Date(promotionDraft.startsAt).toISOString() : undefined,
+                endsAt: promotionDraft.endsAt ? new Date(promotionDraft.endsAt).toISOString() : null,
+                maxRedemptions,
+                perWalletLimit,
+            });
+            setPromotions((prev) => [promotion, ...prev]);
+            setPromotionDraft(EMPTY_PROMOTION);
+            pushToast({
+                tone: 'success',
+                title: 'Promotion created',
+                message: promotion.code
+                    ? `Readers can now enter ${promotion.code} for ${promotion.percentOff}% off.`
+                    : `"${promotion.title}" takes ${promotion.percentOff}% off while it runs.`,
+            });
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Promotion failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : 'Could not create the promotion.',
+            });
+        } finally {
+            setPromotionSaving(false);
+        }
+    }
+
+    async function endPromotion(promotionId: number) {
+        setPromotionSaving(true);
+        try {
+            const ended = await apiClient.endAuthorPromotion(promotionId);
+            setPromotions((prev) => prev.map((promotion) => (promotion.id === promotionId ? ended : promotion)));
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Update failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not end promotion #${promotionId}.`,
+            });
+        } finally {
+            setPromotionSaving(false);
+        }
+    }
+
+    async function applyBookStatus(bookId: number) {
+        const target = authorBooks.find((book) => book.id === bookId);
+        if (!target || !target.nextStatus) {
+            return;
+        }
+
+        const scheduledAt = target.nextStatus === 'scheduled' && target.nextPublishAt
+            ? new Date(target.nextPublishAt)
+            : null;
+        if (target.nextStatus === 'scheduled' && (!scheduledAt || scheduledAt <= new Date())) {
+            pushToast({
+                tone: 'error',
+                title: 'Invalid schedule',
+                message: 'Pick a future date and time to publish this book.',
+            });
+            return;
+        }
+
+        setStatusSaving((prev) => ({ ...prev, [bookId]: true }));
+        try {
+            const updated = await apiClient.updateAuthorBookStatus(bookId, target.nextStatus, scheduledAt?.toISOString());
+            setAuthorBooks((prev) => prev.map((book) => (
+                book.id === bookId
+                    ? { ...book, status: updated.status, publishAt: updated.publishAt, nextStatus: '', nextPublishAt: '' }
+                    : book
+            )));
+            pushToast({
+                tone: 'success',
+                title: 'Visibility updated',
+                message: `Book #${bookId} is now ${STATUS_LABELS[updated.status].toLowerCase()}.`,
+            });
+        } catch (error) {
+            console.error(error);
+            pushToast({
+                tone: 'error',
+                title: 'Update failed',
+                message: error instanceof Error && error.message
+                    ? error.message
+                    : `Could not change the visibility of book #${bookId}.`,
+            });
+        } finally {
+            setStatusSaving((prev) => ({ ...prev, [bookId]: false }));
+        }
+    }
+
     if (!isAuthenticated) {
         return (
             <div className="app-shell">
@@ -141,6 +807,7 @@ export default function PublishedBooksPage() {
                     <BrandLogo />
                     <div className="flex items-center gap-3">
                         <Link href="/author" className="btn-secondary">Author</Link>
+                        <Link href="/author/earnings" className="btn-secondary">Earnings</Link>
                         <Link href="/library" className="btn-secondary">Library</Link>
                         <ThemeToggle />
                         <WalletConnect />
@@ -157,10 +824,10 @@ export default function PublishedBooksPage() {
                 >
                     <section className="card">
                         <div className="mb-6 flex items-center justify-between gap-4">
-                            <h1 className="font-display text-4xl text-slate-900 md:text-5xl">Published books</h1>
+                            <h1 className="font-display text-4xl text-slate-900 md:text-5xl">Your books</h1>
                             <button
                                 type="button"
-                                onClick={() => userAddress && void loadAuthorBooks(userAddress)}
+                                onClick={() => userAddress && void loadAuthorBooks()}
                                 className="btn-secondary"
                             >
                                 Refresh
@@ -170,12 +837,63 @@ export default function PublishedBooksPage() {
                         {booksLoading ? (
                             <p className="text-sm text-slate-600">Loading your books...</p>
                         ) : authorBooks.length === 0 ? (
-                            <p className="text-sm text-slate-600">No books published yet.</p>
+                            <p className="text-sm text-slate-600">No books uploaded yet.</p>
                         ) : (
                             <div className="space-y-5">
                                 {authorBooks.map((book) => (
                                     <article key={book.id} className="rounded-xl border border-slate-200 p-4">
-                                        <p className="text-xs uppercase tracking-[0.16em] text-slate-500">Book #{book.id}</p>
+                                        <div className="flex items-center justify-between gap-3">
+                                            <p className="text-xs uppercase tracking-[0.16em] text-slate-500">
+                                                Book #{book.id} · Edition {book.currentEdition}
+                                            </p>
+                                            <span className="rounded-full border border-slate-200 px-2 py-1 text-[11px] font-medium uppercase tracking-[0.12em] text-slate-700">
+                                                {STATUS_LABELS[book.status]}
+                                                {book.status === 'scheduled' && book.publishAt
+                                                    ? ` · ${new Date(book.publishAt).toLocaleString()}`
+                                                    : ''}
+                                            </span>
+                                        </div>
+                                        <p className="mt-2 text-sm text-slate-600">{STATUS_HINTS[book.status]}</p>
+                                        <div className="mt-3 flex flex-wrap items-end gap-3">
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Visibility
+                                                </label>
+                                                <select
+                                                    value={book.nextStatus}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'nextStatus', event.target.value)}
+                                                    className="input-base"
+                                                >
+                                                    <option value="">Change to...</option>
+                                                    {STATUS_TRANSITIONS[book.status].map((status) => (
+                                                        <option key={status} value={status}>
+                                                            {status === book.status ? 'Reschedule' : STATUS_LABELS[status]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            {book.nextStatus === 'scheduled' && (
+                                                <div>
+                                                    <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                        Publish at
+                                                    </label>
+                                                    <input
+                                                        type="datetime-local"
+                                                        value={book.nextPublishAt}
+                                                        onChange={(event) => updateAuthorBookField(book.id, 'nextPublishAt', event.target.value)}
+                                                        className="input-base"
+                                                    />
+                                                </div>
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={() => void applyBookStatus(book.id)}
+                                                disabled={!book.nextStatus || !!statusSaving[book.id]}
+                                                className="btn-secondary"
+                                            >
+                                                {statusSaving[book.id] ? 'Updating...' : 'Apply'}
+                                            </button>
+                                        </div>
                                         <div className="mt-3 grid gap-4 md:grid-cols-2">
                                             <div>
                                                 <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
@@ -213,6 +931,107 @@ export default function PublishedBooksPage() {
                                                     className="input-base"
                                                 />
                                             </div>
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Whole-book price (microSTX)
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step={100}
+                                                    value={book.bookPrice}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'bookPrice', event.target.value)}
+                                                    className="input-base"
+                                                    placeholder="Leave empty to sell by page only"
+                                                />
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div>
+                                                    <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                        Free pages
+                                                    </label>
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        value={book.freePages}
+                                                        onChange={(event) => updateAuthorBookField(book.id, 'freePages', event.target.value)}
+                                                        className="input-base"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                        Free chapters
+                                                    </label>
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        value={book.freeChapters}
+                                                        onChange={(event) => updateAuthorBookField(book.id, 'freeChapters', event.target.value)}
+                                                        className="input-base"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Genres
+                                                </label>
+                                                <input
+                                                    type="text"
+                                                    value={book.genres}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'genres', event.target.value)}
+                                                    className="input-base"
+                                                    placeholder="science fiction, mystery"
+                                                />
+                                            </div>
+                                            <div className="md:col-span-2">
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Description
+                                                </label>
+                                                <textarea
+                                                    value={book.description}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'description', event.target.value)}
+                                                    rows={3}
+                                                    maxLength={5000}
+                                                    className="input-base text-sm leading-relaxed"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Language
+                                                </label>
+                                                <input
+                                                    type="text"
+                                                    value={book.language}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'language', event.target.value)}
+                                                    className="input-base"
+                                                    placeholder="en"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    ISBN
+                                                </label>
+                                                <input
+                                                    type="text"
+                                                    value={book.isbn}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'isbn', event.target.value)}
+                                                    className="input-base"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                    Content rating
+                                                </label>
+                                                <select
+                                                    value={book.contentRating}
+                                                    onChange={(event) => updateAuthorBookField(book.id, 'contentRating', event.target.value)}
+                                                    className="input-base"
+                                                >
+                                                    <option value="general">General audiences</option>
+                                                    <option value="teen">Teen</option>
+                                                    <option value="mature">Mature</option>
+                                                </select>
+                                            </div>
                                             <div className="flex items-end">
                                                 <button
                                                     type="button"
@@ -224,11 +1043,455 @@ export default function PublishedBooksPage() {
                                                 </button>
                                             </div>
                                         </div>
+                                        <div className="mt-4 border-t border-slate-200 pt-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => void togglePriceOverrides(book.id)}
+                                                className="text-sm font-medium text-slate-700 hover:text-slate-900"
+                                            >
+                                                {priceDrafts[book.id] ? 'Hide price overrides' : 'Page and chapter prices'}
+                                            </button>
+                                            {priceDrafts[book.id] && (
+                                                <div className="mt-3 grid gap-4 md:grid-cols-2">
+                                                    <div>
+                                                        <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                            Page prices (microSTX)
+                                                        </label>
+                                                        <textarea
+                                                            value={priceDrafts[book.id].pages}
+                                                            onChange={(event) => updatePriceField(book.id, 'pages', event.target.value)}
+                                                            rows={4}
+                                                            className="input-base font-mono text-sm"
+                                                            placeholder={'12: 5000\n40-42: 0'}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                            Chapter prices (microSTX)
+                                                        </label>
+                                                        <textarea
+                                                            value={priceDrafts[book.id].chapters}
+                                                            onChange={(event) => updatePriceField(book.id, 'chapters', event.target.value)}
+                                                            rows={4}
+                                                            className="input-base font-mono text-sm"
+                                                            placeholder={'1-3: 0\n12: 50000'}
+                                                        />
+                                                    </div>
+                                                    <p className="text-xs text-slate-500 md:col-span-2">
+                                                        Overrides replace the book&apos;s page or chapter price. A chapter priced at 0 also makes its pages free.
+                                                    </p>
+                                                    <div className="md:col-span-2 flex justify-end">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => void savePriceOverrides(book.id)}
+                                                            disabled={!!priceSaving[book.id]}
+                                                            className="btn-primary"
+                                                        >
+                                                            {priceSaving[book.id] ? 'Saving...' : 'Save prices'}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="mt-4 border-t border-slate-200 pt-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => void toggleSplit(book.id)}
+                                                className="text-sm font-medium text-slate-700 hover:text-slate-900"
+                                            >
+                                                {splitDrafts[book.id] ? 'Hide revenue split' : 'Revenue split'}
+                                            </button>
+                                            {splitDrafts[book.id] && (
+                                                <div className="mt-3 space-y-4">
+                                                    <div>
+                                                        <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                            Payees (basis points, 10000 in total)
+                                                        </label>
+                                                        <textarea
+                                                            value={splitDrafts[book.id].shares}
+                                                            onChange={(event) => updateSplitField(book.id, 'shares', event.target.value)}
+                                                            rows={4}
+                                                            className="input-base font-mono text-sm"
+                                                            placeholder={'SP...: author: 7000\nSP...: illustrator: 3000'}
+                                                        />
+                                                    </div>
+                                                    <input
+                                                        type="text"
+                                                        value={splitDrafts[book.id].note}
+                                                        onChange={(event) => updateSplitField(book.id, 'note', event.target.value)}
+                                                        className="input-base"
+                                                        placeholder="Note for contributors (optional)"
+                                                    />
+                                                    <p className="text-xs text-slate-500">
+                                                        The split applies to the author share of credit charges made after saving. Every payee can see its history.
+                                                    </p>
+                                                    {splitDrafts[book.id].history.length > 0 && (
+                                                        <ul className="space-y-2 text-sm text-slate-600">
+                                                            {splitDrafts[book.id].history.map((version) => (
+                                                                <li key={version.id}>
+                                                                    <span className="text-xs text-slate-500">
+                                                                        {new Date(version.createdAt).toLocaleDateString()}
+                                                                        {version.note ? ` · ${version.note}` : ''}
+                                                                    </span>
+                                                                    <div className="font-mono text-xs">
+                                                                        {version.shares.map((share) => (
+                                                                            `${share.payeeAddress.slice(0, 8)}… ${share.role} ${(share.shareBps / 100).toFixed(2)}%`
+                                                                        )).join(' · ')}
+                                                                    </div>
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                    <div className="flex justify-end">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => void saveSplit(book.id)}
+                                                            disabled={!!splitSaving[book.id]}
+                                                            className="btn-primary"
+                                                        >
+                                                            {splitSaving[book.id] ? 'Saving...' : 'Save split'}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="mt-4 border-t border-slate-200 pt-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => void toggleBundles(book.id)}
+                                                className="text-sm font-medium text-slate-700 hover:text-slate-900"
+                                            >
+                                                {bundleDrafts[book.id] ? 'Hide bundles' : 'Chapter bundles'}
+                                            </button>
+                                            {bundleDrafts[book.id] && (
+                                                <div className="mt-3 space-y-4">
+                                                    {(bundles[book.id] ?? []).length === 0 ? (
+                                                        <p className="text-sm text-slate-600">No bundles yet.</p>
+                                                    ) : (
+                                                        <ul className="space-y-2">
+                                                            {(bundles[book.id] ?? []).map((bundle) => (
+                                                                <li key={bundle.id} className="flex items-center justify-between gap-3 text-sm">
+                                                                    <span className={bundle.isActive ? 'text-slate-900' : 'text-slate-400 line-through'}>
+                                                                        {bundle.title} · chapters {bundle.chapterNumbers.join(', ')} · {bundle.price} microSTX
+                                                                    </span>
+                                                                    {bundle.isActive && (
+                                                                        <button
+                                                                            type="button"
+                                                                            onClick={() => void retireBundle(book.id, bundle.id)}
+                                                                            disabled={!!bundleSaving[book.id]}
+                                                                            className="text-xs text-slate-500 hover:text-slate-900"
+                                                                        >
+                                                                            Stop selling
+                                                                        </button>
+                                                                    )}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                    <div className="grid gap-4 md:grid-cols-3">
+                                                        <div>
+                                                            <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                                Bundle title
+                                                            </label>
+                                                            <input
+                                                                type="text"
+                                                                value={bundleDrafts[book.id].title}
+                                                                onChange={(event) => updateBundleField(book.id, 'title', event.target.value)}
+                                                                maxLength={200}
+                                                                className="input-base"
+                                                                placeholder="Part II"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                                Chapters
+                                                            </label>
+                                                            <input
+                                                                type="text"
+                                                                value={bundleDrafts[book.id].chapters}
+                                                                onChange={(event) => updateBundleField(book.id, 'chapters', event.target.value)}
+                                                                className="input-base"
+                                                                placeholder="4-7, 9"
+                                                            />
+                                                        </div>
+                                                        <div>
+                                                            <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                                Price (microSTX)
+                                                            </label>
+                                                            <input
+                                                                type="number"
+                                                                min={0}
+                                                                step={100}
+                                                                value={bundleDrafts[book.id].price}
+                                                                onChange={(event) => updateBundleField(book.id, 'price', event.target.value)}
+                                                                className="input-base"
+                                                            />
+                                                        </div>
+                                                        <div className="md:col-span-3 flex justify-end">
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => void createBundle(book.id)}
+                                                                disabled={!!bundleSaving[book.id]}
+                                                                className="btn-primary"
+                                                            >
+                                                                {bundleSaving[book.id] ? 'Saving...' : 'Add bundle'}
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="mt-4 border-t border-slate-200 pt-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => toggleRevision(book.id)}
+                                                className="text-sm font-medium text-slate-700 hover:text-slate-900"
+                                            >
+                                                {revisionDrafts[book.id] ? 'Cancel revision' : 'Revise a page'}
+                                            </button>
+                                            {revisionDrafts[book.id] && (
+                                                <div className="mt-3 grid gap-4 md:grid-cols-2">
+                                                    <div>
+                                                        <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                            Page number
+                                                        </label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            max={book.totalPages + 1}
+                                                            value={revisionDrafts[book.id].pageNumber}
+                                                            onChange={(event) => updateRevisionField(book.id, 'pageNumber', event.target.value)}
+                                                            onBlur={() => void loadRevisionPage(book.id)}
+                                                            className="input-base"
+                                                            placeholder={`1-${book.totalPages}, or ${book.totalPages + 1} to append`}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                            What changed
+                                                        </label>
+                                                        <input
+                                                            type="text"
+                                                            value={revisionDrafts[book.id].changelog}
+                                                            onChange={(event) => updateRevisionField(book.id, 'changelog', event.target.value)}
+                                                            maxLength={5000}
+                                                            className="input-base"
+                                                            placeholder="Fixed typos in the opening scene"
+                                                        />
+                                                    </div>
+                                                    {revisionDrafts[book.id].loadedPage !== null && (
+                                                        <div className="md:col-span-2">
+                                                            <div className="mb-2 flex items-center justify-between gap-3">
+                                                                <label className="block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                                                    {revisionDrafts[book.id].format === 'text'
+                                                                        ? 'New page text'
+                                                                        : `New page ${PAGE_FORMAT_LABELS[revisionDrafts[book.id].format]} source`}
+                                                                </label>
+                                                                {(revisionDrafts[book.id].loadedPage ?? 0) > book.totalPages ? (
+                                                                    <select
+                                                                        value={revisionDrafts[book.id].format}
+                                                                        onChange={(event) => updateRevisionField(book.id, 'format', event.target.value)}
+                                                                        className="input-base w-auto text-xs"
+                                                                    >
+                                                                        {(Object.keys(PAGE_FORMAT_LABELS) as PageContentFormat[]).map((format) => (
+                                                                            <option key={format} value={format}>{PAGE_FORMAT_LABELS[format]}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                ) : (
+                                                                    <span className="text-xs text-slate-500">
+                                                                        {PAGE_FORMAT_LABELS[revisionDrafts[book.id].format]}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <textarea
+                                                                value={revisionDrafts[book.id].content}
+                                                                onChange={(event) => updateRevisionField(book.id, 'content', event.target.value)}
+                                                                rows={6}
+                                                                className={`input-base text-sm leading-relaxed ${revisionDrafts[book.id].format === 'text' ? '' : 'font-mono'}`}
+                                                            />
+                                                            {revisionDrafts[book.id].hasPdf && (
+                                                                <p className="mt-2 text-xs text-slate-500">
+                                                                    This page keeps its PDF; the text above is its searchable text.
+                                                                </p>
+                                                            )}
+                                                            {revisionDrafts[book.id].format !== 'text' && revisionDrafts[book.id].content.trim() && (
+                                                                <div className="mt-3 rounded-lg border border-slate-200 p-3">
+                                                                    <RichTextPage
+                                                                        source={revisionDrafts[book.id].content}
+                                                                        format={revisionDrafts[book.id].format as 'markdown' | 'html'}
+                                                                    />
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    <div className="md:col-span-2 flex justify-end">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => void publishRevision(book.id)}
+                                                            disabled={!!revisionSaving[book.id]}
+                                                            className="btn-primary"
+                                                        >
+                                                            {revisionSaving[book.id] ? 'Publishing...' : 'Publish new edition'}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
                                     </article>
                                 ))}
                             </div>
                         )}
                     </section>
+
+                    <section className="card mt-6">
+                        <h2 className="mb-2 font-display text-3xl text-slate-900">Promotions</h2>
+                        <p className="mb-5 text-sm text-slate-600">
+                            Sales without a code apply automatically while they run. Discount codes apply once a reader enters them.
+                        </p>
+
+                        {promotions.length === 0 ? (
+                            <p className="mb-5 text-sm text-slate-600">No promotions yet.</p>
+                        ) : (
+                            <ul className="mb-5 space-y-2">
+                                {promotions.map((promotion) => (
+                                    <li key={promotion.id} className="flex items-center justify-between gap-3 text-sm">
+                                        <span className={promotion.isActive ? 'text-slate-900' : 'text-slate-400 line-through'}>
+                                            {promotion.title} · {promotion.percentOff}% off
+                                            {promotion.code ? ` · code ${promotion.code}` : ' · automatic'}
+                                            {promotion.bookId ? ` · book #${promotion.bookId}` : ' · all books'}
+                                            {promotion.endsAt ? ` · until ${new Date(promotion.endsAt).toLocaleString()}` : ''}
+                                            {` · used ${promotion.redemptionCount}${promotion.maxRedemptions ? `/${promotion.maxRedemptions}` : ''}`}
+                                        </span>
+                                        {promotion.isActive && (
+                                            <button
+                                                type="button"
+                                                onClick={() => void endPromotion(promotion.id)}
+                                                disabled={promotionSaving}
+                                                className="text-xs font-medium text-slate-600 hover:text-slate-900"
+                                            >
+                                                End
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Title
+                                </label>
+                                <input
+                                    type="text"
+                                    maxLength={200}
+                                    placeholder="Launch week sale"
+                                    value={promotionDraft.title}
+                                    onChange={(event) => updatePromotionField('title', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Book
+                                </label>
+                                <select
+                                    value={promotionDraft.bookId}
+                                    onChange={(event) => updatePromotionField('bookId', event.target.value)}
+                                    className="input-base"
+                                >
+                                    <option value="">All my books</option>
+                                    {authorBooks.map((book) => (
+                                        <option key={book.id} value={book.id}>
+                                            #{book.id} {book.title}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Percent off
+                                </label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={promotionDraft.percentOff}
+                                    onChange={(event) => updatePromotionField('percentOff', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Discount code (optional)
+                                </label>
+                                <input
+                                    type="text"
+                                    maxLength={40}
+                                    placeholder="LAUNCH20"
+                                    value={promotionDraft.code}
+                                    onChange={(event) => updatePromotionField('code', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Starts
+                                </label>
+                                <input
+                                    type="datetime-local"
+                                    value={promotionDraft.startsAt}
+                                    onChange={(event) => updatePromotionField('startsAt', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Ends (optional)
+                                </label>
+                                <input
+                                    type="datetime-local"
+                                    value={promotionDraft.endsAt}
+                                    onChange={(event) => updatePromotionField('endsAt', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Total uses (optional)
+                                </label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={promotionDraft.maxRedemptions}
+                                    onChange={(event) => updatePromotionField('maxRedemptions', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div>
+                                <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                    Uses per reader (optional)
+                                </label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={promotionDraft.perWalletLimit}
+                                    onChange={(event) => updatePromotionField('perWalletLimit', event.target.value)}
+                                    className="input-base"
+                                />
+                            </div>
+                            <div className="md:col-span-2 flex justify-end">
+                                <button
+                                    type="button"
+                                    onClick={() => void createPromotion()}
+                                    disabled={promotionSaving}
+                                    className="btn-primary"
+                                >
+                                    {promotionSaving ? 'Saving...' : 'Create promotion'}
+                                </button>
+                            </div>
+                        </div>
+                    </section>
                 </motion.div>
             </main>
         </div>
@@ -251,11 +1514,104 @@ function parseMicroStx(value: string): bigint | null {
     }
 }
 
+/** Empty means no limit (null); undefined when the value is not a positive integer. */
+function parseOptionalLimit(value: string): number | null | undefined {
+    if (!value.trim()) {
+        return null;
+    }
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= 1 ? parsed : undefined;
+}
+
+/** Parses "4-7, 9" into sorted unique numbers; null when the list is empty or malformed. */
+function parseNumberList(value: string): number[] | null {
+    const numbers = new Set<number>();
+    for (const part of value.split(',').map((item) => item.trim()).filter(Boolean)) {
+        const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+        if (!match) {
+            return null;
+        }
+        const start = Number(match[1]);
+        const end = match[2] ? Number(match[2]) : start;
+        if (start < 1 || end < start) {
+            return null;
+        }
+        for (let number = start; number <= end; number += 1) {
+            numbers.add(number);
+        }
+    }
+    return numbers.size > 0 ? Array.from(numbers).sort((a, b) => a - b) : null;
+}
+
+/** Parses "number: price" lines (numbers may be ranges); null when any line is malformed. */
+function parseOverrideLines(value: string): Array<[number, string]> | null {
+    const entries = new Map<number, string>();
+    for (const line of value.split('\n').map((item) => item.trim()).filter(Boolean)) {
+        const [target, price, ...rest] = line.split(':').map((item) => item.trim());
+        const numbers = target ? parseNumberList(target) : null;
+        const parsedPrice = price === undefined ? null : parseMicroStx(price);
+        if (!numbers || parsedPrice === null || rest.length > 0) {
+            return null;
+        }
+        for (const number of numbers) {
+            entries.set(number, parsedPrice.toString());
+        }
+    }
+    return Array.from(entries.entries()).sort((a, b) => a[0] - b[0]);
+}
+
+function toPriceOverrideDraft(overrides: PriceOverrides): PriceOverrideDraft {
+    return {
+        pages: overrides.pages.map((entry) => `${entry.number}: ${entry.price}`).join('\n'),
+        chapters: overrides.chapters.map((entry) => `${entry.number}: ${entry.price}`).join('\n'),
+    };
+}
+
+/** Parses "address: role: basis points" lines; null when any line is malformed. */
+function parseSplitLines(value: string): RevenueSplitShare[] | null {
+    const shares: RevenueSplitShare[] = [];
+    for (const line of value.split('\n').map((item) => item.trim()).filter(Boolean)) {
+        const [payeeAddress, role, bps, ...rest] = line.split(':').map((item) => item.trim());
+        const shareBps = Number(bps);
+        if (!payeeAddress || !SPLIT_ROLES.includes(role as SplitRole) || !Number.isInteger(shareBps) || rest.length > 0) {
+            return null;
+        }
+        shares.push({ payeeAddress, role: role as SplitRole, shareBps });
+    }
+    return shares.length > 0 ? shares : null;
+}
+
+/** Prefills the editor with the current split, or the whole share for the owner. */
+function toSplitDraft(history: BookSplitVersion[], ownerAddress: string | null): SplitDraft {
+    const current = history[0];
+    return {
+        shares: current
+            ? current.shares.map((share) => `${share.payeeAddress}: ${share.role}: ${share.shareBps}`).join('\n')
+            : ownerAddress ? `${ownerAddress}: author: 10000` : '',
+        note: '',
+        history,
+    };
+}
+
 function toEditableBook(book: Book): EditableBook {
     return {
         id: book.id,
+        currentEdition: book.currentEdition || 1,
+        totalPages: book.totalPages,
+        status: book.status || 'published',
+        publishAt: book.publishAt ? String(book.publishAt) : null,
+        nextStatus: '',
+        nextPublishAt: '',
         title: book.title,
         coverImageUrl: book.coverImageUrl || '',
         pagePrice: typeof book.pagePrice === 'bigint' ? book.pagePrice.toString() : String(book.pagePrice),
+        bookPrice: book.bookPrice === null || book.bookPrice === undefined ? '' : String(book.bookPrice),
+        freePages: String(book.freePages ?? 1),
+        freeChapters: String(book.freeChapters ?? 1),
+        description: book.description || '',
+        genres: (book.genres || []).join(', '),
+        language: book.language || '',
+        isbn: book.isbn || '',
+        contentRating: book.contentRating || 'general',
     };
 }
@@ -4,13 +4,14 @@ import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { motion } from 'framer-motion';
-import type { Book } from '@stackpad/shared';
+import type { Book, BookCatalogSort, CreditTransaction, CreditWithdrawal, Gift, ReaderSubscription, SubscriptionPlan } from '@stackpad/shared';
 import { formatStxAmount } from '@stackpad/x402-client';
 import { useAuth } from '@/hooks/useAuth';
-import { apiClient } from '@/lib/api';
+import { apiClient, type CatalogQuery } from '@/lib/api';
 import { WalletConnect } from '@/components/WalletConnect';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { BrandLogo } from '@/components/BrandLogo';
+import { useToast } from '@/components/ToastProvider';
 
 const DEFAULT_COVER_BASE = 'https://picsum.photos/seed';
 
@@ -21,59 +22,434 @@ function shortAddress(address?: string) {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
+const SHELF_LIMIT = 8;
+const CATALOG_PAGE_SIZE = 12;
+
+const SORT_OPTIONS: Array<{ value: BookCatalogSort; label: string }> = [
+    { value: 'newest', label: 'Newest' },
+    { value: 'cheapest', label: 'Cheapest' },
+    { value: 'most_read', label: 'Most read' },
+];
+
+const PRICE_FILTERS: Array<{ label: string; maxPrice?: string }> = [
+    { label: 'Any price' },
+    { label: 'Free', maxPrice: '0' },
+    { label: 'Up to 0.001 STX/page', maxPrice: '1000' },
+    { label: 'Up to 0.01 STX/page', maxPrice: '10000' },
+];
+
+const LENGTH_FILTERS: Array<{ label: string; minPages?: number; maxPages?: number }> = [
+    { label: 'Any length' },
+    { label: 'Short (under 50 pages)', maxPages: 49 },
+    { label: 'Medium (50-200 pages)', minPages: 50, maxPages: 200 },
+    { label: 'Long (200+ pages)', minPages: 201 },
+];
+
+const WITHDRAWAL_STATUS_LABELS: Record<CreditWithdrawal['status'], string> = {
+    pending: 'Queued',
+    broadcasted: 'Sent, confirming',
+    confirmed: 'Confirmed',
+    failed: 'Failed, returned to balance',
+};
+
+const TRANSACTION_TYPE_LABELS: Record<CreditTransaction['type'], string> = {
+    deposit: 'Top-up',
+    deduction: 'Unlock',
+    refund: 'Refund',
+    gift_sent: 'Gift sent',
+    gift_received: 'Gift received',
+    withdrawal_hold: 'Withdrawal',
+    withdrawal_release: 'Withdrawal returned',
+};
+
 export default function LibraryPage() {
     const { isAuthenticated, userAddress, connectWallet } = useAuth();
-    const [books, setBooks] = useState<Book[]>([]);
+    const { pushToast } = useToast();
+    const [shelfBooks, setShelfBooks] = useState<Book[]>([]);
     const [progressMap, setProgressMap] = useState<Record<number, number>>({});
-    const [loading, setLoading] = useState(true);
+    const [loadingShelf, setLoadingShelf] = useState(true);
+
+    const [searchInput, setSearchInput] = useState('');
+    const [query, setQuery] = useState('');
+    const [sort, setSort] = useState<BookCatalogSort>('newest');
+    const [priceFilter, setPriceFilter] = useState(0);
+    const [lengthFilter, setLengthFilter] = useState(0);
+    const [catalogBooks, setCatalogBooks] = useState<Book[]>([]);
+    const [catalogTotal, setCatalogTotal] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingCatalog, setLoadingCatalog] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+    const [subscription, setSubscription] = useState<ReaderSubscription | null>(null);
+    const [subscriptionBusy, setSubscriptionBusy] = useState(false);
+
+    const [creditBalance, setCreditBalance] = useState<string | null>(null);
+    const [withdrawals, setWithdrawals] = useState<CreditWithdrawal[]>([]);
+    const [withdrawAmount, setWithdrawAmount] = useState('');
+    const [withdrawing, setWithdrawing] = useState(false);
+    const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+    const [transactionsCursor, setTransactionsCursor] = useState<string | null>(null);
+    const [statementBusy, setStatementBusy] = useState(false);
+
+    const [gifts, setGifts] = useState<Gift[]>([]);
+    const [redeemCode, setRedeemCode] = useState('');
+    const [giftAmount, setGiftAmount] = useState('');
+    const [giftRecipient, setGiftRecipient] = useState('');
+    const [giftMessage, setGiftMessage] = useState('');
+    const [newGiftCode, setNewGiftCode] = useState<string | null>(null);
+    const [giftBusy, setGiftBusy] = useState(false);
 
     useEffect(() => {
         if (!isAuthenticated || !userAddress) {
-            setLoading(false);
+            setLoadingShelf(false);
+            setShelfBooks([]);
             setProgressMap({});
+            setSubscription(null);
+            setGifts([]);
+            setCreditBalance(null);
+            setWithdrawals([]);
+            setTransactions([]);
+            setTransactionsCursor(null);
             return;
         }
 
-        void loadBooksAndProgress(userAddress);
+        void loadShelf();
+        void loadSubscription();
+        void loadGifts();
+        void loadBalance();
     }, [isAuthenticated, userAddress]);
 
-    async function loadBooksAndProgress(address: string) {
-        setLoading(true);
-        try {
-            const [booksData, progressData] = await Promise.all([
-                apiClient.getBooks(),
-                apiClient.getLibraryProgress(address),
-            ]);
-            setBooks(booksData);
+    useEffect(() => {
+        const timer = setTimeout(() => setQuery(searchInput.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    const catalogQuery = useMemo<CatalogQuery>(() => ({
+        q: query || undefined,
+        sort: query ? 'relevance' : sort,
+        maxPrice: PRICE_FILTERS[priceFilter].maxPrice,
+        minPages: LENGTH_FILTERS[lengthFilter].minPages,
+        maxPages: LENGTH_FILTERS[lengthFilter].maxPages,
+        limit: CATALOG_PAGE_SIZE,
+    }), [query, sort, priceFilter, lengthFilter]);
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            return;
+        }
 
+        let cancelled = false;
+        setLoadingCatalog(true);
+        apiClient.searchBooks(catalogQuery)
+            .then((page) => {
+                if (cancelled) {
+                    return;
+                }
+                setCatalogBooks(page.books);
+                setCatalogTotal(page.total);
+                setNextCursor(page.nextCursor ?? null);
+            })
+            .catch((error) => {
+                console.error('Failed to search books:', error);
+                if (!cancelled) {
+                    setCatalogBooks([]);
+                    setCatalogTotal(0);
+                    setNextCursor(null);
+                }
+            })
+            .finally(() => {
+                if (!cancelled) {
+                    setLoadingCatalog(false);
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isAuthenticated, catalogQuery]);
+
+    async function loadShelf() {
+        setLoadingShelf(true);
+        try {
+            const progressData = await apiClient.getLibraryProgress();
             const byBookId: Record<number, number> = {};
             for (const progress of progressData) {
                 byBookId[progress.bookId] = progress.lastPage;
             }
             setProgressMap(byBookId);
+
+            // Progress comes back most recently read first; only the head of the shelf is shown.
+            const recent = progressData.slice(0, SHELF_LIMIT);
+            // Books can be unpublished after they were read; those drop off the shelf.
+            const books = await Promise.all(recent.map((progress) => apiClient.getBook(progress.bookId).catch(() => null)));
+            setShelfBooks(books.filter((book): book is Book => Boolean(book)));
         } catch (error) {
-            console.error('Failed to load books:', error);
+            console.error('Failed to load reading shelf:', error);
+            setShelfBooks([]);
             setProgressMap({});
         } finally {
-            setLoading(false);
+            setLoadingShelf(false);
+        }
+    }
+
+    async function loadSubscription() {
+        try {
+            const [availablePlans, current] = await Promise.all([
+                apiClient.getSubscriptionPlans(),
+                apiClient.getMySubscription(),
+            ]);
+            setPlans(availablePlans);
+            setSubscription(current);
+        } catch (error) {
+            // Pay-per-page reading works without a plan.
+            console.error('Failed to load subscription:', error);
+            setPlans([]);
+            setSubscription(null);
+        }
+    }
+
+    async function subscribe(plan: Pick<SubscriptionPlan, 'id' | 'name'>) {
+        setSubscriptionBusy(true);
+        try {
+            const result = await apiClient.subscribe(plan.id);
+            if (result.insufficientCredit) {
+                pushToast({
+                    tone: 'error',
+                    title: 'Not enough credit',
+                    message: `Top up at least ${formatStxAmount(result.insufficientCredit.shortfall)} from the reader, then subscribe.`,
+                });
+                return;
+            }
+
+            if (result.subscription) {
+                setSubscription(result.subscription.subscription);
+                pushToast({
+                    tone: 'success',
+                    title: result.subscription.alreadySubscribed ? 'Renewal turned back on' : `${plan.name} started`,
+                    message: result.subscription.alreadySubscribed
+                        ? 'Your plan will renew at the end of this month.'
+                        : `${formatStxAmount(result.subscription.creditDeducted)} charged from your reading balance.`,
+                });
+            }
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Subscription failed',
+                message: error instanceof Error ? error.message : 'Failed to subscribe',
+            });
+        } finally {
+            setSubscriptionBusy(false);
+        }
+    }
+
+    async function cancelRenewal() {
+        setSubscriptionBusy(true);
+        try {
+            setSubscription(await apiClient.cancelSubscription());
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Cancel failed',
+                message: error instanceof Error ? error.message : 'Failed to cancel subscription',
+            });
+        } finally {
+            setSubscriptionBusy(false);
+        }
+    }
+
+    async function loadBalance() {
+        try {
+            const [balance, recentWithdrawals, statementPage] = await Promise.all([
+                apiClient.getCreditBalance(),
+                apiClient.getWithdrawals(),
+                apiClient.getCreditTransactions({ limit: 10 }),
+            ]);
+            setCreditBalance(balance.balance);
+            setWithdrawals(recentWithdrawals);
+            setTransactions(statementPage.transactions);
+            setTransactionsCursor(statementPage.nextCursor);
+        } catch (error) {
+            console.error('Failed to load reading balance:', error);
+            setCreditBalance(null);
+            setWithdrawals([]);
+            setTransactions([]);
+            setTransactionsCursor(null);
+        }
+    }
+
+    async function loadMoreTransactions() {
+        if (!transactionsCursor) return;
+        setStatementBusy(true);
+        try {
+            const statementPage = await apiClient.getCreditTransactions({ limit: 10, cursor: transactionsCursor });
+            setTransactions((current) => [...current, ...statementPage.transactions]);
+            setTransactionsCursor(statementPage.nextCursor);
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Could not load transactions',
+                message: error instanceof Error ? error.message : 'Failed to fetch credit transactions',
+            });
+        } finally {
+            setStatementBusy(false);
+        }
+    }
+
+    async function downloadStatement(format: 'csv' | 'json') {
+        setStatementBusy(true);
+        try {
+            const { blob, filename } = await apiClient.downloadStatement(format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Download failed',
+                message: error instanceof Error ? error.message : 'Failed to download statement',
+            });
+        } finally {
+            setStatementBusy(false);
+        }
+    }
+
+    async function withdraw() {
+        setWithdrawing(true);
+        try {
+            const result = await apiClient.requestWithdrawal(withdrawAmount.trim());
+            setCreditBalance(result.creditBalance);
+            setWithdrawals((current) => [result.withdrawal, ...current]);
+            setWithdrawAmount('');
+            pushToast({
+                tone: 'success',
+                title: 'Withdrawal requested',
+                message: `${formatStxAmount(result.withdrawal.amount)} will be sent to your wallet shortly.`,
+            });
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Withdrawal failed',
+                message: error instanceof Error ? error.message : 'Failed to request withdrawal',
+            });
+        } finally {
+            setWithdrawing(false);
+        }
+    }
+
+    async function loadGifts() {
+        try {
+            setGifts(await apiClient.getGifts());
+        } catch (error) {
+            console.error('Failed to load gifts:', error);
+            setGifts([]);
         }
     }
 
-    const booksWithProgress = useMemo(() => {
-        return books.map((book) => {
+    async function sendCreditGift() {
+        const recipientAddress = giftRecipient.trim();
+        const message = giftMessage.trim();
+        setGiftBusy(true);
+        setNewGiftCode(null);
+        try {
+            const result = await apiClient.sendGift({
+                kind: 'credits',
+                amount: giftAmount.trim(),
+                ...(recipientAddress ? { recipientAddress } : {}),
+                ...(message ? { message } : {}),
+            });
+            if (result.insufficientCredit) {
+                pushToast({
+                    tone: 'error',
+                    title: 'Not enough credit',
+                    message: `Top up at least ${formatStxAmount(result.insufficientCredit.shortfall)} from the reader, then send the gift.`,
+                });
+                return;
+            }
+
+            if (result.gift) {
+                setCreditBalance(result.gift.creditBalance);
+                setGiftAmount('');
+                setGiftRecipient('');
+                setGiftMessage('');
+                setNewGiftCode(result.gift.code);
+                pushToast({
+                    tone: 'success',
+                    title: 'Gift sent',
+                    message: `${formatStxAmount(result.gift.creditDeducted)} charged from your reading balance.`,
+                });
+                await loadGifts();
+            }
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Gift failed',
+                message: error instanceof Error ? error.message : 'Failed to send gift',
+            });
+        } finally {
+            setGiftBusy(false);
+        }
+    }
+
+    async function redeemGift() {
+        setGiftBusy(true);
+        try {
+            const redeemed = await apiClient.redeemGiftCode(redeemCode.trim());
+            setCreditBalance(redeemed.creditBalance);
+            setRedeemCode('');
+            pushToast({
+                tone: 'success',
+                title: 'Gift redeemed',
+                message: redeemed.deliveredAs === 'credits'
+                    ? `${formatStxAmount(redeemed.amount)} added to your reading balance.`
+                    : redeemed.deliveredAs === 'book'
+                        ? 'The whole book is now unlocked for you.'
+                        : `Chapter ${redeemed.chapterNumber} is now unlocked for you.`,
+            });
+            await loadGifts();
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Code not redeemed',
+                message: error instanceof Error ? error.message : 'Failed to redeem gift code',
+            });
+        } finally {
+            setGiftBusy(false);
+        }
+    }
+
+    async function loadMore() {
+        if (!nextCursor || loadingMore) {
+            return;
+        }
+
+        setLoadingMore(true);
+        try {
+            const page = await apiClient.searchBooks({ ...catalogQuery, cursor: nextCursor });
+            setCatalogBooks((current) => [...current, ...page.books]);
+            setNextCursor(page.nextCursor ?? null);
+        } catch (error) {
+            console.error('Failed to load more books:', error);
+        } finally {
+            setLoadingMore(false);
+        }
+    }
+
+    const shelfWithProgress = useMemo(() => {
+        return shelfBooks.map((book) => {
             const lastPage = progressMap[book.id] || 0;
-            const completionPercentage = calculateCompletion(lastPage, book.totalPages);
             return {
                 book,
                 lastPage,
-                completionPercentage,
+                completionPercentage: calculateCompletion(lastPage, book.totalPages),
             };
         });
-    }, [books, progressMap]);
+    }, [shelfBooks, progressMap]);
 
-    const inProgressBooks = booksWithProgress.filter((item) => item.completionPercentage > 0 && item.completionPercentage < 100);
-    const completedBooks = booksWithProgress.filter((item) => item.completionPercentage >= 100);
-    const unstartedBooks = booksWithProgress.filter((item) => item.completionPercentage === 0);
+    const hasActiveFilters = Boolean(query) || priceFilter !== 0 || lengthFilter !== 0;
 
     if (!isAuthenticated) {
         return (
@@ -128,96 +504,404 @@ export default function LibraryPage() {
                     </p>
                 </motion.div>
 
-                {loading ? (
-                    <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                        {Array.from({ length: 8 }).map((_, index) => (
-                            <div key={index} className="card animate-pulse">
-                                <div className="h-64 rounded-xl bg-slate-100" />
-                                <div className="mt-6 h-6 w-3/4 rounded bg-slate-100" />
-                                <div className="mt-3 h-4 w-1/2 rounded bg-slate-100" />
-                                <div className="mt-6 h-4 w-full rounded bg-slate-100" />
+                {(subscription?.isActive || plans.length > 0) && (
+                    <section className="surface mb-14 p-6 md:p-8">
+                        <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Reading plan</p>
+                        {subscription?.isActive ? (
+                            <div className="mt-3 flex flex-wrap items-center justify-between gap-4">
+                                <div>
+                                    <h2 className="font-display text-2xl text-slate-900">{subscription.plan.name}</h2>
+                                    <p className="mt-1 text-sm text-slate-600">
+                                        Every page is included.{' '}
+                                        {subscription.autoRenew
+                                            ? `Renews ${new Date(subscription.endsAt).toLocaleDateString()} for ${formatStxAmount(subscription.plan.price)}.`
+                                            : `Ends ${new Date(subscription.endsAt).toLocaleDateString()}.`}
+                                    </p>
+                                </div>
+                                {subscription.autoRenew ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => void cancelRenewal()}
+                                        disabled={subscriptionBusy}
+                                        className="btn-secondary"
+                                    >
+                                        Cancel renewal
+                                    </button>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => void subscribe(subscription.plan)}
+                                        disabled={subscriptionBusy}
+                                        className="btn-secondary"
+                                    >
+                                        Keep renewing
+                                    </button>
+                                )}
+                            </div>
+                        ) : (
+                            <ul className="mt-4 grid gap-4 md:grid-cols-2">
+                                {plans.map((plan) => (
+                                    <li key={plan.id} className="flex items-start justify-between gap-4 rounded-xl border border-slate-200 p-4">
+                                        <div className="min-w-0">
+                                            <p className="font-medium text-slate-900">{plan.name}</p>
+                                            <p className="mt-1 text-sm text-slate-600">
+                                                {plan.description || 'Read every page in the catalog, paid monthly from your balance.'}
+                                            </p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => void subscribe(plan)}
+                                            disabled={subscriptionBusy}
+                                            className="btn-primary shrink-0"
+                                        >
+                                            {formatStxAmount(plan.price)}/mo
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+                )}
+
+                {creditBalance !== null && (
+                    <section className="surface mb-14 p-6 md:p-8">
+                        <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Reading balance</p>
+                        <div className="mt-3 flex flex-wrap items-end justify-between gap-4">
+                            <h2 className="font-display text-2xl text-slate-900">{formatStxAmount(creditBalance)}</h2>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={100}
+                                    value={withdrawAmount}
+                                    onChange={(event) => setWithdrawAmount(event.target.value)}
+                                    className="input-base"
+                                    placeholder="Amount (microSTX)"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => void withdraw()}
+                                    disabled={withdrawing || !withdrawAmount.trim()}
+                                    className="btn-secondary shrink-0"
+                                >
+                                    {withdrawing ? 'Requesting...' : 'Withdraw to wallet'}
+                                </button>
                             </div>
-                        ))}
-                    </div>
-                ) : books.length === 0 ? (
-                    <div className="surface p-12 text-center md:p-16">
-                        <h2 className="font-display text-4xl text-slate-900">No books yet</h2>
-                        <p className="mx-auto mt-5 max-w-xl text-lg leading-8 text-slate-600">
-                            Publish your first title from the author view to start testing pay-per-page access.
-                        </p>
-                        <div className="mt-9">
-                            <Link href="/author" className="btn-primary">Open author view</Link>
                         </div>
-                    </div>
-                ) : (
-                    <div className="space-y-10">
-                        {inProgressBooks.length > 0 && (
-                            <section>
-                                <div className="mb-4 flex items-center justify-between">
-                                    <h2 className="font-display text-3xl text-slate-900">Continue reading</h2>
-                                    <p className="text-xs uppercase tracking-[0.14em] text-slate-500">{inProgressBooks.length} in progress</p>
+                        {withdrawals.length > 0 && (
+                            <ul className="mt-6 space-y-2 border-t border-slate-200 pt-4 text-sm text-slate-600">
+                                {withdrawals.slice(0, 5).map((withdrawal) => (
+                                    <li key={withdrawal.id} className="flex flex-wrap justify-between gap-2">
+                                        <span>
+                                            {formatStxAmount(withdrawal.amount)} · {new Date(withdrawal.createdAt).toLocaleDateString()}
+                                        </span>
+                                        <span className="text-xs text-slate-500">
+                                            {WITHDRAWAL_STATUS_LABELS[withdrawal.status]}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="mt-6 border-t border-slate-200 pt-4">
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <p className="text-xs font-medium uppercase tracking-[0.12em] text-slate-500">Statement</p>
+                                <div className="flex gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => void downloadStatement('csv')}
+                                        disabled={statementBusy}
+                                        className="btn-secondary"
+                                    >
+                                        Download CSV
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => void downloadStatement('json')}
+                                        disabled={statementBusy}
+                                        className="btn-secondary"
+                                    >
+                                        Download JSON
+                                    </button>
                                 </div>
-                                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                                    {inProgressBooks.map((item, index) => (
-                                        <BookCard
-                                            key={item.book.id}
-                                            book={item.book}
-                                            index={index}
-                                            completionPercentage={item.completionPercentage}
-                                            lastPage={item.lastPage}
-                                        />
+                            </div>
+                            {transactions.length === 0 ? (
+                                <p className="mt-3 text-sm text-slate-500">No credit activity yet.</p>
+                            ) : (
+                                <ul className="mt-3 space-y-2 text-sm text-slate-600">
+                                    {transactions.map((transaction) => (
+                                        <li key={transaction.id} className="flex flex-wrap justify-between gap-2">
+                                            <span>
+                                                {TRANSACTION_TYPE_LABELS[transaction.type]}
+                                                {transaction.bookTitle ? ` · ${transaction.bookTitle}` : ''}
+                                                {transaction.pageNumber ? ` p.${transaction.pageNumber}` : ''}
+                                                {transaction.chapterNumber ? ` ch.${transaction.chapterNumber}` : ''}
+                                                {' · '}
+                                                {new Date(transaction.createdAt).toLocaleDateString()}
+                                            </span>
+                                            <span className={transaction.amount.startsWith('-') ? 'text-slate-600' : 'text-slate-900'}>
+                                                {transaction.amount.startsWith('-')
+                                                    ? `-${formatStxAmount(transaction.amount.slice(1))}`
+                                                    : `+${formatStxAmount(transaction.amount)}`}
+                                            </span>
+                                        </li>
                                     ))}
-                                </div>
-                            </section>
+                                </ul>
+                            )}
+                            {transactionsCursor && (
+                                <button
+                                    type="button"
+                                    onClick={() => void loadMoreTransactions()}
+                                    disabled={statementBusy}
+                                    className="btn-secondary mt-4"
+                                >
+                                    {statementBusy ? 'Loading...' : 'Show more'}
+                                </button>
+                            )}
+                        </div>
+                    </section>
+                )}
+
+                <section className="surface mb-14 p-6 md:p-8">
+                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Gifts</p>
+                    <div className="mt-4 grid gap-8 md:grid-cols-2">
+                        <div>
+                            <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                Redeem a gift code
+                            </label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={redeemCode}
+                                    onChange={(event) => setRedeemCode(event.target.value)}
+                                    className="input-base"
+                                    placeholder="gift_..."
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => void redeemGift()}
+                                    disabled={giftBusy || !redeemCode.trim()}
+                                    className="btn-secondary shrink-0"
+                                >
+                                    Redeem
+                                </button>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="mb-2 block text-xs font-medium uppercase tracking-[0.12em] text-slate-500">
+                                Gift credits (microSTX)
+                            </label>
+                            <div className="grid gap-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={100}
+                                    value={giftAmount}
+                                    onChange={(event) => setGiftAmount(event.target.value)}
+                                    className="input-base"
+                                />
+                                <input
+                                    type="text"
+                                    value={giftRecipient}
+                                    onChange={(event) => setGiftRecipient(event.target.value)}
+                                    className="input-base"
+                                    placeholder="Recipient wallet (leave empty for a gift code)"
+                                />
+                                <input
+                                    type="text"
+                                    value={giftMessage}
+                                    onChange={(event) => setGiftMessage(event.target.value)}
+                                    maxLength={500}
+                                    className="input-base"
+                                    placeholder="Message (optional)"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => void sendCreditGift()}
+                                    disabled={giftBusy || !giftAmount.trim()}
+                                    className="btn-primary"
+                                >
+                                    {giftAmount.trim() ? `Send ${formatStxAmount(giftAmount.trim())}` : 'Send gift'}
+                                </button>
+                            </div>
+                            {newGiftCode && (
+                                <p className="mt-3 break-all rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                                    Gift code: <span className="font-mono">{newGiftCode}</span>. It is shown only once.
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    {gifts.length > 0 && (
+                        <ul className="mt-6 space-y-2 border-t border-slate-200 pt-4 text-sm text-slate-600">
+                            {gifts.slice(0, 5).map((gift) => (
+                                <li key={gift.id} className="flex flex-wrap justify-between gap-2">
+                                    <span>
+                                        {gift.direction === 'sent' ? 'Sent' : 'Received'}{' '}
+                                        {gift.kind === 'credits'
+                                            ? formatStxAmount(gift.amount)
+                                            : gift.kind === 'book'
+                                                ? gift.bookTitle || 'a book'
+                                                : `chapter ${gift.chapterNumber} of ${gift.bookTitle || 'a book'}`}
+                                        {gift.direction === 'sent'
+                                            ? ` to ${gift.recipientAddress ? shortAddress(gift.recipientAddress) : 'a gift code'}`
+                                            : ` from ${shortAddress(gift.senderAddress)}`}
+                                        {gift.message ? ` · "${gift.message}"` : ''}
+                                    </span>
+                                    <span className="text-xs text-slate-500">
+                                        {gift.status === 'pending' ? 'Not redeemed yet' : new Date(gift.deliveredAt ?? gift.createdAt).toLocaleDateString()}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {(loadingShelf || shelfWithProgress.length > 0) && (
+                    <section className="mb-14">
+                        <div className="mb-4 flex items-center justify-between">
+                            <h2 className="font-display text-3xl text-slate-900">Your shelf</h2>
+                            <p className="text-xs uppercase tracking-[0.14em] text-slate-500">Recently read</p>
+                        </div>
+                        {loadingShelf ? (
+                            <BookGridSkeleton count={4} />
+                        ) : (
+                            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                                {shelfWithProgress.map((item, index) => (
+                                    <BookCard
+                                        key={item.book.id}
+                                        book={item.book}
+                                        index={index}
+                                        completionPercentage={item.completionPercentage}
+                                        lastPage={item.lastPage}
+                                        completed={item.completionPercentage >= 100}
+                                    />
+                                ))}
+                            </div>
                         )}
+                    </section>
+                )}
 
-                        {completedBooks.length > 0 && (
-                            <section>
-                                <div className="mb-4 flex items-center justify-between">
-                                    <h2 className="font-display text-3xl text-slate-900">Completed</h2>
-                                    <p className="text-xs uppercase tracking-[0.14em] text-slate-500">Reread anytime</p>
-                                </div>
-                                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                                    {completedBooks.map((item, index) => (
-                                        <BookCard
-                                            key={item.book.id}
-                                            book={item.book}
-                                            index={index}
-                                            completionPercentage={item.completionPercentage}
-                                            lastPage={item.lastPage}
-                                            completed
-                                        />
-                                    ))}
-                                </div>
-                            </section>
+                <section>
+                    <div className="mb-6">
+                        <h2 className="font-display text-3xl text-slate-900">Browse the catalog</h2>
+                        {!loadingCatalog && (
+                            <p className="mt-2 text-xs uppercase tracking-[0.14em] text-slate-500">
+                                {catalogTotal} {catalogTotal === 1 ? 'title' : 'titles'}
+                            </p>
                         )}
+                    </div>
 
-                        {unstartedBooks.length > 0 && (
-                            <section>
-                                <div className="mb-4 flex items-center justify-between">
-                                    <h2 className="font-display text-3xl text-slate-900">Discover more</h2>
-                                    <p className="text-xs uppercase tracking-[0.14em] text-slate-500">{unstartedBooks.length} not started</p>
+                    <div className="mb-8 grid gap-3 md:grid-cols-[2fr_1fr_1fr_1fr]">
+                        <input
+                            type="search"
+                            value={searchInput}
+                            onChange={(event) => setSearchInput(event.target.value)}
+                            placeholder="Search titles, authors or passages"
+                            className="input-base"
+                            aria-label="Search books"
+                        />
+                        <select
+                            value={query ? 'relevance' : sort}
+                            onChange={(event) => setSort(event.target.value as BookCatalogSort)}
+                            disabled={Boolean(query)}
+                            className="input-base"
+                            aria-label="Sort books"
+                        >
+                            {query && <option value="relevance">Best match</option>}
+                            {SORT_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={priceFilter}
+                            onChange={(event) => setPriceFilter(Number(event.target.value))}
+                            className="input-base"
+                            aria-label="Filter by page price"
+                        >
+                            {PRICE_FILTERS.map((filter, index) => (
+                                <option key={filter.label} value={index}>{filter.label}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={lengthFilter}
+                            onChange={(event) => setLengthFilter(Number(event.target.value))}
+                            className="input-base"
+                            aria-label="Filter by length"
+                        >
+                            {LENGTH_FILTERS.map((filter, index) => (
+                                <option key={filter.label} value={index}>{filter.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {loadingCatalog ? (
+                        <BookGridSkeleton count={8} />
+                    ) : catalogBooks.length === 0 ? (
+                        hasActiveFilters ? (
+                            <div className="surface p-12 text-center md:p-16">
+                                <h2 className="font-display text-4xl text-slate-900">No matches</h2>
+                                <p className="mx-auto mt-5 max-w-xl text-lg leading-8 text-slate-600">
+                                    Try a different search or clear the price and length filters.
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="surface p-12 text-center md:p-16">
+                                <h2 className="font-display text-4xl text-slate-900">No books yet</h2>
+                                <p className="mx-auto mt-5 max-w-xl text-lg leading-8 text-slate-600">
+                                    Publish your first title from the author view to start testing pay-per-page access.
+                                </p>
+                                <div className="mt-9">
+                                    <Link href="/author" className="btn-primary">Open author view</Link>
                                 </div>
-                                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                                    {unstartedBooks.map((item, index) => (
+                            </div>
+                        )
+                    ) : (
+                        <>
+                            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                                {catalogBooks.map((book, index) => {
+                                    const lastPage = progressMap[book.id] || 0;
+                                    const completionPercentage = calculateCompletion(lastPage, book.totalPages);
+                                    return (
                                         <BookCard
-                                            key={item.book.id}
-                                            book={item.book}
-                                            index={index}
-                                            completionPercentage={item.completionPercentage}
-                                            lastPage={item.lastPage}
+                                            key={book.id}
+                                            book={book}
+                                            index={index % CATALOG_PAGE_SIZE}
+                                            completionPercentage={completionPercentage}
+                                            lastPage={lastPage}
+                                            completed={completionPercentage >= 100}
                                         />
-                                    ))}
+                                    );
+                                })}
+                            </div>
+                            {nextCursor && (
+                                <div className="mt-10 flex justify-center">
+                                    <button onClick={() => void loadMore()} disabled={loadingMore} className="btn-secondary">
+                                        {loadingMore ? 'Loading...' : 'Load more'}
+                                    </button>
                                 </div>
-                            </section>
-                        )}
-                    </div>
-                )}
+                            )}
+                        </>
+                    )}
+                </section>
             </main>
         </div>
     );
 }
 
+function BookGridSkeleton({ count }: { count: number }) {
+    return (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {Array.from({ length: count }).map((_, index) => (
+                <div key={index} className="card animate-pulse">
+                    <div className="h-64 rounded-xl bg-slate-100" />
+                    <div className="mt-6 h-6 w-3/4 rounded bg-slate-100" />
+                    <div className="mt-3 h-4 w-1/2 rounded bg-slate-100" />
+                    <div className="mt-6 h-4 w-full rounded bg-slate-100" />
+                </div>
+            ))}
+        </div>
+    );
+}
+
 function defaultCoverForBook(bookId: number): string {
     return `${DEFAULT_COVER_BASE}/stackpad-book-${bookId}/400/600`;
 }
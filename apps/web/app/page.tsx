@@ -1,7 +1,12 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import Image from 'next/image';
 import { motion } from 'framer-motion';
+import type { Book } from '@stackpad/shared';
+import { formatStxAmount } from '@stackpad/x402-client';
+import { apiClient } from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
 import { WalletConnect } from '@/components/WalletConnect';
 import { ThemeToggle } from '@/components/ThemeToggle';
@@ -16,6 +21,13 @@ const fadeUp = {
 
 export default function Home() {
     const { isAuthenticated, connectWallet } = useAuth();
+    const [newestBooks, setNewestBooks] = useState<Book[]>([]);
+
+    useEffect(() => {
+        apiClient.searchBooks({ sort: 'newest', limit: 4 })
+            .then((page) => setNewestBooks(page.books))
+            .catch((error) => console.error('Failed to load newest books:', error));
+    }, []);
 
     return (
         <div className="app-shell">
@@ -82,6 +94,45 @@ export default function Home() {
                     </motion.div>
                 </section>
 
+                {/* NEW ON STACKPAD: latest catalog titles */}
+                {newestBooks.length > 0 && (
+                    <section className="layout-wrap pb-16 md:pb-20">
+                        <motion.div {...fadeUp} className="mb-10 flex flex-wrap items-end justify-between gap-4">
+                            <div className="max-w-2xl">
+                                <p className="text-xs uppercase tracking-[0.2em] text-slate-500">New on Stackpad</p>
+                                <h2 className="mt-4 font-display text-3xl leading-tight text-slate-900 md:text-4xl">
+                                    Freshly published. First page is on the house.
+                                </h2>
+                            </div>
+                            <Link href="/library" className="btn-secondary">Browse all</Link>
+                        </motion.div>
+
+                        <div className="grid gap-5 sm:grid-cols-2 lg:grid-cols-4">
+                            {newestBooks.map((book) => (
+                                <motion.div key={book.id} {...fadeUp}>
+                                    <Link href={`/reader/${book.id}`} className="group block h-full">
+                                        <article className="card h-full">
+                                            <div className="relative h-56 overflow-hidden rounded-xl border border-slate-200 bg-slate-100">
+                                                <Image
+                                                    src={book.coverImageUrl || `https://picsum.photos/seed/stackpad-book-${book.id}/400/600`}
+                                                    alt={book.title}
+                                                    fill
+                                                    unoptimized
+                                                    className="object-cover transition duration-500 group-hover:scale-[1.02]"
+                                                />
+                                            </div>
+                                            <h3 className="mt-5 font-display text-xl leading-tight text-slate-900 line-clamp-2">{book.title}</h3>
+                                            <p className="mt-3 text-sm text-slate-500">
+                                                {book.totalPages} pages · {formatStxAmount(book.pagePrice)}/page
+                                            </p>
+                                        </article>
+                                    </Link>
+                                </motion.div>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
                 {/* THE PROBLEM: Visceral pain points */}
                 <section className="layout-wrap pb-16 md:pb-20">
                     <motion.div {...fadeUp} className="mb-12 max-w-2xl">
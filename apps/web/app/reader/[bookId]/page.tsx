@@ -3,9 +3,10 @@
 import { useEffect, useRef, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
+import Image from 'next/image';
 import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
 import { openSTXTransfer } from '@stacks/connect';
-import type { Book, ContentResponse } from '@stackpad/shared';
+import type { Book, BookEdition, BookOffer, Chapter, ContentResponse, PageImage, PageRenderType } from '@stackpad/shared';
 import { formatStxAmount } from '@stackpad/x402-client';
 import { apiClient, type ReaderDepositIntent } from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
@@ -13,6 +14,7 @@ import { WalletConnect } from '@/components/WalletConnect';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { useToast } from '@/components/ToastProvider';
 import { BrandLogo } from '@/components/BrandLogo';
+import { RichTextPage } from '@/components/RichTextPage';
 import { shortenAddress } from '@/lib/utils';
 
 type ReaderState = 'idle' | 'loading' | 'locked' | 'error' | 'ready';
@@ -33,6 +35,13 @@ interface PendingDepositState {
     txHash: string;
 }
 
+interface PdfPageSource {
+    /** Stored PDF (API path or presigned storage URL). */
+    url?: string;
+    /** Inline PDF from pages uploaded before object storage. */
+    base64?: string;
+}
+
 interface FundingOptions {
     recipient: string;
     network: string;
@@ -50,10 +59,25 @@ export default function ReaderPage() {
     const { pushToast } = useToast();
 
     const [book, setBook] = useState<Book | null>(null);
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [showContents, setShowContents] = useState(false);
+    const [editions, setEditions] = useState<BookEdition[]>([]);
+    const [pageRevisedIn, setPageRevisedIn] = useState<number | null>(null);
+    const [offers, setOffers] = useState<BookOffer[]>([]);
+    const [purchasingOffer, setPurchasingOffer] = useState<string | null>(null);
+    const [discountCode, setDiscountCode] = useState('');
+    const [applyingCode, setApplyingCode] = useState(false);
+    const [giftRecipient, setGiftRecipient] = useState('');
+    const [sendingGift, setSendingGift] = useState(false);
+    const [giftCode, setGiftCode] = useState<string | null>(null);
+    const [disputeTarget, setDisputeTarget] = useState<'page' | 'chapter'>('page');
+    const [disputeReason, setDisputeReason] = useState('');
+    const [filingDispute, setFilingDispute] = useState(false);
     const [currentPage, setCurrentPage] = useState(1);
     const [pageContent, setPageContent] = useState('');
-    const [pageRenderType, setPageRenderType] = useState<'text' | 'pdf-page'>('text');
-    const [pagePdfBase64, setPagePdfBase64] = useState<string | null>(null);
+    const [pageRenderType, setPageRenderType] = useState<PageRenderType>('text');
+    const [pagePdf, setPagePdf] = useState<PdfPageSource | null>(null);
+    const [pageImages, setPageImages] = useState<PageImage[]>([]);
     const [readerState, setReaderState] = useState<ReaderState>('idle');
     const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
@@ -83,7 +107,7 @@ export default function ReaderPage() {
         hasShownResumeToastRef.current = false;
         hasShownCompletionToastRef.current = false;
         setCurrentPage(1);
-        void initializeReader(userAddress);
+        void initializeReader();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [bookId, isAuthenticated, userAddress]);
 
@@ -126,15 +150,18 @@ export default function ReaderPage() {
         });
     }, [book, currentPage, isAuthenticated, isDimmed, pushToast, readerState]);
 
-    async function initializeReader(address: string) {
+    async function initializeReader() {
         try {
             const [bookData, creditData, progressData] = await Promise.all([
                 apiClient.getBook(bookId),
-                apiClient.getCreditBalance(address),
-                apiClient.getReadingProgress(bookId, address),
+                apiClient.getCreditBalance(),
+                apiClient.getReadingProgress(bookId),
             ]);
 
             setBook(bookData);
+            void loadChapters();
+            void loadEditions(bookData, progressData.lastSeenEdition);
+            void loadOffers();
             setCreditBalance(creditData.balance);
             if (creditData.topUp) {
                 setFundingOptions(creditData.topUp);
@@ -163,13 +190,193 @@ export default function ReaderPage() {
         } catch (error) {
             console.error('Failed to initialize reader:', error);
             setReaderState('error');
-            setStatusMessage('Book could not be loaded.');
+            setStatusMessage(error instanceof Error && error.message === 'This book is not available'
+                ? 'This book is not available. It may be unpublished or archived.'
+                : 'Book could not be loaded.');
+        }
+    }
+
+    async function loadChapters() {
+        try {
+            setChapters(await apiClient.getBookChapters(bookId));
+        } catch (error) {
+            // The reader still works page by page without a table of contents.
+            console.error('Failed to load chapters:', error);
+            setChapters([]);
+        }
+    }
+
+    async function loadEditions(bookData: Book, lastSeenEdition: number | null) {
+        try {
+            const history = await apiClient.getBookEditions(bookId);
+            setEditions(history);
+
+            // Only returning readers get the "what's new" nudge; the history stays in Contents.
+            const latest = history[0];
+            if (latest && lastSeenEdition && latest.edition > lastSeenEdition) {
+                pushToast({
+                    tone: 'info',
+                    title: `Updated to edition ${latest.edition}`,
+                    message: `"${bookData.title}" changed since you last read it. Open Contents to see what's new.`,
+                    durationMs: 5000,
+                });
+            }
+        } catch (error) {
+            console.error('Failed to load editions:', error);
+            setEditions([]);
+        }
+    }
+
+    async function loadOffers() {
+        try {
+            setOffers(await apiClient.getBookOffers(bookId));
+        } catch (error) {
+            // Page and chapter unlocks keep working without bundle offers.
+            console.error('Failed to load offers:', error);
+            setOffers([]);
+        }
+    }
+
+    async function purchaseOffer(offer: BookOffer) {
+        const offerKey = offer.bundleId === null ? 'book' : `bundle-${offer.bundleId}`;
+        setPurchasingOffer(offerKey);
+        try {
+            const result = await apiClient.purchaseBookOffer(bookId, offer.bundleId);
+            if (result.insufficientCredit) {
+                const locked = result.insufficientCredit;
+                setInsufficientCredit(locked);
+                setFundingOptions(locked.topUp);
+                setCreditBalance(locked.currentBalance);
+                setTopUpAmount(locked.topUp.suggestedAmount);
+                setShowContents(false);
+                setShowTopUpPanel(true);
+                return;
+            }
+
+            if (result.purchase) {
+                setCreditBalance(result.purchase.creditBalance);
+                pushToast({
+                    tone: 'success',
+                    title: result.purchase.alreadyOwned ? 'Already unlocked' : `${offer.title} unlocked`,
+                    message: result.purchase.alreadyOwned
+                        ? 'You already own this part of the book.'
+                        : `${formatStxAmount(result.purchase.creditDeducted)} charged from your reading balance.`,
+                });
+            }
+
+            await loadOffers();
+            if (readerState === 'locked') {
+                void loadPageContent(currentPage);
+            }
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Purchase failed',
+                message: error instanceof Error ? error.message : 'Failed to complete purchase',
+            });
+        } finally {
+            setPurchasingOffer(null);
+        }
+    }
+
+    async function giftBook() {
+        setSendingGift(true);
+        setGiftCode(null);
+        try {
+            const recipientAddress = giftRecipient.trim();
+            const result = await apiClient.sendGift({
+                kind: 'book',
+                bookId,
+                ...(recipientAddress ? { recipientAddress } : {}),
+            });
+            if (result.insufficientCredit) {
+                const locked = result.insufficientCredit;
+                setInsufficientCredit(locked);
+                setFundingOptions(locked.topUp);
+                setCreditBalance(locked.currentBalance);
+                setTopUpAmount(locked.topUp.suggestedAmount);
+                setShowContents(false);
+                setShowTopUpPanel(true);
+                return;
+            }
+
+            if (result.gift) {
+                setCreditBalance(result.gift.creditBalance);
+                setGiftRecipient('');
+                setGiftCode(result.gift.code);
+                pushToast({
+                    tone: 'success',
+                    title: 'Gift sent',
+                    message: result.gift.code
+                        ? `${formatStxAmount(result.gift.creditDeducted)} charged. Share the gift code below.`
+                        : `${formatStxAmount(result.gift.creditDeducted)} charged from your reading balance.`,
+                });
+            }
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Gift failed',
+                message: error instanceof Error ? error.message : 'Failed to send gift',
+            });
+        } finally {
+            setSendingGift(false);
+        }
+    }
+
+    async function fileDispute(chapterNumber: number | undefined) {
+        setFilingDispute(true);
+        try {
+            await apiClient.disputeCharge({
+                bookId,
+                ...(disputeTarget === 'chapter' && chapterNumber !== undefined ? { chapterNumber } : { pageNumber: currentPage }),
+                reason: disputeReason.trim(),
+            });
+            setDisputeReason('');
+            pushToast({
+                tone: 'success',
+                title: 'Dispute filed',
+                message: 'An admin will review the charge. Approved disputes are refunded to your reading balance.',
+            });
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Dispute not filed',
+                message: error instanceof Error ? error.message : 'Failed to file dispute',
+            });
+        } finally {
+            setFilingDispute(false);
+        }
+    }
+
+    async function applyDiscountCode() {
+        if (!discountCode.trim()) {
+            return;
+        }
+
+        setApplyingCode(true);
+        try {
+            const promotion = await apiClient.applyDiscountCode(bookId, discountCode.trim());
+            setDiscountCode('');
+            pushToast({
+                tone: 'success',
+                title: `${promotion.code} applied`,
+                message: `${promotion.percentOff}% off your next page and chapter unlocks in this book`
+                    + (promotion.endsAt ? ` until ${new Date(promotion.endsAt).toLocaleString()}.` : '.'),
+            });
+        } catch (error) {
+            pushToast({
+                tone: 'error',
+                title: 'Code not applied',
+                message: error instanceof Error ? error.message : 'Failed to apply discount code',
+            });
+        } finally {
+            setApplyingCode(false);
         }
     }
 
-    async function loadCreditBalance(address: string) {
+    async function loadCreditBalance() {
         try {
-            const result = await apiClient.getCreditBalance(address);
+            const result = await apiClient.getCreditBalance();
             setCreditBalance(result.balance);
             if (result.topUp) {
                 setFundingOptions(result.topUp);
@@ -181,14 +388,32 @@ export default function ReaderPage() {
 
     function applyPagePayload(payload: ContentResponse) {
         setPageContent(payload.content);
-        if (payload.renderType === 'pdf-page' && payload.pdfPageBase64) {
+        setPageRevisedIn(payload.revisedInEdition ?? null);
+        setPageImages(payload.images ?? []);
+        if (payload.renderType === 'pdf-page' && (payload.pdfPageUrl || payload.pdfPageBase64)) {
             setPageRenderType('pdf-page');
-            setPagePdfBase64(payload.pdfPageBase64);
+            setPagePdf({ url: payload.pdfPageUrl, base64: payload.pdfPageBase64 });
+            return;
+        }
+
+        if (payload.renderType === 'markdown' || payload.renderType === 'html') {
+            setPageRenderType(payload.renderType);
+            setPagePdf(null);
             return;
         }
 
         setPageRenderType('text');
-        setPagePdfBase64(null);
+        setPagePdf(null);
+    }
+
+    function renderPageBody() {
+        if (pageRenderType === 'pdf-page' && pagePdf) {
+            return <PdfPageEmbed source={pagePdf} fallbackText={pageContent} />;
+        }
+        if (pageRenderType === 'markdown' || pageRenderType === 'html') {
+            return <RichTextPage source={pageContent} format={pageRenderType} />;
+        }
+        return <PageTextWithImages text={pageContent} images={pageImages} />;
     }
 
     async function loadPageContent(pageNum: number) {
@@ -203,7 +428,7 @@ export default function ReaderPage() {
         setIsDimmed(false);
 
         try {
-            const result = await apiClient.getPage(bookId, pageNum, userAddress);
+            const result = await apiClient.getPage(bookId, pageNum);
             if (requestId !== requestCounterRef.current) {
                 return;
             }
@@ -244,14 +469,14 @@ export default function ReaderPage() {
 
             setReaderState('error');
             setPageRenderType('text');
-            setPagePdfBase64(null);
+            setPagePdf(null);
             pendingButtonTurnRef.current = null;
             setPageContent(result.error || 'Failed to load page content');
         } catch (error) {
             console.error('Failed to load page:', error);
             setReaderState('error');
             setPageRenderType('text');
-            setPagePdfBase64(null);
+            setPagePdf(null);
             pendingButtonTurnRef.current = null;
             setPageContent('Failed to load page content');
         }
@@ -293,7 +518,7 @@ export default function ReaderPage() {
         setShowTopUpPanel(true);
 
         try {
-            const intent = await apiClient.createDepositIntent(userAddress, normalizedAmount.toString());
+            const intent = await apiClient.createDepositIntent(normalizedAmount.toString());
             if (isStaleTopUpAttempt(attemptId)) {
                 return;
             }
@@ -379,7 +604,7 @@ export default function ReaderPage() {
 
         for (let cycle = 1; cycle <= AUTO_VERIFY_MAX_ATTEMPTS; cycle += 1) {
             setStatusMessage(`Verifying payment on Stacks (${cycle}/${AUTO_VERIFY_MAX_ATTEMPTS})...`);
-            const settlement = await apiClient.settleDeposit(userAddress, intentId, txHash);
+            const settlement = await apiClient.settleDeposit(intentId, txHash);
             if (isStaleTopUpAttempt(attemptId)) {
                 return;
             }
@@ -414,7 +639,7 @@ export default function ReaderPage() {
             if (settlement.balance) {
                 setCreditBalance(settlement.balance);
             } else {
-                await loadCreditBalance(userAddress);
+                await loadCreditBalance();
             }
 
             setPendingDeposit(null);
@@ -513,6 +738,14 @@ export default function ReaderPage() {
         setCurrentPage((prev) => prev - 1);
     }
 
+    function jumpToChapter(chapter: Chapter) {
+        setShowContents(false);
+        if (chapter.startPage !== currentPage) {
+            pendingButtonTurnRef.current = null;
+            setCurrentPage(chapter.startPage);
+        }
+    }
+
     function handleDragEnd(info: PanInfo) {
         const threshold = 50;
         if (info.offset.x < -threshold) {
@@ -563,6 +796,7 @@ export default function ReaderPage() {
     }
 
     const progress = book ? (currentPage / book.totalPages) * 100 : 0;
+    const currentChapter = chapters.find((chapter) => currentPage >= chapter.startPage && currentPage <= chapter.endPage);
     const panelFunding = insufficientCredit?.topUp || fundingOptions;
     const isBookCompleted = Boolean(
         book
@@ -586,13 +820,29 @@ export default function ReaderPage() {
                     </div>
                     <div className="min-w-0 flex-1 px-2 text-center">
                         <p className="truncate font-display text-2xl text-slate-900 md:text-3xl">{book?.title || 'Loading...'}</p>
-                        <p className="mt-1 text-xs uppercase tracking-[0.16em] text-slate-500">
+                        <p className="mt-1 truncate text-xs uppercase tracking-[0.16em] text-slate-500">
+                            {currentChapter && chapters.length > 1 ? `${currentChapter.title} · ` : ''}
                             Page {currentPage}{book ? ` of ${book.totalPages}` : ''}
+                            {pageRevisedIn ? ` · Revised in edition ${pageRevisedIn}` : ''}
+                            {book?.activeSale ? ` · ${book.activeSale.title}: ${book.activeSale.percentOff}% off` : ''}
                         </p>
                     </div>
                     {/* <div className="hidden rounded-full border border-slate-300 bg-slate-50/70 px-3 py-1 text-xs font-medium text-slate-700 md:block">
                         Credits: {formatStxAmount(creditBalance)}
                     </div> */}
+                    {(chapters.length > 1 || editions.length > 1 || offers.length > 0 || isAuthenticated) && (
+                        <button
+                            type="button"
+                            onClick={() => {
+                                // Prices drop as pages are unlocked, so refresh them on open.
+                                void loadOffers();
+                                setShowContents(true);
+                            }}
+                            className="rounded-lg border border-slate-300 px-3 py-2 text-xs uppercase tracking-[0.14em] text-slate-700 hover:bg-slate-50"
+                        >
+                            Contents
+                        </button>
+                    )}
                     <button
                         type="button"
                         onClick={openManualTopUpPanel}
@@ -644,12 +894,12 @@ export default function ReaderPage() {
                                 transition={{ duration: 0.28, ease: 'easeOut' }}
                                 className="relative"
                             >
-                                <article className="reader-copy min-h-[56vh] whitespace-pre-wrap">
+                                <article
+                                    className={`reader-copy min-h-[56vh] ${readerState !== 'error' && (pageRenderType === 'markdown' || pageRenderType === 'html') ? '' : 'whitespace-pre-wrap'}`.trim()}
+                                >
                                     {readerState === 'error'
                                         ? statusMessage || pageContent
-                                        : (pageRenderType === 'pdf-page' && pagePdfBase64
-                                            ? <PdfPageEmbed pdfPageBase64={pagePdfBase64} fallbackText={pageContent} />
-                                            : pageContent)}
+                                        : renderPageBody()}
                                 </article>
 
                                 {isDimmed && (
@@ -763,6 +1013,216 @@ export default function ReaderPage() {
                 </AnimatePresence>
             </main>
 
+            <AnimatePresence>
+                {showContents && (
+                    <>
+                        <motion.div
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            onClick={() => setShowContents(false)}
+                            className="fixed inset-0 z-40 bg-black/40"
+                        />
+                        <motion.aside
+                            initial={{ opacity: 0, x: 32 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            exit={{ opacity: 0, x: 32 }}
+                            transition={{ duration: 0.24, ease: 'easeOut' }}
+                            className="surface fixed inset-y-0 right-0 z-50 w-full max-w-sm overflow-y-auto rounded-none p-6 shadow-[0_20px_40px_rgba(15,23,42,0.12)]"
+                        >
+                            <div className="mb-5 flex items-start justify-between">
+                                <div>
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Contents</p>
+                                    <h2 className="mt-2 font-display text-2xl text-slate-900">{book?.title}</h2>
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => setShowContents(false)}
+                                    className="text-sm text-slate-500 hover:text-slate-900"
+                                >
+                                    Close
+                                </button>
+                            </div>
+                            <ol className="space-y-1">
+                                {chapters.map((chapter) => {
+                                    const isCurrent = currentChapter?.number === chapter.number;
+                                    return (
+                                        <li key={chapter.number}>
+                                            <button
+                                                type="button"
+                                                onClick={() => jumpToChapter(chapter)}
+                                                className={[
+                                                    'flex w-full items-baseline justify-between gap-3 rounded-lg px-3 py-2 text-left text-sm transition-colors',
+                                                    isCurrent ? 'bg-slate-100 text-slate-900' : 'text-slate-700 hover:bg-slate-50',
+                                                ].join(' ')}
+                                            >
+                                                <span className="min-w-0 truncate">{chapter.title}</span>
+                                                <span className="shrink-0 text-xs text-slate-500">
+                                                    {chapter.price === '0' ? 'Free · ' : ''}p. {chapter.startPage}
+                                                </span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ol>
+                            {offers.length > 0 && (
+                                <div className="mt-8 border-t border-slate-200 pt-6">
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Buy more at once</p>
+                                    <ul className="mt-3 space-y-3">
+                                        {offers.map((offer) => {
+                                            const offerKey = offer.bundleId === null ? 'book' : `bundle-${offer.bundleId}`;
+                                            const discounted = offer.price !== offer.listPrice;
+                                            return (
+                                                <li key={offerKey} className="flex items-start justify-between gap-3 text-sm">
+                                                    <div className="min-w-0">
+                                                        <p className="font-medium text-slate-900">{offer.title}</p>
+                                                        <p className="mt-1 text-xs text-slate-500">
+                                                            {offer.chapterNumbers
+                                                                ? `Chapters ${offer.chapterNumbers.join(', ')}`
+                                                                : 'Every page and chapter'}
+                                                            {!offer.owned && discounted
+                                                                ? ` · ${formatStxAmount(offer.listPrice)} less what you already spent`
+                                                                : ''}
+                                                        </p>
+                                                    </div>
+                                                    {offer.owned ? (
+                                                        <span className="shrink-0 text-xs text-slate-500">Owned</span>
+                                                    ) : (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => void purchaseOffer(offer)}
+                                                            disabled={purchasingOffer !== null}
+                                                            className="btn-secondary shrink-0 px-3 py-1.5 text-xs disabled:cursor-not-allowed disabled:opacity-50"
+                                                        >
+                                                            {purchasingOffer === offerKey ? 'Buying...' : formatStxAmount(offer.price)}
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            )}
+                            {isAuthenticated && book?.bookPrice != null && (
+                                <div className="mt-8 border-t border-slate-200 pt-6">
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Gift this book</p>
+                                    <p className="mt-2 text-sm text-slate-600">
+                                        {formatStxAmount(book.bookPrice.toString())} from your balance. Leave the wallet empty to get a gift code instead.
+                                    </p>
+                                    <div className="mt-3 flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={giftRecipient}
+                                            onChange={(event) => setGiftRecipient(event.target.value)}
+                                            className="input-base text-sm"
+                                            placeholder="Recipient wallet (optional)"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => void giftBook()}
+                                            disabled={sendingGift}
+                                            className="btn-secondary shrink-0 px-3 py-1.5 text-xs disabled:cursor-not-allowed disabled:opacity-50"
+                                        >
+                                            {sendingGift ? 'Sending...' : 'Send gift'}
+                                        </button>
+                                    </div>
+                                    {giftCode && (
+                                        <p className="mt-3 break-all rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                                            Gift code: <span className="font-mono">{giftCode}</span>. It is shown only once.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                            {isAuthenticated && (
+                                <div className="mt-8 border-t border-slate-200 pt-6">
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Discount code</p>
+                                    {book?.activeSale && (
+                                        <p className="mt-2 text-sm text-slate-700">
+                                            {book.activeSale.title}: {book.activeSale.percentOff}% off page and chapter unlocks
+                                            {book.activeSale.endsAt ? ` until ${new Date(book.activeSale.endsAt).toLocaleString()}` : ''}.
+                                        </p>
+                                    )}
+                                    <div className="mt-3 flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={discountCode}
+                                            onChange={(event) => setDiscountCode(event.target.value)}
+                                            maxLength={40}
+                                            className="input-base text-sm uppercase"
+                                            placeholder="Enter a code"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => void applyDiscountCode()}
+                                            disabled={applyingCode || !discountCode.trim()}
+                                            className="btn-secondary shrink-0 px-3 py-1.5 text-xs disabled:cursor-not-allowed disabled:opacity-50"
+                                        >
+                                            {applyingCode ? 'Applying...' : 'Apply'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            {isAuthenticated && (
+                                <div className="mt-8 border-t border-slate-200 pt-6">
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">Problem with a charge?</p>
+                                    <select
+                                        value={disputeTarget}
+                                        onChange={(event) => setDisputeTarget(event.target.value === 'chapter' ? 'chapter' : 'page')}
+                                        className="input-base mt-3 text-sm"
+                                    >
+                                        <option value="page">Page {currentPage}</option>
+                                        {currentChapter && <option value="chapter">{currentChapter.title}</option>}
+                                    </select>
+                                    <textarea
+                                        value={disputeReason}
+                                        onChange={(event) => setDisputeReason(event.target.value)}
+                                        maxLength={2000}
+                                        rows={3}
+                                        className="input-base mt-2 text-sm"
+                                        placeholder="What went wrong?"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => void fileDispute(currentChapter?.number)}
+                                        disabled={filingDispute || !disputeReason.trim()}
+                                        className="btn-secondary mt-2 px-3 py-1.5 text-xs disabled:cursor-not-allowed disabled:opacity-50"
+                                    >
+                                        {filingDispute ? 'Sending...' : 'Dispute charge'}
+                                    </button>
+                                </div>
+                            )}
+                            {editions.length > 1 && (
+                                <div className="mt-8 border-t border-slate-200 pt-6">
+                                    <p className="text-xs uppercase tracking-[0.18em] text-slate-500">What&apos;s new</p>
+                                    <ol className="mt-3 space-y-4">
+                                        {editions.map((edition) => (
+                                            <li key={edition.edition} className="text-sm">
+                                                <p className="font-medium text-slate-900">
+                                                    Edition {edition.edition}
+                                                    <span className="ml-2 text-xs font-normal text-slate-500">
+                                                        {new Date(edition.createdAt).toLocaleDateString()}
+                                                    </span>
+                                                </p>
+                                                <p className="mt-1 whitespace-pre-line text-slate-700">
+                                                    {edition.changelog || 'Original release.'}
+                                                </p>
+                                                {(edition.changedPages.length > 0 || edition.removedPages.length > 0) && (
+                                                    <p className="mt-1 text-xs text-slate-500">
+                                                        {formatPageList('Updated', edition.changedPages)}
+                                                        {edition.changedPages.length > 0 && edition.removedPages.length > 0 ? ' · ' : ''}
+                                                        {formatPageList('Removed', edition.removedPages)}
+                                                    </p>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                </div>
+                            )}
+                        </motion.aside>
+                    </>
+                )}
+            </AnimatePresence>
+
             <AnimatePresence>
                 {showTopUpPanel && (insufficientCredit || fundingOptions) && (
                     <>
@@ -891,17 +1351,37 @@ export default function ReaderPage() {
     );
 }
 
-function PdfPageEmbed({ pdfPageBase64, fallbackText }: { pdfPageBase64: string; fallbackText: string }) {
+function PdfPageEmbed({ source, fallbackText }: { source: PdfPageSource; fallbackText: string }) {
     const [pdfUrl, setPdfUrl] = useState<string | null>(null);
 
     useEffect(() => {
-        try {
-            setPdfUrl(`data:application/pdf;base64,${pdfPageBase64}`);
-        } catch (error) {
-            console.error('Failed to render PDF page preview:', error);
-            setPdfUrl(null);
+        if (!source.url) {
+            setPdfUrl(source.base64 ? `data:application/pdf;base64,${source.base64}` : null);
+            return;
         }
-    }, [pdfPageBase64]);
+
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setPdfUrl(null);
+
+        apiClient.getAssetObjectUrl(source.url)
+            .then((url) => {
+                objectUrl = url;
+                if (!cancelled) {
+                    setPdfUrl(url);
+                }
+            })
+            .catch((error) => {
+                console.error('Failed to render PDF page preview:', error);
+            });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) {
+                URL.revokeObjectURL(objectUrl);
+            }
+        };
+    }, [source.url, source.base64]);
 
     if (!pdfUrl) {
         return <span>{fallbackText}</span>;
@@ -918,6 +1398,79 @@ function PdfPageEmbed({ pdfPageBase64, fallbackText }: { pdfPageBase64: string;
     );
 }
 
+function PageTextWithImages({ text, images }: { text: string; images: PageImage[] }) {
+    if (images.length === 0) {
+        return <>{text}</>;
+    }
+
+    const ordered = [...images].sort((a, b) => a.position - b.position);
+    const segments: React.ReactNode[] = [];
+    let cursor = 0;
+
+    ordered.forEach((image, index) => {
+        const before = text.slice(cursor, image.position).replace(/\n+$/, '');
+        if (before) {
+            segments.push(<span key={`text-${index}`}>{before}</span>);
+        }
+        segments.push(<PageImageFigure key={`image-${index}`} image={image} />);
+        cursor = image.position;
+    });
+
+    const rest = text.slice(cursor).replace(/^\n+/, '');
+    if (rest) {
+        segments.push(<span key="text-rest">{rest}</span>);
+    }
+
+    return <>{segments}</>;
+}
+
+function PageImageFigure({ image }: { image: PageImage }) {
+    const [src, setSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        // Locked-page images need the session token, which an <img src> request cannot send.
+        apiClient.getAssetObjectUrl(image.url)
+            .then((url) => {
+                objectUrl = url;
+                if (!cancelled) {
+                    setSrc(url);
+                }
+            })
+            .catch((error) => {
+                console.error('Failed to load page image:', error);
+            });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) {
+                URL.revokeObjectURL(objectUrl);
+            }
+        };
+    }, [image.url]);
+
+    return (
+        <figure className="my-5 flex justify-center">
+            {src
+                ? (
+                    // The intrinsic size is unknown, so the image is sized by CSS from zero dimensions.
+                    <Image
+                        src={src}
+                        alt={image.alt}
+                        width={0}
+                        height={0}
+                        sizes="100vw"
+                        unoptimized
+                        className="h-auto max-h-[56vh] w-auto max-w-full rounded-lg"
+                    />
+                )
+                : <div className="h-40 w-full animate-pulse rounded-lg bg-[hsl(var(--surface-soft)/0.6)]" />}
+        </figure>
+    );
+}
+
 async function requestWalletTopUp(intent: ReaderDepositIntent): Promise<string> {
     const network = toWalletNetwork(intent.network);
     const amount = BigInt(intent.amount);
@@ -946,6 +1499,15 @@ async function requestWalletTopUp(intent: ReaderDepositIntent): Promise<string>
     });
 }
 
+function formatPageList(label: string, pages: number[]): string {
+    if (pages.length === 0) {
+        return '';
+    }
+
+    const shown = pages.slice(0, 8).join(', ');
+    return `${label} p. ${shown}${pages.length > 8 ? ` and ${pages.length - 8} more` : ''}`;
+}
+
 function parseMicroStx(value: string): bigint | null {
     if (!value.trim()) {
         return null;
@@ -0,0 +1,249 @@
+'use client';
+
+import { Fragment, type ReactNode } from 'react';
+
+interface RichTextPageProps {
+    source: string;
+    format: 'markdown' | 'html';
+}
+
+// Mirrors the backend upload allowlist; anything else is unwrapped to its text.
+const HTML_TAGS = new Set([
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'em', 'strong', 'i', 'b', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup',
+    'blockquote', 'q', 'cite', 'code', 'pre', 'kbd', 'abbr',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+    'a', 'span', 'div', 'section', 'figure', 'figcaption',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+const HTML_DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'svg', 'math']);
+
+/**
+ * Renders sanitized markdown or HTML pages as React elements. Nothing is injected
+ * as raw HTML, so even content that slipped past the server sanitizer cannot run script.
+ */
+export function RichTextPage({ source, format }: RichTextPageProps) {
+    return (
+        <div className="reader-rich">
+            {format === 'markdown' ? renderMarkdown(source) : renderHtml(source)}
+        </div>
+    );
+}
+
+function renderHtml(source: string): ReactNode {
+    if (typeof DOMParser === 'undefined') {
+        return source.replace(/<[^>]*>/g, '');
+    }
+
+    const document = new DOMParser().parseFromString(`<body>${source}</body>`, 'text/html');
+    return Array.from(document.body.childNodes).map((node, index) => htmlNodeToReact(node, `h${index}`));
+}
+
+function htmlNodeToReact(node: ChildNode, key: string): ReactNode {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return node.textContent;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+        return null;
+    }
+
+    const element = node as Element;
+    const tagName = element.tagName.toLowerCase();
+    if (HTML_DROPPED_TAGS.has(tagName)) {
+        return null;
+    }
+
+    const children = Array.from(element.childNodes).map((child, index) => htmlNodeToReact(child, `${key}-${index}`));
+    if (!HTML_TAGS.has(tagName)) {
+        return <Fragment key={key}>{children}</Fragment>;
+    }
+
+    if (tagName === 'br' || tagName === 'hr') {
+        return tagName === 'br' ? <br key={key} /> : <hr key={key} />;
+    }
+
+    if (tagName === 'a') {
+        return <SafeLink key={key} href={element.getAttribute('href') || ''}>{children}</SafeLink>;
+    }
+
+    const props: Record<string, unknown> = { key };
+    if (tagName === 'abbr' && element.getAttribute('title')) {
+        props.title = element.getAttribute('title');
+    }
+    if (tagName === 'ol') {
+        const start = Number.parseInt(element.getAttribute('start') || '', 10);
+        if (Number.isInteger(start)) {
+            props.start = start;
+        }
+    }
+    if (tagName === 'td' || tagName === 'th') {
+        const colSpan = Number.parseInt(element.getAttribute('colspan') || '', 10);
+        const rowSpan = Number.parseInt(element.getAttribute('rowspan') || '', 10);
+        if (Number.isInteger(colSpan)) {
+            props.colSpan = colSpan;
+        }
+        if (Number.isInteger(rowSpan)) {
+            props.rowSpan = rowSpan;
+        }
+    }
+
+    const Tag = tagName as keyof React.JSX.IntrinsicElements;
+    return <Tag {...props}>{children}</Tag>;
+}
+
+/**
+ * Small CommonMark subset: headings, paragraphs, block quotes, lists, fenced code,
+ * thematic breaks, and inline code, emphasis, strikethrough and links. Raw HTML is shown as text.
+ */
+function renderMarkdown(source: string): ReactNode {
+    return renderMarkdownBlocks(source.replace(/\r\n?/g, '\n').split('\n'), 'm');
+}
+
+function renderMarkdownBlocks(lines: string[], keyPrefix: string): ReactNode[] {
+    const blocks: ReactNode[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+        const key = `${keyPrefix}${blocks.length}`;
+
+        if (!line.trim()) {
+            index += 1;
+            continue;
+        }
+
+        const fence = line.match(/^\s{0,3}(```|~~~)/);
+        if (fence) {
+            const codeLines: string[] = [];
+            index += 1;
+            while (index < lines.length && !lines[index].trimStart().startsWith(fence[1])) {
+                codeLines.push(lines[index]);
+                index += 1;
+            }
+            index += 1;
+            blocks.push(<pre key={key}><code>{codeLines.join('\n')}</code></pre>);
+            continue;
+        }
+
+        const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            const Tag = `h${heading[1].length}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+            blocks.push(<Tag key={key}>{renderInline(heading[2], key)}</Tag>);
+            index += 1;
+            continue;
+        }
+
+        if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            blocks.push(<hr key={key} />);
+            index += 1;
+            continue;
+        }
+
+        if (/^\s{0,3}>/.test(line)) {
+            const quoteLines: string[] = [];
+            while (index < lines.length && /^\s{0,3}>/.test(lines[index])) {
+                quoteLines.push(lines[index].replace(/^\s{0,3}>\s?/, ''));
+                index += 1;
+            }
+            blocks.push(<blockquote key={key}>{renderMarkdownBlocks(quoteLines, `${key}-`)}</blockquote>);
+            continue;
+        }
+
+        const listMatch = line.match(/^\s{0,3}([-*+]|\d{1,9}[.)])\s+/);
+        if (listMatch) {
+            const ordered = /\d/.test(listMatch[1]);
+            const itemPattern = ordered ? /^\s{0,3}\d{1,9}[.)]\s+/ : /^\s{0,3}[-*+]\s+/;
+            const items: string[] = [];
+            while (index < lines.length && lines[index].trim()) {
+                if (itemPattern.test(lines[index])) {
+                    items.push(lines[index].replace(itemPattern, ''));
+                } else if (items.length > 0) {
+                    items[items.length - 1] += ` ${lines[index].trim()}`;
+                }
+                index += 1;
+            }
+
+            const children = items.map((item, itemIndex) => (
+                <li key={`${key}-${itemIndex}`}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+            ));
+            const start = ordered ? Number.parseInt(listMatch[1], 10) : 1;
+            blocks.push(ordered
+                ? <ol key={key} start={start !== 1 ? start : undefined}>{children}</ol>
+                : <ul key={key}>{children}</ul>);
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (
+            index < lines.length
+            && lines[index].trim()
+            && !/^\s{0,3}(#{1,6}\s|>|```|~~~|[-*+]\s|\d{1,9}[.)]\s)/.test(lines[index])
+        ) {
+            paragraph.push(lines[index].trim());
+            index += 1;
+        }
+        blocks.push(<p key={key}>{renderInline(paragraph.join('\n'), key)}</p>);
+    }
+
+    return blocks;
+}
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|~~([\s\S]+?)~~|\*([^*\s][^*]*?)\*|_([^_\s][^_]*?)_|\[([^\]]+)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)|\n/g;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+    const nodes: ReactNode[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) {
+            nodes.push(text.slice(lastIndex, index));
+        }
+        lastIndex = index + match[0].length;
+
+        const key = `${keyPrefix}-${nodes.length}`;
+        if (match[1] !== undefined) {
+            nodes.push(<code key={key}>{match[1]}</code>);
+        } else if (match[2] !== undefined || match[3] !== undefined) {
+            nodes.push(<strong key={key}>{renderInline(match[2] ?? match[3], key)}</strong>);
+        } else if (match[4] !== undefined) {
+            nodes.push(<del key={key}>{renderInline(match[4], key)}</del>);
+        } else if (match[5] !== undefined || match[6] !== undefined) {
+            nodes.push(<em key={key}>{renderInline(match[5] ?? match[6], key)}</em>);
+        } else if (match[7] !== undefined) {
+            nodes.push(<SafeLink key={key} href={match[8]}>{renderInline(match[7], key)}</SafeLink>);
+        } else {
+            nodes.push(<br key={key} />);
+        }
+    }
+
+    if (lastIndex < text.length) {
+        nodes.push(text.slice(lastIndex));
+    }
+
+    return nodes;
+}
+
+function SafeLink({ href, children }: { href: string; children: ReactNode }) {
+    if (!isSafeHref(href)) {
+        return <>{children}</>;
+    }
+
+    return (
+        <a href={href} target="_blank" rel="nofollow noopener noreferrer">
+            {children}
+        </a>
+    );
+}
+
+function isSafeHref(href: string): boolean {
+    const normalized = href.replace(/[\u0000- \u007f]+/g, '').toLowerCase();
+    if (!normalized) {
+        return false;
+    }
+
+    const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+    return !scheme || scheme === 'http' || scheme === 'https' || scheme === 'mailto';
+}
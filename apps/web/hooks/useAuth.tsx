@@ -1,12 +1,17 @@
 'use client';
 
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { AppConfig, UserSession, showConnect } from '@stacks/connect';
+import { useState, useEffect, useCallback, useRef, createContext, useContext, ReactNode } from 'react';
+import { AppConfig, UserSession, showConnect, openSignatureRequestPopup } from '@stacks/connect';
+import { apiClient, type WalletAuthSession } from '@/lib/api';
+
+const SESSION_STORAGE_KEY = 'stackpad-session';
 
 interface AuthContextType {
     userSession: UserSession | null;
     isAuthenticated: boolean;
+    isSigningIn: boolean;
     userAddress: string | null;
+    sessionToken: string | null;
     connectWallet: () => void;
     disconnectWallet: () => void;
 }
@@ -15,35 +20,105 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [userSession, setUserSession] = useState<UserSession | null>(null);
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
-    const [userAddress, setUserAddress] = useState<string | null>(null);
+    const [walletAddress, setWalletAddress] = useState<string | null>(null);
+    const [session, setSession] = useState<WalletAuthSession | null>(null);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+    const signInAttemptRef = useRef<string | null>(null);
+
+    const applySession = useCallback((next: WalletAuthSession | null) => {
+        apiClient.setSessionToken(next?.token ?? null);
+        setSession(next);
+        if (next) {
+            writeStoredSession(next);
+        } else {
+            clearStoredSession();
+        }
+    }, []);
+
+    const signIn = useCallback(async (address: string) => {
+        if (signInAttemptRef.current === address) {
+            return;
+        }
+
+        signInAttemptRef.current = address;
+        setIsSigningIn(true);
+        try {
+            const challenge = await apiClient.createAuthChallenge(address);
+            const signed = await requestMessageSignature(challenge.message);
+            const verified = await apiClient.createSession({
+                walletAddress: address,
+                nonce: challenge.nonce,
+                signature: signed.signature,
+                publicKey: signed.publicKey,
+            });
+            applySession(verified);
+        } catch (error) {
+            console.error('Wallet sign-in failed:', error);
+            applySession(null);
+        } finally {
+            signInAttemptRef.current = null;
+            setIsSigningIn(false);
+        }
+    }, [applySession]);
 
     useEffect(() => {
         const appConfig = new AppConfig(['store_write', 'publish_data']);
-        const session = new UserSession({ appConfig });
-        setUserSession(session);
+        const stacksSession = new UserSession({ appConfig });
+        setUserSession(stacksSession);
         const networkKey = getStacksNetworkKey();
 
-        if (session.isUserSignedIn()) {
-            setIsAuthenticated(true);
-            const userData = session.loadUserData();
-            setUserAddress(resolveUserAddress(userData, networkKey));
-        } else if (session.isSignInPending()) {
-            session.handlePendingSignIn().then((userData) => {
-                setIsAuthenticated(true);
-                setUserAddress(resolveUserAddress(userData, networkKey));
+        if (stacksSession.isUserSignedIn()) {
+            const userData = stacksSession.loadUserData();
+            setWalletAddress(resolveUserAddress(userData, networkKey));
+        } else if (stacksSession.isSignInPending()) {
+            stacksSession.handlePendingSignIn().then((userData) => {
+                setWalletAddress(resolveUserAddress(userData, networkKey));
             }).catch((error) => {
                 console.error('Failed to complete pending sign-in:', error);
             });
         }
     }, []);
 
+    useEffect(() => {
+        if (!walletAddress) {
+            return;
+        }
+
+        const stored = readStoredSession();
+        if (stored && isSameAddress(stored.walletAddress, walletAddress) && !isExpired(stored.expiresAt)) {
+            applySession(stored);
+            return;
+        }
+
+        void signIn(walletAddress);
+    }, [applySession, signIn, walletAddress]);
+
+    useEffect(() => {
+        apiClient.onUnauthorized(() => applySession(null));
+        return () => apiClient.onUnauthorized(null);
+    }, [applySession]);
+
+    useEffect(() => {
+        if (!session) {
+            return;
+        }
+
+        const remainingMs = new Date(session.expiresAt).getTime() - Date.now();
+        const timeout = setTimeout(() => applySession(null), Math.max(0, remainingMs));
+        return () => clearTimeout(timeout);
+    }, [applySession, session]);
+
     const connectWallet = () => {
         if (!userSession) {
             console.error('UserSession not initialized');
             return;
         }
 
+        if (walletAddress) {
+            void signIn(walletAddress);
+            return;
+        }
+
         showConnect({
             appDetails: {
                 name: 'Stackpad',
@@ -52,27 +127,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             redirectTo: '/',
             onFinish: () => {
                 const userData = userSession.loadUserData();
-                setIsAuthenticated(true);
-                setUserAddress(resolveUserAddress(userData, getStacksNetworkKey()));
+                setWalletAddress(resolveUserAddress(userData, getStacksNetworkKey()));
             },
             userSession,
         });
     };
 
     const disconnectWallet = () => {
+        void apiClient.revokeSession().catch((error) => {
+            console.error('Failed to revoke wallet session:', error);
+        });
         if (userSession) {
             userSession.signUserOut();
         }
-        setIsAuthenticated(false);
-        setUserAddress(null);
+        applySession(null);
+        setWalletAddress(null);
     };
 
+    const hasSession = Boolean(session && walletAddress && isSameAddress(session.walletAddress, walletAddress));
+
     return (
         <AuthContext.Provider
             value={{
                 userSession,
-                isAuthenticated,
-                userAddress,
+                isAuthenticated: hasSession,
+                isSigningIn,
+                userAddress: hasSession ? walletAddress : null,
+                sessionToken: hasSession ? session?.token ?? null : null,
                 connectWallet,
                 disconnectWallet,
             }}
@@ -102,3 +183,69 @@ function resolveUserAddress(userData: any, network: 'testnet' | 'mainnet'): stri
 
     return addresses[network] || addresses.testnet || addresses.mainnet || null;
 }
+
+function requestMessageSignature(message: string): Promise<{ signature: string; publicKey: string }> {
+    return new Promise((resolve, reject) => {
+        void openSignatureRequestPopup({
+            message,
+            network: getStacksNetworkKey(),
+            appDetails: {
+                name: 'Stackpad',
+                icon: window.location.origin + '/icon.svg',
+            },
+            onFinish: (data) => resolve({ signature: data.signature, publicKey: data.publicKey }),
+            onCancel: () => reject(new Error('Sign-in request was cancelled in wallet.')),
+        });
+    });
+}
+
+function readStoredSession(): WalletAuthSession | null {
+    try {
+        const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+        if (!raw) {
+            return null;
+        }
+
+        const parsed = JSON.parse(raw) as Partial<WalletAuthSession>;
+        if (
+            typeof parsed.token === 'string'
+            && typeof parsed.walletAddress === 'string'
+            && typeof parsed.expiresAt === 'string'
+        ) {
+            return {
+                token: parsed.token,
+                walletAddress: parsed.walletAddress,
+                expiresAt: parsed.expiresAt,
+            };
+        }
+    } catch {
+        // ignore unreadable storage
+    }
+
+    return null;
+}
+
+function writeStoredSession(value: WalletAuthSession): void {
+    try {
+        window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(value));
+    } catch {
+        // storage may be unavailable (private mode)
+    }
+}
+
+function clearStoredSession(): void {
+    try {
+        window.localStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {
+        // storage may be unavailable (private mode)
+    }
+}
+
+function isExpired(expiresAt: string): boolean {
+    const parsed = new Date(expiresAt).getTime();
+    return Number.isNaN(parsed) || parsed <= Date.now();
+}
+
+function isSameAddress(a: string, b: string): boolean {
+    return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
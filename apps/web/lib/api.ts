@@ -1,4 +1,34 @@
-import type { Book, ContentResponse, BookListResponse } from '@stackpad/shared';
+import type {
+    AuthorPayoutBreakdown,
+    Book,
+    BookCatalogSort,
+    BookBundle,
+    BookEdition,
+    BookOffer,
+    BookSplitVersion,
+    BookStatus,
+    BookUnlockFunnel,
+    Chapter,
+    ContentRating,
+    ContributorBookSplit,
+    CreditDispute,
+    CreditTransaction,
+    CreditTransactionType,
+    CreditWithdrawal,
+    ContentResponse,
+    EarningsInterval,
+    EarningsSeriesPoint,
+    BookListResponse,
+    Gift,
+    GiftKind,
+    PageContentFormat,
+    PriceOverrides,
+    Promotion,
+    RevenueSplitShare,
+    RevisablePage,
+    ReaderSubscription,
+    SubscriptionPlan,
+} from '@stackpad/shared';
 import {
     is402Response,
     parsePaymentRequiredHeader,
@@ -11,27 +41,191 @@ const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 class ApiClient {
     private baseUrl: string;
+    private sessionToken: string | null = null;
+    private unauthorizedHandler: (() => void) | null = null;
 
     constructor(baseUrl: string) {
         this.baseUrl = baseUrl;
     }
 
-    async getBooks(): Promise<Book[]> {
-        const response = await fetch(`${this.baseUrl}/api/books`);
+    setSessionToken(token: string | null): void {
+        this.sessionToken = token;
+    }
+
+    onUnauthorized(handler: (() => void) | null): void {
+        this.unauthorizedHandler = handler;
+    }
+
+    async createAuthChallenge(walletAddress: string): Promise<AuthChallengeResponse> {
+        const response = await fetch(`${this.baseUrl}/api/auth/challenge`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ walletAddress }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to create sign-in challenge');
+        }
+
+        const data = await response.json() as { challenge: AuthChallengeResponse };
+        return data.challenge;
+    }
+
+    async createSession(input: {
+        walletAddress: string;
+        nonce: string;
+        signature: string;
+        publicKey: string;
+    }): Promise<AuthSessionResponse> {
+        const response = await fetch(`${this.baseUrl}/api/auth/session`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Wallet signature could not be verified');
+        }
+
+        const data = await response.json() as { session: AuthSessionResponse };
+        return data.session;
+    }
+
+    async revokeSession(): Promise<void> {
+        if (!this.sessionToken) {
+            return;
+        }
+
+        await fetch(`${this.baseUrl}/api/auth/session`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+    }
+
+    async searchBooks(query: BookCatalogQuery = {}): Promise<BookListResponse> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== null && value !== '') {
+                params.set(key, String(value));
+            }
+        }
+
+        const search = params.toString();
+        const response = await fetch(`${this.baseUrl}/api/books${search ? `?${search}` : ''}`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to load books');
+        }
+
         const data: BookListResponse = await response.json();
-        return data.books;
+        return {
+            books: data.books,
+            total: data.total,
+            nextCursor: data.nextCursor ?? null,
+        };
     }
 
     async getBook(id: number): Promise<Book> {
-        const response = await fetch(`${this.baseUrl}/api/books/${id}`);
+        // Authorized so authors can open their drafts and buyers their archived books.
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/books/${id}`);
+        if (!response.ok) {
+            throw new Error(response.status === 404 ? 'This book is not available' : 'Failed to fetch book');
+        }
+
         const data = await response.json();
         return data.book;
     }
 
+    async getBookChapters(bookId: number): Promise<Chapter[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/books/${bookId}/chapters`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch chapters');
+        }
+
+        const data = await response.json() as { chapters?: Chapter[] };
+        return Array.isArray(data.chapters) ? data.chapters : [];
+    }
+
+    /** Edition history, newest first; `since` limits it to editions after that one. */
+    async getBookEditions(bookId: number, since?: number): Promise<BookEdition[]> {
+        const query = since ? `?since=${since}` : '';
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/books/${bookId}/editions${query}`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch editions');
+        }
+
+        const data = await response.json() as { editions?: BookEdition[] };
+        return Array.isArray(data.editions) ? data.editions : [];
+    }
+
+    /** Whole-book and bundle offers, priced net of what the signed-in reader already spent. */
+    async getBookOffers(bookId: number): Promise<BookOffer[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/books/${bookId}/offers`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch offers');
+        }
+
+        const data = await response.json() as { offers?: BookOffer[] };
+        return Array.isArray(data.offers) ? data.offers : [];
+    }
+
+    /** Buys the whole book (no `bundleId`) or a bundle from prepaid credits. */
+    async purchaseBookOffer(bookId: number, bundleId: number | null): Promise<{
+        purchase?: BookPurchaseResponse;
+        insufficientCredit?: InsufficientCreditPayload;
+    }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/content/${bookId}/purchase`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ bundleId }),
+        });
+
+        if (response.status === 402) {
+            const body = await response.json().catch(() => null) as unknown;
+            const insufficientCredit = asInsufficientCreditPayload(body);
+            if (insufficientCredit) {
+                return { insufficientCredit };
+            }
+        }
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to complete purchase');
+        }
+
+        return { purchase: await response.json() as BookPurchaseResponse };
+    }
+
+    /** Applies a discount code to the signed-in reader's future unlocks in this book. */
+    async applyDiscountCode(bookId: number, code: string): Promise<AppliedDiscountCode> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/content/${bookId}/discount-code`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ code }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to apply discount code');
+        }
+
+        const data = await response.json() as { promotion: AppliedDiscountCode };
+        return data.promotion;
+    }
+
     async getPage(
         bookId: number,
-        pageNum: number,
-        userAddress: string
+        pageNum: number
     ): Promise<{
         content?: ContentResponse;
         requires402?: boolean;
@@ -40,13 +234,7 @@ class ApiClient {
         error?: string;
         details?: string;
     }> {
-        const headers: Record<string, string> = {
-            'X-Stacks-Address': userAddress,
-        };
-
-        const response = await fetch(`${this.baseUrl}/api/content/${bookId}/page/${pageNum}`, {
-            headers,
-        });
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/content/${bookId}/page/${pageNum}`);
 
         if (is402Response(response)) {
             const paymentRequired = parsePaymentRequiredHeader(response.headers);
@@ -86,10 +274,8 @@ class ApiClient {
         return { content: data };
     }
 
-    async getCreditBalance(walletAddress: string): Promise<{ balance: string; topUp?: CreditFundingPayload }> {
-        const response = await fetch(
-            `${this.baseUrl}/api/credits/balance?address=${encodeURIComponent(walletAddress)}`
-        );
+    async getCreditBalance(): Promise<{ balance: string; topUp?: CreditFundingPayload }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/balance`);
 
         if (!response.ok) {
             throw new Error('Failed to fetch credit balance');
@@ -109,30 +295,22 @@ class ApiClient {
         };
     }
 
-    async getReadingProgress(
-        bookId: number,
-        walletAddress: string
-    ): Promise<{ lastPage: number | null }> {
-        const response = await fetch(
-            `${this.baseUrl}/api/content/${bookId}/progress?address=${encodeURIComponent(walletAddress)}`
-        );
+    async getReadingProgress(bookId: number): Promise<{ lastPage: number | null; lastSeenEdition: number | null }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/content/${bookId}/progress`);
 
         if (!response.ok) {
             throw new Error('Failed to fetch reading progress');
         }
 
-        const data = await response.json() as { lastPage?: number | null };
+        const data = await response.json() as { lastPage?: number | null; lastSeenEdition?: number | null };
         return {
             lastPage: Number.isInteger(data.lastPage) ? Number(data.lastPage) : null,
+            lastSeenEdition: Number.isInteger(data.lastSeenEdition) ? Number(data.lastSeenEdition) : null,
         };
     }
 
-    async getLibraryProgress(
-        walletAddress: string
-    ): Promise<Array<{ bookId: number; lastPage: number }>> {
-        const response = await fetch(
-            `${this.baseUrl}/api/content/progress?address=${encodeURIComponent(walletAddress)}`
-        );
+    async getLibraryProgress(): Promise<Array<{ bookId: number; lastPage: number }>> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/content/progress`);
 
         if (!response.ok) {
             throw new Error('Failed to fetch library progress');
@@ -154,17 +332,214 @@ class ApiClient {
             .filter((entry) => Number.isInteger(entry.bookId) && entry.bookId > 0 && Number.isInteger(entry.lastPage) && entry.lastPage >= 0);
     }
 
-    async createDepositIntent(
-        walletAddress: string,
-        amount: string
-    ): Promise<DepositIntentResponse> {
-        const response = await fetch(`${this.baseUrl}/api/credits/deposit-intent`, {
+    async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+        const response = await fetch(`${this.baseUrl}/api/subscriptions/plans`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch subscription plans');
+        }
+
+        const data = await response.json() as { plans?: SubscriptionPlan[] };
+        return Array.isArray(data.plans) ? data.plans : [];
+    }
+
+    async getMySubscription(): Promise<ReaderSubscription | null> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/subscriptions/me`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch subscription');
+        }
+
+        const data = await response.json() as { subscription: ReaderSubscription | null };
+        return data.subscription;
+    }
+
+    /** Pays the first month from prepaid credits; short balances come back as `insufficientCredit`. */
+    async subscribe(planId: number): Promise<{
+        subscription?: SubscribeResponse;
+        insufficientCredit?: InsufficientCreditPayload;
+    }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/subscriptions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ planId }),
+        });
+
+        if (response.status === 402) {
+            const body = await response.json().catch(() => null) as unknown;
+            const insufficientCredit = asInsufficientCreditPayload(body);
+            if (insufficientCredit) {
+                return { insufficientCredit };
+            }
+        }
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to subscribe');
+        }
+
+        return { subscription: await response.json() as SubscribeResponse };
+    }
+
+    async cancelSubscription(): Promise<ReaderSubscription> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/subscriptions/me`, {
+            method: 'DELETE',
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to cancel subscription');
+        }
+
+        const data = await response.json() as { subscription: ReaderSubscription };
+        return data.subscription;
+    }
+
+    async getGifts(): Promise<Gift[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/gifts`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch gifts');
+        }
+
+        const data = await response.json() as { gifts?: Gift[] };
+        return Array.isArray(data.gifts) ? data.gifts : [];
+    }
+
+    /** Paid from prepaid credits; without `recipientAddress` the response carries a one-time gift code. */
+    async sendGift(input: GiftInput): Promise<{
+        gift?: SendGiftResponse;
+        insufficientCredit?: InsufficientCreditPayload;
+    }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/gifts`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (response.status === 402) {
+            const body = await response.json().catch(() => null) as unknown;
+            const insufficientCredit = asInsufficientCreditPayload(body);
+            if (insufficientCredit) {
+                return { insufficientCredit };
+            }
+        }
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to send gift');
+        }
+
+        return { gift: await response.json() as SendGiftResponse };
+    }
+
+    async redeemGiftCode(code: string): Promise<RedeemGiftResponse> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/gifts/redeem`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ code }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to redeem gift code');
+        }
+
+        return await response.json() as RedeemGiftResponse;
+    }
+
+    async getWithdrawals(): Promise<CreditWithdrawal[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/withdrawals`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch withdrawals');
+        }
+
+        const data = await response.json() as { withdrawals?: CreditWithdrawal[] };
+        return Array.isArray(data.withdrawals) ? data.withdrawals : [];
+    }
+
+    /** Holds `amount` from the balance; the treasury transfer follows within a minute or so. */
+    async requestWithdrawal(amount: string): Promise<{ withdrawal: CreditWithdrawal; creditBalance: string }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/withdrawals`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ amount }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to request withdrawal');
+        }
+
+        return await response.json() as { withdrawal: CreditWithdrawal; creditBalance: string };
+    }
+
+    async getCreditTransactions(query: CreditTransactionQuery = {}): Promise<{
+        transactions: CreditTransaction[];
+        nextCursor: string | null;
+    }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/transactions${toStatementSearch(query)}`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch credit transactions');
+        }
+
+        const data = await response.json() as { transactions?: CreditTransaction[]; nextCursor?: string | null };
+        return {
+            transactions: Array.isArray(data.transactions) ? data.transactions : [],
+            nextCursor: data.nextCursor ?? null,
+        };
+    }
+
+    /** Fetches the statement file; the caller saves the blob under the returned filename. */
+    async downloadStatement(format: 'csv' | 'json', query: CreditTransactionQuery = {}): Promise<{
+        blob: Blob;
+        filename: string;
+    }> {
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/credits/transactions/export${toStatementSearch({ ...query, format })}`
+        );
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to download statement');
+        }
+
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `stackpad-statement.${format}`;
+        return { blob: await response.blob(), filename };
+    }
+
+    /** Disputes the charge that unlocked a page or chapter; an admin reviews it. */
+    async disputeCharge(input: DisputeInput): Promise<CreditDispute> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/disputes`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to file dispute');
+        }
+
+        const data = await response.json() as { dispute: CreditDispute };
+        return data.dispute;
+    }
+
+    async createDepositIntent(amount: string): Promise<DepositIntentResponse> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/deposit-intent`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-                walletAddress,
                 amount,
             }),
         });
@@ -179,17 +554,15 @@ class ApiClient {
     }
 
     async settleDeposit(
-        walletAddress: string,
         intentId: string,
         txHash?: string
     ): Promise<DepositSettlementResponse> {
-        const response = await fetch(`${this.baseUrl}/api/credits/settle`, {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/credits/settle`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-                walletAddress,
                 intentId,
                 txHash: txHash || undefined,
             }),
@@ -213,25 +586,193 @@ class ApiClient {
         return data;
     }
 
-    async uploadBook(book: UploadBookInput, pages: UploadPageInput[]): Promise<{ bookId: number }> {
-        const response = await fetch(`${this.baseUrl}/api/author/upload`, {
+    async uploadBook(
+        book: UploadBookInput,
+        pages: UploadPageInput[],
+        chapters?: ChapterTitleInput[]
+    ): Promise<{ bookId: number }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/upload`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify({ book, pages }),
+            body: JSON.stringify({ book, pages, chapters }),
         });
 
         if (!response.ok) {
-            throw new Error('Failed to upload book');
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to upload book');
         }
 
         const data = await response.json();
         return { bookId: data.bookId };
     }
 
-    async getAuthorEarnings(authorAddress: string): Promise<AuthorEarningsResult> {
-        const response = await fetch(`${this.baseUrl}/api/author/earnings?address=${authorAddress}`);
+    async uploadPdfPage(bytes: Uint8Array): Promise<{ key: string; byteSize: number }> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/uploads/pdf-page`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/pdf',
+            },
+            body: new Blob([bytes as BlobPart], { type: 'application/pdf' }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to upload PDF page');
+        }
+
+        const data = await response.json() as { key: string; byteSize: number };
+        return { key: data.key, byteSize: data.byteSize };
+    }
+
+    async importEpub(file: File, options: EpubImportOptions): Promise<{ bookId: number }> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined && value !== null && value !== '') {
+                params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+            }
+        }
+
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/import/epub?${params.toString()}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/epub+zip',
+            },
+            body: file,
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to import EPUB');
+        }
+
+        const data = await response.json();
+        return { bookId: data.bookId };
+    }
+
+    /** Start a resumable upload; pages or EPUB parts are then sent in separate requests. */
+    async createUploadSession(input: CreateUploadSessionInput): Promise<UploadSessionInfo> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/upload-sessions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        const data = await readUploadSessionResponse(response, 'Failed to start upload');
+        return data.session;
+    }
+
+    async getUploadSession(sessionId: string): Promise<UploadSessionInfo> {
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/author/upload-sessions/${encodeURIComponent(sessionId)}`
+        );
+
+        const data = await readUploadSessionResponse(response, 'Failed to load upload progress');
+        return data.session;
+    }
+
+    /**
+     * Stage a batch of pages. Batches with PDF pages go as multipart/form-data so the
+     * page files travel with their text; re-sending a page replaces the staged copy.
+     */
+    async uploadSessionPages(sessionId: string, pages: UploadSessionPageInput[]): Promise<UploadSessionInfo> {
+        const hasPdfFiles = pages.some((page) => page.pdfPageBytes);
+        let body: BodyInit;
+        const headers: Record<string, string> = {};
+
+        if (hasPdfFiles) {
+            const form = new FormData();
+            form.append('pages', JSON.stringify(pages.map((page) => ({ ...page, pdfPageBytes: undefined }))));
+            for (const page of pages) {
+                if (page.pdfPageBytes) {
+                    form.append(
+                        `pdf:${page.pageNumber}`,
+                        new Blob([page.pdfPageBytes as BlobPart], { type: 'application/pdf' }),
+                        `page-${page.pageNumber}.pdf`
+                    );
+                }
+            }
+            body = form;
+        } else {
+            headers['Content-Type'] = 'application/json';
+            body = JSON.stringify({ pages });
+        }
+
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/author/upload-sessions/${encodeURIComponent(sessionId)}/pages`,
+            { method: 'PUT', headers, body }
+        );
+
+        const data = await readUploadSessionResponse(response, 'Failed to upload pages');
+        return data.session;
+    }
+
+    async uploadSessionPart(
+        sessionId: string,
+        partNumber: number,
+        chunk: Blob,
+        sha256?: string
+    ): Promise<UploadSessionInfo> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/octet-stream',
+        };
+        if (sha256) {
+            headers['X-Content-SHA256'] = sha256;
+        }
+
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/author/upload-sessions/${encodeURIComponent(sessionId)}/parts/${partNumber}`,
+            { method: 'PUT', headers, body: chunk }
+        );
+
+        const data = await readUploadSessionResponse(response, 'Failed to upload file part');
+        return data.session;
+    }
+
+    async finalizeUploadSession(sessionId: string): Promise<{ bookId: number }> {
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/author/upload-sessions/${encodeURIComponent(sessionId)}/finalize`,
+            { method: 'POST' }
+        );
+
+        const data = await readUploadSessionResponse(response, 'Failed to publish book');
+        return { bookId: data.bookId as number };
+    }
+
+    async abortUploadSession(sessionId: string): Promise<void> {
+        const response = await this.authorizedFetch(
+            `${this.baseUrl}/api/author/upload-sessions/${encodeURIComponent(sessionId)}`,
+            { method: 'DELETE' }
+        );
+
+        if (!response.ok && response.status !== 404 && response.status !== 409) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to cancel upload');
+        }
+    }
+
+    /**
+     * Fetches a protected file (imported image, stored PDF page) with the session token and
+     * returns an object URL for it. Absolute URLs (presigned storage links) are fetched as-is.
+     */
+    async getAssetObjectUrl(assetPath: string): Promise<string> {
+        const isAbsolute = /^https?:\/\//i.test(assetPath);
+        const response = isAbsolute
+            ? await fetch(assetPath)
+            : await this.authorizedFetch(`${this.baseUrl}${assetPath}`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to load image');
+        }
+
+        return URL.createObjectURL(await response.blob());
+    }
+
+    async getAuthorEarnings(): Promise<AuthorEarningsResult> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/earnings`);
         const data = await response.json() as AuthorEarningsApiResponse;
         return {
             totalEarnings: BigInt(data.totalEarnings),
@@ -242,8 +783,41 @@ class ApiClient {
         };
     }
 
-    async getAuthorBooks(authorAddress: string): Promise<Book[]> {
-        const response = await fetch(`${this.baseUrl}/api/author/books?address=${encodeURIComponent(authorAddress)}`);
+    async getAuthorEarningsSeries(interval: EarningsInterval): Promise<EarningsSeriesPoint[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/earnings/series?interval=${interval}`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch earnings series');
+        }
+
+        const data = await response.json() as { series?: EarningsSeriesPoint[] };
+        return Array.isArray(data.series) ? data.series : [];
+    }
+
+    async getAuthorPayouts(): Promise<AuthorPayoutBreakdown> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/earnings/payouts`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch payout breakdown');
+        }
+
+        const data = await response.json() as { payouts: AuthorPayoutBreakdown };
+        return data.payouts;
+    }
+
+    async getBookUnlockFunnel(bookId: number): Promise<BookUnlockFunnel> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/funnel`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch unlock funnel');
+        }
+
+        const data = await response.json() as { funnel: BookUnlockFunnel };
+        return data.funnel;
+    }
+
+    async getAuthorBooks(): Promise<Book[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books`);
         if (!response.ok) {
             throw new Error('Failed to fetch author books');
         }
@@ -254,36 +828,282 @@ class ApiClient {
 
     async updateAuthorBook(
         bookId: number,
-        authorAddress: string,
-        updates: {
+        updates: BookMetadataInput & {
             title?: string;
             coverImageUrl?: string | null;
             pagePrice?: string;
             chapterPrice?: string;
+            /** null stops selling the book as a whole. */
+            bookPrice?: string | null;
+            freePages?: number;
+            freeChapters?: number;
+            chapters?: ChapterTitleInput[];
         }
     ): Promise<Book> {
-        const response = await fetch(`${this.baseUrl}/api/author/books/${bookId}`, {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}`, {
             method: 'PATCH',
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify({
-                authorAddress,
-                ...updates,
-            }),
+            body: JSON.stringify(updates),
         });
 
         if (!response.ok) {
-            throw new Error('Failed to update book');
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to update book');
         }
 
         const data = await response.json() as { book: Book };
         return data.book;
     }
+
+    /** Current format and source of one page, for revising it. */
+    async getRevisablePage(bookId: number, pageNumber: number): Promise<RevisablePage> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/pages/${pageNumber}`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch page');
+        }
+
+        const data = await response.json() as { page: RevisablePage };
+        return data.page;
+    }
+
+    async publishBookEdition(bookId: number, input: PublishEditionInput): Promise<BookEdition> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/editions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to publish edition');
+        }
+
+        const data = await response.json() as { edition: BookEdition };
+        return data.edition;
+    }
+
+    async updateAuthorBookStatus(bookId: number, status: BookStatus, publishAt?: string): Promise<BookStatusUpdate> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/status`, {
+            method: 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ status, publishAt }),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to update book status');
+        }
+
+        const data = await response.json() as { book: BookStatusUpdate };
+        return data.book;
+    }
+
+    async getAuthorPriceOverrides(bookId: number): Promise<PriceOverrides> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/prices`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch price overrides');
+        }
+
+        const data = await response.json() as { overrides: PriceOverrides };
+        return data.overrides;
+    }
+
+    /** Replaces every page and chapter price override on the book. */
+    async updateAuthorPriceOverrides(bookId: number, input: PriceOverridesInput): Promise<PriceOverrides> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/prices`, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to update price overrides');
+        }
+
+        const data = await response.json() as { overrides: PriceOverrides };
+        return data.overrides;
+    }
+
+    /** Every split version of the book, newest first; open to the owner and its payees. */
+    async getBookSplitHistory(bookId: number): Promise<BookSplitVersion[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/splits`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch split history');
+        }
+
+        const data = await response.json() as { versions?: BookSplitVersion[] };
+        return Array.isArray(data.versions) ? data.versions : [];
+    }
+
+    /** Records a new revenue split for the book; it applies to charges from now on. */
+    async updateBookRevenueSplit(bookId: number, input: RevenueSplitInput): Promise<BookSplitVersion> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/splits`, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to update revenue split');
+        }
+
+        const data = await response.json() as { version: BookSplitVersion };
+        return data.version;
+    }
+
+    async getContributorSplits(): Promise<ContributorBookSplit[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/splits`);
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to fetch revenue splits');
+        }
+
+        const data = await response.json() as { books?: ContributorBookSplit[] };
+        return Array.isArray(data.books) ? data.books : [];
+    }
+
+    async getAuthorBookBundles(bookId: number): Promise<BookBundle[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/bundles`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch bundles');
+        }
+
+        const data = await response.json() as { bundles?: BookBundle[] };
+        return Array.isArray(data.bundles) ? data.bundles : [];
+    }
+
+    /** Creates a bundle, or updates it when `bundleId` is given. */
+    async saveAuthorBookBundle(bookId: number, bundleId: number | null, input: BundleInput): Promise<BookBundle> {
+        const url = bundleId === null
+            ? `${this.baseUrl}/api/author/books/${bookId}/bundles`
+            : `${this.baseUrl}/api/author/books/${bookId}/bundles/${bundleId}`;
+        const response = await this.authorizedFetch(url, {
+            method: bundleId === null ? 'POST' : 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to save bundle');
+        }
+
+        const data = await response.json() as { bundle: BookBundle };
+        return data.bundle;
+    }
+
+    async retireAuthorBookBundle(bookId: number, bundleId: number): Promise<BookBundle> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/books/${bookId}/bundles/${bundleId}`, {
+            method: 'DELETE',
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to retire bundle');
+        }
+
+        const data = await response.json() as { bundle: BookBundle };
+        return data.bundle;
+    }
+
+    async getAuthorPromotions(): Promise<Promotion[]> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/promotions`);
+        if (!response.ok) {
+            throw new Error('Failed to fetch promotions');
+        }
+
+        const data = await response.json() as { promotions?: Promotion[] };
+        return Array.isArray(data.promotions) ? data.promotions : [];
+    }
+
+    /** Creates a promotion, or updates it when `promotionId` is given. */
+    async saveAuthorPromotion(promotionId: number | null, input: PromotionInput): Promise<Promotion> {
+        const url = promotionId === null
+            ? `${this.baseUrl}/api/author/promotions`
+            : `${this.baseUrl}/api/author/promotions/${promotionId}`;
+        const response = await this.authorizedFetch(url, {
+            method: promotionId === null ? 'POST' : 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to save promotion');
+        }
+
+        const data = await response.json() as { promotion: Promotion };
+        return data.promotion;
+    }
+
+    async endAuthorPromotion(promotionId: number): Promise<Promotion> {
+        const response = await this.authorizedFetch(`${this.baseUrl}/api/author/promotions/${promotionId}`, {
+            method: 'DELETE',
+        });
+
+        if (!response.ok) {
+            const error = await safeParseError(response);
+            throw new Error(error || 'Failed to end promotion');
+        }
+
+        const data = await response.json() as { promotion: Promotion };
+        return data.promotion;
+    }
+
+    private authHeaders(extra?: HeadersInit): Headers {
+        const headers = new Headers(extra);
+        if (this.sessionToken) {
+            headers.set('Authorization', `Bearer ${this.sessionToken}`);
+        }
+        return headers;
+    }
+
+    private async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+        const response = await fetch(url, {
+            ...init,
+            headers: this.authHeaders(init.headers),
+        });
+
+        if (response.status === 401 && this.sessionToken && this.unauthorizedHandler) {
+            this.unauthorizedHandler();
+        }
+
+        return response;
+    }
 }
 
 export const apiClient = new ApiClient(API_URL);
 
+function toStatementSearch(query: CreditTransactionQuery & { format?: string }): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== '') {
+            params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+        }
+    }
+
+    const search = params.toString();
+    return search ? `?${search}` : '';
+}
+
 function asString(value: unknown): string | undefined {
     return typeof value === 'string' ? value : undefined;
 }
@@ -324,6 +1144,26 @@ function asInsufficientCreditPayload(value: unknown): InsufficientCreditPayload
     return undefined;
 }
 
+/** Upload errors say whether the same request is worth retrying (network or server failures). */
+export class UploadRequestError extends Error {
+    constructor(message: string, readonly retryable: boolean) {
+        super(message);
+        this.name = 'UploadRequestError';
+    }
+}
+
+async function readUploadSessionResponse(
+    response: Response,
+    fallbackError: string
+): Promise<{ session: UploadSessionInfo; bookId?: number }> {
+    if (!response.ok) {
+        const error = await safeParseError(response);
+        throw new UploadRequestError(error || fallbackError, response.status >= 500 || response.status === 429);
+    }
+
+    return await response.json() as { session: UploadSessionInfo; bookId?: number };
+}
+
 async function safeParseError(response: Response): Promise<string | null> {
     try {
         const body = await response.json() as { error?: string };
@@ -333,21 +1173,205 @@ async function safeParseError(response: Response): Promise<string | null> {
     }
 }
 
-interface UploadBookInput {
-    authorAddress: string;
+interface BookCatalogQuery {
+    q?: string;
+    author?: string;
+    minPrice?: string;
+    maxPrice?: string;
+    minPages?: number;
+    maxPages?: number;
+    sort?: BookCatalogSort;
+    limit?: number;
+    cursor?: string | null;
+}
+
+interface BookMetadataInput {
+    description?: string | null;
+    genres?: string[];
+    language?: string | null;
+    isbn?: string | null;
+    contentRating?: ContentRating;
+}
+
+interface BookLifecycleInput {
+    /** Defaults to draft on the server. */
+    status?: Exclude<BookStatus, 'archived'>;
+    /** ISO timestamp, required with `scheduled`. */
+    publishAt?: string;
+}
+
+interface BookStatusUpdate {
+    id: number;
+    status: BookStatus;
+    publishAt: string | null;
+    publishedAt: string | null;
+    archivedAt: string | null;
+}
+
+interface UploadBookInput extends BookMetadataInput, BookLifecycleInput {
     title: string;
     coverImageUrl?: string;
     totalPages: number;
     totalChapters: number;
     pagePrice: string;
     chapterPrice: string;
+    contentFormat?: PageContentFormat;
+}
+
+interface EpubImportOptions extends BookMetadataInput, BookLifecycleInput {
+    pagePrice: string;
+    chapterPrice: string;
+    title?: string;
+    coverImageUrl?: string;
+}
+
+interface ChapterTitleInput {
+    chapterNumber: number;
+    title: string;
 }
 
 interface UploadPageInput {
     pageNumber: number;
     chapterNumber?: number;
     content: string;
-    pdfPageBase64?: string;
+    /** Key returned by uploadPdfPage. */
+    pdfObjectKey?: string;
+}
+
+interface PublishEditionInput {
+    changelog: string;
+    /** Replaces pages with the same number; pages after the last one are appended. */
+    pages: Array<UploadPageInput & { format?: PageContentFormat }>;
+    /** Drop every page after this number. */
+    truncateAfter?: number;
+    chapters?: ChapterTitleInput[];
+}
+
+interface PriceOverridesInput {
+    pages: Array<{ pageNumber: number; price: string }>;
+    chapters: Array<{ chapterNumber: number; price: string }>;
+}
+
+interface RevenueSplitInput {
+    shares: RevenueSplitShare[];
+    note?: string;
+}
+
+interface BundleInput {
+    title?: string;
+    chapters?: number[];
+    price?: string;
+    isActive?: boolean;
+}
+
+interface PromotionInput {
+    bookId?: number | null;
+    title?: string;
+    code?: string | null;
+    percentOff?: number;
+    startsAt?: string;
+    endsAt?: string | null;
+    maxRedemptions?: number | null;
+    perWalletLimit?: number | null;
+    isActive?: boolean;
+}
+
+interface AppliedDiscountCode {
+    title: string;
+    code: string;
+    percentOff: number;
+    endsAt: string | null;
+}
+
+interface SubscribeResponse {
+    subscription: ReaderSubscription;
+    alreadySubscribed: boolean;
+    creditBalance: string;
+    creditDeducted: string;
+}
+
+interface GiftInput {
+    kind: GiftKind;
+    amount?: string;
+    bookId?: number;
+    chapterNumber?: number;
+    recipientAddress?: string;
+    message?: string;
+}
+
+interface SendGiftResponse {
+    giftId: number;
+    code: string | null;
+    deliveredAs: GiftKind | null;
+    creditBalance: string;
+    creditDeducted: string;
+}
+
+interface RedeemGiftResponse {
+    giftId: number;
+    kind: GiftKind;
+    deliveredAs: GiftKind;
+    bookId: number | null;
+    chapterNumber: number | null;
+    amount: string;
+    creditBalance: string;
+}
+
+interface DisputeInput {
+    bookId: number;
+    pageNumber?: number;
+    chapterNumber?: number;
+    reason: string;
+}
+
+interface CreditTransactionQuery {
+    type?: CreditTransactionType[];
+    bookId?: number;
+    from?: string;
+    to?: string;
+    limit?: number;
+    cursor?: string;
+}
+
+interface BookPurchaseResponse {
+    bookId: number;
+    bundleId: number | null;
+    listPrice: string;
+    priorSpend: string;
+    alreadyOwned: boolean;
+    creditBalance: string;
+    creditDeducted: string;
+}
+
+interface UploadSessionPageInput extends UploadPageInput {
+    format?: PageContentFormat;
+    /** Single-page PDF sent alongside the page in the same request. */
+    pdfPageBytes?: Uint8Array;
+}
+
+interface CreateUploadSessionInput {
+    sourceType: 'pages' | 'epub';
+    book: Omit<UploadBookInput, 'title' | 'totalPages' | 'totalChapters'> & { title?: string };
+    chapters?: ChapterTitleInput[];
+    expectedPages?: number;
+}
+
+interface UploadSessionInfo {
+    id: string;
+    status: 'open' | 'finalizing' | 'completed' | 'aborted' | 'expired';
+    sourceType: 'pages' | 'epub';
+    bookId: number | null;
+    expectedPages: number | null;
+    progress: {
+        receivedPages: number;
+        lastPageNumber: number | null;
+        missing: Array<{ from: number; to: number }>;
+        parts: Array<{ partNumber: number; byteSize: number; sha256: string }>;
+        receivedBytes: number;
+        readyToFinalize: boolean;
+    };
+    lastError: string | null;
+    expiresAt: string;
 }
 
 interface AuthorEarningsApiResponse {
@@ -358,6 +1382,7 @@ interface AuthorEarningsApiResponse {
         earnings: string;
         pages_sold: number;
         chapters_sold: number;
+        unique_readers: number;
     }>;
 }
 
@@ -369,9 +1394,23 @@ interface AuthorEarningsResult {
         earnings: bigint;
         pages_sold: number;
         chapters_sold: number;
+        unique_readers: number;
     }>;
 }
 
+interface AuthChallengeResponse {
+    nonce: string;
+    walletAddress: string;
+    message: string;
+    expiresAt: string;
+}
+
+interface AuthSessionResponse {
+    token: string;
+    walletAddress: string;
+    expiresAt: string;
+}
+
 interface DepositIntentResponse {
     intentId: string;
     walletAddress: string;
@@ -412,6 +1451,9 @@ interface CreditFundingPayload {
 export type ReaderPageResult = Awaited<ReturnType<ApiClient['getPage']>>;
 export type ReaderDepositIntent = DepositIntentResponse;
 export type ReaderDepositSettlement = DepositSettlementResponse;
+export type WalletAuthSession = AuthSessionResponse;
+export type CatalogQuery = BookCatalogQuery;
+export type AuthorUploadSession = UploadSessionInfo;
 
 export interface X402Diagnostics {
     readerAddress?: string;
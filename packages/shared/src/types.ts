@@ -8,9 +8,28 @@ export interface Book {
     totalChapters: number;
     pagePrice: bigint | string;      // µSTX
     chapterPrice: bigint | string;   // µSTX
+    bookPrice?: bigint | string | null; // µSTX for the whole book; null when not sold whole
+    freePages?: number;              // Leading pages readable without a charge
+    freeChapters?: number;           // Leading chapters readable without a charge
     createdAt: Date | string;
+    readerCount?: number;            // Distinct readers with saved progress (catalog listings)
+    description?: string | null;
+    genres?: string[];
+    language?: string | null;        // BCP 47 tag, e.g. "en" or "pt-BR"
+    isbn?: string | null;            // Normalized ISBN-10/13 without hyphens
+    contentRating?: ContentRating;
+    status?: BookStatus;
+    publishAt?: Date | string | null;   // Go-live time for scheduled books
+    publishedAt?: Date | string | null; // First time the book went live
+    currentEdition?: number;
+    activeSale?: BookSale | null;    // Best automatic sale running right now
 }
 
+export type ContentRating = 'general' | 'teen' | 'mature';
+
+// draft -> scheduled -> published <-> unlisted (link-only) -> archived (existing buyers only)
+export type BookStatus = 'draft' | 'scheduled' | 'published' | 'unlisted' | 'archived';
+
 export interface Page {
     id: number;
     bookId: number;
@@ -19,11 +38,250 @@ export interface Page {
     content: string;
 }
 
+/** One published revision of a book; edition 1 is the original upload. */
+export interface BookEdition {
+    edition: number;
+    changelog: string | null;
+    totalPages: number;
+    totalChapters: number;
+    changedPages: number[];          // Pages rewritten or added by this edition
+    removedPages: number[];          // Pages dropped from the end of the book
+    createdAt: Date | string;
+}
+
+/** A current page as its author edits it; rich pages carry their sanitized source. */
+export interface RevisablePage {
+    pageNumber: number;
+    chapterNumber: number | null;
+    format: PageContentFormat;
+    content: string;
+    hasPdf: boolean;                 // Revisions keep the stored PDF unless they send a new one
+}
+
+/** Author-defined set of chapters sold together, e.g. "Part II". */
+export interface BookBundle {
+    id: number;
+    bookId: number;
+    title: string;
+    chapterNumbers: number[];
+    price: string;                   // µSTX
+    isActive: boolean;               // Retired bundles are no longer sold
+    createdAt: Date | string;
+    updatedAt: Date | string;
+}
+
+/** Whole-book or bundle purchase option, priced for the signed-in reader. */
+export interface BookOffer {
+    scope: 'book' | 'bundle';
+    bundleId: number | null;
+    title: string;
+    chapterNumbers: number[] | null; // null for the whole book
+    listPrice: string;               // µSTX
+    price: string;                   // µSTX after subtracting what the reader already spent
+    owned: boolean;
+}
+
 export interface Chapter {
     number: number;
     title: string;
     startPage: number;
     endPage: number;
+    price?: string | null;           // Effective µSTX price when bought as a chapter
+}
+
+/** Author-set prices that replace the book's flat page or chapter price. */
+export interface PriceOverrides {
+    pages: Array<{ number: number; price: string }>;
+    chapters: Array<{ number: number; price: string }>;
+}
+
+/** Author-run sale; with a `code` it applies only to readers who enter it. */
+export interface Promotion {
+    id: number;
+    bookId: number | null;           // null covers every book by the author
+    title: string;
+    code: string | null;             // Upper-case discount code
+    percentOff: number;
+    startsAt: Date | string;
+    endsAt: Date | string | null;
+    maxRedemptions: number | null;   // Total discounted unlocks allowed
+    perWalletLimit: number | null;   // Discounted unlocks allowed per reader
+    redemptionCount: number;
+    isActive: boolean;
+    createdAt: Date | string;
+}
+
+export interface BookSale {
+    title: string;
+    percentOff: number;
+    endsAt: Date | string | null;
+}
+
+/** Monthly all-you-can-read plan paid from prepaid credits. */
+export interface SubscriptionPlan {
+    id: number;
+    name: string;
+    description: string | null;
+    price: string;                   // µSTX per month
+    isActive: boolean;
+    createdAt: Date | string;
+}
+
+/** A reader's current or most recent paid month. */
+export interface ReaderSubscription {
+    id: number;
+    plan: Pick<SubscriptionPlan, 'id' | 'name' | 'price'>;
+    amount: string;                  // µSTX paid for this month
+    startsAt: Date | string;
+    endsAt: Date | string;
+    isActive: boolean;
+    autoRenew: boolean;              // false once cancelled; access lasts until endsAt
+}
+
+export type GiftKind = 'credits' | 'book' | 'chapter';
+
+/** Credits or an unlock paid for by one wallet for another, as seen by either side. */
+export interface Gift {
+    id: number;
+    direction: 'sent' | 'received';
+    senderAddress: string;
+    recipientAddress: string | null; // null until a gift code is redeemed
+    kind: GiftKind;
+    deliveredAs: GiftKind | null;    // 'credits' when the redeemer already owned the content
+    bookId: number | null;
+    bookTitle: string | null;
+    chapterNumber: number | null;
+    amount: string;                  // µSTX paid by the sender
+    message: string | null;
+    status: 'pending' | 'delivered';
+    createdAt: Date | string;
+    deliveredAt: Date | string | null;
+}
+
+/** A reader's dispute over a page or chapter charge; approval refunds it in full. */
+export interface CreditDispute {
+    id: number;
+    walletAddress: string;
+    creditTransactionId: number;
+    bookId: number | null;
+    bookTitle: string | null;
+    pageNumber: number | null;
+    chapterNumber: number | null;
+    amount: string;                  // µSTX charged
+    reason: string;
+    status: 'open' | 'approved' | 'denied';
+    resolutionNote: string | null;
+    createdAt: Date | string;
+    resolvedAt: Date | string | null;
+}
+
+/** Unused credit sent back to the reader's wallet from the treasury. */
+export interface CreditWithdrawal {
+    id: number;
+    walletAddress: string;
+    amount: string;                  // µSTX held from the balance
+    status: 'pending' | 'broadcasted' | 'confirmed' | 'failed';
+    payoutTxHash: string | null;
+    lastError: string | null;
+    createdAt: Date | string;
+    broadcastAt: Date | string | null;
+    confirmedAt: Date | string | null;
+    failedAt: Date | string | null; // the hold is back in the balance
+}
+
+export type CreditTransactionType =
+    | 'deposit'
+    | 'deduction'
+    | 'refund'
+    | 'gift_sent'
+    | 'gift_received'
+    | 'withdrawal_hold'
+    | 'withdrawal_release';
+
+export interface CreditTransaction {
+    id: number;
+    type: CreditTransactionType;
+    source: string | null;            // e.g. page_unlock, chapter_unlock, subscription, gift
+    amount: string;                   // signed µSTX; negative for spending and holds
+    balanceAfter: string;
+    bookId: number | null;
+    bookTitle: string | null;
+    pageNumber: number | null;
+    chapterNumber: number | null;
+    referenceId: string | null;
+    depositTxHash: string | null;     // on-chain top-up for deposits
+    withdrawalTxHash: string | null;  // treasury transfer for withdrawal holds and releases
+    unlock: {
+        kind: 'page' | 'chapter' | 'book' | 'bundle' | 'subscription';
+        bundleId: number | null;
+        subscriptionId: number | null;
+        unlockedAt: Date | string | null;
+    } | null;                         // null once a disputed unlock is refunded
+    createdAt: Date | string;
+}
+
+export type SplitRole = 'author' | 'co_author' | 'illustrator' | 'translator' | 'editor' | 'other';
+
+export interface RevenueSplitShare {
+    payeeAddress: string;
+    role: SplitRole;
+    shareBps: number;                // basis points of the author share; a version sums to 10000
+}
+
+export interface BookSplitVersion {
+    id: number;
+    bookId: number;
+    createdBy: string;
+    note: string | null;
+    createdAt: Date | string;
+    shares: RevenueSplitShare[];
+}
+
+export interface ContributorBookSplit {
+    bookId: number;
+    bookTitle: string;
+    ownerAddress: string;
+    current: BookSplitVersion;       // applies to new charges
+}
+
+export type EarningsInterval = 'day' | 'week' | 'month';
+
+export interface EarningsSeriesPoint {
+    periodStart: Date | string;      // start of the day, Monday-based week or month
+    amount: string;                  // µSTX, refunds excluded
+    unlocks: number;
+    readers: number;
+}
+
+export interface AuthorPayoutBreakdown {
+    settled: { amount: string; batchCount: number };
+    pending: { amount: string; batchCount: number };
+    failed: { amount: string; batchCount: number };  // re-queued into later batches
+    unbatchedAmount: string;
+    outstandingClawbacks: string;
+    recentBatches: Array<{
+        id: number;
+        status: string;
+        totalAmount: string;
+        clawbackAmount: string;
+        eventCount: number;
+        payoutTxHash: string | null;
+        lastError: string | null;
+        createdAt: Date | string;
+        confirmedAt: Date | string | null;
+    }>;
+}
+
+export interface BookUnlockFunnel {
+    bookId: number;
+    totalPages: number;
+    upfrontBuyers: number;           // whole-book and bundle buyers, not counted per page
+    pages: Array<{
+        pageNumber: number;
+        chapterNumber: number | null;
+        free: boolean;
+        readers: number;             // distinct readers who paid for this page
+    }>;
 }
 
 // Payment types
@@ -70,20 +328,44 @@ export interface ApiResponse<T> {
 export interface BookListResponse {
     books: Book[];
     total: number;
+    nextCursor?: string | null;
 }
 
+export type BookCatalogSort = 'newest' | 'cheapest' | 'most_read' | 'relevance';
+
 export interface ContentResponse {
     content: string;
     pageNumber: number;
     chapterNumber?: number;
     nextPage?: number;
     prevPage?: number;
-    renderType?: 'text' | 'pdf-page';
+    renderType?: PageRenderType;
+    /** Inline PDF, only for pages uploaded before PDFs moved to object storage. */
     pdfPageBase64?: string;
+    /** API path or short-lived signed URL for the stored single-page PDF. */
+    pdfPageUrl?: string;
+    images?: PageImage[];
+    /** Current edition of the book. */
+    edition?: number;
+    /** Edition that last changed this page; null when unchanged since the original upload. */
+    revisedInEdition?: number | null;
     creditBalance?: string;
     creditDeducted?: string;
 }
 
+/** `markdown` and `html` content is sanitized against an allowlist when the book is uploaded. */
+export type PageRenderType = 'text' | 'pdf-page' | 'markdown' | 'html';
+
+/** Formats an author can upload page text in. */
+export type PageContentFormat = Exclude<PageRenderType, 'pdf-page'>;
+
+/** Image embedded in an imported page; `position` is a character offset into `content`. */
+export interface PageImage {
+    url: string;
+    alt: string;
+    position: number;
+}
+
 export interface CreditTopUpRequirement {
     recipient: string;
     network: string;
@@ -118,5 +400,6 @@ export interface AuthorEarnings {
         earnings: bigint;
         pagesSold: number;
         chaptersSold: number;
+        uniqueReaders: number;
     }[];
 }